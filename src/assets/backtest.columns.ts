@@ -13,12 +13,14 @@ import { GLOBAL_CONFIG } from "../config/params";
  * Used by {@link BacktestMarkdownService} to generate markdown tables showing:
  * - Signal identification (ID, symbol, position)
  * - Price levels (open, close, take profit, stop loss)
- * - Performance metrics (PNL percentage, close reason)
+ * - Performance metrics (PNL percentage, fees paid, slippage cost, funding, leverage, return on margin, close reason)
  * - Timing information (duration, timestamps)
  *
  * @remarks
  * Columns can be conditionally visible based on {@link GLOBAL_CONFIG} settings.
  * For example, the "note" column visibility is controlled by `CC_REPORT_SHOW_SIGNAL_NOTE`.
+ * Fees, slippage, funding and fill columns follow `CC_REPORT_SHOW_COST_BREAKDOWN`;
+ * leverage and margin PNL columns follow `CC_REPORT_SHOW_LEVERAGE`.
  *
  * @example
  * ```typescript
@@ -131,6 +133,60 @@ export const backtest_columns: ColumnModel<IStrategyTickResultClosed>[] = [
     format: (data) => `${data.pnl.pnlCost > 0 ? "+" : ""}${data.pnl.pnlCost.toFixed(getPriceScale(data.pnl.pnlCost))} USD`,
     isVisible: () => true,
   },
+  {
+    key: "fees",
+    label: "Fees (USD)",
+    format: (data) =>
+      data.pnl.feeOpenCost !== undefined && data.pnl.feeCloseCost !== undefined
+        ? `${data.pnl.feeOpenCost.toFixed(2)} + ${data.pnl.feeCloseCost.toFixed(2)} USD`
+        : "N/A",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN,
+  },
+  {
+    key: "slippage",
+    label: "Slippage (USD)",
+    format: (data) =>
+      data.pnl.slippageCost !== undefined
+        ? `${data.pnl.slippageCost.toFixed(2)} USD`
+        : "N/A",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN,
+  },
+  {
+    key: "funding",
+    label: "Funding (USD)",
+    format: (data) =>
+      data.pnl.fundingCost !== undefined
+        ? `${data.pnl.fundingCost.toFixed(2)} USD`
+        : "N/A",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN,
+  },
+  {
+    key: "filled",
+    label: "Filled",
+    format: (data) => {
+      const { cost, unfilledCost } = data.signal;
+      if (!unfilledCost) return "full";
+      return `partial ${(((cost - unfilledCost) / cost) * 100).toFixed(1)}%`;
+    },
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN,
+  },
+  {
+    key: "leverage",
+    label: "Leverage",
+    format: (data) =>
+      data.pnl.leverage !== undefined ? `${data.pnl.leverage}x` : "1x",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_LEVERAGE,
+  },
+  {
+    key: "pnlMargin",
+    label: "PNL (margin)",
+    format: (data) => {
+      const pnlMarginPercentage = data.pnl.pnlMarginPercentage;
+      if (pnlMarginPercentage === undefined) return "N/A";
+      return `${pnlMarginPercentage > 0 ? "+" : ""}${pnlMarginPercentage.toFixed(2)}%`;
+    },
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_LEVERAGE,
+  },
   {
     key: "partialExecuted",
     label: "Partial Executed %",
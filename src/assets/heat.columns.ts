@@ -50,6 +50,13 @@ export const heat_columns: ColumnModel<IHeatmapRow>[] = [
       data.totalPnl !== null ? `${data.totalPnl.toFixed(2)}%` : "N/A",
     isVisible: () => true,
   },
+  {
+    key: "totalPnlCost",
+    label: "Total PNL Cost",
+    format: (data) =>
+      data.totalPnlCost !== null ? data.totalPnlCost.toFixed(2) : "N/A",
+    isVisible: () => true,
+  },
   {
     key: "sharpeRatio",
     label: "Sharpe",
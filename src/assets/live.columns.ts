@@ -20,6 +20,8 @@ import { GLOBAL_CONFIG } from "../config/params";
  * @remarks
  * This configuration tracks all event types: idle, opened, active, and closed signals.
  * The "note" column visibility is controlled by {@link GLOBAL_CONFIG.CC_REPORT_SHOW_SIGNAL_NOTE}.
+ * Fees, slippage and funding columns follow {@link GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN};
+ * leverage and margin PNL columns follow {@link GLOBAL_CONFIG.CC_REPORT_SHOW_LEVERAGE}.
  *
  * @example
  * ```typescript
@@ -186,6 +188,49 @@ export const live_columns: ColumnModel<TickEvent>[] = [
         : "N/A",
     isVisible: () => true,
   },
+  {
+    key: "fees",
+    label: "Fees (USD)",
+    format: (data) =>
+      data.feeOpenCost !== undefined && data.feeCloseCost !== undefined
+        ? `${data.feeOpenCost.toFixed(2)} + ${data.feeCloseCost.toFixed(2)} USD`
+        : "N/A",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN,
+  },
+  {
+    key: "slippage",
+    label: "Slippage (USD)",
+    format: (data) =>
+      data.slippageCost !== undefined
+        ? `${data.slippageCost.toFixed(2)} USD`
+        : "N/A",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN,
+  },
+  {
+    key: "funding",
+    label: "Funding (USD)",
+    format: (data) =>
+      data.fundingCost !== undefined
+        ? `${data.fundingCost.toFixed(2)} USD`
+        : "N/A",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_COST_BREAKDOWN,
+  },
+  {
+    key: "leverage",
+    label: "Leverage",
+    format: (data) =>
+      data.leverage !== undefined ? `${data.leverage}x` : "N/A",
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_LEVERAGE,
+  },
+  {
+    key: "pnlMargin",
+    label: "PNL (margin)",
+    format: (data) => {
+      if (data.pnlMarginPercentage === undefined) return "N/A";
+      return `${data.pnlMarginPercentage > 0 ? "+" : ""}${data.pnlMarginPercentage.toFixed(2)}%`;
+    },
+    isVisible: () => GLOBAL_CONFIG.CC_REPORT_SHOW_LEVERAGE,
+  },
   {
     key: "closeReason",
     label: "Close Reason",
@@ -93,6 +93,15 @@ export const walker_strategy_columns: ColumnModel<IStrategyResult>[] = [
         : "N/A",
     isVisible: () => true,
   },
+  {
+    key: "totalPnlCost",
+    label: "Total PNL Cost",
+    format: (data) =>
+      data.stats.totalPnlCost !== null
+        ? `${data.stats.totalPnlCost > 0 ? "+" : ""}${data.stats.totalPnlCost.toFixed(2)}`
+        : "N/A",
+    isVisible: () => true,
+  },
   {
     key: "sharpeRatio",
     label: "Sharpe Ratio",
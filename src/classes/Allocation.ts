@@ -0,0 +1,167 @@
+import bt from "../lib";
+import { AllocationStatisticsModel } from "../model/AllocationStatistics.model";
+import { AllocatorName } from "../interfaces/Allocator.interface";
+import { ExchangeName } from "../interfaces/Exchange.interface";
+import { FrameName } from "../interfaces/Frame.interface";
+
+const ALLOCATION_METHOD_NAME_GET_DATA = "AllocationUtils.getData";
+const ALLOCATION_METHOD_NAME_GET_REPORT = "AllocationUtils.getReport";
+const ALLOCATION_METHOD_NAME_DUMP = "AllocationUtils.dump";
+const ALLOCATION_METHOD_NAME_CLEAR = "AllocationUtils.clear";
+
+/**
+ * Validates the allocator, exchange and frame names of a context.
+ */
+const VALIDATE_CONTEXT_FN = (
+  allocatorName: AllocatorName,
+  context: {
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  },
+  methodName: string
+) => {
+  bt.allocatorValidationService.validate(allocatorName, methodName);
+  bt.exchangeValidationService.validate(context.exchangeName, methodName);
+  context.frameName && bt.frameValidationService.validate(context.frameName, methodName);
+};
+
+/**
+ * Utility class for capital allocator operations.
+ *
+ * Shows the budget every strategy of an allocator owns, how much of it is locked
+ * by open positions, and how both changed over time. Exported as singleton
+ * instance for convenient usage.
+ *
+ * @example
+ * ```typescript
+ * import { Allocation } from "backtest-kit";
+ *
+ * const { allocations } = await Allocation.getData("core-satellite", {
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * allocations.forEach(({ strategyName, budget, used }) =>
+ *   console.log(`${strategyName}: ${used} / ${budget} USD`));
+ *
+ * await Allocation.dump("core-satellite", {
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * ```
+ */
+export class AllocationUtils {
+  /**
+   * Gets current budgets and the allocation history.
+   *
+   * @param allocatorName - Allocator identifier
+   * @param context - Execution context with exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @returns Promise resolving to allocation statistics object
+   */
+  public getData = async (
+    allocatorName: AllocatorName,
+    context: {
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<AllocationStatisticsModel> => {
+    bt.loggerService.info(ALLOCATION_METHOD_NAME_GET_DATA, { allocatorName });
+    VALIDATE_CONTEXT_FN(allocatorName, context, ALLOCATION_METHOD_NAME_GET_DATA);
+    const payload = {
+      allocatorName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest,
+    };
+    return {
+      allocatorName,
+      method: bt.allocatorSchemaService.get(allocatorName).method,
+      allocations: bt.allocatorConnectionService.getAllocations(payload),
+      history: bt.allocatorConnectionService.getHistory(payload),
+    };
+  };
+
+  /**
+   * Generates markdown report with current budgets and their usage over time.
+   *
+   * @param allocatorName - Allocator identifier
+   * @param context - Execution context with exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @returns Promise resolving to markdown formatted report string
+   */
+  public getReport = async (
+    allocatorName: AllocatorName,
+    context: {
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<string> => {
+    bt.loggerService.info(ALLOCATION_METHOD_NAME_GET_REPORT, { allocatorName });
+    VALIDATE_CONTEXT_FN(allocatorName, context, ALLOCATION_METHOD_NAME_GET_REPORT);
+    return await bt.allocatorMarkdownService.getReport(allocatorName, context.exchangeName, context.frameName, backtest);
+  };
+
+  /**
+   * Saves allocation report to disk.
+   *
+   * @param allocatorName - Allocator identifier
+   * @param context - Execution context with exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @param path - Optional directory path to save report (default: "./dump/allocator")
+   */
+  public dump = async (
+    allocatorName: AllocatorName,
+    context: {
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false,
+    path?: string
+  ): Promise<void> => {
+    bt.loggerService.info(ALLOCATION_METHOD_NAME_DUMP, { allocatorName, path });
+    VALIDATE_CONTEXT_FN(allocatorName, context, ALLOCATION_METHOD_NAME_DUMP);
+    await bt.allocatorMarkdownService.dump(allocatorName, context.exchangeName, context.frameName, backtest, path);
+  };
+
+  /**
+   * Drops budgets and history of the allocator. The next signal rebalances from scratch.
+   * Call between independent runs that share exchangeName and frameName.
+   *
+   * @param allocatorName - Allocator identifier
+   * @param context - Execution context with exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   */
+  public clear = async (
+    allocatorName: AllocatorName,
+    context: {
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<void> => {
+    bt.loggerService.info(ALLOCATION_METHOD_NAME_CLEAR, { allocatorName });
+    await bt.allocatorConnectionService.clear({
+      allocatorName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest,
+    });
+  };
+}
+
+/**
+ * Singleton instance of AllocationUtils for convenient capital allocator operations.
+ *
+ * @example
+ * ```typescript
+ * import { Allocation } from "backtest-kit";
+ *
+ * const { allocations, history } = await Allocation.getData("core-satellite", {
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * ```
+ */
+export const Allocation = new AllocationUtils();
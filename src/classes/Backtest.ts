@@ -12,6 +12,8 @@ import {
 import { Columns } from "../lib/services/markdown/BacktestMarkdownService";
 import { ExchangeName } from "../interfaces/Exchange.interface";
 import { FrameName } from "../interfaces/Frame.interface";
+import { IMonteCarloOptions } from "../interfaces/MonteCarlo.interface";
+import { MonteCarloStatisticsModel } from "../model/MonteCarloStatistics.model";
 import { slPriceToPercentShift } from "../math/slPriceToPercentShift";
 import { tpPriceToPercentShift } from "../math/tpPriceToPercentShift";
 import { slPercentShiftToPrice } from "../math/slPercentShiftToPrice";
@@ -27,11 +29,13 @@ import {
 } from "../config/ladder";
 import { SignalNotificationPayload } from "../lib/services/helpers/NotificationHelperService";
 import { Lookup } from "./Lookup";
+import { clearBacktestState } from "../helpers/clearBacktestState";
 
 const BACKTEST_METHOD_NAME_RUN = "BacktestUtils.run";
 const BACKTEST_METHOD_NAME_BACKGROUND = "BacktestUtils.background";
 const BACKTEST_METHOD_NAME_STOP = "BacktestUtils.stop";
 const BACKTEST_METHOD_NAME_GET_REPORT = "BacktestUtils.getReport";
+const BACKTEST_METHOD_NAME_GET_MONTE_CARLO = "BacktestUtils.getMonteCarlo";
 const BACKTEST_METHOD_NAME_DUMP = "BacktestUtils.dump";
 const BACKTEST_METHOD_NAME_TASK = "BacktestUtils.task";
 const BACKTEST_METHOD_NAME_GET_STATUS = "BacktestUtils.getStatus";
@@ -190,6 +194,108 @@ const INSTANCE_TASK_FN = async (
   self._isDone = true;
 };
 
+/**
+ * Validates the symbol list of a shared-timeline backtest and drops repeated symbols.
+ *
+ * @param symbols - Trading pair symbols passed to run or background
+ * @param methodName - Public method name for the error message
+ * @returns Unique symbols in the given order
+ * @throws Error when the list is empty
+ *
+ * @internal
+ */
+const GET_TIMELINE_SYMBOLS_FN = (symbols: string[], methodName: string): string[] => {
+  if (!symbols.length) {
+    throw new Error(`${methodName} requires at least one symbol`);
+  }
+  return [...new Set(symbols)];
+};
+
+/**
+ * Rejects execution models a shared-timeline backtest cannot honour. The timeline
+ * checks open signals on frame ticks, while fill models other than "vwap", order
+ * latency and candle-volume liquidity caps are evaluated on 1m candles only.
+ * Funding and gap-aware stops apply on frame ticks and are allowed.
+ *
+ * @param strategyName - Strategy run on the timeline
+ * @param methodName - Public method name for the error message
+ * @throws Error when the strategy or the config enables a candle-only model
+ *
+ * @internal
+ */
+const VALIDATE_TIMELINE_MODELS_FN = (strategyName: StrategyName, methodName: string) => {
+  const { fillModel = GLOBAL_CONFIG.CC_BACKTEST_FILL_MODEL, latency } =
+    backtest.strategySchemaService.get(strategyName);
+  const unsupported: string[] = [];
+  if (fillModel !== "vwap") {
+    unsupported.push(`fill model "${fillModel}"`);
+  }
+  if (latency) {
+    unsupported.push("latency");
+  }
+  if (GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT > 0) {
+    unsupported.push("CC_BACKTEST_MAX_VOLUME_PERCENT");
+  }
+  if (unsupported.length) {
+    throw new Error(
+      `${methodName} with several symbols does not support ${unsupported.join(", ")} (strategyName=${strategyName}): ` +
+      `run each symbol separately or disable them`,
+    );
+  }
+};
+
+/**
+ * Internal task function that runs a multi-symbol backtest on one shared timeline.
+ * Registers every symbol in Lookup and emits a done event per symbol on completion.
+ *
+ * @param symbols - Trading pair symbols stepped through the same frame
+ * @param context - Execution context with strategy, exchange, and frame names
+ * @returns Promise that resolves when the timeline completes
+ *
+ * @internal
+ */
+const TIMELINE_TASK_FN = async (
+  symbols: string[],
+  context: {
+    strategyName: StrategyName;
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  },
+) => {
+  for (const symbol of symbols) {
+    Lookup.addActivity({
+      symbol,
+      context,
+      backtest: true,
+    });
+  }
+  for (const symbol of symbols) {
+    clearBacktestState(symbol, context);
+  }
+  try {
+    for await (const _ of backtest.backtestCommandService.runTimeline(symbols, context)) {
+      // results are delivered through the signal emitters
+    }
+  } finally {
+    for (const symbol of symbols) {
+      Lookup.removeActivity({
+        symbol,
+        context,
+        backtest: true,
+      });
+    }
+  }
+  for (const symbol of symbols) {
+    await doneBacktestSubject.next({
+      exchangeName: context.exchangeName,
+      strategyName: context.strategyName,
+      frameName: context.frameName,
+      backtest: true,
+      symbol,
+    });
+  }
+};
+
 /**
  * Instance class for backtest operations on a specific symbol-strategy pair.
  *
@@ -303,106 +409,7 @@ export class BacktestInstance {
       context,
     });
 
-    {
-      backtest.backtestMarkdownService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.liveMarkdownService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.scheduleMarkdownService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.performanceMarkdownService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.partialMarkdownService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.riskMarkdownService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-    }
-
-    {
-      backtest.strategyCoreService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.timeMetaService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.priceMetaService.clear({
-        symbol,
-        strategyName: context.strategyName,
-        exchangeName: context.exchangeName,
-        frameName: context.frameName,
-        backtest: true,
-      });
-      backtest.frameConnectionService.clear(context.frameName);
-    }
-
-    {
-      const { riskName, riskList, actions } =
-        backtest.strategySchemaService.get(context.strategyName);
-      riskName &&
-        backtest.riskGlobalService.clear({
-          riskName,
-          exchangeName: context.exchangeName,
-          frameName: context.frameName,
-          backtest: true,
-        });
-      riskList &&
-        riskList.forEach((riskName) =>
-          backtest.riskGlobalService.clear({
-            riskName,
-            exchangeName: context.exchangeName,
-            frameName: context.frameName,
-            backtest: true,
-          }),
-        );
-      actions &&
-        actions.forEach((actionName) =>
-          backtest.actionCoreService.clear({
-            actionName,
-            strategyName: context.strategyName,
-            exchangeName: context.exchangeName,
-            frameName: context.frameName,
-            backtest: true,
-          }),
-        );
-    }
+    clearBacktestState(symbol, context);
 
     return backtest.backtestCommandService.run(symbol, context);
   };
@@ -522,15 +529,52 @@ export class BacktestUtils {
     ) => new BacktestInstance(symbol, strategyName, exchangeName, frameName),
   );
 
+  /**
+   * Memoized single-run task for a multi-symbol timeline.
+   * Prevents starting the same symbol list twice while it is still running.
+   */
+  private _getTimelineTask = memoize(
+    ([symbols, strategyName, exchangeName, frameName]) =>
+      `${symbols.join(",")}:${strategyName}:${exchangeName}:${frameName}`,
+    (
+      symbols: string[],
+      strategyName: StrategyName,
+      exchangeName: ExchangeName,
+      frameName: FrameName,
+    ) => singlerun(TIMELINE_TASK_FN),
+  );
+
   /**
    * Runs backtest for a symbol with context propagation.
    *
-   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * Passing a symbol list steps every symbol through the same frame timeframe in
+   * timestamp order, so risk validations, the portfolio ledger and Heat see the
+   * positions that were really open at each moment. See
+   * BacktestLogicPrivateService.runTimeline for the execution model.
+   *
+   * The list is deduplicated and a list of one symbol runs like a single symbol.
+   * With several symbols open signals are checked on frame ticks only, so a
+   * strategy with a fill model other than "vwap", latency or
+   * CC_BACKTEST_MAX_VOLUME_PERCENT is rejected: those need a single symbol.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT") or list of symbols
    * @param context - Execution context with strategy, exchange, and frame names
    * @returns Async generator yielding closed signals with PNL
+   * @throws Error when the symbol list is empty
+   *
+   * @example
+   * ```typescript
+   * for await (const result of Backtest.run(["BTCUSDT", "ETHUSDT"], {
+   *   strategyName: "my-strategy",
+   *   exchangeName: "my-exchange",
+   *   frameName: "1m-backtest"
+   * })) {
+   *   console.log(result.symbol, result.action);
+   * }
+   * ```
    */
   public run = (
-    symbol: string,
+    symbol: string | string[],
     context: {
       strategyName: StrategyName;
       exchangeName: ExchangeName;
@@ -576,13 +620,28 @@ export class BacktestUtils {
         );
     }
 
+    const symbols = Array.isArray(symbol)
+      ? GET_TIMELINE_SYMBOLS_FN(symbol, BACKTEST_METHOD_NAME_RUN)
+      : [symbol];
+
+    if (symbols.length > 1) {
+      VALIDATE_TIMELINE_MODELS_FN(context.strategyName, BACKTEST_METHOD_NAME_RUN);
+      backtest.loggerService.info(BACKTEST_METHOD_NAME_RUN, {
+        symbols,
+        context,
+      });
+      symbols.forEach((symbol) => clearBacktestState(symbol, context));
+      return backtest.backtestCommandService.runTimeline(symbols, context);
+    }
+
+    const [single] = symbols;
     const instance = this._getInstance(
-      symbol,
+      single,
       context.strategyName,
       context.exchangeName,
       context.frameName,
     );
-    return instance.run(symbol, context);
+    return instance.run(single, context);
   };
 
   /**
@@ -591,9 +650,12 @@ export class BacktestUtils {
    * Consumes all backtest results internally without exposing them.
    * Useful for running backtests for side effects only (callbacks, logging).
    *
-   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * A symbol list runs all symbols on one shared timeline (see `run`).
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT") or list of symbols
    * @param context - Execution context with strategy, exchange, and frame names
    * @returns Cancellation closure
+   * @throws Error when the symbol list is empty
    *
    * @example
    * ```typescript
@@ -607,7 +669,7 @@ export class BacktestUtils {
    * ```
    */
   public background = (
-    symbol: string,
+    symbol: string | string[],
     context: {
       strategyName: StrategyName;
       exchangeName: ExchangeName;
@@ -651,13 +713,49 @@ export class BacktestUtils {
         );
     }
 
+    const symbols = Array.isArray(symbol)
+      ? GET_TIMELINE_SYMBOLS_FN(symbol, BACKTEST_METHOD_NAME_BACKGROUND)
+      : [symbol];
+
+    if (symbols.length > 1) {
+      VALIDATE_TIMELINE_MODELS_FN(context.strategyName, BACKTEST_METHOD_NAME_BACKGROUND);
+      backtest.loggerService.info(BACKTEST_METHOD_NAME_BACKGROUND, {
+        symbols,
+        context,
+      });
+      const task = this._getTimelineTask(
+        symbols,
+        context.strategyName,
+        context.exchangeName,
+        context.frameName,
+      );
+      if (task.getStatus() === "pending") {
+        throw new Error(
+          `Backtest.background is already running for symbols=${symbols.join(",")} strategyName=${context.strategyName} exchangeName=${context.exchangeName} frameName=${context.frameName}`,
+        );
+      }
+      task(symbols, context).catch((error) =>
+        exitEmitter.next(new Error(getErrorMessage(error))),
+      );
+      return () => {
+        for (const item of symbols) {
+          backtest.strategyCoreService.stopStrategy(true, item, {
+            strategyName: context.strategyName,
+            exchangeName: context.exchangeName,
+            frameName: context.frameName,
+          });
+        }
+      };
+    }
+
+    const [single] = symbols;
     const instance = this._getInstance(
-      symbol,
+      single,
       context.strategyName,
       context.exchangeName,
       context.frameName,
     );
-    return instance.background(symbol, context);
+    return instance.background(single, context);
   };
 
   /**
@@ -5207,6 +5305,7 @@ export class BacktestUtils {
           symbol,
           currentPrice,
           context,
+          cost,
         ),
       )
     ) {
@@ -5357,6 +5456,58 @@ export class BacktestUtils {
     );
   };
 
+  /**
+   * Resamples the closed signals of a finished backtest with Monte Carlo.
+   * Shows how much of the result depends on trade order and luck.
+   *
+   * @param symbol - Trading pair symbol
+   * @param context - Execution context with strategy, exchange, and frame names
+   * @param options - Resampling method (shuffle, bootstrap, block), number of paths and seed
+   * @returns Promise resolving to percentile bands of total PNL, max drawdown, Sharpe and losing streak, plus risk of ruin
+   *
+   * @example
+   * ```typescript
+   * const monteCarlo = await Backtest.getMonteCarlo("BTCUSDT", {
+   *   exchangeName: "binance",
+   *   frameName: "frame1",
+   *   strategyName: "my-strategy"
+   * }, { method: "block", simulations: 5000, seed: 7 });
+   * console.log(monteCarlo.maxDrawdown.p95, monteCarlo.riskOfRuin);
+   * ```
+   */
+  public getMonteCarlo = async (
+    symbol: string,
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    options?: IMonteCarloOptions,
+  ): Promise<MonteCarloStatisticsModel> => {
+    backtest.loggerService.info(BACKTEST_METHOD_NAME_GET_MONTE_CARLO, {
+      symbol,
+      context,
+      options,
+    });
+    backtest.strategyValidationService.validate(
+      context.strategyName,
+      BACKTEST_METHOD_NAME_GET_MONTE_CARLO,
+    );
+    backtest.exchangeValidationService.validate(
+      context.exchangeName,
+      BACKTEST_METHOD_NAME_GET_MONTE_CARLO,
+    );
+
+    return await backtest.backtestMarkdownService.getMonteCarlo(
+      symbol,
+      context.strategyName,
+      context.exchangeName,
+      context.frameName,
+      true,
+      options,
+    );
+  };
+
   /**
    * Generates markdown report with all closed signals for a symbol-strategy pair.
    *
@@ -5364,6 +5515,7 @@ export class BacktestUtils {
    * @param strategyName - Strategy name to generate report for
    * @param context - Execution context with exchangeName and frameName
    * @param columns - Optional columns configuration for the report
+   * @param monteCarlo - Optional Monte Carlo options, adds the Monte Carlo section when set
    * @returns Promise resolving to markdown formatted report string
    *
    * @example
@@ -5384,6 +5536,7 @@ export class BacktestUtils {
       frameName: FrameName;
     },
     columns?: Columns[],
+    monteCarlo?: IMonteCarloOptions,
   ): Promise<string> => {
     backtest.loggerService.info(BACKTEST_METHOD_NAME_GET_REPORT, {
       symbol,
@@ -5429,6 +5582,7 @@ export class BacktestUtils {
       context.frameName,
       true,
       columns,
+      monteCarlo,
     );
   };
 
@@ -5440,6 +5594,7 @@ export class BacktestUtils {
    * @param context - Execution context with exchangeName and frameName
    * @param path - Optional directory path to save report (default: "./dump/backtest")
    * @param columns - Optional columns configuration for the report
+   * @param monteCarlo - Optional Monte Carlo options, adds the Monte Carlo section when set
    *
    * @example
    * ```typescript
@@ -5467,6 +5622,7 @@ export class BacktestUtils {
     },
     path?: string,
     columns?: Columns[],
+    monteCarlo?: IMonteCarloOptions,
   ): Promise<void> => {
     backtest.loggerService.info(BACKTEST_METHOD_NAME_DUMP, {
       symbol,
@@ -5514,6 +5670,7 @@ export class BacktestUtils {
       true,
       path,
       columns,
+      monteCarlo,
     );
   };
 
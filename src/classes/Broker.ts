@@ -29,6 +29,7 @@ const BROKER_METHOD_NAME_COMMIT_TRAILING_STOP = "BrokerAdapter.commitTrailingSto
 const BROKER_METHOD_NAME_COMMIT_TRAILING_TAKE = "BrokerAdapter.commitTrailingTake";
 const BROKER_METHOD_NAME_COMMIT_BREAKEVEN = "BrokerAdapter.commitBreakeven";
 const BROKER_METHOD_NAME_COMMIT_AVERAGE_BUY = "BrokerAdapter.commitAverageBuy";
+const BROKER_METHOD_NAME_GET_BALANCE = "BrokerAdapter.getBalance";
 const BROKER_METHOD_NAME_USE_BROKER_ADAPTER = "BrokerAdapter.useBrokerAdapter";
 const BROKER_METHOD_NAME_ENABLE = "BrokerAdapter.enable";
 const BROKER_METHOD_NAME_DISABLE = "BrokerAdapter.disable";
@@ -52,6 +53,7 @@ const BROKER_BASE_METHOD_NAME_ON_TRAILING_STOP = "BrokerBase.onTrailingStopCommi
 const BROKER_BASE_METHOD_NAME_ON_TRAILING_TAKE = "BrokerBase.onTrailingTakeCommit";
 const BROKER_BASE_METHOD_NAME_ON_BREAKEVEN = "BrokerBase.onBreakevenCommit";
 const BROKER_BASE_METHOD_NAME_ON_AVERAGE_BUY = "BrokerBase.onAverageBuyCommit";
+const BROKER_BASE_METHOD_NAME_GET_BALANCE = "BrokerBase.getBalance";
 
 /**
  * Payload for the signal-open broker event.
@@ -597,7 +599,7 @@ export type BrokerPendingClosePayload = {
   priceTakeProfit: number;
   /** Effective stop-loss price of the closed position */
   priceStopLoss: number;
-  /** Why the position closed: "take_profit" / "stop_loss" / "time_expired" / "closed" */
+  /** Why the position closed: "take_profit" / "stop_loss" / "time_expired" / "closed" / "liquidation" */
   closeReason?: StrategyCloseReason;
   /** Strategy/exchange/frame routing context */
   context: {
@@ -1270,6 +1272,12 @@ export interface IBroker {
 
   /** Called when a DCA (average-buy) entry is committed. */
   onAverageBuyCommit(payload: BrokerAverageBuyPayload): Promise<void>;
+
+  /**
+   * Returns the live account balance in USD. Read before sizing a signal of a strategy
+   * with `sizingName` in live mode; `null` falls back to the portfolio ledger equity.
+   */
+  getBalance(): Promise<number | null>;
 }
 
 /**
@@ -1671,6 +1679,20 @@ export class BrokerProxy implements IBroker {
       { symbol: payload.symbol, context: payload.context },
     );
   }
+
+  /**
+   * Reads the live account balance from the underlying adapter.
+   * Returns `null` when the adapter does not implement `getBalance`.
+   *
+   * @returns Account balance in USD, or null
+   */
+  public async getBalance(): Promise<number | null> {
+    if (this._instance.getBalance) {
+      await this.waitForInit();
+      return await this._instance.getBalance();
+    }
+    return null;
+  }
 }
 
 /**
@@ -2262,6 +2284,27 @@ export class BrokerAdapter {
     }
   };
 
+  /**
+   * Reads the live account balance from the registered broker adapter.
+   *
+   * Used by position sizing of strategies with `sizingName` in live mode (registered
+   * with the portfolio ledger on `enable()`). Returns `null` when the broker is not
+   * enabled or the adapter does not implement `getBalance`.
+   *
+   * @returns Account balance in USD, or null
+   */
+  public getBalance = async (): Promise<number | null> => {
+    bt.loggerService.info(BROKER_METHOD_NAME_GET_BALANCE, {});
+    if (!this.enable.hasValue()) {
+      return null;
+    }
+    const instance = this.getInstance();
+    if (!instance) {
+      return null;
+    }
+    return await instance.getBalance();
+  };
+
   /**
    * Registers a broker adapter instance or constructor to receive commit* callbacks.
    *
@@ -2505,7 +2548,10 @@ export class BrokerAdapter {
       await this.commitPendingClose({ ...payload, closeReason: event.closeReason });
     });
 
+    bt.portfolioMetaService.setBalanceSource(this.getBalance);
+
     const disposeFn = compose(
+      () => bt.portfolioMetaService.setBalanceSource(null),
       () => unOrderOpen(),
       () => unOrderClose(),
       () => unOrderCheck(),
@@ -3136,6 +3182,24 @@ class BrokerBase implements IBroker {
       context: payload.context,
     });
   }
+
+  /**
+   * Returns the live account balance used to size signals of strategies with `sizingName`.
+   *
+   * Default implementation: Logs the call and returns null (portfolio ledger equity is used).
+   *
+   * @example
+   * ```typescript
+   * async getBalance() {
+   *   const { free } = await this.exchange.fetchBalance("USDT");
+   *   return free;
+   * }
+   * ```
+   */
+  public async getBalance(): Promise<number | null> {
+    bt.loggerService.info(BROKER_BASE_METHOD_NAME_GET_BALANCE, {});
+    return null;
+  }
 }
 
 // @ts-ignore
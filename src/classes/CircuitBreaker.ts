@@ -0,0 +1,500 @@
+import { errorData, getErrorMessage, memoize, queued, singleshot } from "functools-kit";
+import backtest from "../lib";
+import {
+  circuitTripSubject,
+  errorEmitter,
+  orderRejectSubject,
+  signalLiveEmitter,
+} from "../config/emitters";
+import { CircuitTripRule } from "../contract/CircuitTrip.contract";
+import { ExchangeName } from "../interfaces/Exchange.interface";
+import { IStrategyTickResult, StrategyName } from "../interfaces/Strategy.interface";
+import { getReportingPnl } from "../helpers/getReportingPnl";
+import MethodContextService from "../lib/services/context/MethodContextService";
+import { CircuitData, PersistCircuitAdapter } from "./Persist";
+import { Live } from "./Live";
+
+const CIRCUIT_BREAKER_METHOD_NAME_ENABLE = "CircuitBreakerUtils.enable";
+const CIRCUIT_BREAKER_METHOD_NAME_DISABLE = "CircuitBreakerUtils.disable";
+const CIRCUIT_BREAKER_METHOD_NAME_GET_STATE = "CircuitBreakerUtils.getState";
+const CIRCUIT_BREAKER_METHOD_NAME_TRIP = "CircuitBreakerUtils.trip";
+const CIRCUIT_BREAKER_METHOD_NAME_RESET = "CircuitBreakerUtils.reset";
+const CIRCUIT_BREAKER_METHOD_NAME_CLEAR = "CircuitBreakerUtils.clear";
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/**
+ * Rules of the account-level circuit breaker. Every rule is optional; limits
+ * apply per exchange account (all live strategies and symbols of one exchange).
+ */
+export interface ICircuitBreakerConfig {
+  /** Trip when the realized loss of the current UTC day reaches this amount, in USD */
+  maxRealizedLoss?: number;
+  /** Trip when the unrealized loss of open positions reaches this amount, in USD */
+  maxUnrealizedLoss?: number;
+  /** Trip after `count` OrderRejectedError rejections within `windowMinutes` */
+  maxOrderRejects?: {
+    count: number;
+    windowMinutes: number;
+  };
+  /** Trip when the last finished 1m candle lags the live clock by more than this, in minutes */
+  maxStaleMinutes?: number;
+  /** Close pending and cancel scheduled signals of every live strategy on trip (default false) */
+  flatten?: boolean;
+}
+
+/** Memoization key of one live strategy instance */
+const CREATE_KEY_FN = (symbol: string, strategyName: StrategyName, exchangeName: ExchangeName) =>
+  `${symbol}:${strategyName}:${exchangeName}` as const;
+
+/** Circuit breaker state of an exchange account that never tripped */
+const CREATE_STATE_FN = (exchangeName: ExchangeName): CircuitData => ({
+  exchangeName,
+  tripped: false,
+  rule: null,
+  note: null,
+  trippedAt: null,
+  dayStart: 0,
+  realizedPnl: 0,
+});
+
+const ASSERT_POSITIVE_NUMBER_FN = (name: string, value: number | undefined) => {
+  if (value === undefined) {
+    return;
+  }
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${CIRCUIT_BREAKER_METHOD_NAME_ENABLE}: ${name} must be a positive number, got ${value}`);
+  }
+};
+
+const VALIDATE_CONFIG_FN = (config: ICircuitBreakerConfig) => {
+  ASSERT_POSITIVE_NUMBER_FN("maxRealizedLoss", config.maxRealizedLoss);
+  ASSERT_POSITIVE_NUMBER_FN("maxUnrealizedLoss", config.maxUnrealizedLoss);
+  ASSERT_POSITIVE_NUMBER_FN("maxStaleMinutes", config.maxStaleMinutes);
+  if (config.maxOrderRejects) {
+    const { count, windowMinutes } = config.maxOrderRejects;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`${CIRCUIT_BREAKER_METHOD_NAME_ENABLE}: maxOrderRejects.count must be a positive integer, got ${count}`);
+    }
+    ASSERT_POSITIVE_NUMBER_FN("maxOrderRejects.windowMinutes", windowMinutes);
+  }
+};
+
+/** Logs a failed breaker step without interrupting the live loop */
+const WARN_FN = (message: string, error: unknown, payload: object = {}) => {
+  const data = {
+    ...payload,
+    error: errorData(error),
+    message: getErrorMessage(error),
+  };
+  backtest.loggerService.warn(message, data);
+  console.warn(message, data);
+  errorEmitter.next(error instanceof Error ? error : new Error(getErrorMessage(error)));
+};
+
+/**
+ * Minutes between the close of the last finished 1m candle and the tick timestamp.
+ * Returns null when the exchange returned no candle.
+ */
+const GET_CANDLE_LAG_FN = async (tick: IStrategyTickResult): Promise<number | null> => {
+  const [candle] = await MethodContextService.runInContext(
+    async () =>
+      await backtest.exchangeCoreService.getRawCandles(
+        tick.symbol,
+        "1m",
+        new Date(tick.createdAt),
+        false,
+        1,
+      ),
+    {
+      strategyName: tick.strategyName,
+      exchangeName: tick.exchangeName,
+      frameName: "",
+    },
+  );
+  if (!candle) {
+    return null;
+  }
+  return (tick.createdAt - (candle.timestamp + MS_PER_MINUTE)) / MS_PER_MINUTE;
+};
+
+/**
+ * Account-level circuit breaker (kill switch) for live trading.
+ *
+ * Watches live ticks and broker rejections of every exchange account and trips on:
+ * - realized loss of the current UTC day (closed signals, reporting currency when set)
+ * - unrealized loss of the open positions (live portfolio ledger)
+ * - order rejections: OrderRejectedError count within a sliding window
+ * - stale market data: the last finished 1m candle lags the live clock
+ *
+ * On trip every live strategy of the exchange is paused via Live.setPaused, pending
+ * signals are closed and scheduled ones cancelled when `flatten` is set (the close
+ * goes through the order sync gate, so an enabled Broker adapter sends the orders),
+ * and a CircuitTripContract is emitted (`circuit.trip` notification). The tripped
+ * state is persisted via PersistCircuitAdapter and checked by every live strategy
+ * before it generates a signal: after a restart new positions stay blocked from the
+ * first tick, even if enable() is not called again, until reset() is called.
+ *
+ * @example
+ * ```typescript
+ * import { CircuitBreaker, listenCircuitTrip } from "backtest-kit";
+ *
+ * CircuitBreaker.enable({
+ *   maxRealizedLoss: 500,
+ *   maxUnrealizedLoss: 1_000,
+ *   maxOrderRejects: { count: 3, windowMinutes: 15 },
+ *   maxStaleMinutes: 5,
+ *   flatten: true,
+ * });
+ *
+ * listenCircuitTrip(({ exchangeName, note }) => console.error(exchangeName, note));
+ *
+ * // after investigation
+ * await CircuitBreaker.reset("binance");
+ * ```
+ */
+export class CircuitBreakerUtils {
+  /** Rules of the enabled breaker, null while disabled */
+  private _config: ICircuitBreakerConfig | null = null;
+
+  /** Rejection timestamps per exchange inside the maxOrderRejects window */
+  private _rejectMap = new Map<ExchangeName, number[]>();
+
+  /** Timestamp of the last stale data check per strategy instance */
+  private _staleCheckMap = new Map<string, number>();
+
+  /**
+   * Strategy instances paused by the breaker, resumed on reset(). Values keep the
+   * instance fields: symbols like "BTC/USDT:USDT" cannot be split back out of the key.
+   */
+  private _pausedMap = new Map<string, { symbol: string; strategyName: StrategyName; exchangeName: ExchangeName }>();
+
+  /**
+   * Memoized state per exchange account, restored from PersistCircuitAdapter on first access.
+   * The promise resolves to one mutable object shared by every handler.
+   */
+  private getStateRef = memoize(
+    ([exchangeName]: [ExchangeName]) => exchangeName,
+    async (exchangeName: ExchangeName): Promise<CircuitData> =>
+      (await PersistCircuitAdapter.readCircuitData(exchangeName)) ?? CREATE_STATE_FN(exchangeName),
+  );
+
+  /**
+   * Pauses one live strategy instance and remembers it for reset().
+   */
+  private pauseInstance = async (symbol: string, strategyName: StrategyName, exchangeName: ExchangeName) => {
+    const key = CREATE_KEY_FN(symbol, strategyName, exchangeName);
+    if (this._pausedMap.has(key)) {
+      return;
+    }
+    this._pausedMap.set(key, { symbol, strategyName, exchangeName });
+    try {
+      await Live.setPaused(symbol, true, { strategyName, exchangeName });
+    } catch (error) {
+      this._pausedMap.delete(key);
+      WARN_FN("CircuitBreakerUtils pause failed", error, { symbol, strategyName, exchangeName });
+    }
+  };
+
+  /**
+   * Closes the pending and cancels the scheduled signal of one live strategy instance.
+   */
+  private flattenInstance = async (symbol: string, strategyName: StrategyName, exchangeName: ExchangeName, note: string) => {
+    try {
+      await Live.commitCancelScheduled(symbol, { strategyName, exchangeName }, { note });
+      await Live.commitClosePending(symbol, { strategyName, exchangeName }, { note });
+    } catch (error) {
+      WARN_FN("CircuitBreakerUtils flatten failed", error, { symbol, strategyName, exchangeName });
+    }
+  };
+
+  /**
+   * Trips the breaker of an exchange account once: persists the state, pauses
+   * (and optionally flattens) every live strategy of the exchange and emits the trip.
+   */
+  private tripFn = async (
+    exchangeName: ExchangeName,
+    rule: CircuitTripRule,
+    note: string,
+    value: number | null,
+    limit: number | null,
+    timestamp: number,
+  ) => {
+    const state = await this.getStateRef(exchangeName);
+    if (state.tripped) {
+      return;
+    }
+    state.tripped = true;
+    state.rule = rule;
+    state.note = note;
+    state.trippedAt = timestamp;
+    backtest.loggerService.warn("CircuitBreakerUtils tripped", {
+      exchangeName,
+      rule,
+      note,
+    });
+    await PersistCircuitAdapter.writeCircuitData({ ...state }, new Date(timestamp));
+    const flatten = !!this._config?.flatten;
+    const instanceList = (await Live.list()).filter((instance) => instance.exchangeName === exchangeName);
+    for (const { symbol, strategyName } of instanceList) {
+      await this.pauseInstance(symbol, strategyName, exchangeName);
+      if (flatten) {
+        await this.flattenInstance(symbol, strategyName, exchangeName, `Circuit breaker: ${note}`);
+      }
+    }
+    await circuitTripSubject.next({
+      exchangeName,
+      rule,
+      note,
+      value,
+      limit,
+      flatten,
+      timestamp,
+      backtest: false,
+    });
+  };
+
+  /**
+   * Applies a live tick: keeps tripped accounts paused, accumulates realized PnL
+   * and evaluates the loss and stale data rules.
+   */
+  private handleTick = async (tick: IStrategyTickResult) => {
+    const config = this._config;
+    if (!config || tick.backtest) {
+      return;
+    }
+    const { symbol, strategyName, exchangeName, createdAt } = tick;
+    const state = await this.getStateRef(exchangeName);
+    if (state.tripped) {
+      await this.pauseInstance(symbol, strategyName, exchangeName);
+      return;
+    }
+    if (tick.action === "closed") {
+      const dayStart = Math.floor(tick.closeTimestamp / MS_PER_DAY) * MS_PER_DAY;
+      if (state.dayStart !== dayStart) {
+        state.dayStart = dayStart;
+        state.realizedPnl = 0;
+      }
+      state.realizedPnl += getReportingPnl(tick.pnl).pnlCost;
+      await PersistCircuitAdapter.writeCircuitData({ ...state }, new Date(createdAt));
+    }
+    if (config.maxRealizedLoss !== undefined && state.dayStart === Math.floor(createdAt / MS_PER_DAY) * MS_PER_DAY) {
+      const loss = -state.realizedPnl;
+      if (loss >= config.maxRealizedLoss) {
+        await this.tripFn(
+          exchangeName,
+          "realized_loss",
+          `Realized loss $${loss.toFixed(2)} today reached the limit of $${config.maxRealizedLoss}`,
+          loss,
+          config.maxRealizedLoss,
+          createdAt,
+        );
+        return;
+      }
+    }
+    if (config.maxUnrealizedLoss !== undefined) {
+      const { unrealizedPnl } = backtest.portfolioMetaService.getData(exchangeName, "", false);
+      const loss = -unrealizedPnl;
+      if (loss >= config.maxUnrealizedLoss) {
+        await this.tripFn(
+          exchangeName,
+          "unrealized_loss",
+          `Unrealized loss $${loss.toFixed(2)} of open positions reached the limit of $${config.maxUnrealizedLoss}`,
+          loss,
+          config.maxUnrealizedLoss,
+          createdAt,
+        );
+        return;
+      }
+    }
+    if (config.maxStaleMinutes !== undefined) {
+      const key = CREATE_KEY_FN(symbol, strategyName, exchangeName);
+      const lastCheck = this._staleCheckMap.get(key) ?? 0;
+      if (createdAt - lastCheck < MS_PER_MINUTE) {
+        return;
+      }
+      this._staleCheckMap.set(key, createdAt);
+      let lag: number | null = null;
+      try {
+        lag = await GET_CANDLE_LAG_FN(tick);
+      } catch (error) {
+        WARN_FN("CircuitBreakerUtils stale data check failed", error, { symbol, exchangeName });
+        return;
+      }
+      if (lag !== null && lag > config.maxStaleMinutes) {
+        await this.tripFn(
+          exchangeName,
+          "stale_data",
+          `Last ${symbol} candle lags ${lag.toFixed(1)} minutes behind the live clock, the limit is ${config.maxStaleMinutes}`,
+          lag,
+          config.maxStaleMinutes,
+          createdAt,
+        );
+      }
+    }
+  };
+
+  /**
+   * Counts a terminal broker rejection against the maxOrderRejects window.
+   */
+  private handleReject = async (exchangeName: ExchangeName, timestamp: number) => {
+    const rule = this._config?.maxOrderRejects;
+    if (!rule) {
+      return;
+    }
+    const state = await this.getStateRef(exchangeName);
+    if (state.tripped) {
+      return;
+    }
+    const windowStart = timestamp - rule.windowMinutes * MS_PER_MINUTE;
+    const rejectList = (this._rejectMap.get(exchangeName) ?? []).filter((at) => at > windowStart);
+    rejectList.push(timestamp);
+    this._rejectMap.set(exchangeName, rejectList);
+    if (rejectList.length >= rule.count) {
+      await this.tripFn(
+        exchangeName,
+        "error_rate",
+        `${rejectList.length} order rejections within ${rule.windowMinutes} minutes reached the limit of ${rule.count}`,
+        rejectList.length,
+        rule.count,
+        timestamp,
+      );
+    }
+  };
+
+  /**
+   * Arms the breaker with the given rules and subscribes to live ticks and
+   * broker rejections. Backtest events are ignored.
+   *
+   * @param config - Circuit breaker rules (default: none, only a persisted trip is enforced)
+   * @returns Dispose function, same as disable()
+   * @throws Error when a limit is not a positive number
+   */
+  public enable = singleshot((config: ICircuitBreakerConfig = {}) => {
+    backtest.loggerService.info(CIRCUIT_BREAKER_METHOD_NAME_ENABLE, { config });
+    try {
+      VALIDATE_CONFIG_FN(config);
+    } catch (error) {
+      this.enable.clear();
+      throw error;
+    }
+    this._config = config;
+
+    const unTick = signalLiveEmitter.subscribe(
+      queued(async (tick: IStrategyTickResult) => {
+        try {
+          await this.handleTick(tick);
+        } catch (error) {
+          WARN_FN("CircuitBreakerUtils handleTick failed", error, {
+            symbol: tick.symbol,
+            exchangeName: tick.exchangeName,
+          });
+        }
+      }),
+    );
+
+    const unReject = orderRejectSubject
+      .filter(({ backtest }) => !backtest)
+      .connect(
+        queued(async ({ exchangeName, timestamp }) => {
+          try {
+            await this.handleReject(exchangeName, timestamp);
+          } catch (error) {
+            WARN_FN("CircuitBreakerUtils handleReject failed", error, { exchangeName });
+          }
+        }),
+      );
+
+    return () => {
+      unTick();
+      unReject();
+      this._config = null;
+      this._rejectMap.clear();
+      this._staleCheckMap.clear();
+      this.enable.clear();
+    };
+  });
+
+  /**
+   * Disarms the breaker. A tripped state stays persisted and is restored on the next enable().
+   * Idempotent — safe to call even if `enable()` was never called.
+   */
+  public disable = () => {
+    backtest.loggerService.info(CIRCUIT_BREAKER_METHOD_NAME_DISABLE);
+    if (this.enable.hasValue()) {
+      const lastSubscription = this.enable();
+      lastSubscription();
+    }
+  };
+
+  /**
+   * Returns a snapshot of the breaker state of an exchange account.
+   *
+   * @param exchangeName - Exchange identifier
+   * @returns Tripped flag, trip reason and today's realized PnL
+   */
+  public getState = async (exchangeName: ExchangeName): Promise<CircuitData> => {
+    backtest.loggerService.info(CIRCUIT_BREAKER_METHOD_NAME_GET_STATE, { exchangeName });
+    backtest.exchangeValidationService.validate(exchangeName, CIRCUIT_BREAKER_METHOD_NAME_GET_STATE);
+    return { ...(await this.getStateRef(exchangeName)) };
+  };
+
+  /**
+   * Kill switch: trips the breaker of an exchange account by hand.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param note - Reason shown in the trip notification
+   */
+  public trip = async (exchangeName: ExchangeName, note = "Tripped manually") => {
+    backtest.loggerService.info(CIRCUIT_BREAKER_METHOD_NAME_TRIP, { exchangeName, note });
+    backtest.exchangeValidationService.validate(exchangeName, CIRCUIT_BREAKER_METHOD_NAME_TRIP);
+    await this.tripFn(exchangeName, "manual", note, null, null, Date.now());
+  };
+
+  /**
+   * Re-arms a tripped exchange account: persists the cleared state and resumes
+   * every live strategy paused by the breaker.
+   *
+   * @param exchangeName - Exchange identifier
+   */
+  public reset = async (exchangeName: ExchangeName) => {
+    backtest.loggerService.info(CIRCUIT_BREAKER_METHOD_NAME_RESET, { exchangeName });
+    backtest.exchangeValidationService.validate(exchangeName, CIRCUIT_BREAKER_METHOD_NAME_RESET);
+    const state = await this.getStateRef(exchangeName);
+    state.tripped = false;
+    state.rule = null;
+    state.note = null;
+    state.trippedAt = null;
+    this._rejectMap.delete(exchangeName);
+    await PersistCircuitAdapter.writeCircuitData({ ...state }, new Date());
+    for (const [key, { symbol, strategyName, exchangeName: pausedExchangeName }] of Array.from(this._pausedMap)) {
+      if (pausedExchangeName !== exchangeName) {
+        continue;
+      }
+      this._pausedMap.delete(key);
+      try {
+        await Live.setPaused(symbol, false, { strategyName, exchangeName });
+      } catch (error) {
+        WARN_FN("CircuitBreakerUtils resume failed", error, { symbol, strategyName, exchangeName });
+      }
+    }
+  };
+
+  /**
+   * Drops cached states so they are read again from PersistCircuitAdapter.
+   * Call when process.cwd() changes between strategy iterations.
+   */
+  public clear = () => {
+    backtest.loggerService.info(CIRCUIT_BREAKER_METHOD_NAME_CLEAR);
+    this.getStateRef.clear();
+    this._rejectMap.clear();
+    this._staleCheckMap.clear();
+    this._pausedMap.clear();
+  };
+}
+
+/**
+ * Singleton instance of CircuitBreakerUtils.
+ */
+export const CircuitBreaker = new CircuitBreakerUtils();
@@ -172,6 +172,10 @@ type TExchange = Required<Omit<IExchangeSchema, keyof {
   note: never;
   callbacks: never;
   getAggregatedTrades: never;
+  getFee: never;
+  slippage: never;
+  getFundingRates: never;
+  getSymbolInfo: never;
 }>> & {
   getAggregatedTrades: (symbol: string, from: Date, to: Date, backtest: boolean) => Promise<IAggregatedTradeData[]>;
 };
@@ -0,0 +1,87 @@
+import backtest from "../lib";
+import { FeeOrderType, FeeSide } from "../interfaces/Exchange.interface";
+
+const METHOD_NAME_FLAT = "Fee.flat";
+const METHOD_NAME_MAKER_TAKER = "Fee.makerTaker";
+const METHOD_NAME_DISCOUNT = "Fee.discount";
+
+/**
+ * Fee model signature accepted by IExchangeSchema.getFee.
+ * Returns fee percent for a single fill (negative for rebates).
+ */
+type TFeeModel = (
+    symbol: string,
+    side: FeeSide,
+    orderType: FeeOrderType,
+    notional: number,
+    when: Date,
+    backtest: boolean
+) => Promise<number>;
+
+/**
+ * Built-in fee models for IExchangeSchema.getFee.
+ *
+ * @example
+ * ```typescript
+ * import { addExchangeSchema, Fee } from "backtest-kit";
+ *
+ * addExchangeSchema({
+ *   exchangeName: "binance",
+ *   getCandles,
+ *   // 0.02% maker / 0.05% taker with 10% BNB discount
+ *   getFee: Fee.discount(Fee.makerTaker({ maker: 0.02, taker: 0.05 }), 10),
+ * });
+ * ```
+ */
+export class Fee {
+
+    /**
+     * Same fee percent for every fill regardless of side and liquidity role.
+     * @param percent - fee percent per fill (e.g. 0.1 for 0.1%)
+     * @returns fee model for IExchangeSchema.getFee
+     */
+    public static flat = (percent: number): TFeeModel => {
+        backtest.loggerService.log(METHOD_NAME_FLAT, { percent });
+        if (!Number.isFinite(percent)) {
+            throw new Error(`${METHOD_NAME_FLAT}: percent must be a finite number, got ${percent}`);
+        }
+        return async () => percent;
+    }
+
+    /**
+     * Separate fee percents for maker (resting limit) and taker (crossing) fills.
+     * A negative maker percent models a maker rebate.
+     * @param dto.maker - maker fee percent per fill
+     * @param dto.taker - taker fee percent per fill
+     * @returns fee model for IExchangeSchema.getFee
+     */
+    public static makerTaker = (dto: {
+        maker: number,
+        taker: number,
+    }): TFeeModel => {
+        backtest.loggerService.log(METHOD_NAME_MAKER_TAKER, { dto });
+        if (!Number.isFinite(dto.maker) || !Number.isFinite(dto.taker)) {
+            throw new Error(`${METHOD_NAME_MAKER_TAKER}: maker and taker must be finite numbers, got maker=${dto.maker} taker=${dto.taker}`);
+        }
+        return async (_symbol, _side, orderType) => orderType === "maker" ? dto.maker : dto.taker;
+    }
+
+    /**
+     * Applies a percentage discount on top of another fee model (e.g. paying fees in BNB).
+     * Rebates (negative fees) are passed through unchanged.
+     * @param getFee - underlying fee model
+     * @param percentDiscount - discount from 0 to 100
+     * @returns fee model for IExchangeSchema.getFee
+     */
+    public static discount = (getFee: TFeeModel, percentDiscount: number): TFeeModel => {
+        backtest.loggerService.log(METHOD_NAME_DISCOUNT, { percentDiscount });
+        if (!Number.isFinite(percentDiscount) || percentDiscount < 0 || percentDiscount > 100) {
+            throw new Error(`${METHOD_NAME_DISCOUNT}: percentDiscount must be between 0 and 100, got ${percentDiscount}`);
+        }
+        return async (symbol, side, orderType, notional, when, isBacktest) => {
+            const fee = await getFee(symbol, side, orderType, notional, when, isBacktest);
+            return fee > 0 ? fee * (1 - percentDiscount / 100) : fee;
+        };
+    }
+
+}
@@ -0,0 +1,70 @@
+import backtest from "../lib";
+import { StrategyLatencyModel } from "../interfaces/Strategy.interface";
+import { createSeededRandom } from "../utils/createSeededRandom";
+
+const METHOD_NAME_FIXED = "Latency.fixed";
+const METHOD_NAME_UNIFORM = "Latency.uniform";
+
+/**
+ * Built-in order latency models for IStrategySchema.latency.
+ *
+ * @example
+ * ```typescript
+ * import { addStrategySchema, Latency } from "backtest-kit";
+ *
+ * addStrategySchema({
+ *   strategyName: "my-strategy",
+ *   interval: "5m",
+ *   getSignal,
+ *   // every order reaches the exchange 2 to 90 seconds late, same sequence each run
+ *   latency: Latency.uniform({ min: 2_000, max: 90_000, seed: 42 }),
+ * });
+ * ```
+ */
+export class Latency {
+
+    /**
+     * Same delay for every action.
+     * @param ms - latency in milliseconds
+     * @returns latency model for IStrategySchema.latency
+     */
+    public static fixed = (ms: number): StrategyLatencyModel => {
+        backtest.loggerService.log(METHOD_NAME_FIXED, { ms });
+        if (!Number.isFinite(ms) || ms < 0) {
+            throw new Error(`${METHOD_NAME_FIXED}: ms must be a non-negative number, got ${ms}`);
+        }
+        return () => ms;
+    }
+
+    /**
+     * Random delay uniformly distributed within [min, max], drawn from a seeded
+     * generator so the same backtest reproduces the same delays. Each strategy
+     * instance forks its own generator, so repeated runs start from the seed.
+     * @param dto.min - lower bound in milliseconds
+     * @param dto.max - upper bound in milliseconds
+     * @param dto.seed - generator seed (default 0)
+     * @returns latency model for IStrategySchema.latency
+     */
+    public static uniform = (dto: {
+        min: number,
+        max: number,
+        seed?: number,
+    }): StrategyLatencyModel => {
+        backtest.loggerService.log(METHOD_NAME_UNIFORM, { dto });
+        const { min, max, seed = 0 } = dto;
+        if (!Number.isFinite(min) || !Number.isFinite(max) || min < 0 || max < min) {
+            throw new Error(`${METHOD_NAME_UNIFORM}: expected 0 <= min <= max, got min=${min} max=${max}`);
+        }
+        if (!Number.isInteger(seed)) {
+            throw new Error(`${METHOD_NAME_UNIFORM}: seed must be an integer, got ${seed}`);
+        }
+        const createModel = (): StrategyLatencyModel => {
+            const random = createSeededRandom(seed);
+            const model: StrategyLatencyModel = () => min + random() * (max - min);
+            model.fork = createModel;
+            return model;
+        };
+        return createModel();
+    }
+
+}
@@ -5388,6 +5388,7 @@ export class LiveUtils {
             exchangeName: context.exchangeName,
             frameName: "",
           },
+          cost,
         ),
       )
     ) {
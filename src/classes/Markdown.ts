@@ -35,6 +35,9 @@ const WILDCARD_TARGET: IMarkdownTarget = {
   sync: true,
   highest_profit: true,
   max_drawdown: true,
+  portfolio: true,
+  allocator: true,
+  rebalance: true,
 };
 
 /**
@@ -284,6 +287,9 @@ export class MarkdownUtils {
    * @param config.sync - Clear sync report data
    * @param config.highest_profit - Clear highest profit report data
    * @param config.max_drawdown - Clear max drawdown report data
+   * @param config.portfolio - Reset portfolio ledgers to the starting capital
+   * @param config.allocator - Reset allocator budgets and allocation history
+   * @param config.rebalance - Clear portfolio strategy rebalance events
    */
   public clear = ({
     backtest: bt = false,
@@ -299,6 +305,9 @@ export class MarkdownUtils {
     sync = false,
     highest_profit = false,
     max_drawdown = false,
+    portfolio = false,
+    allocator = false,
+    rebalance = false,
   }: Partial<IMarkdownTarget> = WILDCARD_TARGET) => {
     LOGGER_SERVICE.debug(MARKDOWN_METHOD_NAME_CLEAR, {
       backtest: bt,
@@ -313,6 +322,9 @@ export class MarkdownUtils {
       walker,
       sync,
       highest_profit,
+      portfolio,
+      allocator,
+      rebalance,
     });
     if (bt) {
       backtest.backtestMarkdownService.clear();
@@ -353,6 +365,15 @@ export class MarkdownUtils {
     if (max_drawdown) {
       backtest.maxDrawdownMarkdownService.clear();
     }
+    if (portfolio) {
+      backtest.portfolioMetaService.clear();
+    }
+    if (allocator) {
+      backtest.allocatorConnectionService.clear();
+    }
+    if (rebalance) {
+      backtest.rebalanceConnectionService.clear();
+    }
   }
 }
 
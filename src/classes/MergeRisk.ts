@@ -140,6 +140,7 @@ export class MergeRisk implements IRisk {
       priceTakeProfit: number;
       minuteEstimatedTime: number;
       openTimestamp: number;
+      cost?: number;
     }
   ) {
     LOGGER_SERVICE.info(RISK_METHOD_NAME_ADD_SIGNAL, {
@@ -20,6 +20,7 @@ import {
   scheduleEventSubject,
   signalNotifySubject,
   pauseSubject,
+  circuitTripSubject,
 } from "../config/emitters";
 import { NotificationModel } from "../model/Notification.model";
 import { IStrategyTickResult } from "../interfaces/Strategy.interface";
@@ -38,6 +39,7 @@ import { SignalEventContract } from "../contract/SignalEvent.contract";
 import { ScheduleEventContract } from "../contract/ScheduleEvent.contract";
 import { SignalInfoContract } from "../contract/SignalInfo.contract";
 import { PauseContract } from "../contract/Pause.contract";
+import { CircuitTripContract } from "../contract/CircuitTrip.contract";
 import backtest from "../lib";
 import { PersistNotificationAdapter } from "./Persist";
 import { GLOBAL_CONFIG } from "../config/params";
@@ -53,7 +55,7 @@ import get from "../utils/get";
  * // Subscribe only to signal lifecycle and error events
  * notificationAdapter.enable({ signal: true, common_error: true, critical_error: true, validation_error: true,
  *   partial_profit: false, partial_loss: false, breakeven: false, strategy_commit: false, order_sync: false, order_check: false,
- *   risk: false, info: false, pause: false });
+ *   risk: false, info: false, pause: false, circuit_trip: false });
  */
 export interface INotificationTarget {
   /**
@@ -181,6 +183,14 @@ export interface INotificationTarget {
    */
   pause: boolean;
 
+  /**
+   * Circuit breaker trips (`circuit.trip`), live only.
+   * Fired when an account-level CircuitBreaker rule trips and every live
+   * strategy of the exchange is paused until CircuitBreaker.reset().
+   * Source: `circuitTripSubject` (CircuitTripContract).
+   */
+  circuit_trip: boolean;
+
   /**
    * Non-fatal runtime errors (`error.info`).
    * Emitted by the global `errorEmitter` for recoverable errors that are
@@ -222,6 +232,7 @@ const WILDCARD_TARGET: INotificationTarget = {
   risk: true,
   info: true,
   pause: true,
+  circuit_trip: true,
   common_error: true,
   critical_error: true,
   validation_error: true,
@@ -1627,6 +1638,25 @@ const CREATE_PAUSE_NOTIFICATION_FN = (data: PauseContract): NotificationModel =>
   createdAt: data.timestamp,
 });
 
+/**
+ * Creates a notification model for circuit breaker trips.
+ * @param data - The circuit trip contract data
+ * @returns NotificationModel for circuit trip event
+ */
+const CREATE_CIRCUIT_TRIP_NOTIFICATION_FN = (data: CircuitTripContract): NotificationModel => ({
+  type: "circuit.trip",
+  id: CREATE_KEY_FN(),
+  timestamp: data.timestamp,
+  backtest: data.backtest,
+  exchangeName: data.exchangeName,
+  rule: data.rule,
+  note: data.note,
+  value: data.value,
+  limit: data.limit,
+  flatten: data.flatten,
+  createdAt: data.timestamp,
+});
+
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_SIGNAL = "NotificationMemoryBacktestUtils.handleSignal";
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_SIGNAL_NOTIFY = "NotificationMemoryBacktestUtils.handleSignalNotify";
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_PARTIAL_PROFIT = "NotificationMemoryBacktestUtils.handlePartialProfit";
@@ -1641,6 +1671,7 @@ const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_ORDER_CONTINUE = "Notifica
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_ORDER_STOP = "NotificationMemoryBacktestUtils.handleOrderStop";
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_RISK = "NotificationMemoryBacktestUtils.handleRisk";
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_PAUSE = "NotificationMemoryBacktestUtils.handlePause";
+const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_CIRCUIT_TRIP = "NotificationMemoryBacktestUtils.handleCircuitTrip";
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_ERROR = "NotificationMemoryBacktestUtils.handleError";
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_CRITICAL_ERROR = "NotificationMemoryBacktestUtils.handleCriticalError";
 const NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_VALIDATION_ERROR = "NotificationMemoryBacktestUtils.handleValidationError";
@@ -1661,6 +1692,7 @@ const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_ORDER_CONTINUE = "Notification
 const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_ORDER_STOP = "NotificationMemoryLiveUtils.handleOrderStop";
 const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_RISK = "NotificationMemoryLiveUtils.handleRisk";
 const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_PAUSE = "NotificationMemoryLiveUtils.handlePause";
+const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_CIRCUIT_TRIP = "NotificationMemoryLiveUtils.handleCircuitTrip";
 const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_ERROR = "NotificationMemoryLiveUtils.handleError";
 const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_CRITICAL_ERROR = "NotificationMemoryLiveUtils.handleCriticalError";
 const NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_VALIDATION_ERROR = "NotificationMemoryLiveUtils.handleValidationError";
@@ -1700,6 +1732,7 @@ const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_ORDER_CONTINUE = "Notific
 const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_ORDER_STOP = "NotificationPersistBacktestUtils.handleOrderStop";
 const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_RISK = "NotificationPersistBacktestUtils.handleRisk";
 const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_PAUSE = "NotificationPersistBacktestUtils.handlePause";
+const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_CIRCUIT_TRIP = "NotificationPersistBacktestUtils.handleCircuitTrip";
 const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_ERROR = "NotificationPersistBacktestUtils.handleError";
 const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_CRITICAL_ERROR = "NotificationPersistBacktestUtils.handleCriticalError";
 const NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_VALIDATION_ERROR = "NotificationPersistBacktestUtils.handleValidationError";
@@ -1722,6 +1755,7 @@ const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_ORDER_CONTINUE = "Notificatio
 const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_ORDER_STOP = "NotificationPersistLiveUtils.handleOrderStop";
 const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_RISK = "NotificationPersistLiveUtils.handleRisk";
 const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_PAUSE = "NotificationPersistLiveUtils.handlePause";
+const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_CIRCUIT_TRIP = "NotificationPersistLiveUtils.handleCircuitTrip";
 const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_ERROR = "NotificationPersistLiveUtils.handleError";
 const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_CRITICAL_ERROR = "NotificationPersistLiveUtils.handleCriticalError";
 const NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_VALIDATION_ERROR = "NotificationPersistLiveUtils.handleValidationError";
@@ -1799,6 +1833,11 @@ export interface INotificationUtils {
    * @param data - The pause contract data
    */
   handlePause(data: PauseContract): Promise<void>;
+  /**
+   * Handles circuit breaker trip event.
+   * @param data - The circuit trip contract data
+   */
+  handleCircuitTrip(data: CircuitTripContract): Promise<void>;
   /**
    * Handles error event.
    * @param error - The error object
@@ -2041,6 +2080,18 @@ export class NotificationMemoryBacktestUtils implements INotificationUtils {
     this._addNotification(CREATE_PAUSE_NOTIFICATION_FN(data));
   };
 
+  /**
+   * Handles circuit breaker trip event.
+   * @param data - The circuit trip contract data
+   */
+  public handleCircuitTrip = async (data: CircuitTripContract): Promise<void> => {
+    backtest.loggerService.info(NOTIFICATION_MEMORY_BACKTEST_METHOD_NAME_HANDLE_CIRCUIT_TRIP, {
+      exchangeName: data.exchangeName,
+      rule: data.rule,
+    });
+    this._addNotification(CREATE_CIRCUIT_TRIP_NOTIFICATION_FN(data));
+  };
+
   /**
    * Handles error event.
    * @param error - The error object
@@ -2209,6 +2260,13 @@ export class NotificationDummyBacktestUtils implements INotificationUtils {
     void 0;
   };
 
+  /**
+   * No-op handler for circuit breaker trip event.
+   */
+  public handleCircuitTrip = async (): Promise<void> => {
+    void 0;
+  };
+
   /**
    * No-op handler for error event.
    */
@@ -2529,6 +2587,20 @@ export class NotificationPersistBacktestUtils implements INotificationUtils {
     await this._updateNotifications();
   };
 
+  /**
+   * Handles circuit breaker trip event.
+   * @param data - The circuit trip contract data
+   */
+  public handleCircuitTrip = async (data: CircuitTripContract): Promise<void> => {
+    backtest.loggerService.info(NOTIFICATION_PERSIST_BACKTEST_METHOD_NAME_HANDLE_CIRCUIT_TRIP, {
+      exchangeName: data.exchangeName,
+      rule: data.rule,
+    });
+    await this.waitForInit();
+    this._addNotification(CREATE_CIRCUIT_TRIP_NOTIFICATION_FN(data));
+    await this._updateNotifications();
+  };
+
   /**
    * Handles error event.
    * Note: Error notifications are not persisted to disk.
@@ -2799,6 +2871,18 @@ export class NotificationMemoryLiveUtils implements INotificationUtils {
     this._addNotification(CREATE_PAUSE_NOTIFICATION_FN(data));
   };
 
+  /**
+   * Handles circuit breaker trip event.
+   * @param data - The circuit trip contract data
+   */
+  public handleCircuitTrip = async (data: CircuitTripContract): Promise<void> => {
+    backtest.loggerService.info(NOTIFICATION_MEMORY_LIVE_METHOD_NAME_HANDLE_CIRCUIT_TRIP, {
+      exchangeName: data.exchangeName,
+      rule: data.rule,
+    });
+    this._addNotification(CREATE_CIRCUIT_TRIP_NOTIFICATION_FN(data));
+  };
+
   /**
    * Handles error event.
    * @param error - The error object
@@ -2967,6 +3051,13 @@ export class NotificationDummyLiveUtils implements INotificationUtils {
     void 0;
   };
 
+  /**
+   * No-op handler for circuit breaker trip event.
+   */
+  public handleCircuitTrip = async (): Promise<void> => {
+    void 0;
+  };
+
   /**
    * No-op handler for error event.
    */
@@ -3290,6 +3381,20 @@ export class NotificationPersistLiveUtils implements INotificationUtils {
     await this._updateNotifications();
   };
 
+  /**
+   * Handles circuit breaker trip event.
+   * @param data - The circuit trip contract data
+   */
+  public handleCircuitTrip = async (data: CircuitTripContract): Promise<void> => {
+    backtest.loggerService.info(NOTIFICATION_PERSIST_LIVE_METHOD_NAME_HANDLE_CIRCUIT_TRIP, {
+      exchangeName: data.exchangeName,
+      rule: data.rule,
+    });
+    await this.waitForInit();
+    this._addNotification(CREATE_CIRCUIT_TRIP_NOTIFICATION_FN(data));
+    await this._updateNotifications();
+  };
+
   /**
    * Handles error event.
    * Note: Error notifications are not persisted to disk.
@@ -3505,6 +3610,15 @@ export class NotificationBacktestAdapter implements INotificationUtils {
     return await this.getInstance().handlePause(data);
   };
 
+  /**
+   * Handles circuit breaker trip event.
+   * Proxies call to the underlying notification adapter.
+   * @param data - The circuit trip contract data
+   */
+  handleCircuitTrip = async (data: CircuitTripContract): Promise<void> => {
+    return await this.getInstance().handleCircuitTrip(data);
+  };
+
   /**
    * Handles error event.
    * Proxies call to the underlying notification adapter.
@@ -3757,6 +3871,15 @@ export class NotificationLiveAdapter implements INotificationUtils {
     return await this.getInstance().handlePause(data);
   };
 
+  /**
+   * Handles circuit breaker trip event.
+   * Proxies call to the underlying notification adapter.
+   * @param data - The circuit trip contract data
+   */
+  handleCircuitTrip = async (data: CircuitTripContract): Promise<void> => {
+    return await this.getInstance().handleCircuitTrip(data);
+  };
+
   /**
    * Handles error event.
    * Proxies call to the underlying notification adapter.
@@ -3885,6 +4008,7 @@ export class NotificationAdapter {
     order_stop = false,
     risk = false,
     pause = false,
+    circuit_trip = false,
     common_error = false,
     critical_error = false,
     validation_error = false,
@@ -4243,6 +4367,14 @@ export class NotificationAdapter {
           }
         });
 
+      const unLiveCircuitTrip = circuitTripSubject
+        .filter(({ backtest }) => !backtest)
+        .connect(async (data: CircuitTripContract) => {
+          if (circuit_trip) {
+            await NotificationLive.handleCircuitTrip(data);
+          }
+        });
+
       const unLiveError = errorEmitter.subscribe(async (error: Error) => {
         if (common_error) {
           await NotificationLive.handleError(error);
@@ -4285,6 +4417,7 @@ export class NotificationAdapter {
         () => unLiveOrderStop(),
         () => unLiveRisk(),
         () => unLivePause(),
+        () => unLiveCircuitTrip(),
         () => unLiveError(),
         () => unLiveExit(),
         () => unLiveValidation(),
@@ -0,0 +1,678 @@
+import fs from "fs/promises";
+import { join } from "path";
+import { errorData, getErrorMessage, resolveDocuments } from "functools-kit";
+
+import backtest from "../lib";
+import { Backtest } from "./Backtest";
+import { errorEmitter } from "../config/emitters";
+import { GLOBAL_CONFIG } from "../config/params";
+import { writeFileAtomic } from "../utils/writeFileAtomic";
+import { createSeededRandom } from "../utils/createSeededRandom";
+import { getOverfittingStatistics } from "../helpers/getOverfittingStatistics";
+import {
+  IStrategyIntegerParam,
+  IStrategyNumberParam,
+  IStrategyParam,
+  IStrategySchema,
+  StrategyName,
+  StrategyParams,
+  StrategyParamValue,
+} from "../interfaces/Strategy.interface";
+import { ExchangeName } from "../interfaces/Exchange.interface";
+import { FrameName, IFrameSchema } from "../interfaces/Frame.interface";
+import { WalkerMetric } from "../interfaces/Walker.interface";
+import { IOptimizerOptions } from "../interfaces/Optimizer.interface";
+import { BacktestStatisticsModel } from "../model/BacktestStatistics.model";
+import {
+  IOptimizerCandidate,
+  OptimizerStatisticsModel,
+} from "../model/OptimizerStatistics.model";
+
+const OPTIMIZER_METHOD_NAME_RUN = "OptimizerUtils.run";
+const OPTIMIZER_METHOD_NAME_GET_REPORT = "OptimizerUtils.getReport";
+const OPTIMIZER_METHOD_NAME_DUMP = "OptimizerUtils.dump";
+
+const DEFAULT_METRIC: WalkerMetric = "sharpeRatio";
+const DEFAULT_TRIALS = 20;
+const DEFAULT_SEED = 42;
+const DEFAULT_ETA = 3;
+const DEFAULT_CONCURRENCY = 4;
+
+/** Number of evenly spaced grid values of a real-valued parameter without step */
+const NUMBER_GRID_POINTS = 5;
+
+/** Random sampling gives up after trials × this many draws (small search spaces) */
+const MAX_SAMPLE_ATTEMPTS_FACTOR = 10;
+
+/** Decimal places kept when snapping values to a step (drops float artifacts) */
+const VALUE_PRECISION = 1e10;
+
+/**
+ * Rounds a parameter value to drop float artifacts like 0.30000000000000004.
+ *
+ * @param value - Raw value
+ * @returns Rounded value
+ */
+const ROUND_VALUE_FN = (value: number): number =>
+  Math.round(value * VALUE_PRECISION) / VALUE_PRECISION;
+
+/**
+ * Returns the grid step of a numeric parameter. Integer parameters default to 1.
+ *
+ * @param param - Numeric parameter
+ * @returns Step or undefined for a real-valued parameter without step
+ */
+const GET_STEP_FN = (
+  param: IStrategyNumberParam | IStrategyIntegerParam
+): number | undefined => {
+  if (param.type === "integer") {
+    return param.step ?? 1;
+  }
+  return param.step;
+};
+
+/**
+ * Lists the grid values of a parameter.
+ *
+ * @param param - Parameter declaration
+ * @returns Distinct values in ascending order (declaration order for choice)
+ */
+const GET_GRID_VALUES_FN = (param: IStrategyParam): StrategyParamValue[] => {
+  if (param.type === "boolean") {
+    return [false, true];
+  }
+  if (param.type === "choice") {
+    return [...param.values];
+  }
+  const step = GET_STEP_FN(param);
+  if (!step) {
+    const values = Array.from({ length: NUMBER_GRID_POINTS }, (_, index) =>
+      ROUND_VALUE_FN(param.min + ((param.max - param.min) * index) / (NUMBER_GRID_POINTS - 1))
+    );
+    return [...new Set(values)];
+  }
+  const count = Math.floor(ROUND_VALUE_FN((param.max - param.min) / step));
+  return Array.from({ length: count + 1 }, (_, index) =>
+    ROUND_VALUE_FN(param.min + step * index)
+  );
+};
+
+/**
+ * Draws a random value of a parameter. Values of stepped parameters are snapped to the step.
+ *
+ * @param param - Parameter declaration
+ * @param random - Seeded random generator
+ * @returns Random value within the declared range
+ */
+const GET_RANDOM_VALUE_FN = (
+  param: IStrategyParam,
+  random: () => number
+): StrategyParamValue => {
+  if (param.type === "boolean") {
+    return random() < 0.5;
+  }
+  if (param.type === "choice") {
+    return param.values[Math.floor(random() * param.values.length)];
+  }
+  const step = GET_STEP_FN(param);
+  if (!step) {
+    return ROUND_VALUE_FN(param.min + random() * (param.max - param.min));
+  }
+  const count = Math.floor(ROUND_VALUE_FN((param.max - param.min) / step));
+  return ROUND_VALUE_FN(param.min + step * Math.floor(random() * (count + 1)));
+};
+
+/**
+ * Names the derived strategy of a parameter combination, e.g. "ema-cross(fastPeriod=10,useTrailing=true)".
+ *
+ * @param strategyName - Base strategy name
+ * @param params - Parameter values
+ * @returns Derived strategy name
+ */
+const GET_VARIANT_NAME_FN = (
+  strategyName: StrategyName,
+  params: StrategyParams
+): StrategyName =>
+  `${strategyName}(${Object.entries(params)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(",")})`;
+
+/**
+ * Builds every combination of the parameter grid.
+ *
+ * @param params - Parameter declarations of the strategy
+ * @returns Cartesian product of the grid values
+ */
+const CREATE_GRID_FN = (params: Record<string, IStrategyParam>): StrategyParams[] => {
+  let result: StrategyParams[] = [{}];
+  for (const [name, param] of Object.entries(params)) {
+    const values = GET_GRID_VALUES_FN(param);
+    result = result.flatMap((combination) =>
+      values.map((value) => ({ ...combination, [name]: value }))
+    );
+  }
+  return result;
+};
+
+/**
+ * Draws distinct random combinations of the parameters.
+ * Stops early when the search space has fewer than `trials` distinct combinations.
+ *
+ * @param strategyName - Base strategy name (used to detect duplicates)
+ * @param params - Parameter declarations of the strategy
+ * @param trials - Number of combinations to draw
+ * @param seed - Seed of the random generator
+ * @returns Distinct combinations in draw order
+ */
+const CREATE_RANDOM_LIST_FN = (
+  strategyName: StrategyName,
+  params: Record<string, IStrategyParam>,
+  trials: number,
+  seed: number
+): StrategyParams[] => {
+  const random = createSeededRandom(seed);
+  const result = new Map<StrategyName, StrategyParams>();
+  for (
+    let attempt = 0;
+    attempt < trials * MAX_SAMPLE_ATTEMPTS_FACTOR && result.size < trials;
+    attempt++
+  ) {
+    const combination: StrategyParams = {};
+    for (const [name, param] of Object.entries(params)) {
+      combination[name] = GET_RANDOM_VALUE_FN(param, random);
+    }
+    const variantName = GET_VARIANT_NAME_FN(strategyName, combination);
+    if (!result.has(variantName)) {
+      result.set(variantName, combination);
+    }
+  }
+  return [...result.values()];
+};
+
+/**
+ * Registers the derived strategy of a parameter combination, or overrides it
+ * if a previous optimizer run already registered it.
+ *
+ * @param strategySchema - Base strategy schema
+ * @param params - Parameter values
+ * @returns Derived strategy name
+ */
+const REGISTER_STRATEGY_FN = async (
+  strategySchema: IStrategySchema,
+  params: StrategyParams
+): Promise<StrategyName> => {
+  const strategyName = GET_VARIANT_NAME_FN(strategySchema.strategyName, params);
+  const variantSchema: IStrategySchema = {
+    ...strategySchema,
+    strategyName,
+    paramValues: params,
+  };
+  const strategyList = await backtest.strategyValidationService.list();
+  if (strategyList.some((schema) => schema.strategyName === strategyName)) {
+    backtest.strategySchemaService.override(strategyName, variantSchema);
+    return strategyName;
+  }
+  backtest.strategyValidationService.addStrategy(strategyName, variantSchema);
+  backtest.strategySchemaService.register(strategyName, variantSchema);
+  return strategyName;
+};
+
+/**
+ * Registers a derived successive-halving frame, or overrides it if it already exists.
+ *
+ * @param frameSchema - Derived frame schema
+ */
+const REGISTER_FRAME_FN = async (frameSchema: IFrameSchema): Promise<void> => {
+  const frameList = await backtest.frameValidationService.list();
+  if (frameList.some(({ frameName }) => frameName === frameSchema.frameName)) {
+    backtest.frameSchemaService.override(frameSchema.frameName, frameSchema);
+    backtest.frameConnectionService.clear(frameSchema.frameName);
+    return;
+  }
+  backtest.frameValidationService.addFrame(frameSchema.frameName, frameSchema);
+  backtest.frameSchemaService.register(frameSchema.frameName, frameSchema);
+};
+
+/**
+ * Checks whether the derived strategies trade against shared account state.
+ *
+ * Risk profiles, the allocator and the portfolio ledger are keyed by their own
+ * name and the exchange + frame, not by strategy, so every variant of the base
+ * schema shares them, and each backtest start clears them. Such variants are
+ * backtested one at a time.
+ *
+ * @param strategySchema - Base strategy schema
+ * @returns True when the variants must not run in parallel
+ */
+const IS_SHARED_ACCOUNT_FN = (strategySchema: IStrategySchema): boolean =>
+  !!strategySchema.riskName ||
+  !!strategySchema.riskList?.length ||
+  !!strategySchema.allocatorName ||
+  !!strategySchema.sizingName ||
+  GLOBAL_CONFIG.CC_PORTFOLIO_CASH_CHECK;
+
+/**
+ * Extracts the ranking metric from backtest statistics.
+ * Returns null for missing, NaN or infinite values so they never win.
+ *
+ * @param stats - Backtest statistics of a candidate
+ * @param metric - Metric to extract
+ * @returns Metric value or null
+ */
+const GET_METRIC_VALUE_FN = (
+  stats: BacktestStatisticsModel,
+  metric: WalkerMetric
+): number | null => {
+  const value = stats[metric];
+  return typeof value === "number" && isFinite(value) ? value : null;
+};
+
+/**
+ * Orders candidates by the rung they reached, then by metric (descending, null last).
+ */
+const COMPARE_CANDIDATES_FN = (a: IOptimizerCandidate, b: IOptimizerCandidate): number => {
+  if (a.rung !== b.rung) {
+    return b.rung - a.rung;
+  }
+  const aValue = a.metricValue ?? -Infinity;
+  const bValue = b.metricValue ?? -Infinity;
+  if (aValue === bValue) {
+    return 0;
+  }
+  return bValue > aValue ? 1 : -1;
+};
+
+/**
+ * Backtests one candidate and stores its statistics on it.
+ * A failing backtest is reported via errorEmitter and leaves the metric null.
+ *
+ * @param symbol - Trading pair symbol
+ * @param candidate - Candidate to evaluate (mutated)
+ * @param exchangeName - Exchange to backtest on
+ * @param frameName - Frame to backtest on
+ * @param metric - Ranking metric
+ */
+const RUN_CANDIDATE_FN = async (
+  symbol: string,
+  candidate: IOptimizerCandidate,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  metric: WalkerMetric
+): Promise<void> => {
+  const { strategyName } = candidate;
+  try {
+    await resolveDocuments(Backtest.run(symbol, { strategyName, exchangeName, frameName }));
+    const stats = await backtest.backtestMarkdownService.getData(symbol, strategyName, exchangeName, frameName, true);
+    candidate.stats = stats;
+    candidate.metricValue = GET_METRIC_VALUE_FN(stats, metric);
+    candidate.error = undefined;
+  } catch (error) {
+    console.warn(`OptimizerUtils backtest failed symbol=${symbol} strategyName=${strategyName} frameName=${frameName}`);
+    backtest.loggerService.warn("OptimizerUtils backtest failed for candidate, skipping", {
+      strategyName,
+      symbol,
+      frameName,
+      error: errorData(error),
+      message: getErrorMessage(error),
+    });
+    candidate.stats = null;
+    candidate.metricValue = null;
+    candidate.error = getErrorMessage(error);
+    await errorEmitter.next(error);
+  }
+};
+
+/**
+ * Evaluates candidates with at most `concurrency` backtests in flight.
+ *
+ * @param symbol - Trading pair symbol
+ * @param candidates - Candidates to evaluate (mutated)
+ * @param exchangeName - Exchange to backtest on
+ * @param frameName - Frame to backtest on
+ * @param metric - Ranking metric
+ * @param concurrency - Maximum parallel backtests
+ */
+const RUN_POOL_FN = async (
+  symbol: string,
+  candidates: IOptimizerCandidate[],
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  metric: WalkerMetric,
+  concurrency: number
+): Promise<void> => {
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < candidates.length) {
+      const candidate = candidates[cursor++];
+      await RUN_CANDIDATE_FN(symbol, candidate, exchangeName, frameName, metric);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, candidates.length) }, worker)
+  );
+};
+
+/**
+ * Successive halving: rung k backtests the survivors on the first eta^(k - last)
+ * share of the frame and keeps the best ceil(n / eta) of them. The last rung runs
+ * the full frame.
+ *
+ * @param symbol - Trading pair symbol
+ * @param candidates - Candidates to evaluate (mutated)
+ * @param frameSchema - Full frame
+ * @param exchangeName - Exchange to backtest on
+ * @param metric - Ranking metric
+ * @param eta - Reduction factor
+ * @param concurrency - Maximum parallel backtests
+ */
+const RUN_HALVING_FN = async (
+  symbol: string,
+  candidates: IOptimizerCandidate[],
+  frameSchema: IFrameSchema,
+  exchangeName: ExchangeName,
+  metric: WalkerMetric,
+  eta: number,
+  concurrency: number
+): Promise<void> => {
+  const lastRung = Math.floor(
+    ROUND_VALUE_FN(Math.log(Math.max(candidates.length, 1)) / Math.log(eta))
+  );
+  const frameStart = frameSchema.startDate.getTime();
+  const frameDuration = frameSchema.endDate.getTime() - frameStart;
+  let survivors = candidates;
+  for (let rung = 0; rung <= lastRung; rung++) {
+    let frameName = frameSchema.frameName;
+    if (rung < lastRung) {
+      frameName = `${frameSchema.frameName}-sh${rung}`;
+      await REGISTER_FRAME_FN({
+        frameName,
+        note: `Successive halving rung ${rung} of ${frameSchema.frameName}`,
+        interval: frameSchema.interval,
+        startDate: frameSchema.startDate,
+        endDate: new Date(frameStart + Math.round(frameDuration * Math.pow(eta, rung - lastRung))),
+        benchmark: frameSchema.benchmark,
+      });
+    }
+    survivors.forEach((candidate) => (candidate.rung = rung));
+    await RUN_POOL_FN(symbol, survivors, exchangeName, frameName, metric, concurrency);
+    survivors = [...survivors]
+      .sort(COMPARE_CANDIDATES_FN)
+      .slice(0, Math.ceil(survivors.length / eta));
+  }
+};
+
+/**
+ * Formats a nullable number for the leaderboard.
+ */
+const FORMAT_VALUE_FN = (value: number | null | undefined, digits = 3): string =>
+  value === null || value === undefined ? "N/A" : value.toFixed(digits);
+
+/**
+ * Utility class for strategy parameter search.
+ *
+ * Expands the `params` declared on a strategy schema into derived strategies,
+ * one per parameter combination, and ranks them by a walker metric using the
+ * regular Backtest engine. The derived strategies read their values with
+ * getStrategyParams() and stay registered, so the winner can be passed to
+ * Backtest, Walker or Live by its name.
+ *
+ * @example
+ * ```typescript
+ * import { Optimizer } from "backtest-kit";
+ *
+ * const result = await Optimizer.run("BTCUSDT", {
+ *   strategyName: "ema-cross",
+ *   exchangeName: "binance",
+ *   frameName: "1d-backtest",
+ * }, { method: "halving", metric: "sharpeRatio", trials: 27, seed: 7 });
+ *
+ * console.log(result.bestStrategy, result.bestParams);
+ * await Optimizer.dump(result);
+ * ```
+ */
+export class OptimizerUtils {
+  /**
+   * Runs a parameter search and returns the ranked candidates.
+   *
+   * The statistics of every candidate are read from the backtest markdown service,
+   * which is subscribed on the first run. Strategies with a risk profile, allocator,
+   * sizing or the portfolio cash check are backtested one at a time regardless of
+   * `concurrency`, since their variants share one account.
+   *
+   * @param symbol - Trading pair symbol
+   * @param context - Base strategy with declared params, exchange and frame
+   * @param options - Search method, ranking metric and sampler settings
+   * @returns Leaderboard of every evaluated combination
+   * @throws Error when the strategy declares no params or an option is out of range
+   */
+  public run = async (
+    symbol: string,
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    options: IOptimizerOptions
+  ): Promise<OptimizerStatisticsModel> => {
+    backtest.loggerService.info(OPTIMIZER_METHOD_NAME_RUN, {
+      symbol,
+      context,
+      options,
+    });
+
+    backtest.strategyValidationService.validate(context.strategyName, OPTIMIZER_METHOD_NAME_RUN);
+    backtest.exchangeValidationService.validate(context.exchangeName, OPTIMIZER_METHOD_NAME_RUN);
+    backtest.frameValidationService.validate(context.frameName, OPTIMIZER_METHOD_NAME_RUN);
+
+    const {
+      method,
+      metric = DEFAULT_METRIC,
+      trials = DEFAULT_TRIALS,
+      seed = DEFAULT_SEED,
+      eta = DEFAULT_ETA,
+      concurrency = DEFAULT_CONCURRENCY,
+    } = options;
+
+    const strategySchema = backtest.strategySchemaService.get(context.strategyName);
+    if (!strategySchema.params || !Object.keys(strategySchema.params).length) {
+      throw new Error(`${OPTIMIZER_METHOD_NAME_RUN} strategy ${context.strategyName} declares no params`);
+    }
+    if (method !== "grid" && method !== "random" && method !== "halving") {
+      throw new Error(`${OPTIMIZER_METHOD_NAME_RUN} unknown method ${method}`);
+    }
+    if (!Number.isInteger(trials) || trials < 1) {
+      throw new Error(`${OPTIMIZER_METHOD_NAME_RUN} trials must be a positive integer, got ${trials}`);
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`${OPTIMIZER_METHOD_NAME_RUN} concurrency must be a positive integer, got ${concurrency}`);
+    }
+    if (typeof eta !== "number" || eta < 2) {
+      throw new Error(`${OPTIMIZER_METHOD_NAME_RUN} eta must be at least 2, got ${eta}`);
+    }
+
+    backtest.backtestMarkdownService.subscribe();
+
+    const poolSize = IS_SHARED_ACCOUNT_FN(strategySchema) ? 1 : concurrency;
+    if (poolSize !== concurrency) {
+      backtest.loggerService.info("OptimizerUtils shared account state, running trials sequentially", {
+        strategyName: context.strategyName,
+        concurrency,
+      });
+    }
+
+    const paramsList =
+      method === "grid"
+        ? CREATE_GRID_FN(strategySchema.params)
+        : CREATE_RANDOM_LIST_FN(context.strategyName, strategySchema.params, trials, seed);
+
+    const candidates: IOptimizerCandidate[] = [];
+    for (const params of paramsList) {
+      candidates.push({
+        strategyName: await REGISTER_STRATEGY_FN(strategySchema, params),
+        params,
+        metricValue: null,
+        stats: null,
+        rung: 0,
+        rank: 0,
+      });
+    }
+
+    if (method === "halving") {
+      await RUN_HALVING_FN(
+        symbol,
+        candidates,
+        backtest.frameSchemaService.get(context.frameName),
+        context.exchangeName,
+        metric,
+        eta,
+        poolSize
+      );
+    } else {
+      await RUN_POOL_FN(symbol, candidates, context.exchangeName, context.frameName, metric, poolSize);
+    }
+
+    candidates.sort(COMPARE_CANDIDATES_FN);
+    candidates.forEach((candidate, index) => (candidate.rank = index + 1));
+
+    const [best] = candidates;
+    const hasBest = !!best && best.metricValue !== null;
+
+    const finalists = candidates.filter(({ rung }) => rung === best?.rung);
+    const overfitting = getOverfittingStatistics(
+      finalists.map(({ strategyName, stats }) => ({
+        strategyName,
+        signalList: stats?.signalList ?? [],
+      })),
+      hasBest ? best.strategyName : null,
+      candidates.length
+    );
+
+    return {
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      method,
+      metric,
+      seed,
+      totalCandidates: candidates.length,
+      bestStrategy: hasBest ? best.strategyName : null,
+      bestParams: hasBest ? best.params : null,
+      bestMetric: hasBest ? best.metricValue : null,
+      candidates,
+      overfitting,
+    };
+  };
+
+  /**
+   * Generates a markdown leaderboard of an optimizer run.
+   *
+   * @param result - Result returned by run()
+   * @returns Markdown formatted report
+   */
+  public getReport = async (result: OptimizerStatisticsModel): Promise<string> => {
+    backtest.loggerService.info(OPTIMIZER_METHOD_NAME_GET_REPORT, {
+      symbol: result.symbol,
+      strategyName: result.strategyName,
+    });
+
+    const strategySchema = backtest.strategySchemaService.get(result.strategyName);
+    const paramNames = Object.keys(strategySchema.params ?? {});
+    const isHalving = result.method === "halving";
+    const { overfitting } = result;
+
+    const header = [
+      "Rank",
+      ...paramNames,
+      ...(isHalving ? ["Rung"] : []),
+      result.metric,
+      "Total PNL %",
+      "Win Rate %",
+      "Sharpe",
+      "Signals",
+      "Error",
+    ];
+    const separator = header.map(() => "---");
+    const rows = result.candidates.map((candidate) => [
+      `${candidate.rank}`,
+      ...paramNames.map((name) => `${candidate.params[name]}`),
+      ...(isHalving ? [`${candidate.rung}`] : []),
+      FORMAT_VALUE_FN(candidate.metricValue),
+      FORMAT_VALUE_FN(candidate.stats?.totalPnl, 2),
+      FORMAT_VALUE_FN(candidate.stats?.winRate, 2),
+      FORMAT_VALUE_FN(candidate.stats?.sharpeRatio),
+      `${candidate.stats?.totalSignals ?? 0}`,
+      candidate.error ?? "",
+    ]);
+
+    return [
+      `# Optimizer Report: ${result.strategyName} (${result.symbol})`,
+      "",
+      `**Exchange:** ${result.exchangeName}`,
+      `**Frame:** ${result.frameName}`,
+      `**Method:** ${result.method}${result.method === "grid" ? "" : ` (seed ${result.seed})`}`,
+      `**Metric:** ${result.metric}`,
+      `**Candidates:** ${result.totalCandidates}`,
+      `**Best Strategy:** ${result.bestStrategy ?? "N/A"}`,
+      `**Best ${result.metric}:** ${FORMAT_VALUE_FN(result.bestMetric)}`,
+      "",
+      [header, separator, ...rows].map((row) => `| ${row.join(" | ")} |`).join("\n"),
+      "",
+      isHalving
+        ? `*Successive halving: every rung backtests the surviving candidates on a longer prefix of the frame and keeps the best share of them, the highest rung runs the full frame. Candidates are ranked by rung, then by ${result.metric}; metrics of lower rungs come from shorter frames and are not comparable with the full frame.*`
+        : `*Candidates are ranked by ${result.metric} (higher is better), N/A last. Every candidate is a derived strategy named after its parameter values.*`,
+      "",
+      "## Overfitting Diagnostics",
+      "",
+      `**Deflated Sharpe Ratio:** ${overfitting.deflatedSharpe === null ? "N/A" : `${(overfitting.deflatedSharpe * 100).toFixed(1)}%`} (winner Sharpe ${FORMAT_VALUE_FN(overfitting.sharpeRatio)} vs expected max ${FORMAT_VALUE_FN(overfitting.expectedMaxSharpe)} of ${overfitting.trials} trials)`,
+      `**Probability of Backtest Overfitting:** ${overfitting.pbo === null ? "N/A" : `${(overfitting.pbo * 100).toFixed(1)}%`} (${overfitting.combinations} CSCV combinations)`,
+      "",
+      `*Deflated Sharpe Ratio: probability that the winner's per-trade Sharpe beats the best Sharpe ${overfitting.trials} parameter combinations without an edge would reach by chance, adjusted for skewness and kurtosis of its PNL; treat values below 95% as not significant. PBO: share of CSCV train/test splits of the ${overfitting.partitions} time blocks where the in-sample Sharpe leader finishes at or below the out-of-sample median; values near or above 50% mean the search is fitting noise.*`,
+      "",
+    ].join("\n");
+  };
+
+  /**
+   * Saves an optimizer run to `{symbol}_{strategyName}_{method}.json` and `.md`.
+   * The JSON keeps the statistics of every candidate without the closed signal lists.
+   *
+   * @param result - Result returned by run()
+   * @param path - Output directory (default: "./dump/optimizer")
+   */
+  public dump = async (
+    result: OptimizerStatisticsModel,
+    path = "./dump/optimizer"
+  ): Promise<void> => {
+    backtest.loggerService.info(OPTIMIZER_METHOD_NAME_DUMP, {
+      symbol: result.symbol,
+      strategyName: result.strategyName,
+      path,
+    });
+
+    const data = {
+      ...result,
+      candidates: result.candidates.map((candidate) => ({
+        ...candidate,
+        stats: candidate.stats && { ...candidate.stats, signalList: undefined },
+      })),
+    };
+    const fileName = `${result.symbol}_${result.strategyName}_${result.method}`;
+
+    await fs.mkdir(path, { recursive: true });
+    await writeFileAtomic(join(path, `${fileName}.json`), JSON.stringify(data, null, 2), "utf-8");
+    await writeFileAtomic(join(path, `${fileName}.md`), await this.getReport(result), "utf-8");
+  };
+}
+
+/**
+ * Singleton instance of OptimizerUtils for strategy parameter search.
+ *
+ * @example
+ * ```typescript
+ * import { Optimizer } from "backtest-kit";
+ *
+ * const result = await Optimizer.run("BTCUSDT", context, { method: "grid" });
+ * console.log(await Optimizer.getReport(result));
+ * ```
+ */
+export const Optimizer = new OptimizerUtils();
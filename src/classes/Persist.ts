@@ -26,12 +26,13 @@ import { errorEmitter } from "../config/emitters";
 import { IRiskActivePosition, RiskName } from "../interfaces/Risk.interface";
 import { IPartialData } from "../interfaces/Partial.interface";
 import { IBreakevenData } from "../interfaces/Breakeven.interface";
-import { ExchangeName, CandleInterval, ICandleData } from "../interfaces/Exchange.interface";
+import { ExchangeName, CandleInterval, ICandleData, IFundingRateData, IAggregatedTradeData } from "../interfaces/Exchange.interface";
 import { IStorageSignalRow } from "../interfaces/Strategy.interface";
 import { NotificationModel } from "../model/Notification.model";
 import { ILogEntry } from "../interfaces/Logger.interface";
 import LoggerService from "../lib/services/base/LoggerService";
 import { FrameName } from "../interfaces/Frame.interface";
+import { CircuitTripRule } from "../contract/CircuitTrip.contract";
 
 /** Logger service injected as DI singleton */
 const LOGGER_SERVICE = new LoggerService();
@@ -202,6 +203,10 @@ const PERSIST_INTERVAL_UTILS_METHOD_NAME_USE_PERSIST_INTERVAL_ADAPTER =
 
 const PERSIST_CANDLE_UTILS_METHOD_NAME_CLEAR = "PersistCandleUtils.clear";
 
+const PERSIST_FUNDING_UTILS_METHOD_NAME_CLEAR = "PersistFundingUtils.clear";
+
+const PERSIST_TRADE_UTILS_METHOD_NAME_CLEAR = "PersistTradeUtils.clear";
+
 const PERSIST_MEMORY_UTILS_METHOD_NAME_USE_PERSIST_MEMORY_ADAPTER =
   "PersistMemoryUtils.usePersistMemoryAdapter";
 const PERSIST_MEMORY_UTILS_METHOD_NAME_READ_DATA =
@@ -263,6 +268,16 @@ const PERSIST_RECENT_UTILS_METHOD_NAME_USE_JSON = "PersistRecentUtils.useJson";
 const PERSIST_RECENT_UTILS_METHOD_NAME_USE_DUMMY = "PersistRecentUtils.useDummy";
 const PERSIST_RECENT_UTILS_METHOD_NAME_CLEAR = "PersistRecentUtils.clear";
 
+const PERSIST_CIRCUIT_UTILS_METHOD_NAME_USE_PERSIST_CIRCUIT_ADAPTER =
+  "PersistCircuitUtils.usePersistCircuitAdapter";
+const PERSIST_CIRCUIT_UTILS_METHOD_NAME_READ_DATA =
+  "PersistCircuitUtils.readCircuitData";
+const PERSIST_CIRCUIT_UTILS_METHOD_NAME_WRITE_DATA =
+  "PersistCircuitUtils.writeCircuitData";
+const PERSIST_CIRCUIT_UTILS_METHOD_NAME_USE_JSON = "PersistCircuitUtils.useJson";
+const PERSIST_CIRCUIT_UTILS_METHOD_NAME_USE_DUMMY = "PersistCircuitUtils.useDummy";
+const PERSIST_CIRCUIT_UTILS_METHOD_NAME_CLEAR = "PersistCircuitUtils.clear";
+
 const BASE_WAIT_FOR_INIT_FN_METHOD_NAME = "PersistBase.waitForInitFn";
 
 const BASE_UNLINK_RETRY_COUNT = 5;
@@ -2663,7 +2678,719 @@ export class PersistCandleInstance implements IPersistCandleInstance {
         const candle = await this._storage.readValue(timestampKey);
         cachedCandles.push(candle);
       } catch (error) {
-        const message = `PersistCandleInstance.readCandlesData found invalid candle symbol=${this.symbol} interval=${this.interval} timestamp=${expectedTimestamp}`;
+        const message = `PersistCandleInstance.readCandlesData found invalid candle symbol=${this.symbol} interval=${this.interval} timestamp=${expectedTimestamp}`;
+        const payload = {
+          error: errorData(error),
+          message: getErrorMessage(error),
+        };
+        LOGGER_SERVICE.warn(message, payload);
+        console.warn(message, payload);
+        errorEmitter.next(error);
+        return null;
+      }
+    }
+
+    return cachedCandles;
+  }
+
+  /**
+   * Writes candles to cache.
+   * Skips incomplete candles (closeTime > now) and existing keys to keep
+   * the cache append-only for fully closed candles.
+   *
+   * @param candles - Array of candle data to cache
+   * @returns Promise that resolves when all writes are complete
+   */
+  async writeCandlesData(candles: CandleData[]): Promise<void> {
+    const stepMs = INTERVAL_MINUTES[this.interval] * MS_PER_MINUTE;
+    const now = Date.now();
+
+    for (const candle of candles) {
+      const candleCloseTime = candle.timestamp + stepMs;
+      if (candleCloseTime > now) {
+        LOGGER_SERVICE.debug(
+          "PersistCandleInstance.writeCandlesData: skipping incomplete candle",
+          {
+            symbol: this.symbol,
+            interval: this.interval,
+            exchangeName: this.exchangeName,
+            timestamp: candle.timestamp,
+            closeTime: candleCloseTime,
+            now,
+          }
+        );
+        continue;
+      }
+
+      if (await not(this._storage.hasValue(String(candle.timestamp)))) {
+        await this._storage.writeValue(String(candle.timestamp), candle);
+      }
+    }
+  }
+}
+
+/**
+ * No-op IPersistCandleInstance implementation used by PersistCandleUtils.useDummy().
+ * Always returns null on read (forces refetch), discards writes.
+ */
+class PersistCandleDummyInstance implements IPersistCandleInstance {
+  /**
+   * No-op constructor.
+   * Context arguments are accepted to satisfy TPersistCandleInstanceCtor.
+   */
+  constructor(_symbol: string, _interval: CandleInterval, _exchangeName: ExchangeName) {}
+  /**
+   * No-op initialization.
+   * @returns Promise that resolves immediately
+   */
+  async waitForInit(_initial: boolean): Promise<void> { void 0; }
+  /**
+   * Always returns null (forces refetch via cache miss).
+   * @returns Promise resolving to null
+   */
+  async readCandlesData(_limit: number, _since: number, _until: number): Promise<CandleData[] | null> { return null; }
+  /**
+   * No-op write (discards candles).
+   * @returns Promise that resolves immediately
+   */
+  async writeCandlesData(_candles: CandleData[]): Promise<void> { void 0; }
+}
+
+/**
+ * Constructor type for IPersistCandleInstance.
+ * Used by PersistCandleUtils.usePersistCandleAdapter() to register custom adapters.
+ */
+export type TPersistCandleInstanceCtor = new (
+  symbol: string,
+  interval: CandleInterval,
+  exchangeName: ExchangeName,
+) => IPersistCandleInstance;
+
+/**
+ * Utility class for managing candles cache persistence.
+ *
+ * Features:
+ * - Each candle stored as separate JSON file: ${exchangeName}/${symbol}/${interval}/${timestamp}.json
+ * - Cache validation: returns cached data if file count matches requested limit
+ * - Automatic cache invalidation and refresh when data is incomplete
+ * - Atomic read/write operations
+ *
+ * Used by ClientExchange for candle data caching.
+ */
+export class PersistCandleUtils {
+  /**
+   * Constructor used to create per-context candle cache instances.
+   * Replaceable via usePersistCandleAdapter() / useJson() / useDummy().
+   */
+  private PersistCandleInstanceCtor: TPersistCandleInstanceCtor = PersistCandleInstance;
+
+  /**
+   * Memoized factory creating one IPersistCandleInstance per (symbol, interval, exchange) triple.
+   */
+  private getCandlesStorage = memoize(
+    ([symbol, interval, exchangeName]: [string, CandleInterval, ExchangeName]): string =>
+      `${symbol}:${interval}:${exchangeName}`,
+    (
+      symbol: string,
+      interval: CandleInterval,
+      exchangeName: ExchangeName
+    ): IPersistCandleInstance =>
+      Reflect.construct(this.PersistCandleInstanceCtor, [symbol, interval, exchangeName])
+  );
+
+  /**
+   * Registers a custom IPersistCandleInstance constructor.
+   * Clears the memoization cache so subsequent calls use the new adapter.
+   *
+   * @param Ctor - Custom IPersistCandleInstance constructor
+   */
+  public usePersistCandleAdapter(Ctor: TPersistCandleInstanceCtor): void {
+    LOGGER_SERVICE.info("PersistCandleUtils.usePersistCandleAdapter");
+    this.PersistCandleInstanceCtor = Ctor;
+    this.getCandlesStorage.clear();
+  }
+
+  /**
+   * Reads cached candles for the given context and time window.
+   * Lazily initializes the instance on first access.
+   *
+   * @param symbol - Trading pair symbol
+   * @param interval - Candle interval
+   * @param exchangeName - Exchange identifier
+   * @param limit - Number of candles requested
+   * @param sinceTimestamp - Aligned start timestamp (openTime of first candle)
+   * @param untilTimestamp - Reserved for API compatibility
+   * @returns Promise resolving to candles in order, or null on cache miss
+   */
+  public readCandlesData = async (
+    symbol: string,
+    interval: CandleInterval,
+    exchangeName: ExchangeName,
+    limit: number,
+    sinceTimestamp: number,
+    untilTimestamp: number
+  ): Promise<CandleData[] | null> => {
+    LOGGER_SERVICE.info("PersistCandleUtils.readCandlesData", {
+      symbol,
+      interval,
+      exchangeName,
+      limit,
+      sinceTimestamp,
+    });
+    const key = `${symbol}:${interval}:${exchangeName}`;
+    const isInitial = !this.getCandlesStorage.has(key);
+    const instance = this.getCandlesStorage(symbol, interval, exchangeName);
+    await instance.waitForInit(isInitial);
+    return instance.readCandlesData(limit, sinceTimestamp, untilTimestamp);
+  };
+
+  /**
+   * Writes candles to cache for the given context.
+   * Lazily initializes the instance on first access.
+   *
+   * @param candles - Array of candle data to cache
+   * @param symbol - Trading pair symbol
+   * @param interval - Candle interval
+   * @param exchangeName - Exchange identifier
+   * @returns Promise that resolves when all writes are complete
+   */
+  public writeCandlesData = async (
+    candles: CandleData[],
+    symbol: string,
+    interval: CandleInterval,
+    exchangeName: ExchangeName
+  ): Promise<void> => {
+    LOGGER_SERVICE.info("PersistCandleUtils.writeCandlesData", {
+      symbol,
+      interval,
+      exchangeName,
+      candleCount: candles.length,
+    });
+    const key = `${symbol}:${interval}:${exchangeName}`;
+    const isInitial = !this.getCandlesStorage.has(key);
+    const instance = this.getCandlesStorage(symbol, interval, exchangeName);
+    await instance.waitForInit(isInitial);
+    return instance.writeCandlesData(candles);
+  };
+
+  /**
+   * Clears the memoized instance cache.
+   * Call when process.cwd() changes between strategy iterations.
+   */
+  public clear(): void {
+    LOGGER_SERVICE.log(PERSIST_CANDLE_UTILS_METHOD_NAME_CLEAR);
+    this.getCandlesStorage.clear();
+  }
+
+  /**
+   * Switches to the default file-based PersistCandleInstance.
+   */
+  public useJson() {
+    LOGGER_SERVICE.log("PersistCandleUtils.useJson");
+    this.usePersistCandleAdapter(PersistCandleInstance);
+  }
+
+  /**
+   * Switches to PersistCandleDummyInstance (always returns null on read, discards writes).
+   */
+  public useDummy() {
+    LOGGER_SERVICE.log("PersistCandleUtils.useDummy");
+    this.usePersistCandleAdapter(PersistCandleDummyInstance);
+  }
+}
+
+/**
+ * Global singleton instance of PersistCandleUtils.
+ * Used by ClientExchange for candle data caching.
+ *
+ * @example
+ * ```typescript
+ * // Read cached candles
+ * const candles = await PersistCandleAdapter.readCandlesData(
+ *   "BTCUSDT", "1m", "binance", 100, since.getTime(), until.getTime()
+ * );
+ *
+ * // Write candles to cache
+ * await PersistCandleAdapter.writeCandlesData(candles, "BTCUSDT", "1m", "binance");
+ * ```
+ */
+export const PersistCandleAdapter = new PersistCandleUtils();
+
+/**
+ * Type for persisted funding cache data.
+ * Each UTC day of funding settlements is stored as a separate JSON file.
+ */
+export type FundingData = IFundingRateData[];
+
+/**
+ * Per-context funding cache persistence instance interface.
+ * Scoped to a specific (symbol, exchangeName) pair.
+ *
+ * Funding settlements are grouped into UTC day buckets keyed by the day start
+ * timestamp. `readFundingData` returns `null` when ANY of the expected days is
+ * missing (cache miss), so the caller can refetch from the exchange.
+ *
+ * Custom adapters should implement this interface to override the default
+ * file-based funding cache behavior.
+ */
+export interface IPersistFundingInstance {
+  /**
+   * Initialize storage for this funding context.
+   *
+   * @param initial - Whether this is the first initialization
+   * @returns Promise that resolves when initialization is complete
+   */
+  waitForInit(initial: boolean): Promise<void>;
+
+  /**
+   * Read cached funding settlements for the requested days.
+   * Returns null if any day in the window is missing (cache miss).
+   *
+   * @param sinceTimestamp - Start timestamp aligned to UTC day
+   * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+   * @returns Promise resolving to settlements in order, or null on cache miss
+   */
+  readFundingData(sinceTimestamp: number, untilTimestamp: number): Promise<FundingData | null>;
+
+  /**
+   * Write funding settlements to cache for the given days.
+   * Implementations may skip days that are not over yet (dayEnd > now)
+   * and existing keys to avoid overwriting complete days.
+   *
+   * @param fundings - Settlements fetched for the window
+   * @param sinceTimestamp - Start timestamp aligned to UTC day
+   * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+   * @returns Promise that resolves when all writes are complete
+   */
+  writeFundingData(fundings: FundingData, sinceTimestamp: number, untilTimestamp: number): Promise<void>;
+}
+
+/** Funding cache bucket size: one UTC day */
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/**
+ * Default file-based implementation of IPersistFundingInstance.
+ *
+ * Features:
+ * - Each UTC day stored as a separate JSON file keyed by the day start timestamp
+ * - Days without settlements are stored as empty arrays (known empty, not a miss)
+ * - Read returns null on any missing day (cache miss → refetch)
+ * - Write skips days that are not over yet and existing keys
+ *
+ * @example
+ * ```typescript
+ * const instance = new PersistFundingInstance("BTCUSDT", "binance");
+ * await instance.waitForInit(true);
+ * await instance.writeFundingData(fundings, since, until);
+ * const cached = await instance.readFundingData(since, until);
+ * ```
+ */
+export class PersistFundingInstance implements IPersistFundingInstance {
+  /** Underlying file-based storage scoped to this context */
+  private readonly _storage: IPersistBase<FundingData>;
+
+  /**
+   * Creates new funding cache persistence instance.
+   *
+   * @param symbol - Trading pair symbol
+   * @param exchangeName - Exchange identifier
+   */
+  constructor(
+    readonly symbol: string,
+    readonly exchangeName: ExchangeName,
+  ) {
+    this._storage = new PersistBase(
+      `${exchangeName}/${symbol}`,
+      `./dump/data/funding/`
+    );
+  }
+
+  /**
+   * Initializes the underlying PersistBase storage.
+   *
+   * @param initial - Whether this is the first initialization
+   * @returns Promise that resolves when initialization is complete
+   */
+  async waitForInit(initial: boolean): Promise<void> {
+    await this._storage.waitForInit(initial);
+  }
+
+  /**
+   * Reads cached funding settlements day by day.
+   * Returns null on ANY missing day (cache miss).
+   * Invalid cached days emit a warning via errorEmitter and are treated as miss.
+   *
+   * @param sinceTimestamp - Start timestamp aligned to UTC day
+   * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+   * @returns Promise resolving to settlements in order, or null on cache miss
+   */
+  async readFundingData(sinceTimestamp: number, untilTimestamp: number): Promise<FundingData | null> {
+    const cachedFundings: FundingData = [];
+
+    for (let dayTimestamp = sinceTimestamp; dayTimestamp < untilTimestamp; dayTimestamp += MS_PER_DAY) {
+      const dayKey = String(dayTimestamp);
+
+      if (await not(this._storage.hasValue(dayKey))) {
+        return null;
+      }
+
+      try {
+        const fundings = await this._storage.readValue(dayKey);
+        cachedFundings.push(...fundings);
+      } catch (error) {
+        const message = `PersistFundingInstance.readFundingData found invalid funding day symbol=${this.symbol} timestamp=${dayTimestamp}`;
+        const payload = {
+          error: errorData(error),
+          message: getErrorMessage(error),
+        };
+        LOGGER_SERVICE.warn(message, payload);
+        console.warn(message, payload);
+        errorEmitter.next(error);
+        return null;
+      }
+    }
+
+    return cachedFundings;
+  }
+
+  /**
+   * Writes funding settlements grouped into UTC day buckets.
+   * Skips days that are not over yet (dayEnd > now) and existing keys to keep
+   * the cache append-only for complete days.
+   *
+   * @param fundings - Settlements fetched for the window
+   * @param sinceTimestamp - Start timestamp aligned to UTC day
+   * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+   * @returns Promise that resolves when all writes are complete
+   */
+  async writeFundingData(fundings: FundingData, sinceTimestamp: number, untilTimestamp: number): Promise<void> {
+    const now = Date.now();
+
+    for (let dayTimestamp = sinceTimestamp; dayTimestamp < untilTimestamp; dayTimestamp += MS_PER_DAY) {
+      if (dayTimestamp + MS_PER_DAY > now) {
+        LOGGER_SERVICE.debug(
+          "PersistFundingInstance.writeFundingData: skipping incomplete day",
+          {
+            symbol: this.symbol,
+            exchangeName: this.exchangeName,
+            timestamp: dayTimestamp,
+            now,
+          }
+        );
+        continue;
+      }
+
+      const dayKey = String(dayTimestamp);
+      if (await not(this._storage.hasValue(dayKey))) {
+        const dayFundings = fundings.filter(
+          ({ timestamp }) => timestamp >= dayTimestamp && timestamp < dayTimestamp + MS_PER_DAY
+        );
+        await this._storage.writeValue(dayKey, dayFundings);
+      }
+    }
+  }
+}
+
+/**
+ * No-op IPersistFundingInstance implementation used by PersistFundingUtils.useDummy().
+ * Always returns null on read (forces refetch), discards writes.
+ */
+class PersistFundingDummyInstance implements IPersistFundingInstance {
+  /**
+   * No-op constructor.
+   * Context arguments are accepted to satisfy TPersistFundingInstanceCtor.
+   */
+  constructor(_symbol: string, _exchangeName: ExchangeName) {}
+  /**
+   * No-op initialization.
+   * @returns Promise that resolves immediately
+   */
+  async waitForInit(_initial: boolean): Promise<void> { void 0; }
+  /**
+   * Always returns null (forces refetch via cache miss).
+   * @returns Promise resolving to null
+   */
+  async readFundingData(_since: number, _until: number): Promise<FundingData | null> { return null; }
+  /**
+   * No-op write (discards settlements).
+   * @returns Promise that resolves immediately
+   */
+  async writeFundingData(_fundings: FundingData, _since: number, _until: number): Promise<void> { void 0; }
+}
+
+/**
+ * Constructor type for IPersistFundingInstance.
+ * Used by PersistFundingUtils.usePersistFundingAdapter() to register custom adapters.
+ */
+export type TPersistFundingInstanceCtor = new (
+  symbol: string,
+  exchangeName: ExchangeName,
+) => IPersistFundingInstance;
+
+/**
+ * Utility class for managing funding rate cache persistence.
+ *
+ * Features:
+ * - Each UTC day stored as separate JSON file: ${exchangeName}/${symbol}/${dayTimestamp}.json
+ * - Cache validation: returns cached data only if every requested day is present
+ * - Automatic cache refresh when data is incomplete
+ *
+ * Used by ClientExchange for funding rate caching.
+ */
+export class PersistFundingUtils {
+  /**
+   * Constructor used to create per-context funding cache instances.
+   * Replaceable via usePersistFundingAdapter() / useJson() / useDummy().
+   */
+  private PersistFundingInstanceCtor: TPersistFundingInstanceCtor = PersistFundingInstance;
+
+  /**
+   * Memoized factory creating one IPersistFundingInstance per (symbol, exchange) pair.
+   */
+  private getFundingStorage = memoize(
+    ([symbol, exchangeName]: [string, ExchangeName]): string =>
+      `${symbol}:${exchangeName}`,
+    (
+      symbol: string,
+      exchangeName: ExchangeName
+    ): IPersistFundingInstance =>
+      Reflect.construct(this.PersistFundingInstanceCtor, [symbol, exchangeName])
+  );
+
+  /**
+   * Registers a custom IPersistFundingInstance constructor.
+   * Clears the memoization cache so subsequent calls use the new adapter.
+   *
+   * @param Ctor - Custom IPersistFundingInstance constructor
+   */
+  public usePersistFundingAdapter(Ctor: TPersistFundingInstanceCtor): void {
+    LOGGER_SERVICE.info("PersistFundingUtils.usePersistFundingAdapter");
+    this.PersistFundingInstanceCtor = Ctor;
+    this.getFundingStorage.clear();
+  }
+
+  /**
+   * Reads cached funding settlements for the given context and day window.
+   * Lazily initializes the instance on first access.
+   *
+   * @param symbol - Trading pair symbol
+   * @param exchangeName - Exchange identifier
+   * @param sinceTimestamp - Start timestamp aligned to UTC day
+   * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+   * @returns Promise resolving to settlements in order, or null on cache miss
+   */
+  public readFundingData = async (
+    symbol: string,
+    exchangeName: ExchangeName,
+    sinceTimestamp: number,
+    untilTimestamp: number
+  ): Promise<FundingData | null> => {
+    LOGGER_SERVICE.info("PersistFundingUtils.readFundingData", {
+      symbol,
+      exchangeName,
+      sinceTimestamp,
+      untilTimestamp,
+    });
+    const key = `${symbol}:${exchangeName}`;
+    const isInitial = !this.getFundingStorage.has(key);
+    const instance = this.getFundingStorage(symbol, exchangeName);
+    await instance.waitForInit(isInitial);
+    return instance.readFundingData(sinceTimestamp, untilTimestamp);
+  };
+
+  /**
+   * Writes funding settlements to cache for the given context and day window.
+   * Lazily initializes the instance on first access.
+   *
+   * @param fundings - Settlements fetched for the window
+   * @param symbol - Trading pair symbol
+   * @param exchangeName - Exchange identifier
+   * @param sinceTimestamp - Start timestamp aligned to UTC day
+   * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+   * @returns Promise that resolves when all writes are complete
+   */
+  public writeFundingData = async (
+    fundings: FundingData,
+    symbol: string,
+    exchangeName: ExchangeName,
+    sinceTimestamp: number,
+    untilTimestamp: number
+  ): Promise<void> => {
+    LOGGER_SERVICE.info("PersistFundingUtils.writeFundingData", {
+      symbol,
+      exchangeName,
+      fundingCount: fundings.length,
+    });
+    const key = `${symbol}:${exchangeName}`;
+    const isInitial = !this.getFundingStorage.has(key);
+    const instance = this.getFundingStorage(symbol, exchangeName);
+    await instance.waitForInit(isInitial);
+    return instance.writeFundingData(fundings, sinceTimestamp, untilTimestamp);
+  };
+
+  /**
+   * Clears the memoized instance cache.
+   * Call when process.cwd() changes between strategy iterations.
+   */
+  public clear(): void {
+    LOGGER_SERVICE.log(PERSIST_FUNDING_UTILS_METHOD_NAME_CLEAR);
+    this.getFundingStorage.clear();
+  }
+
+  /**
+   * Switches to the default file-based PersistFundingInstance.
+   */
+  public useJson() {
+    LOGGER_SERVICE.log("PersistFundingUtils.useJson");
+    this.usePersistFundingAdapter(PersistFundingInstance);
+  }
+
+  /**
+   * Switches to PersistFundingDummyInstance (always returns null on read, discards writes).
+   */
+  public useDummy() {
+    LOGGER_SERVICE.log("PersistFundingUtils.useDummy");
+    this.usePersistFundingAdapter(PersistFundingDummyInstance);
+  }
+}
+
+/**
+ * Global singleton instance of PersistFundingUtils.
+ * Used by ClientExchange for funding rate caching.
+ *
+ * @example
+ * ```typescript
+ * // Read cached funding settlements for whole UTC days
+ * const fundings = await PersistFundingAdapter.readFundingData(
+ *   "BTCUSDT", "binance", dayStart, dayEnd
+ * );
+ *
+ * // Write funding settlements to cache
+ * await PersistFundingAdapter.writeFundingData(fundings, "BTCUSDT", "binance", dayStart, dayEnd);
+ * ```
+ */
+export const PersistFundingAdapter = new PersistFundingUtils();
+
+/**
+ * Type for persisted trade cache data.
+ * Each minute of aggregated trades is stored as a separate JSON file.
+ */
+export type TradeData = IAggregatedTradeData[];
+
+/**
+ * Per-context trade cache persistence instance interface.
+ * Scoped to a specific (symbol, exchangeName) pair.
+ *
+ * Aggregated trades are grouped into 1-minute buckets keyed by the minute open
+ * timestamp (same keys as 1m candles). `readTradeData` returns `null` when ANY
+ * of the expected minutes is missing (cache miss), so the caller can refetch from the exchange.
+ *
+ * Custom adapters should implement this interface to override the default
+ * file-based trade cache behavior.
+ */
+export interface IPersistTradeInstance {
+  /**
+   * Initialize storage for this trade context.
+   *
+   * @param initial - Whether this is the first initialization
+   * @returns Promise that resolves when initialization is complete
+   */
+  waitForInit(initial: boolean): Promise<void>;
+
+  /**
+   * Read cached aggregated trades for the requested minutes.
+   * Returns null if any minute in the window is missing (cache miss).
+   *
+   * @param sinceTimestamp - Start timestamp aligned to 1m
+   * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
+   * @returns Promise resolving to trades in order, or null on cache miss
+   */
+  readTradeData(sinceTimestamp: number, untilTimestamp: number): Promise<TradeData | null>;
+
+  /**
+   * Write aggregated trades to cache for the given minutes.
+   * Implementations may skip minutes that are not over yet (minuteEnd > now)
+   * and existing keys to avoid overwriting complete minutes.
+   *
+   * @param trades - Trades fetched for the window
+   * @param sinceTimestamp - Start timestamp aligned to 1m
+   * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
+   * @returns Promise that resolves when all writes are complete
+   */
+  writeTradeData(trades: TradeData, sinceTimestamp: number, untilTimestamp: number): Promise<void>;
+}
+
+/**
+ * Default file-based implementation of IPersistTradeInstance.
+ *
+ * Features:
+ * - Each minute stored as a separate JSON file keyed by the minute open timestamp
+ * - Minutes without trades are stored as empty arrays (known empty, not a miss)
+ * - Read returns null on any missing minute (cache miss → refetch)
+ * - Write skips minutes that are not over yet and existing keys
+ *
+ * @example
+ * ```typescript
+ * const instance = new PersistTradeInstance("BTCUSDT", "binance");
+ * await instance.waitForInit(true);
+ * await instance.writeTradeData(trades, since, until);
+ * const cached = await instance.readTradeData(since, until);
+ * ```
+ */
+export class PersistTradeInstance implements IPersistTradeInstance {
+  /** Underlying file-based storage scoped to this context */
+  private readonly _storage: IPersistBase<TradeData>;
+
+  /**
+   * Creates new trade cache persistence instance.
+   *
+   * @param symbol - Trading pair symbol
+   * @param exchangeName - Exchange identifier
+   */
+  constructor(
+    readonly symbol: string,
+    readonly exchangeName: ExchangeName,
+  ) {
+    this._storage = new PersistBase(
+      `${exchangeName}/${symbol}`,
+      `./dump/data/trade/`
+    );
+  }
+
+  /**
+   * Initializes the underlying PersistBase storage.
+   *
+   * @param initial - Whether this is the first initialization
+   * @returns Promise that resolves when initialization is complete
+   */
+  async waitForInit(initial: boolean): Promise<void> {
+    await this._storage.waitForInit(initial);
+  }
+
+  /**
+   * Reads cached aggregated trades minute by minute.
+   * Returns null on ANY missing minute (cache miss).
+   * Invalid cached minutes emit a warning via errorEmitter and are treated as miss.
+   *
+   * @param sinceTimestamp - Start timestamp aligned to 1m
+   * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
+   * @returns Promise resolving to trades in order, or null on cache miss
+   */
+  async readTradeData(sinceTimestamp: number, untilTimestamp: number): Promise<TradeData | null> {
+    const cachedTrades: TradeData = [];
+
+    for (let minuteTimestamp = sinceTimestamp; minuteTimestamp < untilTimestamp; minuteTimestamp += MS_PER_MINUTE) {
+      const minuteKey = String(minuteTimestamp);
+
+      if (await not(this._storage.hasValue(minuteKey))) {
+        return null;
+      }
+
+      try {
+        const trades = await this._storage.readValue(minuteKey);
+        cachedTrades.push(...trades);
+      } catch (error) {
+        const message = `PersistTradeInstance.readTradeData found invalid trade minute symbol=${this.symbol} timestamp=${minuteTimestamp}`;
         const payload = {
           error: errorData(error),
           message: getErrorMessage(error),
@@ -2675,55 +3402,57 @@ export class PersistCandleInstance implements IPersistCandleInstance {
       }
     }
 
-    return cachedCandles;
+    return cachedTrades;
   }
 
   /**
-   * Writes candles to cache.
-   * Skips incomplete candles (closeTime > now) and existing keys to keep
-   * the cache append-only for fully closed candles.
+   * Writes aggregated trades grouped into 1-minute buckets.
+   * Skips minutes that are not over yet (minuteEnd > now) and existing keys to keep
+   * the cache append-only for complete minutes.
    *
-   * @param candles - Array of candle data to cache
+   * @param trades - Trades fetched for the window
+   * @param sinceTimestamp - Start timestamp aligned to 1m
+   * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
    * @returns Promise that resolves when all writes are complete
    */
-  async writeCandlesData(candles: CandleData[]): Promise<void> {
-    const stepMs = INTERVAL_MINUTES[this.interval] * MS_PER_MINUTE;
+  async writeTradeData(trades: TradeData, sinceTimestamp: number, untilTimestamp: number): Promise<void> {
     const now = Date.now();
 
-    for (const candle of candles) {
-      const candleCloseTime = candle.timestamp + stepMs;
-      if (candleCloseTime > now) {
+    for (let minuteTimestamp = sinceTimestamp; minuteTimestamp < untilTimestamp; minuteTimestamp += MS_PER_MINUTE) {
+      if (minuteTimestamp + MS_PER_MINUTE > now) {
         LOGGER_SERVICE.debug(
-          "PersistCandleInstance.writeCandlesData: skipping incomplete candle",
+          "PersistTradeInstance.writeTradeData: skipping incomplete minute",
           {
             symbol: this.symbol,
-            interval: this.interval,
             exchangeName: this.exchangeName,
-            timestamp: candle.timestamp,
-            closeTime: candleCloseTime,
+            timestamp: minuteTimestamp,
             now,
           }
         );
         continue;
       }
 
-      if (await not(this._storage.hasValue(String(candle.timestamp)))) {
-        await this._storage.writeValue(String(candle.timestamp), candle);
+      const minuteKey = String(minuteTimestamp);
+      if (await not(this._storage.hasValue(minuteKey))) {
+        const minuteTrades = trades.filter(
+          ({ timestamp }) => timestamp >= minuteTimestamp && timestamp < minuteTimestamp + MS_PER_MINUTE
+        );
+        await this._storage.writeValue(minuteKey, minuteTrades);
       }
     }
   }
 }
 
 /**
- * No-op IPersistCandleInstance implementation used by PersistCandleUtils.useDummy().
+ * No-op IPersistTradeInstance implementation used by PersistTradeUtils.useDummy().
  * Always returns null on read (forces refetch), discards writes.
  */
-class PersistCandleDummyInstance implements IPersistCandleInstance {
+class PersistTradeDummyInstance implements IPersistTradeInstance {
   /**
    * No-op constructor.
-   * Context arguments are accepted to satisfy TPersistCandleInstanceCtor.
+   * Context arguments are accepted to satisfy TPersistTradeInstanceCtor.
    */
-  constructor(_symbol: string, _interval: CandleInterval, _exchangeName: ExchangeName) {}
+  constructor(_symbol: string, _exchangeName: ExchangeName) {}
   /**
    * No-op initialization.
    * @returns Promise that resolves immediately
@@ -2733,129 +3462,122 @@ class PersistCandleDummyInstance implements IPersistCandleInstance {
    * Always returns null (forces refetch via cache miss).
    * @returns Promise resolving to null
    */
-  async readCandlesData(_limit: number, _since: number, _until: number): Promise<CandleData[] | null> { return null; }
+  async readTradeData(_since: number, _until: number): Promise<TradeData | null> { return null; }
   /**
-   * No-op write (discards candles).
+   * No-op write (discards trades).
    * @returns Promise that resolves immediately
    */
-  async writeCandlesData(_candles: CandleData[]): Promise<void> { void 0; }
+  async writeTradeData(_trades: TradeData, _since: number, _until: number): Promise<void> { void 0; }
 }
 
 /**
- * Constructor type for IPersistCandleInstance.
- * Used by PersistCandleUtils.usePersistCandleAdapter() to register custom adapters.
+ * Constructor type for IPersistTradeInstance.
+ * Used by PersistTradeUtils.usePersistTradeAdapter() to register custom adapters.
  */
-export type TPersistCandleInstanceCtor = new (
+export type TPersistTradeInstanceCtor = new (
   symbol: string,
-  interval: CandleInterval,
   exchangeName: ExchangeName,
-) => IPersistCandleInstance;
+) => IPersistTradeInstance;
 
 /**
- * Utility class for managing candles cache persistence.
+ * Utility class for managing aggregated trade cache persistence.
  *
  * Features:
- * - Each candle stored as separate JSON file: ${exchangeName}/${symbol}/${interval}/${timestamp}.json
- * - Cache validation: returns cached data if file count matches requested limit
- * - Automatic cache invalidation and refresh when data is incomplete
- * - Atomic read/write operations
+ * - Each minute stored as separate JSON file: ${exchangeName}/${symbol}/${minuteTimestamp}.json
+ * - Cache validation: returns cached data only if every requested minute is present
+ * - Automatic cache refresh when data is incomplete
  *
- * Used by ClientExchange for candle data caching.
+ * Used by ClientExchange for aggregated trade caching.
  */
-export class PersistCandleUtils {
+export class PersistTradeUtils {
   /**
-   * Constructor used to create per-context candle cache instances.
-   * Replaceable via usePersistCandleAdapter() / useJson() / useDummy().
+   * Constructor used to create per-context trade cache instances.
+   * Replaceable via usePersistTradeAdapter() / useJson() / useDummy().
    */
-  private PersistCandleInstanceCtor: TPersistCandleInstanceCtor = PersistCandleInstance;
+  private PersistTradeInstanceCtor: TPersistTradeInstanceCtor = PersistTradeInstance;
 
   /**
-   * Memoized factory creating one IPersistCandleInstance per (symbol, interval, exchange) triple.
+   * Memoized factory creating one IPersistTradeInstance per (symbol, exchange) pair.
    */
-  private getCandlesStorage = memoize(
-    ([symbol, interval, exchangeName]: [string, CandleInterval, ExchangeName]): string =>
-      `${symbol}:${interval}:${exchangeName}`,
+  private getTradeStorage = memoize(
+    ([symbol, exchangeName]: [string, ExchangeName]): string =>
+      `${symbol}:${exchangeName}`,
     (
       symbol: string,
-      interval: CandleInterval,
       exchangeName: ExchangeName
-    ): IPersistCandleInstance =>
-      Reflect.construct(this.PersistCandleInstanceCtor, [symbol, interval, exchangeName])
+    ): IPersistTradeInstance =>
+      Reflect.construct(this.PersistTradeInstanceCtor, [symbol, exchangeName])
   );
 
   /**
-   * Registers a custom IPersistCandleInstance constructor.
+   * Registers a custom IPersistTradeInstance constructor.
    * Clears the memoization cache so subsequent calls use the new adapter.
    *
-   * @param Ctor - Custom IPersistCandleInstance constructor
+   * @param Ctor - Custom IPersistTradeInstance constructor
    */
-  public usePersistCandleAdapter(Ctor: TPersistCandleInstanceCtor): void {
-    LOGGER_SERVICE.info("PersistCandleUtils.usePersistCandleAdapter");
-    this.PersistCandleInstanceCtor = Ctor;
-    this.getCandlesStorage.clear();
+  public usePersistTradeAdapter(Ctor: TPersistTradeInstanceCtor): void {
+    LOGGER_SERVICE.info("PersistTradeUtils.usePersistTradeAdapter");
+    this.PersistTradeInstanceCtor = Ctor;
+    this.getTradeStorage.clear();
   }
 
   /**
-   * Reads cached candles for the given context and time window.
+   * Reads cached aggregated trades for the given context and minute window.
    * Lazily initializes the instance on first access.
    *
    * @param symbol - Trading pair symbol
-   * @param interval - Candle interval
    * @param exchangeName - Exchange identifier
-   * @param limit - Number of candles requested
-   * @param sinceTimestamp - Aligned start timestamp (openTime of first candle)
-   * @param untilTimestamp - Reserved for API compatibility
-   * @returns Promise resolving to candles in order, or null on cache miss
+   * @param sinceTimestamp - Start timestamp aligned to 1m
+   * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
+   * @returns Promise resolving to trades in order, or null on cache miss
    */
-  public readCandlesData = async (
+  public readTradeData = async (
     symbol: string,
-    interval: CandleInterval,
     exchangeName: ExchangeName,
-    limit: number,
     sinceTimestamp: number,
     untilTimestamp: number
-  ): Promise<CandleData[] | null> => {
-    LOGGER_SERVICE.info("PersistCandleUtils.readCandlesData", {
+  ): Promise<TradeData | null> => {
+    LOGGER_SERVICE.info("PersistTradeUtils.readTradeData", {
       symbol,
-      interval,
       exchangeName,
-      limit,
       sinceTimestamp,
+      untilTimestamp,
     });
-    const key = `${symbol}:${interval}:${exchangeName}`;
-    const isInitial = !this.getCandlesStorage.has(key);
-    const instance = this.getCandlesStorage(symbol, interval, exchangeName);
+    const key = `${symbol}:${exchangeName}`;
+    const isInitial = !this.getTradeStorage.has(key);
+    const instance = this.getTradeStorage(symbol, exchangeName);
     await instance.waitForInit(isInitial);
-    return instance.readCandlesData(limit, sinceTimestamp, untilTimestamp);
+    return instance.readTradeData(sinceTimestamp, untilTimestamp);
   };
 
   /**
-   * Writes candles to cache for the given context.
+   * Writes aggregated trades to cache for the given context and minute window.
    * Lazily initializes the instance on first access.
    *
-   * @param candles - Array of candle data to cache
+   * @param trades - Trades fetched for the window
    * @param symbol - Trading pair symbol
-   * @param interval - Candle interval
    * @param exchangeName - Exchange identifier
+   * @param sinceTimestamp - Start timestamp aligned to 1m
+   * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
    * @returns Promise that resolves when all writes are complete
    */
-  public writeCandlesData = async (
-    candles: CandleData[],
+  public writeTradeData = async (
+    trades: TradeData,
     symbol: string,
-    interval: CandleInterval,
-    exchangeName: ExchangeName
+    exchangeName: ExchangeName,
+    sinceTimestamp: number,
+    untilTimestamp: number
   ): Promise<void> => {
-    LOGGER_SERVICE.info("PersistCandleUtils.writeCandlesData", {
+    LOGGER_SERVICE.info("PersistTradeUtils.writeTradeData", {
       symbol,
-      interval,
       exchangeName,
-      candleCount: candles.length,
+      tradeCount: trades.length,
     });
-    const key = `${symbol}:${interval}:${exchangeName}`;
-    const isInitial = !this.getCandlesStorage.has(key);
-    const instance = this.getCandlesStorage(symbol, interval, exchangeName);
+    const key = `${symbol}:${exchangeName}`;
+    const isInitial = !this.getTradeStorage.has(key);
+    const instance = this.getTradeStorage(symbol, exchangeName);
     await instance.waitForInit(isInitial);
-    return instance.writeCandlesData(candles);
+    return instance.writeTradeData(trades, sinceTimestamp, untilTimestamp);
   };
 
   /**
@@ -2863,43 +3585,43 @@ export class PersistCandleUtils {
    * Call when process.cwd() changes between strategy iterations.
    */
   public clear(): void {
-    LOGGER_SERVICE.log(PERSIST_CANDLE_UTILS_METHOD_NAME_CLEAR);
-    this.getCandlesStorage.clear();
+    LOGGER_SERVICE.log(PERSIST_TRADE_UTILS_METHOD_NAME_CLEAR);
+    this.getTradeStorage.clear();
   }
 
   /**
-   * Switches to the default file-based PersistCandleInstance.
+   * Switches to the default file-based PersistTradeInstance.
    */
   public useJson() {
-    LOGGER_SERVICE.log("PersistCandleUtils.useJson");
-    this.usePersistCandleAdapter(PersistCandleInstance);
+    LOGGER_SERVICE.log("PersistTradeUtils.useJson");
+    this.usePersistTradeAdapter(PersistTradeInstance);
   }
 
   /**
-   * Switches to PersistCandleDummyInstance (always returns null on read, discards writes).
+   * Switches to PersistTradeDummyInstance (always returns null on read, discards writes).
    */
   public useDummy() {
-    LOGGER_SERVICE.log("PersistCandleUtils.useDummy");
-    this.usePersistCandleAdapter(PersistCandleDummyInstance);
+    LOGGER_SERVICE.log("PersistTradeUtils.useDummy");
+    this.usePersistTradeAdapter(PersistTradeDummyInstance);
   }
 }
 
 /**
- * Global singleton instance of PersistCandleUtils.
- * Used by ClientExchange for candle data caching.
+ * Global singleton instance of PersistTradeUtils.
+ * Used by ClientExchange for aggregated trade caching.
  *
  * @example
  * ```typescript
- * // Read cached candles
- * const candles = await PersistCandleAdapter.readCandlesData(
- *   "BTCUSDT", "1m", "binance", 100, since.getTime(), until.getTime()
+ * // Read cached aggregated trades for whole minutes
+ * const trades = await PersistTradeAdapter.readTradeData(
+ *   "BTCUSDT", "binance", minuteStart, minuteEnd
  * );
  *
- * // Write candles to cache
- * await PersistCandleAdapter.writeCandlesData(candles, "BTCUSDT", "1m", "binance");
+ * // Write aggregated trades to cache
+ * await PersistTradeAdapter.writeTradeData(trades, "BTCUSDT", "binance", minuteStart, minuteEnd);
  * ```
  */
-export const PersistCandleAdapter = new PersistCandleUtils();
+export const PersistTradeAdapter = new PersistTradeUtils();
 
 
 /**
@@ -5841,3 +6563,260 @@ export class PersistSessionUtils {
  * Used by SessionPersistInstance for crash-safe session persistence.
  */
 export const PersistSessionAdapter = new PersistSessionUtils();
+
+/**
+ * Type for persisted circuit breaker state of one exchange account.
+ * The tripped flag survives restarts so trading stays paused until an explicit reset.
+ */
+export type CircuitData = {
+  /** Exchange account the state belongs to */
+  exchangeName: ExchangeName;
+  /** True while trading is stopped by the breaker */
+  tripped: boolean;
+  /** Rule that tripped, null while armed */
+  rule: CircuitTripRule | null;
+  /** Human-readable trip reason, null while armed */
+  note: string | null;
+  /** Trip timestamp in milliseconds, null while armed */
+  trippedAt: number | null;
+  /** Start of the UTC day realizedPnl belongs to, in milliseconds */
+  dayStart: number;
+  /** Realized PnL of live closed signals since dayStart, in USD */
+  realizedPnl: number;
+};
+
+/**
+ * Per-exchange circuit breaker persistence instance interface.
+ *
+ * Custom adapters should implement this interface to override the default
+ * file-based circuit breaker state behavior.
+ */
+export interface IPersistCircuitInstance {
+  /**
+   * Initialize storage for this exchange account.
+   *
+   * @param initial - Whether this is the first initialization
+   * @returns Promise that resolves when initialization is complete
+   */
+  waitForInit(initial: boolean): Promise<void>;
+
+  /**
+   * Read the persisted circuit breaker state.
+   *
+   * @returns Promise resolving to the state or null if none persisted
+   */
+  readCircuitData(): Promise<CircuitData | null>;
+
+  /**
+   * Write the circuit breaker state.
+   *
+   * @param data - State to persist
+   * @param when - Logical timestamp of the write
+   * @returns Promise that resolves when write is complete
+   */
+  writeCircuitData(data: CircuitData, when: Date): Promise<void>;
+}
+
+/**
+ * Default file-based implementation of IPersistCircuitInstance.
+ *
+ * Features:
+ * - Wraps PersistBase for atomic JSON writes
+ * - Uses exchangeName as entity ID in `./dump/data/circuit/`
+ *
+ * @example
+ * ```typescript
+ * const instance = new PersistCircuitInstance("binance");
+ * await instance.waitForInit(true);
+ * const state = await instance.readCircuitData();
+ * ```
+ */
+export class PersistCircuitInstance implements IPersistCircuitInstance {
+  /** Underlying file-based storage */
+  private readonly _storage: IPersistBase<CircuitData>;
+
+  /**
+   * Creates new circuit breaker persistence instance.
+   *
+   * @param exchangeName - Exchange identifier
+   */
+  constructor(readonly exchangeName: ExchangeName) {
+    this._storage = new PersistBase("circuit", `./dump/data/circuit/`);
+  }
+
+  /**
+   * Initializes the underlying PersistBase storage.
+   *
+   * @param initial - Whether this is the first initialization
+   * @returns Promise that resolves when initialization is complete
+   */
+  async waitForInit(initial: boolean): Promise<void> {
+    await this._storage.waitForInit(initial);
+  }
+
+  /**
+   * Reads the persisted state using `exchangeName` as the entity key.
+   *
+   * @returns Promise resolving to the state or null if not found
+   */
+  async readCircuitData(): Promise<CircuitData | null> {
+    if (await this._storage.hasValue(this.exchangeName)) {
+      return await this._storage.readValue(this.exchangeName);
+    }
+    return null;
+  }
+
+  /**
+   * Writes the state using `exchangeName` as the entity key.
+   *
+   * @param data - State to persist
+   * @returns Promise that resolves when write is complete
+   */
+  async writeCircuitData(data: CircuitData, _when: Date): Promise<void> {
+    await this._storage.writeValue(this.exchangeName, data);
+  }
+}
+
+/**
+ * No-op IPersistCircuitInstance implementation used by PersistCircuitUtils.useDummy().
+ * All reads return null, all writes are discarded.
+ */
+class PersistCircuitDummyInstance implements IPersistCircuitInstance {
+  /**
+   * No-op constructor.
+   * The exchange argument is accepted to satisfy TPersistCircuitInstanceCtor.
+   */
+  constructor(_exchangeName: ExchangeName) {}
+  /**
+   * No-op initialization.
+   * @returns Promise that resolves immediately
+   */
+  async waitForInit(_initial: boolean): Promise<void> { void 0; }
+  /**
+   * Always returns null (breaker armed).
+   * @returns Promise resolving to null
+   */
+  async readCircuitData(): Promise<CircuitData | null> { return null; }
+  /**
+   * No-op write (discards state).
+   * @returns Promise that resolves immediately
+   */
+  async writeCircuitData(_data: CircuitData, _when: Date): Promise<void> { void 0; }
+}
+
+/**
+ * Constructor type for IPersistCircuitInstance.
+ * Used by PersistCircuitUtils.usePersistCircuitAdapter() to register custom adapters.
+ */
+export type TPersistCircuitInstanceCtor = new (
+  exchangeName: ExchangeName,
+) => IPersistCircuitInstance;
+
+/**
+ * Utility class for managing circuit breaker state persistence.
+ *
+ * Features:
+ * - Memoized storage instances per exchange account
+ * - Custom adapter support
+ * - Crash-safe tripped state: a restarted process stays paused
+ *
+ * Used by CircuitBreaker to restore and record its state.
+ */
+export class PersistCircuitUtils {
+  /**
+   * Constructor used to create per-exchange instances.
+   * Replaceable via usePersistCircuitAdapter() / useJson() / useDummy().
+   */
+  private PersistCircuitInstanceCtor: TPersistCircuitInstanceCtor = PersistCircuitInstance;
+
+  /**
+   * Memoized factory creating one IPersistCircuitInstance per exchange.
+   */
+  private getStorage = memoize(
+    ([exchangeName]: [ExchangeName]) => exchangeName,
+    (exchangeName: ExchangeName): IPersistCircuitInstance =>
+      Reflect.construct(this.PersistCircuitInstanceCtor, [exchangeName])
+  );
+
+  /**
+   * Registers a custom IPersistCircuitInstance constructor.
+   * Clears the memoization cache so subsequent calls use the new adapter.
+   *
+   * @param Ctor - Custom IPersistCircuitInstance constructor
+   */
+  public usePersistCircuitAdapter(Ctor: TPersistCircuitInstanceCtor): void {
+    LOGGER_SERVICE.info(PERSIST_CIRCUIT_UTILS_METHOD_NAME_USE_PERSIST_CIRCUIT_ADAPTER);
+    this.PersistCircuitInstanceCtor = Ctor;
+    this.getStorage.clear();
+  }
+
+  /**
+   * Reads the circuit breaker state of the exchange account.
+   * Lazily initializes the instance on first access.
+   *
+   * @param exchangeName - Exchange identifier
+   * @returns Promise resolving to the state or null if none persisted
+   */
+  public readCircuitData = async (
+    exchangeName: ExchangeName,
+  ): Promise<CircuitData | null> => {
+    LOGGER_SERVICE.info(PERSIST_CIRCUIT_UTILS_METHOD_NAME_READ_DATA, { exchangeName });
+    const isInitial = !this.getStorage.has(exchangeName);
+    const instance = this.getStorage(exchangeName);
+    await instance.waitForInit(isInitial);
+    return instance.readCircuitData();
+  };
+
+  /**
+   * Writes the circuit breaker state of the exchange account.
+   * Lazily initializes the instance on first access.
+   *
+   * @param data - State to persist (carries exchangeName)
+   * @param when - Logical timestamp of the write
+   * @returns Promise that resolves when write is complete
+   */
+  public writeCircuitData = async (
+    data: CircuitData,
+    when: Date,
+  ): Promise<void> => {
+    LOGGER_SERVICE.info(PERSIST_CIRCUIT_UTILS_METHOD_NAME_WRITE_DATA, {
+      exchangeName: data.exchangeName,
+      tripped: data.tripped,
+    });
+    const isInitial = !this.getStorage.has(data.exchangeName);
+    const instance = this.getStorage(data.exchangeName);
+    await instance.waitForInit(isInitial);
+    return instance.writeCircuitData(data, when);
+  };
+
+  /**
+   * Clears the memoized instance cache.
+   * Call when process.cwd() changes between strategy iterations.
+   */
+  public clear(): void {
+    LOGGER_SERVICE.log(PERSIST_CIRCUIT_UTILS_METHOD_NAME_CLEAR);
+    this.getStorage.clear();
+  }
+
+  /**
+   * Switches to the default file-based PersistCircuitInstance.
+   */
+  public useJson() {
+    LOGGER_SERVICE.log(PERSIST_CIRCUIT_UTILS_METHOD_NAME_USE_JSON);
+    this.usePersistCircuitAdapter(PersistCircuitInstance);
+  }
+
+  /**
+   * Switches to PersistCircuitDummyInstance (all operations are no-ops).
+   */
+  public useDummy() {
+    LOGGER_SERVICE.log(PERSIST_CIRCUIT_UTILS_METHOD_NAME_USE_DUMMY);
+    this.usePersistCircuitAdapter(PersistCircuitDummyInstance);
+  }
+}
+
+/**
+ * Global singleton instance of PersistCircuitUtils.
+ * Used by CircuitBreaker for crash-safe tripped state.
+ */
+export const PersistCircuitAdapter = new PersistCircuitUtils();
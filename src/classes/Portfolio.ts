@@ -0,0 +1,160 @@
+import bt from "../lib";
+import { PortfolioStatisticsModel } from "../model/PortfolioStatistics.model";
+import { StrategyName } from "../interfaces/Strategy.interface";
+import { ExchangeName } from "../interfaces/Exchange.interface";
+import { FrameName } from "../interfaces/Frame.interface";
+
+const PORTFOLIO_METHOD_NAME_GET_DATA = "PortfolioUtils.getData";
+const PORTFOLIO_METHOD_NAME_GET_REPORT = "PortfolioUtils.getReport";
+const PORTFOLIO_METHOD_NAME_DUMP = "PortfolioUtils.dump";
+const PORTFOLIO_METHOD_NAME_CLEAR = "PortfolioUtils.clear";
+
+/**
+ * Validates the strategy, exchange, frame, risk and action names of a context.
+ */
+const VALIDATE_CONTEXT_FN = (
+  context: {
+    strategyName: StrategyName;
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  },
+  methodName: string
+) => {
+  bt.strategyValidationService.validate(context.strategyName, methodName);
+  bt.exchangeValidationService.validate(context.exchangeName, methodName);
+  context.frameName && bt.frameValidationService.validate(context.frameName, methodName);
+
+  {
+    const { riskName, riskList, actions } = bt.strategySchemaService.get(context.strategyName);
+    riskName && bt.riskValidationService.validate(riskName, methodName);
+    riskList && riskList.forEach((riskName) => bt.riskValidationService.validate(riskName, methodName));
+    actions && actions.forEach((actionName) => bt.actionValidationService.validate(actionName, methodName));
+  }
+};
+
+/**
+ * Utility class for portfolio ledger operations.
+ *
+ * Unlike Heat, which sums per-trade percentages, the ledger tracks an account in USD:
+ * starting capital (CC_PORTFOLIO_STARTING_CAPITAL), free cash, position values and
+ * realized/unrealized PnL of every symbol and strategy sharing the same exchange,
+ * frame and mode. Exported as singleton instance for convenient usage.
+ *
+ * @example
+ * ```typescript
+ * import { Portfolio } from "backtest-kit";
+ *
+ * const stats = await Portfolio.getData({
+ *   strategyName: "my-strategy",
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * console.log(`Equity: ${stats.equity}, Max DD: ${stats.maxDrawdown}%, CAGR: ${stats.cagr}%`);
+ *
+ * await Portfolio.dump({
+ *   strategyName: "my-strategy",
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * ```
+ */
+export class PortfolioUtils {
+  /**
+   * Gets account statistics and the equity curve.
+   *
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @returns Promise resolving to portfolio statistics object
+   */
+  public getData = async (
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<PortfolioStatisticsModel> => {
+    bt.loggerService.info(PORTFOLIO_METHOD_NAME_GET_DATA, { strategyName: context.strategyName });
+    VALIDATE_CONTEXT_FN(context, PORTFOLIO_METHOD_NAME_GET_DATA);
+    return bt.portfolioMetaService.getData(context.exchangeName, context.frameName, backtest);
+  };
+
+  /**
+   * Generates markdown report with account summary and equity curve.
+   *
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @returns Promise resolving to markdown formatted report string
+   */
+  public getReport = async (
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<string> => {
+    bt.loggerService.info(PORTFOLIO_METHOD_NAME_GET_REPORT, { strategyName: context.strategyName });
+    VALIDATE_CONTEXT_FN(context, PORTFOLIO_METHOD_NAME_GET_REPORT);
+    return await bt.portfolioMarkdownService.getReport(context.strategyName, context.exchangeName, context.frameName, backtest);
+  };
+
+  /**
+   * Saves portfolio report to disk.
+   *
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @param path - Optional directory path to save report (default: "./dump/portfolio")
+   */
+  public dump = async (
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false,
+    path?: string
+  ): Promise<void> => {
+    bt.loggerService.info(PORTFOLIO_METHOD_NAME_DUMP, { strategyName: context.strategyName, path });
+    VALIDATE_CONTEXT_FN(context, PORTFOLIO_METHOD_NAME_DUMP);
+    await bt.portfolioMarkdownService.dump(context.strategyName, context.exchangeName, context.frameName, backtest, path);
+  };
+
+  /**
+   * Resets the ledger of the context back to the starting capital.
+   * Call between independent runs that share exchangeName and frameName.
+   *
+   * @param context - Execution context with exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   */
+  public clear = (
+    context: {
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): void => {
+    bt.loggerService.info(PORTFOLIO_METHOD_NAME_CLEAR, { exchangeName: context.exchangeName });
+    bt.portfolioMetaService.clear({
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest,
+    });
+  };
+}
+
+/**
+ * Singleton instance of PortfolioUtils for convenient portfolio ledger operations.
+ *
+ * @example
+ * ```typescript
+ * import { Portfolio } from "backtest-kit";
+ *
+ * const { equity, cash, equityCurve } = await Portfolio.getData({
+ *   strategyName: "my-strategy",
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * ```
+ */
+export const Portfolio = new PortfolioUtils();
@@ -4,6 +4,8 @@ import { SizingName } from "../interfaces/Sizing.interface";
 const POSITION_SIZE_METHOD_NAME_FIXED = "PositionSize.fixedPercentage";
 const POSITION_SIZE_METHOD_NAME_KELLY = "PositionSize.kellyCriterion";
 const POSITION_SIZE_METHOD_NAME_ATR = "PositionSize.atrBased";
+const POSITION_SIZE_METHOD_NAME_VOLATILITY_TARGET = "PositionSize.volatilityTarget";
+const POSITION_SIZE_METHOD_NAME_RISK_PARITY = "PositionSize.riskParity";
 
 /**
  * Utility class for position sizing calculations.
@@ -42,6 +44,14 @@ const POSITION_SIZE_METHOD_NAME_ATR = "PositionSize.atrBased";
  *   500,
  *   { sizingName: "atr-dynamic" }
  * );
+ *
+ * // Volatility target sizing (inside getSignal: candles come from the strategy exchange)
+ * const quantity = await PositionSize.volatilityTarget(
+ *   "BTCUSDT",
+ *   10000,
+ *   50000,
+ *   { sizingName: "vol-target" }
+ * );
  * ```
  */
 export class PositionSizeUtils {
@@ -170,6 +180,89 @@ export class PositionSizeUtils {
       context
     );
   };
+
+  /**
+   * Calculates position size using volatility targeting.
+   *
+   * Requires an active trade context (e.g. inside getSignal): lookback candles
+   * are fetched from the exchange of the running strategy.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param accountBalance - Current account balance
+   * @param priceOpen - Planned entry price
+   * @param context - Execution context with sizing name
+   * @returns Promise resolving to calculated position size
+   * @throws Error if sizing schema method is not "volatility-target"
+   */
+  public static volatilityTarget = async (
+    symbol: string,
+    accountBalance: number,
+    priceOpen: number,
+    context: { sizingName: SizingName }
+  ): Promise<number> => {
+    backtest.loggerService.info(POSITION_SIZE_METHOD_NAME_VOLATILITY_TARGET, {
+      context,
+      symbol,
+    });
+
+    backtest.sizingValidationService.validate(
+      context.sizingName,
+      POSITION_SIZE_METHOD_NAME_VOLATILITY_TARGET,
+      "volatility-target"
+    );
+
+    return await backtest.sizingGlobalService.calculate(
+      {
+        symbol,
+        accountBalance,
+        priceOpen,
+        method: "volatility-target",
+      },
+      context
+    );
+  };
+
+  /**
+   * Calculates position size using inverse volatility risk parity
+   * across the symbols currently held in the portfolio.
+   *
+   * Requires an active trade context (e.g. inside getSignal): lookback candles
+   * are fetched from the exchange of the running strategy.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param accountBalance - Current account balance
+   * @param priceOpen - Planned entry price
+   * @param context - Execution context with sizing name
+   * @returns Promise resolving to calculated position size
+   * @throws Error if sizing schema method is not "risk-parity"
+   */
+  public static riskParity = async (
+    symbol: string,
+    accountBalance: number,
+    priceOpen: number,
+    context: { sizingName: SizingName }
+  ): Promise<number> => {
+    backtest.loggerService.info(POSITION_SIZE_METHOD_NAME_RISK_PARITY, {
+      context,
+      symbol,
+    });
+
+    backtest.sizingValidationService.validate(
+      context.sizingName,
+      POSITION_SIZE_METHOD_NAME_RISK_PARITY,
+      "risk-parity"
+    );
+
+    return await backtest.sizingGlobalService.calculate(
+      {
+        symbol,
+        accountBalance,
+        priceOpen,
+        method: "risk-parity",
+      },
+      context
+    );
+  };
 }
 
 export const PositionSize = PositionSizeUtils;
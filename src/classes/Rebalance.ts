@@ -0,0 +1,161 @@
+import bt from "../lib";
+import { RebalanceStatisticsModel } from "../model/RebalanceStatistics.model";
+import { StrategyName } from "../interfaces/Strategy.interface";
+import { ExchangeName } from "../interfaces/Exchange.interface";
+import { FrameName } from "../interfaces/Frame.interface";
+
+const REBALANCE_METHOD_NAME_GET_DATA = "RebalanceUtils.getData";
+const REBALANCE_METHOD_NAME_GET_REPORT = "RebalanceUtils.getReport";
+const REBALANCE_METHOD_NAME_DUMP = "RebalanceUtils.dump";
+const REBALANCE_METHOD_NAME_CLEAR = "RebalanceUtils.clear";
+
+/**
+ * Validates the strategy, exchange and frame names of a context
+ * and that the strategy is a portfolio strategy.
+ */
+const VALIDATE_CONTEXT_FN = (
+  context: {
+    strategyName: StrategyName;
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  },
+  methodName: string
+) => {
+  bt.strategyValidationService.validate(context.strategyName, methodName);
+  bt.exchangeValidationService.validate(context.exchangeName, methodName);
+  context.frameName && bt.frameValidationService.validate(context.frameName, methodName);
+
+  if (!bt.strategySchemaService.get(context.strategyName).getTargetWeights) {
+    throw new Error(
+      `${methodName} strategy ${context.strategyName} is not a portfolio strategy (getTargetWeights is not set)`
+    );
+  }
+};
+
+/**
+ * Utility class for portfolio strategy rebalance reports.
+ *
+ * Lists every position change a target-weight strategy made to follow its
+ * weights (opens, DCA entries, partial and full closes), with the traded
+ * notional and its fee. Exported as singleton instance for convenient usage.
+ *
+ * @example
+ * ```typescript
+ * import { Rebalance } from "backtest-kit";
+ *
+ * const stats = await Rebalance.getData({
+ *   strategyName: "index-top2",
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * console.log(`Turnover: ${stats.totalTurnover} USD, fees: ${stats.totalTurnoverCost} USD`);
+ *
+ * await Rebalance.dump({
+ *   strategyName: "index-top2",
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * ```
+ */
+export class RebalanceUtils {
+  /**
+   * Gets rebalance events and turnover totals.
+   *
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @returns Promise resolving to rebalance statistics object
+   */
+  public getData = async (
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<RebalanceStatisticsModel> => {
+    bt.loggerService.info(REBALANCE_METHOD_NAME_GET_DATA, { strategyName: context.strategyName });
+    VALIDATE_CONTEXT_FN(context, REBALANCE_METHOD_NAME_GET_DATA);
+    return await bt.rebalanceMarkdownService.getData(context.strategyName, context.exchangeName, context.frameName, backtest);
+  };
+
+  /**
+   * Generates markdown report with turnover totals and the rebalance log.
+   *
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @returns Promise resolving to markdown formatted report string
+   */
+  public getReport = async (
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<string> => {
+    bt.loggerService.info(REBALANCE_METHOD_NAME_GET_REPORT, { strategyName: context.strategyName });
+    VALIDATE_CONTEXT_FN(context, REBALANCE_METHOD_NAME_GET_REPORT);
+    return await bt.rebalanceMarkdownService.getReport(context.strategyName, context.exchangeName, context.frameName, backtest);
+  };
+
+  /**
+   * Saves rebalance report to disk.
+   *
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @param path - Optional directory path to save report (default: "./dump/rebalance")
+   */
+  public dump = async (
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false,
+    path?: string
+  ): Promise<void> => {
+    bt.loggerService.info(REBALANCE_METHOD_NAME_DUMP, { strategyName: context.strategyName, path });
+    VALIDATE_CONTEXT_FN(context, REBALANCE_METHOD_NAME_DUMP);
+    await bt.rebalanceMarkdownService.dump(context.strategyName, context.exchangeName, context.frameName, backtest, path);
+  };
+
+  /**
+   * Drops the rebalance events and cached target weights of the strategy.
+   * Call between independent runs that share exchangeName and frameName.
+   *
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   */
+  public clear = async (
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    },
+    backtest = false
+  ): Promise<void> => {
+    bt.loggerService.info(REBALANCE_METHOD_NAME_CLEAR, { strategyName: context.strategyName });
+    await bt.rebalanceConnectionService.clear({
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest,
+    });
+  };
+}
+
+/**
+ * Singleton instance of RebalanceUtils for convenient portfolio strategy reports.
+ *
+ * @example
+ * ```typescript
+ * import { Rebalance } from "backtest-kit";
+ *
+ * const { eventList, totalTurnoverCost } = await Rebalance.getData({
+ *   strategyName: "index-top2",
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ * ```
+ */
+export const Rebalance = new RebalanceUtils();
@@ -7,6 +7,7 @@ import { FrameName } from "../interfaces/Frame.interface";
 const REFLECT_METHOD_NAME_GET_POSITION_PNL_PERCENT = "ReflectUtils.getPositionPnlPercent";
 const REFLECT_METHOD_NAME_GET_POSITION_PNL_COST = "ReflectUtils.getPositionPnlCost";
 const REFLECT_METHOD_NAME_GET_POSITION_HIGHEST_PROFIT_PRICE = "ReflectUtils.getPositionHighestProfitPrice";
+const REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE = "ReflectUtils.getPositionLiquidationPrice";
 const REFLECT_METHOD_NAME_GET_POSITION_HIGHEST_PROFIT_TIMESTAMP = "ReflectUtils.getPositionHighestProfitTimestamp";
 const REFLECT_METHOD_NAME_GET_POSITION_HIGHEST_PNL_PERCENTAGE = "ReflectUtils.getPositionHighestPnlPercentage";
 const REFLECT_METHOD_NAME_GET_POSITION_HIGHEST_PNL_COST = "ReflectUtils.getPositionHighestPnlCost";
@@ -192,6 +193,49 @@ export class ReflectUtils {
     return await bt.strategyCoreService.getPositionHighestProfitPrice(backtest, symbol, context);
   };
 
+  /**
+   * Returns the liquidation price of the current leveraged position.
+   *
+   * Follows DCA entries and partial closes. Returns null for unleveraged positions.
+   * Throws if no pending signal exists.
+   *
+   * @param symbol - Trading pair symbol
+   * @param context - Execution context with strategyName, exchangeName and frameName
+   * @param backtest - True if backtest mode, false if live mode (default: false)
+   * @returns Promise resolving to liquidation price or null
+   *
+   * @example
+   * ```typescript
+   * const liquidationPrice = await Reflect.getPositionLiquidationPrice(
+   *   "BTCUSDT",
+   *   { strategyName: "my-strategy", exchangeName: "binance", frameName: "frame1" }
+   * );
+   * console.log(`Liquidation at: ${liquidationPrice}`);
+   * ```
+   */
+  public getPositionLiquidationPrice = async (
+    symbol: string,
+    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName },
+    backtest = false
+  ): Promise<number | null> => {
+    bt.loggerService.info(REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE, { symbol, context });
+    bt.strategyValidationService.validate(context.strategyName, REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE);
+    bt.exchangeValidationService.validate(context.exchangeName, REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE);
+    context.frameName && bt.frameValidationService.validate(context.frameName, REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE);
+    {
+      const { riskName, riskList, actions } = bt.strategySchemaService.get(context.strategyName);
+      riskName && bt.riskValidationService.validate(riskName, REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE);
+      riskList && riskList.forEach((riskName) => bt.riskValidationService.validate(riskName, REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE));
+      actions && actions.forEach((actionName) => bt.actionValidationService.validate(actionName, REFLECT_METHOD_NAME_GET_POSITION_LIQUIDATION_PRICE));
+    }
+    if (await not(bt.strategyCoreService.hasPendingSignal(backtest, symbol, context))) {
+      throw new Error(
+        `Reflect.getPositionLiquidationPrice no pending signal for symbol=${symbol} strategyName=${context.strategyName} exchangeName=${context.exchangeName} frameName=${context.frameName}`,
+      );
+    }
+    return await bt.strategyCoreService.getPositionLiquidationPrice(backtest, symbol, context);
+  };
+
   /**
    * Returns the timestamp when the best profit price was recorded during this position's life.
    *
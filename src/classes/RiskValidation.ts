@@ -0,0 +1,409 @@
+import backtest from "../lib";
+import {
+  IRiskRejectionResult,
+  IRiskValidation,
+  IRiskValidationPayload,
+} from "../interfaces/Risk.interface";
+import { IStorageSignalRow } from "../interfaces/Strategy.interface";
+import { GLOBAL_CONFIG } from "../config/params";
+import { Storage, StorageBacktest, StorageLive } from "./Storage";
+
+const METHOD_NAME_MAX_CONCURRENT_POSITIONS = "RiskValidation.maxConcurrentPositions";
+const METHOD_NAME_MAX_POSITIONS_PER_SYMBOL = "RiskValidation.maxPositionsPerSymbol";
+const METHOD_NAME_MAX_POSITIONS_PER_DIRECTION = "RiskValidation.maxPositionsPerDirection";
+const METHOD_NAME_DAILY_LOSS_LIMIT = "RiskValidation.dailyLossLimit";
+const METHOD_NAME_WEEKLY_LOSS_LIMIT = "RiskValidation.weeklyLossLimit";
+const METHOD_NAME_LOSS_STREAK_COOLDOWN = "RiskValidation.lossStreakCooldown";
+const METHOD_NAME_MAX_EXPOSURE_PER_SYMBOL = "RiskValidation.maxExposurePerSymbol";
+const METHOD_NAME_MIN_REWARD_RISK = "RiskValidation.minRewardRisk";
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+/** 1970-01-01 is a Thursday, the first Monday is 4 days later */
+const FIRST_MONDAY_OFFSET = 4 * MS_PER_DAY;
+
+type ClosedSignalRow = Extract<IStorageSignalRow, { status: "closed" }>;
+
+/**
+ * Source of signal history for the history-based validations.
+ * Defaults to StorageBacktest / StorageLive by payload.backtest.
+ */
+type SignalHistorySource = (
+  payload: IRiskValidationPayload,
+) => IStorageSignalRow[] | Promise<IStorageSignalRow[]>;
+
+/**
+ * Whose closed signals count against a history-based limit:
+ * every strategy on the exchange (account) or the checked strategy only.
+ */
+type HistoryScope = "account" | "strategy";
+
+/**
+ * Throws while Storage is not enabled: the storages stay empty then, and an
+ * empty history would let every limit pass silently.
+ */
+const DEFAULT_SOURCE_FN: SignalHistorySource = (payload) => {
+  if (!Storage.enable.hasValue()) {
+    throw new Error(
+      "RiskValidation: history-based limits read closed signals from Storage. Call Storage.enable() or pass a custom source",
+    );
+  }
+  return payload.backtest ? StorageBacktest.list() : StorageLive.list();
+};
+
+/**
+ * Closed signals of the payload exchange (and frame) closed at or before the
+ * payload timestamp, newest first. The timestamp bound keeps parallel backtests
+ * sharing one storage from looking ahead.
+ */
+const GET_CLOSED_SIGNALS_FN = async (
+  payload: IRiskValidationPayload,
+  source: SignalHistorySource,
+  scope: HistoryScope,
+): Promise<ClosedSignalRow[]> => {
+  const rows = await source(payload);
+  return rows
+    .filter((row): row is ClosedSignalRow => row.status === "closed")
+    .filter((row) => row.exchangeName === payload.exchangeName)
+    .filter((row) => row.frameName === payload.frameName)
+    .filter((row) => scope === "account" || row.strategyName === payload.strategyName)
+    .filter((row) => row.closeTimestamp <= payload.timestamp)
+    .sort((a, b) => b.closeTimestamp - a.closeTimestamp);
+};
+
+/** PnL in USD, in the reporting currency when the signal was converted */
+const GET_PNL_COST_FN = (row: ClosedSignalRow) =>
+  row.pnl.conversion?.pnlCost ?? row.pnl.pnlCost;
+
+const GET_POSITION_COST_FN = (cost: number | undefined) =>
+  cost || GLOBAL_CONFIG.CC_POSITION_ENTRY_COST;
+
+const ASSERT_POSITIVE_INTEGER_FN = (methodName: string, name: string, value: number) => {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${methodName}: ${name} must be a positive integer, got ${value}`);
+  }
+};
+
+const ASSERT_POSITIVE_NUMBER_FN = (methodName: string, name: string, value: number) => {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${methodName}: ${name} must be a positive number, got ${value}`);
+  }
+};
+
+/**
+ * Loss limit over a calendar UTC period shared by dailyLossLimit and weeklyLossLimit.
+ */
+const CREATE_LOSS_LIMIT_FN = (
+  methodName: string,
+  id: string,
+  period: "day" | "week",
+  dto: {
+    maxLossPercent?: number;
+    maxLossCost?: number;
+    scope?: HistoryScope;
+    source?: SignalHistorySource;
+  },
+): IRiskValidation => {
+  const { maxLossPercent, maxLossCost, scope = "account", source = DEFAULT_SOURCE_FN } = dto;
+  if (maxLossPercent === undefined && maxLossCost === undefined) {
+    throw new Error(`${methodName}: maxLossPercent or maxLossCost is required`);
+  }
+  if (maxLossPercent !== undefined) {
+    ASSERT_POSITIVE_NUMBER_FN(methodName, "maxLossPercent", maxLossPercent);
+  }
+  if (maxLossCost !== undefined) {
+    ASSERT_POSITIVE_NUMBER_FN(methodName, "maxLossCost", maxLossCost);
+  }
+  const getPeriodStart = (timestamp: number) =>
+    period === "day"
+      ? Math.floor(timestamp / MS_PER_DAY) * MS_PER_DAY
+      : Math.floor((timestamp - FIRST_MONDAY_OFFSET) / MS_PER_WEEK) * MS_PER_WEEK + FIRST_MONDAY_OFFSET;
+  return {
+    note: `Stop opening positions after the ${period === "day" ? "daily" : "weekly"} realized loss limit is reached`,
+    validate: async (payload): Promise<IRiskRejectionResult | null> => {
+      const periodStart = getPeriodStart(payload.timestamp);
+      const closed = (await GET_CLOSED_SIGNALS_FN(payload, source, scope)).filter(
+        (row) => row.closeTimestamp >= periodStart,
+      );
+      const lossPercent = -closed.reduce((acc, row) => acc + row.pnl.pnlPercentage, 0);
+      const lossCost = -closed.reduce((acc, row) => acc + GET_PNL_COST_FN(row), 0);
+      const since = new Date(periodStart).toISOString();
+      if (maxLossPercent !== undefined && lossPercent >= maxLossPercent) {
+        return {
+          id,
+          note: `Realized loss ${lossPercent.toFixed(2)}% over ${closed.length} signals since ${since} reached the ${period} limit of ${maxLossPercent}%`,
+        };
+      }
+      if (maxLossCost !== undefined && lossCost >= maxLossCost) {
+        return {
+          id,
+          note: `Realized loss $${lossCost.toFixed(2)} over ${closed.length} signals since ${since} reached the ${period} limit of $${maxLossCost}`,
+        };
+      }
+      return null;
+    },
+  };
+};
+
+/**
+ * Built-in validations for IRiskSchema.validations.
+ *
+ * Position-based rules read payload.activePositions: the risk profile state that
+ * ClientRisk restores from PersistRiskAdapter in live mode. History-based rules read
+ * closed signals from StorageBacktest / StorageLive, so `Storage.enable()` must be
+ * called for them to see trades, or a custom `source` passed. Without either the
+ * validation throws and ClientRisk rejects the signal with that error.
+ *
+ * Each rejection carries the validation id and a note with the measured value and
+ * the limit, surfaced in risk events and reports.
+ *
+ * @example
+ * ```typescript
+ * import { addRiskSchema, RiskValidation, Storage } from "backtest-kit";
+ *
+ * Storage.enable();
+ *
+ * addRiskSchema({
+ *   riskName: "conservative",
+ *   validations: [
+ *     RiskValidation.maxConcurrentPositions({ max: 5 }),
+ *     RiskValidation.dailyLossLimit({ maxLossPercent: 3 }),
+ *     RiskValidation.lossStreakCooldown({ losses: 3, cooldownMinutes: 240 }),
+ *     RiskValidation.minRewardRisk({ ratio: 1.5 }),
+ *   ],
+ * });
+ * ```
+ */
+export class RiskValidation {
+
+    /**
+     * Rejects when the risk profile already holds `max` positions.
+     * @param dto.max - maximum number of concurrent positions
+     * @returns validation for IRiskSchema.validations
+     */
+    public static maxConcurrentPositions = (dto: {
+        max: number,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_MAX_CONCURRENT_POSITIONS, { dto });
+        const { max } = dto;
+        ASSERT_POSITIVE_INTEGER_FN(METHOD_NAME_MAX_CONCURRENT_POSITIONS, "max", max);
+        return {
+            note: `At most ${max} concurrent positions`,
+            validate: ({ activePositionCount }) => {
+                if (activePositionCount < max) {
+                    return null;
+                }
+                return {
+                    id: "max-concurrent-positions",
+                    note: `${activePositionCount} positions are open, the limit is ${max}`,
+                };
+            },
+        };
+    }
+
+    /**
+     * Rejects when `max` positions are already open on the signal symbol.
+     * @param dto.max - maximum number of positions per symbol
+     * @returns validation for IRiskSchema.validations
+     */
+    public static maxPositionsPerSymbol = (dto: {
+        max: number,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_MAX_POSITIONS_PER_SYMBOL, { dto });
+        const { max } = dto;
+        ASSERT_POSITIVE_INTEGER_FN(METHOD_NAME_MAX_POSITIONS_PER_SYMBOL, "max", max);
+        return {
+            note: `At most ${max} positions per symbol`,
+            validate: ({ symbol, activePositions }) => {
+                const count = activePositions.filter((position) => position.symbol === symbol).length;
+                if (count < max) {
+                    return null;
+                }
+                return {
+                    id: "max-positions-per-symbol",
+                    note: `${count} positions are open on ${symbol}, the limit is ${max}`,
+                };
+            },
+        };
+    }
+
+    /**
+     * Rejects when `max` positions are already open in the signal direction.
+     * @param dto.max - maximum number of positions per direction
+     * @param dto.perSymbol - count only positions on the signal symbol (default false)
+     * @returns validation for IRiskSchema.validations
+     */
+    public static maxPositionsPerDirection = (dto: {
+        max: number,
+        perSymbol?: boolean,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_MAX_POSITIONS_PER_DIRECTION, { dto });
+        const { max, perSymbol = false } = dto;
+        ASSERT_POSITIVE_INTEGER_FN(METHOD_NAME_MAX_POSITIONS_PER_DIRECTION, "max", max);
+        return {
+            note: `At most ${max} positions per direction${perSymbol ? " and symbol" : ""}`,
+            validate: ({ symbol, currentSignal, activePositions }) => {
+                const count = activePositions
+                    .filter((position) => position.position === currentSignal.position)
+                    .filter((position) => !perSymbol || position.symbol === symbol)
+                    .length;
+                if (count < max) {
+                    return null;
+                }
+                return {
+                    id: "max-positions-per-direction",
+                    note: `${count} ${currentSignal.position} positions are open${perSymbol ? ` on ${symbol}` : ""}, the limit is ${max}`,
+                };
+            },
+        };
+    }
+
+    /**
+     * Rejects after the realized loss of the current UTC day reaches the limit.
+     * @param dto.maxLossPercent - limit on the summed pnlPercentage of closed signals
+     * @param dto.maxLossCost - limit on the summed pnlCost of closed signals, in USD
+     * @param dto.scope - count every strategy on the exchange or only the checked one (default "account")
+     * @param dto.source - closed signal history (default StorageBacktest / StorageLive)
+     * @returns validation for IRiskSchema.validations
+     */
+    public static dailyLossLimit = (dto: {
+        maxLossPercent?: number,
+        maxLossCost?: number,
+        scope?: HistoryScope,
+        source?: SignalHistorySource,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_DAILY_LOSS_LIMIT, {
+            maxLossPercent: dto.maxLossPercent,
+            maxLossCost: dto.maxLossCost,
+            scope: dto.scope,
+        });
+        return CREATE_LOSS_LIMIT_FN(METHOD_NAME_DAILY_LOSS_LIMIT, "daily-loss-limit", "day", dto);
+    }
+
+    /**
+     * Rejects after the realized loss of the current UTC week (from Monday) reaches the limit.
+     * @param dto.maxLossPercent - limit on the summed pnlPercentage of closed signals
+     * @param dto.maxLossCost - limit on the summed pnlCost of closed signals, in USD
+     * @param dto.scope - count every strategy on the exchange or only the checked one (default "account")
+     * @param dto.source - closed signal history (default StorageBacktest / StorageLive)
+     * @returns validation for IRiskSchema.validations
+     */
+    public static weeklyLossLimit = (dto: {
+        maxLossPercent?: number,
+        maxLossCost?: number,
+        scope?: HistoryScope,
+        source?: SignalHistorySource,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_WEEKLY_LOSS_LIMIT, {
+            maxLossPercent: dto.maxLossPercent,
+            maxLossCost: dto.maxLossCost,
+            scope: dto.scope,
+        });
+        return CREATE_LOSS_LIMIT_FN(METHOD_NAME_WEEKLY_LOSS_LIMIT, "weekly-loss-limit", "week", dto);
+    }
+
+    /**
+     * Rejects for `cooldownMinutes` after the last `losses` closed signals were all losing.
+     * @param dto.losses - consecutive losing signals that start the cooldown
+     * @param dto.cooldownMinutes - pause after the last loss, in minutes
+     * @param dto.scope - count every strategy on the exchange or only the checked one (default "strategy")
+     * @param dto.source - closed signal history (default StorageBacktest / StorageLive)
+     * @returns validation for IRiskSchema.validations
+     */
+    public static lossStreakCooldown = (dto: {
+        losses: number,
+        cooldownMinutes: number,
+        scope?: HistoryScope,
+        source?: SignalHistorySource,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_LOSS_STREAK_COOLDOWN, {
+            losses: dto.losses,
+            cooldownMinutes: dto.cooldownMinutes,
+            scope: dto.scope,
+        });
+        const { losses, cooldownMinutes, scope = "strategy", source = DEFAULT_SOURCE_FN } = dto;
+        ASSERT_POSITIVE_INTEGER_FN(METHOD_NAME_LOSS_STREAK_COOLDOWN, "losses", losses);
+        ASSERT_POSITIVE_NUMBER_FN(METHOD_NAME_LOSS_STREAK_COOLDOWN, "cooldownMinutes", cooldownMinutes);
+        return {
+            note: `Pause ${cooldownMinutes} minutes after ${losses} consecutive losses`,
+            validate: async (payload) => {
+                const closed = await GET_CLOSED_SIGNALS_FN(payload, source, scope);
+                const streak = closed.findIndex((row) => row.pnl.pnlPercentage >= 0);
+                const streakLength = streak === -1 ? closed.length : streak;
+                if (streakLength < losses) {
+                    return null;
+                }
+                const [last] = closed;
+                const resumeAt = last.closeTimestamp + cooldownMinutes * MS_PER_MINUTE;
+                if (payload.timestamp >= resumeAt) {
+                    return null;
+                }
+                return {
+                    id: "loss-streak-cooldown",
+                    note: `${streakLength} consecutive losses, trading resumes at ${new Date(resumeAt).toISOString()}`,
+                };
+            },
+        };
+    }
+
+    /**
+     * Rejects when open positions on the signal symbol plus the signal cost exceed `maxCost`.
+     * Positions without a recorded cost count as CC_POSITION_ENTRY_COST.
+     * @param dto.maxCost - maximum exposure per symbol, in USD
+     * @returns validation for IRiskSchema.validations
+     */
+    public static maxExposurePerSymbol = (dto: {
+        maxCost: number,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_MAX_EXPOSURE_PER_SYMBOL, { dto });
+        const { maxCost } = dto;
+        ASSERT_POSITIVE_NUMBER_FN(METHOD_NAME_MAX_EXPOSURE_PER_SYMBOL, "maxCost", maxCost);
+        return {
+            note: `At most $${maxCost} exposure per symbol`,
+            validate: ({ symbol, currentSignal, activePositions }) => {
+                const openCost = activePositions
+                    .filter((position) => position.symbol === symbol)
+                    .reduce((acc, position) => acc + GET_POSITION_COST_FN(position.cost), 0);
+                const exposure = openCost + GET_POSITION_COST_FN(currentSignal.cost);
+                if (exposure <= maxCost) {
+                    return null;
+                }
+                return {
+                    id: "max-exposure-per-symbol",
+                    note: `Exposure on ${symbol} would be $${exposure.toFixed(2)} ($${openCost.toFixed(2)} open), the limit is $${maxCost}`,
+                };
+            },
+        };
+    }
+
+    /**
+     * Rejects signals whose take profit distance is less than `ratio` times the stop loss distance.
+     * @param dto.ratio - minimum reward/risk ratio
+     * @returns validation for IRiskSchema.validations
+     */
+    public static minRewardRisk = (dto: {
+        ratio: number,
+    }): IRiskValidation => {
+        backtest.loggerService.log(METHOD_NAME_MIN_REWARD_RISK, { dto });
+        const { ratio } = dto;
+        ASSERT_POSITIVE_NUMBER_FN(METHOD_NAME_MIN_REWARD_RISK, "ratio", ratio);
+        return {
+            note: `Reward/risk of at least ${ratio}`,
+            validate: ({ currentSignal }) => {
+                const { priceOpen, priceTakeProfit, priceStopLoss } = currentSignal;
+                const reward = Math.abs(priceTakeProfit - priceOpen);
+                const risk = Math.abs(priceOpen - priceStopLoss);
+                if (risk > 0 && reward / risk >= ratio) {
+                    return null;
+                }
+                return {
+                    id: "min-reward-risk",
+                    note: `Reward/risk ${risk > 0 ? (reward / risk).toFixed(2) : "undefined"} (reward ${reward}, risk ${risk}) is below ${ratio}`,
+                };
+            },
+        };
+    }
+
+}
@@ -0,0 +1,166 @@
+import fs from "fs/promises";
+import { singleshot } from "functools-kit";
+import backtest from "../lib";
+import { IAggregatedTradeData } from "../interfaces/Exchange.interface";
+
+const METHOD_NAME_FROM_CSV = "TradeReplay.fromCsv";
+const METHOD_NAME_FROM_JSONL = "TradeReplay.fromJsonl";
+
+/** Timestamps above this are in microseconds (Binance spot dumps since 2025) */
+const MICROSECOND_THRESHOLD = 1e14;
+
+/** Same signature as IExchangeSchema.getAggregatedTrades */
+type TradeReplaySource = (
+    symbol: string,
+    from: Date,
+    to: Date,
+    backtest: boolean,
+) => Promise<IAggregatedTradeData[]>;
+
+const NORMALIZE_TIMESTAMP_FN = (timestamp: number) =>
+    timestamp > MICROSECOND_THRESHOLD ? Math.floor(timestamp / 1000) : timestamp;
+
+/**
+ * Parses a Binance aggTrades CSV dump:
+ * `id,price,qty,first_trade_id,last_trade_id,timestamp,is_buyer_maker`.
+ * A header line (non-numeric first field) is skipped.
+ */
+const PARSE_CSV_FN = (content: string, filePath: string): IAggregatedTradeData[] => {
+    const result: IAggregatedTradeData[] = [];
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) {
+            continue;
+        }
+        const [id, price, qty, , , timestamp, isBuyerMaker] = line.split(",");
+        if (i === 0 && !isFinite(Number(id))) {
+            continue;
+        }
+        const trade = {
+            id,
+            price: Number(price),
+            qty: Number(qty),
+            timestamp: NORMALIZE_TIMESTAMP_FN(Number(timestamp)),
+            isBuyerMaker: String(isBuyerMaker).toLowerCase() === "true",
+        };
+        if (!isFinite(trade.price) || !isFinite(trade.qty) || !isFinite(trade.timestamp)) {
+            throw new Error(`${METHOD_NAME_FROM_CSV}: invalid trade at ${filePath}:${i + 1}`);
+        }
+        result.push(trade);
+    }
+    return result;
+};
+
+/**
+ * Parses one IAggregatedTradeData JSON object per line.
+ */
+const PARSE_JSONL_FN = (content: string, filePath: string): IAggregatedTradeData[] => {
+    const result: IAggregatedTradeData[] = [];
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) {
+            continue;
+        }
+        const raw = JSON.parse(line);
+        const trade = {
+            id: String(raw.id),
+            price: Number(raw.price),
+            qty: Number(raw.qty),
+            timestamp: NORMALIZE_TIMESTAMP_FN(Number(raw.timestamp)),
+            isBuyerMaker: raw.isBuyerMaker === true,
+        };
+        if (!isFinite(trade.price) || !isFinite(trade.qty) || !isFinite(trade.timestamp)) {
+            throw new Error(`${METHOD_NAME_FROM_JSONL}: invalid trade at ${filePath}:${i + 1}`);
+        }
+        result.push(trade);
+    }
+    return result;
+};
+
+/**
+ * Index of the first trade with timestamp >= target (trades sorted by timestamp).
+ */
+const LOWER_BOUND_FN = (trades: IAggregatedTradeData[], target: number) => {
+    let lo = 0;
+    let hi = trades.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (trades[mid].timestamp < target) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    return lo;
+};
+
+/**
+ * Wraps a file parser into a getAggregatedTrades source. The file is read once
+ * on first call, sorted by timestamp and then sliced by binary search.
+ */
+const CREATE_SOURCE_FN = (
+    filePath: string,
+    parse: (content: string, filePath: string) => IAggregatedTradeData[],
+): TradeReplaySource => {
+    const load = singleshot(async () => {
+        const content = await fs.readFile(filePath, "utf-8");
+        return parse(content, filePath).sort((a, b) => a.timestamp - b.timestamp);
+    });
+    return async (_symbol, from, to) => {
+        const trades = await load();
+        const start = LOWER_BOUND_FN(trades, from.getTime());
+        const end = LOWER_BOUND_FN(trades, to.getTime() + 1);
+        return trades.slice(start, end);
+    };
+};
+
+/**
+ * Offline aggregated trade sources for IExchangeSchema.getAggregatedTrades.
+ * One file holds the trades of one symbol; the symbol argument is ignored.
+ *
+ * @example
+ * ```typescript
+ * import { addExchangeSchema, setConfig, TradeReplay } from "backtest-kit";
+ *
+ * addExchangeSchema({
+ *   exchangeName: "binance-offline",
+ *   getCandles,
+ *   // https://data.binance.vision aggTrades dump
+ *   getAggregatedTrades: TradeReplay.fromCsv("./data/BTCUSDT-aggTrades-2024-01-01.csv"),
+ * });
+ *
+ * setConfig({ CC_BACKTEST_FILL_MODEL: "tick" });
+ * ```
+ */
+export class TradeReplay {
+
+    /**
+     * Reads a Binance aggTrades CSV file
+     * (`id,price,qty,first_trade_id,last_trade_id,timestamp,is_buyer_maker`).
+     * @param filePath - path to the CSV file
+     * @returns source for IExchangeSchema.getAggregatedTrades
+     */
+    public static fromCsv = (filePath: string): TradeReplaySource => {
+        backtest.loggerService.log(METHOD_NAME_FROM_CSV, { filePath });
+        if (!filePath) {
+            throw new Error(`${METHOD_NAME_FROM_CSV}: filePath is required`);
+        }
+        return CREATE_SOURCE_FN(filePath, PARSE_CSV_FN);
+    }
+
+    /**
+     * Reads a JSONL file with one IAggregatedTradeData object per line.
+     * @param filePath - path to the JSONL file
+     * @returns source for IExchangeSchema.getAggregatedTrades
+     */
+    public static fromJsonl = (filePath: string): TradeReplaySource => {
+        backtest.loggerService.log(METHOD_NAME_FROM_JSONL, { filePath });
+        if (!filePath) {
+            throw new Error(`${METHOD_NAME_FROM_JSONL}: filePath is required`);
+        }
+        return CREATE_SOURCE_FN(filePath, PARSE_JSONL_FN);
+    }
+
+}
@@ -15,6 +15,8 @@ import {
   StrategyColumn,
   PnlColumn,
 } from "../lib/services/markdown/WalkerMarkdownService";
+import { getWalkForwardWindows } from "../helpers/getWalkForwardWindows";
+import { clearBacktestState } from "../helpers/clearBacktestState";
 
 const WALKER_METHOD_NAME_RUN = "WalkerUtils.run";
 const WALKER_METHOD_NAME_BACKGROUND = "WalkerUtils.background";
@@ -194,69 +196,23 @@ export class WalkerInstance {
     backtest.walkerMarkdownService.clear(context.walkerName);
     backtest.frameConnectionService.clear(walkerSchema.frameName);
 
-    // Clear backtest data for all strategies
-    for (const strategyName of walkerSchema.strategies) {
-      {
-        backtest.backtestMarkdownService.clear({ symbol, strategyName, exchangeName: walkerSchema.exchangeName, frameName: walkerSchema.frameName, backtest: true });
-        backtest.liveMarkdownService.clear({ symbol, strategyName, exchangeName: walkerSchema.exchangeName, frameName: walkerSchema.frameName, backtest: true });
-        backtest.scheduleMarkdownService.clear({ symbol, strategyName, exchangeName: walkerSchema.exchangeName, frameName: walkerSchema.frameName, backtest: true });
-        backtest.performanceMarkdownService.clear({ symbol, strategyName, exchangeName: walkerSchema.exchangeName, frameName: walkerSchema.frameName, backtest: true });
-        backtest.partialMarkdownService.clear({ symbol, strategyName, exchangeName: walkerSchema.exchangeName, frameName: walkerSchema.frameName, backtest: true });
-        backtest.riskMarkdownService.clear({ symbol, strategyName, exchangeName: walkerSchema.exchangeName, frameName: walkerSchema.frameName, backtest: true });
-      }
+    const frameNameList = [walkerSchema.frameName];
 
-      {
-        backtest.strategyCoreService.clear({
-          symbol,
-          strategyName,
-          exchangeName: walkerSchema.exchangeName,
-          frameName: walkerSchema.frameName,
-          backtest: true,
-        });
-        backtest.timeMetaService.clear({
-          symbol,
-          strategyName,
-          exchangeName: walkerSchema.exchangeName,
-          frameName: walkerSchema.frameName,
-          backtest: true,
-        });
-        backtest.priceMetaService.clear({
-          symbol,
-          strategyName,
-          exchangeName: walkerSchema.exchangeName,
-          frameName: walkerSchema.frameName,
-          backtest: true,
-        });
+    if (walkerSchema.walkForward) {
+      const frameSchema = backtest.frameSchemaService.get(walkerSchema.frameName);
+      for (const range of getWalkForwardWindows(frameSchema, walkerSchema.walkForward)) {
+        frameNameList.push(range.trainFrameName, range.testFrameName);
       }
+    }
 
-      {
-        const { riskName, riskList, actions } =
-          backtest.strategySchemaService.get(strategyName);
-        riskName && backtest.riskGlobalService.clear({
-          riskName,
+    // Clear backtest data for all strategies, including walk-forward window frames
+    for (const frameName of frameNameList) {
+      for (const strategyName of walkerSchema.strategies) {
+        clearBacktestState(symbol, {
+          strategyName,
           exchangeName: walkerSchema.exchangeName,
-          frameName: walkerSchema.frameName,
-          backtest: true
+          frameName,
         });
-        riskList &&
-          riskList.forEach((riskName) =>
-            backtest.riskGlobalService.clear({
-              riskName,
-              exchangeName: walkerSchema.exchangeName,
-              frameName: walkerSchema.frameName,
-              backtest: true
-            })
-          );
-        actions &&
-          actions.forEach((actionName) =>
-            backtest.actionCoreService.clear({
-              actionName,
-              strategyName,
-              exchangeName: walkerSchema.exchangeName,
-              frameName: walkerSchema.frameName,
-              backtest: true
-            })
-          );
       }
     }
 
@@ -68,6 +68,12 @@ export interface IMarkdownTarget {
   highest_profit: boolean;
   /** Enable max drawdown milestone tracking reports */
   max_drawdown: boolean;
+  /** Portfolio ledger reports (equity curve, drawdown, CAGR). The ledger is always fed, only clear() applies */
+  portfolio: boolean;
+  /** Capital allocation reports (strategy budgets and usage). Always recorded, only clear() applies */
+  allocator: boolean;
+  /** Portfolio strategy rebalance reports (drift trades and turnover costs). Always recorded, only clear() applies */
+  rebalance: boolean;
 }
 
 /** Symbol key for the singleshot waitForInit function on MarkdownFileBase instances. */
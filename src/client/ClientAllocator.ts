@@ -0,0 +1,291 @@
+import {
+  IAllocation,
+  IAllocationSnapshot,
+  IAllocator,
+  IAllocatorParams,
+} from "../interfaces/Allocator.interface";
+import { StrategyName } from "../interfaces/Strategy.interface";
+import { FrameInterval } from "../interfaces/Frame.interface";
+import { trycatch, errorData, getErrorMessage } from "functools-kit";
+import { errorEmitter } from "../config/emitters";
+
+const MS_PER_MINUTE = 60_000;
+
+const INTERVAL_MINUTES: Record<FrameInterval, number> = {
+  "1m": 1,
+  "3m": 3,
+  "5m": 5,
+  "15m": 15,
+  "30m": 30,
+  "1h": 60,
+  "2h": 120,
+  "4h": 240,
+  "6h": 360,
+  "8h": 480,
+  "12h": 720,
+  "1d": 1440,
+};
+
+/** Default rebalance schedule */
+const DEFAULT_REBALANCE_INTERVAL: FrameInterval = "1d";
+
+/** Default number of closed trades used by equal-risk and performance-weighted */
+const DEFAULT_LOOKBACK_TRADES = 20;
+
+/** Maximum number of snapshots kept for the allocation report */
+const MAX_HISTORY_SNAPSHOTS = 1_000;
+
+/**
+ * Returns the strategies managed by the allocator in schema order.
+ */
+const GET_STRATEGIES_FN = (self: ClientAllocator): StrategyName[] => {
+  if (self.params.method === "fixed-weight") {
+    return Object.keys(self.params.weights);
+  }
+  return self.params.strategies;
+};
+
+/**
+ * Returns the latest closed-trade returns of a strategy within the lookback.
+ */
+const GET_LOOKBACK_RETURNS_FN = (self: ClientAllocator, strategyName: StrategyName) => {
+  const lookbackTrades =
+    self.params.method === "fixed-weight"
+      ? DEFAULT_LOOKBACK_TRADES
+      : self.params.lookbackTrades ?? DEFAULT_LOOKBACK_TRADES;
+  return self.params.getReturns(strategyName).slice(-lookbackTrades);
+};
+
+/**
+ * Computes a raw (unnormalized) score per strategy.
+ *
+ * - fixed-weight: configured weight
+ * - equal-risk: 1 / standard deviation of closed-trade returns
+ * - performance-weighted: mean closed-trade return, floored at 0
+ *
+ * Strategies without enough history get the mean score of the others,
+ * so a new strategy is neither starved nor favoured.
+ */
+const GET_SCORES_FN = (self: ClientAllocator, strategies: StrategyName[]) => {
+  const scores = new Map<StrategyName, number | null>();
+  for (const strategyName of strategies) {
+    if (self.params.method === "fixed-weight") {
+      scores.set(strategyName, Math.max(self.params.weights[strategyName] ?? 0, 0));
+      continue;
+    }
+    const returns = GET_LOOKBACK_RETURNS_FN(self, strategyName);
+    if (returns.length < 2) {
+      scores.set(strategyName, null);
+      continue;
+    }
+    const mean = returns.reduce((acc, value) => acc + value, 0) / returns.length;
+    if (self.params.method === "performance-weighted") {
+      scores.set(strategyName, Math.max(mean, 0));
+      continue;
+    }
+    const variance =
+      returns.reduce((acc, value) => acc + (value - mean) ** 2, 0) / (returns.length - 1);
+    const stdDev = Math.sqrt(variance);
+    scores.set(strategyName, stdDev > 0 ? 1 / stdDev : null);
+  }
+  const known = Array.from(scores.values()).filter((score): score is number => score !== null);
+  const fallback = known.length
+    ? known.reduce((acc, score) => acc + score, 0) / known.length
+    : 1;
+  return strategies.map((strategyName) => scores.get(strategyName) ?? fallback);
+};
+
+/**
+ * Wrapper to call onRebalance callback with error handling.
+ */
+const CALL_REBALANCE_CALLBACKS_FN = trycatch(
+  async (
+    self: ClientAllocator,
+    allocations: IAllocation[],
+    timestamp: number
+  ): Promise<void> => {
+    if (self.params.callbacks?.onRebalance) {
+      await self.params.callbacks.onRebalance(allocations, timestamp);
+    }
+  },
+  {
+    fallback: (error, self) => {
+      const message = "ClientAllocator CALL_REBALANCE_CALLBACKS_FN thrown";
+      const payload = {
+        error: errorData(error),
+        message: getErrorMessage(error),
+      };
+      self.params.logger.warn(message, payload);
+      console.warn(message, payload);
+      errorEmitter.next(error);
+    },
+  }
+);
+
+/**
+ * Wrapper to call onAllocate callback with error handling.
+ */
+const CALL_ALLOCATE_CALLBACKS_FN = trycatch(
+  async (
+    self: ClientAllocator,
+    strategyName: StrategyName,
+    cost: number,
+    allocatedCost: number | null
+  ): Promise<void> => {
+    if (self.params.callbacks?.onAllocate) {
+      await self.params.callbacks.onAllocate(strategyName, cost, allocatedCost);
+    }
+  },
+  {
+    fallback: (error, self) => {
+      const message = "ClientAllocator CALL_ALLOCATE_CALLBACKS_FN thrown";
+      const payload = {
+        error: errorData(error),
+        message: getErrorMessage(error),
+      };
+      self.params.logger.warn(message, payload);
+      console.warn(message, payload);
+      errorEmitter.next(error);
+    },
+  }
+);
+
+/**
+ * Recomputes weights from the scores and budgets from the current equity.
+ */
+const REBALANCE_FN = async (self: ClientAllocator, timestamp: number) => {
+  const strategies = GET_STRATEGIES_FN(self);
+  const scores = GET_SCORES_FN(self, strategies);
+  const total = scores.reduce((acc, score) => acc + score, 0);
+  const equity = Math.max(self.params.getEquity(), 0);
+  self._weights = new Map(
+    strategies.map((strategyName, index) => [
+      strategyName,
+      total > 0 ? scores[index] / total : 1 / strategies.length,
+    ])
+  );
+  self._equity = equity;
+  self._lastRebalance = timestamp;
+  self.params.logger.debug("ClientAllocator rebalance", {
+    allocatorName: self.params.allocatorName,
+    equity,
+    weights: Object.fromEntries(self._weights),
+  });
+  const allocations = self.getAllocations();
+  RECORD_SNAPSHOT_FN(self, timestamp, "rebalance", null, allocations);
+  await CALL_REBALANCE_CALLBACKS_FN(self, allocations, timestamp);
+};
+
+/**
+ * Appends an allocation snapshot, dropping the oldest beyond MAX_HISTORY_SNAPSHOTS.
+ */
+const RECORD_SNAPSHOT_FN = (
+  self: ClientAllocator,
+  timestamp: number,
+  reason: IAllocationSnapshot["reason"],
+  strategyName: StrategyName | null,
+  allocations: IAllocation[]
+) => {
+  self._history.push({ timestamp, reason, strategyName, allocations });
+  if (self._history.length > MAX_HISTORY_SNAPSHOTS) {
+    self._history.shift();
+  }
+};
+
+/**
+ * ClientAllocator assigns a capital budget to every strategy sharing one account.
+ *
+ * Budgets are recomputed on the rebalanceInterval schedule as
+ * equity × weight, where equity comes from the portfolio ledger. A signal cost
+ * is multiplied by the strategy weight (the strategy sizes as if it owned the
+ * whole account) and then capped by the budget left after the margin of its
+ * open positions. A strategy with an exhausted budget gets null.
+ *
+ * One instance is shared by every symbol of an exchange + frame + mode.
+ */
+export class ClientAllocator implements IAllocator {
+  /** Strategy weights of the last rebalance */
+  _weights = new Map<StrategyName, number>();
+
+  /** Account equity at the last rebalance */
+  _equity = 0;
+
+  /** Timestamp of the last rebalance, null before the first one */
+  _lastRebalance: number | null = null;
+
+  /** Recorded allocation snapshots, oldest first */
+  _history: IAllocationSnapshot[] = [];
+
+  constructor(readonly params: IAllocatorParams) {}
+
+  /**
+   * Scales a signal entry cost to the budget of its strategy.
+   * Rebalances first when the schedule is due.
+   *
+   * @param strategyName - Strategy of the signal
+   * @param cost - Requested entry cost in USD
+   * @param leverage - Position leverage (margin = cost / leverage)
+   * @param when - Current execution time
+   * @returns Entry cost fitting the remaining budget, or null when nothing is left
+   */
+  public allocate = async (
+    strategyName: StrategyName,
+    cost: number,
+    leverage: number,
+    when: Date
+  ): Promise<number | null> => {
+    this.params.logger.debug("ClientAllocator allocate", {
+      allocatorName: this.params.allocatorName,
+      strategyName,
+      cost,
+      leverage,
+    });
+    const timestamp = when.getTime();
+    const intervalMs =
+      INTERVAL_MINUTES[this.params.rebalanceInterval ?? DEFAULT_REBALANCE_INTERVAL] * MS_PER_MINUTE;
+    if (this._lastRebalance === null || timestamp - this._lastRebalance >= intervalMs) {
+      await REBALANCE_FN(this, timestamp);
+    }
+    const weight = this._weights.get(strategyName);
+    if (weight === undefined) {
+      throw new Error(
+        `ClientAllocator allocate: strategy ${strategyName} is not managed by allocator ${this.params.allocatorName}`
+      );
+    }
+    const effectiveLeverage = Math.max(leverage, 1);
+    const remaining = this._equity * weight - this.params.getUsage(strategyName);
+    const allocatedCost = Math.min(cost * weight, remaining * effectiveLeverage);
+    const result = allocatedCost > 0 ? allocatedCost : null;
+    RECORD_SNAPSHOT_FN(this, timestamp, "signal", strategyName, this.getAllocations());
+    await CALL_ALLOCATE_CALLBACKS_FN(this, strategyName, cost, result);
+    return result;
+  };
+
+  /**
+   * Returns the current budget and usage of every strategy.
+   *
+   * @returns Allocations in schema order
+   */
+  public getAllocations = (): IAllocation[] => {
+    return GET_STRATEGIES_FN(this).map((strategyName) => {
+      const weight = this._weights.get(strategyName) ?? 0;
+      return {
+        strategyName,
+        weight,
+        budget: this._equity * weight,
+        used: this.params.getUsage(strategyName),
+      };
+    });
+  };
+
+  /**
+   * Returns recorded allocation snapshots, oldest first.
+   *
+   * @returns Copy of the snapshot history
+   */
+  public getHistory = (): IAllocationSnapshot[] => {
+    return this._history.slice();
+  };
+}
+
+export default ClientAllocator;
@@ -1,9 +1,14 @@
 import {
   CandleInterval,
+  FeeOrderType,
+  FeeSide,
   IAggregatedTradeData,
+  IBidData,
   ICandleData,
   IExchange,
   IExchangeParams,
+  IFundingRateData,
+  ISymbolInfo,
   type IOrderBookData,
 } from "../interfaces/Exchange.interface";
 import { GLOBAL_CONFIG } from "../config/params";
@@ -15,11 +20,12 @@ import {
   trycatch,
 } from "functools-kit";
 import { errorEmitter } from "../config/emitters";
-import { PersistCandleAdapter } from "../classes/Persist";
+import { PersistCandleAdapter, PersistFundingAdapter, PersistTradeAdapter } from "../classes/Persist";
 import { Candle } from "../classes/Candle";
 import { validateCandles } from "../validation/validateCandles";
 
 const MS_PER_MINUTE = 60_000;
+const MINUTES_PER_DAY = 1_440;
 
 /**
  * Normalizes raw adapter output to the {@link IAggregatedTradeData} contract.
@@ -43,6 +49,28 @@ const NORMALIZE_AGGREGATED_TRADES_FN = (
     timestamp: Number(trade.timestamp),
   }));
 
+/**
+ * Normalizes raw adapter output to the {@link IFundingRateData} contract.
+ * Exchange APIs return funding rates as strings (e.g. `"0.00010000"`), so the
+ * numeric fields are coerced here like in NORMALIZE_AGGREGATED_TRADES_FN.
+ */
+const NORMALIZE_FUNDING_RATES_FN = (
+  fundings: IFundingRateData[],
+): IFundingRateData[] =>
+  fundings.map((funding) => ({
+    timestamp: Number(funding.timestamp),
+    fundingRate: Number(funding.fundingRate),
+  }));
+
+/** Numeric fields of {@link ISymbolInfo}, coerced and validated by getSymbolInfo */
+const SYMBOL_INFO_KEYS: (keyof ISymbolInfo)[] = [
+  "tickSize",
+  "stepSize",
+  "minQty",
+  "maxQty",
+  "minNotional",
+];
+
 const INTERVAL_MINUTES: Record<CandleInterval, number> = {
   "1m": 1,
   "3m": 3,
@@ -205,6 +233,188 @@ const WRITE_CANDLES_CACHE_FN = trycatch(
   },
 );
 
+/**
+ * Attempts to read funding settlements from cache for whole UTC days.
+ *
+ * @param symbol - Trading pair symbol
+ * @param sinceTimestamp - Start timestamp aligned to UTC day
+ * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+ * @param self - Instance of ClientExchange
+ * @returns Cached settlements or null if any day is missing
+ */
+const READ_FUNDING_CACHE_FN = trycatch(
+  async (
+    symbol: string,
+    sinceTimestamp: number,
+    untilTimestamp: number,
+    self: ClientExchange,
+  ): Promise<IFundingRateData[] | null> => {
+    return await PersistFundingAdapter.readFundingData(
+      symbol,
+      self.params.exchangeName,
+      sinceTimestamp,
+      untilTimestamp,
+    );
+  },
+  {
+    fallback: async (error, symbol, since, until, self) => {
+      const message = `ClientExchange READ_FUNDING_CACHE_FN: cache read failed`;
+      const payload = {
+        request: {
+          symbol,
+          since,
+          until,
+        },
+        error: errorData(error),
+        message: getErrorMessage(error),
+      };
+      self.params.logger.warn(message, payload);
+      console.warn(message, payload);
+      errorEmitter.next(error);
+    },
+    defaultValue: null,
+  },
+);
+
+/**
+ * Writes funding settlements to cache with error handling.
+ *
+ * @param fundings - Settlements fetched for the window
+ * @param symbol - Trading pair symbol
+ * @param sinceTimestamp - Start timestamp aligned to UTC day
+ * @param untilTimestamp - End timestamp aligned to UTC day (exclusive)
+ * @param self - Instance of ClientExchange
+ */
+const WRITE_FUNDING_CACHE_FN = trycatch(
+  queued(
+    async (
+      fundings: IFundingRateData[],
+      symbol: string,
+      sinceTimestamp: number,
+      untilTimestamp: number,
+      self: ClientExchange,
+    ): Promise<void> => {
+      await PersistFundingAdapter.writeFundingData(
+        fundings,
+        symbol,
+        self.params.exchangeName,
+        sinceTimestamp,
+        untilTimestamp,
+      );
+    },
+  ),
+  {
+    fallback: async (error, fundings, symbol, since, until, self) => {
+      const message = `ClientExchange WRITE_FUNDING_CACHE_FN: cache write failed`;
+      const payload = {
+        request: {
+          fundingsLen: fundings.length,
+          symbol,
+          since,
+          until,
+        },
+        error: errorData(error),
+        message: getErrorMessage(error),
+      };
+      self.params.logger.warn(message, payload);
+      console.warn(message, payload);
+      errorEmitter.next(error);
+    },
+    defaultValue: null,
+  },
+);
+
+/**
+ * Attempts to read aggregated trades from cache for whole minutes.
+ *
+ * @param symbol - Trading pair symbol
+ * @param sinceTimestamp - Start timestamp aligned to 1m
+ * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
+ * @param self - Instance of ClientExchange
+ * @returns Cached trades or null if any minute is missing
+ */
+const READ_TRADES_CACHE_FN = trycatch(
+  async (
+    symbol: string,
+    sinceTimestamp: number,
+    untilTimestamp: number,
+    self: ClientExchange,
+  ): Promise<IAggregatedTradeData[] | null> => {
+    return await PersistTradeAdapter.readTradeData(
+      symbol,
+      self.params.exchangeName,
+      sinceTimestamp,
+      untilTimestamp,
+    );
+  },
+  {
+    fallback: async (error, symbol, since, until, self) => {
+      const message = `ClientExchange READ_TRADES_CACHE_FN: cache read failed`;
+      const payload = {
+        request: {
+          symbol,
+          since,
+          until,
+        },
+        error: errorData(error),
+        message: getErrorMessage(error),
+      };
+      self.params.logger.warn(message, payload);
+      console.warn(message, payload);
+      errorEmitter.next(error);
+    },
+    defaultValue: null,
+  },
+);
+
+/**
+ * Writes aggregated trades to cache with error handling.
+ *
+ * @param trades - Trades fetched for the window
+ * @param symbol - Trading pair symbol
+ * @param sinceTimestamp - Start timestamp aligned to 1m
+ * @param untilTimestamp - End timestamp aligned to 1m (exclusive)
+ * @param self - Instance of ClientExchange
+ */
+const WRITE_TRADES_CACHE_FN = trycatch(
+  queued(
+    async (
+      trades: IAggregatedTradeData[],
+      symbol: string,
+      sinceTimestamp: number,
+      untilTimestamp: number,
+      self: ClientExchange,
+    ): Promise<void> => {
+      await PersistTradeAdapter.writeTradeData(
+        trades,
+        symbol,
+        self.params.exchangeName,
+        sinceTimestamp,
+        untilTimestamp,
+      );
+    },
+  ),
+  {
+    fallback: async (error, trades, symbol, since, until, self) => {
+      const message = `ClientExchange WRITE_TRADES_CACHE_FN: cache write failed`;
+      const payload = {
+        request: {
+          tradesLen: trades.length,
+          symbol,
+          since,
+          until,
+        },
+        error: errorData(error),
+        message: getErrorMessage(error),
+      };
+      self.params.logger.warn(message, payload);
+      console.warn(message, payload);
+      errorEmitter.next(error);
+    },
+    defaultValue: null,
+  },
+);
+
 /**
  * Retries the getCandles function with specified retry count and delay.
  * Uses cache to avoid redundant API calls.
@@ -331,6 +541,90 @@ const CALL_CANDLE_DATA_CALLBACKS_FN = trycatch(
   },
 );
 
+/**
+ * Quote volume (USD) traded over the candle window: Σ(typical price × volume).
+ *
+ * @param candles - 1m candles
+ * @returns Quote volume in USD
+ */
+const GET_QUOTE_VOLUME_FN = (candles: ICandleData[]): number =>
+  candles.reduce(
+    (acc, candle) =>
+      acc + ((candle.high + candle.low + candle.close) / 3) * candle.volume,
+    0,
+  );
+
+/**
+ * Standard deviation of close-to-close returns over the candle window, in percent.
+ * Returns 0 when fewer than two candles are available.
+ *
+ * @param candles - 1m candles
+ * @returns Volatility in percent
+ */
+const GET_RETURNS_STDEV_FN = (candles: ICandleData[]): number => {
+  const returns: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i - 1].close > 0) {
+      returns.push((candles[i].close / candles[i - 1].close - 1) * 100);
+    }
+  }
+  if (returns.length < 2) {
+    return 0;
+  }
+  const mean = returns.reduce((acc, r) => acc + r, 0) / returns.length;
+  const variance =
+    returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance);
+};
+
+/**
+ * Walks order book levels until the notional is covered and returns the distance
+ * of the average fill price from the best level, in percent.
+ *
+ * Notional left after the last level is filled at the last level price (the book
+ * beyond the requested depth is unknown). Returns null for an empty book.
+ *
+ * @param levels - Asks for a buy fill, bids for a sell fill
+ * @param side - Fill side: asks are walked ascending, bids descending
+ * @param notional - Fill notional in USD
+ * @returns Slippage percent or null if the book has no levels
+ */
+const WALK_ORDER_BOOK_FN = (
+  levels: IBidData[],
+  side: FeeSide,
+  notional: number,
+): number | null => {
+  const book = levels
+    .map(({ price, quantity }) => ({
+      price: Number(price),
+      quantity: Number(quantity),
+    }))
+    .filter(({ price, quantity }) => price > 0 && quantity > 0)
+    .sort((a, b) => (side === "buy" ? a.price - b.price : b.price - a.price));
+  if (book.length === 0) {
+    return null;
+  }
+  const bestPrice = book[0].price;
+  let remaining = notional;
+  let filledQuantity = 0;
+  for (const { price, quantity } of book) {
+    const taken = Math.min(remaining, price * quantity);
+    filledQuantity += taken / price;
+    remaining -= taken;
+    if (remaining <= 0) {
+      break;
+    }
+  }
+  if (remaining > 0) {
+    filledQuantity += remaining / book[book.length - 1].price;
+  }
+  if (filledQuantity === 0) {
+    return 0;
+  }
+  const averagePrice = notional / filledQuantity;
+  return (Math.abs(averagePrice - bestPrice) / bestPrice) * 100;
+};
+
 /**
  * Client implementation for exchange data access.
  *
@@ -1026,6 +1320,300 @@ export class ClientExchange implements IExchange {
     );
   }
 
+  /**
+   * Resolves fee percent for a single order fill.
+   *
+   * Delegates to the exchange schema fee model (CC_PERCENT_FEE when not provided)
+   * and validates that the returned percent is a finite number.
+   *
+   * @param symbol - Trading pair symbol
+   * @param side - Fill side: "buy" or "sell"
+   * @param orderType - Liquidity role: "maker" or "taker"
+   * @param notional - Fill notional in USD
+   * @param when - Fill timestamp
+   * @returns Promise resolving to fee percent (negative for rebates)
+   * @throws Error if the fee model returns a non-finite value
+   */
+  public async getFee(
+    symbol: string,
+    side: FeeSide,
+    orderType: FeeOrderType,
+    notional: number,
+    when: Date,
+  ): Promise<number> {
+    this.params.logger.debug("ClientExchange getFee", {
+      symbol,
+      side,
+      orderType,
+      notional,
+      when,
+    });
+    const fee = await this.params.getFee(
+      symbol,
+      side,
+      orderType,
+      notional,
+      when,
+      this.params.execution.context.backtest,
+    );
+    if (typeof fee !== "number" || !isFinite(fee)) {
+      throw new Error(
+        `ClientExchange getFee: fee must be a finite number, got ${fee} for symbol=${symbol} side=${side} orderType=${orderType}`,
+      );
+    }
+    return fee;
+  }
+
+  /**
+   * Resolves slippage percent for a single order fill.
+   *
+   * Applies the exchange schema slippage model (CC_PERCENT_SLIPPAGE when not provided):
+   * - fixed: constant percent
+   * - volume-participation: linear in notional / recent quote volume
+   * - square-root: σ × √(notional / recent quote volume)
+   * - order-book: walk of getOrderBook levels, fallbackPercent when the book is unavailable
+   *
+   * Liquidity-aware models fall back to CC_PERCENT_SLIPPAGE when recent quote volume is zero.
+   *
+   * @param symbol - Trading pair symbol
+   * @param side - Fill side: "buy" or "sell"
+   * @param notional - Fill notional in USD
+   * @returns Promise resolving to non-negative slippage percent
+   */
+  public async getSlippage(
+    symbol: string,
+    side: FeeSide,
+    notional: number,
+  ): Promise<number> {
+    this.params.logger.debug("ClientExchange getSlippage", {
+      symbol,
+      side,
+      notional,
+    });
+    const slippage = this.params.slippage;
+    if (!slippage) {
+      return GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE;
+    }
+    if (slippage.method === "fixed") {
+      return slippage.percent;
+    }
+    if (slippage.method === "order-book") {
+      const fallbackPercent =
+        slippage.fallbackPercent ?? GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE;
+      let orderBook: IOrderBookData;
+      try {
+        orderBook = await this.getOrderBook(symbol, slippage.depth);
+      } catch (error) {
+        this.params.logger.debug(
+          "ClientExchange getSlippage: order book unavailable, using fallbackPercent",
+          {
+            symbol,
+            error: getErrorMessage(error),
+          },
+        );
+        return fallbackPercent;
+      }
+      const percent = WALK_ORDER_BOOK_FN(
+        side === "buy" ? orderBook.asks : orderBook.bids,
+        side,
+        notional,
+      );
+      return percent ?? fallbackPercent;
+    }
+    const candles = await this.getCandles(
+      symbol,
+      "1m",
+      slippage.candles ?? GLOBAL_CONFIG.CC_AVG_PRICE_CANDLES_COUNT,
+    );
+    const quoteVolume = GET_QUOTE_VOLUME_FN(candles);
+    if (quoteVolume <= 0) {
+      this.params.logger.warn(
+        "ClientExchange getSlippage: zero quote volume, using CC_PERCENT_SLIPPAGE",
+        {
+          symbol,
+          method: slippage.method,
+        },
+      );
+      return GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE;
+    }
+    const basePercent = slippage.basePercent ?? 0;
+    if (slippage.method === "volume-participation") {
+      return basePercent + slippage.impact * (notional / quoteVolume) * 100;
+    }
+    return (
+      basePercent +
+      slippage.impact *
+        GET_RETURNS_STDEV_FN(candles) *
+        Math.sqrt(notional / quoteVolume)
+    );
+  }
+
+  /**
+   * Fetches funding settlements within (from, to] from cache or the exchange schema.
+   *
+   * The range is widened to whole UTC days for the cache (PersistFundingAdapter),
+   * then filtered back. `to` is clamped to execution context time, so settlements
+   * after the current candle are never returned (look-ahead bias prevention).
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param from - Start of time range (exclusive)
+   * @param to - End of time range (inclusive)
+   * @returns Promise resolving to settlements sorted by timestamp, empty without getFundingRates
+   */
+  public async getFundingRates(
+    symbol: string,
+    from: Date,
+    to: Date,
+  ): Promise<IFundingRateData[]> {
+    this.params.logger.debug("ClientExchange getFundingRates", {
+      symbol,
+      from,
+      to,
+    });
+    if (!this.params.getFundingRates) {
+      return [];
+    }
+    const fromTimestamp = from.getTime();
+    const toTimestamp = Math.min(
+      to.getTime(),
+      this.params.execution.context.when.getTime(),
+    );
+    if (toTimestamp <= fromTimestamp) {
+      return [];
+    }
+    const sinceTimestamp = ALIGN_TO_INTERVAL_FN(fromTimestamp, MINUTES_PER_DAY);
+    const untilTimestamp =
+      ALIGN_TO_INTERVAL_FN(toTimestamp, MINUTES_PER_DAY) +
+      MINUTES_PER_DAY * MS_PER_MINUTE;
+    let fundings = await READ_FUNDING_CACHE_FN(
+      symbol,
+      sinceTimestamp,
+      untilTimestamp,
+      this,
+    );
+    if (!fundings) {
+      fundings = NORMALIZE_FUNDING_RATES_FN(
+        await this.params.getFundingRates(
+          symbol,
+          new Date(sinceTimestamp),
+          new Date(untilTimestamp),
+          this.params.execution.context.backtest,
+        ),
+      );
+      for (const { timestamp, fundingRate } of fundings) {
+        if (!isFinite(timestamp) || !isFinite(fundingRate)) {
+          throw new Error(
+            `ClientExchange getFundingRates: invalid funding settlement timestamp=${timestamp} fundingRate=${fundingRate} for symbol=${symbol}`,
+          );
+        }
+      }
+      await WRITE_FUNDING_CACHE_FN(
+        fundings,
+        symbol,
+        sinceTimestamp,
+        untilTimestamp,
+        this,
+      );
+    }
+    return fundings
+      .filter(({ timestamp }) => timestamp > fromTimestamp && timestamp <= toTimestamp)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Fetches trading rules of a symbol from the exchange schema.
+   *
+   * Numeric fields are coerced like in NORMALIZE_FUNDING_RATES_FN, since exchange
+   * APIs return filters as strings (e.g. `"0.01000000"`).
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @returns Promise resolving to symbol trading rules, null without getSymbolInfo
+   * @throws Error if a rule is not a non-negative number
+   */
+  public async getSymbolInfo(symbol: string): Promise<ISymbolInfo | null> {
+    this.params.logger.debug("ClientExchange getSymbolInfo", {
+      symbol,
+    });
+    if (!this.params.getSymbolInfo) {
+      return null;
+    }
+    const info = await this.params.getSymbolInfo(
+      symbol,
+      this.params.execution.context.backtest,
+    );
+    const result: ISymbolInfo = {};
+    for (const key of SYMBOL_INFO_KEYS) {
+      if (info[key] === undefined || info[key] === null) {
+        continue;
+      }
+      const value = Number(info[key]);
+      if (!isFinite(value) || value < 0) {
+        throw new Error(
+          `ClientExchange getSymbolInfo: invalid ${key}=${info[key]} for symbol=${symbol}`,
+        );
+      }
+      result[key] = value;
+    }
+    return result;
+  }
+
+  /**
+   * Probes the last candles of a symbol before execution context time.
+   *
+   * Unlike getRawCandles this makes a single adapter call without the
+   * GET_CANDLES_FN retry loop, the candle lock, the cache or console output:
+   * a missing pair is an expected answer here, not a fetch failure.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param interval - Candle interval
+   * @param limit - Number of candles to fetch
+   * @returns Promise resolving to candles, or null when the exchange has none
+   */
+  public async probeCandles(
+    symbol: string,
+    interval: CandleInterval,
+    limit: number,
+  ): Promise<ICandleData[] | null> {
+    this.params.logger.debug("ClientExchange probeCandles", {
+      symbol,
+      interval,
+      limit,
+    });
+    const step = INTERVAL_MINUTES[interval];
+    if (!step) {
+      throw new Error(
+        `ClientExchange probeCandles: unknown interval=${interval}`,
+      );
+    }
+    const alignedWhen = ALIGN_TO_INTERVAL_FN(
+      this.params.execution.context.when.getTime(),
+      step,
+    );
+    const sinceTimestamp = alignedWhen - limit * step * MS_PER_MINUTE;
+    try {
+      const result = await this.params.getCandles(
+        symbol,
+        interval,
+        new Date(sinceTimestamp),
+        limit,
+        this.params.execution.context.backtest,
+      );
+      validateCandles(result);
+      if (result.length !== limit || result[0].timestamp !== sinceTimestamp) {
+        return null;
+      }
+      return result;
+    } catch (error) {
+      this.params.logger.debug("ClientExchange probeCandles: unavailable", {
+        symbol,
+        interval,
+        error: errorData(error),
+        message: getErrorMessage(error),
+      });
+      return null;
+    }
+  }
+
   /**
    * Fetches aggregated trades backwards from execution context time.
    *
@@ -1130,6 +1718,102 @@ export class ClientExchange implements IExchange {
     // Slice to requested limit (most recent trades)
     return uniqueTrades.slice(-limit);
   }
+
+  /**
+   * Fetches aggregated trades forward from execution context time (backtest only).
+   *
+   * Used by the "tick" fill model to resolve TP/SL inside a candle. The range
+   * [when, when + minutes) is aligned to whole minutes and cached per minute
+   * (PersistTradeAdapter). On a cache miss the adapter is paged in
+   * CC_AGGREGATED_TRADES_MAX_MINUTES windows, each filtered back to its own
+   * range and deduplicated by trade id across window seams.
+   *
+   * @param symbol - Trading pair symbol
+   * @param minutes - Number of 1m buckets to fetch
+   * @returns Promise resolving to trades sorted by timestamp; an EMPTY array when
+   *          the range starts beyond Date.now()
+   * @throws Error if trying to fetch future trades in live mode
+   */
+  public async getNextAggregatedTrades(
+    symbol: string,
+    minutes: number,
+  ): Promise<IAggregatedTradeData[]> {
+    this.params.logger.debug(`ClientExchange getNextAggregatedTrades`, {
+      symbol,
+      minutes,
+    });
+
+    if (!this.params.execution.context.backtest) {
+      throw new Error(
+        `ClientExchange getNextAggregatedTrades: cannot fetch future trades in live mode`,
+      );
+    }
+
+    const sinceTimestamp = ALIGN_TO_INTERVAL_FN(
+      this.params.execution.context.when.getTime(),
+      1,
+    );
+    const untilTimestamp = Math.min(
+      sinceTimestamp + minutes * MS_PER_MINUTE,
+      ALIGN_TO_INTERVAL_FN(Date.now(), 1),
+    );
+    if (untilTimestamp <= sinceTimestamp) {
+      return [];
+    }
+
+    let trades = await READ_TRADES_CACHE_FN(
+      symbol,
+      sinceTimestamp,
+      untilTimestamp,
+      this,
+    );
+
+    if (!trades) {
+      const windowMs =
+        GLOBAL_CONFIG.CC_AGGREGATED_TRADES_MAX_MINUTES * MS_PER_MINUTE;
+      const tradeMap = new Map<string, IAggregatedTradeData>();
+      for (
+        let windowStart = sinceTimestamp;
+        windowStart < untilTimestamp;
+        windowStart += windowMs
+      ) {
+        const windowEnd = Math.min(windowStart + windowMs, untilTimestamp);
+        const chunk = NORMALIZE_AGGREGATED_TRADES_FN(
+          await this.params.getAggregatedTrades(
+            symbol,
+            new Date(windowStart),
+            new Date(windowEnd),
+            this.params.execution.context.backtest,
+          ),
+        );
+        for (const trade of chunk) {
+          if (trade.timestamp < windowStart || trade.timestamp >= windowEnd) {
+            continue;
+          }
+          tradeMap.set(String(trade.id), trade);
+        }
+      }
+      trades = Array.from(tradeMap.values());
+      for (const { timestamp, price, qty } of trades) {
+        if (!isFinite(timestamp) || !isFinite(price) || !isFinite(qty)) {
+          throw new Error(
+            `ClientExchange getNextAggregatedTrades: invalid trade timestamp=${timestamp} price=${price} qty=${qty} for symbol=${symbol}`,
+          );
+        }
+      }
+      await WRITE_TRADES_CACHE_FN(
+        trades,
+        symbol,
+        sinceTimestamp,
+        untilTimestamp,
+        this,
+      );
+    }
+
+    return trades
+      .slice()
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
 }
 
 export default ClientExchange;
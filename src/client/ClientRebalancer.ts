@@ -0,0 +1,295 @@
+import {
+  IRebalanceEvent,
+  IRebalancer,
+  IRebalancerParams,
+  ITargetWeights,
+  RebalanceAction,
+} from "../interfaces/Rebalance.interface";
+import { ISignalDto, SignalInterval } from "../interfaces/Strategy.interface";
+import {
+  commitAverageBuy,
+  commitClosePending,
+  commitPartialLoss,
+  commitPartialProfit,
+  getPositionEffectivePrice,
+  getRemainingCostBasis,
+} from "../function/strategy";
+import { GLOBAL_CONFIG } from "../config/params";
+
+const MS_PER_MINUTE = 60_000;
+
+const INTERVAL_MINUTES: Record<SignalInterval, number> = {
+  "1m": 1,
+  "3m": 3,
+  "5m": 5,
+  "15m": 15,
+  "30m": 30,
+  "1h": 60,
+};
+
+/** Take profit of a portfolio position, only validated: ClientStrategy never closes by it */
+const REBALANCE_TAKE_PROFIT_PERCENT = 900;
+
+/** Stop loss of a portfolio position when CC_MAX_STOPLOSS_DISTANCE_PERCENT is disabled */
+const REBALANCE_STOP_LOSS_PERCENT = 99;
+
+/** Keeps the stop loss strictly inside CC_MAX_STOPLOSS_DISTANCE_PERCENT despite float rounding */
+const STOP_LOSS_EPSILON_PERCENT = 0.001;
+
+/** Tolerance for target weights summing above 1 */
+const WEIGHT_SUM_TOLERANCE = 1e-6;
+
+/** Maximum number of events kept for the rebalance report */
+const MAX_EVENTS = 1_000;
+
+/**
+ * Returns the start of the interval bucket containing the timestamp.
+ */
+const GET_BUCKET_FN = (self: ClientRebalancer, timestamp: number) => {
+  const intervalMs = INTERVAL_MINUTES[self.params.interval] * MS_PER_MINUTE;
+  return Math.floor(timestamp / intervalMs) * intervalMs;
+};
+
+/**
+ * Validates target weights returned by the strategy.
+ *
+ * @throws {Error} If a weight is not a finite number in [0, 1] or the weights sum above 1
+ */
+const VALIDATE_WEIGHTS_FN = (self: ClientRebalancer, weights: ITargetWeights) => {
+  if (!weights || typeof weights !== "object") {
+    throw new Error(
+      `ClientRebalancer getTargetWeights must return an object strategyName=${self.params.strategyName}`
+    );
+  }
+  let total = 0;
+  for (const [symbol, weight] of Object.entries(weights)) {
+    if (typeof weight !== "number" || !isFinite(weight) || weight < 0 || weight > 1) {
+      throw new Error(
+        `ClientRebalancer target weight must be a number in [0, 1], got ${weight} for symbol=${symbol} strategyName=${self.params.strategyName}`
+      );
+    }
+    total += weight;
+  }
+  if (total > 1 + WEIGHT_SUM_TOLERANCE) {
+    throw new Error(
+      `ClientRebalancer target weights sum to ${total}, expected at most 1 strategyName=${self.params.strategyName}`
+    );
+  }
+};
+
+/**
+ * Returns target weights of the interval bucket, requesting them once per bucket
+ * so every symbol of the strategy sees the same allocation.
+ */
+const GET_TARGET_WEIGHTS_FN = async (self: ClientRebalancer, when: Date): Promise<ITargetWeights> => {
+  const bucket = GET_BUCKET_FN(self, when.getTime());
+  if (self._targetWeights?.bucket !== bucket) {
+    self._targetWeights = {
+      bucket,
+      weights: Promise.resolve(self.params.getTargetWeights(when, self.params.backtest)).then(
+        (weights) => {
+          VALIDATE_WEIGHTS_FN(self, weights);
+          return weights;
+        }
+      ),
+    };
+  }
+  try {
+    return await self._targetWeights.weights;
+  } catch (error) {
+    self._targetWeights = null;
+    throw error;
+  }
+};
+
+/**
+ * Appends a rebalance event, dropping the oldest beyond MAX_EVENTS.
+ * The turnover cost of an executed change is the taker fee of the exchange fee model.
+ */
+const RECORD_EVENT_FN = async (
+  self: ClientRebalancer,
+  symbol: string,
+  timestamp: number,
+  action: RebalanceAction,
+  targetWeight: number,
+  currentWeight: number,
+  tradeCost: number,
+  executed: boolean
+) => {
+  const side = action === "open" || action === "average-buy" ? "buy" : "sell";
+  const fee = executed
+    ? await self.params.getFee(symbol, side, tradeCost, new Date(timestamp))
+    : 0;
+  const event: IRebalanceEvent = {
+    symbol,
+    timestamp,
+    action,
+    targetWeight,
+    currentWeight,
+    tradeCost,
+    turnoverCost: (tradeCost * fee) / 100,
+    executed,
+  };
+  self.params.logger.debug("ClientRebalancer event", {
+    strategyName: self.params.strategyName,
+    ...event,
+  });
+  self._events.push(event);
+  if (self._events.length > MAX_EVENTS) {
+    self._events.shift();
+  }
+};
+
+/**
+ * ClientRebalancer drives a target-weight portfolio strategy.
+ *
+ * The strategy returns a share of account equity per symbol on its interval.
+ * An idle symbol with a positive weight opens a long sized as equity × weight.
+ * An open position drifting from its weight by more than driftThreshold
+ * percentage points is moved back with the public commit functions, so every
+ * change passes the usual validation and the Broker adapter:
+ * commitAverageBuy to increase, commitPartialProfit / commitPartialLoss to
+ * reduce (picked by the side of the effective entry price) and
+ * commitClosePending when the weight drops to 0.
+ *
+ * One instance is shared by every symbol of a strategy + exchange + frame + mode.
+ */
+export class ClientRebalancer implements IRebalancer {
+  /** Target weights of the current interval bucket */
+  _targetWeights: { bucket: number; weights: Promise<ITargetWeights> } | null = null;
+
+  /** Interval bucket of the last rebalance check per symbol */
+  _lastRebalance = new Map<string, number>();
+
+  /** Recorded rebalance events, oldest first */
+  _events: IRebalanceEvent[] = [];
+
+  constructor(readonly params: IRebalancerParams) {}
+
+  /**
+   * Builds the opening signal of a symbol from its target weight.
+   *
+   * The position is held until the rebalancer closes it: the lifetime is Infinity
+   * and the take profit and stop loss only pass the signal validation (the widest
+   * distance allowed by CC_MAX_STOPLOSS_DISTANCE_PERCENT), ClientStrategy never
+   * closes a portfolio position by them.
+   *
+   * @param symbol - Trading pair symbol
+   * @param when - Current execution time
+   * @param currentPrice - Current market price
+   * @returns Long signal sized as equity × target weight, or null when the target is 0
+   */
+  public getSignal = async (
+    symbol: string,
+    when: Date,
+    currentPrice: number
+  ): Promise<ISignalDto | null> => {
+    this.params.logger.debug("ClientRebalancer getSignal", {
+      strategyName: this.params.strategyName,
+      symbol,
+      currentPrice,
+    });
+    const weights = await GET_TARGET_WEIGHTS_FN(this, when);
+    const targetWeight = weights[symbol] ?? 0;
+    const cost = this.params.getEquity() * targetWeight;
+    if (cost <= 0) {
+      return null;
+    }
+    const stopLossPercent = GLOBAL_CONFIG.CC_MAX_STOPLOSS_DISTANCE_PERCENT
+      ? Math.min(GLOBAL_CONFIG.CC_MAX_STOPLOSS_DISTANCE_PERCENT, REBALANCE_STOP_LOSS_PERCENT) - STOP_LOSS_EPSILON_PERCENT
+      : REBALANCE_STOP_LOSS_PERCENT;
+    return {
+      position: "long",
+      note: `rebalance: target weight ${(targetWeight * 100).toFixed(2)}%`,
+      priceTakeProfit: currentPrice * (1 + REBALANCE_TAKE_PROFIT_PERCENT / 100),
+      priceStopLoss: currentPrice * (1 - stopLossPercent / 100),
+      minuteEstimatedTime: Infinity,
+      cost,
+    };
+  };
+
+  /**
+   * Records the opening of a position created by getSignal.
+   * The symbol is not rebalanced again within the same interval.
+   *
+   * @param symbol - Trading pair symbol
+   * @param cost - Entry cost in USD
+   * @param timestamp - Open timestamp in milliseconds
+   */
+  public commitOpen = async (symbol: string, cost: number, timestamp: number): Promise<void> => {
+    this.params.logger.debug("ClientRebalancer commitOpen", {
+      strategyName: this.params.strategyName,
+      symbol,
+      cost,
+    });
+    const weights = await GET_TARGET_WEIGHTS_FN(this, new Date(timestamp));
+    this._lastRebalance.set(symbol, GET_BUCKET_FN(this, timestamp));
+    await RECORD_EVENT_FN(this, symbol, timestamp, "open", weights[symbol] ?? 0, 0, cost, true);
+  };
+
+  /**
+   * Moves an open position toward its target weight when the drift exceeds the threshold.
+   * Must run inside the execution and method contexts of the strategy tick.
+   *
+   * @param symbol - Trading pair symbol
+   * @param currentPrice - Current market price
+   * @param when - Current execution time
+   */
+  public rebalance = async (symbol: string, currentPrice: number, when: Date): Promise<void> => {
+    const timestamp = when.getTime();
+    const bucket = GET_BUCKET_FN(this, timestamp);
+    if (this._lastRebalance.get(symbol) === bucket) {
+      return;
+    }
+    this._lastRebalance.set(symbol, bucket);
+    this.params.logger.debug("ClientRebalancer rebalance", {
+      strategyName: this.params.strategyName,
+      symbol,
+      currentPrice,
+    });
+    const equity = this.params.getEquity();
+    if (equity <= 0) {
+      return;
+    }
+    const weights = await GET_TARGET_WEIGHTS_FN(this, when);
+    const targetWeight = weights[symbol] ?? 0;
+    const effectivePrice = await getPositionEffectivePrice(symbol);
+    const remainingCost = await getRemainingCostBasis(symbol);
+    const value = (remainingCost * currentPrice) / effectivePrice;
+    const currentWeight = value / equity;
+    if (Math.abs(targetWeight - currentWeight) * 100 < this.params.driftThreshold) {
+      return;
+    }
+    if (targetWeight <= 0) {
+      await commitClosePending(symbol, { note: "rebalance: target weight 0%" });
+      await RECORD_EVENT_FN(this, symbol, timestamp, "close", targetWeight, currentWeight, value, true);
+      return;
+    }
+    if (targetWeight > currentWeight) {
+      const tradeCost = (targetWeight - currentWeight) * equity;
+      const executed = await commitAverageBuy(symbol, tradeCost);
+      await RECORD_EVENT_FN(this, symbol, timestamp, "average-buy", targetWeight, currentWeight, tradeCost, executed);
+      return;
+    }
+    const tradeCost = (currentWeight - targetWeight) * equity;
+    const percentToClose = Math.min((tradeCost / value) * 100, 100);
+    if (currentPrice > effectivePrice) {
+      const executed = await commitPartialProfit(symbol, percentToClose);
+      await RECORD_EVENT_FN(this, symbol, timestamp, "partial-profit", targetWeight, currentWeight, tradeCost, executed);
+      return;
+    }
+    const executed = await commitPartialLoss(symbol, percentToClose);
+    await RECORD_EVENT_FN(this, symbol, timestamp, "partial-loss", targetWeight, currentWeight, tradeCost, executed);
+  };
+
+  /**
+   * Returns recorded rebalance events, oldest first.
+   *
+   * @returns Copy of the event list
+   */
+  public getEvents = (): IRebalanceEvent[] => {
+    return this._events.slice();
+  };
+}
+
+export default ClientRebalancer;
@@ -26,6 +26,7 @@ import { IRiskSignalRow, ISignalRow, IStrategyPnL, StrategyName } from "../inter
 import { GLOBAL_CONFIG } from "../config/params";
 import toProfitLossDto from "../helpers/toProfitLossDto";
 import { getTotalClosed } from "../helpers/getTotalClosed";
+import { getLiquidationPrice } from "../helpers/getLiquidationPrice";
 import { Lock } from "../classes/Lock";
 
 /** Used to prevent race confition between concurent strategies */
@@ -107,6 +108,9 @@ const TO_RISK_SIGNAL = <T extends ISignalRow>(signal: T, currentPrice: number, t
     pnl,
     maxDrawdown,
     peakProfit,
+    liquidationPrice: getLiquidationPrice(pnlSignal),
+    fundingCost: signal._fundingCost ?? 0,
+    unfilledCost: (signal._unfilledCost ?? 0) + (signal._cancelledCost ?? 0),
   };
 };
 
@@ -311,6 +315,7 @@ export class ClientRisk implements IRisk {
       priceTakeProfit: number;
       minuteEstimatedTime: number;
       openTimestamp: number;
+      cost?: number;
     }
   ) {
     this.params.logger.debug("ClientRisk addSignal", {
@@ -345,6 +350,7 @@ export class ClientRisk implements IRisk {
         priceTakeProfit: positionData.priceTakeProfit,
         minuteEstimatedTime: positionData.minuteEstimatedTime,
         openTimestamp: positionData.openTimestamp,
+        cost: positionData.cost,
       });
       // The placeholder (if any) is finalized into a real position — persist it
       this._reservedKeys.delete(key);
@@ -441,6 +447,7 @@ export class ClientRisk implements IRisk {
         ),
         activePositionCount: riskMap.size,
         activePositions: Array.from(riskMap.values()),
+        backtest: this.params.backtest,
       };
 
       let rejectionResult: IRiskRejectionResult | null = null;
@@ -526,6 +533,7 @@ export class ClientRisk implements IRisk {
           // concurrent validations reading activePositions.
           minuteEstimatedTime: signal.minuteEstimatedTime ?? GLOBAL_CONFIG.CC_MAX_SIGNAL_LIFETIME_MINUTES,
           openTimestamp: timestamp,
+          cost: signal.cost || GLOBAL_CONFIG.CC_POSITION_ENTRY_COST,
         });
         // Transient placeholder: visible to concurrent checks, but kept out of
         // persisted snapshots until addSignal finalizes it (see _reservedKeys)
@@ -8,10 +8,77 @@ import {
   ISizingSchemaFixedPercentage,
   ISizingSchemaKelly,
   ISizingSchemaATR,
+  ISizingCalculateParamsVolatilityTarget,
+  ISizingCalculateParamsRiskParity,
+  ISizingParamsVolatilityTarget,
+  ISizingParamsRiskParity,
 } from "../interfaces/Sizing.interface";
+import { CandleInterval, IExchange } from "../interfaces/Exchange.interface";
 import { trycatch, errorData, getErrorMessage } from "functools-kit";
 import { errorEmitter } from "../config/emitters";
 
+const INTERVAL_MINUTES: Record<CandleInterval, number> = {
+  "1m": 1,
+  "3m": 3,
+  "5m": 5,
+  "15m": 15,
+  "30m": 30,
+  "1h": 60,
+  "2h": 120,
+  "4h": 240,
+  "6h": 360,
+  "8h": 480,
+  "1d": 1440,
+};
+
+/** Crypto markets trade around the clock: volatility is annualized over calendar minutes */
+const MINUTES_PER_YEAR = 365 * 24 * 60;
+
+/**
+ * Measures annualized realized volatility of a symbol in percent.
+ * Sample standard deviation of `lookback` log returns of candle closes,
+ * scaled by the square root of interval periods per year.
+ *
+ * @param exchange - Exchange service (routes by method context)
+ * @param symbol - Trading pair symbol
+ * @param lookback - Number of returns
+ * @param interval - Candle interval
+ * @returns Annualized volatility in percent
+ */
+const GET_VOLATILITY_FN = async (
+  exchange: IExchange,
+  symbol: string,
+  lookback: number,
+  interval: CandleInterval
+): Promise<number> => {
+  const candles = await exchange.getCandles(symbol, interval, lookback + 1);
+  const closes = candles
+    .map(({ close }) => close)
+    .filter((close) => Number.isFinite(close) && close > 0);
+
+  if (closes.length < 3) {
+    throw new Error(
+      `Not enough candles to measure volatility of ${symbol} (got ${closes.length})`
+    );
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    returns.push(Math.log(closes[i] / closes[i - 1]));
+  }
+
+  const mean = returns.reduce((acc, r) => acc + r, 0) / returns.length;
+  const variance =
+    returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1);
+
+  if (variance <= 0) {
+    throw new Error(`Realized volatility of ${symbol} is zero`);
+  }
+
+  const periodsPerYear = MINUTES_PER_YEAR / INTERVAL_MINUTES[interval];
+  return Math.sqrt(variance * periodsPerYear) * 100;
+};
+
 /**
  * Calculates position size using fixed percentage risk method.
  * Risk amount = accountBalance * riskPercentage
@@ -108,6 +175,69 @@ const calculateATRBased = (
   return riskAmount / stopDistance;
 };
 
+/**
+ * Calculates position size using volatility targeting.
+ * Position value = accountBalance * targetVolatility / realizedVolatility
+ * Position size = positionValue / priceOpen
+ *
+ * @param params - Calculation parameters
+ * @param schema - Volatility target parameters with exchange
+ * @returns Calculated position size
+ */
+const calculateVolatilityTarget = async (
+  params: ISizingCalculateParamsVolatilityTarget,
+  schema: ISizingParamsVolatilityTarget
+): Promise<number> => {
+  const { symbol, accountBalance, priceOpen } = params;
+  const { targetVolatility, lookback, interval, exchange } = schema;
+
+  if (priceOpen <= 0) {
+    throw new Error("priceOpen must be positive");
+  }
+
+  const volatility = await GET_VOLATILITY_FN(exchange, symbol, lookback, interval);
+  const positionValue = (accountBalance * targetVolatility) / volatility;
+
+  return positionValue / priceOpen;
+};
+
+/**
+ * Calculates position size using inverse volatility risk parity.
+ * Weight = (1 / vol[symbol]) / sum(1 / vol[s]) over the held symbols and the new one
+ * Position size = accountBalance * weight / priceOpen
+ *
+ * @param params - Calculation parameters
+ * @param schema - Risk parity parameters with exchange and held symbols
+ * @returns Calculated position size
+ */
+const calculateRiskParity = async (
+  params: ISizingCalculateParamsRiskParity,
+  schema: ISizingParamsRiskParity
+): Promise<number> => {
+  const { symbol, accountBalance, priceOpen } = params;
+  const { lookback, interval, exchange } = schema;
+
+  if (priceOpen <= 0) {
+    throw new Error("priceOpen must be positive");
+  }
+
+  const symbols = new Set([...schema.getHeldSymbols(), symbol]);
+
+  let inverseTotal = 0;
+  let inverseSymbol = 0;
+  for (const heldSymbol of symbols) {
+    const volatility = await GET_VOLATILITY_FN(exchange, heldSymbol, lookback, interval);
+    inverseTotal += 1 / volatility;
+    if (heldSymbol === symbol) {
+      inverseSymbol = 1 / volatility;
+    }
+  }
+
+  const weight = inverseSymbol / inverseTotal;
+
+  return (accountBalance * weight) / priceOpen;
+};
+
 /**
  * Wrapper to call onCalculate callback with error handling.
  * Catches and logs any errors thrown by the user-provided callback.
@@ -182,6 +312,20 @@ const CALCULATE_FN = async (
       );
     }
     quantity = calculateATRBased(params, schema);
+  } else if (schema.method === "volatility-target") {
+    if (params.method !== "volatility-target") {
+      throw new Error(
+        `Params method mismatch: expected volatility-target, got ${params.method}`
+      );
+    }
+    quantity = await calculateVolatilityTarget(params, schema);
+  } else if (schema.method === "risk-parity") {
+    if (params.method !== "risk-parity") {
+      throw new Error(
+        `Params method mismatch: expected risk-parity, got ${params.method}`
+      );
+    }
+    quantity = await calculateRiskParity(params, schema);
   } else {
     const _exhaustiveCheck: never = schema;
     throw new Error(
@@ -224,7 +368,7 @@ const CALCULATE_FN = async (
  * Client implementation for position sizing calculation.
  *
  * Features:
- * - Multiple sizing methods (fixed %, Kelly, ATR)
+ * - Multiple sizing methods (fixed %, Kelly, ATR, volatility target, risk parity)
  * - Min/max position constraints
  * - Max position percentage limit
  * - Callback support for validation and logging
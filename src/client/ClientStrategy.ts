@@ -33,15 +33,20 @@ import {
   CommitPayload,
   IStrategyPnL,
   StrategyStatus,
+  StrategyFillModel,
+  StrategyLatencyAction,
 } from "../interfaces/Strategy.interface";
 import toProfitLossDto from "../helpers/toProfitLossDto";
 import { getEffectivePriceOpen as GET_EFFECTIVE_PRICE_OPEN } from "../helpers/getEffectivePriceOpen";
-import { ICandleData } from "../interfaces/Exchange.interface";
-import { PersistSignalAdapter, PersistScheduleAdapter, PersistRecentAdapter, PersistStrategyAdapter } from "../classes/Persist";
+import { FeeOrderType, IAggregatedTradeData, ICandleData, IFundingRateData, ISymbolInfo } from "../interfaces/Exchange.interface";
+import { roundPriceToTick, roundCostToLot, getLotViolation } from "../helpers/roundToSymbolInfo";
+import { PersistSignalAdapter, PersistScheduleAdapter, PersistRecentAdapter, PersistStrategyAdapter, PersistCircuitAdapter } from "../classes/Persist";
 import { ExecutionContextService } from "../lib/services/context/ExecutionContextService";
-import { errorEmitter, exitEmitter } from "../config/emitters";
+import { MethodContextService } from "../lib/services/context/MethodContextService";
+import { errorEmitter, exitEmitter, validationSubject } from "../config/emitters";
 import { GLOBAL_CONFIG } from "../config/params";
 import { getTotalClosed } from "../helpers/getTotalClosed";
+import { getLiquidationPrice as GET_LIQUIDATION_PRICE_FN } from "../helpers/getLiquidationPrice";
 import beginTime from "../utils/beginTime";
 import { StrategyCommitContract } from "../contract/StrategyCommit.contract";
 import { OrderCheckContract } from "../contract/OrderCheck.contract";
@@ -81,6 +86,16 @@ type Partials = Array<{
  */
 type Entries = Array<{ price: number; cost: number; timestamp: number }>;
 
+/**
+ * Commit action postponed by the backtest latency model (see DEFER_BY_LATENCY_FN).
+ * run re-invokes the original method with the landing candle price and timestamp.
+ */
+type LatencyTask = {
+  action: StrategyLatencyAction;
+  landsAt: number;
+  run: (currentPrice: number, timestamp: number) => Promise<boolean>;
+};
+
 /**
  * Mock value for scheduled signal pendingAt timestamp.
  * Used to indicate that the actual pendingAt will be set upon activation.
@@ -363,7 +378,7 @@ const CALL_ORDER_SYNC_CLOSE_FN = trycatch(
   async (
     timestamp: number,
     currentPrice: number,
-    closeReason: "time_expired" | "take_profit" | "stop_loss" | "closed",
+    closeReason: "time_expired" | "take_profit" | "stop_loss" | "closed" | "liquidation",
     signal: ISignalRow,
     self: ClientStrategy
   ): Promise<IBrokerOrderVerdict> => {
@@ -772,6 +787,10 @@ const PROCESS_COMMIT_QUEUE_FN = async (
     return;
   }
 
+  // Partial closes and DCA entries queued since the last tick are charged here:
+  // the public commit methods run outside execution context
+  await RESOLVE_FILL_COSTS_FN(self, attributionSignal);
+
   for (const commit of queue) {
     if (commit.action === "partial-profit") {
       const publicSignal = TO_PUBLIC_SIGNAL("pending", attributionSignal, commit.currentPrice);
@@ -1049,9 +1068,44 @@ const TO_PUBLIC_SIGNAL = <T extends ISignalDto | ISignalRow | IScheduledSignalRo
     totalEntries,
     totalPartials,
     pnl,
+    liquidationPrice: signal.priceOpen === undefined ? null : GET_LIQUIDATION_PRICE_FN(signal as ISignalRow),
+    fundingCost: "_fundingCost" in signal ? signal._fundingCost ?? 0 : 0,
+    unfilledCost: "_entry" in signal ? (signal._unfilledCost ?? 0) + (signal._cancelledCost ?? 0) : 0,
   };
 };
 
+/**
+ * Circuit breaker gate (live only): reads the persisted breaker state of the
+ * exchange account on every signal generation attempt. It does not depend on
+ * CircuitBreaker.enable(), so after a restart a tripped account stays closed
+ * for new positions from the very first tick until CircuitBreaker.reset().
+ * Warns once per trip.
+ */
+const IS_CIRCUIT_TRIPPED_FN = async (self: ClientStrategy): Promise<boolean> => {
+  if (self.params.execution.context.backtest) {
+    return false;
+  }
+  const circuit = await PersistCircuitAdapter.readCircuitData(self.params.exchangeName);
+  if (!circuit?.tripped) {
+    self._circuitTrippedAt = null;
+    return false;
+  }
+  if (self._circuitTrippedAt !== circuit.trippedAt) {
+    self._circuitTrippedAt = circuit.trippedAt;
+    const message = "ClientStrategy circuit breaker is tripped, new positions are blocked until CircuitBreaker.reset()";
+    const payload = {
+      symbol: self.params.execution.context.symbol,
+      strategyName: self.params.strategyName,
+      exchangeName: self.params.exchangeName,
+      rule: circuit.rule,
+      note: circuit.note,
+      trippedAt: circuit.trippedAt,
+    };
+    self.params.logger.warn(message, payload);
+    console.warn(message, payload);
+  }
+  return true;
+};
 
 const GET_SIGNAL_FN = trycatch(
   async (
@@ -1142,7 +1196,7 @@ const GET_SIGNAL_FN = trycatch(
       retrySignal = null;
     }
     if (retrySignal) {
-      if (!validateSignal(retrySignal, currentPrice)) {
+      if (!validateSignal(TO_VALIDATED_SIGNAL_FN(self, retrySignal), currentPrice)) {
         const message = "ClientStrategy GET_SIGNAL_FN: open-retry signal failed consumption re-validation (price moved since the rejected attempt), dropped";
         const payload = {
           symbol: self.params.execution.context.symbol,
@@ -1171,8 +1225,8 @@ const GET_SIGNAL_FN = trycatch(
       // exchange, freezing it would recreate the orphan-order risk the retry
       // exists to prevent. Roll back the interval throttle consumed at the top
       // of this function so unpausing reacts on the NEXT TICK, not on the next
-      // interval boundary.
-      if (self._isPaused) {
+      // interval boundary. A tripped circuit breaker closes the same gate.
+      if (self._isPaused || await IS_CIRCUIT_TRIPPED_FN(self)) {
         self._lastSignalTimestamp = null;
         return null;
       }
@@ -1253,6 +1307,35 @@ const GET_SIGNAL_FN = trycatch(
     if (self._isStopped) {
       return null;
     }
+    // Position sizing (IStrategySchema.sizingName): сигнал без cost получает размер
+    // из схемы sizing до аллокатора, который затем урезает его к бюджету стратегии
+    signal = await SIZE_SIGNAL_COST_FN(self, signal, currentPrice);
+    // Capital allocator (IStrategySchema.allocatorName): cost масштабируется к бюджету
+    // стратегии до округления к лоту. Исчерпанный бюджет — отказ с откатом троттла
+    {
+      const allocatedSignal = await ALLOCATE_SIGNAL_COST_FN(self, signal);
+      if (!allocatedSignal) {
+        self._lastSignalTimestamp = null;
+        return null;
+      }
+      signal = allocatedSignal;
+    }
+    // Trading rules (IExchangeSchema.getSymbolInfo): цены округляются к tickSize,
+    // cost — к шагу лота ДО риск-проверки. Сигнал вне minQty/maxQty/minNotional
+    // отклоняется без отката троттла: те же правила отклонят его и на следующем тике
+    {
+      const roundedSignal = await ROUND_SIGNAL_TO_SYMBOL_INFO_FN(self, signal, currentPrice);
+      if (!roundedSignal) {
+        return null;
+      }
+      signal = roundedSignal;
+    }
+    // Portfolio ledger: без свободного кэша под маржу сигнал отклоняется
+    // с откатом троттла, как при отказе риска — кэш освободится закрытием другой позиции
+    if (GLOBAL_CONFIG.CC_PORTFOLIO_CASH_CHECK && await not(CHECK_FREE_CASH_FN(self, signal))) {
+      self._lastSignalTimestamp = null;
+      return null;
+    }
     // Risk check for every candidate signal (reserves a slot). The reservation is
     // finalized by addSignal on a successful open, released on sync rejection /
     // scheduled cancellation, and released by the trycatch fallback below if a
@@ -1391,7 +1474,7 @@ const GET_SIGNAL_FN = trycatch(
     }
 
     // Валидируем сигнал перед возвратом
-    validatePendingSignal(signalRow, currentPrice);
+    validatePendingSignal(TO_VALIDATED_SIGNAL_FN(self, signalRow), currentPrice);
 
     return signalRow;
   },
@@ -1450,6 +1533,618 @@ const GET_AVG_PRICE_FN = (candles: ICandleData[]): number => {
     : sumPriceVolume / totalVolume;
 };
 
+/**
+ * Resolves the backtest fill model: IStrategySchema.fillModel first,
+ * GLOBAL_CONFIG.CC_BACKTEST_FILL_MODEL as the fallback.
+ */
+const GET_FILL_MODEL_FN = (self: ClientStrategy): StrategyFillModel => {
+  return self.params.fillModel ?? GLOBAL_CONFIG.CC_BACKTEST_FILL_MODEL;
+};
+
+/**
+ * Decides whether a backtest candle reached TakeProfit or StopLoss of a pending signal.
+ *
+ * - "vwap": compares the VWAP of the recent candles with the levels (same as live tick)
+ * - "wick": compares candle high/low; when both levels are touched in one candle the
+ *   level nearest to the candle open is assumed to be hit first (open → nearest extreme)
+ * - "pessimistic": compares candle high/low; StopLoss wins when both are touched
+ *
+ * Levels are expected to be effective ones (trailing TP/SL already applied).
+ */
+const GET_PENDING_HIT_FN = (
+  fillModel: StrategyFillModel,
+  position: "long" | "short",
+  candle: ICandleData,
+  averagePrice: number,
+  effectiveTakeProfit: number,
+  effectiveStopLoss: number
+): "take_profit" | "stop_loss" | null => {
+  if (fillModel === "vwap") {
+    if (position === "long") {
+      if (averagePrice >= effectiveTakeProfit) {
+        return "take_profit";
+      }
+      if (averagePrice <= effectiveStopLoss) {
+        return "stop_loss";
+      }
+      return null;
+    }
+    if (averagePrice <= effectiveTakeProfit) {
+      return "take_profit";
+    }
+    if (averagePrice >= effectiveStopLoss) {
+      return "stop_loss";
+    }
+    return null;
+  }
+  const takeProfitHit = position === "long"
+    ? candle.high >= effectiveTakeProfit
+    : candle.low <= effectiveTakeProfit;
+  const stopLossHit = position === "long"
+    ? candle.low <= effectiveStopLoss
+    : candle.high >= effectiveStopLoss;
+  if (takeProfitHit && stopLossHit) {
+    if (fillModel === "pessimistic") {
+      return "stop_loss";
+    }
+    const stopLossDistance = Math.abs(candle.open - effectiveStopLoss);
+    const takeProfitDistance = Math.abs(effectiveTakeProfit - candle.open);
+    return stopLossDistance <= takeProfitDistance ? "stop_loss" : "take_profit";
+  }
+  if (takeProfitHit) {
+    return "take_profit";
+  }
+  if (stopLossHit) {
+    return "stop_loss";
+  }
+  return null;
+};
+
+/**
+ * Decides which level of a pending signal the trades of one minute reach first
+ * ("tick" fill model). Trades are expected sorted by timestamp.
+ */
+const GET_TICK_HIT_FN = (
+  position: "long" | "short",
+  trades: IAggregatedTradeData[],
+  effectiveTakeProfit: number,
+  effectiveStopLoss: number
+): "take_profit" | "stop_loss" | null => {
+  for (const { price } of trades) {
+    if (position === "long") {
+      if (price >= effectiveTakeProfit) {
+        return "take_profit";
+      }
+      if (price <= effectiveStopLoss) {
+        return "stop_loss";
+      }
+      continue;
+    }
+    if (price <= effectiveTakeProfit) {
+      return "take_profit";
+    }
+    if (price >= effectiveStopLoss) {
+      return "stop_loss";
+    }
+  }
+  return null;
+};
+
+/**
+ * Prefetches aggregated trades covering the processed candles and groups them by
+ * minute open timestamp ("tick" fill model). Minutes missing from the map fall back
+ * to candles, so a failed fetch (e.g. no getAggregatedTrades in the exchange schema)
+ * degrades to the "vwap" model instead of failing the backtest.
+ */
+const FETCH_TICK_TRADES_FN = async (
+  self: ClientStrategy,
+  candles: ICandleData[]
+): Promise<Map<number, IAggregatedTradeData[]>> => {
+  const tradeMap = new Map<number, IAggregatedTradeData[]>();
+  if (candles.length === 0) {
+    return tradeMap;
+  }
+  const firstTimestamp = candles[0].timestamp;
+  const lastTimestamp = candles[candles.length - 1].timestamp;
+  let trades: IAggregatedTradeData[];
+  try {
+    trades = await ExecutionContextService.runInContext(
+      async () =>
+        await self.params.exchange.getNextAggregatedTrades(
+          self.params.execution.context.symbol,
+          Math.floor((lastTimestamp - firstTimestamp) / 60_000) + 1
+        ),
+      {
+        symbol: self.params.execution.context.symbol,
+        when: new Date(firstTimestamp),
+        backtest: self.params.execution.context.backtest,
+      }
+    );
+  } catch (error) {
+    const message = "ClientStrategy FETCH_TICK_TRADES_FN: aggregated trades unavailable, falling back to candles";
+    const payload = {
+      error: errorData(error),
+      message: getErrorMessage(error),
+    };
+    self.params.logger.warn(message, payload);
+    return tradeMap;
+  }
+  for (const trade of trades) {
+    const minuteTimestamp = Math.floor(trade.timestamp / 60_000) * 60_000;
+    const minuteTrades = tradeMap.get(minuteTimestamp);
+    if (minuteTrades) {
+      minuteTrades.push(trade);
+      continue;
+    }
+    tradeMap.set(minuteTimestamp, [trade]);
+  }
+  return tradeMap;
+};
+
+/**
+ * Returns the signal as checked by the validators. Portfolio positions (getTargetWeights)
+ * are held until the rebalancer closes them, so their Infinity lifetime is validated
+ * against CC_MAX_SIGNAL_LIFETIME_MINUTES instead.
+ */
+const TO_VALIDATED_SIGNAL_FN = <T extends ISignalDto>(self: ClientStrategy, signal: T): T =>
+  self.params.getTargetWeights && signal.minuteEstimatedTime === Infinity
+    ? { ...signal, minuteEstimatedTime: GLOBAL_CONFIG.CC_MAX_SIGNAL_LIFETIME_MINUTES }
+    : signal;
+
+/**
+ * Returns the take profit and stop loss that close a pending signal (trailing levels applied).
+ *
+ * Positions of a portfolio strategy (getTargetWeights) are closed by the rebalancer only:
+ * their levels are moved out of reach, so neither TP nor SL ever triggers.
+ */
+const GET_CLOSE_LEVELS_FN = (self: ClientStrategy, signal: ISignalRow) => {
+  if (self.params.getTargetWeights) {
+    return signal.position === "long"
+      ? { effectiveTakeProfit: Infinity, effectiveStopLoss: 0 }
+      : { effectiveTakeProfit: 0, effectiveStopLoss: Infinity };
+  }
+  return {
+    effectiveTakeProfit: signal._trailingPriceTakeProfit ?? signal.priceTakeProfit,
+    effectiveStopLoss: signal._trailingPriceStopLoss ?? signal.priceStopLoss,
+  };
+};
+
+/**
+ * Returns the liquidation price of a leveraged pending signal when it lies between
+ * the entry and the effective StopLoss, i.e. when the position is liquidated before
+ * the stop can be reached. Returns null for unleveraged positions and when the stop
+ * is nearer to the entry (StopLoss closes the position first).
+ */
+const GET_LIQUIDATION_BEFORE_STOP_FN = (
+  signal: ISignalRow,
+  effectiveStopLoss: number
+): number | null => {
+  const liquidationPrice = GET_LIQUIDATION_PRICE_FN(signal);
+  if (liquidationPrice === null) {
+    return null;
+  }
+  if (signal.position === "long") {
+    return liquidationPrice > effectiveStopLoss ? liquidationPrice : null;
+  }
+  return liquidationPrice < effectiveStopLoss ? liquidationPrice : null;
+};
+
+/**
+ * Decides what a backtest candle does to a scheduled signal under the fill model.
+ *
+ * StopLoss lies beyond priceOpen, so a candle that touches StopLoss always touches
+ * priceOpen as well. The models differ only in how such a candle is resolved:
+ * - "vwap": cancel (legacy behavior, StopLoss has priority over activation)
+ * - "wick": the price passes priceOpen first, so the signal is activated and stopped
+ *   out on the same candle; cancelled only when the candle opens beyond StopLoss
+ * - "pessimistic": always activated and stopped out on the same candle
+ * - "tick": resolved like "wick" (trades drive the pending phase only)
+ */
+const GET_SCHEDULED_HIT_FN = (
+  fillModel: StrategyFillModel,
+  scheduled: IScheduledSignalRow,
+  candle: ICandleData
+): "activate" | "activate_stop" | "cancel" | null => {
+  const openTouched = scheduled.position === "long"
+    ? candle.low <= scheduled.priceOpen
+    : candle.high >= scheduled.priceOpen;
+  const stopLossTouched = scheduled.position === "long"
+    ? candle.low <= scheduled.priceStopLoss
+    : candle.high >= scheduled.priceStopLoss;
+  if (stopLossTouched) {
+    if (fillModel === "vwap") {
+      return "cancel";
+    }
+    if (fillModel === "pessimistic") {
+      return "activate_stop";
+    }
+    const openedBeyondStopLoss = scheduled.position === "long"
+      ? candle.open <= scheduled.priceStopLoss
+      : candle.open >= scheduled.priceStopLoss;
+    return openedBeyondStopLoss ? "cancel" : "activate_stop";
+  }
+  if (openTouched) {
+    return "activate";
+  }
+  return null;
+};
+
+/**
+ * Liquidity role of the final exit fill for fee resolution.
+ * Take-profit is a resting limit order only when CC_TAKE_PROFIT_MAKER_FEE is enabled,
+ * every other close crosses the book.
+ */
+const GET_EXIT_ORDER_TYPE_FN = (closeReason: string): FeeOrderType => {
+  if (closeReason === "take_profit" && GLOBAL_CONFIG.CC_TAKE_PROFIT_MAKER_FEE) {
+    return "maker";
+  }
+  return "taker";
+};
+
+/**
+ * Applies funding settlements within (signal._fundingAccruedAt, upTo] to a pending signal.
+ *
+ * Each settlement costs fundingRate × notional, where notional is the remaining
+ * position marked at currentPrice. Longs pay positive rates, shorts receive them.
+ * The result accumulates in _fundingCost (USD, positive = paid).
+ */
+const APPLY_FUNDING_FN = (
+  signal: ISignalRow,
+  fundings: IFundingRateData[],
+  currentPrice: number,
+  upTo: number
+): void => {
+  const accruedAt = signal._fundingAccruedAt ?? signal.pendingAt;
+  if (upTo <= accruedAt) {
+    return;
+  }
+  const settlements = fundings.filter(
+    ({ timestamp }) => timestamp > accruedAt && timestamp <= upTo
+  );
+  if (settlements.length) {
+    const { remainingCostBasis } = getTotalClosed(signal);
+    const notional = (remainingCostBasis / GET_EFFECTIVE_PRICE_OPEN(signal)) * currentPrice;
+    const direction = signal.position === "long" ? 1 : -1;
+    for (const { fundingRate } of settlements) {
+      signal._fundingCost = (signal._fundingCost ?? 0) + direction * fundingRate * notional;
+    }
+  }
+  signal._fundingAccruedAt = upTo;
+};
+
+/**
+ * Fetches funding settlements since the last accrual and applies them to a pending signal.
+ * Used by live tick; backtest prefetches the whole candle range once (see PROCESS_PENDING_SIGNAL_CANDLES_FN).
+ */
+const ACCRUE_FUNDING_FN = async (
+  self: ClientStrategy,
+  signal: ISignalRow,
+  currentTime: number,
+  currentPrice: number
+): Promise<void> => {
+  const accruedAt = signal._fundingAccruedAt ?? signal.pendingAt;
+  if (currentTime <= accruedAt) {
+    return;
+  }
+  const fundings = await self.params.exchange.getFundingRates(
+    signal.symbol,
+    new Date(accruedAt),
+    new Date(currentTime)
+  );
+  APPLY_FUNDING_FN(signal, fundings, currentPrice, currentTime);
+};
+
+/**
+ * Returns the fill price of a StopLoss or liquidation hit on a 1m candle in backtest.
+ *
+ * With CC_BACKTEST_GAP_AWARE_STOPS the price is gapped past the stop when a hole
+ * longer than CC_MAX_CANDLE_GAP_MINUTES precedes the candle, or when the previous
+ * candle still closed on the safe side of the stop. A gapped stop fills at the worse
+ * of the stop and the candle open; a stop reached without a gap (including one the
+ * lagging VWAP confirms late) fills at its level.
+ */
+const GET_GAP_STOP_PRICE_FN = (
+  position: ISignalRow["position"],
+  stopPrice: number,
+  candle: ICandleData,
+  prevCandle: ICandleData | undefined
+): number => {
+  if (!GLOBAL_CONFIG.CC_BACKTEST_GAP_AWARE_STOPS || !prevCandle) {
+    return stopPrice;
+  }
+  const missingMinutes = (candle.timestamp - prevCandle.timestamp) / 60_000 - 1;
+  const hole = missingMinutes > GLOBAL_CONFIG.CC_MAX_CANDLE_GAP_MINUTES;
+  const jumped = position === "long"
+    ? prevCandle.close > stopPrice
+    : prevCandle.close < stopPrice;
+  if (!hole && !jumped) {
+    return stopPrice;
+  }
+  return position === "long"
+    ? Math.min(stopPrice, candle.open)
+    : Math.max(stopPrice, candle.open);
+};
+
+/**
+ * Returns the delay in milliseconds the strategy latency model assigns to an action.
+ * Always 0 in live mode and without IStrategySchema.latency.
+ */
+const GET_LATENCY_MS_FN = (
+  self: ClientStrategy,
+  action: StrategyLatencyAction,
+  backtest: boolean
+): number => {
+  if (!backtest || !self.params.latency) {
+    return 0;
+  }
+  const latency = self.params.latency(action);
+  return Number.isFinite(latency) && latency > 0 ? latency : 0;
+};
+
+/**
+ * Postpones a backtest commit action by the strategy latency model.
+ *
+ * Returns true when the action was queued: PROCESS_LATENCY_QUEUE_FN re-invokes it on
+ * the candle where it lands, with that candle's price. Returns false when the action
+ * must run now (live mode, no latency, or the action is landing already).
+ */
+const DEFER_BY_LATENCY_FN = (
+  self: ClientStrategy,
+  action: StrategyLatencyAction,
+  backtest: boolean,
+  timestamp: number,
+  run: LatencyTask["run"]
+): boolean => {
+  if (self._isLatencyLanding) {
+    return false;
+  }
+  const latency = GET_LATENCY_MS_FN(self, action, backtest);
+  if (latency <= 0) {
+    return false;
+  }
+  self._latencyQueue.push({ action, landsAt: timestamp + latency, run });
+  return true;
+};
+
+/**
+ * Applies delayed actions that land within the given backtest candle at its VWAP.
+ *
+ * Landed actions are validated against the landing price: an action that is no
+ * longer valid there (e.g. partial profit after price turned) is dropped with a warning.
+ */
+const PROCESS_LATENCY_QUEUE_FN = async (
+  self: ClientStrategy,
+  candleTimestamp: number,
+  averagePrice: number
+): Promise<void> => {
+  if (self._latencyQueue.length === 0) {
+    return;
+  }
+  const landed = self._latencyQueue.filter(({ landsAt }) => landsAt < candleTimestamp + 60_000);
+  if (landed.length === 0) {
+    return;
+  }
+  self._latencyQueue = self._latencyQueue.filter((task) => !landed.includes(task));
+  self._isLatencyLanding = true;
+  try {
+    for (const { action, landsAt, run } of landed) {
+      let applied = false;
+      try {
+        applied = await run(averagePrice, candleTimestamp);
+      } catch (error) {
+        self.params.logger.warn("ClientStrategy delayed action failed on landing", {
+          symbol: self.params.execution.context.symbol,
+          action,
+          landsAt,
+          error: errorData(error),
+          message: getErrorMessage(error),
+        });
+      }
+      if (!applied) {
+        self.params.logger.info("ClientStrategy delayed action dropped on landing", {
+          symbol: self.params.execution.context.symbol,
+          action,
+          landsAt,
+          currentPrice: averagePrice,
+        });
+      }
+    }
+  } finally {
+    self._isLatencyLanding = false;
+  }
+};
+
+/**
+ * Re-prices a latency-delayed market entry at the candle where it reaches the exchange.
+ * Funding accrues from that candle: settlements while the order was in flight are not charged.
+ *
+ * @returns false while the entry is still in flight (the candle ends before _openLandsAt)
+ */
+const LAND_DELAYED_OPEN_FN = (
+  signal: ISignalRow,
+  candleTimestamp: number,
+  averagePrice: number
+): boolean => {
+  if (signal._openLandsAt === undefined) {
+    return true;
+  }
+  if (candleTimestamp + 60_000 <= signal._openLandsAt) {
+    return false;
+  }
+  const [entry] = signal._entry ?? [];
+  if (entry) {
+    entry.price = averagePrice;
+    entry.timestamp = candleTimestamp;
+  }
+  signal._peak = { ...signal._peak, price: averagePrice, timestamp: candleTimestamp };
+  signal._fall = { ...signal._fall, price: averagePrice, timestamp: candleTimestamp };
+  signal._fundingAccruedAt = Math.max(signal._fundingAccruedAt ?? signal.pendingAt, candleTimestamp);
+  delete signal._openLandsAt;
+  return true;
+};
+
+/**
+ * Returns the entry cost in USD a single 1m candle can absorb under CC_BACKTEST_MAX_VOLUME_PERCENT.
+ */
+const GET_CANDLE_FILL_CAPACITY_FN = (candle: ICandleData): number =>
+  (candle.volume * candle.close * GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT) / 100;
+
+/**
+ * Caps the initial entry of a freshly opened backtest position by candle liquidity.
+ *
+ * The entry fills up to CC_BACKTEST_MAX_VOLUME_PERCENT of the entry candle quote volume,
+ * the rest is kept in _unfilledCost for FILL_UNFILLED_ENTRY_FN. Without an explicit
+ * candle (tick path) the last closed 1m candle at context time is used. Candles without
+ * volume data leave the entry uncapped. Live fills are real and never capped.
+ */
+const CAP_ENTRY_FILL_FN = async (
+  self: ClientStrategy,
+  signal: ISignalRow,
+  candle: ICandleData | null
+): Promise<void> => {
+  if (!self.params.execution.context.backtest) {
+    return;
+  }
+  if (GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT <= 0) {
+    return;
+  }
+  if (!signal._entry || signal._entry.length !== 1) {
+    return;
+  }
+  const [entryCandle = null] = candle
+    ? [candle]
+    : await self.params.exchange.getCandles(signal.symbol, "1m", 1);
+  if (!entryCandle) {
+    return;
+  }
+  const [entry] = signal._entry;
+  const capacity = GET_CANDLE_FILL_CAPACITY_FN(entryCandle);
+  if (capacity <= 0 || entry.cost <= capacity) {
+    return;
+  }
+  self.params.logger.info("ClientStrategy entry capped by candle liquidity", {
+    symbol: signal.symbol,
+    signalId: signal.id,
+    cost: entry.cost,
+    filled: capacity,
+  });
+  signal._unfilledCost = entry.cost - capacity;
+  entry.cost = capacity;
+};
+
+/**
+ * Fills the waiting rest of a liquidity-capped entry on a backtest candle.
+ *
+ * Each candle fills up to CC_BACKTEST_MAX_VOLUME_PERCENT of its quote volume at the candle
+ * VWAP and appends the fill to _entry. Once CC_BACKTEST_FILL_TIMEOUT_MINUTES have passed
+ * since activation the remainder moves to _cancelledCost.
+ */
+const FILL_UNFILLED_ENTRY_FN = (
+  signal: ISignalRow,
+  candle: ICandleData,
+  averagePrice: number
+): void => {
+  if (!signal._unfilledCost || !signal._entry) {
+    return;
+  }
+  if (candle.timestamp - signal.pendingAt > GLOBAL_CONFIG.CC_BACKTEST_FILL_TIMEOUT_MINUTES * 60_000) {
+    signal._cancelledCost = (signal._cancelledCost ?? 0) + signal._unfilledCost;
+    signal._unfilledCost = 0;
+    return;
+  }
+  // Свеча входа уже израсходовала свой объём на первичное исполнение
+  if (candle.timestamp <= signal._entry[signal._entry.length - 1].timestamp) {
+    return;
+  }
+  const cost = Math.min(signal._unfilledCost, GET_CANDLE_FILL_CAPACITY_FN(candle));
+  if (cost <= 0) {
+    return;
+  }
+  signal._entry.push({ price: averagePrice, cost, timestamp: candle.timestamp });
+  signal._unfilledCost -= cost;
+};
+
+/**
+ * Resolves fee and slippage percents for every fill of the signal that has none yet.
+ *
+ * Entries open on the position side ("buy" for long, "sell" for short), partial
+ * and final closes on the opposite side. DCA entries and partial closes are always
+ * taker fills; entryOrderType applies to the initial entry only (maker for
+ * activated scheduled signals). _exitFee/_exitSlippage are estimated once and
+ * re-resolved with the actual exit when exitOrderType is passed on close.
+ *
+ * Requires execution context (fee model receives the backtest flag, slippage
+ * models read market data at context time).
+ */
+const RESOLVE_FILL_COSTS_FN = async (
+  self: ClientStrategy,
+  signal: ISignalRow,
+  entryOrderType: FeeOrderType = "taker",
+  exitOrderType?: FeeOrderType
+): Promise<void> => {
+  const openSide = signal.position === "long" ? "buy" : "sell";
+  const closeSide = signal.position === "long" ? "sell" : "buy";
+  if (signal._entry) {
+    for (let i = 0; i < signal._entry.length; i++) {
+      const entry = signal._entry[i];
+      if (entry.fee === undefined) {
+        entry.fee = await self.params.exchange.getFee(
+          signal.symbol,
+          openSide,
+          i === 0 ? entryOrderType : "taker",
+          entry.cost,
+          new Date(entry.timestamp)
+        );
+      }
+      if (entry.slippage === undefined) {
+        entry.slippage = await self.params.exchange.getSlippage(
+          signal.symbol,
+          openSide,
+          entry.cost
+        );
+      }
+    }
+  }
+  if (signal._partial) {
+    for (const partial of signal._partial) {
+      const notional = (partial.percent / 100) * partial.costBasisAtClose;
+      if (partial.fee === undefined) {
+        partial.fee = await self.params.exchange.getFee(
+          signal.symbol,
+          closeSide,
+          "taker",
+          notional,
+          new Date(partial.timestamp)
+        );
+      }
+      if (partial.slippage === undefined) {
+        partial.slippage = await self.params.exchange.getSlippage(
+          signal.symbol,
+          closeSide,
+          notional
+        );
+      }
+    }
+  }
+  const { remainingCostBasis } = getTotalClosed(signal);
+  if (exitOrderType || signal._exitFee === undefined) {
+    signal._exitFee = await self.params.exchange.getFee(
+      signal.symbol,
+      closeSide,
+      exitOrderType ?? "taker",
+      remainingCostBasis,
+      self.params.execution.context.when
+    );
+  }
+  if (exitOrderType || signal._exitSlippage === undefined) {
+    signal._exitSlippage = await self.params.exchange.getSlippage(
+      signal.symbol,
+      closeSide,
+      remainingCostBasis
+    );
+  }
+};
+
 // Static reads (like WAIT_FOR_DISPOSE_FN): symbol/strategyName/exchangeName/
 // frameName/backtest come from ctor params — the same values the instance is
 // memoized by — so those no longer touch method/execution contexts. The RESTORE
@@ -1941,6 +2636,200 @@ const RESOLVE_CLOSE_GATE_FN = (
   return { verdict: "force", fatalError: terminal ? null : error };
 };
 
+/**
+ * Fetches symbol trading rules (IExchangeSchema.getSymbolInfo) in the strategy
+ * contexts, so commit methods called outside of them (Live.commitPartialProfit)
+ * resolve the same exchange.
+ */
+const GET_SYMBOL_INFO_FN = async (
+  self: ClientStrategy
+): Promise<ISymbolInfo | null> => {
+  return await MethodContextService.runInContext(
+    async () =>
+      await ExecutionContextService.runInContext(
+        async () => await self.params.exchange.getSymbolInfo(self.params.symbol),
+        {
+          symbol: self.params.symbol,
+          when: ExecutionContextService.hasContext()
+            ? self.params.execution.context.when
+            : new Date(),
+          backtest: self.params.backtest,
+        }
+      ),
+    {
+      strategyName: self.params.strategyName,
+      exchangeName: self.params.exchangeName,
+      frameName: self.params.frameName,
+    }
+  );
+};
+
+/**
+ * Reports an order rejected by symbol trading rules as error.validation.
+ */
+const REJECT_BY_SYMBOL_INFO_FN = (
+  self: ClientStrategy,
+  action: string,
+  reason: string
+): void => {
+  const message = `ClientStrategy ${action}: rejected by symbol trading rules, ${reason}`;
+  const payload = {
+    symbol: self.params.symbol,
+    strategyName: self.params.strategyName,
+    exchangeName: self.params.exchangeName,
+    reason,
+  };
+  self.params.logger.warn(message, payload);
+  console.warn(message, payload);
+  validationSubject.next(new Error(message));
+};
+
+/**
+ * Checks that the portfolio ledger has free cash for the signal margin
+ * (cost / leverage). A shortfall is reported as error.validation.
+ *
+ * @returns True when the signal can be funded
+ */
+const CHECK_FREE_CASH_FN = async (
+  self: ClientStrategy,
+  signal: ISignalDto
+): Promise<boolean> => {
+  const cost = signal.cost || GLOBAL_CONFIG.CC_POSITION_ENTRY_COST;
+  const margin = cost / Math.max(signal.leverage ?? 1, 1);
+  const freeCash = await self.params.getFreeCash();
+  if (freeCash >= margin) {
+    return true;
+  }
+  const message = `ClientStrategy signal: rejected by portfolio ledger, insufficient cash ${freeCash.toFixed(2)} for margin ${margin.toFixed(2)}`;
+  const payload = {
+    symbol: self.params.symbol,
+    strategyName: self.params.strategyName,
+    exchangeName: self.params.exchangeName,
+    freeCash,
+    margin,
+  };
+  self.params.logger.warn(message, payload);
+  console.warn(message, payload);
+  validationSubject.next(new Error(message));
+  return false;
+};
+
+/**
+ * Fills the cost of a signal returned without one from the strategy sizing schema.
+ * Signals with an explicit cost, and strategies without sizingName, pass unchanged.
+ *
+ * @returns Signal with the sized cost
+ */
+const SIZE_SIGNAL_COST_FN = async <T extends ISignalDto>(
+  self: ClientStrategy,
+  signal: T,
+  currentPrice: number
+): Promise<T> => {
+  if (signal.cost) {
+    return signal;
+  }
+  const sizedCost = await self.params.getSizedCost(signal, currentPrice);
+  if (sizedCost === null) {
+    return signal;
+  }
+  return { ...signal, cost: sizedCost };
+};
+
+/**
+ * Scales the signal cost to the strategy budget of its capital allocator.
+ * An exhausted budget is reported as error.validation.
+ *
+ * @returns Signal with the allocated cost, or null when the budget is exhausted
+ */
+const ALLOCATE_SIGNAL_COST_FN = async <T extends ISignalDto>(
+  self: ClientStrategy,
+  signal: T
+): Promise<T | null> => {
+  const cost = signal.cost || GLOBAL_CONFIG.CC_POSITION_ENTRY_COST;
+  const allocatedCost = await self.params.getAllocatedCost(cost, signal.leverage ?? 1);
+  if (allocatedCost === cost) {
+    return signal;
+  }
+  if (allocatedCost !== null) {
+    return { ...signal, cost: allocatedCost };
+  }
+  const message = `ClientStrategy signal: rejected by capital allocator, strategy budget exhausted for cost ${cost.toFixed(2)}`;
+  const payload = {
+    symbol: self.params.symbol,
+    strategyName: self.params.strategyName,
+    exchangeName: self.params.exchangeName,
+    cost,
+  };
+  self.params.logger.warn(message, payload);
+  console.warn(message, payload);
+  validationSubject.next(new Error(message));
+  return null;
+};
+
+/**
+ * Rounds a new signal to symbol trading rules: prices to tickSize, entry quantity
+ * down to stepSize (cost follows). Runs before the risk check, so risk validations
+ * see the order that will actually be placed.
+ *
+ * @returns Rounded signal, or null when the entry breaks minQty, maxQty or minNotional
+ */
+const ROUND_SIGNAL_TO_SYMBOL_INFO_FN = async <T extends ISignalDto>(
+  self: ClientStrategy,
+  signal: T,
+  currentPrice: number
+): Promise<T | null> => {
+  const info = await self.params.exchange.getSymbolInfo(self.params.execution.context.symbol);
+  if (!info) {
+    return signal;
+  }
+  const priceOpen = signal.priceOpen === undefined
+    ? undefined
+    : roundPriceToTick(signal.priceOpen, info);
+  const entryPrice = priceOpen ?? currentPrice;
+  const cost = roundCostToLot(signal.cost || GLOBAL_CONFIG.CC_POSITION_ENTRY_COST, entryPrice, info);
+  const violation = getLotViolation(cost, entryPrice, info);
+  if (violation) {
+    REJECT_BY_SYMBOL_INFO_FN(self, "signal", violation);
+    return null;
+  }
+  return {
+    ...signal,
+    ...(priceOpen !== undefined && { priceOpen }),
+    priceTakeProfit: roundPriceToTick(signal.priceTakeProfit, info),
+    priceStopLoss: roundPriceToTick(signal.priceStopLoss, info),
+    cost,
+  };
+};
+
+/**
+ * Rounds the quantity of a partial close down to stepSize.
+ *
+ * The closed quantity is percentToClose of the remaining cost basis at the effective
+ * entry price; minNotional is checked at currentPrice. A full close (100%) is never
+ * rounded so no dust is left behind.
+ *
+ * @returns Adjusted percentToClose, or the violation reason when the close is not allowed
+ */
+const ROUND_PARTIAL_TO_LOT_FN = (
+  signal: ISignalRow,
+  info: ISymbolInfo,
+  percentToClose: number,
+  currentPrice: number
+): number | string => {
+  if (percentToClose >= 100) {
+    return percentToClose;
+  }
+  const { remainingCostBasis } = getTotalClosed(signal);
+  const effectivePriceOpen = GET_EFFECTIVE_PRICE_OPEN(signal);
+  const closeCost = roundCostToLot((percentToClose / 100) * remainingCostBasis, effectivePriceOpen, info);
+  const quantity = closeCost / effectivePriceOpen;
+  const violation = getLotViolation(quantity * currentPrice, currentPrice, info);
+  if (violation) {
+    return violation;
+  }
+  return (closeCost / remainingCostBasis) * 100;
+};
+
 const PARTIAL_PROFIT_FN = (
   self: ClientStrategy,
   signal: ISignalRow,
@@ -2907,6 +3796,9 @@ const ACTIVATE_SCHEDULED_SIGNAL_FN = async (
     _peak: { price: scheduled.priceOpen, timestamp: activationTime, pnlPercentage: 0, pnlCost: 0, pnlEntries: 0, priceClose: 0, priceOpen: 0 },
     _fall: { price: scheduled.priceOpen, timestamp: activationTime, pnlPercentage: 0, pnlCost: 0, pnlEntries: 0, priceClose: 0, priceOpen: 0 },
   };
+  await CAP_ENTRY_FILL_FN(self, activatedSignal, null);
+  // Scheduled entry rests on the book as a limit order: maker fill
+  await RESOLVE_FILL_COSTS_FN(self, activatedSignal, "maker");
   {
     const { pnlPercentage, pnlCost, pnlEntries, priceClose, priceOpen } = toProfitLossDto(activatedSignal, activatedSignal.priceOpen);
     activatedSignal._fall = { price: activatedSignal.priceOpen, timestamp: activationTime, pnlPercentage, pnlCost, pnlEntries, priceClose, priceOpen };
@@ -3559,6 +4451,7 @@ const CALL_RISK_ADD_SIGNAL_FN = trycatch(
           priceTakeProfit: signal.priceTakeProfit,
           minuteEstimatedTime: signal.minuteEstimatedTime,
           openTimestamp: timestamp,
+          cost: signal.cost,
         }
       );
     }, {
@@ -4120,6 +5013,16 @@ const OPEN_NEW_PENDING_SIGNAL_FN = async (
 ): Promise<IStrategyTickResultOpened | null> => {
   const currentTime = self.params.execution.context.when.getTime();
 
+  await CAP_ENTRY_FILL_FN(self, signal, null);
+  {
+    const openLatency = GET_LATENCY_MS_FN(self, "open", self.params.execution.context.backtest);
+    if (openLatency > 0) {
+      signal._openLandsAt = currentTime + openLatency;
+    }
+  }
+  // Market entry: taker fill, exit estimated as taker until the actual close
+  await RESOLVE_FILL_COSTS_FN(self, signal, "taker");
+
   // NOTE: the risk check (with slot reservation) already ran in GET_SIGNAL_FN for
   // this signal within the same tick. Re-checking here would run user risk
   // validations twice per open.
@@ -4267,8 +5170,8 @@ const CHECK_PENDING_SIGNAL_COMPLETION_FN = async (
     );
   }
 
-  // Check take profit (use trailing TP if set, otherwise original TP)
-  const effectiveTakeProfit = signal._trailingPriceTakeProfit ?? signal.priceTakeProfit;
+  // Check take profit and stop loss (trailing levels if set, out of reach for portfolio positions)
+  const { effectiveTakeProfit, effectiveStopLoss } = GET_CLOSE_LEVELS_FN(self, signal);
 
   if (signal.position === "long" && averagePrice >= effectiveTakeProfit) {
     return await CLOSE_PENDING_SIGNAL_FN(
@@ -4288,14 +5191,40 @@ const CHECK_PENDING_SIGNAL_COMPLETION_FN = async (
     );
   }
 
-  // Check stop loss (use trailing SL if set, otherwise original SL)
-  const effectiveStopLoss = signal._trailingPriceStopLoss ?? signal.priceStopLoss;
+  // Check liquidation (leveraged positions only, when liquidation comes before SL)
+  const liquidationPrice = GET_LIQUIDATION_BEFORE_STOP_FN(signal, effectiveStopLoss);
+
+  // Backtest tick: a stop gapped between the last two finished candles fills at the open (CC_BACKTEST_GAP_AWARE_STOPS)
+  const getStopFill = async (stopPrice: number) => {
+    if (!self.params.execution.context.backtest || !GLOBAL_CONFIG.CC_BACKTEST_GAP_AWARE_STOPS) {
+      return stopPrice;
+    }
+    const candles = await self.params.exchange.getCandles(signal.symbol, "1m", 2);
+    if (candles.length < 2) {
+      return stopPrice;
+    }
+    return GET_GAP_STOP_PRICE_FN(signal.position, stopPrice, candles[1], candles[0]);
+  };
+
+  if (liquidationPrice !== null) {
+    const liquidated = signal.position === "long"
+      ? averagePrice <= liquidationPrice
+      : averagePrice >= liquidationPrice;
+    if (liquidated) {
+      return await CLOSE_PENDING_SIGNAL_FN(
+        self,
+        signal,
+        await getStopFill(liquidationPrice), // КРИТИЧНО: биржа закрывает позицию по цене ликвидации
+        "liquidation"
+      );
+    }
+  }
 
   if (signal.position === "long" && averagePrice <= effectiveStopLoss) {
     return await CLOSE_PENDING_SIGNAL_FN(
       self,
       signal,
-      effectiveStopLoss, // КРИТИЧНО: используем точную цену SL (trailing or original)
+      await getStopFill(effectiveStopLoss), // КРИТИЧНО: используем точную цену SL (trailing or original)
       "stop_loss"
     );
   }
@@ -4304,7 +5233,7 @@ const CHECK_PENDING_SIGNAL_COMPLETION_FN = async (
     return await CLOSE_PENDING_SIGNAL_FN(
       self,
       signal,
-      effectiveStopLoss, // КРИТИЧНО: используем точную цену SL (trailing or original)
+      await getStopFill(effectiveStopLoss), // КРИТИЧНО: используем точную цену SL (trailing or original)
       "stop_loss"
     );
   }
@@ -4316,10 +5245,12 @@ const CLOSE_PENDING_SIGNAL_FN = async (
   self: ClientStrategy,
   signal: ISignalRow,
   currentPrice: number,
-  closeReason: "time_expired" | "take_profit" | "stop_loss"
+  closeReason: "time_expired" | "take_profit" | "stop_loss" | "liquidation"
 ): Promise<IStrategyTickResultClosed | null> => {
   const currentTime = self.params.execution.context.when.getTime();
 
+  await RESOLVE_FILL_COSTS_FN(self, signal, "taker", GET_EXIT_ORDER_TYPE_FN(closeReason));
+
   // Sync close: if external system rejects — skip close, retry on next tick
   const syncCloseAllowed = await CALL_ORDER_SYNC_CLOSE_FN(
     currentTime,
@@ -4442,6 +5373,8 @@ const CLOSE_PENDING_SIGNAL_AS_CLOSED_FN = async (
 ): Promise<IStrategyTickResultClosed> => {
   const currentTime = self.params.execution.context.when.getTime();
 
+  await RESOLVE_FILL_COSTS_FN(self, signal, "taker", GET_EXIT_ORDER_TYPE_FN("closed"));
+
   const publicSignal = TO_PUBLIC_SIGNAL("pending", signal, currentPrice);
 
   self.params.logger.info("ClientStrategy signal closed by pending-order ping (order no longer open on exchange)", {
@@ -4942,7 +5875,8 @@ const CANCEL_SCHEDULED_SIGNAL_IN_BACKTEST_FN = async (
 const ACTIVATE_SCHEDULED_SIGNAL_IN_BACKTEST_FN = async (
   self: ClientStrategy,
   scheduled: IScheduledSignalRow,
-  activationTimestamp: number
+  activationTimestamp: number,
+  activationCandle: ICandleData
 ): Promise<boolean> => {
   // Check if strategy was stopped
   if (self._isStopped) {
@@ -5065,6 +5999,9 @@ const ACTIVATE_SCHEDULED_SIGNAL_IN_BACKTEST_FN = async (
     _peak: { price: scheduled.priceOpen, timestamp: activationTime, pnlPercentage: 0, pnlCost: 0, pnlEntries: 0, priceClose: 0, priceOpen: 0 },
     _fall: { price: scheduled.priceOpen, timestamp: activationTime, pnlPercentage: 0, pnlCost: 0, pnlEntries: 0, priceClose: 0, priceOpen: 0 },
   };
+  await CAP_ENTRY_FILL_FN(self, activatedSignal, activationCandle);
+  // Scheduled entry rests on the book as a limit order: maker fill
+  await RESOLVE_FILL_COSTS_FN(self, activatedSignal, "maker");
   {
     const { pnlPercentage, pnlCost, pnlEntries, priceClose, priceOpen } = toProfitLossDto(activatedSignal, activatedSignal.priceOpen);
     activatedSignal._fall = { price: activatedSignal.priceOpen, timestamp: activationTime, pnlPercentage, pnlCost, pnlEntries, priceClose, priceOpen };
@@ -5168,9 +6105,11 @@ const CLOSE_PENDING_SIGNAL_IN_BACKTEST_FN = async (
   self: ClientStrategy,
   signal: ISignalRow,
   averagePrice: number,
-  closeReason: "time_expired" | "take_profit" | "stop_loss",
+  closeReason: "time_expired" | "take_profit" | "stop_loss" | "liquidation",
   closeTimestamp: number
 ): Promise<IStrategyTickResultClosed | null> => {
+  await RESOLVE_FILL_COSTS_FN(self, signal, "taker", GET_EXIT_ORDER_TYPE_FN(closeReason));
+
   // Sync close: if external system rejects — skip close, retry on next candle
   const syncCloseAllowed = await CALL_ORDER_SYNC_CLOSE_FN(
     closeTimestamp,
@@ -5298,6 +6237,8 @@ const CLOSE_USER_PENDING_SIGNAL_IN_BACKTEST_FN = async (
   averagePrice: number,
   closeTimestamp: number
 ): Promise<IStrategyTickResultClosed | null> => {
+  await RESOLVE_FILL_COSTS_FN(self, closedSignal, "taker", GET_EXIT_ORDER_TYPE_FN("closed"));
+
   const syncCloseAllowed = await CALL_ORDER_SYNC_CLOSE_FN(
     closeTimestamp,
     averagePrice,
@@ -5442,6 +6383,8 @@ const CLOSE_PENDING_SIGNAL_AS_FILL_FN = async (
     ? (filledSignal._trailingPriceTakeProfit ?? filledSignal.priceTakeProfit)
     : (filledSignal._trailingPriceStopLoss ?? filledSignal.priceStopLoss);
 
+  await RESOLVE_FILL_COSTS_FN(self, filledSignal, "taker", GET_EXIT_ORDER_TYPE_FN(closeReason));
+
   const publicSignal = TO_PUBLIC_SIGNAL("pending", filledSignal, closePrice);
 
   self.params.logger.info(`ClientStrategy signal ${closeReason} by broker-confirmed fill (createTakeProfit/createStopLoss)`, {
@@ -5539,6 +6482,7 @@ const CLOSE_PENDING_SIGNAL_AS_FILL_FN = async (
 
 type ScheduledProcessResult =
   | { outcome: "activated"; activationIndex: number }
+  | { outcome: "closed"; result: IStrategyTickResultClosed }
   | { outcome: "cancelled"; result: IStrategyTickResultCancelled }
   | { outcome: "pending" };
 
@@ -5756,6 +6700,9 @@ const PROCESS_SCHEDULED_SIGNAL_CANDLES_FN = async (
         _peak: { price: activatedSignal.priceOpen, timestamp: candle.timestamp, pnlPercentage: 0, pnlCost: 0, priceClose: 0, priceOpen: 0, pnlEntries: 0 },
         _fall: { price: activatedSignal.priceOpen, timestamp: candle.timestamp, pnlPercentage: 0, pnlCost: 0, priceClose: 0, priceOpen: 0, pnlEntries: 0 },
       };
+      await CAP_ENTRY_FILL_FN(self, pendingSignal, candle);
+      // Scheduled entry rests on the book as a limit order: maker fill
+      await RESOLVE_FILL_COSTS_FN(self, pendingSignal, "maker");
       {
         const { pnlPercentage, pnlCost, pnlEntries, priceClose, priceOpen } = toProfitLossDto(pendingSignal, pendingSignal.priceOpen);
         pendingSignal._fall = { price: pendingSignal.priceOpen, timestamp: candle.timestamp, pnlPercentage, pnlCost, priceClose, priceOpen, pnlEntries };
@@ -5922,42 +6869,16 @@ const PROCESS_SCHEDULED_SIGNAL_CANDLES_FN = async (
       return { outcome: "cancelled", result };
     }
 
-    let shouldActivate = false;
-    let shouldCancel = false;
+    // КРИТИЧНО для LONG: активация low <= priceOpen, отмена low <= priceStopLoss
+    // КРИТИЧНО для SHORT: активация high >= priceOpen, отмена high >= priceStopLoss
+    //
+    // EDGE CASE: priceStopLoss и priceOpen задеты на ОДНОЙ свече — исход решает
+    // fill model (см. GET_SCHEDULED_HIT_FN): "vwap" отменяет сигнал (legacy
+    // приоритет отмены), "wick"/"pessimistic" активируют и сразу стопят позицию
+    const scheduledHit = GET_SCHEDULED_HIT_FN(GET_FILL_MODEL_FN(self), scheduled, candle);
 
-    if (scheduled.position === "long") {
-      // КРИТИЧНО для LONG:
-      // - priceOpen > priceStopLoss (по валидации)
-      // - Активация: low <= priceOpen (цена упала до входа)
-      // - Отмена: low <= priceStopLoss (цена пробила SL)
-      //
-      // EDGE CASE: если low <= priceStopLoss И low <= priceOpen на ОДНОЙ свече:
-      // => Отмена имеет ПРИОРИТЕТ! (SL пробит ДО или ВМЕСТЕ с активацией)
-      // Сигнал НЕ открывается, сразу отменяется
-
-      if (candle.low <= scheduled.priceStopLoss) {
-        shouldCancel = true;
-      } else if (candle.low <= scheduled.priceOpen) {
-        shouldActivate = true;
-      }
-    }
-
-    if (scheduled.position === "short") {
-      // КРИТИЧНО для SHORT:
-      // - priceOpen < priceStopLoss (по валидации)
-      // - Активация: high >= priceOpen (цена выросла до входа)
-      // - Отмена: high >= priceStopLoss (цена пробила SL)
-      //
-      // EDGE CASE: если high >= priceStopLoss И high >= priceOpen на ОДНОЙ свече:
-      // => Отмена имеет ПРИОРИТЕТ! (SL пробит ДО или ВМЕСТЕ с активацией)
-      // Сигнал НЕ открывается, сразу отменяется
-
-      if (candle.high >= scheduled.priceStopLoss) {
-        shouldCancel = true;
-      } else if (candle.high >= scheduled.priceOpen) {
-        shouldActivate = true;
-      }
-    }
+    const shouldCancel = scheduledHit === "cancel";
+    const shouldActivate = scheduledHit === "activate" || scheduledHit === "activate_stop";
 
     if (shouldCancel) {
       const result = await CANCEL_SCHEDULED_SIGNAL_IN_BACKTEST_FN(
@@ -5971,7 +6892,7 @@ const PROCESS_SCHEDULED_SIGNAL_CANDLES_FN = async (
     }
 
     if (shouldActivate) {
-      const activated = await ACTIVATE_SCHEDULED_SIGNAL_IN_BACKTEST_FN(self, scheduled, candle.timestamp);
+      const activated = await ACTIVATE_SCHEDULED_SIGNAL_IN_BACKTEST_FN(self, scheduled, candle.timestamp, candle);
       if (!activated) {
         // Activation was rejected (stopped/risk/sync) — ACTIVATE_... already
         // released the reservation and emitted the cancel commit + schedule
@@ -6000,6 +6921,26 @@ const PROCESS_SCHEDULED_SIGNAL_CANDLES_FN = async (
         );
         return { outcome: "cancelled", result };
       }
+      if (scheduledHit === "activate_stop" && self._pendingSignal) {
+        // Свеча активации уже пробила StopLoss — закрываем позицию на ней же.
+        // Если sync отклонил закрытие, позиция мониторится штатно со следующей свечи
+        const pendingSignal = self._pendingSignal;
+        const result = await CLOSE_PENDING_SIGNAL_IN_BACKTEST_FN(
+          self,
+          pendingSignal,
+          GET_GAP_STOP_PRICE_FN(
+            pendingSignal.position,
+            pendingSignal._trailingPriceStopLoss ?? pendingSignal.priceStopLoss,
+            candle,
+            candles[i - 1]
+          ),
+          "stop_loss",
+          candle.timestamp
+        );
+        if (result) {
+          return { outcome: "closed", result };
+        }
+      }
       return { outcome: "activated", activationIndex: i };
     }
 
@@ -6049,6 +6990,29 @@ const PROCESS_PENDING_SIGNAL_CANDLES_FN = async (
   const candlesCount = GLOBAL_CONFIG.CC_AVG_PRICE_CANDLES_COUNT;
   const bufferCandlesCount = candlesCount - 1;
 
+  // Funding за весь диапазон свечей запрашивается одним вызовом: контекст
+  // исполнения сдвигается на последнюю свечу, иначе ClientExchange обрежет
+  // диапазон по моменту вызова backtest(). Начисление идёт посвечно ниже.
+  const fundings = await ExecutionContextService.runInContext(
+    async () =>
+      await self.params.exchange.getFundingRates(
+        signal.symbol,
+        new Date(signal._fundingAccruedAt ?? signal.pendingAt),
+        new Date(candles[candles.length - 1].timestamp)
+      ),
+    {
+      symbol: self.params.execution.context.symbol,
+      when: new Date(candles[candles.length - 1].timestamp),
+      backtest: self.params.execution.context.backtest,
+    }
+  );
+
+  // Fill model "tick": сделки за весь диапазон запрашиваются одним вызовом и
+  // раскладываются по минутам. Минуты без сделок проверяются по свечам ("vwap")
+  const tickTrades = GET_FILL_MODEL_FN(self) === "tick"
+    ? await FETCH_TICK_TRADES_FN(self, candles.slice(bufferCandlesCount))
+    : null;
+
   // КРИТИЧНО: проверяем TP/SL на КАЖДОЙ свече начиная после буфера
   // Первые bufferCandlesCount свечей - это буфер для VWAP
   for (let i = 0; i < candles.length; i++) {
@@ -6064,7 +7028,22 @@ const PROCESS_PENDING_SIGNAL_CANDLES_FN = async (
     // Берем последние candlesCount свечей для VWAP (включая буфер)
     const startIndex = Math.max(0, i - (candlesCount - 1));
     const recentCandles = candles.slice(startIndex, i + 1);
-    const averagePrice = GET_AVG_PRICE_FN(recentCandles);
+    // Fill model "tick": цена мониторинга (breakeven, trailing, partial) — последняя сделка минуты
+    const candleTrades = tickTrades?.get(currentCandleTimestamp);
+    const averagePrice = candleTrades
+      ? candleTrades[candleTrades.length - 1].price
+      : GET_AVG_PRICE_FN(recentCandles);
+
+    // Вход с задержкой (IStrategySchema.latency): пока ордер не дошёл до биржи,
+    // позиции нет — свеча не проверяется на TP/SL и funding не начисляется
+    if (!LAND_DELAYED_OPEN_FN(signal, currentCandleTimestamp, averagePrice)) {
+      continue;
+    }
+
+    APPLY_FUNDING_FN(signal, fundings, averagePrice, currentCandleTimestamp);
+
+    FILL_UNFILLED_ENTRY_FN(signal, currentCandle, averagePrice);
+    await PROCESS_LATENCY_QUEUE_FN(self, currentCandleTimestamp, averagePrice);
 
     // Если timestamp свечи вышел за frameEndTime — закрываем pending сигнал по time_expired
     if (currentCandleTimestamp > frameEndTime) {
@@ -6113,7 +7092,7 @@ const PROCESS_PENDING_SIGNAL_CANDLES_FN = async (
     }
 
     let shouldClose = false;
-    let closeReason: "time_expired" | "take_profit" | "stop_loss" | undefined;
+    let closeReason: "time_expired" | "take_profit" | "stop_loss" | "liquidation" | undefined;
 
     // Check time expiration FIRST (КРИТИЧНО!)
     const signalTime = signal.pendingAt;
@@ -6126,30 +7105,37 @@ const PROCESS_PENDING_SIGNAL_CANDLES_FN = async (
     }
 
     // Check TP/SL only if not expired
-    // КРИТИЧНО: используем averagePrice (VWAP) для проверки достижения TP/SL (как в live mode)
+    // КРИТИЧНО: способ проверки достижения TP/SL задаёт fill model (см. GET_PENDING_HIT_FN):
+    // "vwap" сравнивает averagePrice (как в live mode), "wick"/"pessimistic" — high/low свечи
     // КРИТИЧНО: используем trailing SL и TP если установлены
-    const effectiveStopLoss = signal._trailingPriceStopLoss ?? signal.priceStopLoss;
-    const effectiveTakeProfit = signal._trailingPriceTakeProfit ?? signal.priceTakeProfit;
-
-    if (!shouldClose && signal.position === "long") {
-      // Для LONG: TP срабатывает если VWAP >= TP, SL если VWAP <= SL
-      if (averagePrice >= effectiveTakeProfit) {
-        shouldClose = true;
-        closeReason = "take_profit";
-      } else if (averagePrice <= effectiveStopLoss) {
-        shouldClose = true;
-        closeReason = "stop_loss";
-      }
-    }
-
-    if (!shouldClose && signal.position === "short") {
-      // Для SHORT: TP срабатывает если VWAP <= TP, SL если VWAP >= SL
-      if (averagePrice <= effectiveTakeProfit) {
-        shouldClose = true;
-        closeReason = "take_profit";
-      } else if (averagePrice >= effectiveStopLoss) {
+    const { effectiveTakeProfit, effectiveStopLoss } = GET_CLOSE_LEVELS_FN(self, signal);
+
+    // КРИТИЧНО: цена ликвидации между входом и SL подменяет SL — позиция
+    // ликвидируется раньше, чем цена дойдёт до стопа
+    const liquidationPrice = GET_LIQUIDATION_BEFORE_STOP_FN(signal, effectiveStopLoss);
+
+    if (!shouldClose) {
+      // Fill model "tick": побеждает уровень, который первой пересекла сделка
+      const pendingHit = candleTrades
+        ? GET_TICK_HIT_FN(
+            signal.position,
+            candleTrades,
+            effectiveTakeProfit,
+            liquidationPrice ?? effectiveStopLoss
+          )
+        : GET_PENDING_HIT_FN(
+            tickTrades ? "vwap" : GET_FILL_MODEL_FN(self),
+            signal.position,
+            currentCandle,
+            averagePrice,
+            effectiveTakeProfit,
+            liquidationPrice ?? effectiveStopLoss
+          );
+      if (pendingHit) {
         shouldClose = true;
-        closeReason = "stop_loss";
+        closeReason = pendingHit === "stop_loss" && liquidationPrice !== null
+          ? "liquidation"
+          : pendingHit;
       }
     }
 
@@ -6159,7 +7145,11 @@ const PROCESS_PENDING_SIGNAL_CANDLES_FN = async (
       if (closeReason === "take_profit") {
         closePrice = effectiveTakeProfit; // используем trailing TP если установлен
       } else if (closeReason === "stop_loss") {
-        closePrice = effectiveStopLoss;
+        // Гэп через стоп (дыра в данных или открытие за стопом после закрытия до него)
+        // исполняет его не лучше открытия (CC_BACKTEST_GAP_AWARE_STOPS)
+        closePrice = GET_GAP_STOP_PRICE_FN(signal.position, effectiveStopLoss, currentCandle, candles[i - 1]);
+      } else if (closeReason === "liquidation") {
+        closePrice = GET_GAP_STOP_PRICE_FN(signal.position, liquidationPrice!, currentCandle, candles[i - 1]);
       } else {
         closePrice = averagePrice; // time_expired uses VWAP
       }
@@ -6478,6 +7468,12 @@ export class ClientStrategy implements IStrategy {
    */
   _isPaused = false;
 
+  /**
+   * trippedAt of the circuit breaker trip already warned about, null while the
+   * exchange account is not tripped. See IS_CIRCUIT_TRIPPED_FN.
+   */
+  _circuitTrippedAt: number | null = null;
+
   _pendingSignal: ISignalRow | null = null;
   _lastSignalTimestamp: number | null = null;
   _lastPendingId: string | null = null;
@@ -6565,6 +7561,12 @@ export class ClientStrategy implements IStrategy {
   /** Queue for commit events to be processed in tick()/backtest() with proper timestamp */
   _commitQueue: ICommitRow[] = [];
 
+  /** Backtest actions delayed by the latency model, applied in backtest() on the candle they land */
+  _latencyQueue: LatencyTask[] = [];
+
+  /** Set while PROCESS_LATENCY_QUEUE_FN re-invokes landed actions so they are not delayed twice */
+  _isLatencyLanding = false;
+
   constructor(readonly params: IStrategyParams) {}
 
   /**
@@ -6634,6 +7636,11 @@ export class ClientStrategy implements IStrategy {
     this._retryCloseCount = 0;
     this._orderCheckAttempt = 0;
 
+    // Отложенные latency-действия относятся к конкретной позиции
+    if (pendingSignal?.id !== this._pendingSignal?.id) {
+      this._latencyQueue = [];
+    }
+
     // ЗАЩИТА ИНВАРИАНТА: При установке нового pending сигнала очищаем scheduled
     // Не может быть одновременно pending И scheduled (взаимоисключающие состояния)
     // При null: scheduled может существовать (новый сигнал после закрытия позиции)
@@ -7093,6 +8100,26 @@ export class ClientStrategy implements IStrategy {
     return pnl.pnlCost;
   }
 
+  /**
+   * Returns the funding accrued on the current perpetual position in dollars.
+   *
+   * Settlements from IExchangeSchema.getFundingRates are accrued on every tick/candle
+   * while the position is pending. Positive when funding was paid, negative when received.
+   *
+   * Returns null if no pending signal exists.
+   * Returns 0 if no funding was accrued (e.g. exchange schema has no getFundingRates).
+   *
+   * @param symbol - Trading pair symbol
+   * @returns Promise resolving to accrued funding in dollars or null
+   */
+  public async getPositionFundingCost(symbol: string): Promise<number | null> {
+    this.params.logger.debug("ClientStrategy getPositionFundingCost", { symbol });
+    if (!this._pendingSignal) {
+      return null;
+    }
+    return this._pendingSignal._fundingCost ?? 0;
+  }
+
   /**
    * Returns the list of DCA entry prices for the current pending signal.
    *
@@ -7235,6 +8262,25 @@ export class ClientStrategy implements IStrategy {
     return this._pendingSignal._peak.price;
   }
 
+  /**
+   * Returns the liquidation price of the current leveraged position.
+   *
+   * Recomputed from leverage, marginMode and the remaining cost basis, so it
+   * follows DCA entries and partial closes.
+   *
+   * Returns null if no pending signal exists or the position is unleveraged (leverage ≤ 1).
+   *
+   * @param symbol - Trading pair symbol
+   * @returns Promise resolving to liquidation price or null
+   */
+  public async getPositionLiquidationPrice(symbol: string): Promise<number | null> {
+    this.params.logger.debug("ClientStrategy getPositionLiquidationPrice", { symbol });
+    if (!this._pendingSignal) {
+      return null;
+    }
+    return GET_LIQUIDATION_PRICE_FN(this._pendingSignal);
+  }
+
   /**
    * Returns the timestamp when the best profit price was recorded during this position's life.
    *
@@ -7750,6 +8796,8 @@ export class ClientStrategy implements IStrategy {
     if (this._closedSignal) {
       const closedSignal = this._closedSignal;
 
+      await RESOLVE_FILL_COSTS_FN(this, closedSignal, "taker", GET_EXIT_ORDER_TYPE_FN("closed"));
+
       // Sync close: if external system rejects — keep _closedSignal, retry on next tick
       const syncCloseAllowed = await CALL_ORDER_SYNC_CLOSE_FN(
         currentTime,
@@ -8058,6 +9106,9 @@ export class ClientStrategy implements IStrategy {
         _peak: { price: activatedSignal.priceOpen, timestamp: currentTime, pnlPercentage: 0, pnlCost: 0, priceClose: 0, pnlEntries: 0, priceOpen: 0 },
         _fall: { price: activatedSignal.priceOpen, timestamp: currentTime, pnlPercentage: 0, pnlCost: 0, priceClose: 0, pnlEntries: 0, priceOpen: 0 },
       };
+      await CAP_ENTRY_FILL_FN(this, pendingSignal, null);
+      // Scheduled entry rests on the book as a limit order: maker fill
+      await RESOLVE_FILL_COSTS_FN(this, pendingSignal, "maker");
       {
         const { pnlPercentage, pnlCost, pnlEntries, priceClose, priceOpen } = toProfitLossDto(pendingSignal, pendingSignal.priceOpen);
         pendingSignal._fall = { price: pendingSignal.priceOpen, timestamp: currentTime, pnlPercentage, pnlCost, priceClose, pnlEntries, priceOpen };
@@ -8475,6 +9526,8 @@ export class ClientStrategy implements IStrategy {
       }
     }
 
+    await ACCRUE_FUNDING_FN(this, this._pendingSignal, currentTime, averagePrice);
+
     const closedResult = await CHECK_PENDING_SIGNAL_COMPLETION_FN(
       this,
       this._pendingSignal,
@@ -8638,6 +9691,8 @@ export class ClientStrategy implements IStrategy {
 
       const closeTimestamp = this.params.execution.context.when.getTime();
 
+      await RESOLVE_FILL_COSTS_FN(this, closedSignal, "taker", GET_EXIT_ORDER_TYPE_FN("closed"));
+
       // Sync close: if external system rejects — keep the close pending and re-attempt
       // it inside the candle loop below (PROCESS_PENDING_SIGNAL_CANDLES_FN handles
       // _closedSignal per candle). Mirrors live tick, which keeps _closedSignal and
@@ -8814,6 +9869,10 @@ export class ClientStrategy implements IStrategy {
         return scheduledResult.result;
       }
 
+      if (scheduledResult.outcome === "closed") {
+        return scheduledResult.result;
+      }
+
       if (scheduledResult.outcome === "activated") {
         const { activationIndex } = scheduledResult;
         // КРИТИЧНО: activationIndex - индекс свечи активации в массиве candles
@@ -9222,6 +10281,18 @@ export class ClientStrategy implements IStrategy {
       closeId,
     });
 
+    // Latency applies to closes issued by strategy code (inside execution context);
+    // the engine's end-of-data close in BacktestLogicPrivateService runs outside it
+    if (
+      ExecutionContextService.hasContext() &&
+      DEFER_BY_LATENCY_FN(this, "close", backtest, this.params.execution.context.when.getTime(), async () => {
+        await this.closePending(symbol, backtest, payload);
+        return true;
+      })
+    ) {
+      return;
+    }
+
     // NOTE: No _isStopped check - closing position must work for graceful shutdown
 
     // Save closed signal for next tick/backtest to emit closed event with correct timestamp
@@ -9520,6 +10591,9 @@ export class ClientStrategy implements IStrategy {
     const newTotalClosedDollar = (totalClosedPercent / 100) * totalInvested + newPartialDollar;
     if (newTotalClosedDollar > totalInvested * PARTIAL_CAP_TOLERANCE_FACTOR) return false;
 
+    const symbolInfo = await GET_SYMBOL_INFO_FN(this);
+    if (symbolInfo && typeof ROUND_PARTIAL_TO_LOT_FN(this._pendingSignal, symbolInfo, percentToClose, currentPrice) === "string") return false;
+
     return true;
   }
 
@@ -9581,6 +10655,10 @@ export class ClientStrategy implements IStrategy {
       hasPendingSignal: this._pendingSignal !== null,
     });
 
+    if (DEFER_BY_LATENCY_FN(this, "partial-profit", backtest, timestamp, (price, at) => this.partialProfit(symbol, percentToClose, price, backtest, at))) {
+      return true;
+    }
+
     // Validation: must have pending signal
     if (!this._pendingSignal) {
       throw new Error(
@@ -9659,6 +10737,17 @@ export class ClientStrategy implements IStrategy {
       return false;
     }
 
+    // Round the closed quantity to symbol trading rules (IExchangeSchema.getSymbolInfo)
+    const symbolInfo = await GET_SYMBOL_INFO_FN(this);
+    if (symbolInfo) {
+      const lotPercent = ROUND_PARTIAL_TO_LOT_FN(this._pendingSignal, symbolInfo, percentToClose, currentPrice);
+      if (typeof lotPercent === "string") {
+        REJECT_BY_SYMBOL_INFO_FN(this, "partialProfit", lotPercent);
+        return false;
+      }
+      percentToClose = lotPercent;
+    }
+
     // Execute partial close logic
     const wasExecuted = PARTIAL_PROFIT_FN(this, this._pendingSignal, percentToClose, currentPrice, timestamp);
 
@@ -9784,6 +10873,9 @@ export class ClientStrategy implements IStrategy {
     const newTotalClosedDollar = (totalClosedPercent / 100) * totalInvested + newPartialDollar;
     if (newTotalClosedDollar > totalInvested * PARTIAL_CAP_TOLERANCE_FACTOR) return false;
 
+    const symbolInfo = await GET_SYMBOL_INFO_FN(this);
+    if (symbolInfo && typeof ROUND_PARTIAL_TO_LOT_FN(this._pendingSignal, symbolInfo, percentToClose, currentPrice) === "string") return false;
+
     return true;
   }
 
@@ -9846,6 +10938,10 @@ export class ClientStrategy implements IStrategy {
       hasPendingSignal: this._pendingSignal !== null,
     });
 
+    if (DEFER_BY_LATENCY_FN(this, "partial-loss", backtest, timestamp, (price, at) => this.partialLoss(symbol, percentToClose, price, backtest, at))) {
+      return true;
+    }
+
     // Validation: must have pending signal
     if (!this._pendingSignal) {
       throw new Error(
@@ -9924,6 +11020,17 @@ export class ClientStrategy implements IStrategy {
       return false;
     }
 
+    // Round the closed quantity to symbol trading rules (IExchangeSchema.getSymbolInfo)
+    const symbolInfo = await GET_SYMBOL_INFO_FN(this);
+    if (symbolInfo) {
+      const lotPercent = ROUND_PARTIAL_TO_LOT_FN(this._pendingSignal, symbolInfo, percentToClose, currentPrice);
+      if (typeof lotPercent === "string") {
+        REJECT_BY_SYMBOL_INFO_FN(this, "partialLoss", lotPercent);
+        return false;
+      }
+      percentToClose = lotPercent;
+    }
+
     // Execute partial close logic
     const wasExecuted = PARTIAL_LOSS_FN(this, this._pendingSignal, percentToClose, currentPrice, timestamp);
 
@@ -10142,6 +11249,10 @@ export class ClientStrategy implements IStrategy {
       hasPendingSignal: this._pendingSignal !== null,
     });
 
+    if (DEFER_BY_LATENCY_FN(this, "breakeven", backtest, timestamp, (price, at) => this.breakeven(symbol, price, backtest, at))) {
+      return true;
+    }
+
     // Validation: must have pending signal
     if (!this._pendingSignal) {
       throw new Error(
@@ -10383,6 +11494,10 @@ export class ClientStrategy implements IStrategy {
       hasPendingSignal: this._pendingSignal !== null,
     });
 
+    if (DEFER_BY_LATENCY_FN(this, "trailing-stop", backtest, timestamp, (price, at) => this.trailingStop(symbol, percentShift, price, backtest, at))) {
+      return true;
+    }
+
     // Validation: must have pending signal
     if (!this._pendingSignal) {
       throw new Error(
@@ -10668,6 +11783,10 @@ export class ClientStrategy implements IStrategy {
       hasPendingSignal: this._pendingSignal !== null,
     });
 
+    if (DEFER_BY_LATENCY_FN(this, "trailing-take", backtest, timestamp, (price, at) => this.trailingTake(symbol, percentShift, price, backtest, at))) {
+      return true;
+    }
+
     // Validation: must have pending signal
     if (!this._pendingSignal) {
       throw new Error(
@@ -10827,15 +11946,18 @@ export class ClientStrategy implements IStrategy {
    *
    * @param symbol - Trading pair symbol
    * @param currentPrice - New entry price to add
+   * @param cost - Cost of the new entry, checked against the lot limits
    * @returns boolean - true if averageBuy would execute, false otherwise
    */
   public async validateAverageBuy(
     symbol: string,
-    currentPrice: number
+    currentPrice: number,
+    cost: number = GLOBAL_CONFIG.CC_POSITION_ENTRY_COST
   ): Promise<boolean> {
     this.params.logger.debug("ClientStrategy validateAverageBuy", {
       symbol,
       currentPrice,
+      cost,
       hasPendingSignal: this._pendingSignal !== null,
     });
 
@@ -10855,6 +11977,12 @@ export class ClientStrategy implements IStrategy {
       if (!GLOBAL_CONFIG.CC_ENABLE_DCA_EVERYWHERE && currentPrice <= maxEntryPrice) return false;
     }
 
+    const symbolInfo = await GET_SYMBOL_INFO_FN(this);
+    if (symbolInfo) {
+      const lotCost = roundCostToLot(cost, currentPrice, symbolInfo);
+      if (getLotViolation(lotCost, currentPrice, symbolInfo)) return false;
+    }
+
     return true;
   }
 
@@ -10889,6 +12017,10 @@ export class ClientStrategy implements IStrategy {
       hasPendingSignal: this._pendingSignal !== null,
     });
 
+    if (DEFER_BY_LATENCY_FN(this, "average-buy", backtest, timestamp, (price, at) => this.averageBuy(symbol, price, backtest, at, cost))) {
+      return true;
+    }
+
     // Validation: must have pending signal
     if (!this._pendingSignal) {
       throw new Error(
@@ -10903,6 +12035,17 @@ export class ClientStrategy implements IStrategy {
       );
     }
 
+    // Round the entry quantity to symbol trading rules (IExchangeSchema.getSymbolInfo)
+    const symbolInfo = await GET_SYMBOL_INFO_FN(this);
+    if (symbolInfo) {
+      cost = roundCostToLot(cost, currentPrice, symbolInfo);
+      const violation = getLotViolation(cost, currentPrice, symbolInfo);
+      if (violation) {
+        REJECT_BY_SYMBOL_INFO_FN(this, "averageBuy", violation);
+        return false;
+      }
+    }
+
     // Execute averaging logic
     const result = AVERAGE_BUY_FN(this, this._pendingSignal, currentPrice, timestamp, cost);
 
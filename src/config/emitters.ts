@@ -26,6 +26,7 @@ import OrderStopContract from "../contract/OrderStop.contract";
 import { HighestProfitContract } from "../contract/HighestProfit.contract";
 import { MaxDrawdownContract } from "../contract/MaxDrawdown.contract";
 import { PauseContract } from "../contract/Pause.contract";
+import { CircuitTripContract } from "../contract/CircuitTrip.contract";
 import { SignalInfoContract } from "../contract/SignalInfo.contract";
 import { BeforeStartContract } from "../contract/BeforeStart.contract";
 import { AfterEndContract } from "../contract/AfterEnd.contract";
@@ -298,6 +299,13 @@ export const maxDrawdownSubject = new Subject<MaxDrawdownContract>();
  */
 export const pauseSubject = new Subject<PauseContract>();
 
+/**
+ * Circuit breaker trip emitter (live only).
+ * Emits once per trip after every live strategy of the exchange account was paused
+ * (and flattened when configured). Trading stays paused until CircuitBreaker.reset().
+ */
+export const circuitTripSubject = new Subject<CircuitTripContract>();
+
 /**
  * Signal info emitter for user-defined informational notes on open positions.
  * Emits when a strategy calls commitSignalInfo() to broadcast a custom annotation.
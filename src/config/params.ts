@@ -1,3 +1,5 @@
+import { StrategyFillModel } from "../interfaces/Strategy.interface";
+
 export const GLOBAL_CONFIG = {
   /**
    * Time to wait for scheduled signal to activate (in minutes)
@@ -9,6 +11,59 @@ export const GLOBAL_CONFIG = {
    * Default: 5 candles (last 5 minutes when using 1m interval)
    */
   CC_AVG_PRICE_CANDLES_COUNT: 5,
+  /**
+   * Intrabar fill model used by backtest to decide whether a candle reached
+   * TakeProfit / StopLoss (including trailing levels) and scheduled priceOpen.
+   *
+   * - "vwap": TP/SL is hit when the VWAP of the last CC_AVG_PRICE_CANDLES_COUNT
+   *   candles crosses the level (same as live tick). Scheduled activation uses the
+   *   candle range with cancel priority when priceOpen and StopLoss are touched together.
+   * - "wick": TP/SL is hit when the candle high/low touches the level. When both are
+   *   touched in one candle the level nearest to the candle open is assumed first.
+   * - "pessimistic": like "wick", but StopLoss always wins when both are touched in one
+   *   candle, and a scheduled entry that touches priceOpen and StopLoss in one candle
+   *   is activated and stopped out on that candle instead of being cancelled.
+   * - "tick": TP/SL, trailing and breakeven are driven by the aggregated trade stream
+   *   (IExchangeSchema.getAggregatedTrades): the first trade crossing a level wins.
+   *   Minutes without trades fall back to "vwap". Scheduled activation follows "wick".
+   *   Trades are cached on disk by PersistTradeAdapter.
+   *
+   * Can be overridden per strategy with IStrategySchema.fillModel.
+   * Default: "vwap" (legacy behavior)
+   */
+  CC_BACKTEST_FILL_MODEL: "vwap" as StrategyFillModel,
+  /**
+   * Maximum share (percentage) of a 1m candle's quote volume (volume × close) that a
+   * position entry may take in backtest. The initial entry fills up to this cap on the
+   * entry candle; the rest fills over the following candles at their VWAP, each capped
+   * the same way, until CC_BACKTEST_FILL_TIMEOUT_MINUTES pass and it is cancelled.
+   * Live fills are real and never capped.
+   * Default: 0 (disabled, entries fill in full)
+   */
+  CC_BACKTEST_MAX_VOLUME_PERCENT: 0,
+  /**
+   * Minutes after activation during which the unfilled rest of a liquidity-capped entry
+   * keeps filling (see CC_BACKTEST_MAX_VOLUME_PERCENT). The remainder is cancelled afterwards.
+   * Default: 60 minutes
+   */
+  CC_BACKTEST_FILL_TIMEOUT_MINUTES: 60,
+  /**
+   * Gap-aware StopLoss and liquidation fills in backtest.
+   * A stop is gapped when a hole longer than CC_MAX_CANDLE_GAP_MINUTES precedes the
+   * candle that hits it, or when the previous candle closed on the safe side of the
+   * stop and the candle opened past it. A gapped stop closes at the candle open, so
+   * the stop outcome is never better than the market allowed. Stops reached without
+   * a gap (including late VWAP crossings) still fill at their level.
+   * Default: false (stops fill at their level, legacy behavior)
+   */
+  CC_BACKTEST_GAP_AWARE_STOPS: false,
+  /**
+   * Longest tolerated hole in backtest 1m candle data, in minutes.
+   * Longer holes (data outages, listing halts) raise a validation notification
+   * via listenValidation. 0 disables the check.
+   * Default: 5 minutes
+   */
+  CC_MAX_CANDLE_GAP_MINUTES: 5,
   /**
    * Slippage percentage applied to entry and exit prices.
    * Simulates market impact and order book depth.
@@ -22,6 +77,30 @@ export const GLOBAL_CONFIG = {
    * Default: 0.1% per transaction (total 0.2%)
    */
   CC_PERCENT_FEE: 0.1,
+  /**
+   * Charge take-profit exits as maker fills when resolving fees via IExchangeSchema.getFee.
+   * Enable when take-profit is placed as a resting limit order on the exchange.
+   * Stop-loss, time-expired and manual closes are always charged as taker.
+   * Default: false (take-profit charged as taker)
+   */
+  CC_TAKE_PROFIT_MAKER_FEE: false,
+  /**
+   * Maintenance margin rate for leveraged positions (percentage of notional).
+   * A position is liquidated once its collateral drops to this share of notional.
+   * Only applies to signals with leverage > 1.
+   * Default: 0.5%
+   */
+  CC_MAINTENANCE_MARGIN_PERCENT: 0.5,
+  /**
+   * Extra wallet balance in USD backing each cross-margin position.
+   * Added to the position margin when computing the liquidation price of signals
+   * with marginMode "cross". Isolated positions use their own margin only.
+   *
+   * Applies to every cross position separately: positions do not share it, and the
+   * portfolio ledger equity is not used. Set it to the balance one position may lose.
+   * Default: 0 (cross behaves like isolated)
+   */
+  CC_CROSS_MARGIN_WALLET_BALANCE: 0,
   /**
    * Minimum TakeProfit distance from priceOpen (percentage)
    * Must be greater than (slippage + fees) to ensure profitable trades
@@ -119,6 +198,22 @@ export const GLOBAL_CONFIG = {
    * Default: false (notes are hidden to reduce table width and improve readability)
    */
   CC_REPORT_SHOW_SIGNAL_NOTE: false,
+  /**
+   * Controls visibility of the execution cost columns in backtest and live reports:
+   * "Fees (USD)", "Slippage (USD)", "Funding (USD)" and the backtest "Filled" column.
+   * Enable when the exchange schema sets getFee, slippage, getFundingRates or
+   * CC_BACKTEST_MAX_VOLUME_PERCENT caps entries.
+   *
+   * Default: false (spot reports keep their original columns)
+   */
+  CC_REPORT_SHOW_COST_BREAKDOWN: false,
+  /**
+   * Controls visibility of the "Leverage" and "PNL (margin)" columns in backtest
+   * and live reports. Enable for strategies that emit leveraged signals.
+   *
+   * Default: false (spot reports keep their original columns)
+   */
+  CC_REPORT_SHOW_LEVERAGE: false,
   /**
    * Breakeven threshold percentage - minimum profit distance from entry to enable breakeven.
    * When price moves this percentage in profit direction, stop-loss can be moved to entry (breakeven).
@@ -239,6 +334,21 @@ export const GLOBAL_CONFIG = {
    * Default: 10 strategies
    */
   CC_WALKER_MARKDOWN_TOP_N: 10,
+  /**
+   * Significance level of the pairwise tests between the walker leader and the
+   * other strategies. The leader is reported as the winner only when every
+   * difference is significant at this level.
+   *
+   * Default: 0.05
+   */
+  CC_WALKER_SIGNIFICANCE_LEVEL: 0.05,
+  /**
+   * Number of bootstrap resamples of the Sharpe ratio difference in the walker
+   * significance tests.
+   *
+   * Default: 1000 resamples
+   */
+  CC_WALKER_BOOTSTRAP_SAMPLES: 1000,
   /**
    * Maximum number of performance metric events to keep in storage.
    * Older events are removed when this limit is exceeded.
@@ -359,6 +469,83 @@ export const GLOBAL_CONFIG = {
    */
   CC_POSITION_ENTRY_COST: 100,
 
+  /**
+   * Starting account balance in USD for the portfolio ledger (Portfolio facade).
+   * One ledger is kept per exchangeName + frameName + mode and is shared by every
+   * symbol and strategy of the run. Free cash = starting capital + realized PnL
+   * − margin of open positions (cost / leverage).
+   * Default: $10,000
+   */
+  CC_PORTFOLIO_STARTING_CAPITAL: 10_000,
+
+  /**
+   * Rejects new signals when the portfolio ledger has less free cash than the
+   * signal margin (cost / leverage). The rejection is reported via listenValidation
+   * and the signal is retried on the next tick.
+   *
+   * NOTE: parallel Backtest.background runs of different symbols are not aligned in
+   * time, so the cash seen by one symbol may already include trades another symbol
+   * made later in market time.
+   *
+   * Default: false (ledger is tracked but never blocks signals)
+   */
+  CC_PORTFOLIO_CASH_CHECK: false,
+
+  /**
+   * Maximum number of points kept in the portfolio equity curve.
+   * The oldest points are dropped first; max drawdown is tracked incrementally
+   * and stays exact after trimming.
+   * Default: 10,000 points
+   */
+  CC_MAX_PORTFOLIO_EQUITY_POINTS: 10_000,
+
+  /**
+   * Base currency for money totals (portfolio ledger, heatmap and backtest/walker
+   * cost totals). When set, the cost and PnL of every opened and closed trade are
+   * converted from the pair's quote currency with 1m conversion-rate candles of the
+   * same exchange at the trade timestamp (close of the last finished minute). The
+   * rate and the conversion path are recorded on the signal (pnl.conversion).
+   *
+   * Empty string disables conversion: totals add quote-currency amounts as-is.
+   * Default: "" (disabled)
+   */
+  CC_REPORTING_CURRENCY: "",
+
+  /**
+   * Known quote currencies. The quote currency of a concatenated symbol is the
+   * longest entry that the symbol ends with ("ETHBTC" → "BTC"); separated symbols
+   * use the part after the slash ("ETH/BTC", "BTC/USDT:USDT"). The same list provides
+   * the intermediate currencies for two-leg conversion paths (ETH → BTC → USDT).
+   * Default: common Binance quote assets
+   */
+  CC_QUOTE_CURRENCIES: ["USDT", "USDC", "FDUSD", "BUSD", "TUSD", "DAI", "USD", "EUR", "BTC", "ETH", "BNB"],
+
+  /**
+   * Trade-time minutes a conversion-rate pair without candles is skipped by path
+   * discovery before it is probed again. Keeps trades without a conversion path
+   * from probing the exchange on every tick while still picking up rate history
+   * that starts later than the first trade.
+   * Default: 60 minutes
+   */
+  CC_CONVERSION_RETRY_MINUTES: 60,
+
+  /**
+   * Maximum number of conversion-rate pairs probed on the exchange per trade while
+   * a conversion path is discovered. Each probe is a single candle request without
+   * retries; the remaining candidates are probed on later trades.
+   * Default: 8 pairs
+   */
+  CC_CONVERSION_MAX_PROBES: 8,
+
+  /**
+   * Number of the latest closed trades of a strategy used for the rolling win rate
+   * and win/loss ratio passed to a "kelly-criterion" sizing (IStrategySchema.sizingName).
+   * Until the strategy has at least one win and one loss in the window, its signals
+   * keep the default entry cost.
+   * Default: 100 trades
+   */
+  CC_SIZING_KELLY_LOOKBACK: 100,
+
   /**
    * Maximum number of open retries after the broker gate (onOrderSync / onOrderOpenCommit)
    * rejected a signal-open. Each retry re-submits the SAME signal row with the SAME signalId
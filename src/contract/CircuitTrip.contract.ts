@@ -0,0 +1,57 @@
+import { ExchangeName } from "../interfaces/Exchange.interface";
+
+/**
+ * Circuit breaker rule that tripped.
+ * - realized_loss: closed-trade loss of the current UTC day reached the limit
+ * - unrealized_loss: loss of the open positions reached the limit
+ * - error_rate: too many OrderRejectedError rejections within the window
+ * - stale_data: the last finished 1m candle lags behind the live clock
+ * - manual: CircuitBreaker.trip() was called
+ */
+export type CircuitTripRule =
+  | "realized_loss"
+  | "unrealized_loss"
+  | "error_rate"
+  | "stale_data"
+  | "manual";
+
+/**
+ * Contract for circuit breaker trips.
+ *
+ * Emitted by circuitTripSubject once per trip, after every live strategy of the
+ * exchange account has been paused (and flattened when configured). Trading stays
+ * paused until an explicit CircuitBreaker.reset(), also across process restarts.
+ *
+ * Consumers:
+ * - NotificationLive: stores a `circuit.trip` notification
+ * - User callbacks via listenCircuitTrip() / listenCircuitTripOnce()
+ *
+ * @example
+ * ```typescript
+ * import { listenCircuitTrip } from "backtest-kit";
+ *
+ * listenCircuitTrip((event) => {
+ *   console.error(`[KILL SWITCH] ${event.exchangeName}: ${event.note}`);
+ * });
+ * ```
+ */
+export interface CircuitTripContract {
+  /** Exchange account whose trading was stopped */
+  exchangeName: ExchangeName;
+  /** Rule that tripped */
+  rule: CircuitTripRule;
+  /** Human-readable reason with the measured value and the limit */
+  note: string;
+  /** Measured value (USD loss, rejection count or lag in minutes), null for a manual trip */
+  value: number | null;
+  /** Configured limit of the rule, null for a manual trip */
+  limit: number | null;
+  /** Whether open positions were closed through the broker on trip */
+  flatten: boolean;
+  /** Trip timestamp (milliseconds since epoch) */
+  timestamp: number;
+  /** Always false: the circuit breaker watches live trading only */
+  backtest: boolean;
+}
+
+export default CircuitTripContract;
@@ -71,6 +71,7 @@ export interface SignalEventContract {
    * - "take_profit": effective take-profit level reached
    * - "stop_loss": effective stop-loss level reached
    * - "time_expired": position exceeded minuteEstimatedTime
+   * - "liquidation": leveraged position reached its liquidation price before the stop-loss
    * - "closed": closed by user (closePending) or because the order is no longer open on the exchange
    *
    * Always undefined when `action === "opened"`.
@@ -3,6 +3,8 @@ import { StrategyName } from "../interfaces/Strategy.interface";
 import { ExchangeName } from "../interfaces/Exchange.interface";
 import { FrameName } from "../interfaces/Frame.interface";
 import { BacktestStatisticsModel } from "../model/BacktestStatistics.model";
+import { WalkForwardStatisticsModel } from "../model/WalkForwardStatistics.model";
+import { SignificanceStatisticsModel } from "../model/SignificanceStatistics.model";
 
 /**
  * Contract for walker completion events.
@@ -50,6 +52,12 @@ export interface WalkerCompleteContract {
 
     /** bestStats - Best strategy statistics */
     bestStats: BacktestStatisticsModel | null;
+
+    /** walkForward - Walk-forward analysis, null when the walker has no walkForward config */
+    walkForward: WalkForwardStatisticsModel | null;
+
+    /** significance - Pairwise tests of the best strategy against every other strategy */
+    significance: SignificanceStatisticsModel;
 }
 
 export default WalkerCompleteContract;
@@ -8,6 +8,7 @@ import { IRiskSchema } from "../interfaces/Risk.interface";
 import { IActionSchema } from "../interfaces/Action.interface";
 import { ISweepSchema } from "../interfaces/Sweep.interface";
 import { IMCPSchema } from "../interfaces/MCP.interface";
+import { IAllocatorSchema } from "../interfaces/Allocator.interface";
 
 const ADD_STRATEGY_METHOD_NAME = "add.addStrategySchema";
 const ADD_EXCHANGE_METHOD_NAME = "add.addExchangeSchema";
@@ -18,6 +19,7 @@ const ADD_RISK_METHOD_NAME = "add.addRiskSchema";
 const ADD_ACTION_METHOD_NAME = "add.addActionSchema";
 const ADD_SIMULATOR_METHOD_NAME = "add.addSweepSchema";
 const ADD_MCP_METHOD_NAME = "add.addMCPSchema";
+const ADD_ALLOCATOR_METHOD_NAME = "add.addAllocatorSchema";
 
 /**
  * Registers a trading strategy in the framework.
@@ -165,6 +167,7 @@ export function addFrameSchema(frameSchema: IFrameSchema) {
  * @param walkerSchema.frameName - Timeframe to use for all strategies
  * @param walkerSchema.strategies - Array of strategy names to compare
  * @param walkerSchema.metric - Metric to optimize (default: "sharpeRatio")
+ * @param walkerSchema.walkForward - Optional walk-forward analysis (rolling or anchored train/test windows)
  * @param walkerSchema.callbacks - Optional lifecycle callbacks
  *
  * @example
@@ -511,3 +514,56 @@ export function addMCPSchema(mcpSchema: IMCPSchema) {
     mcpSchema
   );
 }
+
+/**
+ * Registers a capital allocator in the framework.
+ *
+ * The allocator splits one account between strategies that reference it via
+ * IStrategySchema.allocatorName:
+ * - Allocation method (fixed-weight, equal-risk, performance-weighted)
+ * - Rebalance schedule (budgets = account equity × weight, recomputed every rebalanceInterval)
+ * - Callbacks for rebalance and allocation events
+ *
+ * Signal cost is scaled by the strategy weight and capped by the budget left
+ * after the margin of its open positions. The account is the portfolio ledger
+ * of the same exchange, frame and mode (see Portfolio).
+ *
+ * @param allocatorSchema - Allocator configuration object (discriminated union)
+ * @param allocatorSchema.allocatorName - Unique allocator identifier
+ * @param allocatorSchema.method - Allocation method ("fixed-weight" | "equal-risk" | "performance-weighted")
+ * @param allocatorSchema.weights - Relative weight per strategy (for fixed-weight)
+ * @param allocatorSchema.strategies - Managed strategies (for equal-risk and performance-weighted)
+ * @param allocatorSchema.lookbackTrades - Closed trades used for volatility or mean return (default: 20)
+ * @param allocatorSchema.rebalanceInterval - Rebalance schedule (default: "1d")
+ * @param allocatorSchema.callbacks - Optional lifecycle callbacks (onRebalance, onAllocate)
+ *
+ * @example
+ * ```typescript
+ * addAllocatorSchema({
+ *   allocatorName: "core-satellite",
+ *   method: "fixed-weight",
+ *   weights: { "trend-btc": 0.6, "mean-reversion": 0.4 },
+ *   rebalanceInterval: "1d",
+ * });
+ *
+ * addStrategySchema({
+ *   strategyName: "trend-btc",
+ *   interval: "5m",
+ *   allocatorName: "core-satellite",
+ *   getSignal: async (symbol) => ({ ... }),
+ * });
+ * ```
+ */
+export function addAllocatorSchema(allocatorSchema: IAllocatorSchema) {
+  backtest.loggerService.info(ADD_ALLOCATOR_METHOD_NAME, {
+    allocatorSchema,
+  });
+  backtest.allocatorValidationService.addAllocator(
+    allocatorSchema.allocatorName,
+    allocatorSchema
+  );
+  backtest.allocatorSchemaService.register(
+    allocatorSchema.allocatorName,
+    allocatorSchema
+  );
+}
@@ -400,8 +400,8 @@ export function listenSignalLiveActive(fn: (event: IStrategyTickResultActive) =>
  * Subscribes to closed tick results from live executions only.
  *
  * Fires when a position closes, for any reason. `closeReason` says which
- * ("take_profit", "stop_loss", "time_expired" or "closed" for a user-initiated
- * close), `closeTimestamp` says when, and `pnl` holds the realised result with fees
+ * ("take_profit", "stop_loss", "time_expired", "liquidation" or "closed" for a
+ * user-initiated close), `closeTimestamp` says when, and `pnl` holds the realised result with fees
  * and slippage already applied. Terminal for that signal - no further events for
  * it will arrive on this channel.
  *
@@ -584,8 +584,8 @@ export function listenSignalBacktestActive(fn: (event: IStrategyTickResultActive
  * Subscribes to closed tick results from backtest executions only.
  *
  * Fires when a position closes, for any reason. `closeReason` says which
- * ("take_profit", "stop_loss", "time_expired" or "closed" for a user-initiated
- * close), `closeTimestamp` says when, and `pnl` holds the realised result with fees
+ * ("take_profit", "stop_loss", "time_expired", "liquidation" or "closed" for a
+ * user-initiated close), `closeTimestamp` says when, and `pnl` holds the realised result with fees
  * and slippage already applied. Terminal for that signal - no further events for
  * it will arrive on this channel.
  *
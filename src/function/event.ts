@@ -1,5 +1,5 @@
 import backtest from "../lib";
-import { signalEmitter, signalLiveEmitter, signalBacktestEmitter, errorEmitter, exitEmitter, doneLiveSubject, doneBacktestSubject, doneWalkerSubject, progressBacktestEmitter, progressWalkerEmitter, performanceEmitter, walkerEmitter, walkerCompleteSubject, validationSubject, partialProfitSubject, partialLossSubject, breakevenSubject, riskSubject, schedulePingSubject, scheduleEventSubject, signalEventSubject, activePingSubject, idlePingSubject, strategyCommitSubject, syncSubject, syncPendingSubject, orderFillSubject, orderRejectSubject, orderContinueSubject, orderStopSubject, highestProfitSubject, maxDrawdownSubject, pauseSubject, signalNotifySubject, beforeStartSubject, afterEndSubject } from "../config/emitters";
+import { signalEmitter, signalLiveEmitter, signalBacktestEmitter, errorEmitter, exitEmitter, doneLiveSubject, doneBacktestSubject, doneWalkerSubject, progressBacktestEmitter, progressWalkerEmitter, performanceEmitter, walkerEmitter, walkerCompleteSubject, validationSubject, partialProfitSubject, partialLossSubject, breakevenSubject, riskSubject, schedulePingSubject, scheduleEventSubject, signalEventSubject, activePingSubject, idlePingSubject, strategyCommitSubject, syncSubject, syncPendingSubject, orderFillSubject, orderRejectSubject, orderContinueSubject, orderStopSubject, highestProfitSubject, maxDrawdownSubject, pauseSubject, circuitTripSubject, signalNotifySubject, beforeStartSubject, afterEndSubject } from "../config/emitters";
 import { IStrategyTickResult } from "../interfaces/Strategy.interface";
 import { DoneContract } from "../contract/Done.contract";
 import { ProgressBacktestContract } from "../contract/ProgressBacktest.contract";
@@ -27,6 +27,7 @@ import OrderCheckContract from "../contract/OrderCheck.contract";
 import { HighestProfitContract } from "../contract/HighestProfit.contract";
 import { MaxDrawdownContract } from "../contract/MaxDrawdown.contract";
 import { PauseContract } from "../contract/Pause.contract";
+import { CircuitTripContract } from "../contract/CircuitTrip.contract";
 import { SignalInfoContract } from "../contract/SignalInfo.contract";
 import { BeforeStartContract } from "../contract/BeforeStart.contract";
 import { AfterEndContract } from "../contract/AfterEnd.contract";
@@ -83,6 +84,8 @@ const LISTEN_MAX_DRAWDOWN_METHOD_NAME = "event.listenMaxDrawdown";
 const LISTEN_MAX_DRAWDOWN_ONCE_METHOD_NAME = "event.listenMaxDrawdownOnce";
 const LISTEN_PAUSE_METHOD_NAME = "event.listenPause";
 const LISTEN_PAUSE_ONCE_METHOD_NAME = "event.listenPauseOnce";
+const LISTEN_CIRCUIT_TRIP_METHOD_NAME = "event.listenCircuitTrip";
+const LISTEN_CIRCUIT_TRIP_ONCE_METHOD_NAME = "event.listenCircuitTripOnce";
 const LISTEN_SIGNAL_NOTIFY_METHOD_NAME = "event.listenSignalNotify";
 const LISTEN_SIGNAL_NOTIFY_ONCE_METHOD_NAME = "event.listenSignalNotifyOnce";
 const LISTEN_BEFORE_START_METHOD_NAME = "event.listenBeforeStart";
@@ -1387,7 +1390,7 @@ export function listenOrderSchedule(fn: (event: ScheduleEventContract) => void)
  *
  * Emitted when a pending position is opened (action "opened": new signal / immediate / scheduled
  * or user activation) or closed (action "closed" with closeReason "take_profit" / "stop_loss" /
- * "time_expired" / "closed"), in both live and backtest.
+ * "time_expired" / "closed" / "liquidation"), in both live and backtest.
  *
  * Events are processed sequentially in order received, even if callback is async.
  *
@@ -2106,6 +2109,52 @@ export function listenPauseOnce(
   return disposeFn = listenPause(wrappedFn);
 }
 
+/**
+ * Subscribes to circuit breaker trips with queued async processing.
+ * Emits once per trip after every live strategy of the exchange account was paused
+ * (and flattened when configured). Trading stays paused until CircuitBreaker.reset().
+ * Events are processed sequentially in order received, even if callback is async.
+ *
+ * @param fn - Callback function to handle circuit trip events
+ * @returns Unsubscribe function to stop listening
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = listenCircuitTrip((event) => {
+ *   console.error(`${event.exchangeName} stopped by ${event.rule}: ${event.note}`);
+ * });
+ * ```
+ */
+export function listenCircuitTrip(fn: (event: CircuitTripContract) => void) {
+  backtest.loggerService.log(LISTEN_CIRCUIT_TRIP_METHOD_NAME);
+  return circuitTripSubject.subscribe(queued(async (event) => fn(event)));
+}
+
+/**
+ * Subscribes to filtered circuit breaker trips with one-time execution.
+ * Listens for events matching the filter predicate, then executes callback once
+ * and automatically unsubscribes.
+ * @param filterFn - Predicate to filter which events trigger the callback
+ * @param fn - Callback function to handle the filtered event (called only once)
+ * @return Unsubscribe function to cancel the listener before it fires
+ */
+export function listenCircuitTripOnce(
+  filterFn: (event: CircuitTripContract) => boolean,
+  fn: (event: CircuitTripContract) => void
+) {
+  backtest.loggerService.log(LISTEN_CIRCUIT_TRIP_ONCE_METHOD_NAME);
+  let disposeFn: Function;
+
+  const wrappedFn = async (event: CircuitTripContract) => {
+    if (filterFn(event)) {
+      await fn(event);
+      disposeFn && disposeFn();
+    }
+  };
+
+  return disposeFn = listenCircuitTrip(wrappedFn);
+}
+
 /**
  * Subscribes to filtered signal info events with one-time execution.
  * Listens for events matching the filter predicate, then executes callback once
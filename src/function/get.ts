@@ -7,6 +7,7 @@ import { RiskName } from "../interfaces/Risk.interface";
 import { ActionName } from "../interfaces/Action.interface";
 import { SweepName } from "../interfaces/Sweep.interface";
 import { MCPName } from "../interfaces/MCP.interface";
+import { AllocatorName } from "../interfaces/Allocator.interface";
 import backtest from "../lib";
 
 const GET_STRATEGY_METHOD_NAME = "get.getStrategySchema";
@@ -18,6 +19,7 @@ const GET_RISK_METHOD_NAME = "get.getRiskSchema";
 const GET_ACTION_METHOD_NAME = "get.getActionSchema";
 const GET_SIMULATOR_METHOD_NAME = "get.getSweepSchema";
 const GET_MCP_METHOD_NAME = "get.getMCPSchema";
+const GET_ALLOCATOR_METHOD_NAME = "get.getAllocatorSchema";
 
 /**
  * Retrieves a registered strategy schema by name.
@@ -265,3 +267,30 @@ export function getMCPSchema(mcpName: MCPName) {
 
   return backtest.mcpSchemaService.get(mcpName);
 }
+
+/**
+ * Retrieves a registered allocator schema by name.
+ *
+ * @param allocatorName - Unique allocator identifier
+ * @returns The allocator schema configuration object
+ * @throws Error if allocator is not registered
+ *
+ * @example
+ * ```typescript
+ * const allocator = getAllocatorSchema("core-satellite");
+ * console.log(allocator.method); // "fixed-weight"
+ * console.log(allocator.rebalanceInterval); // "1d"
+ * ```
+ */
+export function getAllocatorSchema(allocatorName: AllocatorName) {
+  backtest.loggerService.log(GET_ALLOCATOR_METHOD_NAME, {
+    allocatorName,
+  });
+
+  backtest.allocatorValidationService.validate(
+    allocatorName,
+    GET_ALLOCATOR_METHOD_NAME
+  );
+
+  return backtest.allocatorSchemaService.get(allocatorName);
+}
@@ -7,6 +7,7 @@ import { ISizingSchema } from "../interfaces/Sizing.interface";
 import { IRiskSchema } from "../interfaces/Risk.interface";
 import { ISweepSchema } from "../interfaces/Sweep.interface";
 import { IMCPSchema } from "../interfaces/MCP.interface";
+import { IAllocatorSchema } from "../interfaces/Allocator.interface";
 
 const LIST_EXCHANGES_METHOD_NAME = "list.listExchangeSchema";
 const LIST_STRATEGIES_METHOD_NAME = "list.listStrategySchema";
@@ -16,6 +17,7 @@ const LIST_SIZINGS_METHOD_NAME = "list.listSizingSchema";
 const LIST_RISKS_METHOD_NAME = "list.listRiskSchema";
 const LIST_SIMULATORS_METHOD_NAME = "list.listSweepSchema";
 const LIST_MCP_METHOD_NAME = "list.listMCPSchema";
+const LIST_ALLOCATORS_METHOD_NAME = "list.listAllocatorSchema";
 
 /**
  * Returns a list of all registered exchange schemas.
@@ -274,3 +276,31 @@ export async function listMCPSchema(): Promise<IMCPSchema[]> {
   backtest.loggerService.log(LIST_MCP_METHOD_NAME);
   return await backtest.mcpValidationService.list();
 }
+
+/**
+ * Returns a list of all registered allocator schemas.
+ *
+ * Retrieves all capital allocators that have been registered via addAllocatorSchema().
+ * Useful for debugging, documentation, or building dynamic UIs.
+ *
+ * @returns Array of allocator schemas with their configurations
+ *
+ * @example
+ * ```typescript
+ * import { listAllocatorSchema, addAllocatorSchema } from "backtest-kit";
+ *
+ * addAllocatorSchema({
+ *   allocatorName: "core-satellite",
+ *   method: "fixed-weight",
+ *   weights: { "trend-btc": 0.6, "mean-reversion": 0.4 },
+ * });
+ *
+ * const allocators = await listAllocatorSchema();
+ * console.log(allocators);
+ * // [{ allocatorName: "core-satellite", method: "fixed-weight", ... }]
+ * ```
+ */
+export async function listAllocatorSchema(): Promise<IAllocatorSchema[]> {
+  backtest.loggerService.log(LIST_ALLOCATORS_METHOD_NAME);
+  return await backtest.allocatorValidationService.list();
+}
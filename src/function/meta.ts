@@ -1,9 +1,10 @@
-import { RuntimeData } from "../interfaces/Strategy.interface";
+import { RuntimeData, StrategyParams } from "../interfaces/Strategy.interface";
 import backtest, {
   ExecutionContextService,
   MethodContextService,
 } from "../lib";
 import { IRuntimeInfo } from "../interfaces/Runtime.interface";
+import { getStrategyParamValues } from "../helpers/getStrategyParamValues";
 
 const GET_DATE_METHOD_NAME = "meta.getDate";
 const GET_TIMESTAMP_METHOD_NAME = "meta.getTimestamp";
@@ -11,6 +12,7 @@ const GET_MODE_METHOD_NAME = "meta.getMode";
 const GET_SYMBOL_METHOD_NAME = "meta.getSymbol";
 const GET_CONTEXT_METHOD_NAME = "meta.getContext";
 const GET_RUNTIME_INFO_METHOD_NAME = "meta.getRuntimeInfo";
+const GET_STRATEGY_PARAMS_METHOD_NAME = "meta.getStrategyParams";
 
 /**
  * Gets the current date from execution context.
@@ -180,3 +182,35 @@ export async function getRuntimeInfo<Data extends RuntimeData = RuntimeData>():
     isBacktest
   );
 }
+
+/**
+ * Gets the parameter values of the running strategy.
+ *
+ * Returns the defaults declared in the strategy `params`, overridden by
+ * `paramValues` of the variant being run (e.g. an Optimizer candidate).
+ *
+ * @returns Promise resolving to parameter values keyed by parameter name
+ * @throws Error if method context is not active
+ *
+ * @example
+ * ```typescript
+ * addStrategySchema({
+ *   strategyName: "ema-cross",
+ *   params: {
+ *     fastPeriod: { type: "integer", min: 5, max: 30, step: 5, default: 10 },
+ *   },
+ *   getSignal: async (symbol) => {
+ *     const { fastPeriod } = await getStrategyParams<{ fastPeriod: number }>();
+ *     // ...
+ *   },
+ * });
+ * ```
+ */
+export async function getStrategyParams<Params extends StrategyParams = StrategyParams>(): Promise<Params> {
+  backtest.loggerService.info(GET_STRATEGY_PARAMS_METHOD_NAME);
+  if (!MethodContextService.hasContext()) {
+    throw new Error("getStrategyParams requires a method context");
+  }
+  const { strategyName } = backtest.methodContextService.context;
+  return getStrategyParamValues(backtest.strategySchemaService.get(strategyName)) as Params;
+}
@@ -7,6 +7,7 @@ import { IRiskSchema } from "../interfaces/Risk.interface";
 import { IActionSchema } from "../interfaces/Action.interface";
 import { ISweepSchema } from "../interfaces/Sweep.interface";
 import { IMCPSchema } from "../interfaces/MCP.interface";
+import { IAllocatorSchema } from "../interfaces/Allocator.interface";
 import backtest from "../lib/index";
 
 const METHOD_NAME_OVERRIDE_STRATEGY = "function.override.overrideStrategySchema";
@@ -18,6 +19,7 @@ const METHOD_NAME_OVERRIDE_RISK = "function.override.overrideRiskSchema";
 const METHOD_NAME_OVERRIDE_ACTION = "function.override.overrideActionSchema";
 const METHOD_NAME_OVERRIDE_SIMULATOR = "function.override.overrideSweepSchema";
 const METHOD_NAME_OVERRIDE_MCP = "function.override.overrideMCPSchema";
+const METHOD_NAME_OVERRIDE_ALLOCATOR = "function.override.overrideAllocatorSchema";
 
 /**
  * Partial strategy schema for override operations.
@@ -243,6 +245,28 @@ type TMCPSchema = {
   mcpName: IMCPSchema["mcpName"];
 } & Partial<IMCPSchema>;
 
+/**
+ * Partial allocator schema for override operations.
+ *
+ * Requires only the allocator name identifier, all other fields are optional.
+ * Used by overrideAllocatorSchema() to perform partial updates without replacing entire configuration.
+ *
+ * @property allocatorName - Required: Unique allocator identifier (must exist in registry)
+ * @property rebalanceInterval - Optional: New rebalance schedule
+ * @property callbacks - Optional: Updated lifecycle callbacks
+ *
+ * @example
+ * ```typescript
+ * const partialUpdate: TAllocatorSchema = {
+ *   allocatorName: "core-satellite",
+ *   rebalanceInterval: "4h" // Only rebalance more often
+ * };
+ * ```
+ */
+type TAllocatorSchema = {
+  allocatorName: IAllocatorSchema["allocatorName"];
+} & Partial<IAllocatorSchema>;
+
 /**
  * Overrides an existing trading strategy in the framework.
  *
@@ -624,3 +648,39 @@ export async function overrideMCPSchema(mcpSchema: TMCPSchema) {
     mcpSchema
   );
 }
+
+/**
+ * Overrides an existing capital allocator configuration in the framework.
+ *
+ * This function partially updates a previously registered allocator with new configuration.
+ * Only the provided fields will be updated, other fields remain unchanged.
+ * Running ClientAllocator instances keep their schema until Markdown.clear({ allocator: true }).
+ *
+ * @param allocatorSchema - Partial allocator configuration object
+ * @param allocatorSchema.allocatorName - Unique allocator identifier (must exist)
+ * @param allocatorSchema.rebalanceInterval - Optional: Rebalance schedule
+ * @param allocatorSchema.callbacks - Optional: Lifecycle callbacks
+ *
+ * @example
+ * ```typescript
+ * overrideAllocatorSchema({
+ *   allocatorName: "core-satellite",
+ *   rebalanceInterval: "4h",
+ * });
+ * ```
+ */
+export async function overrideAllocatorSchema(allocatorSchema: TAllocatorSchema) {
+  backtest.loggerService.log(METHOD_NAME_OVERRIDE_ALLOCATOR, {
+    allocatorSchema,
+  });
+
+  await backtest.allocatorValidationService.validate(
+    allocatorSchema.allocatorName,
+    METHOD_NAME_OVERRIDE_ALLOCATOR
+  );
+
+  return backtest.allocatorSchemaService.override(
+    allocatorSchema.allocatorName,
+    allocatorSchema
+  );
+}
@@ -44,6 +44,7 @@ const GET_POSITION_INVESTED_COST_METHOD_NAME =
   "strategy.getPositionInvestedCost";
 const GET_POSITION_PNL_PERCENT_METHOD_NAME = "strategy.getPositionPnlPercent";
 const GET_POSITION_PNL_COST_METHOD_NAME = "strategy.getPositionPnlCost";
+const GET_POSITION_FUNDING_COST_METHOD_NAME = "strategy.getPositionFundingCost";
 const GET_POSITION_LEVELS_METHOD_NAME = "strategy.getPositionLevels";
 const GET_POSITION_PARTIALS_METHOD_NAME = "strategy.getPositionPartials";
 const GET_POSITION_ENTRIES_METHOD_NAME = "strategy.getPositionEntries";
@@ -983,6 +984,7 @@ export async function commitAverageBuy(
         symbol,
         currentPrice,
         { exchangeName, frameName, strategyName },
+        cost,
       ),
     )
   ) {
@@ -1774,6 +1776,61 @@ export async function getPositionPnlCost(
   );
 }
 
+/**
+ * Returns the funding accrued on the current perpetual position in dollars.
+ *
+ * Funding settlements come from IExchangeSchema.getFundingRates and are accrued
+ * on every tick/candle while the position is pending. Positive when funding was
+ * paid, negative when received. Already included in getPositionPnlCost.
+ *
+ * Throws if no pending signal exists.
+ *
+ * Automatically detects backtest/live mode from execution context.
+ *
+ * @param symbol - Trading pair symbol
+ * @returns Promise resolving to accrued funding in dollars
+ *
+ * @example
+ * ```typescript
+ * import { getPositionFundingCost } from "backtest-kit";
+ *
+ * const fundingCost = await getPositionFundingCost("BTCUSDT");
+ * // LONG $1000 notional, three settlements at 0.01%: fundingCost ≈ 0.3
+ * ```
+ */
+export async function getPositionFundingCost(
+  symbol: string,
+): Promise<number> {
+  backtest.loggerService.info(GET_POSITION_FUNDING_COST_METHOD_NAME, { symbol });
+  if (!ExecutionContextService.hasContext()) {
+    throw new Error("getPositionFundingCost requires an execution context");
+  }
+  if (!MethodContextService.hasContext()) {
+    throw new Error("getPositionFundingCost requires a method context");
+  }
+  const { backtest: isBacktest } = backtest.executionContextService.context;
+  const { exchangeName, frameName, strategyName } =
+    backtest.methodContextService.context;
+  if (
+    await not(
+      backtest.strategyCoreService.hasPendingSignal(isBacktest, symbol, {
+        exchangeName,
+        frameName,
+        strategyName,
+      }),
+    )
+  ) {
+    throw new Error(
+      `getPositionFundingCost no pending signal for symbol=${symbol} strategyName=${strategyName} exchangeName=${exchangeName} frameName=${frameName}`,
+    );
+  }
+  return await backtest.strategyCoreService.getPositionFundingCost(
+    isBacktest,
+    symbol,
+    { exchangeName, frameName, strategyName },
+  );
+}
+
 /**
  * Returns the list of DCA entry prices for the current pending signal.
  *
@@ -62,6 +62,12 @@ interface ValidateArgs<T = Enum> {
    * @example { RSI_SWEEP: "rsi-sweep" }
    */
   WalkerName?: T;
+
+  /**
+   * Capital allocator name enum to validate
+   * @example { CORE_SATELLITE: "core-satellite" }
+   */
+  AllocatorName?: T;
 }
 
 /**
@@ -155,6 +161,19 @@ const getWalkerMap = async () => {
   return walkerMap;
 };
 
+/**
+ * Retrieves all registered capital allocators as a map
+ * @private
+ * @returns Map of allocator names
+ */
+const getAllocatorMap = async () => {
+  const allocatorMap: Record<string, string> = {};
+  for (const { allocatorName } of await lib.allocatorValidationService.list()) {
+    Object.assign(allocatorMap, { [allocatorName]: allocatorName });
+  }
+  return allocatorMap;
+};
+
 /**
  * Internal validation function that processes all provided entity enums.
  *
@@ -177,6 +196,7 @@ const validateInternal = async (args: ValidateArgs<Enum>) => {
     ActionName = await getActionMap(),
     SizingName = await getSizingMap(),
     WalkerName = await getWalkerMap(),
+    AllocatorName = await getAllocatorMap(),
   } = args;
 
   for (const exchangeName of Object.values(ExchangeName)) {
@@ -200,6 +220,9 @@ const validateInternal = async (args: ValidateArgs<Enum>) => {
   for (const walkerName of Object.values(WalkerName)) {
     lib.walkerValidationService.validate(walkerName, METHOD_NAME);
   }
+  for (const allocatorName of Object.values(AllocatorName)) {
+    lib.allocatorValidationService.validate(allocatorName, METHOD_NAME);
+  }
 };
 
 /**
@@ -0,0 +1,131 @@
+import backtest from "../lib";
+import { StrategyName } from "../interfaces/Strategy.interface";
+import { ExchangeName } from "../interfaces/Exchange.interface";
+import { FrameName } from "../interfaces/Frame.interface";
+
+/**
+ * Resets per-run state of a symbol-strategy pair before a backtest starts:
+ * markdown storages, strategy instance, time/price meta, frame cache, risk and actions,
+ * plus the account state shared on the exchange and frame — portfolio ledger,
+ * capital allocator and rebalancer — so a repeated run starts from the starting capital.
+ *
+ * The ledger is shared by every symbol and strategy of the exchange and frame:
+ * start backtests that trade one account together, not one after another. A run
+ * started while another one is in progress joins its account and leaves it as-is.
+ *
+ * @param symbol - Trading pair symbol
+ * @param context - Execution context with strategy, exchange, and frame names
+ */
+export const clearBacktestState = (
+  symbol: string,
+  context: {
+    strategyName: StrategyName;
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  },
+) => {
+  {
+    backtest.backtestMarkdownService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.liveMarkdownService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.scheduleMarkdownService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.performanceMarkdownService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.partialMarkdownService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.riskMarkdownService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+  }
+
+  {
+    backtest.strategyCoreService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.timeMetaService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.priceMetaService.clear({
+      symbol,
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    backtest.frameConnectionService.clear(context.frameName);
+  }
+
+  {
+    const { riskName, riskList, actions } =
+      backtest.strategySchemaService.get(context.strategyName);
+    riskName &&
+      backtest.riskGlobalService.clear({
+        riskName,
+        exchangeName: context.exchangeName,
+        frameName: context.frameName,
+        backtest: true,
+      });
+    riskList &&
+      riskList.forEach((riskName) =>
+        backtest.riskGlobalService.clear({
+          riskName,
+          exchangeName: context.exchangeName,
+          frameName: context.frameName,
+          backtest: true,
+        }),
+      );
+    actions &&
+      actions.forEach((actionName) =>
+        backtest.actionCoreService.clear({
+          actionName,
+          strategyName: context.strategyName,
+          exchangeName: context.exchangeName,
+          frameName: context.frameName,
+          backtest: true,
+        }),
+      );
+  }
+
+  backtest.backtestCommandService.clearAccount(context);
+};
+
+export default clearBacktestState;
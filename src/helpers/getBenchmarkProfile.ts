@@ -0,0 +1,186 @@
+/**
+ * Benchmark-relative metrics of a closed-trade series. Designed for
+ * `BacktestMarkdownService`: every closed trade is paired with the
+ * benchmark's own return over the same holding window
+ * `[pendingAt, closeTimestamp]`, and the whole run is compared against the
+ * benchmark's return over the frame window `[startDate, endDate]`.
+ *
+ * Conventions
+ * -----------
+ * - Benchmark prices come from the caller (`getPrice`) so the helper does
+ *   not know about exchanges or contexts. A `null` price drops the point.
+ * - Per-trade series are in percent: strategy PNL vs benchmark return.
+ * - Beta, alpha, correlation and the information ratio are regressions on
+ *   those paired series (risk-free rate = 0). Up/down capture compare the
+ *   mean strategy return with the mean benchmark return on the trades
+ *   where the benchmark rose / fell.
+ */
+export interface BenchmarkProfile {
+  /** Symbol whose buy-and-hold return is the benchmark */
+  benchmarkSymbol: string | null;
+  /** Buy-and-hold return of the benchmark over the frame window, in %. */
+  benchmarkReturn: number | null;
+  /** Compounded strategy return minus benchmarkReturn, in percentage points. */
+  excessReturn: number | null;
+  /** Per-trade Jensen's alpha: mean(strategy) − beta × mean(benchmark), in %. */
+  alpha: number | null;
+  /** cov(strategy, benchmark) / var(benchmark) over the paired trades. */
+  beta: number | null;
+  /** mean(strategy − benchmark) / stddev(strategy − benchmark). */
+  informationRatio: number | null;
+  /** Pearson correlation of the paired per-trade returns, in [-1, 1]. */
+  correlation: number | null;
+  /** Mean strategy return / mean benchmark return on benchmark up-moves, in %. */
+  upCapture: number | null;
+  /** Mean strategy return / mean benchmark return on benchmark down-moves, in %. */
+  downCapture: number | null;
+}
+
+export interface BenchmarkSource {
+  /** Symbol whose buy-and-hold return is the benchmark */
+  benchmarkSymbol: string;
+  /** Start of the comparison window (frame startDate), ms */
+  startAt: number;
+  /** End of the comparison window (frame endDate), ms */
+  endAt: number;
+  /** Resolves the benchmark price at a timestamp, null when unavailable */
+  getPrice: (timestamp: number) => Promise<number | null>;
+}
+
+export interface BenchmarkTrade {
+  /** Position activation timestamp, ms */
+  openAt: number;
+  /** Position close timestamp, ms */
+  closeAt: number;
+  /** Realised per-trade PNL, in % */
+  pnl: number;
+}
+
+/** Minimum paired trades to surface regression metrics. Matches the
+ *  MIN_SIGNALS_FOR_RATIOS gate of the backtest report. */
+const MIN_SIGNALS = 10;
+
+/** Variance below this is treated as zero (flat benchmark or identical
+ *  returns), same guard as STDDEV_EPSILON in the backtest report. */
+const VARIANCE_EPSILON = 1e-9;
+
+const isFiniteNumber = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+
+const mean = (values: number[]): number =>
+  values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const emptyProfile = (benchmarkSymbol: string | null): BenchmarkProfile => ({
+  benchmarkSymbol,
+  benchmarkReturn: null,
+  excessReturn: null,
+  alpha: null,
+  beta: null,
+  informationRatio: null,
+  correlation: null,
+  upCapture: null,
+  downCapture: null,
+});
+
+const getReturn = async (
+  source: BenchmarkSource,
+  fromAt: number,
+  toAt: number,
+): Promise<number | null> => {
+  const [fromPrice, toPrice] = await Promise.all([
+    source.getPrice(fromAt),
+    source.getPrice(toAt),
+  ]);
+  if (!isFiniteNumber(fromPrice) || !isFiniteNumber(toPrice) || fromPrice <= 0) {
+    return null;
+  }
+  return (toPrice / fromPrice - 1) * 100;
+};
+
+const getCapture = (pairs: [number, number][]): number | null => {
+  if (pairs.length === 0) {
+    return null;
+  }
+  const benchmarkMean = mean(pairs.map(([, b]) => b));
+  if (Math.abs(benchmarkMean) < VARIANCE_EPSILON) {
+    return null;
+  }
+  return (mean(pairs.map(([s]) => s)) / benchmarkMean) * 100;
+};
+
+/**
+ * Computes benchmark-relative metrics.
+ *
+ * @param trades - Closed trades (any order)
+ * @param totalReturn - Compounded strategy return over the run, in %, null if unknown
+ * @param source - Benchmark price source, null when the run has no benchmark
+ * @returns Benchmark profile, every field null without a source
+ */
+export const getBenchmarkProfile = async (
+  trades: BenchmarkTrade[],
+  totalReturn: number | null,
+  source: BenchmarkSource | null,
+): Promise<BenchmarkProfile> => {
+  if (!source) {
+    return emptyProfile(null);
+  }
+
+  const profile = emptyProfile(source.benchmarkSymbol);
+
+  const benchmarkReturn = await getReturn(source, source.startAt, source.endAt);
+  if (isFiniteNumber(benchmarkReturn)) {
+    profile.benchmarkReturn = benchmarkReturn;
+    if (isFiniteNumber(totalReturn)) {
+      profile.excessReturn = totalReturn - benchmarkReturn;
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  for (const trade of trades) {
+    const b = await getReturn(source, trade.openAt, trade.closeAt);
+    if (isFiniteNumber(b) && isFiniteNumber(trade.pnl)) {
+      pairs.push([trade.pnl, b]);
+    }
+  }
+
+  if (pairs.length < MIN_SIGNALS) {
+    return profile;
+  }
+
+  const n = pairs.length;
+  const strategyMean = mean(pairs.map(([s]) => s));
+  const benchmarkMean = mean(pairs.map(([, b]) => b));
+
+  let covariance = 0;
+  let strategyVariance = 0;
+  let benchmarkVariance = 0;
+  for (const [s, b] of pairs) {
+    covariance += (s - strategyMean) * (b - benchmarkMean);
+    strategyVariance += (s - strategyMean) ** 2;
+    benchmarkVariance += (b - benchmarkMean) ** 2;
+  }
+  covariance /= n - 1;
+  strategyVariance /= n - 1;
+  benchmarkVariance /= n - 1;
+
+  if (benchmarkVariance > VARIANCE_EPSILON) {
+    profile.beta = covariance / benchmarkVariance;
+    profile.alpha = strategyMean - profile.beta * benchmarkMean;
+    if (strategyVariance > VARIANCE_EPSILON) {
+      profile.correlation = covariance / Math.sqrt(strategyVariance * benchmarkVariance);
+    }
+  }
+
+  const active = pairs.map(([s, b]) => s - b);
+  const activeMean = mean(active);
+  const activeVariance =
+    active.reduce((acc, d) => acc + (d - activeMean) ** 2, 0) / (n - 1);
+  if (activeVariance > VARIANCE_EPSILON) {
+    profile.informationRatio = activeMean / Math.sqrt(activeVariance);
+  }
+
+  profile.upCapture = getCapture(pairs.filter(([, b]) => b > 0));
+  profile.downCapture = getCapture(pairs.filter(([, b]) => b < 0));
+
+  return profile;
+};
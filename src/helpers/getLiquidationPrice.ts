@@ -0,0 +1,54 @@
+import { ISignalDto, ISignalRow } from "../interfaces/Strategy.interface";
+import { GLOBAL_CONFIG } from "../config/params";
+import { getEffectivePriceOpen } from "./getEffectivePriceOpen";
+import { getTotalClosed } from "./getTotalClosed";
+
+interface Signal extends ISignalDto {
+  priceOpen: number;
+  _entry?: ISignalRow['_entry'];
+  _partial?: ISignalRow['_partial'];
+}
+
+/**
+ * Returns the liquidation price of a leveraged position.
+ *
+ * The position is liquidated when the unrealized loss eats the collateral down to
+ * the maintenance margin (CC_MAINTENANCE_MARGIN_PERCENT of notional):
+ *   notional   N = remaining cost basis (USD still open)
+ *   collateral C = N / leverage                                   (isolated)
+ *              C = N / leverage + CC_CROSS_MARGIN_WALLET_BALANCE  (cross)
+ *   long:  P × (1 − C/N + m)
+ *   short: P × (1 + C/N − m)
+ * where P is the effective (DCA-weighted) entry price and m the maintenance rate.
+ *
+ * Cross margin is a per-position assumption, not an account simulation: every cross
+ * position is backed by the whole CC_CROSS_MARGIN_WALLET_BALANCE on its own. Other
+ * open positions and the portfolio ledger equity do not move the liquidation price.
+ *
+ * @param signal - Signal row with leverage, marginMode, _entry and optional _partial
+ * @returns Liquidation price, or null for unleveraged positions (leverage ≤ 1) and
+ *          cross positions whose wallet covers the whole notional
+ */
+export const getLiquidationPrice = (signal: Signal): number | null => {
+  const leverage = signal.leverage ?? 1;
+  if (leverage <= 1) {
+    return null;
+  }
+  const { remainingCostBasis } = getTotalClosed(signal);
+  if (remainingCostBasis <= 0) {
+    return null;
+  }
+  const priceOpen = getEffectivePriceOpen(signal);
+  const margin = remainingCostBasis / leverage;
+  const collateral = signal.marginMode === "cross"
+    ? margin + GLOBAL_CONFIG.CC_CROSS_MARGIN_WALLET_BALANCE
+    : margin;
+  const buffer = collateral / remainingCostBasis - GLOBAL_CONFIG.CC_MAINTENANCE_MARGIN_PERCENT / 100;
+  if (signal.position === "long") {
+    const price = priceOpen * (1 - buffer);
+    return price > 0 ? price : null;
+  }
+  return priceOpen * (1 + buffer);
+};
+
+export default getLiquidationPrice;
@@ -0,0 +1,256 @@
+import { IStrategyTickResultClosed } from "../interfaces/Strategy.interface";
+import { IMonteCarloOptions, MonteCarloMethod } from "../interfaces/MonteCarlo.interface";
+import {
+  IMonteCarloDistribution,
+  MonteCarloStatisticsModel,
+} from "../model/MonteCarloStatistics.model";
+import { createSeededRandom } from "../utils/createSeededRandom";
+
+const DEFAULT_METHOD: MonteCarloMethod = "bootstrap";
+const DEFAULT_SIMULATIONS = 1000;
+const DEFAULT_SEED = 42;
+const DEFAULT_RUIN_DRAWDOWN = 50;
+
+/** Minimum signals of a path for the Sharpe ratio (same gate as backtest statistics) */
+const MIN_SIGNALS_FOR_RATIOS = 10;
+
+/** Float-artifact threshold for the standard deviation (same as backtest statistics) */
+const STDDEV_EPSILON = 1e-9;
+
+/**
+ * Closed trade reduced to what the path metrics need.
+ */
+interface ITrade {
+  /** Realized per-trade PNL, percent */
+  pnl: number;
+  /** Worst mark-to-market PNL while the position was open, percent, null if not recorded */
+  trough: number | null;
+}
+
+/**
+ * Metrics of one equity path.
+ */
+interface IPathMetrics {
+  totalPnl: number;
+  maxDrawdown: number;
+  sharpeRatio: number | null;
+  maxLosingStreak: number;
+}
+
+/**
+ * Computes the metrics of one ordered sequence of trades.
+ *
+ * Max drawdown follows the backtest statistics: compounded equity, each trade's
+ * intra-trade trough applied before its realized close, 100% once equity hits zero.
+ *
+ * @param path - Trades in path order
+ * @returns Path metrics
+ */
+const GET_PATH_METRICS_FN = (path: ITrade[]): IPathMetrics => {
+  let totalPnl = 0;
+  let equity = 1;
+  let peak = 1;
+  let maxDrawdown = 0;
+  let blown = false;
+  let losingStreak = 0;
+  let maxLosingStreak = 0;
+  for (const { pnl, trough } of path) {
+    totalPnl += pnl;
+    losingStreak = pnl < 0 ? losingStreak + 1 : 0;
+    maxLosingStreak = Math.max(maxLosingStreak, losingStreak);
+    if (blown) {
+      continue;
+    }
+    if (trough !== null && trough < 0) {
+      const troughEquity = equity * (1 + trough / 100);
+      if (troughEquity <= 0) {
+        maxDrawdown = 100;
+        blown = true;
+        continue;
+      }
+      maxDrawdown = Math.max(maxDrawdown, ((peak - troughEquity) / peak) * 100);
+    }
+    equity *= 1 + pnl / 100;
+    if (equity <= 0) {
+      maxDrawdown = 100;
+      blown = true;
+      continue;
+    }
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, ((peak - equity) / peak) * 100);
+  }
+  let sharpeRatio: number | null = null;
+  if (path.length >= MIN_SIGNALS_FOR_RATIOS) {
+    const avgPnl = totalPnl / path.length;
+    const variance =
+      path.reduce((sum, { pnl }) => sum + Math.pow(pnl - avgPnl, 2), 0) /
+      (path.length - 1);
+    const stdDev = Math.sqrt(variance);
+    sharpeRatio = stdDev > STDDEV_EPSILON ? avgPnl / stdDev : null;
+  }
+  return { totalPnl, maxDrawdown, sharpeRatio, maxLosingStreak };
+};
+
+/**
+ * Draws one resampled path of the same length as the original.
+ *
+ * @param trades - Trades in chronological order
+ * @param method - Resampling method
+ * @param blockSize - Block length of the "block" method
+ * @param random - Seeded random generator
+ * @returns Resampled path
+ */
+const RESAMPLE_FN = (
+  trades: ITrade[],
+  method: MonteCarloMethod,
+  blockSize: number,
+  random: () => number
+): ITrade[] => {
+  const count = trades.length;
+  if (method === "shuffle") {
+    const result = [...trades];
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+  if (method === "bootstrap") {
+    return Array.from({ length: count }, () => trades[Math.floor(random() * count)]);
+  }
+  const result: ITrade[] = [];
+  while (result.length < count) {
+    const start = Math.floor(random() * count);
+    for (let i = 0; i < blockSize && result.length < count; i++) {
+      result.push(trades[(start + i) % count]);
+    }
+  }
+  return result;
+};
+
+/**
+ * Linear-interpolated percentile of an ascending list.
+ *
+ * @param values - Ascending values, not empty
+ * @param quantile - Quantile in [0, 1]
+ * @returns Percentile value
+ */
+const GET_PERCENTILE_FN = (values: number[], quantile: number): number => {
+  const position = (values.length - 1) * quantile;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return values[lower] + (values[upper] - values[lower]) * (position - lower);
+};
+
+/**
+ * Summarizes the values of a metric over the paths.
+ *
+ * @param actual - Value of the original signal order
+ * @param list - Values of the paths, null entries are skipped
+ * @returns Distribution with percentile bands
+ */
+const CREATE_DISTRIBUTION_FN = (
+  actual: number | null,
+  list: (number | null)[]
+): IMonteCarloDistribution => {
+  const values = list
+    .filter((value): value is number => value !== null && isFinite(value))
+    .sort((a, b) => a - b);
+  if (!values.length) {
+    return { actual, mean: null, stdDev: null, p5: null, p25: null, p50: null, p75: null, p95: null, values };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const stdDev =
+    values.length > 1
+      ? Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (values.length - 1))
+      : null;
+  return {
+    actual,
+    mean,
+    stdDev,
+    p5: GET_PERCENTILE_FN(values, 0.05),
+    p25: GET_PERCENTILE_FN(values, 0.25),
+    p50: GET_PERCENTILE_FN(values, 0.5),
+    p75: GET_PERCENTILE_FN(values, 0.75),
+    p95: GET_PERCENTILE_FN(values, 0.95),
+    values,
+  };
+};
+
+/**
+ * Resamples the closed signals of a finished run to show how much of its
+ * result depends on the order and the luck of the drawn trades.
+ *
+ * Signals with corrupted timestamps are skipped (same population as the
+ * backtest statistics) and the rest are put in chronological close order
+ * before resampling.
+ *
+ * @param signalList - Closed signals of the run, in any order
+ * @param options - Resampling method, number of paths and seed
+ * @returns Distributions with percentile bands and risk of ruin
+ * @throws Error when an option is out of range
+ */
+export const getMonteCarloStatistics = (
+  signalList: IStrategyTickResultClosed[],
+  options: IMonteCarloOptions = {}
+): MonteCarloStatisticsModel => {
+  const {
+    method = DEFAULT_METHOD,
+    simulations = DEFAULT_SIMULATIONS,
+    seed = DEFAULT_SEED,
+    ruinDrawdown = DEFAULT_RUIN_DRAWDOWN,
+  } = options;
+  if (method !== "shuffle" && method !== "bootstrap" && method !== "block") {
+    throw new Error(`getMonteCarloStatistics: unknown method ${method}`);
+  }
+  if (!Number.isInteger(simulations) || simulations < 1) {
+    throw new Error(`getMonteCarloStatistics: simulations must be a positive integer, got ${simulations}`);
+  }
+  if (typeof ruinDrawdown !== "number" || ruinDrawdown <= 0 || ruinDrawdown > 100) {
+    throw new Error(`getMonteCarloStatistics: ruinDrawdown must be in (0, 100], got ${ruinDrawdown}`);
+  }
+
+  const trades: ITrade[] = signalList
+    .filter(
+      (s) =>
+        typeof s.signal.pendingAt === "number" && s.signal.pendingAt > 0 &&
+        typeof s.closeTimestamp === "number" && s.closeTimestamp > 0
+    )
+    .sort((a, b) => a.closeTimestamp - b.closeTimestamp)
+    .map((s) => ({
+      pnl: s.pnl.pnlPercentage,
+      trough: typeof s.signal.maxDrawdown?.pnlPercentage === "number"
+        ? s.signal.maxDrawdown.pnlPercentage
+        : null,
+    }));
+
+  const blockSize = options.blockSize ?? Math.max(1, Math.round(Math.sqrt(trades.length)));
+  if (!Number.isInteger(blockSize) || blockSize < 1) {
+    throw new Error(`getMonteCarloStatistics: blockSize must be a positive integer, got ${blockSize}`);
+  }
+
+  const actual = trades.length ? GET_PATH_METRICS_FN(trades) : null;
+  const paths: IPathMetrics[] = [];
+  if (trades.length) {
+    const random = createSeededRandom(seed);
+    for (let i = 0; i < simulations; i++) {
+      paths.push(GET_PATH_METRICS_FN(RESAMPLE_FN(trades, method, blockSize, random)));
+    }
+  }
+
+  return {
+    method,
+    simulations,
+    seed,
+    blockSize: method === "block" ? blockSize : null,
+    totalSignals: trades.length,
+    ruinDrawdown,
+    totalPnl: CREATE_DISTRIBUTION_FN(actual?.totalPnl ?? null, paths.map(({ totalPnl }) => totalPnl)),
+    maxDrawdown: CREATE_DISTRIBUTION_FN(actual?.maxDrawdown ?? null, paths.map(({ maxDrawdown }) => maxDrawdown)),
+    sharpeRatio: CREATE_DISTRIBUTION_FN(actual?.sharpeRatio ?? null, paths.map(({ sharpeRatio }) => sharpeRatio)),
+    maxLosingStreak: CREATE_DISTRIBUTION_FN(actual?.maxLosingStreak ?? null, paths.map(({ maxLosingStreak }) => maxLosingStreak)),
+    riskOfRuin: paths.length
+      ? (paths.filter(({ maxDrawdown }) => maxDrawdown >= ruinDrawdown).length / paths.length) * 100
+      : null,
+  };
+};
@@ -0,0 +1,263 @@
+import { IStrategyTickResultClosed, StrategyName } from "../interfaces/Strategy.interface";
+import { OverfittingStatisticsModel } from "../model/OverfittingStatistics.model";
+import { normalCdf } from "../math/normalCdf";
+import { normalInv } from "../math/normalInv";
+
+/** Minimum signals for the Sharpe ratio (same gate as backtest statistics) */
+const MIN_SIGNALS_FOR_RATIOS = 10;
+
+/** Float-artifact threshold for the standard deviation (same as backtest statistics) */
+const STDDEV_EPSILON = 1e-9;
+
+/** Euler-Mascheroni constant of the expected maximum of Gaussian trials */
+const EULER_MASCHERONI = 0.5772156649015329;
+
+/** Even number of time blocks for CSCV: C(10, 5) = 252 train/test combinations */
+const CSCV_PARTITIONS = 10;
+
+/**
+ * Candidate of a selection: its name and closed signals.
+ */
+export interface IOverfittingCandidate {
+  strategyName: StrategyName;
+  signalList: IStrategyTickResultClosed[];
+}
+
+/**
+ * Running sums of per-trade PNL of one candidate in one time block.
+ */
+interface IBlockSums {
+  count: number;
+  sum: number;
+  sumSq: number;
+}
+
+/**
+ * Per-trade Sharpe ratio from running sums (sample standard deviation).
+ * Null when there are fewer than 2 trades or no dispersion.
+ */
+const GET_SUMS_SHARPE_FN = ({ count, sum, sumSq }: IBlockSums): number | null => {
+  if (count < 2) {
+    return null;
+  }
+  const mean = sum / count;
+  const variance = Math.max(0, (sumSq - count * mean * mean) / (count - 1));
+  const stdDev = Math.sqrt(variance);
+  return stdDev > STDDEV_EPSILON ? mean / stdDev : null;
+};
+
+/**
+ * Per-trade PNL in chronological close order, skipping corrupted timestamps
+ * (same population as the backtest statistics).
+ */
+const GET_TRADES_FN = (signalList: IStrategyTickResultClosed[]) =>
+  signalList
+    .filter(
+      (s) =>
+        typeof s.signal.pendingAt === "number" && s.signal.pendingAt > 0 &&
+        typeof s.closeTimestamp === "number" && s.closeTimestamp > 0
+    )
+    .sort((a, b) => a.closeTimestamp - b.closeTimestamp)
+    .map((s) => ({ pnl: s.pnl.pnlPercentage, closeTimestamp: s.closeTimestamp }));
+
+/**
+ * Sharpe ratio, skewness and kurtosis of a PNL series.
+ * Sharpe is gated to MIN_SIGNALS_FOR_RATIOS signals like the backtest statistics.
+ */
+const GET_MOMENTS_FN = (values: number[]) => {
+  const count = values.length;
+  if (count < MIN_SIGNALS_FOR_RATIOS) {
+    return { sharpeRatio: null, skewness: null, kurtosis: null };
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  const m2 = values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / count;
+  const m3 = values.reduce((sum, value) => sum + Math.pow(value - mean, 3), 0) / count;
+  const m4 = values.reduce((sum, value) => sum + Math.pow(value - mean, 4), 0) / count;
+  const stdDev = Math.sqrt((m2 * count) / (count - 1));
+  if (stdDev <= STDDEV_EPSILON) {
+    return { sharpeRatio: null, skewness: null, kurtosis: null };
+  }
+  return {
+    sharpeRatio: mean / stdDev,
+    skewness: m3 / Math.pow(m2, 1.5),
+    kurtosis: m4 / (m2 * m2),
+  };
+};
+
+/**
+ * Lists every k-element subset of 0..n-1.
+ */
+const GET_COMBINATIONS_FN = (n: number, k: number): number[][] => {
+  const result: number[][] = [];
+  const current: number[] = [];
+  const visit = (start: number) => {
+    if (current.length === k) {
+      result.push([...current]);
+      return;
+    }
+    for (let i = start; i <= n - (k - current.length); i++) {
+      current.push(i);
+      visit(i + 1);
+      current.pop();
+    }
+  };
+  visit(0);
+  return result;
+};
+
+/**
+ * Combinatorially symmetric cross-validation (Bailey, Borwein, López de Prado, Zhu).
+ *
+ * The time span of all closed signals is split into CSCV_PARTITIONS equal blocks.
+ * For every way of choosing half of the blocks as in-sample, the candidate with the
+ * best in-sample per-trade Sharpe is ranked among all candidates on the other half.
+ * PBO is the share of combinations where that winner lands at or below the
+ * out-of-sample median (logit of its relative rank ≤ 0).
+ *
+ * @param histories - Chronological per-trade PNL of every candidate
+ * @returns PBO and the number of combinations that selected a winner
+ */
+const GET_PBO_FN = (
+  histories: { pnl: number; closeTimestamp: number }[][]
+): { pbo: number | null; combinations: number } => {
+  const withTrades = histories.filter((trades) => trades.length > 0);
+  if (withTrades.length < 2) {
+    return { pbo: null, combinations: 0 };
+  }
+  const timestamps = withTrades.flatMap((trades) => trades.map(({ closeTimestamp }) => closeTimestamp));
+  const start = Math.min(...timestamps);
+  const span = Math.max(...timestamps) - start + 1;
+
+  const blocks: IBlockSums[][] = withTrades.map((trades) => {
+    const sums = Array.from({ length: CSCV_PARTITIONS }, () => ({ count: 0, sum: 0, sumSq: 0 }));
+    for (const { pnl, closeTimestamp } of trades) {
+      const block = sums[Math.floor(((closeTimestamp - start) / span) * CSCV_PARTITIONS)];
+      block.count += 1;
+      block.sum += pnl;
+      block.sumSq += pnl * pnl;
+    }
+    return sums;
+  });
+
+  const collect = (candidate: IBlockSums[], indexes: number[]): IBlockSums =>
+    indexes.reduce(
+      (acc, index) => ({
+        count: acc.count + candidate[index].count,
+        sum: acc.sum + candidate[index].sum,
+        sumSq: acc.sumSq + candidate[index].sumSq,
+      }),
+      { count: 0, sum: 0, sumSq: 0 }
+    );
+
+  const total = withTrades.length;
+  let combinations = 0;
+  let overfit = 0;
+  for (const isIndexes of GET_COMBINATIONS_FN(CSCV_PARTITIONS, CSCV_PARTITIONS / 2)) {
+    const oosIndexes = Array.from({ length: CSCV_PARTITIONS }, (_, index) => index)
+      .filter((index) => !isIndexes.includes(index));
+    const isSharpe = blocks.map((candidate) => GET_SUMS_SHARPE_FN(collect(candidate, isIndexes)));
+    const oosSharpe = blocks.map((candidate) => GET_SUMS_SHARPE_FN(collect(candidate, oosIndexes)) ?? -Infinity);
+
+    let winner = -1;
+    isSharpe.forEach((value, index) => {
+      if (value !== null && (winner === -1 || value > isSharpe[winner]!)) {
+        winner = index;
+      }
+    });
+    if (winner === -1) {
+      continue;
+    }
+
+    // Average rank for ties, 1 = worst out-of-sample
+    const below = oosSharpe.filter((value) => value < oosSharpe[winner]).length;
+    const equal = oosSharpe.filter((value) => value === oosSharpe[winner]).length;
+    const rank = below + (equal + 1) / 2;
+    const omega = rank / (total + 1);
+    combinations += 1;
+    if (Math.log(omega / (1 - omega)) <= 0) {
+      overfit += 1;
+    }
+  }
+  return {
+    pbo: combinations ? overfit / combinations : null,
+    combinations,
+  };
+};
+
+/**
+ * Overfitting diagnostics of picking the best of several candidates.
+ *
+ * Deflated Sharpe ratio (Bailey, López de Prado 2014): probability that the
+ * selected candidate's true per-trade Sharpe exceeds the Sharpe the best of
+ * `trials` unskilled candidates would show by luck, corrected for the skewness
+ * and kurtosis of its PNL. With a single trial it equals the probabilistic
+ * Sharpe ratio against zero.
+ *
+ * Probability of backtest overfitting is estimated with combinatorially
+ * symmetric cross-validation over the candidates' closed-signal histories.
+ *
+ * @param candidates - Candidates of the selection with their closed signals
+ * @param strategyName - Selected candidate, null if none was selected
+ * @param trials - Number of candidates the selection was made from (default: candidates.length),
+ * larger when only the finalists have comparable histories
+ * @returns Overfitting diagnostics
+ */
+export const getOverfittingStatistics = (
+  candidates: IOverfittingCandidate[],
+  strategyName: StrategyName | null,
+  trials = candidates.length
+): OverfittingStatisticsModel => {
+  const histories = candidates.map(({ signalList }) => GET_TRADES_FN(signalList));
+  const moments = histories.map((trades) => GET_MOMENTS_FN(trades.map(({ pnl }) => pnl)));
+
+  const sharpeList = moments
+    .map(({ sharpeRatio }) => sharpeRatio)
+    .filter((value): value is number => value !== null);
+  const sharpeMean = sharpeList.reduce((sum, value) => sum + value, 0) / sharpeList.length;
+  const sharpeVariance =
+    sharpeList.length >= 2
+      ? sharpeList.reduce((sum, value) => sum + Math.pow(value - sharpeMean, 2), 0) / (sharpeList.length - 1)
+      : null;
+
+  let expectedMaxSharpe: number | null = null;
+  if (trials <= 1) {
+    expectedMaxSharpe = 0;
+  } else if (sharpeVariance !== null) {
+    expectedMaxSharpe =
+      Math.sqrt(sharpeVariance) *
+      ((1 - EULER_MASCHERONI) * normalInv(1 - 1 / trials) +
+        EULER_MASCHERONI * normalInv(1 - 1 / (trials * Math.E)));
+  }
+
+  const selected = candidates.findIndex((candidate) => candidate.strategyName === strategyName);
+  const { sharpeRatio, skewness, kurtosis } = selected === -1
+    ? { sharpeRatio: null, skewness: null, kurtosis: null }
+    : moments[selected];
+
+  let deflatedSharpe: number | null = null;
+  if (sharpeRatio !== null && skewness !== null && kurtosis !== null && expectedMaxSharpe !== null) {
+    const denominator = 1 - skewness * sharpeRatio + ((kurtosis - 1) / 4) * sharpeRatio * sharpeRatio;
+    if (denominator > 0) {
+      deflatedSharpe = normalCdf(
+        ((sharpeRatio - expectedMaxSharpe) * Math.sqrt(histories[selected].length - 1)) /
+          Math.sqrt(denominator)
+      );
+    }
+  }
+
+  const { pbo, combinations } = GET_PBO_FN(histories);
+
+  return {
+    trials,
+    strategyName: selected === -1 ? null : strategyName,
+    sharpeRatio,
+    skewness,
+    kurtosis,
+    sharpeVariance,
+    expectedMaxSharpe,
+    deflatedSharpe,
+    partitions: CSCV_PARTITIONS,
+    combinations,
+    pbo,
+  };
+};
@@ -0,0 +1,29 @@
+import { IStrategyPnL } from "../interfaces/Strategy.interface";
+
+/**
+ * Cost and PnL of a trade in the reporting currency (CC_REPORTING_CURRENCY).
+ * Falls back to the quote currency amounts when the trade was not converted.
+ *
+ * @param pnl - Trade PnL
+ * @returns pnlCost and pnlEntries in the reporting currency
+ */
+export const getReportingPnl = (pnl: IStrategyPnL) => ({
+  pnlCost: pnl.conversion ? pnl.conversion.pnlCost : pnl.pnlCost,
+  pnlEntries: pnl.conversion ? pnl.conversion.pnlEntries : pnl.pnlEntries,
+});
+
+/**
+ * Sum of trade PnL in the reporting currency.
+ * Null when only some trades were converted (or to different reporting currencies):
+ * the rest are in their quote currency and the sum would add different units.
+ *
+ * @param pnlList - PnL of every trade in the total
+ * @returns Total pnlCost, or null when the trades mix units
+ */
+export const getReportingPnlTotal = (pnlList: IStrategyPnL[]): number | null => {
+  const units = new Set(pnlList.map((pnl) => pnl.conversion?.reportingCurrency ?? null));
+  if (units.size > 1) {
+    return null;
+  }
+  return pnlList.reduce((sum, pnl) => sum + getReportingPnl(pnl).pnlCost, 0);
+};
@@ -0,0 +1,263 @@
+import { IStrategyTickResultClosed, StrategyName } from "../interfaces/Strategy.interface";
+import {
+  ISignificanceComparison,
+  SignificanceStatisticsModel,
+} from "../model/SignificanceStatistics.model";
+import { normalCdf } from "../math/normalCdf";
+import { studentTCdf } from "../math/studentTCdf";
+import { createSeededRandom } from "../utils/createSeededRandom";
+
+const DEFAULT_ALPHA = 0.05;
+const DEFAULT_BOOTSTRAP_SAMPLES = 1000;
+const DEFAULT_SEED = 42;
+
+/** Minimum signals on each side for the tests (same gate as backtest statistics ratios) */
+const MIN_SIGNALS_FOR_TESTS = 10;
+
+/** Float-artifact threshold for the standard deviation (same as backtest statistics) */
+const STDDEV_EPSILON = 1e-9;
+
+/**
+ * Candidate of the walker ranking: its name and closed signals.
+ */
+export interface ISignificanceCandidate {
+  strategyName: StrategyName;
+  signalList: IStrategyTickResultClosed[];
+}
+
+/**
+ * Options of the significance tests.
+ */
+export interface ISignificanceOptions {
+  /** Significance level (default: 0.05) */
+  alpha?: number;
+  /** Bootstrap resamples of the Sharpe ratio difference (default: 1000) */
+  bootstrapSamples?: number;
+  /** Seed of the bootstrap sampler (default: 42) */
+  seed?: number;
+}
+
+/**
+ * Per-trade PNL, skipping corrupted timestamps (same population as the backtest statistics).
+ */
+const GET_PNL_LIST_FN = (signalList: IStrategyTickResultClosed[]): number[] =>
+  signalList
+    .filter(
+      (s) =>
+        typeof s.signal.pendingAt === "number" && s.signal.pendingAt > 0 &&
+        typeof s.closeTimestamp === "number" && s.closeTimestamp > 0
+    )
+    .map((s) => s.pnl.pnlPercentage);
+
+/**
+ * Mean and sample variance of a PNL list.
+ */
+const GET_MOMENTS_FN = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (values.length - 1);
+  return { mean, variance };
+};
+
+/**
+ * Per-trade Sharpe ratio, null without dispersion.
+ */
+const GET_SHARPE_FN = (values: number[]): number | null => {
+  const { mean, variance } = GET_MOMENTS_FN(values);
+  const stdDev = Math.sqrt(variance);
+  return stdDev > STDDEV_EPSILON ? mean / stdDev : null;
+};
+
+/**
+ * Two-sided p-value of the bootstrap distribution of the Sharpe ratio difference.
+ * Both PNL lists are resampled independently since the strategies trade at different times.
+ */
+const GET_BOOTSTRAP_P_VALUE_FN = (
+  leader: number[],
+  candidate: number[],
+  samples: number,
+  random: () => number
+): number | null => {
+  const resample = (values: number[]) =>
+    Array.from({ length: values.length }, () => values[Math.floor(random() * values.length)]);
+  let below = 0;
+  let above = 0;
+  let total = 0;
+  for (let i = 0; i < samples; i++) {
+    const leaderSharpe = GET_SHARPE_FN(resample(leader));
+    const candidateSharpe = GET_SHARPE_FN(resample(candidate));
+    if (leaderSharpe === null || candidateSharpe === null) {
+      continue;
+    }
+    const diff = leaderSharpe - candidateSharpe;
+    total += 1;
+    below += diff <= 0 ? 1 : 0;
+    above += diff >= 0 ? 1 : 0;
+  }
+  return total ? Math.min(1, (2 * Math.min(below, above)) / total) : null;
+};
+
+/**
+ * Welch t-test and Cohen's d of two PNL lists.
+ */
+const GET_WELCH_FN = (leader: number[], candidate: number[]) => {
+  const a = GET_MOMENTS_FN(leader);
+  const b = GET_MOMENTS_FN(candidate);
+  const seA = a.variance / leader.length;
+  const seB = b.variance / candidate.length;
+  const se = Math.sqrt(seA + seB);
+  const pooled = Math.sqrt((a.variance + b.variance) / 2);
+  const meanDiff = a.mean - b.mean;
+  if (se <= STDDEV_EPSILON) {
+    return { meanDiff, welchT: null, welchDf: null, welchPValue: null, cohensD: null };
+  }
+  const welchT = meanDiff / se;
+  const welchDf =
+    Math.pow(seA + seB, 2) /
+    (Math.pow(seA, 2) / (leader.length - 1) + Math.pow(seB, 2) / (candidate.length - 1));
+  return {
+    meanDiff,
+    welchT,
+    welchDf,
+    welchPValue: 2 * (1 - studentTCdf(Math.abs(welchT), welchDf)),
+    cohensD: pooled > STDDEV_EPSILON ? meanDiff / pooled : null,
+  };
+};
+
+/**
+ * Mann-Whitney U test of two PNL lists with average ranks for ties.
+ */
+const GET_MANN_WHITNEY_FN = (leader: number[], candidate: number[]) => {
+  const n1 = leader.length;
+  const n2 = candidate.length;
+  const n = n1 + n2;
+  const pooled = [
+    ...leader.map((value) => ({ value, isLeader: true })),
+    ...candidate.map((value) => ({ value, isLeader: false })),
+  ].sort((a, b) => a.value - b.value);
+
+  let leaderRankSum = 0;
+  let tieSum = 0;
+  for (let i = 0; i < n; ) {
+    let j = i;
+    while (j + 1 < n && pooled[j + 1].value === pooled[i].value) {
+      j += 1;
+    }
+    const rank = (i + j + 2) / 2;
+    const ties = j - i + 1;
+    tieSum += Math.pow(ties, 3) - ties;
+    for (let k = i; k <= j; k++) {
+      leaderRankSum += pooled[k].isLeader ? rank : 0;
+    }
+    i = j + 1;
+  }
+
+  const mannWhitneyU = leaderRankSum - (n1 * (n1 + 1)) / 2;
+  const rankBiserial = (2 * mannWhitneyU) / (n1 * n2) - 1;
+  const mean = (n1 * n2) / 2;
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - tieSum / (n * (n - 1))));
+  if (sigma <= STDDEV_EPSILON) {
+    return { mannWhitneyU, mannWhitneyPValue: null, rankBiserial };
+  }
+  const z = Math.max(0, Math.abs(mannWhitneyU - mean) - 0.5) / sigma;
+  return {
+    mannWhitneyU,
+    mannWhitneyPValue: 2 * (1 - normalCdf(z)),
+    rankBiserial,
+  };
+};
+
+/**
+ * Tests whether the leader of a walker ranking is better than every other
+ * candidate or only ahead by noise.
+ *
+ * Each candidate is compared with the leader by three tests on the per-trade PNL:
+ * a bootstrap of the per-trade Sharpe ratio difference, a Welch t-test of the
+ * means and a Mann-Whitney U test of the distributions. A difference holds when
+ * all three p-values are below alpha and all three effects favor the leader.
+ * Comparisons with fewer than 10 signals on either side are not significant.
+ *
+ * @param candidates - Every candidate of the ranking with its closed signals
+ * @param leader - Best candidate by the walker metric, null if none
+ * @param options - Significance level, bootstrap resamples and seed
+ * @returns Pairwise comparisons and the winner if the lead holds against all
+ * @throws Error when an option is out of range
+ */
+export const getSignificanceStatistics = (
+  candidates: ISignificanceCandidate[],
+  leader: StrategyName | null,
+  options: ISignificanceOptions = {}
+): SignificanceStatisticsModel => {
+  const {
+    alpha = DEFAULT_ALPHA,
+    bootstrapSamples = DEFAULT_BOOTSTRAP_SAMPLES,
+    seed = DEFAULT_SEED,
+  } = options;
+  if (typeof alpha !== "number" || alpha <= 0 || alpha >= 1) {
+    throw new Error(`getSignificanceStatistics: alpha must be in (0, 1), got ${alpha}`);
+  }
+  if (!Number.isInteger(bootstrapSamples) || bootstrapSamples < 1) {
+    throw new Error(`getSignificanceStatistics: bootstrapSamples must be a positive integer, got ${bootstrapSamples}`);
+  }
+
+  const leaderCandidate = candidates.find(({ strategyName }) => strategyName === leader);
+  if (!leaderCandidate) {
+    return { leader: null, winner: null, alpha, bootstrapSamples, seed, comparisons: [] };
+  }
+
+  const leaderPnl = GET_PNL_LIST_FN(leaderCandidate.signalList);
+  const random = createSeededRandom(seed);
+
+  const comparisons = candidates
+    .filter(({ strategyName }) => strategyName !== leader)
+    .map(({ strategyName, signalList }): ISignificanceComparison => {
+      const pnl = GET_PNL_LIST_FN(signalList);
+      if (leaderPnl.length < MIN_SIGNALS_FOR_TESTS || pnl.length < MIN_SIGNALS_FOR_TESTS) {
+        return {
+          strategyName,
+          totalSignals: pnl.length,
+          sharpeDiff: null,
+          bootstrapPValue: null,
+          meanDiff: null,
+          welchT: null,
+          welchDf: null,
+          welchPValue: null,
+          cohensD: null,
+          mannWhitneyU: null,
+          mannWhitneyPValue: null,
+          rankBiserial: null,
+          significant: false,
+        };
+      }
+      const leaderSharpe = GET_SHARPE_FN(leaderPnl);
+      const sharpe = GET_SHARPE_FN(pnl);
+      const sharpeDiff = leaderSharpe !== null && sharpe !== null ? leaderSharpe - sharpe : null;
+      const bootstrapPValue = GET_BOOTSTRAP_P_VALUE_FN(leaderPnl, pnl, bootstrapSamples, random);
+      const welch = GET_WELCH_FN(leaderPnl, pnl);
+      const mannWhitney = GET_MANN_WHITNEY_FN(leaderPnl, pnl);
+      const significant =
+        sharpeDiff !== null && sharpeDiff > 0 &&
+        bootstrapPValue !== null && bootstrapPValue < alpha &&
+        welch.welchT !== null && welch.welchT > 0 &&
+        welch.welchPValue !== null && welch.welchPValue < alpha &&
+        mannWhitney.rankBiserial > 0 &&
+        mannWhitney.mannWhitneyPValue !== null && mannWhitney.mannWhitneyPValue < alpha;
+      return {
+        strategyName,
+        totalSignals: pnl.length,
+        sharpeDiff,
+        bootstrapPValue,
+        ...welch,
+        ...mannWhitney,
+        significant,
+      };
+    });
+
+  return {
+    leader,
+    winner: comparisons.every(({ significant }) => significant) ? leader : null,
+    alpha,
+    bootstrapSamples,
+    seed,
+    comparisons,
+  };
+};
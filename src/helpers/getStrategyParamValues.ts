@@ -0,0 +1,15 @@
+import { IStrategySchema, StrategyParams } from "../interfaces/Strategy.interface";
+
+/**
+ * Current parameter values of a strategy: declared defaults overridden by paramValues.
+ *
+ * @param strategySchema - Strategy schema
+ * @returns Parameter values keyed by parameter name
+ */
+export const getStrategyParamValues = (strategySchema: IStrategySchema): StrategyParams => {
+  const result: StrategyParams = {};
+  for (const [name, param] of Object.entries(strategySchema.params ?? {})) {
+    result[name] = strategySchema.paramValues?.[name] ?? param.default;
+  }
+  return result;
+};
@@ -0,0 +1,50 @@
+import { IFrameSchema } from "../interfaces/Frame.interface";
+import { IWalkerWalkForward } from "../interfaces/Walker.interface";
+import { IWalkForwardRange } from "../model/WalkForwardStatistics.model";
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Splits a frame into walk-forward train/test windows.
+ *
+ * Test windows are consecutive and never overlap, so their results can be stitched.
+ * Only complete test windows are returned: a tail shorter than `testMinutes` is dropped.
+ *
+ * @param frameSchema - Walker frame
+ * @param walkForward - Walk-forward configuration of the walker
+ * @returns Windows in chronological order
+ * @throws Error when the frame is too short for one train and one test window
+ */
+export const getWalkForwardWindows = (
+  frameSchema: IFrameSchema,
+  walkForward: IWalkerWalkForward,
+): IWalkForwardRange[] => {
+  const { frameName, startDate, endDate } = frameSchema;
+  const trainMs = walkForward.trainMinutes * MS_PER_MINUTE;
+  const testMs = walkForward.testMinutes * MS_PER_MINUTE;
+  const frameStart = startDate.getTime();
+  const frameEnd = endDate.getTime();
+  const result: IWalkForwardRange[] = [];
+  for (
+    let testStart = frameStart + trainMs;
+    testStart + testMs - 1 <= frameEnd;
+    testStart += testMs
+  ) {
+    const index = result.length + 1;
+    result.push({
+      index,
+      trainFrameName: `${frameName}-wf${index}-train`,
+      trainStart: walkForward.mode === "anchored" ? frameStart : testStart - trainMs,
+      trainEnd: testStart - 1,
+      testFrameName: `${frameName}-wf${index}-test`,
+      testStart,
+      testEnd: testStart + testMs - 1,
+    });
+  }
+  if (!result.length) {
+    throw new Error(
+      `getWalkForwardWindows: frame ${frameName} is shorter than trainMinutes=${walkForward.trainMinutes} + testMinutes=${walkForward.testMinutes}`
+    );
+  }
+  return result;
+};
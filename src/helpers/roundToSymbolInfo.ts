@@ -0,0 +1,74 @@
+import { ISymbolInfo } from "../interfaces/Exchange.interface";
+
+/**
+ * Number of decimals of an increment (0.001 → 3, 1e-8 → 8). Used to strip the
+ * float noise left by multiplying back by the increment.
+ */
+const GET_DECIMALS_FN = (step: number): number => {
+  const [mantissa, exponent] = step.toExponential().split("e");
+  const fraction = mantissa.split(".")[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exponent));
+};
+
+/**
+ * Rounds a price to the nearest multiple of ISymbolInfo.tickSize.
+ *
+ * @param price - Raw price
+ * @param info - Symbol trading rules
+ * @returns Rounded price, or the price as is without tickSize
+ */
+export const roundPriceToTick = (price: number, info: ISymbolInfo): number => {
+  const { tickSize } = info;
+  if (!tickSize || tickSize <= 0) {
+    return price;
+  }
+  const rounded = Math.round(price / tickSize) * tickSize;
+  return Number(rounded.toFixed(GET_DECIMALS_FN(tickSize)));
+};
+
+/**
+ * Rounds the quantity bought for `cost` at `price` down to ISymbolInfo.stepSize
+ * and returns the cost of the rounded quantity.
+ *
+ * @param cost - Order cost in quote currency
+ * @param price - Order price
+ * @param info - Symbol trading rules
+ * @returns Cost of the rounded quantity, or the cost as is without stepSize
+ */
+export const roundCostToLot = (cost: number, price: number, info: ISymbolInfo): number => {
+  const { stepSize } = info;
+  if (!stepSize || stepSize <= 0) {
+    return cost;
+  }
+  // Epsilon keeps an exact multiple (0.3 / 0.1 = 2.9999999999999996) from losing a step
+  const steps = Math.floor(cost / price / stepSize + 1e-9);
+  const quantity = Number((steps * stepSize).toFixed(GET_DECIMALS_FN(stepSize)));
+  return quantity * price;
+};
+
+/**
+ * Checks an order of `cost` at `price` against minQty, maxQty and minNotional.
+ *
+ * @param cost - Order cost in quote currency (already rounded to the lot step)
+ * @param price - Order price
+ * @param info - Symbol trading rules
+ * @returns Reason of the violation, or null when the order is allowed
+ */
+export const getLotViolation = (cost: number, price: number, info: ISymbolInfo): string | null => {
+  const quantity = cost / price;
+  // Relative tolerance: cost / price of a rounded lot is not bit-exact
+  const tolerance = 1 - 1e-9;
+  if (quantity <= 0) {
+    return `quantity rounds to zero (cost=${cost}, price=${price}, stepSize=${info.stepSize})`;
+  }
+  if (info.minQty && quantity < info.minQty * tolerance) {
+    return `quantity ${quantity} is below minQty ${info.minQty}`;
+  }
+  if (info.maxQty && quantity * tolerance > info.maxQty) {
+    return `quantity ${quantity} is above maxQty ${info.maxQty}`;
+  }
+  if (info.minNotional && cost < info.minNotional * tolerance) {
+    return `notional ${cost} is below minNotional ${info.minNotional}`;
+  }
+  return null;
+};
@@ -6,6 +6,9 @@ interface Signal extends ISignalDto {
   priceOpen: number;
   _entry?: ISignalRow['_entry'];
   _partial?: ISignalRow['_partial'];
+  _exitFee?: ISignalRow['_exitFee'];
+  _exitSlippage?: ISignalRow['_exitSlippage'];
+  _fundingCost?: ISignalRow['_fundingCost'];
 }
 
 /**
@@ -21,6 +24,107 @@ interface Signal extends ISignalDto {
  */
 const PARTIAL_OVERCLOSE_RELATIVE_TOLERANCE = 1e-8;
 
+/**
+ * Cost-weighted percent of a per-entry fill cost (fee or slippage) across entries.
+ * Scheduled (maker) and DCA (taker) entries may be charged differently.
+ * When every entry carries the same percent it is returned as-is, so the flat
+ * CC_PERCENT_FEE / CC_PERCENT_SLIPPAGE case is not distorted by floating-point re-weighting.
+ */
+const getEntryWeighted = (
+  entries: NonNullable<ISignalRow['_entry']>,
+  key: "fee" | "slippage",
+  fallback: number
+): number => {
+  if (entries.length === 0) {
+    return fallback;
+  }
+  const first = entries[0][key] ?? fallback;
+  if (entries.every((e) => (e[key] ?? fallback) === first)) {
+    return first;
+  }
+  const totalCost = entries.reduce((s, e) => s + e.cost, 0);
+  return entries.reduce((s, e) => s + e.cost * (e[key] ?? fallback), 0) / totalCost;
+};
+
+/**
+ * Directional PNL percent of a single leg with slippage applied to both prices.
+ */
+const getLegPnl = (
+  position: Signal['position'],
+  priceOpen: number,
+  priceClose: number,
+  openSlippage: number,
+  closeSlippage: number
+) => {
+  const priceOpenWithSlippage =
+    position === "long"
+      ? priceOpen * (1 + openSlippage / 100)
+      : priceOpen * (1 - openSlippage / 100);
+
+  const priceCloseWithSlippage =
+    position === "long"
+      ? priceClose * (1 - closeSlippage / 100)
+      : priceClose * (1 + closeSlippage / 100);
+
+  const pnl =
+    position === "long"
+      ? ((priceCloseWithSlippage - priceOpenWithSlippage) / priceOpenWithSlippage) * 100
+      : ((priceOpenWithSlippage - priceCloseWithSlippage) / priceOpenWithSlippage) * 100;
+
+  const rawPnl =
+    position === "long"
+      ? ((priceClose - priceOpen) / priceOpen) * 100
+      : ((priceOpen - priceClose) / priceOpen) * 100;
+
+  return {
+    pnl,
+    rawPnl,
+    closeToOpen: priceCloseWithSlippage / priceOpenWithSlippage,
+  };
+};
+
+/**
+ * Margin-aware fields for leveraged positions.
+ * Unleveraged (spot) positions get none so existing snapshots stay unchanged.
+ */
+const getMarginFields = (
+  signal: Signal,
+  pnlPercentage: number
+): Pick<IStrategyPnL, "leverage" | "pnlMarginPercentage"> => {
+  const leverage = signal.leverage ?? 1;
+  if (leverage <= 1) {
+    return {};
+  }
+  return {
+    leverage,
+    pnlMarginPercentage: pnlPercentage * leverage,
+  };
+};
+
+/**
+ * Funding accrued on a perpetual position as percent of total invested.
+ * Positive when the position paid funding (reduces PNL).
+ */
+const getFundingPercent = (signal: Signal, totalInvested: number): number => {
+  if (!signal._fundingCost || totalInvested <= 0) {
+    return 0;
+  }
+  return (signal._fundingCost / totalInvested) * 100;
+};
+
+/**
+ * Funding breakdown field. Positions that never accrued funding get none
+ * so existing snapshots stay unchanged.
+ */
+const getFundingFields = (signal: Signal): Pick<IStrategyPnL, "fundingCost"> => {
+  if (signal._fundingCost === undefined) {
+    return {};
+  }
+  return {
+    fundingCost: signal._fundingCost,
+  };
+};
+
 /**
  * Calculates profit/loss for a closed signal with slippage and fees.
  *
@@ -31,9 +135,19 @@ const PARTIAL_OVERCLOSE_RELATIVE_TOLERANCE = 1e-8;
  * Partial effective price is computed from costBasisAtClose snapshot:
  *   effectivePrice = costBasisAtClose / Σ(entry.cost/entry.price for entries[0..entryCountAtClose])
  *
- * Fee structure:
- *   - Open fee:  CC_PERCENT_FEE (charged once)
- *   - Close fee: CC_PERCENT_FEE × weight × (closeWithSlip / openWithSlip) per partial/remaining
+ * Slippage (per-fill percents resolved via IExchangeSchema.slippage, CC_PERCENT_SLIPPAGE when absent):
+ *   - Open:  cost-weighted entry.slippage over entries existing at the leg
+ *   - Close: partial.slippage per partial, _exitSlippage for the remaining position
+ *
+ * Fee structure (per-fill percents resolved via IExchangeSchema.getFee, CC_PERCENT_FEE when absent):
+ *   - Open fee:  Σ(entry.fee × entry.cost) / totalInvested (charged once)
+ *   - Close fee: partial.fee × weight × (closeWithSlip / openWithSlip) per partial,
+ *                _exitFee × remainingWeight × (closeWithSlip / openWithSlip) for the remaining position
+ *
+ * slippageCost is the USD difference between the slippage-free and the slipped gross PNL.
+ *
+ * Funding accrued while the position was open (_fundingCost, USD) is subtracted
+ * from the net PNL and reported as fundingCost.
  *
  * @param signal - Closed signal with position details and optional partial history
  * @param priceClose - Actual close price at final exit
@@ -53,12 +167,19 @@ export const toProfitLossDto = (
 
   const priceOpen = getEffectivePriceOpen(signal);
 
+  const openFee = getEntryWeighted(entries, "fee", GLOBAL_CONFIG.CC_PERCENT_FEE);
+  const openSlippage = getEntryWeighted(entries, "slippage", GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE);
+
+  const exitFee = signal._exitFee ?? GLOBAL_CONFIG.CC_PERCENT_FEE;
+  const exitSlippage = signal._exitSlippage ?? GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE;
+
   // Calculate weighted PNL with partial closes
   if (signal._partial && signal._partial.length > 0) {
     let totalWeightedPnl = 0;
+    let totalWeightedRawPnl = 0;
 
     // Open fee is paid once for the whole position
-    let totalFees = GLOBAL_CONFIG.CC_PERCENT_FEE;
+    let totalFees = openFee;
 
     let closedDollarValue = 0;
 
@@ -80,28 +201,22 @@ export const toProfitLossDto = (
         entries, signal._partial!, i, signal.priceOpen
       );
 
-      const priceOpenWithSlippage =
-        signal.position === "long"
-          ? effectivePrice * (1 + GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100)
-          : effectivePrice * (1 - GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-
-      const priceCloseWithSlippage =
-        signal.position === "long"
-          ? partial.currentPrice * (1 - GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100)
-          : partial.currentPrice * (1 + GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-
-      const partialPnl =
-        signal.position === "long"
-          ? ((priceCloseWithSlippage - priceOpenWithSlippage) / priceOpenWithSlippage) * 100
-          : ((priceOpenWithSlippage - priceCloseWithSlippage) / priceOpenWithSlippage) * 100;
+      const { pnl, rawPnl, closeToOpen } = getLegPnl(
+        signal.position,
+        effectivePrice,
+        partial.currentPrice,
+        getEntryWeighted(entries.slice(0, partial.entryCountAtClose), "slippage", GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE),
+        partial.slippage ?? GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE
+      );
 
-      totalWeightedPnl += weight * partialPnl;
+      totalWeightedPnl += weight * pnl;
+      totalWeightedRawPnl += weight * rawPnl;
 
       // Close fee proportional to real dollar weight
       totalFees +=
-        GLOBAL_CONFIG.CC_PERCENT_FEE *
+        (partial.fee ?? GLOBAL_CONFIG.CC_PERCENT_FEE) *
         weight *
-        (priceCloseWithSlippage / priceOpenWithSlippage);
+        closeToOpen;
     }
 
     // Допуск absolute-OR-relative: см. PARTIAL_OVERCLOSE_RELATIVE_TOLERANCE
@@ -116,30 +231,24 @@ export const toProfitLossDto = (
     const remainingWeight = remainingDollarValue / totalInvested;
 
     if (remainingWeight > 0) {
-      const remainingOpenWithSlippage =
-        signal.position === "long"
-          ? priceOpen * (1 + GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100)
-          : priceOpen * (1 - GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-
-      const priceCloseWithSlippage =
-        signal.position === "long"
-          ? priceClose * (1 - GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100)
-          : priceClose * (1 + GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-
-      const remainingPnl =
-        signal.position === "long"
-          ? ((priceCloseWithSlippage - remainingOpenWithSlippage) / remainingOpenWithSlippage) * 100
-          : ((remainingOpenWithSlippage - priceCloseWithSlippage) / remainingOpenWithSlippage) * 100;
+      const { pnl, rawPnl, closeToOpen } = getLegPnl(
+        signal.position,
+        priceOpen,
+        priceClose,
+        openSlippage,
+        exitSlippage
+      );
 
-      totalWeightedPnl += remainingWeight * remainingPnl;
+      totalWeightedPnl += remainingWeight * pnl;
+      totalWeightedRawPnl += remainingWeight * rawPnl;
 
       totalFees +=
-        GLOBAL_CONFIG.CC_PERCENT_FEE *
+        exitFee *
         remainingWeight *
-        (priceCloseWithSlippage / remainingOpenWithSlippage);
+        closeToOpen;
     }
 
-    const pnlPercentage = totalWeightedPnl - totalFees;
+    const pnlPercentage = totalWeightedPnl - totalFees - getFundingPercent(signal, totalInvested);
 
     return {
       pnlPercentage,
@@ -147,36 +256,27 @@ export const toProfitLossDto = (
       priceClose,
       pnlCost: (pnlPercentage / 100) * totalInvested,
       pnlEntries: totalInvested,
+      feeOpenCost: (openFee / 100) * totalInvested,
+      feeCloseCost: ((totalFees - openFee) / 100) * totalInvested,
+      slippageCost: ((totalWeightedRawPnl - totalWeightedPnl) / 100) * totalInvested,
+      ...getFundingFields(signal),
+      ...getMarginFields(signal, pnlPercentage),
     };
   }
 
   // No partial closes
-  let priceOpenWithSlippage: number;
-  let priceCloseWithSlippage: number;
-
-  if (signal.position === "long") {
-    priceOpenWithSlippage = priceOpen * (1 + GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-    priceCloseWithSlippage = priceClose * (1 - GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-  } else {
-    priceOpenWithSlippage = priceOpen * (1 - GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-    priceCloseWithSlippage = priceClose * (1 + GLOBAL_CONFIG.CC_PERCENT_SLIPPAGE / 100);
-  }
-
-  const totalFee =
-    GLOBAL_CONFIG.CC_PERCENT_FEE *
-    (1 + priceCloseWithSlippage / priceOpenWithSlippage);
-
-  let pnlPercentage: number;
+  const { pnl, rawPnl, closeToOpen } = getLegPnl(
+    signal.position,
+    priceOpen,
+    priceClose,
+    openSlippage,
+    exitSlippage
+  );
 
-  if (signal.position === "long") {
-    pnlPercentage =
-      ((priceCloseWithSlippage - priceOpenWithSlippage) / priceOpenWithSlippage) * 100;
-  } else {
-    pnlPercentage =
-      ((priceOpenWithSlippage - priceCloseWithSlippage) / priceOpenWithSlippage) * 100;
-  }
+  const closeFee = exitFee * closeToOpen;
+  const totalFee = openFee + closeFee;
 
-  pnlPercentage -= totalFee;
+  const pnlPercentage = pnl - totalFee - getFundingPercent(signal, totalInvested);
 
   return {
     pnlPercentage,
@@ -184,6 +284,11 @@ export const toProfitLossDto = (
     priceClose,
     pnlCost: (pnlPercentage / 100) * totalInvested,
     pnlEntries: totalInvested,
+    feeOpenCost: (openFee / 100) * totalInvested,
+    feeCloseCost: (closeFee / 100) * totalInvested,
+    slippageCost: ((rawPnl - pnl) / 100) * totalInvested,
+    ...getFundingFields(signal),
+    ...getMarginFields(signal, pnlPercentage),
   };
 };
 
@@ -15,6 +15,7 @@ export {
   getActionSchema,
   getSweepSchema,
   getMCPSchema,
+  getAllocatorSchema,
 } from "./function/get";
 export {
   waitForReady,
@@ -52,6 +53,7 @@ export {
   getPositionInvestedCost,
   getPositionPnlPercent,
   getPositionPnlCost,
+  getPositionFundingCost,
   getPositionLevels,
   getPositionPartials,
   getPositionEntries,
@@ -103,6 +105,7 @@ export {
   addRiskSchema,
   addSweepSchema,
   addMCPSchema,
+  addAllocatorSchema,
 } from "./function/add";
 export {
   overrideActionSchema,
@@ -114,6 +117,7 @@ export {
   overrideWalkerSchema,
   overrideSweepSchema,
   overrideMCPSchema,
+  overrideAllocatorSchema,
 } from "./function/override";
 export {
   listExchangeSchema,
@@ -124,6 +128,7 @@ export {
   listRiskSchema,
   listSweepSchema,
   listMCPSchema,
+  listAllocatorSchema,
 } from "./function/list";
 export {
   listenSignal,
@@ -178,6 +183,8 @@ export {
   listenMaxDrawdownOnce,
   listenPause,
   listenPauseOnce,
+  listenCircuitTrip,
+  listenCircuitTripOnce,
   listenSignalNotify,
   listenSignalNotifyOnce,
   listenBeforeStart,
@@ -259,6 +266,7 @@ export {
   getContext,
   getSymbol,
   getRuntimeInfo,
+  getStrategyParams,
 } from "./function/meta";
 export {
   getLatestSignal,
@@ -301,6 +309,15 @@ export {
   IOrderBookData,
   IExchangeSchema,
   IAggregatedTradeData,
+  IFundingRateData,
+  ISymbolInfo,
+  FeeSide,
+  FeeOrderType,
+  ExchangeSlippage,
+  IExchangeSlippageFixed,
+  IExchangeSlippageVolumeParticipation,
+  IExchangeSlippageSquareRoot,
+  IExchangeSlippageOrderBook,
 } from "./interfaces/Exchange.interface";
 
 export {
@@ -367,9 +384,22 @@ export {
   StrategyCancelReason,
   StrategyCloseReason,
   IStrategyPnL,
+  ICurrencyConversion,
+  ICurrencyConversionLeg,
   CommitPayload,
   RuntimeData,
   StrategyStatus,
+  StrategyFillModel,
+  StrategyLatencyAction,
+  StrategyLatencyModel,
+  StrategyMarginMode,
+  StrategyParamValue,
+  StrategyParams,
+  IStrategyParam,
+  IStrategyNumberParam,
+  IStrategyIntegerParam,
+  IStrategyBooleanParam,
+  IStrategyChoiceParam,
 } from "./interfaces/Strategy.interface";
 
 export {
@@ -382,20 +412,27 @@ export {
   ITrailingTakeCommitRow,
 } from "./interfaces/Strategy.interface";
 
-export { FrameInterval, IFrameSchema } from "./interfaces/Frame.interface";
+export { FrameInterval, FrameBenchmark, IFrameSchema } from "./interfaces/Frame.interface";
 
 export {
   ISizingSchema,
   ISizingSchemaFixedPercentage,
   ISizingSchemaKelly,
   ISizingSchemaATR,
+  ISizingSchemaVolatilityTarget,
+  ISizingSchemaRiskParity,
+  SizingMethod,
   ISizingCalculateParams,
   ISizingCalculateParamsFixedPercentage,
   ISizingCalculateParamsKelly,
   ISizingCalculateParamsATR,
+  ISizingCalculateParamsVolatilityTarget,
+  ISizingCalculateParamsRiskParity,
   IPositionSizeFixedPercentageParams,
   IPositionSizeKellyParams,
   IPositionSizeATRParams,
+  IPositionSizeVolatilityTargetParams,
+  IPositionSizeRiskParityParams,
 } from "./interfaces/Sizing.interface";
 
 export {
@@ -403,6 +440,8 @@ export {
   ISizingParamsFixedPercentage,
   ISizingParamsKelly,
   ISizingParamsATR,
+  ISizingParamsVolatilityTarget,
+  ISizingParamsRiskParity,
 } from "./interfaces/Sizing.interface";
 
 export {
@@ -419,9 +458,33 @@ export {
   IWalkerSchema,
   IWalkerResults,
   IWalkerStrategyResult,
+  IWalkerWalkForward,
+  WalkForwardMode,
 } from "./interfaces/Walker.interface";
 
+export { OptimizerMethod, IOptimizerOptions } from "./interfaces/Optimizer.interface";
+export { MonteCarloMethod, IMonteCarloOptions } from "./interfaces/MonteCarlo.interface";
+
 export { IHeatmapRow } from "./interfaces/Heatmap.interface";
+export {
+  IPortfolioEquityPoint,
+  IPortfolioPosition,
+} from "./interfaces/Portfolio.interface";
+export {
+  AllocatorName,
+  IAllocation,
+  IAllocationSnapshot,
+  IAllocatorCallbacks,
+  IAllocatorSchema,
+  IAllocatorSchemaFixedWeight,
+  IAllocatorSchemaEqualRisk,
+  IAllocatorSchemaPerformanceWeighted,
+} from "./interfaces/Allocator.interface";
+export {
+  ITargetWeights,
+  IRebalanceEvent,
+  RebalanceAction,
+} from "./interfaces/Rebalance.interface";
 
 export { ColumnModel } from "./model/Column.model";
 
@@ -451,15 +514,37 @@ export {
   CancelScheduledCommitNotification,
   ClosePendingCommitNotification,
   StrategyPauseNotification,
+  CircuitTripNotification,
   SignalInfoNotification,
 } from "./model/Notification.model";
 
 export { BacktestStatisticsModel } from "./model/BacktestStatistics.model";
 export { LiveStatisticsModel } from "./model/LiveStatistics.model";
 export { HeatmapStatisticsModel } from "./model/HeatmapStatistics.model";
+export { PortfolioStatisticsModel } from "./model/PortfolioStatistics.model";
+export { AllocationStatisticsModel } from "./model/AllocationStatistics.model";
+export { RebalanceStatisticsModel } from "./model/RebalanceStatistics.model";
 export { ScheduleStatisticsModel } from "./model/ScheduleStatistics.model";
 export { PerformanceStatisticsModel } from "./model/PerformanceStatistics.model";
 export { WalkerStatisticsModel } from "./model/WalkerStatistics.model";
+export {
+  WalkForwardStatisticsModel,
+  IWalkForwardWindow,
+  IWalkForwardRange,
+} from "./model/WalkForwardStatistics.model";
+export {
+  OptimizerStatisticsModel,
+  IOptimizerCandidate,
+} from "./model/OptimizerStatistics.model";
+export { OverfittingStatisticsModel } from "./model/OverfittingStatistics.model";
+export {
+  SignificanceStatisticsModel,
+  ISignificanceComparison,
+} from "./model/SignificanceStatistics.model";
+export {
+  MonteCarloStatisticsModel,
+  IMonteCarloDistribution,
+} from "./model/MonteCarloStatistics.model";
 export { PartialStatisticsModel } from "./model/PartialStatistics.model";
 export { HighestProfitStatisticsModel } from "./model/HighestProfitStatistics.model";
 export { MaxDrawdownStatisticsModel } from "./model/MaxDrawdownStatistics.model";
@@ -487,6 +572,7 @@ export { IdlePingContract } from "./contract/IdlePing.contract";
 export { HighestProfitContract } from "./contract/HighestProfit.contract";
 export { MaxDrawdownContract } from "./contract/MaxDrawdown.contract";
 export { PauseContract } from "./contract/Pause.contract";
+export { CircuitTripContract, CircuitTripRule } from "./contract/CircuitTrip.contract";
 export { SignalInfoContract } from "./contract/SignalInfo.contract";
 export { BreakevenContract } from "./contract/Breakeven.contract";
 export { BeforeStartContract } from "./contract/BeforeStart.contract";
@@ -584,6 +670,16 @@ export {
   IPersistCandleInstance,
   PersistCandleInstance,
   TPersistCandleInstanceCtor,
+  FundingData,
+  PersistFundingAdapter,
+  IPersistFundingInstance,
+  PersistFundingInstance,
+  TPersistFundingInstanceCtor,
+  TradeData,
+  PersistTradeAdapter,
+  IPersistTradeInstance,
+  PersistTradeInstance,
+  TPersistTradeInstanceCtor,
   StorageData,
   PersistStorageAdapter,
   IPersistStorageInstance,
@@ -629,6 +725,11 @@ export {
   IPersistSessionInstance,
   PersistSessionInstance,
   TPersistSessionInstanceCtor,
+  CircuitData,
+  PersistCircuitAdapter,
+  IPersistCircuitInstance,
+  PersistCircuitInstance,
+  TPersistCircuitInstanceCtor,
 } from "./classes/Persist";
 
 export {
@@ -687,9 +788,18 @@ export { Schedule } from "./classes/Schedule";
 export { Lookup } from "./classes/Lookup";
 export { Performance } from "./classes/Performance";
 export { Walker } from "./classes/Walker";
+export { Optimizer } from "./classes/Optimizer";
 export { Heat } from "./classes/Heat";
+export { Portfolio } from "./classes/Portfolio";
+export { Allocation } from "./classes/Allocation";
+export { Rebalance } from "./classes/Rebalance";
 export { PositionSize } from "./classes/PositionSize";
 export { Position } from "./classes/Position";
+export { Fee } from "./classes/Fee";
+export { Latency } from "./classes/Latency";
+export { RiskValidation } from "./classes/RiskValidation";
+export { CircuitBreaker, ICircuitBreakerConfig } from "./classes/CircuitBreaker";
+export { TradeReplay } from "./classes/TradeReplay";
 export { Partial } from "./classes/Partial";
 export { HighestProfit } from "./classes/HighestProfit";
 export { MaxDrawdown } from "./classes/MaxDrawdown";
@@ -838,6 +948,7 @@ export { toProfitLossDto } from "./helpers/toProfitLossDto";
 export { toPlainString } from "./helpers/toPlainString";
 export { getEffectivePriceOpen } from "./helpers/getEffectivePriceOpen";
 export { getTotalClosed } from "./helpers/getTotalClosed";
+export { getLiquidationPrice } from "./helpers/getLiquidationPrice";
 export { getPriceScale } from "./helpers/getPriceScale";
 
 export { OrderDeletedError } from "./error/OrderDeletedError";
@@ -0,0 +1,202 @@
+import { ILogger } from "./Logger.interface";
+import { StrategyName } from "./Strategy.interface";
+import { ExchangeName } from "./Exchange.interface";
+import { FrameName, FrameInterval } from "./Frame.interface";
+
+/**
+ * Capital budget of one strategy at a point in time.
+ */
+export interface IAllocation {
+  /** Strategy owning the budget */
+  strategyName: StrategyName;
+  /** Share of account equity assigned at the last rebalance (0-1) */
+  weight: number;
+  /** Capital budget in USD: equity at the last rebalance × weight */
+  budget: number;
+  /** Margin in USD locked by open positions of the strategy */
+  used: number;
+}
+
+/**
+ * Allocation state recorded on a rebalance or a sized signal.
+ */
+export interface IAllocationSnapshot {
+  /** Event timestamp in milliseconds */
+  timestamp: number;
+  /** Why the snapshot was recorded */
+  reason: "rebalance" | "signal";
+  /** Strategy whose signal was sized (reason "signal" only) */
+  strategyName: StrategyName | null;
+  /** Budgets of every strategy of the allocator */
+  allocations: IAllocation[];
+}
+
+/**
+ * Callbacks for allocator lifecycle events.
+ */
+export interface IAllocatorCallbacks {
+  /**
+   * Called after weights and budgets are recomputed.
+   *
+   * @param allocations - New budgets of every strategy
+   * @param timestamp - Rebalance timestamp in milliseconds
+   */
+  onRebalance: (
+    allocations: IAllocation[],
+    timestamp: number
+  ) => void | Promise<void>;
+  /**
+   * Called after a signal cost is scaled to the strategy budget.
+   *
+   * @param strategyName - Strategy of the signal
+   * @param cost - Requested entry cost in USD
+   * @param allocatedCost - Entry cost after scaling, or null when the budget is exhausted
+   */
+  onAllocate: (
+    strategyName: StrategyName,
+    cost: number,
+    allocatedCost: number | null
+  ) => void | Promise<void>;
+}
+
+/**
+ * Base allocator schema with common fields.
+ */
+export interface IAllocatorSchemaBase {
+  /** Unique identifier for this allocator */
+  allocatorName: AllocatorName;
+  /** Optional developer note for documentation */
+  note?: string;
+  /** How often weights and budgets are recomputed (default: "1d") */
+  rebalanceInterval?: FrameInterval;
+  /** Optional lifecycle callbacks */
+  callbacks?: Partial<IAllocatorCallbacks>;
+}
+
+/**
+ * Fixed-weight allocator: every strategy owns a constant share of equity.
+ *
+ * @example
+ * ```typescript
+ * addAllocatorSchema({
+ *   allocatorName: "core-satellite",
+ *   method: "fixed-weight",
+ *   weights: { "trend-btc": 0.6, "mean-reversion": 0.4 },
+ * });
+ * ```
+ */
+export interface IAllocatorSchemaFixedWeight extends IAllocatorSchemaBase {
+  method: "fixed-weight";
+  /** Relative weight per strategy, normalized to sum to 1 */
+  weights: Record<StrategyName, number>;
+}
+
+/**
+ * Equal-risk allocator: weights are inversely proportional to the volatility
+ * of each strategy's closed-trade returns.
+ *
+ * @example
+ * ```typescript
+ * addAllocatorSchema({
+ *   allocatorName: "risk-balanced",
+ *   method: "equal-risk",
+ *   strategies: ["trend-btc", "mean-reversion"],
+ *   lookbackTrades: 30,
+ * });
+ * ```
+ */
+export interface IAllocatorSchemaEqualRisk extends IAllocatorSchemaBase {
+  method: "equal-risk";
+  /** Strategies sharing the account */
+  strategies: StrategyName[];
+  /** Number of latest closed trades used for volatility (default: 20) */
+  lookbackTrades?: number;
+}
+
+/**
+ * Performance-weighted allocator: weights are proportional to the mean
+ * return of each strategy's latest closed trades, losing strategies get nothing.
+ *
+ * @example
+ * ```typescript
+ * addAllocatorSchema({
+ *   allocatorName: "momentum-of-strategies",
+ *   method: "performance-weighted",
+ *   strategies: ["trend-btc", "mean-reversion"],
+ *   rebalanceInterval: "1d",
+ * });
+ * ```
+ */
+export interface IAllocatorSchemaPerformanceWeighted extends IAllocatorSchemaBase {
+  method: "performance-weighted";
+  /** Strategies sharing the account */
+  strategies: StrategyName[];
+  /** Number of latest closed trades used for the mean return (default: 20) */
+  lookbackTrades?: number;
+}
+
+/**
+ * Discriminated union for allocator schemas.
+ * Type-safe configuration based on allocation method.
+ */
+export type IAllocatorSchema =
+  | IAllocatorSchemaFixedWeight
+  | IAllocatorSchemaEqualRisk
+  | IAllocatorSchemaPerformanceWeighted;
+
+/**
+ * Allocator parameters passed to ClientAllocator constructor.
+ * Extends IAllocatorSchema with account accessors of the portfolio ledger.
+ */
+export type IAllocatorParams = IAllocatorSchema & {
+  /** Logger service for debug output */
+  logger: ILogger;
+  /** Exchange name of the shared account */
+  exchangeName: ExchangeName;
+  /** Frame name of the shared account (empty for live) */
+  frameName: FrameName;
+  /** Whether running in backtest mode */
+  backtest: boolean;
+  /** Reads account equity in USD */
+  getEquity: () => number;
+  /** Reads margin in USD locked by open positions of a strategy */
+  getUsage: (strategyName: StrategyName) => number;
+  /** Reads closed-trade returns (pnlPercentage) of a strategy, oldest first */
+  getReturns: (strategyName: StrategyName) => number[];
+};
+
+/**
+ * Allocator interface for capital budgeting across strategies.
+ * Used internally by strategy execution.
+ */
+export interface IAllocator {
+  /**
+   * Scales a signal entry cost to the budget of its strategy.
+   *
+   * @param strategyName - Strategy of the signal
+   * @param cost - Requested entry cost in USD
+   * @param leverage - Position leverage (margin = cost / leverage)
+   * @param when - Current execution time
+   * @returns Entry cost fitting the remaining budget, or null when nothing is left
+   */
+  allocate: (
+    strategyName: StrategyName,
+    cost: number,
+    leverage: number,
+    when: Date
+  ) => Promise<number | null>;
+  /**
+   * Returns the current budget and usage of every strategy.
+   */
+  getAllocations: () => IAllocation[];
+  /**
+   * Returns recorded allocation snapshots, oldest first.
+   */
+  getHistory: () => IAllocationSnapshot[];
+}
+
+/**
+ * Unique identifier for an allocator schema.
+ * Used to retrieve allocator instances via dependency injection.
+ */
+export type AllocatorName = string;
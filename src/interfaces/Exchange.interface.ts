@@ -95,6 +95,110 @@ export interface IAggregatedTradeData {
   isBuyerMaker: boolean;
 }
 
+/**
+ * Single funding settlement of a perpetual futures contract.
+ * Positive rate: longs pay shorts. Negative rate: shorts pay longs.
+ */
+export interface IFundingRateData {
+  /** Unix timestamp in milliseconds of the funding settlement */
+  timestamp: number;
+  /** Funding rate as a fraction of position notional (e.g., 0.0001 for 0.01%) */
+  fundingRate: number;
+}
+
+/**
+ * Trading rules of a symbol (Binance exchangeInfo PRICE_FILTER, LOT_SIZE, NOTIONAL).
+ * Every field is optional: a missing or zero value disables that rule.
+ */
+export interface ISymbolInfo {
+  /** Price increment; prices are rounded to the nearest multiple */
+  tickSize?: number;
+  /** Quantity increment; quantities are rounded down to a multiple */
+  stepSize?: number;
+  /** Minimum order quantity in base asset */
+  minQty?: number;
+  /** Maximum order quantity in base asset */
+  maxQty?: number;
+  /** Minimum order notional (quantity × price) in quote currency */
+  minNotional?: number;
+}
+
+/**
+ * Side of an order fill for fee calculation.
+ * Long positions open with "buy" and close with "sell", short positions the reverse.
+ */
+export type FeeSide = "buy" | "sell";
+
+/**
+ * Liquidity role of an order fill for fee calculation.
+ * - "maker": resting limit order (scheduled entries, optionally take-profit exits)
+ * - "taker": order crossing the book (market entries, DCA, partial and stop exits)
+ */
+export type FeeOrderType = "maker" | "taker";
+
+/**
+ * Fixed slippage: the same percent for every fill.
+ */
+export interface IExchangeSlippageFixed {
+  method: "fixed";
+  /** Slippage percent per fill (e.g., 0.1 for 0.1%) */
+  percent: number;
+}
+
+/**
+ * Volume-participation slippage: impact grows linearly with the share of
+ * recent quote volume the fill consumes.
+ *
+ * percent = basePercent + impact × (notional / quoteVolume × 100)
+ */
+export interface IExchangeSlippageVolumeParticipation {
+  method: "volume-participation";
+  /** Impact coefficient: slippage percent per 1% of quote volume consumed */
+  impact: number;
+  /** Constant component added to every fill (default: 0) */
+  basePercent?: number;
+  /** Number of 1m candles summed into quote volume (default: CC_AVG_PRICE_CANDLES_COUNT) */
+  candles?: number;
+}
+
+/**
+ * Square-root market impact: impact = impact × σ × √(notional / quoteVolume),
+ * where σ is the standard deviation of 1m returns over the same candle window (percent).
+ *
+ * percent = basePercent + impact × σ × √(notional / quoteVolume)
+ */
+export interface IExchangeSlippageSquareRoot {
+  method: "square-root";
+  /** Impact coefficient (Y in the square-root law, typically 0.5-1) */
+  impact: number;
+  /** Constant component added to every fill (default: 0) */
+  basePercent?: number;
+  /** Number of 1m candles used for quote volume and volatility (default: CC_AVG_PRICE_CANDLES_COUNT) */
+  candles?: number;
+}
+
+/**
+ * Order-book walk: the fill consumes ask levels (buy) or bid levels (sell)
+ * until the notional is covered; slippage is the distance of the average fill
+ * price from the best level. Requires IExchangeSchema.getOrderBook.
+ */
+export interface IExchangeSlippageOrderBook {
+  method: "order-book";
+  /** Order book depth to request (default: CC_ORDER_BOOK_MAX_DEPTH_LEVELS) */
+  depth?: number;
+  /** Slippage percent when the order book is not available (default: CC_PERCENT_SLIPPAGE) */
+  fallbackPercent?: number;
+}
+
+/**
+ * Slippage model selectable per exchange schema.
+ */
+export type ExchangeSlippage =
+  | IExchangeSlippageFixed
+  | IExchangeSlippageVolumeParticipation
+  | IExchangeSlippageSquareRoot
+  | IExchangeSlippageOrderBook;
+
 /**
  * Exchange parameters passed to ClientExchange constructor.
  * Combines schema with runtime dependencies.
@@ -115,6 +219,8 @@ export interface IExchangeParams extends IExchangeSchema {
   getOrderBook: (symbol: string, depth: number, from: Date, to: Date, backtest: boolean) => Promise<IOrderBookData>;
   /** Fetch aggregated trades for a trading pair (required, defaults applied) */
   getAggregatedTrades: (symbol: string, from: Date, to: Date, backtest: boolean) => Promise<IAggregatedTradeData[]>;
+  /** Resolve fee percent for an order fill (required, defaults applied) */
+  getFee: (symbol: string, side: FeeSide, orderType: FeeOrderType, notional: number, when: Date, backtest: boolean) => Promise<number>;
 }
 
 /**
@@ -234,7 +340,105 @@ export interface IExchangeSchema {
    * ```
    */
   getAggregatedTrades?: (symbol: string, from: Date, to: Date, backtest: boolean) => Promise<IAggregatedTradeData[]>;
-  
+
+  /**
+   * Resolve fee percent charged for a single order fill.
+   *
+   * Optional. If not provided, every fill is charged CC_PERCENT_FEE.
+   * Called when a position entry, DCA entry, partial close or final close is filled.
+   * The returned percent is applied to the fill notional. Negative values are rebates.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param side - Fill side: "buy" or "sell"
+   * @param orderType - Liquidity role: "maker" (scheduled entries, TP exits when CC_TAKE_PROFIT_MAKER_FEE) or "taker"
+   * @param notional - Fill notional in USD
+   * @param when - Fill timestamp
+   * @param backtest - Whether running in backtest mode
+   * @returns Promise resolving to fee percent (e.g., 0.1 for 0.1%)
+   * @example
+   * ```typescript
+   * import { Fee } from "backtest-kit";
+   *
+   * addExchangeSchema({
+   *   exchangeName: "binance",
+   *   getCandles,
+   *   getFee: Fee.makerTaker({ maker: 0.02, taker: 0.05 }),
+   * });
+   * ```
+   */
+  getFee?: (symbol: string, side: FeeSide, orderType: FeeOrderType, notional: number, when: Date, backtest: boolean) => Promise<number>;
+
+  /**
+   * Fetch funding settlements of a perpetual contract for a time range.
+   *
+   * Optional. If not provided, positions accrue no funding (spot behavior).
+   * Results are cached per day via PersistFundingAdapter, so the range passed
+   * here is aligned to whole UTC days and may extend past the execution time.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param from - Start of time range (inclusive)
+   * @param to - End of time range (exclusive)
+   * @param backtest - Whether running in backtest mode
+   * @returns Promise resolving to funding settlements within the range
+   * @example
+   * ```typescript
+   * const getFundingRates = async (symbol: string, from: Date, to: Date) => {
+   *   const rows = await binance.fapiPublicGetFundingRate({
+   *     symbol, startTime: from.getTime(), endTime: to.getTime() - 1, limit: 1000,
+   *   });
+   *   return rows.map((row) => ({ timestamp: row.fundingTime, fundingRate: Number(row.fundingRate) }));
+   * };
+   * ```
+   */
+  getFundingRates?: (symbol: string, from: Date, to: Date, backtest: boolean) => Promise<IFundingRateData[]>;
+
+  /**
+   * Fetch trading rules of a symbol: tick size, lot step, min/max quantity and min notional.
+   *
+   * Optional. If not provided, prices and costs are used as is.
+   * When provided, signal prices are rounded to tickSize, entry and partial close
+   * quantities are rounded down to stepSize, and orders breaking minQty, maxQty or
+   * minNotional are rejected with an error.validation notification.
+   * Called before every order, so cache exchangeInfo inside the adapter.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param backtest - Whether running in backtest mode
+   * @returns Promise resolving to symbol trading rules
+   * @example
+   * ```typescript
+   * const getSymbolInfo = async (symbol: string) => {
+   *   const { symbols: [info] } = await binance.publicGetExchangeInfo({ symbol });
+   *   const filter = (type: string) => info.filters.find((f: any) => f.filterType === type);
+   *   return {
+   *     tickSize: Number(filter("PRICE_FILTER").tickSize),
+   *     stepSize: Number(filter("LOT_SIZE").stepSize),
+   *     minQty: Number(filter("LOT_SIZE").minQty),
+   *     maxQty: Number(filter("LOT_SIZE").maxQty),
+   *     minNotional: Number(filter("NOTIONAL").minNotional),
+   *   };
+   * };
+   * ```
+   */
+  getSymbolInfo?: (symbol: string, backtest: boolean) => Promise<ISymbolInfo>;
+
+  /**
+   * Slippage model applied to every order fill.
+   *
+   * Optional. If not provided, every fill slips by CC_PERCENT_SLIPPAGE.
+   * Liquidity-aware models read recent 1m candles or the order book at fill time.
+   *
+   * @example
+   * ```typescript
+   * addExchangeSchema({
+   *   exchangeName: "binance",
+   *   getCandles,
+   *   getOrderBook,
+   *   slippage: { method: "order-book", fallbackPercent: 0.05 },
+   * });
+   * ```
+   */
+  slippage?: ExchangeSlippage;
+
   /** Optional lifecycle event callbacks (onCandleData) */
   callbacks?: Partial<IExchangeCallbacks>;
 }
@@ -328,6 +532,72 @@ export interface IExchange {
    */
   getAggregatedTrades: (symbol: string, limit?: number) => Promise<IAggregatedTradeData[]>;
 
+  /**
+   * Fetch aggregated trades forward from execution context time (for backtest).
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param minutes - Number of whole minutes to fetch starting at the current minute
+   * @returns Promise resolving to aggregated trades sorted by timestamp
+   */
+  getNextAggregatedTrades: (symbol: string, minutes: number) => Promise<IAggregatedTradeData[]>;
+
+  /**
+   * Resolve fee percent charged for an order fill.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param side - Fill side: "buy" or "sell"
+   * @param orderType - Liquidity role: "maker" or "taker"
+   * @param notional - Fill notional in USD
+   * @param when - Fill timestamp
+   * @returns Promise resolving to fee percent (negative for rebates)
+   */
+  getFee: (symbol: string, side: FeeSide, orderType: FeeOrderType, notional: number, when: Date) => Promise<number>;
+
+  /**
+   * Resolve slippage percent for an order fill using market data at execution context time.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param side - Fill side: "buy" or "sell"
+   * @param notional - Fill notional in USD
+   * @returns Promise resolving to non-negative slippage percent
+   */
+  getSlippage: (symbol: string, side: FeeSide, notional: number) => Promise<number>;
+
+  /**
+   * Fetch funding settlements for a time range, clamped to execution context time.
+   *
+   * Returns an empty array when the exchange schema has no getFundingRates.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param from - Start of time range (exclusive)
+   * @param to - End of time range (inclusive, clamped to execution context time)
+   * @returns Promise resolving to funding settlements sorted by timestamp
+   */
+  getFundingRates: (symbol: string, from: Date, to: Date) => Promise<IFundingRateData[]>;
+
+  /**
+   * Fetch trading rules of a symbol.
+   *
+   * Returns null when the exchange schema has no getSymbolInfo.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @returns Promise resolving to symbol trading rules or null
+   */
+  getSymbolInfo: (symbol: string) => Promise<ISymbolInfo | null>;
+
+  /**
+   * Probe the last candles of a symbol before execution context time.
+   *
+   * Makes a single adapter call: no retries, no candle lock, no cache and
+   * no console output. Used for pairs that may not exist on the exchange.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param interval - Candle interval (e.g., "1m")
+   * @param limit - Number of candles to fetch
+   * @returns Promise resolving to candles, or null when unavailable
+   */
+  probeCandles: (symbol: string, interval: CandleInterval, limit: number) => Promise<ICandleData[] | null>;
+
   /**
    * Fetch raw candles with flexible date/limit parameters.
    *
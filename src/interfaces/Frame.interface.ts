@@ -22,6 +22,14 @@ export type FrameInterval =
   | "12h"
   | "1d";
 
+/**
+ * Benchmark the backtest statistics of a frame are compared against.
+ *
+ * - "buy-and-hold": holding the traded symbol over the frame window
+ * - `{ symbol }`: holding another symbol of the same exchange (e.g. "BTCUSDT")
+ */
+export type FrameBenchmark = "buy-and-hold" | { symbol: string };
+
 /**
  * Frame parameters passed to ClientFrame constructor.
  * Extends IFrameSchema with logger instance for internal logging.
@@ -84,6 +92,8 @@ export interface IFrameSchema {
   startDate: Date;
   /** End of backtest period (inclusive) */
   endDate: Date;
+  /** Optional benchmark for alpha, beta and excess return in backtest and walker statistics */
+  benchmark?: FrameBenchmark;
   /** Optional lifecycle callbacks */
   callbacks?: Partial<IFrameCallbacks>;
 }
@@ -7,6 +7,8 @@ export interface IHeatmapRow {
   symbol: string;
   /** Total profit/loss percentage across all closed trades */
   totalPnl: number | null;
+  /** Total profit/loss in the reporting currency (CC_REPORTING_CURRENCY, quote currency when disabled), null if only some trades were converted */
+  totalPnlCost: number | null;
   /** Risk-adjusted return per trade (Sharpe Ratio = avgPnl / stdDev) */
   sharpeRatio: number | null;
   /** Maximum drawdown percentage (largest peak-to-trough decline) */
@@ -0,0 +1,26 @@
+/**
+ * Resampling method of a Monte Carlo run.
+ *
+ * - "shuffle" - permutes the closed signals (same trades, different order);
+ *   path metrics like max drawdown and losing streaks vary, totals do not
+ * - "bootstrap" - draws signals with replacement, every metric varies
+ * - "block" - circular block bootstrap: draws runs of `blockSize` consecutive
+ *   signals with replacement, keeping short-range dependence between trades
+ */
+export type MonteCarloMethod = "shuffle" | "bootstrap" | "block";
+
+/**
+ * Options of a Monte Carlo run.
+ */
+export interface IMonteCarloOptions {
+  /** Resampling method (default: "bootstrap") */
+  method?: MonteCarloMethod;
+  /** Number of resampled equity paths (default: 1000) */
+  simulations?: number;
+  /** Seed of the random sampler, same seed gives the same paths (default: 42) */
+  seed?: number;
+  /** Block length of the "block" method in signals (default: round(√N)) */
+  blockSize?: number;
+  /** Equity drawdown in percent counted as ruin (default: 50) */
+  ruinDrawdown?: number;
+}
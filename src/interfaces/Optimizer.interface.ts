@@ -0,0 +1,30 @@
+import { WalkerMetric } from "./Walker.interface";
+
+/**
+ * Search method of the optimizer.
+ *
+ * - "grid" - every combination of the parameter grid
+ * - "random" - `trials` seeded random combinations
+ * - "halving" - successive halving over `trials` seeded random combinations:
+ *   every rung backtests the survivors on a longer prefix of the frame
+ *   and keeps the best `1 / eta` of them, the last rung runs the full frame
+ */
+export type OptimizerMethod = "grid" | "random" | "halving";
+
+/**
+ * Options of an optimizer run.
+ */
+export interface IOptimizerOptions {
+  /** Search method */
+  method: OptimizerMethod;
+  /** Metric used to rank candidates (default: "sharpeRatio") */
+  metric?: WalkerMetric;
+  /** Number of sampled combinations for "random" and "halving" (default: 20) */
+  trials?: number;
+  /** Seed of the random sampler, same seed gives the same candidates (default: 42) */
+  seed?: number;
+  /** Reduction factor of successive halving, must be at least 2 (default: 3) */
+  eta?: number;
+  /** Maximum number of backtests running in parallel (default: 4), 1 for strategies with risk, allocator or sizing */
+  concurrency?: number;
+}
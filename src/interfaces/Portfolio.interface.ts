@@ -0,0 +1,38 @@
+import { StrategyName } from "./Strategy.interface";
+
+/**
+ * One point of the portfolio equity curve.
+ * Recorded on every opened, active and closed tick of any symbol in the ledger.
+ */
+export interface IPortfolioEquityPoint {
+  /** Unix timestamp in milliseconds of the tick that produced this point */
+  timestamp: number;
+  /** Account value in USD: cash + positionValue */
+  equity: number;
+  /** Free cash in USD: starting capital + realized PnL − margin of open positions */
+  cash: number;
+  /** Marked-to-market value of open positions in USD: margin + unrealized PnL */
+  positionValue: number;
+  /** Cumulative realized PnL of closed positions in USD */
+  realizedPnl: number;
+  /** Unrealized PnL of open positions in USD */
+  unrealizedPnl: number;
+}
+
+/**
+ * Open position held by the portfolio ledger.
+ */
+export interface IPortfolioPosition {
+  /** Signal identifier of the position */
+  signalId: string;
+  /** Trading pair symbol (e.g., "BTCUSDT") */
+  symbol: string;
+  /** Strategy that opened the position */
+  strategyName: StrategyName;
+  /** Cash locked by the position in USD: invested cost / leverage */
+  margin: number;
+  /** Unrealized PnL in USD at the last tick */
+  pnlCost: number;
+  /** Reporting currency units per quote currency unit at the open (1 without conversion) */
+  rate: number;
+}
@@ -0,0 +1,117 @@
+import { ILogger } from "./Logger.interface";
+import { ISignalDto, SignalInterval, StrategyName } from "./Strategy.interface";
+import { ExchangeName, FeeSide } from "./Exchange.interface";
+import { FrameName } from "./Frame.interface";
+
+/**
+ * Target share of account equity per symbol (0-1).
+ * Symbols missing from the record have a target weight of 0.
+ *
+ * @example
+ * ```typescript
+ * // hold 40% BTC, 30% ETH, 30% cash
+ * { BTCUSDT: 0.4, ETHUSDT: 0.3 }
+ * ```
+ */
+export type ITargetWeights = Record<string, number>;
+
+/**
+ * Position change made by a portfolio strategy to reach its target weight.
+ *
+ * - open: new position sized as equity × target weight
+ * - average-buy: position increased by commitAverageBuy
+ * - partial-profit / partial-loss: position reduced by a partial close
+ * - close: position closed because the target weight dropped to 0
+ */
+export type RebalanceAction =
+  | "open"
+  | "average-buy"
+  | "partial-profit"
+  | "partial-loss"
+  | "close";
+
+/**
+ * Rebalance event recorded for the portfolio strategy report.
+ */
+export interface IRebalanceEvent {
+  /** Trading pair symbol */
+  symbol: string;
+  /** Event timestamp in milliseconds */
+  timestamp: number;
+  /** Position change made to reach the target weight */
+  action: RebalanceAction;
+  /** Target share of equity returned by getTargetWeights (0-1) */
+  targetWeight: number;
+  /** Share of equity held before the change (0-1) */
+  currentWeight: number;
+  /** Traded notional in USD */
+  tradeCost: number;
+  /** Taker fee on the traded notional in USD (exchange fee model) */
+  turnoverCost: number;
+  /** False when the commit pipeline rejected the change (DCA or partial close rules) */
+  executed: boolean;
+}
+
+/**
+ * Rebalancer parameters passed to ClientRebalancer constructor.
+ * Built from the portfolio strategy schema and the portfolio ledger.
+ */
+export interface IRebalancerParams {
+  /** Logger service for debug output */
+  logger: ILogger;
+  /** Portfolio strategy name */
+  strategyName: StrategyName;
+  /** Exchange name of the shared account */
+  exchangeName: ExchangeName;
+  /** Frame name of the shared account (empty for live) */
+  frameName: FrameName;
+  /** Whether running in backtest mode */
+  backtest: boolean;
+  /** How often target weights are requested and positions rebalanced */
+  interval: SignalInterval;
+  /** Minimum drift from the target in percentage points of equity before a position is changed */
+  driftThreshold: number;
+  /** Target weights of the portfolio strategy */
+  getTargetWeights: (when: Date, backtest: boolean) => Promise<ITargetWeights>;
+  /** Reads account equity in USD */
+  getEquity: () => number;
+  /** Resolves the taker fee percent of a fill with the exchange fee model */
+  getFee: (symbol: string, side: FeeSide, notional: number, when: Date) => Promise<number>;
+}
+
+/**
+ * Rebalancer interface for target-weight portfolio strategies.
+ * Used internally by strategy execution.
+ */
+export interface IRebalancer {
+  /**
+   * Builds the opening signal of a symbol from its target weight.
+   *
+   * @param symbol - Trading pair symbol
+   * @param when - Current execution time
+   * @param currentPrice - Current market price
+   * @returns Long signal sized as equity × target weight, or null when the target is 0
+   */
+  getSignal: (symbol: string, when: Date, currentPrice: number) => Promise<ISignalDto | null>;
+  /**
+   * Records the opening of a position created by getSignal.
+   *
+   * @param symbol - Trading pair symbol
+   * @param cost - Entry cost in USD
+   * @param timestamp - Open timestamp in milliseconds
+   */
+  commitOpen: (symbol: string, cost: number, timestamp: number) => Promise<void>;
+  /**
+   * Moves an open position toward its target weight when the drift exceeds the threshold.
+   * Runs at most once per interval and symbol.
+   *
+   * @param symbol - Trading pair symbol
+   * @param currentPrice - Current market price
+   * @param when - Current execution time
+   */
+  rebalance: (symbol: string, currentPrice: number, when: Date) => Promise<void>;
+  /**
+   * Returns recorded rebalance events, oldest first.
+   */
+  getEvents: () => IRebalanceEvent[];
+}
@@ -68,6 +68,8 @@ export interface IRiskActivePosition {
   minuteEstimatedTime: number;
   /** Timestamp when the position was opened */
   openTimestamp: number;
+  /** Position cost in USD (absent in positions persisted by older versions) */
+  cost?: number;
 }
 
 
@@ -95,6 +97,8 @@ export interface IRiskValidationPayload extends IRiskCheckArgs {
   activePositionCount: number;
   /** List of currently active positions across all strategies */
   activePositions: IRiskActivePosition[];
+  /** True if backtest mode, false if live mode */
+  backtest: boolean;
 }
 
 /**
@@ -250,6 +254,7 @@ export interface IRisk {
       priceTakeProfit: number;
       minuteEstimatedTime: number;
       openTimestamp: number;
+      cost?: number;
     }
   ) => Promise<void>;
 
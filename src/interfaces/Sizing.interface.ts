@@ -1,4 +1,5 @@
 import { ILogger } from "./Logger.interface";
+import { CandleInterval, IExchange } from "./Exchange.interface";
 
 /**
  * Base parameters common to all sizing calculations.
@@ -38,6 +39,16 @@ export interface IPositionSizeATRParams extends ISizingCalculateParamsBase {
   atr: number;
 }
 
+/**
+ * Public API parameters for volatility target sizing (without method field).
+ */
+export interface IPositionSizeVolatilityTargetParams extends ISizingCalculateParamsBase {}
+
+/**
+ * Public API parameters for risk parity sizing (without method field).
+ */
+export interface IPositionSizeRiskParityParams extends ISizingCalculateParamsBase {}
+
 /**
  * Parameters for fixed percentage sizing calculation.
  */
@@ -67,6 +78,22 @@ export interface ISizingCalculateParamsATR extends ISizingCalculateParamsBase {
   atr: number;
 }
 
+/**
+ * Parameters for volatility target sizing calculation.
+ * Realized volatility is computed from candles, no extra inputs are needed.
+ */
+export interface ISizingCalculateParamsVolatilityTarget extends ISizingCalculateParamsBase {
+  method: "volatility-target";
+}
+
+/**
+ * Parameters for risk parity sizing calculation.
+ * Held symbols and their volatility are resolved from the portfolio and candles.
+ */
+export interface ISizingCalculateParamsRiskParity extends ISizingCalculateParamsBase {
+  method: "risk-parity";
+}
+
 /**
  * Discriminated union for position size calculation parameters.
  * Type-safe parameters based on sizing method.
@@ -74,40 +101,57 @@ export interface ISizingCalculateParamsATR extends ISizingCalculateParamsBase {
 export type ISizingCalculateParams =
   | ISizingCalculateParamsFixedPercentage
   | ISizingCalculateParamsKelly
-  | ISizingCalculateParamsATR;
+  | ISizingCalculateParamsATR
+  | ISizingCalculateParamsVolatilityTarget
+  | ISizingCalculateParamsRiskParity;
 
 /**
- * Fixed percentage sizing parameters for ClientSizing constructor.
+ * Services shared by every ClientSizing regardless of the sizing method.
  */
-export interface ISizingParamsFixedPercentage extends ISizingSchemaFixedPercentage {
+export interface ISizingParamsBase {
   /** Logger service for debug output */
   logger: ILogger;
+  /** Exchange service for lookback candles (routes by method context) */
+  exchange: IExchange;
+  /** Symbols with open positions in the portfolio ledger of the current context */
+  getHeldSymbols: () => string[];
 }
 
+/**
+ * Fixed percentage sizing parameters for ClientSizing constructor.
+ */
+export interface ISizingParamsFixedPercentage extends ISizingSchemaFixedPercentage, ISizingParamsBase {}
+
 /**
  * Kelly Criterion sizing parameters for ClientSizing constructor.
  */
-export interface ISizingParamsKelly extends ISizingSchemaKelly {
-  /** Logger service for debug output */
-  logger: ILogger;
-}
+export interface ISizingParamsKelly extends ISizingSchemaKelly, ISizingParamsBase {}
 
 /**
  * ATR-based sizing parameters for ClientSizing constructor.
  */
-export interface ISizingParamsATR extends ISizingSchemaATR {
-  /** Logger service for debug output */
-  logger: ILogger;
-}
+export interface ISizingParamsATR extends ISizingSchemaATR, ISizingParamsBase {}
+
+/**
+ * Volatility target sizing parameters for ClientSizing constructor.
+ */
+export interface ISizingParamsVolatilityTarget extends ISizingSchemaVolatilityTarget, ISizingParamsBase {}
+
+/**
+ * Risk parity sizing parameters for ClientSizing constructor.
+ */
+export interface ISizingParamsRiskParity extends ISizingSchemaRiskParity, ISizingParamsBase {}
 
 /**
  * Discriminated union for sizing parameters passed to ClientSizing constructor.
- * Extends ISizingSchema with logger instance for internal logging.
+ * Extends ISizingSchema with the services of ISizingParamsBase.
  */
 export type ISizingParams =
   | ISizingParamsFixedPercentage
   | ISizingParamsKelly
-  | ISizingParamsATR;
+  | ISizingParamsATR
+  | ISizingParamsVolatilityTarget
+  | ISizingParamsRiskParity;
 
 /**
  * Callbacks for sizing lifecycle events.
@@ -201,6 +245,53 @@ export interface ISizingSchemaATR extends ISizingSchemaBase {
   atrMultiplier?: number;
 }
 
+/**
+ * Volatility target sizing schema.
+ * Sizes the position so that its annualized realized volatility matches the target.
+ *
+ * @example
+ * ```typescript
+ * addSizing({
+ *   sizingName: "vol-target",
+ *   method: "volatility-target",
+ *   targetVolatility: 20,
+ *   lookback: 30,
+ *   interval: "1d",
+ * });
+ * ```
+ */
+export interface ISizingSchemaVolatilityTarget extends ISizingSchemaBase {
+  method: "volatility-target";
+  /** Annualized volatility target in percent (e.g., 20 for 20%) */
+  targetVolatility: number;
+  /** Number of candle returns used for realized volatility */
+  lookback: number;
+  /** Candle interval used for realized volatility */
+  interval: CandleInterval;
+}
+
+/**
+ * Risk parity sizing schema.
+ * Splits the account between the held symbols and the new one by inverse volatility.
+ *
+ * @example
+ * ```typescript
+ * addSizing({
+ *   sizingName: "parity",
+ *   method: "risk-parity",
+ *   lookback: 30,
+ *   interval: "1d",
+ * });
+ * ```
+ */
+export interface ISizingSchemaRiskParity extends ISizingSchemaBase {
+  method: "risk-parity";
+  /** Number of candle returns used for realized volatility */
+  lookback: number;
+  /** Candle interval used for realized volatility */
+  interval: CandleInterval;
+}
+
 /**
  * Discriminated union for sizing schemas.
  * Type-safe configuration based on sizing method.
@@ -208,7 +299,14 @@ export interface ISizingSchemaATR extends ISizingSchemaBase {
 export type ISizingSchema =
   | ISizingSchemaFixedPercentage
   | ISizingSchemaKelly
-  | ISizingSchemaATR;
+  | ISizingSchemaATR
+  | ISizingSchemaVolatilityTarget
+  | ISizingSchemaRiskParity;
+
+/**
+ * Sizing method identifier.
+ */
+export type SizingMethod = ISizingSchema["method"];
 
 /**
  * Sizing interface for position size calculation.
@@ -7,6 +7,9 @@ import { IPartial } from "./Partial.interface";
 import { IBreakeven } from "./Breakeven.interface";
 import { FrameName } from "./Frame.interface";
 import { ActionName } from "./Action.interface";
+import { AllocatorName } from "./Allocator.interface";
+import { SizingName } from "./Sizing.interface";
+import { ITargetWeights } from "./Rebalance.interface";
 import { StrategyCommitContract } from "../contract/StrategyCommit.contract";
 import { OrderSyncContract } from "../contract/OrderSync.contract";
 import { OrderCheckContract } from "../contract/OrderCheck.contract";
@@ -137,6 +140,117 @@ export type SignalInterval =
   | "30m"
   | "1h";
 
+/**
+ * Intrabar fill model for backtest TP/SL, trailing levels and scheduled activation.
+ * See GLOBAL_CONFIG.CC_BACKTEST_FILL_MODEL for the semantics of each mode.
+ */
+export type StrategyFillModel = "vwap" | "wick" | "pessimistic" | "tick";
+
+/**
+ * Strategy action delayed by the backtest order latency model.
+ * "open" is a market entry from getSignal, "close" is closePending(),
+ * the rest are the matching commit* actions on an open position.
+ */
+export type StrategyLatencyAction =
+  | "open"
+  | "close"
+  | "partial-profit"
+  | "partial-loss"
+  | "trailing-stop"
+  | "trailing-take"
+  | "breakeven"
+  | "average-buy";
+
+/**
+ * Backtest order latency model: milliseconds between the strategy issuing an
+ * action and the action reaching the exchange. See the Latency class for built-ins.
+ */
+export type StrategyLatencyModel = {
+  (action: StrategyLatencyAction): number;
+  /**
+   * Creates an independent copy of a stateful model (e.g. a seeded generator).
+   * Called once per strategy instance, so every backtest run replays the same delays.
+   */
+  fork?: () => StrategyLatencyModel;
+};
+
+/**
+ * Value of a strategy parameter.
+ */
+export type StrategyParamValue = number | string | boolean;
+
+/**
+ * Current parameter values of a strategy, keyed by parameter name.
+ */
+export type StrategyParams = Record<string, StrategyParamValue>;
+
+/**
+ * Real-valued strategy parameter. Without step the grid search uses 5 evenly spaced values.
+ */
+export interface IStrategyNumberParam {
+  type: "number";
+  /** Lower bound (inclusive) */
+  min: number;
+  /** Upper bound (inclusive) */
+  max: number;
+  /** Optional grid step, random values are snapped to it */
+  step?: number;
+  /** Value used outside of parameter search */
+  default: number;
+}
+
+/**
+ * Integer strategy parameter. Step defaults to 1.
+ */
+export interface IStrategyIntegerParam {
+  type: "integer";
+  /** Lower bound (inclusive) */
+  min: number;
+  /** Upper bound (inclusive) */
+  max: number;
+  /** Optional grid step (default: 1) */
+  step?: number;
+  /** Value used outside of parameter search */
+  default: number;
+}
+
+/**
+ * Boolean strategy parameter (feature toggle).
+ */
+export interface IStrategyBooleanParam {
+  type: "boolean";
+  /** Value used outside of parameter search */
+  default: boolean;
+}
+
+/**
+ * Strategy parameter with a fixed set of values.
+ */
+export interface IStrategyChoiceParam {
+  type: "choice";
+  /** Allowed values */
+  values: (string | number)[];
+  /** Value used outside of parameter search, must be one of values */
+  default: string | number;
+}
+
+/**
+ * Typed strategy parameter declaration with its search range.
+ */
+export type IStrategyParam =
+  | IStrategyNumberParam
+  | IStrategyIntegerParam
+  | IStrategyBooleanParam
+  | IStrategyChoiceParam;
+
+/**
+ * Margin mode of a leveraged position.
+ * - "isolated": only the position margin (cost / leverage) backs the position
+ * - "cross": the position margin plus GLOBAL_CONFIG.CC_CROSS_MARGIN_WALLET_BALANCE,
+ *   assumed in full for each position (not shared between positions)
+ */
+export type StrategyMarginMode = "isolated" | "cross";
+
 /**
  * Signal data transfer object returned by getSignal.
  * Will be validated and augmented with auto-generated id.
@@ -162,8 +276,19 @@ export interface ISignalDto {
    * Default: GLOBAL_CONFIG.CC_MAX_SIGNAL_LIFETIME_MINUTES
    */
   minuteEstimatedTime?: number;
-  /** Cost of this entry in USD. Default: GLOBAL_CONFIG.CC_POSITION_ENTRY_COST */
+  /**
+   * Cost of this entry in USD. When omitted, filled from the strategy sizingName
+   * (if configured). Default: GLOBAL_CONFIG.CC_POSITION_ENTRY_COST
+   */
   cost?: number;
+  /**
+   * Futures leverage multiplier (cost is the notional, margin = cost / leverage).
+   * Positions with leverage > 1 are force-closed with closeReason "liquidation".
+   * Default: 1 (spot, never liquidated)
+   */
+  leverage?: number;
+  /** Margin mode for leveraged positions. Default: "isolated" */
+  marginMode?: StrategyMarginMode;
 }
 
 /**
@@ -233,6 +358,10 @@ export interface ISignalRow extends ISignalDto {
     entryCountAtClose: number;
     /** Unix timestamp in milliseconds when this partial close was executed */
     timestamp: number;
+    /** Fee percent charged on this partial close (resolved via IExchangeSchema.getFee, CC_PERCENT_FEE when absent) */
+    fee?: number;
+    /** Slippage percent of this partial close (resolved via IExchangeSchema.slippage, CC_PERCENT_SLIPPAGE when absent) */
+    slippage?: number;
   }>;
   /**
    * Trailing stop-loss price that overrides priceStopLoss when set.
@@ -247,6 +376,8 @@ export interface ISignalRow extends ISignalDto {
    * DCA (Dollar Cost Averaging) entry history.
    * First element is always the original priceOpen at signal creation.
    * Each subsequent element is a new averaging entry added by averageBuy().
+   * Under CC_BACKTEST_MAX_VOLUME_PERCENT the initial entry may be split into several
+   * fills, one per candle, holding the actually filled cost.
    * Effective entry price = simple arithmetic mean of all price values.
    * Original priceOpen is preserved unchanged for identity/audit purposes.
    */
@@ -257,7 +388,43 @@ export interface ISignalRow extends ISignalDto {
     cost: number;
     /** Unix timestamp in milliseconds when this entry was executed */
     timestamp: number;
+    /** Fee percent charged on this entry (resolved via IExchangeSchema.getFee, CC_PERCENT_FEE when absent) */
+    fee?: number;
+    /** Slippage percent of this entry (resolved via IExchangeSchema.slippage, CC_PERCENT_SLIPPAGE when absent) */
+    slippage?: number;
   }>;
+  /**
+   * Fee percent charged on closing the remaining position.
+   * Estimated as a taker fill when the position opens, replaced with the
+   * actual exit fee (maker for take-profit when CC_TAKE_PROFIT_MAKER_FEE) on close.
+   * Falls back to CC_PERCENT_FEE when absent.
+   */
+  _exitFee?: number;
+  /**
+   * Slippage percent of closing the remaining position.
+   * Estimated when the position opens, re-resolved against market data on close.
+   * Falls back to CC_PERCENT_SLIPPAGE when absent.
+   */
+  _exitSlippage?: number;
+  /**
+   * Accrued funding of a perpetual position in USD (positive = paid, negative = received).
+   * Accumulated on every funding settlement from IExchangeSchema.getFundingRates while pending.
+   */
+  _fundingCost?: number;
+  /** Unix timestamp in milliseconds up to which funding settlements are already accrued */
+  _fundingAccruedAt?: number;
+  /**
+   * Cost of the initial entry in USD still waiting for candle liquidity (backtest only).
+   * Filled over the following candles under GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT.
+   */
+  _unfilledCost?: number;
+  /** Cost of the initial entry in USD cancelled after GLOBAL_CONFIG.CC_BACKTEST_FILL_TIMEOUT_MINUTES */
+  _cancelledCost?: number;
+  /**
+   * Unix timestamp in milliseconds when a latency-delayed market entry reaches the
+   * exchange (backtest only). The entry is re-priced at the landing candle; cleared once landed.
+   */
+  _openLandsAt?: number;
   /**
    * Trailing take-profit price that overrides priceTakeProfit when set.
    * Created and managed by trailingTake() method for dynamic TP adjustment.
@@ -366,6 +533,25 @@ export interface IPublicSignalRow extends ISignalRow {
    * Calculated using the worst unfavorable price reached (for long: min price below entry, for short: max price above entry) and the original entry price.
    */
   maxDrawdown: IStrategyPnL;
+
+  /**
+   * Price at which the position is force-closed with closeReason "liquidation".
+   * Calculated by getLiquidationPrice from leverage, marginMode and the remaining cost basis.
+   * null for unleveraged positions (leverage ≤ 1).
+   */
+  liquidationPrice: number | null;
+
+  /**
+   * Funding accrued on a perpetual position so far in USD (positive = paid, negative = received).
+   * Mirrors _fundingCost; 0 when the exchange schema has no getFundingRates.
+   */
+  fundingCost: number;
+
+  /**
+   * Part of the initial entry cost in USD that has not filled: still waiting for candle
+   * liquidity or cancelled after the fill timeout. 0 when the entry filled in full.
+   */
+  unfilledCost: number;
 }
 
 /**
@@ -728,6 +914,21 @@ export interface IStrategyParams extends IStrategySchema {
    * user-facing notifications about the pause/resume of automatic trading.
    */
   onPause: (symbol: string, paused: boolean, timestamp: number) => Promise<void> | void;
+  /**
+   * Free cash in USD of the portfolio ledger this strategy trades in (PortfolioMetaService).
+   * Checked against the signal margin before opening when CC_PORTFOLIO_CASH_CHECK is enabled.
+   */
+  getFreeCash: () => Promise<number> | number;
+  /**
+   * Scales a signal entry cost to the strategy budget of its allocator (AllocatorConnectionService).
+   * Returns the cost unchanged when the strategy has no allocatorName, null when the budget is exhausted.
+   */
+  getAllocatedCost: (cost: number, leverage: number) => Promise<number | null>;
+  /**
+   * Entry cost of a signal without cost from the strategy sizing schema (SizingConnectionService).
+   * Returns null when the strategy has no sizingName or the size cannot be calculated.
+   */
+  getSizedCost: (signal: ISignalDto, currentPrice: number) => Promise<number | null>;
 }
 
 /**
@@ -790,6 +991,27 @@ export interface IStrategySchema {
    * If priceOpen is omitted - opens immediately at current price.
    */
   getSignal?: (symbol: string, when: Date, currentPrice: number) => Promise<ISignalDto | null>;
+  /**
+   * Portfolio strategy: target share of account equity per symbol (0-1, sum at most 1),
+   * requested once per interval. When set, getSignal is ignored: idle symbols open a long
+   * sized as equity × weight and open positions are moved back to their weight with
+   * commitAverageBuy, commitPartialProfit / commitPartialLoss and commitClosePending.
+   * Positions have no lifetime and are never closed by take profit or stop loss.
+   *
+   * @example
+   * ```typescript
+   * // hold 40% BTC, 30% ETH, 30% cash
+   * getTargetWeights: async () => ({ BTCUSDT: 0.4, ETHUSDT: 0.3 })
+   * ```
+   */
+  getTargetWeights?: (when: Date, backtest: boolean) => Promise<ITargetWeights>;
+  /**
+   * Portfolio strategy: minimum drift from the target weight in percentage points
+   * of equity before an open position is rebalanced.
+   *
+   * Default: 5
+   */
+  driftThreshold?: number;
   /** Optional lifecycle event callbacks (onOpen, onClose) */
   callbacks?: Partial<IStrategyCallbacks>;
   /** Optional risk profile identifier for risk management */
@@ -798,15 +1020,52 @@ export interface IStrategySchema {
   riskList?: RiskName[];
   /** Optional list of action identifiers to attach to this strategy */
   actions?: ActionName[];
+  /** Optional capital allocator sharing the account with other strategies */
+  allocatorName?: AllocatorName;
+  /**
+   * Optional position sizing schema. Signals returned without cost are sized from
+   * the account balance (live broker balance or the portfolio ledger equity),
+   * the stop distance and the rolling win-rate / win-loss stats of the strategy.
+   */
+  sizingName?: SizingName;
   /** Optional runtime for custom monitoring, reporting or external logic */
   info?: RuntimeData;
+  /**
+   * Optional typed parameters with search ranges. Current values are read with
+   * getStrategyParams() inside getSignal and tuned by the Optimizer.
+   *
+   * @example
+   * ```typescript
+   * params: {
+   *   fastPeriod: { type: "integer", min: 5, max: 30, step: 5, default: 10 },
+   *   useTrailing: { type: "boolean", default: true },
+   * }
+   * ```
+   */
+  params?: Record<string, IStrategyParam>;
+  /** Optional parameter values overriding the declared defaults (set on Optimizer variants) */
+  paramValues?: StrategyParams;
+  /**
+   * Optional backtest intrabar fill model for TP/SL and scheduled activation.
+   *
+   * Default: GLOBAL_CONFIG.CC_BACKTEST_FILL_MODEL
+   */
+  fillModel?: StrategyFillModel;
+  /**
+   * Optional backtest order latency model. Each delayed action is applied at the
+   * price of the candle where it lands instead of the candle where it was issued.
+   * Live mode ignores it: real orders carry their own latency.
+   *
+   * Default: no latency
+   */
+  latency?: StrategyLatencyModel;
 }
 
 /**
  * Reason why signal was closed.
  * Used in discriminated union for type-safe handling.
  */
-export type StrategyCloseReason = "time_expired" | "take_profit" | "stop_loss" | "closed";
+export type StrategyCloseReason = "time_expired" | "take_profit" | "stop_loss" | "closed" | "liquidation";
 
 /**
  * Reason why scheduled signal was cancelled.
@@ -814,6 +1073,39 @@ export type StrategyCloseReason = "time_expired" | "take_profit" | "stop_loss" |
  */
 export type StrategyCancelReason = "timeout" | "price_reject" | "user";
 
+/**
+ * One leg of a currency conversion path.
+ */
+export interface ICurrencyConversionLeg {
+  /** Rate pair of the exchange (e.g., "BTCUSDT") */
+  symbol: string;
+  /** True when the pair is quoted the other way round and its price is inverted */
+  inverted: boolean;
+  /** Close of the last finished 1m candle of the pair at the trade timestamp */
+  price: number;
+}
+
+/**
+ * Trade cost and PnL converted from the pair's quote currency to the
+ * reporting currency (CC_REPORTING_CURRENCY).
+ */
+export interface ICurrencyConversion {
+  /** Quote currency of the traded pair (e.g., "BTC" for "ETHBTC") */
+  quoteCurrency: string;
+  /** Reporting currency the values are converted to */
+  reportingCurrency: string;
+  /** Conversion legs in order, empty when the quote currency is the reporting currency */
+  path: ICurrencyConversionLeg[];
+  /** Reporting currency units per one quote currency unit */
+  rate: number;
+  /** Trade timestamp the rate was taken at (ms) */
+  timestamp: number;
+  /** pnlCost in the reporting currency */
+  pnlCost: number;
+  /** pnlEntries in the reporting currency */
+  pnlEntries: number;
+}
+
 /**
  * Profit and loss calculation result.
  * Includes adjusted prices with fees (0.1%) and slippage (0.1%).
@@ -829,6 +1121,20 @@ export interface IStrategyPnL {
   pnlCost: number;
   /** Total invested capital in USD: sum of all entry costs */
   pnlEntries: number;
+  /** Fees paid on entry fills in USD (initial entry and DCA). Absent on snapshots without fee breakdown */
+  feeOpenCost?: number;
+  /** Fees paid on exit fills in USD (partial closes and final close). Absent on snapshots without fee breakdown */
+  feeCloseCost?: number;
+  /** Slippage cost in USD across all entry and exit fills. Absent on snapshots without slippage breakdown */
+  slippageCost?: number;
+  /** Funding accrued on a perpetual position in USD (positive = paid). Absent when no funding was accrued */
+  fundingCost?: number;
+  /** Leverage of the position. Absent on unleveraged positions */
+  leverage?: number;
+  /** Return on margin (pnlPercentage × leverage). Absent on unleveraged positions */
+  pnlMarginPercentage?: number;
+  /** Cost and PnL in the reporting currency. Absent when CC_REPORTING_CURRENCY is empty or no conversion path exists */
+  conversion?: ICurrencyConversion;
 }
 
 /**
@@ -1223,6 +1529,13 @@ export interface IStrategy {
    */
   getPositionPnlCost: (symbol: string, currentPrice: number) => Promise<number | null>;
 
+  /**
+   * Returns the funding accrued on the current perpetual position in dollars.
+   * Positive when funding was paid, negative when received.
+   * Returns null if no pending signal exists.
+   */
+  getPositionFundingCost: (symbol: string) => Promise<number | null>;
+
   /**
    * Returns the list of DCA entry prices and costs for the current pending signal.
    *
@@ -1801,9 +2114,10 @@ export interface IStrategy {
    *
    * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
    * @param currentPrice - New entry price to validate
+   * @param cost - Optional cost of the new entry, checked against the lot limits (defaults to $100)
    * @returns `true` if `averageBuy` would execute, `false` otherwise
    */
-  validateAverageBuy: (symbol: string, currentPrice: number) => Promise<boolean>;
+  validateAverageBuy: (symbol: string, currentPrice: number, cost?: number) => Promise<boolean>;
 
   /**
    * Checks if there is an active pending signal for the symbol.
@@ -1884,6 +2198,16 @@ export interface IStrategy {
    */
   getPositionHighestProfitPrice: (symbol: string) => Promise<number | null>;
 
+  /**
+   * Returns the liquidation price of the current leveraged position.
+   *
+   * Returns null if no pending signal exists or the position is unleveraged.
+   *
+   * @param symbol - Trading pair symbol
+   * @returns Promise resolving to liquidation price or null
+   */
+  getPositionLiquidationPrice: (symbol: string) => Promise<number | null>;
+
   /**
    * Returns the PnL percentage at the moment the best profit price was recorded during this position's life.
    *
@@ -15,7 +15,34 @@ export type WalkerMetric =
   | "totalPnl"              // Total profit/loss percentage
   | "certaintyRatio"        // avgWin / |avgLoss|
   | "avgPnl"                // Average PNL per trade
-  | "expectedYearlyReturns"; // Estimated number of trades per year
+  | "expectedYearlyReturns" // Estimated number of trades per year
+  | "excessReturn"          // Return over the frame benchmark
+  | "alpha"                 // Per-trade alpha versus the frame benchmark
+  | "informationRatio";     // Excess return per unit of tracking error
+
+/**
+ * Train window layout of a walk-forward run.
+ * - "rolling": every train window has the same length and slides with the test window
+ * - "anchored": every train window starts at the frame start and grows with each step
+ */
+export type WalkForwardMode = "rolling" | "anchored";
+
+/**
+ * Walk-forward configuration of a walker.
+ *
+ * The walker frame is split into consecutive test windows of `testMinutes`, each
+ * preceded by a train window. The best strategy of each train window (by the walker
+ * metric) is run on the following test window, and the out-of-sample results of all
+ * test windows are stitched together.
+ */
+export interface IWalkerWalkForward {
+  /** Train window layout */
+  mode: WalkForwardMode;
+  /** Length of a train window in minutes (first train window for "anchored") */
+  trainMinutes: number;
+  /** Length of a test window in minutes, also the step between windows */
+  testMinutes: number;
+}
 
 /**
  * Walker schema registered via addWalker().
@@ -40,6 +67,9 @@ export interface IWalkerSchema {
   /** Metric to optimize (default: "sharpeRatio") */
   metric?: WalkerMetric;
 
+  /** Optional walk-forward analysis run after the full-frame comparison */
+  walkForward?: IWalkerWalkForward;
+
   /** Optional lifecycle event callbacks */
   callbacks?: Partial<IWalkerCallbacks>;
 }
@@ -69,9 +69,12 @@ import StrategyMarkdownService from "../services/markdown/StrategyMarkdownServic
 import SyncMarkdownService from "../services/markdown/SyncMarkdownService";
 import HighestProfitMarkdownService from "../services/markdown/HighestProfitMarkdownService";
 import PriceMetaService from "../services/meta/PriceMetaService";
+import PortfolioMetaService from "../services/meta/PortfolioMetaService";
+import ConversionMetaService from "../services/meta/ConversionMetaService";
 import TimeMetaService from "../services/meta/TimeMetaService";
 import { MaxDrawdownReportService } from "../services/report/MaxDrawdownReportService";
 import { MaxDrawdownMarkdownService } from "../services/markdown/MaxDrawdownMarkdownService";
+import { PortfolioMarkdownService } from "../services/markdown/PortfolioMarkdownService";
 import ContextMetaService from "../services/meta/ContextMetaService";
 import NotificationHelperService from "../services/helpers/NotificationHelperService";
 import RuntimeMetaService from "../services/meta/RuntimeMetaService";
@@ -81,6 +84,12 @@ import SweepConnectionService from "../services/connection/SweepConnectionServic
 import SweepCoreService from "../services/core/SweepCoreService";
 import SweepGlobalService from "../services/global/SweepGlobalService";
 import MCPSchemaService from "../services/schema/MCPSchemaService";
+import AllocatorSchemaService from "../services/schema/AllocatorSchemaService";
+import AllocatorValidationService from "../services/validation/AllocatorValidationService";
+import AllocatorConnectionService from "../services/connection/AllocatorConnectionService";
+import AllocatorMarkdownService from "../services/markdown/AllocatorMarkdownService";
+import RebalanceConnectionService from "../services/connection/RebalanceConnectionService";
+import RebalanceMarkdownService from "../services/markdown/RebalanceMarkdownService";
 import MCPValidationService from "../services/validation/MCPValidationService";
 
 {
@@ -102,6 +111,8 @@ import MCPValidationService from "../services/validation/MCPValidationService";
     provide(TYPES.partialConnectionService, () => new PartialConnectionService());
     provide(TYPES.breakevenConnectionService, () => new BreakevenConnectionService());
     provide(TYPES.sweepConnectionService, () => new SweepConnectionService());
+    provide(TYPES.allocatorConnectionService, () => new AllocatorConnectionService());
+    provide(TYPES.rebalanceConnectionService, () => new RebalanceConnectionService());
 }
 
 {
@@ -113,6 +124,7 @@ import MCPValidationService from "../services/validation/MCPValidationService";
     provide(TYPES.riskSchemaService, () => new RiskSchemaService());
     provide(TYPES.actionSchemaService, () => new ActionSchemaService());
     provide(TYPES.sweepSchemaService, () => new SweepSchemaService());
+    provide(TYPES.allocatorSchemaService, () => new AllocatorSchemaService());
     provide(TYPES.mcpSchemaService, () => new MCPSchemaService());
 }
 
@@ -127,6 +139,8 @@ import MCPValidationService from "../services/validation/MCPValidationService";
 {
     provide(TYPES.contextMetaService, () => new ContextMetaService());
     provide(TYPES.priceMetaService, () => new PriceMetaService());
+    provide(TYPES.portfolioMetaService, () => new PortfolioMetaService());
+    provide(TYPES.conversionMetaService, () => new ConversionMetaService());
     provide(TYPES.timeMetaService, () => new TimeMetaService());
     provide(TYPES.runtimeMetaService, () => new RuntimeMetaService());
 }
@@ -171,6 +185,9 @@ import MCPValidationService from "../services/validation/MCPValidationService";
     provide(TYPES.syncMarkdownService, () => new SyncMarkdownService());
     provide(TYPES.highestProfitMarkdownService, () => new HighestProfitMarkdownService());
     provide(TYPES.maxDrawdownMarkdownService, () => new MaxDrawdownMarkdownService());
+    provide(TYPES.portfolioMarkdownService, () => new PortfolioMarkdownService());
+    provide(TYPES.allocatorMarkdownService, () => new AllocatorMarkdownService());
+    provide(TYPES.rebalanceMarkdownService, () => new RebalanceMarkdownService());
 }
 
 {
@@ -204,5 +221,6 @@ import MCPValidationService from "../services/validation/MCPValidationService";
     provide(TYPES.configValidationService, () => new ConfigValidationService());
     provide(TYPES.columnValidationService, () => new ColumnValidationService());
     provide(TYPES.sweepValidationService, () => new SweepValidationService());
+    provide(TYPES.allocatorValidationService, () => new AllocatorValidationService());
     provide(TYPES.mcpValidationService, () => new MCPValidationService());
 }
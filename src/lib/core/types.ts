@@ -17,6 +17,8 @@ const connectionServices = {
     partialConnectionService: Symbol('partialConnectionService'),
     breakevenConnectionService: Symbol('breakevenConnectionService'),
     sweepConnectionService: Symbol('sweepConnectionService'),
+    allocatorConnectionService: Symbol('allocatorConnectionService'),
+    rebalanceConnectionService: Symbol('rebalanceConnectionService'),
 };
 
 const schemaServices = {
@@ -28,6 +30,7 @@ const schemaServices = {
     riskSchemaService: Symbol('riskSchemaService'),
     actionSchemaService: Symbol('actionSchemaService'),
     sweepSchemaService: Symbol('sweepSchemaService'),
+    allocatorSchemaService: Symbol('allocatorSchemaService'),
     mcpSchemaService: Symbol('mcpSchemaService'),
 }
 
@@ -42,6 +45,8 @@ const coreServices = {
 const metaServices = {
     contextMetaService: Symbol('contextMetaService'),
     priceMetaService: Symbol('priceMetaService'),
+    portfolioMetaService: Symbol('portfolioMetaService'),
+    conversionMetaService: Symbol('conversionMetaService'),
     timeMetaService: Symbol('timeMetaService'),
     runtimeMetaService: Symbol('runtimeMetaService'),
 }
@@ -87,6 +92,9 @@ const markdownServices = {
     syncMarkdownService: Symbol('syncMarkdownService'),
     highestProfitMarkdownService: Symbol('highestProfitMarkdownService'),
     maxDrawdownMarkdownService: Symbol('maxDrawdownMarkdownService'),
+    portfolioMarkdownService: Symbol('portfolioMarkdownService'),
+    allocatorMarkdownService: Symbol('allocatorMarkdownService'),
+    rebalanceMarkdownService: Symbol('rebalanceMarkdownService'),
 }
 
 const reportServices = {
@@ -120,6 +128,7 @@ const validationServices = {
     configValidationService: Symbol('configValidationService'),
     columnValidationService: Symbol('columnValidationService'),
     sweepValidationService: Symbol('sweepValidationService'),
+    allocatorValidationService: Symbol('allocatorValidationService'),
     mcpValidationService: Symbol('mcpValidationService'),
 }
 
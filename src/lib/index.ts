@@ -75,8 +75,11 @@ import StrategyMarkdownService from "./services/markdown/StrategyMarkdownService
 import SyncMarkdownService from "./services/markdown/SyncMarkdownService";
 import HighestProfitMarkdownService from "./services/markdown/HighestProfitMarkdownService";
 import MaxDrawdownMarkdownService from "./services/markdown/MaxDrawdownMarkdownService";
+import PortfolioMarkdownService from "./services/markdown/PortfolioMarkdownService";
 import TimeMetaService from "./services/meta/TimeMetaService";
 import PriceMetaService from "./services/meta/PriceMetaService";
+import PortfolioMetaService from "./services/meta/PortfolioMetaService";
+import ConversionMetaService from "./services/meta/ConversionMetaService";
 import { TContextMetaService } from "./services/meta/ContextMetaService";
 import NotificationHelperService from "./services/helpers/NotificationHelperService";
 import { TRuntimeMetaService } from "./services/meta/RuntimeMetaService";
@@ -86,6 +89,12 @@ import SweepConnectionService from "./services/connection/SweepConnectionService
 import SweepGlobalService from "./services/global/SweepGlobalService";
 import SweepCoreService from "./services/core/SweepCoreService";
 import MCPSchemaService from "./services/schema/MCPSchemaService";
+import AllocatorSchemaService from "./services/schema/AllocatorSchemaService";
+import AllocatorValidationService from "./services/validation/AllocatorValidationService";
+import AllocatorConnectionService from "./services/connection/AllocatorConnectionService";
+import AllocatorMarkdownService from "./services/markdown/AllocatorMarkdownService";
+import RebalanceConnectionService from "./services/connection/RebalanceConnectionService";
+import RebalanceMarkdownService from "./services/markdown/RebalanceMarkdownService";
 import MCPValidationService from "./services/validation/MCPValidationService";
 
 const baseServices = {
@@ -129,6 +138,12 @@ const connectionServices = {
   sweepConnectionService: inject<SweepConnectionService>(
     TYPES.sweepConnectionService,
   ),
+  allocatorConnectionService: inject<AllocatorConnectionService>(
+    TYPES.allocatorConnectionService,
+  ),
+  rebalanceConnectionService: inject<RebalanceConnectionService>(
+    TYPES.rebalanceConnectionService,
+  ),
 };
 
 const schemaServices = {
@@ -144,6 +159,7 @@ const schemaServices = {
   riskSchemaService: inject<RiskSchemaService>(TYPES.riskSchemaService),
   actionSchemaService: inject<ActionSchemaService>(TYPES.actionSchemaService),
   sweepSchemaService: inject<SweepSchemaService>(TYPES.sweepSchemaService),
+  allocatorSchemaService: inject<AllocatorSchemaService>(TYPES.allocatorSchemaService),
   mcpSchemaService: inject<MCPSchemaService>(TYPES.mcpSchemaService),
 };
 
@@ -158,6 +174,8 @@ const coreServices = {
 const metaServices = {
   timeMetaService: inject<TimeMetaService>(TYPES.timeMetaService),
   priceMetaService: inject<PriceMetaService>(TYPES.priceMetaService),
+  portfolioMetaService: inject<PortfolioMetaService>(TYPES.portfolioMetaService),
+  conversionMetaService: inject<ConversionMetaService>(TYPES.conversionMetaService),
   contextMetaService: inject<TContextMetaService>(TYPES.contextMetaService),
   runtimeMetaService: inject<TRuntimeMetaService>(TYPES.runtimeMetaService),
 }
@@ -234,6 +252,9 @@ const markdownServices = {
   syncMarkdownService: inject<SyncMarkdownService>(TYPES.syncMarkdownService),
   highestProfitMarkdownService: inject<HighestProfitMarkdownService>(TYPES.highestProfitMarkdownService),
   maxDrawdownMarkdownService: inject<MaxDrawdownMarkdownService>(TYPES.maxDrawdownMarkdownService),
+  portfolioMarkdownService: inject<PortfolioMarkdownService>(TYPES.portfolioMarkdownService),
+  allocatorMarkdownService: inject<AllocatorMarkdownService>(TYPES.allocatorMarkdownService),
+  rebalanceMarkdownService: inject<RebalanceMarkdownService>(TYPES.rebalanceMarkdownService),
 };
 
 const reportServices = {
@@ -299,6 +320,9 @@ const validationServices = {
   sweepValidationService: inject<SweepValidationService>(
     TYPES.sweepValidationService,
   ),
+  allocatorValidationService: inject<AllocatorValidationService>(
+    TYPES.allocatorValidationService,
+  ),
   mcpValidationService: inject<MCPValidationService>(TYPES.mcpValidationService),
 };
 
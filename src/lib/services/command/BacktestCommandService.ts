@@ -14,6 +14,8 @@ import { FrameName } from "../../../interfaces/Frame.interface";
 import { memoize } from "functools-kit";
 
 const METHOD_NAME_RUN = "backtestCommandService run";
+const METHOD_NAME_RUN_TIMELINE = "backtestCommandService runTimeline";
+const METHOD_NAME_CLEAR_ACCOUNT = "backtestCommandService clearAccount";
 const METHOD_NAME_VALIDATE = "backtestCommandService validate";
 
 /**
@@ -38,6 +40,10 @@ type Keys = Omit<BacktestLogicPublicService, keyof {
   frameSchemaService: never;
   timeMetaService: never;
   loggerService: never;
+  portfolioMetaService: never;
+  strategySchemaService: never;
+  allocatorConnectionService: never;
+  rebalanceConnectionService: never;
 }>;
 
 /**
@@ -121,6 +127,46 @@ export class BacktestCommandService implements TBacktestLogicPublicService {
     this.validate(context, METHOD_NAME_RUN);
     return this.backtestLogicPublicService.run(symbol, context);
   };
+
+  /**
+   * Runs backtest for several symbols on one shared timeline.
+   *
+   * @param symbols - Trading pair symbols (e.g., ["BTCUSDT", "ETHUSDT"])
+   * @param context - Execution context with strategy, exchange, and frame names
+   * @returns Async generator yielding results of every symbol in timestamp order
+   */
+  public runTimeline = (
+    symbols: string[],
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    }
+  ) => {
+    this.loggerService.log(METHOD_NAME_RUN_TIMELINE, {
+      symbols,
+      context,
+    });
+    this.validate(context, METHOD_NAME_RUN_TIMELINE);
+    return this.backtestLogicPublicService.runTimeline(symbols, context);
+  };
+
+  /**
+   * Resets the portfolio ledger, allocator and rebalancer a backtest trades against.
+   *
+   * @param context - Execution context with strategy, exchange, and frame names
+   */
+  public clearAccount = (context: {
+    strategyName: StrategyName;
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  }) => {
+    this.loggerService.log(METHOD_NAME_CLEAR_ACCOUNT, {
+      context,
+    });
+    this.validate(context, METHOD_NAME_CLEAR_ACCOUNT);
+    return this.backtestLogicPublicService.clearAccount(context);
+  };
 }
 
 export default BacktestCommandService;
@@ -0,0 +1,180 @@
+import { inject } from "../../core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../core/types";
+import { AllocatorName, IAllocator } from "../../../interfaces/Allocator.interface";
+import { memoize } from "functools-kit";
+import ClientAllocator from "../../../client/ClientAllocator";
+import AllocatorSchemaService from "../schema/AllocatorSchemaService";
+import PortfolioMetaService from "../meta/PortfolioMetaService";
+import { ExchangeName } from "../../../interfaces/Exchange.interface";
+import { FrameName } from "../../../interfaces/Frame.interface";
+import { StrategyName } from "../../../interfaces/Strategy.interface";
+
+/**
+ * Creates a unique key for memoizing ClientAllocator instances.
+ * Key format: "allocatorName:exchangeName:frameName:backtest" or "allocatorName:exchangeName:live"
+ * @param allocatorName - Name of the allocator schema
+ * @param exchangeName - Exchange name
+ * @param frameName - Frame name (empty string for live)
+ * @param backtest - Whether running in backtest mode
+ * @returns Unique string key for memoization
+ */
+const CREATE_KEY_FN = (
+  allocatorName: AllocatorName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  backtest: boolean
+): string => {
+  const parts = [allocatorName, exchangeName];
+  if (frameName) parts.push(frameName);
+  parts.push(backtest ? "backtest" : "live");
+  return parts.join(":");
+};
+
+/**
+ * Type definition for allocator methods.
+ * Maps all keys of IAllocator to any type.
+ * Used for dynamic method routing in AllocatorConnectionService.
+ */
+type TAllocator = {
+  [key in keyof IAllocator]: any;
+}
+
+/**
+ * Connection service routing allocation calls to correct ClientAllocator instance.
+ *
+ * One ClientAllocator is shared by every symbol and strategy of the same
+ * allocator, exchange, frame and mode. Account equity, strategy usage and
+ * closed-trade returns are read from the portfolio ledger of the same key.
+ *
+ * Note: allocatorName is empty string for strategies without an allocator.
+ *
+ * @example
+ * ```typescript
+ * // Used internally by framework
+ * const cost = await allocatorConnectionService.allocate(
+ *   "trend-btc",
+ *   100,
+ *   1,
+ *   new Date(),
+ *   { allocatorName: "core-satellite", exchangeName: "binance", frameName: "1d", backtest: true }
+ * );
+ * ```
+ */
+export class AllocatorConnectionService implements TAllocator {
+  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+  private readonly allocatorSchemaService = inject<AllocatorSchemaService>(
+    TYPES.allocatorSchemaService
+  );
+  private readonly portfolioMetaService = inject<PortfolioMetaService>(
+    TYPES.portfolioMetaService
+  );
+
+  /**
+   * Retrieves memoized ClientAllocator instance for given allocator name, exchange, frame and backtest mode.
+   *
+   * Creates ClientAllocator on first call, returns cached instance on subsequent calls.
+   *
+   * @param allocatorName - Name of registered allocator schema
+   * @param exchangeName - Exchange name
+   * @param frameName - Frame name (empty string for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Configured ClientAllocator instance
+   */
+  public getAllocator = memoize(
+    ([allocatorName, exchangeName, frameName, backtest]) =>
+      CREATE_KEY_FN(allocatorName, exchangeName, frameName, backtest),
+    (allocatorName: AllocatorName, exchangeName: ExchangeName, frameName: FrameName, backtest: boolean) => {
+      const schema = this.allocatorSchemaService.get(allocatorName);
+      return new ClientAllocator({
+        ...schema,
+        logger: this.loggerService,
+        exchangeName,
+        frameName,
+        backtest,
+        getEquity: () =>
+          this.portfolioMetaService.getEquity(exchangeName, frameName, backtest),
+        getUsage: (strategyName) =>
+          this.portfolioMetaService.getStrategyUsage(exchangeName, frameName, backtest, strategyName),
+        getReturns: (strategyName) =>
+          this.portfolioMetaService.getStrategyReturns(exchangeName, frameName, backtest, strategyName),
+      });
+    }
+  );
+
+  /**
+   * Scales a signal entry cost to the budget of its strategy.
+   *
+   * @param strategyName - Strategy of the signal
+   * @param cost - Requested entry cost in USD
+   * @param leverage - Position leverage
+   * @param when - Current execution time
+   * @param payload - Allocator name, exchangeName, frameName and backtest mode
+   * @returns Entry cost fitting the remaining budget, or null when nothing is left
+   */
+  public allocate = async (
+    strategyName: StrategyName,
+    cost: number,
+    leverage: number,
+    when: Date,
+    payload: { allocatorName: AllocatorName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ) => {
+    this.loggerService.log("allocatorConnectionService allocate", {
+      strategyName,
+      cost,
+      payload,
+    });
+    return await this.getAllocator(payload.allocatorName, payload.exchangeName, payload.frameName, payload.backtest).allocate(strategyName, cost, leverage, when);
+  };
+
+  /**
+   * Returns the current budget and usage of every strategy of the allocator.
+   *
+   * @param payload - Allocator name, exchangeName, frameName and backtest mode
+   * @returns Allocations in schema order
+   */
+  public getAllocations = (
+    payload: { allocatorName: AllocatorName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ) => {
+    this.loggerService.log("allocatorConnectionService getAllocations", {
+      payload,
+    });
+    return this.getAllocator(payload.allocatorName, payload.exchangeName, payload.frameName, payload.backtest).getAllocations();
+  };
+
+  /**
+   * Returns recorded allocation snapshots of the allocator, oldest first.
+   *
+   * @param payload - Allocator name, exchangeName, frameName and backtest mode
+   * @returns Allocation snapshots
+   */
+  public getHistory = (
+    payload: { allocatorName: AllocatorName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ) => {
+    this.loggerService.log("allocatorConnectionService getHistory", {
+      payload,
+    });
+    return this.getAllocator(payload.allocatorName, payload.exchangeName, payload.frameName, payload.backtest).getHistory();
+  };
+
+  /**
+   * Clears the cached ClientAllocator instance for the given allocator name.
+   *
+   * @param payload - Optional payload with allocatorName, exchangeName, frameName, backtest (clears all if not provided)
+   */
+  public clear = async (
+    payload?: { allocatorName: AllocatorName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ): Promise<void> => {
+    this.loggerService.log("allocatorConnectionService clear", {
+      payload,
+    });
+    if (payload) {
+      const key = CREATE_KEY_FN(payload.allocatorName, payload.exchangeName, payload.frameName, payload.backtest);
+      this.getAllocator.clear(key);
+    } else {
+      this.getAllocator.clear();
+    }
+  };
+}
+
+export default AllocatorConnectionService;
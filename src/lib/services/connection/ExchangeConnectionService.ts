@@ -5,15 +5,20 @@ import { TExecutionContextService } from "../context/ExecutionContextService";
 import {
   CandleInterval,
   ExchangeName,
+  FeeOrderType,
+  FeeSide,
   IAggregatedTradeData,
   ICandleData,
   IExchange,
+  IFundingRateData,
+  ISymbolInfo,
   IOrderBookData,
 } from "../../../interfaces/Exchange.interface";
 import { memoize } from "functools-kit";
 import ClientExchange from "../../../client/ClientExchange";
 import ExchangeSchemaService from "../schema/ExchangeSchemaService";
 import { TMethodContextService } from "../context/MethodContextService";
+import { GLOBAL_CONFIG } from "../../../config/params";
 
 /**
  * Default implementation for getCandles.
@@ -66,6 +71,21 @@ const DEFAULT_GET_AGGREGATED_TRADES_FN = async (_symbol: string, _from: Date, _t
   throw new Error(`getAggregatedTrades is not implemented for this exchange`);
 };
 
+/**
+ * Default implementation for getFee.
+ * Charges the flat CC_PERCENT_FEE for every fill regardless of side and liquidity role.
+ *
+ * @param _symbol - Trading pair symbol (unused)
+ * @param _side - Fill side (unused)
+ * @param _orderType - Liquidity role (unused)
+ * @param _notional - Fill notional (unused)
+ * @param _when - Fill timestamp (unused)
+ * @param _backtest - Whether running in backtest mode (unused)
+ */
+const DEFAULT_GET_FEE_FN = async (_symbol: string, _side: FeeSide, _orderType: FeeOrderType, _notional: number, _when: Date, _backtest: boolean): Promise<number> => {
+  return GLOBAL_CONFIG.CC_PERCENT_FEE;
+};
+
 /**
  * Connection service routing exchange operations to correct ClientExchange instance.
  *
@@ -118,6 +138,10 @@ export class ExchangeConnectionService implements IExchange {
         formatQuantity = DEFAULT_FORMAT_QUANTITY_FN,
         getOrderBook = DEFAULT_GET_ORDER_BOOK_FN,
         getAggregatedTrades = DEFAULT_GET_AGGREGATED_TRADES_FN,
+        getFee = DEFAULT_GET_FEE_FN,
+        slippage,
+        getFundingRates,
+        getSymbolInfo,
         callbacks
       } = this.exchangeSchemaService.get(exchangeName);
       return new ClientExchange({
@@ -129,6 +153,10 @@ export class ExchangeConnectionService implements IExchange {
         formatQuantity,
         getOrderBook,
         getAggregatedTrades,
+        getFee,
+        slippage,
+        getFundingRates,
+        getSymbolInfo,
         callbacks,
       });
     }
@@ -300,6 +328,151 @@ export class ExchangeConnectionService implements IExchange {
     ).getAggregatedTrades(symbol, limit);
   };
 
+  /**
+   * Fetches aggregated trades forward from execution context time using configured exchange.
+   *
+   * Routes to exchange determined by methodContextService.context.exchangeName.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param minutes - Number of whole minutes to fetch
+   * @returns Promise resolving to aggregated trades sorted by timestamp
+   */
+  public getNextAggregatedTrades = async (
+    symbol: string,
+    minutes: number
+  ): Promise<IAggregatedTradeData[]> => {
+    this.loggerService.log("exchangeConnectionService getNextAggregatedTrades", {
+      symbol,
+      minutes,
+    });
+    return await this.getExchange(
+      this.methodContextService.context.exchangeName
+    ).getNextAggregatedTrades(symbol, minutes);
+  };
+
+  /**
+   * Resolves fee percent for an order fill using configured exchange.
+   *
+   * Routes to exchange determined by methodContextService.context.exchangeName.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param side - Fill side: "buy" or "sell"
+   * @param orderType - Liquidity role: "maker" or "taker"
+   * @param notional - Fill notional in USD
+   * @param when - Fill timestamp
+   * @returns Promise resolving to fee percent (negative for rebates)
+   */
+  public getFee = async (
+    symbol: string,
+    side: FeeSide,
+    orderType: FeeOrderType,
+    notional: number,
+    when: Date
+  ): Promise<number> => {
+    this.loggerService.log("exchangeConnectionService getFee", {
+      symbol,
+      side,
+      orderType,
+      notional,
+      when,
+    });
+    return await this.getExchange(
+      this.methodContextService.context.exchangeName
+    ).getFee(symbol, side, orderType, notional, when);
+  };
+
+  /**
+   * Resolves slippage percent for an order fill using configured exchange.
+   *
+   * Routes to exchange determined by methodContextService.context.exchangeName.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param side - Fill side: "buy" or "sell"
+   * @param notional - Fill notional in USD
+   * @returns Promise resolving to non-negative slippage percent
+   */
+  public getSlippage = async (
+    symbol: string,
+    side: FeeSide,
+    notional: number
+  ): Promise<number> => {
+    this.loggerService.log("exchangeConnectionService getSlippage", {
+      symbol,
+      side,
+      notional,
+    });
+    return await this.getExchange(
+      this.methodContextService.context.exchangeName
+    ).getSlippage(symbol, side, notional);
+  };
+
+  /**
+   * Fetches funding settlements for a time range using configured exchange.
+   *
+   * Routes to exchange determined by methodContextService.context.exchangeName.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param from - Start of time range (exclusive)
+   * @param to - End of time range (inclusive, clamped to execution context time)
+   * @returns Promise resolving to funding settlements sorted by timestamp
+   */
+  public getFundingRates = async (
+    symbol: string,
+    from: Date,
+    to: Date
+  ): Promise<IFundingRateData[]> => {
+    this.loggerService.log("exchangeConnectionService getFundingRates", {
+      symbol,
+      from,
+      to,
+    });
+    return await this.getExchange(
+      this.methodContextService.context.exchangeName
+    ).getFundingRates(symbol, from, to);
+  };
+
+  /**
+   * Fetches trading rules of a symbol using configured exchange.
+   *
+   * Routes to exchange determined by methodContextService.context.exchangeName.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @returns Promise resolving to symbol trading rules, null without getSymbolInfo
+   */
+  public getSymbolInfo = async (symbol: string): Promise<ISymbolInfo | null> => {
+    this.loggerService.log("exchangeConnectionService getSymbolInfo", {
+      symbol,
+    });
+    return await this.getExchange(
+      this.methodContextService.context.exchangeName
+    ).getSymbolInfo(symbol);
+  };
+
+  /**
+   * Probes the last candles of a symbol with a single adapter call.
+   *
+   * Routes to exchange determined by methodContextService.context.exchangeName.
+   *
+   * @param symbol - Trading pair symbol (e.g., "BTCUSDT")
+   * @param interval - Candle interval (e.g., "1m")
+   * @param limit - Number of candles to fetch
+   * @returns Promise resolving to candles, or null when unavailable
+   */
+  public probeCandles = async (
+    symbol: string,
+    interval: CandleInterval,
+    limit: number
+  ): Promise<ICandleData[] | null> => {
+    this.loggerService.log("exchangeConnectionService probeCandles", {
+      symbol,
+      interval,
+      limit,
+    });
+    return await this.getExchange(
+      this.methodContextService.context.exchangeName
+    ).probeCandles(symbol, interval, limit);
+  };
+
   /**
    * Fetches raw candles with flexible date/limit parameters.
    *
@@ -0,0 +1,226 @@
+import { inject } from "../../core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../core/types";
+import { IRebalancer } from "../../../interfaces/Rebalance.interface";
+import { memoize } from "functools-kit";
+import ClientRebalancer from "../../../client/ClientRebalancer";
+import StrategySchemaService from "../schema/StrategySchemaService";
+import PortfolioMetaService from "../meta/PortfolioMetaService";
+import ExchangeCoreService from "../core/ExchangeCoreService";
+import { ExchangeName } from "../../../interfaces/Exchange.interface";
+import { FrameName } from "../../../interfaces/Frame.interface";
+import { StrategyName } from "../../../interfaces/Strategy.interface";
+
+/** Default interval for strategies that do not specify one */
+const STRATEGY_DEFAULT_INTERVAL = "1m";
+
+/** Default drift from the target weight in percentage points of equity */
+const DEFAULT_DRIFT_THRESHOLD = 5;
+
+/**
+ * Creates a unique key for memoizing ClientRebalancer instances.
+ * Key format: "strategyName:exchangeName:frameName:backtest" or "strategyName:exchangeName:live"
+ * @param strategyName - Name of the portfolio strategy
+ * @param exchangeName - Exchange name
+ * @param frameName - Frame name (empty string for live)
+ * @param backtest - Whether running in backtest mode
+ * @returns Unique string key for memoization
+ */
+const CREATE_KEY_FN = (
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  backtest: boolean
+): string => {
+  const parts = [strategyName, exchangeName];
+  if (frameName) parts.push(frameName);
+  parts.push(backtest ? "backtest" : "live");
+  return parts.join(":");
+};
+
+/**
+ * Type definition for rebalancer methods.
+ * Maps all keys of IRebalancer to any type.
+ * Used for dynamic method routing in RebalanceConnectionService.
+ */
+type TRebalancer = {
+  [key in keyof IRebalancer]: any;
+}
+
+/**
+ * Connection service routing portfolio strategy calls to correct ClientRebalancer instance.
+ *
+ * One ClientRebalancer is shared by every symbol of the same strategy, exchange,
+ * frame and mode, so all symbols rebalance against one set of target weights.
+ * Account equity is read from the portfolio ledger of the same key.
+ *
+ * Used only for strategies with getTargetWeights in their schema.
+ *
+ * @example
+ * ```typescript
+ * // Used internally by framework
+ * await rebalanceConnectionService.rebalance(
+ *   "BTCUSDT",
+ *   42000,
+ *   new Date(),
+ *   { strategyName: "index-top2", exchangeName: "binance", frameName: "1d", backtest: true }
+ * );
+ * ```
+ */
+export class RebalanceConnectionService implements TRebalancer {
+  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+  private readonly strategySchemaService = inject<StrategySchemaService>(
+    TYPES.strategySchemaService
+  );
+  private readonly portfolioMetaService = inject<PortfolioMetaService>(
+    TYPES.portfolioMetaService
+  );
+  private readonly exchangeCoreService = inject<ExchangeCoreService>(
+    TYPES.exchangeCoreService
+  );
+
+  /**
+   * Retrieves memoized ClientRebalancer instance for given strategy name, exchange, frame and backtest mode.
+   *
+   * Creates ClientRebalancer on first call, returns cached instance on subsequent calls.
+   *
+   * @param strategyName - Name of registered portfolio strategy schema
+   * @param exchangeName - Exchange name
+   * @param frameName - Frame name (empty string for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Configured ClientRebalancer instance
+   */
+  public getRebalancer = memoize(
+    ([strategyName, exchangeName, frameName, backtest]) =>
+      CREATE_KEY_FN(strategyName, exchangeName, frameName, backtest),
+    (strategyName: StrategyName, exchangeName: ExchangeName, frameName: FrameName, backtest: boolean) => {
+      const {
+        getTargetWeights,
+        interval = STRATEGY_DEFAULT_INTERVAL,
+        driftThreshold = DEFAULT_DRIFT_THRESHOLD,
+      } = this.strategySchemaService.get(strategyName);
+      if (!getTargetWeights) {
+        throw new Error(
+          `rebalanceConnectionService strategy ${strategyName} has no getTargetWeights`
+        );
+      }
+      return new ClientRebalancer({
+        logger: this.loggerService,
+        strategyName,
+        exchangeName,
+        frameName,
+        backtest,
+        interval,
+        driftThreshold,
+        getTargetWeights,
+        getEquity: () =>
+          this.portfolioMetaService.getEquity(exchangeName, frameName, backtest),
+        getFee: (symbol, side, notional, when) =>
+          this.exchangeCoreService.getFee(symbol, side, "taker", notional, when, backtest),
+      });
+    }
+  );
+
+  /**
+   * Builds the opening signal of a symbol from its target weight.
+   *
+   * @param symbol - Trading pair symbol
+   * @param when - Current execution time
+   * @param currentPrice - Current market price
+   * @param payload - Strategy name, exchangeName, frameName and backtest mode
+   * @returns Long signal sized as equity × target weight, or null when the target is 0
+   */
+  public getSignal = async (
+    symbol: string,
+    when: Date,
+    currentPrice: number,
+    payload: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ) => {
+    this.loggerService.log("rebalanceConnectionService getSignal", {
+      symbol,
+      currentPrice,
+      payload,
+    });
+    return await this.getRebalancer(payload.strategyName, payload.exchangeName, payload.frameName, payload.backtest).getSignal(symbol, when, currentPrice);
+  };
+
+  /**
+   * Records the opening of a position created by getSignal.
+   *
+   * @param symbol - Trading pair symbol
+   * @param cost - Entry cost in USD
+   * @param timestamp - Open timestamp in milliseconds
+   * @param payload - Strategy name, exchangeName, frameName and backtest mode
+   */
+  public commitOpen = async (
+    symbol: string,
+    cost: number,
+    timestamp: number,
+    payload: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ) => {
+    this.loggerService.log("rebalanceConnectionService commitOpen", {
+      symbol,
+      cost,
+      payload,
+    });
+    await this.getRebalancer(payload.strategyName, payload.exchangeName, payload.frameName, payload.backtest).commitOpen(symbol, cost, timestamp);
+  };
+
+  /**
+   * Moves an open position toward its target weight when the drift exceeds the threshold.
+   *
+   * @param symbol - Trading pair symbol
+   * @param currentPrice - Current market price
+   * @param when - Current execution time
+   * @param payload - Strategy name, exchangeName, frameName and backtest mode
+   */
+  public rebalance = async (
+    symbol: string,
+    currentPrice: number,
+    when: Date,
+    payload: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ) => {
+    this.loggerService.log("rebalanceConnectionService rebalance", {
+      symbol,
+      currentPrice,
+      payload,
+    });
+    await this.getRebalancer(payload.strategyName, payload.exchangeName, payload.frameName, payload.backtest).rebalance(symbol, currentPrice, when);
+  };
+
+  /**
+   * Returns recorded rebalance events of the strategy, oldest first.
+   *
+   * @param payload - Strategy name, exchangeName, frameName and backtest mode
+   * @returns Rebalance events
+   */
+  public getEvents = (
+    payload: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ) => {
+    this.loggerService.log("rebalanceConnectionService getEvents", {
+      payload,
+    });
+    return this.getRebalancer(payload.strategyName, payload.exchangeName, payload.frameName, payload.backtest).getEvents();
+  };
+
+  /**
+   * Clears the cached ClientRebalancer instance for the given strategy name.
+   *
+   * @param payload - Optional payload with strategyName, exchangeName, frameName, backtest (clears all if not provided)
+   */
+  public clear = async (
+    payload?: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName; backtest: boolean }
+  ): Promise<void> => {
+    this.loggerService.log("rebalanceConnectionService clear", {
+      payload,
+    });
+    if (payload) {
+      const key = CREATE_KEY_FN(payload.strategyName, payload.exchangeName, payload.frameName, payload.backtest);
+      this.getRebalancer.clear(key);
+    } else {
+      this.getRebalancer.clear();
+    }
+  };
+}
+
+export default RebalanceConnectionService;
@@ -236,6 +236,7 @@ export class RiskConnectionService implements TRisk {
       priceTakeProfit: number;
       minuteEstimatedTime: number;
       openTimestamp: number;
+      cost?: number;
     }
   ) => {
     this.loggerService.log("riskConnectionService addSignal", {
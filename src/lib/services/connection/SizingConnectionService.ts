@@ -5,6 +5,10 @@ import { SizingName, ISizingCalculateParams, ISizing } from "../../../interfaces
 import { memoize } from "functools-kit";
 import ClientSizing from "../../../client/ClientSizing";
 import SizingSchemaService from "../schema/SizingSchemaService";
+import ExchangeConnectionService from "./ExchangeConnectionService";
+import PortfolioMetaService from "../meta/PortfolioMetaService";
+import { TMethodContextService } from "../context/MethodContextService";
+import { TExecutionContextService } from "../context/ExecutionContextService";
 
 /**
  * Type definition for sizing methods.
@@ -49,12 +53,25 @@ export class SizingConnectionService implements TSizing {
   private readonly sizingSchemaService = inject<SizingSchemaService>(
     TYPES.sizingSchemaService
   );
+  private readonly exchangeConnectionService = inject<ExchangeConnectionService>(
+    TYPES.exchangeConnectionService
+  );
+  private readonly portfolioMetaService = inject<PortfolioMetaService>(
+    TYPES.portfolioMetaService
+  );
+  private readonly methodContextService = inject<TMethodContextService>(
+    TYPES.methodContextService
+  );
+  private readonly executionContextService = inject<TExecutionContextService>(
+    TYPES.executionContextService
+  );
 
   /**
    * Retrieves memoized ClientSizing instance for given sizing name.
    *
    * Creates ClientSizing on first call, returns cached instance on subsequent calls.
-   * Cache key is sizingName string.
+   * Cache key is sizingName string. Candles and held symbols are resolved from the
+   * method and execution contexts of each calculate() call.
    *
    * @param sizingName - Name of registered sizing schema
    * @returns Configured ClientSizing instance
@@ -66,6 +83,13 @@ export class SizingConnectionService implements TSizing {
       return new ClientSizing({
         ...schema,
         logger: this.loggerService,
+        exchange: this.exchangeConnectionService,
+        getHeldSymbols: () =>
+          this.portfolioMetaService.getHeldSymbols(
+            this.methodContextService.context.exchangeName,
+            this.methodContextService.context.frameName,
+            this.executionContextService.context.backtest
+          ),
       });
     }
   );
@@ -74,7 +98,8 @@ export class SizingConnectionService implements TSizing {
    * Calculates position size based on risk parameters and configured method.
    *
    * Routes to appropriate ClientSizing instance based on provided context.
-   * Supports multiple sizing methods: fixed-percentage, kelly-criterion, atr-based.
+   * Supports multiple sizing methods: fixed-percentage, kelly-criterion, atr-based,
+   * volatility-target and risk-parity.
    *
    * @param params - Calculation parameters (symbol, balance, prices, method-specific data)
    * @param context - Execution context with sizing name
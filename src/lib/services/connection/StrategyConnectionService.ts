@@ -22,6 +22,7 @@ import {
   StrategyCancelReason,
   StrategyCloseReason,
   IStrategyTickResultOpened,
+  SignalInterval,
 } from "../../../interfaces/Strategy.interface";
 import StrategySchemaService from "../schema/StrategySchemaService";
 import ExchangeConnectionService from "./ExchangeConnectionService";
@@ -70,6 +71,14 @@ import ScheduleEventContract from "../../../contract/ScheduleEvent.contract";
 import SignalEventContract from "../../../contract/SignalEvent.contract";
 import TimeMetaService from "../meta/TimeMetaService";
 import PriceMetaService from "../meta/PriceMetaService";
+import PortfolioMetaService from "../meta/PortfolioMetaService";
+import ConversionMetaService from "../meta/ConversionMetaService";
+import AllocatorConnectionService from "./AllocatorConnectionService";
+import { AllocatorName } from "../../../interfaces/Allocator.interface";
+import RebalanceConnectionService from "./RebalanceConnectionService";
+import SizingConnectionService from "./SizingConnectionService";
+import { ISizingCalculateParams, SizingName } from "../../../interfaces/Sizing.interface";
+import { GLOBAL_CONFIG } from "../../../config/params";
 
 /** Default interval for strategies that do not specify one */
 const STRATEGY_DEFAULT_INTERVAL = "1m";
@@ -77,6 +86,9 @@ const STRATEGY_DEFAULT_INTERVAL = "1m";
 /** If not specified strategy will not open positions until createSignal is called manually */
 const STRATEGY_DEFAULT_SIGNAL = () => null;
 
+/** Number of candles of the strategy interval averaged into the ATR of an "atr-based" sizing */
+const SIZING_ATR_PERIOD = 14;
+
 /**
  * Builds the broker-confirmed OrderFillContract from the sync gate event.
  *
@@ -352,6 +364,16 @@ const CALL_SIGNAL_EMIT_FN = trycatch(
     isBacktest: boolean,
     symbol: string
   ): Promise<void> => {
+    await self.conversionMetaService.convert(tick);
+    await self.portfolioMetaService.next(tick);
+    if (tick.action === "opened" && self.strategySchemaService.get(context.strategyName).getTargetWeights) {
+      await self.rebalanceConnectionService.commitOpen(
+        symbol,
+        tick.signal.cost,
+        tick.createdAt,
+        { ...context, backtest: isBacktest }
+      );
+    }
     await ExecutionContextService.runInContext(async () => {
       if (isBacktest) {
         await signalBacktestEmitter.next(tick);
@@ -715,6 +737,14 @@ const CREATE_COMMIT_ACTIVE_PING_FN = (self: StrategyConnectionService) => trycat
     }
     await activePingSubject.next(event);
     await self.actionCoreService.pingActive(backtest, event, { strategyName, exchangeName, frameName: data.frameName });
+    if (self.strategySchemaService.get(strategyName).getTargetWeights) {
+      await self.rebalanceConnectionService.rebalance(
+        symbol,
+        currentPrice,
+        new Date(timestamp),
+        { strategyName, exchangeName, frameName: data.frameName, backtest }
+      );
+    }
   },
   {
     fallback: (error) => {
@@ -922,6 +952,199 @@ const CREATE_PAUSE_FN = (self: StrategyConnectionService, strategyName: Strategy
   }
 );
 
+/**
+ * Creates a callback function reading free cash of the portfolio ledger
+ * shared by every symbol and strategy of the same exchange, frame and mode.
+ *
+ * @param self - Reference to StrategyConnectionService instance
+ * @param exchangeName - Name of the exchange
+ * @param frameName - Name of the frame
+ * @param isBacktest - Flag indicating if the operation is for backtesting
+ * @returns Callback function returning free cash in USD
+ */
+const CREATE_FREE_CASH_FN = (self: StrategyConnectionService, exchangeName: ExchangeName, frameName: FrameName, isBacktest: boolean) =>
+  () => self.portfolioMetaService.getFreeCash(exchangeName, frameName, isBacktest);
+
+/**
+ * Creates the getSignal of a portfolio strategy: idle symbols open a long sized
+ * from the target weight returned by getTargetWeights.
+ *
+ * @param self - Reference to StrategyConnectionService instance
+ * @param strategyName - Portfolio strategy name
+ * @param exchangeName - Exchange name
+ * @param frameName - Frame name (empty for live)
+ * @param isBacktest - Whether running in backtest mode
+ * @returns getSignal function for ClientStrategy
+ */
+const CREATE_REBALANCE_SIGNAL_FN = (
+  self: StrategyConnectionService,
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  isBacktest: boolean
+) =>
+  async (symbol: string, when: Date, currentPrice: number): Promise<ISignalDto | null> =>
+    await self.rebalanceConnectionService.getSignal(
+      symbol,
+      when,
+      currentPrice,
+      { strategyName, exchangeName, frameName, backtest: isBacktest }
+    );
+
+/**
+ * Creates a callback function scaling a signal entry cost to the strategy budget
+ * of its capital allocator. Without allocatorName the cost passes unchanged.
+ *
+ * @param self - Reference to StrategyConnectionService instance
+ * @param allocatorName - Name of the allocator (empty string when not configured)
+ * @param strategyName - Name of the strategy
+ * @param exchangeName - Name of the exchange
+ * @param frameName - Name of the frame
+ * @param isBacktest - Flag indicating if the operation is for backtesting
+ * @returns Callback function returning the allocated cost or null
+ */
+const CREATE_ALLOCATED_COST_FN = (
+  self: StrategyConnectionService,
+  allocatorName: AllocatorName,
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  isBacktest: boolean
+) =>
+  async (cost: number, leverage: number): Promise<number | null> => {
+    if (!allocatorName) {
+      return cost;
+    }
+    return await self.allocatorConnectionService.allocate(
+      strategyName,
+      cost,
+      leverage,
+      self.executionContextService.context.when,
+      { allocatorName, exchangeName, frameName, backtest: isBacktest }
+    );
+  };
+
+/**
+ * Builds the method-specific sizing parameters of a signal: the stop distance for
+ * "fixed-percentage", rolling win-rate / win-loss stats for "kelly-criterion" and
+ * the ATR of the strategy interval for "atr-based". Returns null when the strategy
+ * has no closed-trade history with both a win and a loss for Kelly yet.
+ */
+const GET_SIZING_PARAMS_FN = async (
+  self: StrategyConnectionService,
+  sizingName: SizingName,
+  signal: ISignalDto,
+  priceOpen: number,
+  accountBalance: number,
+  interval: SignalInterval,
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  isBacktest: boolean
+): Promise<ISizingCalculateParams | null> => {
+  const symbol = self.executionContextService.context.symbol;
+  const base = { symbol, accountBalance, priceOpen };
+  const { method } = self.sizingConnectionService.getSizing(sizingName).params;
+  if (method === "fixed-percentage") {
+    return { ...base, method, priceStopLoss: signal.priceStopLoss };
+  }
+  if (method === "kelly-criterion") {
+    const returns = self.portfolioMetaService
+      .getStrategyReturns(exchangeName, frameName, isBacktest, strategyName)
+      .slice(-GLOBAL_CONFIG.CC_SIZING_KELLY_LOOKBACK);
+    const wins = returns.filter((pnl) => pnl > 0);
+    const losses = returns.filter((pnl) => pnl < 0);
+    if (!wins.length || !losses.length) {
+      return null;
+    }
+    const averageWin = wins.reduce((acc, pnl) => acc + pnl, 0) / wins.length;
+    const averageLoss = losses.reduce((acc, pnl) => acc - pnl, 0) / losses.length;
+    return {
+      ...base,
+      method,
+      winRate: wins.length / returns.length,
+      winLossRatio: averageWin / averageLoss,
+    };
+  }
+  if (method === "atr-based") {
+    const candles = await self.exchangeConnectionService.getCandles(symbol, interval, SIZING_ATR_PERIOD + 1);
+    let trueRangeSum = 0;
+    for (let i = 1; i < candles.length; i++) {
+      const { high, low } = candles[i];
+      const prevClose = candles[i - 1].close;
+      trueRangeSum += Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+    }
+    return { ...base, method, atr: trueRangeSum / Math.max(candles.length - 1, 1) };
+  }
+  return { ...base, method };
+};
+
+/**
+ * Creates a callback function sizing the entry cost of a signal returned without cost.
+ * Without sizingName, or when the size cannot be calculated, resolves to null and the
+ * signal keeps the default entry cost. Calculation errors are reported via errorEmitter.
+ *
+ * @param self - Reference to StrategyConnectionService instance
+ * @param sizingName - Name of the sizing schema (empty string when not configured)
+ * @param interval - Strategy interval (ATR candles of "atr-based" sizing)
+ * @param strategyName - Name of the strategy
+ * @param exchangeName - Name of the exchange
+ * @param frameName - Name of the frame
+ * @param isBacktest - Flag indicating if the operation is for backtesting
+ * @returns Callback function returning the sized cost in USD or null
+ */
+const CREATE_SIZED_COST_FN = (
+  self: StrategyConnectionService,
+  sizingName: SizingName,
+  interval: SignalInterval,
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  isBacktest: boolean
+) => trycatch(
+  async (signal: ISignalDto, currentPrice: number): Promise<number | null> => {
+    if (!sizingName) {
+      return null;
+    }
+    const priceOpen = signal.priceOpen ?? currentPrice;
+    const accountBalance = await self.portfolioMetaService.getAccountBalance(exchangeName, frameName, isBacktest);
+    const params = await GET_SIZING_PARAMS_FN(
+      self,
+      sizingName,
+      signal,
+      priceOpen,
+      accountBalance,
+      interval,
+      strategyName,
+      exchangeName,
+      frameName,
+      isBacktest
+    );
+    if (!params) {
+      return null;
+    }
+    const quantity = await self.sizingConnectionService.calculate(params, { sizingName });
+    const cost = quantity * priceOpen;
+    if (!Number.isFinite(cost) || cost <= 0) {
+      return null;
+    }
+    return cost;
+  },
+  {
+    fallback: (error) => {
+      const message = "StrategyConnectionService CREATE_SIZED_COST_FN thrown";
+      const payload = {
+        error: errorData(error),
+        message: getErrorMessage(error),
+      };
+      self.loggerService.warn(message, payload);
+      console.warn(message, payload);
+      errorEmitter.next(error);
+    },
+    defaultValue: null,
+  }
+);
+
 /**
  * Creates a callback function forwarding the post-verdict order-check CONTINUE
  * decision to orderContinueSubject. Called by ClientStrategy on every live tick
@@ -1106,6 +1329,17 @@ export class StrategyConnectionService implements TStrategy {
   );
   public readonly timeMetaService = inject<TimeMetaService>(TYPES.timeMetaService);
   public readonly priceMetaService = inject<PriceMetaService>(TYPES.priceMetaService);
+  public readonly portfolioMetaService = inject<PortfolioMetaService>(TYPES.portfolioMetaService);
+  public readonly conversionMetaService = inject<ConversionMetaService>(TYPES.conversionMetaService);
+  public readonly allocatorConnectionService = inject<AllocatorConnectionService>(
+    TYPES.allocatorConnectionService
+  );
+  public readonly rebalanceConnectionService = inject<RebalanceConnectionService>(
+    TYPES.rebalanceConnectionService
+  );
+  public readonly sizingConnectionService = inject<SizingConnectionService>(
+    TYPES.sizingConnectionService
+  );
 
   /**
    * Retrieves memoized ClientStrategy instance for given symbol-strategy pair with exchange and frame isolation.
@@ -1127,8 +1361,13 @@ export class StrategyConnectionService implements TStrategy {
       const {
         riskName = "",
         riskList = [],
+        allocatorName = "",
+        sizingName = "",
         getSignal = STRATEGY_DEFAULT_SIGNAL,
+        getTargetWeights,
         interval = STRATEGY_DEFAULT_INTERVAL,
+        fillModel,
+        latency,
         callbacks,
       } = this.strategySchemaService.get(strategyName);
       return new ClientStrategy({
@@ -1155,7 +1394,12 @@ export class StrategyConnectionService implements TStrategy {
         ),
         riskName,
         strategyName,
-        getSignal,
+        getSignal: getTargetWeights
+          ? CREATE_REBALANCE_SIGNAL_FN(this, strategyName, exchangeName, frameName, backtest)
+          : getSignal,
+        getTargetWeights,
+        fillModel,
+        latency: latency?.fork ? latency.fork() : latency,
         callbacks,
         onInit: CREATE_COMMIT_INIT_FN(this),
         onSchedulePing: CREATE_COMMIT_SCHEDULE_PING_FN(this),
@@ -1173,6 +1417,9 @@ export class StrategyConnectionService implements TStrategy {
         onHighestProfit: CREATE_HIGHEST_PROFIT_FN(this, strategyName, exchangeName, frameName, backtest),
         onMaxDrawdown: CREATE_MAX_DRAWDOWN_FN(this, strategyName, exchangeName, frameName, backtest),
         onPause: CREATE_PAUSE_FN(this, strategyName, exchangeName, frameName, backtest),
+        getFreeCash: CREATE_FREE_CASH_FN(this, exchangeName, frameName, backtest),
+        getAllocatedCost: CREATE_ALLOCATED_COST_FN(this, allocatorName, strategyName, exchangeName, frameName, backtest),
+        getSizedCost: CREATE_SIZED_COST_FN(this, sizingName, interval, strategyName, exchangeName, frameName, backtest),
       });
     }
   );
@@ -1392,6 +1639,31 @@ export class StrategyConnectionService implements TStrategy {
     return await strategy.getPositionPnlCost(symbol, currentPrice);
   };
 
+  /**
+   * Returns the funding accrued on the current perpetual position in dollars.
+   *
+   * Delegates to ClientStrategy.getPositionFundingCost().
+   * Returns null if no pending signal exists.
+   *
+   * @param backtest - Whether running in backtest mode
+   * @param symbol - Trading pair symbol
+   * @param context - Execution context with strategyName, exchangeName, frameName
+   * @returns Promise resolving to accrued funding in dollars or null
+   */
+  public getPositionFundingCost = async (
+    backtest: boolean,
+    symbol: string,
+    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName }
+  ): Promise<number | null> => {
+    this.loggerService.log("strategyConnectionService getPositionFundingCost", {
+      symbol,
+      context,
+      backtest,
+    });
+    const strategy = this.getStrategy(symbol, context.strategyName, context.exchangeName, context.frameName, backtest);
+    return await strategy.getPositionFundingCost(symbol);
+  };
+
   /**
    * Returns the list of DCA entry prices for the current pending signal.
    *
@@ -1909,6 +2181,30 @@ export class StrategyConnectionService implements TStrategy {
     return await strategy.getPositionHighestProfitPrice(symbol);
   };
 
+  /**
+   * Returns the liquidation price of the current leveraged position.
+   *
+   * Delegates to ClientStrategy.getPositionLiquidationPrice().
+   * Returns null if no pending signal exists or the position is unleveraged.
+   *
+   * @param backtest - Whether running in backtest mode
+   * @param symbol - Trading pair symbol
+   * @param context - Execution context with strategyName, exchangeName, frameName
+   * @returns Promise resolving to liquidation price or null
+   */
+  public getPositionLiquidationPrice = async (
+    backtest: boolean,
+    symbol: string,
+    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName }
+  ): Promise<number | null> => {
+    this.loggerService.log("strategyConnectionService getPositionLiquidationPrice", {
+      symbol,
+      context,
+    });
+    const strategy = this.getStrategy(symbol, context.strategyName, context.exchangeName, context.frameName, backtest);
+    return await strategy.getPositionLiquidationPrice(symbol);
+  };
+
   /**
    * Returns the timestamp when the best profit price was recorded during this position's life.
    *
@@ -2957,6 +3253,7 @@ export class StrategyConnectionService implements TStrategy {
    * @param symbol - Trading pair symbol
    * @param currentPrice - New entry price to validate
    * @param context - Execution context with strategyName, exchangeName, frameName
+   * @param cost - Cost of the new entry, checked against the lot limits
    * @returns Promise<boolean> - true if `averageBuy` would execute, false otherwise
    */
   public validateAverageBuy = async (
@@ -2964,9 +3261,10 @@ export class StrategyConnectionService implements TStrategy {
     symbol: string,
     currentPrice: number,
     context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName },
+    cost: number,
   ): Promise<boolean> => {
     const strategy = this.getStrategy(symbol, context.strategyName, context.exchangeName, context.frameName, backtest);
-    return await strategy.validateAverageBuy(symbol, currentPrice);
+    return await strategy.validateAverageBuy(symbol, currentPrice, cost);
   };
 
   /**
@@ -5,6 +5,8 @@ import ExecutionContextService from "../context/ExecutionContextService";
 import {
   CandleInterval,
   ExchangeName,
+  FeeOrderType,
+  FeeSide,
   IAggregatedTradeData,
   ICandleData,
   IExchange,
@@ -32,9 +34,11 @@ const CREATE_KEY_FN = (exchangeName: ExchangeName): string => {
  * Type definition for exchange methods.
  * Maps all keys of IExchange to any type.
  * Used for dynamic method routing in ExchangeCoreService.
+ * Slippage, funding and symbol rules are read by ClientStrategy through
+ * ExchangeConnectionService inside its own execution context, so they are omitted.
  */
 type TExchange = {
-  [key in keyof IExchange]: any;
+  [key in keyof Omit<IExchange, "getSlippage" | "getFundingRates" | "getSymbolInfo">]: any;
 };
 
 /**
@@ -271,6 +275,49 @@ export class ExchangeCoreService implements TExchange {
     );
   };
 
+  /**
+   * Resolves fee percent for an order fill with execution context.
+   *
+   * @param symbol - Trading pair symbol
+   * @param side - Fill side: "buy" or "sell"
+   * @param orderType - Liquidity role: "maker" or "taker"
+   * @param notional - Fill notional in USD
+   * @param when - Timestamp for context (also the fill timestamp)
+   * @param backtest - Whether running in backtest mode
+   * @returns Promise resolving to fee percent (negative for rebates)
+   */
+  public getFee = async (
+    symbol: string,
+    side: FeeSide,
+    orderType: FeeOrderType,
+    notional: number,
+    when: Date,
+    backtest: boolean
+  ) => {
+    this.loggerService.log("exchangeCoreService getFee", {
+      symbol,
+      side,
+      orderType,
+      notional,
+      when,
+      backtest,
+    });
+    if (!MethodContextService.hasContext()) {
+      throw new Error("exchangeCoreService getFee requires a method context");
+    }
+    await this.validate(this.methodContextService.context.exchangeName);
+    return await ExecutionContextService.runInContext(
+      async () => {
+        return await this.exchangeConnectionService.getFee(symbol, side, orderType, notional, when);
+      },
+      {
+        symbol,
+        when,
+        backtest,
+      }
+    );
+  };
+
   /**
    * Formats quantity with execution context.
    *
@@ -389,6 +436,83 @@ export class ExchangeCoreService implements TExchange {
     );
   };
 
+  /**
+   * Fetches aggregated trades forward in time (backtest mode only) with execution context.
+   *
+   * @param symbol - Trading pair symbol
+   * @param minutes - Number of whole minutes to fetch
+   * @param when - Timestamp for context
+   * @param backtest - Whether running in backtest mode (must be true)
+   * @returns Promise resolving to aggregated trades sorted by timestamp
+   */
+  public getNextAggregatedTrades = async (
+    symbol: string,
+    minutes: number,
+    when: Date,
+    backtest: boolean
+  ): Promise<IAggregatedTradeData[]> => {
+    this.loggerService.log("exchangeCoreService getNextAggregatedTrades", {
+      symbol,
+      minutes,
+      when,
+      backtest,
+    });
+    if (!MethodContextService.hasContext()) {
+      throw new Error("exchangeCoreService getNextAggregatedTrades requires a method context");
+    }
+    await this.validate(this.methodContextService.context.exchangeName);
+    return await ExecutionContextService.runInContext(
+      async () => {
+        return await this.exchangeConnectionService.getNextAggregatedTrades(symbol, minutes);
+      },
+      {
+        symbol,
+        when,
+        backtest,
+      }
+    );
+  };
+
+  /**
+   * Probes the last candles of a symbol with a single adapter call and execution context.
+   *
+   * @param symbol - Trading pair symbol
+   * @param interval - Candle interval (e.g., "1m")
+   * @param when - Timestamp for context (used in backtest mode)
+   * @param backtest - Whether running in backtest mode
+   * @param limit - Number of candles to fetch
+   * @returns Promise resolving to candles, or null when unavailable
+   */
+  public probeCandles = async (
+    symbol: string,
+    interval: CandleInterval,
+    when: Date,
+    backtest: boolean,
+    limit: number
+  ): Promise<ICandleData[] | null> => {
+    this.loggerService.log("exchangeCoreService probeCandles", {
+      symbol,
+      interval,
+      when,
+      backtest,
+      limit,
+    });
+    if (!MethodContextService.hasContext()) {
+      throw new Error("exchangeCoreService probeCandles requires a method context");
+    }
+    await this.validate(this.methodContextService.context.exchangeName);
+    return await ExecutionContextService.runInContext(
+      async () => {
+        return await this.exchangeConnectionService.probeCandles(symbol, interval, limit);
+      },
+      {
+        symbol,
+        when,
+        backtest,
+      }
+    );
+  };
+
   /**
    * Fetches raw candles with flexible date/limit parameters and execution context.
    *
@@ -318,6 +318,29 @@ export class StrategyCoreService implements TStrategy {
     return await this.strategyConnectionService.getPositionPnlCost(backtest, symbol, currentPrice, context);
   };
 
+  /**
+   * Returns the funding accrued on the current perpetual position in dollars.
+   *
+   * Returns null if no pending signal exists.
+   *
+   * @param backtest - Whether running in backtest mode
+   * @param symbol - Trading pair symbol
+   * @param context - Execution context with strategyName, exchangeName, frameName
+   * @returns Promise resolving to accrued funding in dollars or null
+   */
+  public getPositionFundingCost = async (
+    backtest: boolean,
+    symbol: string,
+    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName }
+  ): Promise<number | null> => {
+    this.loggerService.log("strategyCoreService getPositionFundingCost", {
+      symbol,
+      context,
+    });
+    await this.validate(context);
+    return await this.strategyConnectionService.getPositionFundingCost(backtest, symbol, context);
+  };
+
   /**
    * Returns the list of DCA entry prices for the current pending signal.
    *
@@ -1272,22 +1295,25 @@ export class StrategyCoreService implements TStrategy {
    * @param symbol - Trading pair symbol
    * @param currentPrice - New entry price to validate
    * @param context - Execution context with strategyName, exchangeName, frameName
+   * @param cost - Cost of the new entry, checked against the lot limits
    * @returns Promise<boolean> - true if `averageBuy` would execute, false otherwise
    */
   public validateAverageBuy = async (
     backtest: boolean,
     symbol: string,
     currentPrice: number,
-    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName }
+    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName },
+    cost: number,
   ): Promise<boolean> => {
     this.loggerService.log("strategyCoreService validateAverageBuy", {
       symbol,
       currentPrice,
       context,
       backtest,
+      cost,
     });
     await this.validate(context);
-    return await this.strategyConnectionService.validateAverageBuy(backtest, symbol, currentPrice, context);
+    return await this.strategyConnectionService.validateAverageBuy(backtest, symbol, currentPrice, context, cost);
   };
 
   /**
@@ -1477,6 +1503,27 @@ export class StrategyCoreService implements TStrategy {
     return await this.strategyConnectionService.getPositionHighestProfitPrice(backtest, symbol, context);
   };
 
+  /**
+   * Returns the liquidation price of the current leveraged position.
+   *
+   * @param backtest - Whether running in backtest mode
+   * @param symbol - Trading pair symbol
+   * @param context - Execution context with strategyName, exchangeName, frameName
+   * @returns Promise resolving to liquidation price or null
+   */
+  public getPositionLiquidationPrice = async (
+    backtest: boolean,
+    symbol: string,
+    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName }
+  ): Promise<number | null> => {
+    this.loggerService.log("strategyCoreService getPositionLiquidationPrice", {
+      symbol,
+      context,
+    });
+    await this.validate(context);
+    return await this.strategyConnectionService.getPositionLiquidationPrice(backtest, symbol, context);
+  };
+
   /**
    * Returns the timestamp when the best profit price was recorded during this position's life.
    *
@@ -140,6 +140,7 @@ export class RiskGlobalService implements TRisk {
       priceTakeProfit: number;
       minuteEstimatedTime: number;
       openTimestamp: number;
+      cost?: number;
     }
   ) => {
     this.loggerService.log("riskGlobalService addSignal", {
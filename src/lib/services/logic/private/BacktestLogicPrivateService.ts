@@ -14,6 +14,7 @@ import {
   backtestScheduleOpenSubject,
   signalBacktestEmitter,
   signalEmitter,
+  validationSubject,
 } from "../../../../config/emitters";
 import { GLOBAL_CONFIG } from "../../../../config/params";
 import { and, errorData, getErrorMessage } from "functools-kit";
@@ -21,6 +22,8 @@ import ActionCoreService from "../../core/ActionCoreService";
 import { Candle } from "../../../../classes/Candle";
 import TimeMetaService from "../../meta/TimeMetaService";
 import PriceMetaService from "../../meta/PriceMetaService";
+import PortfolioMetaService from "../../meta/PortfolioMetaService";
+import ConversionMetaService from "../../meta/ConversionMetaService";
 
 const ACTIVE_CANDLE_INCLUDED = 1;
 const SCHEDULE_ACTIVATION_CANDLE_SKIP = 1;
@@ -99,6 +102,53 @@ const TICK_FN = async (
   }
 };
 
+/**
+ * Creates the key of the candle gaps reported by one run of a symbol.
+ */
+const CREATE_GAP_KEY_FN = (self: BacktestLogicPrivateService, symbol: string): string => {
+  const { strategyName, exchangeName, frameName } = self.methodContextService.context;
+  return `${symbol}:${strategyName}:${exchangeName}:${frameName}`;
+};
+
+/**
+ * Raises a validation notification for every hole in 1m candle data longer than
+ * CC_MAX_CANDLE_GAP_MINUTES. Stops and targets crossing such a hole are evaluated
+ * on the first candle after it, so the hole is surfaced instead of passing silently.
+ * Buffered fetches overlap, so each hole is reported once per run.
+ */
+const CHECK_CANDLE_GAPS_FN = async (
+  self: BacktestLogicPrivateService,
+  symbol: string,
+  candles: ICandleData[]
+): Promise<void> => {
+  if (!GLOBAL_CONFIG.CC_MAX_CANDLE_GAP_MINUTES) {
+    return;
+  }
+  const key = CREATE_GAP_KEY_FN(self, symbol);
+  for (let i = 1; i < candles.length; i++) {
+    const missingMinutes = (candles[i].timestamp - candles[i - 1].timestamp) / 60_000 - 1;
+    if (missingMinutes <= GLOBAL_CONFIG.CC_MAX_CANDLE_GAP_MINUTES) {
+      continue;
+    }
+    const reported = self._reportedGaps.get(key) ?? new Set<number>();
+    if (reported.has(candles[i].timestamp)) {
+      continue;
+    }
+    reported.add(candles[i].timestamp);
+    self._reportedGaps.set(key, reported);
+    const message =
+      `backtestLogicPrivateService candle gap: ${missingMinutes} missing 1m candles ` +
+      `before ${new Date(candles[i].timestamp).toISOString()} symbol=${symbol} ` +
+      `exchangeName=${self.methodContextService.context.exchangeName} (CC_MAX_CANDLE_GAP_MINUTES=${GLOBAL_CONFIG.CC_MAX_CANDLE_GAP_MINUTES})`;
+    self.loggerService.warn(message, {
+      symbol,
+      missingMinutes,
+      timestamp: candles[i].timestamp,
+    });
+    await validationSubject.next(new Error(message));
+  }
+};
+
 /**
  * Wraps `exchangeCoreService.getNextCandles` with error capture and a cooperative
  * event-loop hand-off after a successful fetch.
@@ -125,6 +175,7 @@ const GET_CANDLES_FN = async (
 ): Promise<ICandleData[] | TFnError> => {
   try {
     const result = await self.exchangeCoreService.getNextCandles(symbol, "1m", candlesNeeded, bufferStartTime, true);
+    await CHECK_CANDLE_GAPS_FN(self, symbol, result);
     await Candle.spinLock("BacktestLogicPrivateService GET_CANDLES_FN");
     return result;
   } catch (error) {
@@ -385,6 +436,8 @@ const PROCESS_SCHEDULED_SIGNAL_FN = async function*(
       return isOk;
     }).connect(async (tick) => {
       scheduleOpenResult = tick;
+      await self.conversionMetaService.convert(tick);
+      await self.portfolioMetaService.next(tick);
       await signalEmitter.next(tick);
       await signalBacktestEmitter.next(tick);
       await self.actionCoreService.signalBacktest(true, tick, {
@@ -605,6 +658,50 @@ const PROCESS_OPENED_SIGNAL_FN = async function*(
   return { type: "closed", previousEventTimestamp: newTimestamp, closeTimestamp: backtestResult.closeTimestamp, shouldStop };
 };
 
+/**
+ * Resolves a signal still scheduled or pending after the last frame of a shared
+ * timeline run. Replays the candles around frameEndTime, so the first candle past
+ * it closes the position by time_expired or cancels the scheduled signal by
+ * timeout, as the single-symbol run does.
+ *
+ * @returns The resolved result, a {@link TFnError} on sub-operation failure, or
+ *   `null` when the exchange has no candles past the frame end yet.
+ */
+const SETTLE_TIMELINE_SIGNAL_FN = async (
+  self: BacktestLogicPrivateService,
+  symbol: string,
+  frameEndTime: number
+): Promise<IStrategyTickResultClosed | IStrategyTickResultCancelled | TFnError | null> => {
+  const bufferMinutes = GLOBAL_CONFIG.CC_AVG_PRICE_CANDLES_COUNT - ACTIVE_CANDLE_INCLUDED;
+  const when = new Date(frameEndTime);
+  const bufferStartTime = new Date(frameEndTime - bufferMinutes * 60_000);
+  const context = {
+    strategyName: self.methodContextService.context.strategyName,
+    exchangeName: self.methodContextService.context.exchangeName,
+    frameName: self.methodContextService.context.frameName,
+  };
+  const candles = await GET_CANDLES_FN(self, symbol, bufferMinutes + 2, bufferStartTime, { frameEndTime });
+  if ("__error__" in candles) {
+    return candles;
+  }
+  if (candles.length < bufferMinutes + 2) {
+    self.loggerService.info("backtestLogicPrivateService timeline: no candles past frame end, signal left open", {
+      symbol,
+      frameEndTime,
+      candlesCount: candles.length,
+    });
+    return null;
+  }
+  const result = await BACKTEST_FN(self, symbol, candles, frameEndTime, when, context, { frameEndTime });
+  if ("__error__" in result) {
+    return result;
+  }
+  if (result.action === "active") {
+    return await CLOSE_PENDING_FN(self, symbol, context, candles, frameEndTime, when, result.signal.id);
+  }
+  return result;
+};
+
 /**
  * Private service for backtest orchestration using async generators.
  *
@@ -641,6 +738,15 @@ export class BacktestLogicPrivateService {
   readonly priceMetaService = inject<PriceMetaService>(
     TYPES.priceMetaService
   );
+  readonly portfolioMetaService = inject<PortfolioMetaService>(
+    TYPES.portfolioMetaService
+  );
+  readonly conversionMetaService = inject<ConversionMetaService>(
+    TYPES.conversionMetaService
+  );
+
+  /** Candle gaps already reported in the current run, by symbol-strategy-exchange-frame */
+  readonly _reportedGaps = new Map<string, Set<number>>();
 
   /**
    * Runs backtest for a symbol, streaming closed signals as async generator.
@@ -661,6 +767,8 @@ export class BacktestLogicPrivateService {
       symbol,
     });
 
+    this._reportedGaps.delete(CREATE_GAP_KEY_FN(this, symbol));
+
     const backtestStartTime = performance.now();
 
     let _fatalError: unknown = null;
@@ -798,6 +906,153 @@ export class BacktestLogicPrivateService {
       }
     }
   }
+
+  /**
+   * Runs backtest for several symbols on one shared timeline.
+   *
+   * Every frame of the ClientFrame timeframe is ticked for all symbols in the
+   * given order before moving to the next frame, so risk validations, the
+   * portfolio ledger and Heat see the positions really open at each moment.
+   * Unlike run(), open signals are not fast-forwarded through their candles:
+   * TP/SL, activation and expiry are checked on frame ticks (VWAP at the frame
+   * time), so use a "1m" frame for minute precision. Funding and gap-aware
+   * stops apply on frame ticks; fill models other than "vwap", latency and
+   * CC_BACKTEST_MAX_VOLUME_PERCENT need candles, so Backtest.run rejects them
+   * for symbol lists. Backtest.run routes a list of one symbol to run(), so
+   * only several symbols take this path.
+   *
+   * @param symbols - Trading pair symbols (e.g., ["BTCUSDT", "ETHUSDT"])
+   * @yields Scheduled, opened, closed and cancelled results of every symbol
+   * @throws Error when the symbol list is empty
+   *
+   * @example
+   * ```typescript
+   * for await (const result of backtestLogic.runTimeline(["BTCUSDT", "ETHUSDT"])) {
+   *   console.log(result.symbol, result.action);
+   * }
+   * ```
+   */
+  public async *runTimeline(symbols: string[]) {
+    this.loggerService.log("backtestLogicPrivateService runTimeline", {
+      symbols,
+    });
+
+    if (!symbols.length) {
+      throw new Error("backtestLogicPrivateService runTimeline requires at least one symbol");
+    }
+
+    symbols.forEach((symbol) => this._reportedGaps.delete(CREATE_GAP_KEY_FN(this, symbol)));
+
+    const backtestStartTime = performance.now();
+
+    let _fatalError: unknown = null;
+
+    const timeframes = await this.frameCoreService.getTimeframe(
+      symbols[0],
+      this.methodContextService.context.frameName
+    );
+    const totalFrames = timeframes.length;
+
+    const frameEndTime = timeframes[totalFrames - 1].getTime();
+
+    // Symbols still ticking: a stopped symbol leaves once it is idle
+    const activeSymbols = new Set(symbols);
+    // Symbols holding a scheduled or pending signal after their last tick
+    const openSymbols = new Set<string>();
+
+    try {
+      for (let i = 0; i < totalFrames && activeSymbols.size > 0 && _fatalError === null; i++) {
+        const when = timeframes[i];
+        for (const symbol of symbols) {
+          if (!activeSymbols.has(symbol)) {
+            continue;
+          }
+
+          await EMIT_PROGRESS_FN(this, symbol, totalFrames, i);
+
+          const result = await TICK_FN(this, symbol, when);
+          if ("__error__" in result) {
+            _fatalError = new Error(`[${result.reason}] ${result.message}`);
+            break;
+          }
+
+          if (
+            result.action === "idle" &&
+            await CHECK_STOPPED_FN(this, symbol, "timeline idle state", { when: when.toISOString(), processedFrames: i, totalFrames })
+          ) {
+            activeSymbols.delete(symbol);
+            continue;
+          }
+
+          if (
+            result.action === "scheduled" ||
+            result.action === "waiting" ||
+            result.action === "opened" ||
+            result.action === "active"
+          ) {
+            openSymbols.add(symbol);
+          } else {
+            openSymbols.delete(symbol);
+          }
+
+          if (
+            result.action === "scheduled" ||
+            result.action === "opened" ||
+            result.action === "closed" ||
+            result.action === "cancelled"
+          ) {
+            yield result;
+          }
+        }
+      }
+
+      if (_fatalError === null) {
+        for (const symbol of symbols) {
+          if (!openSymbols.has(symbol)) {
+            continue;
+          }
+          const result = await SETTLE_TIMELINE_SIGNAL_FN(this, symbol, frameEndTime);
+          if (result === null) {
+            continue;
+          }
+          if ("__error__" in result) {
+            _fatalError = new Error(`[${result.reason}] ${result.message}`);
+            break;
+          }
+          yield result;
+        }
+      }
+
+      if (_fatalError === null) {
+        const backtestEndTime = performance.now();
+        for (const symbol of symbols) {
+          await EMIT_PROGRESS_FN(this, symbol, totalFrames, totalFrames);
+          await performanceEmitter.next({
+            timestamp: Date.now(),
+            previousTimestamp: null,
+            metricType: "backtest_total",
+            duration: backtestEndTime - backtestStartTime,
+            strategyName: this.methodContextService.context.strategyName,
+            exchangeName: this.methodContextService.context.exchangeName,
+            frameName: this.methodContextService.context.frameName,
+            symbol,
+            backtest: true,
+          });
+        }
+      }
+    } catch (error) {
+      _fatalError = error;
+    } finally {
+      if (_fatalError !== null) {
+        console.error(
+          `[BacktestLogicPrivateService] Fatal error — timeline backtest broken for symbols=${symbols.join(",")} ` +
+          `strategy=${this.methodContextService.context.strategyName}`,
+          _fatalError
+        );
+        process.exit(-1);
+      }
+    }
+  }
 }
 
 export default BacktestLogicPrivateService;
@@ -17,9 +17,66 @@ import {
 import { errorData, getErrorMessage, resolveDocuments, trycatch } from "functools-kit";
 import { ExchangeName } from "../../../../interfaces/Exchange.interface";
 import { FrameName } from "../../../../interfaces/Frame.interface";
-import { IWalkerSchema } from "../../../../interfaces/Walker.interface";
+import { IWalkerSchema, IWalkerWalkForward } from "../../../../interfaces/Walker.interface";
 import { BacktestStatisticsModel } from "../../../../model/BacktestStatistics.model";
+import {
+  IWalkForwardWindow,
+  WalkForwardStatisticsModel,
+} from "../../../../model/WalkForwardStatistics.model";
 import { Lookup } from "../../../../classes/Lookup";
+import FrameSchemaService from "../../schema/FrameSchemaService";
+import FrameValidationService from "../../validation/FrameValidationService";
+import FrameConnectionService from "../../connection/FrameConnectionService";
+import { getWalkForwardWindows } from "../../../../helpers/getWalkForwardWindows";
+import { IFrameSchema } from "../../../../interfaces/Frame.interface";
+import {
+  getSignificanceStatistics,
+  ISignificanceCandidate,
+} from "../../../../helpers/getSignificanceStatistics";
+import { GLOBAL_CONFIG } from "../../../../config/params";
+
+const MS_PER_MINUTE = 60_000;
+
+/** Minimum stitched out-of-sample signals for the Sharpe ratio (same gate as backtest statistics) */
+const MIN_SIGNALS_FOR_RATIOS = 10;
+
+/** Float-artifact threshold for the standard deviation (same as backtest statistics) */
+const STDDEV_EPSILON = 1e-9;
+
+/**
+ * Extracts the walker metric from backtest statistics.
+ * Returns null for missing, NaN or infinite values so they never win.
+ *
+ * @param stats - Backtest statistics of a strategy
+ * @param metric - Metric to extract
+ * @returns Metric value or null
+ */
+const GET_METRIC_VALUE_FN = (
+  stats: BacktestStatisticsModel,
+  metric: WalkerMetric
+): number | null => {
+  const value = stats[metric];
+  return value !== null &&
+    value !== undefined &&
+    typeof value === "number" &&
+    !isNaN(value) &&
+    isFinite(value)
+    ? value
+    : null;
+};
+
+/**
+ * Averages the non-null values of a list.
+ *
+ * @param values - Values to average
+ * @returns Average or null if every value is null
+ */
+const GET_AVERAGE_FN = (values: (number | null)[]): number | null => {
+  const list = values.filter((value): value is number => value !== null);
+  return list.length
+    ? list.reduce((sum, value) => sum + value, 0) / list.length
+    : null;
+};
 
 /**
  * Wrapper to call onStrategyStart callback with error handling.
@@ -162,13 +219,264 @@ const CALL_COMPLETE_CALLBACKS_FN = trycatch(
   }
 );
 
+/**
+ * Registers a derived walk-forward frame, or refreshes it when a previous run
+ * already registered a frame with the same name.
+ *
+ * @param self - WalkerLogicPrivateService instance
+ * @param frameSchema - Derived frame schema
+ */
+const REGISTER_FRAME_FN = async (
+  self: WalkerLogicPrivateService,
+  frameSchema: IFrameSchema
+): Promise<void> => {
+  const frameList = await self.frameValidationService.list();
+  if (frameList.some(({ frameName }) => frameName === frameSchema.frameName)) {
+    self.frameSchemaService.override(frameSchema.frameName, frameSchema);
+    self.frameConnectionService.clear(frameSchema.frameName);
+    return;
+  }
+  self.frameValidationService.addFrame(frameSchema.frameName, frameSchema);
+  self.frameSchemaService.register(frameSchema.frameName, frameSchema);
+};
+
+/**
+ * Runs a backtest of one strategy on a walk-forward frame.
+ * A failing backtest is reported via errorEmitter and yields null.
+ *
+ * @param self - WalkerLogicPrivateService instance
+ * @param symbol - Trading pair symbol
+ * @param strategyName - Strategy to run
+ * @param exchangeName - Exchange of the walker
+ * @param frameName - Derived train or test frame
+ * @returns Backtest statistics or null on failure
+ */
+const RUN_BACKTEST_FN = async (
+  self: WalkerLogicPrivateService,
+  symbol: string,
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName
+): Promise<BacktestStatisticsModel | null> => {
+  const context = { strategyName, exchangeName, frameName };
+  // Strategies are compared one after another: each starts from a fresh account
+  self.backtestLogicPublicService.clearAccount(context);
+  Lookup.addActivity({ symbol, context, backtest: true });
+  try {
+    await resolveDocuments(self.backtestLogicPublicService.run(symbol, context));
+  } catch (error) {
+    console.warn(`walkerLogicPrivateService walk-forward backtest failed symbol=${symbol} strategyName=${strategyName} frameName=${frameName}`);
+    self.loggerService.warn(
+      "walkerLogicPrivateService walk-forward backtest failed for strategy, skipping",
+      {
+        strategyName,
+        symbol,
+        frameName,
+        error: errorData(error), message: getErrorMessage(error),
+      }
+    );
+    await errorEmitter.next(error);
+    return null;
+  } finally {
+    Lookup.removeActivity({ symbol, context, backtest: true });
+  }
+  return await self.backtestMarkdownService.getData(symbol, strategyName, exchangeName, frameName, true);
+};
+
+/**
+ * Summarizes walk-forward windows: stitches the out-of-sample closed signals of
+ * every test window and compares the window winners in-sample vs out-of-sample.
+ *
+ * @param walkForward - Walk-forward configuration
+ * @param metric - Walker metric
+ * @param windows - Per-window results
+ * @returns Walk-forward statistics
+ */
+const CREATE_WALK_FORWARD_STATS_FN = (
+  walkForward: IWalkerWalkForward,
+  metric: WalkerMetric,
+  windows: IWalkForwardWindow[]
+): WalkForwardStatisticsModel => {
+  const returns = windows
+    .flatMap(({ oosStats }) => (oosStats ? oosStats.signalList : []))
+    .map(({ pnl }) => pnl.pnlPercentage);
+
+  const totalSignals = returns.length;
+  const totalPnl = totalSignals
+    ? returns.reduce((sum, value) => sum + value, 0)
+    : null;
+  const avgPnl = totalPnl !== null ? totalPnl / totalSignals : null;
+
+  // Win rate excludes break-even trades, as in backtest statistics
+  const winCount = returns.filter((value) => value > 0).length;
+  const lossCount = returns.filter((value) => value < 0).length;
+  const winRate =
+    winCount + lossCount > 0 ? (winCount / (winCount + lossCount)) * 100 : null;
+
+  const stdDev =
+    avgPnl !== null && totalSignals >= MIN_SIGNALS_FOR_RATIOS
+      ? Math.sqrt(
+          returns.reduce((sum, value) => sum + Math.pow(value - avgPnl, 2), 0) /
+            (totalSignals - 1)
+        )
+      : null;
+  const sharpeRatio =
+    avgPnl !== null && stdDev !== null && stdDev > STDDEV_EPSILON
+      ? avgPnl / stdDev
+      : null;
+
+  const avgIsMetric = GET_AVERAGE_FN(windows.map(({ isMetric }) => isMetric));
+  const avgOosMetric = GET_AVERAGE_FN(windows.map(({ oosMetric }) => oosMetric));
+  const degradation =
+    avgIsMetric !== null && avgOosMetric !== null && avgIsMetric > 0
+      ? ((avgIsMetric - avgOosMetric) / avgIsMetric) * 100
+      : null;
+
+  // Walk-forward efficiency: OOS return rate over the IS return rate of the same winners
+  let isPnl = 0;
+  let isMinutes = 0;
+  let oosPnl = 0;
+  let oosMinutes = 0;
+  for (const window of windows) {
+    if (!window.isStats || !window.oosStats) {
+      continue;
+    }
+    isPnl += window.isStats.totalPnl ?? 0;
+    isMinutes += (window.trainEnd - window.trainStart + 1) / MS_PER_MINUTE;
+    oosPnl += window.oosStats.totalPnl ?? 0;
+    oosMinutes += (window.testEnd - window.testStart + 1) / MS_PER_MINUTE;
+  }
+  const walkForwardEfficiency =
+    isPnl > 0 && isMinutes > 0 && oosMinutes > 0
+      ? oosPnl / oosMinutes / (isPnl / isMinutes)
+      : null;
+
+  return {
+    mode: walkForward.mode,
+    metric,
+    windows,
+    totalSignals,
+    winRate,
+    totalPnl,
+    avgPnl,
+    sharpeRatio,
+    avgIsMetric,
+    avgOosMetric,
+    degradation,
+    walkForwardEfficiency,
+  };
+};
+
+/**
+ * Runs the walk-forward analysis of a walker.
+ *
+ * For every window all strategies are backtested on the train frame, the best one
+ * by the walker metric is backtested on the following test frame.
+ *
+ * @param self - WalkerLogicPrivateService instance
+ * @param symbol - Trading pair symbol
+ * @param strategies - Strategies to compare
+ * @param metric - Walker metric
+ * @param context - Walker context
+ * @param walkForward - Walk-forward configuration
+ * @param stoppedStrategies - Strategies stopped via walkerStopSubject
+ * @returns Walk-forward statistics or null when the walker was stopped
+ */
+const RUN_WALK_FORWARD_FN = async (
+  self: WalkerLogicPrivateService,
+  symbol: string,
+  strategies: StrategyName[],
+  metric: WalkerMetric,
+  context: {
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+    walkerName: WalkerName;
+  },
+  walkForward: IWalkerWalkForward,
+  stoppedStrategies: Set<StrategyName>
+): Promise<WalkForwardStatisticsModel | null> => {
+  const frameSchema = self.frameSchemaService.get(context.frameName);
+  const windows: IWalkForwardWindow[] = [];
+
+  for (const range of getWalkForwardWindows(frameSchema, walkForward)) {
+    await REGISTER_FRAME_FN(self, {
+      frameName: range.trainFrameName,
+      note: `Walk-forward train window ${range.index} of ${context.frameName}`,
+      interval: frameSchema.interval,
+      startDate: new Date(range.trainStart),
+      endDate: new Date(range.trainEnd),
+      benchmark: frameSchema.benchmark,
+    });
+    await REGISTER_FRAME_FN(self, {
+      frameName: range.testFrameName,
+      note: `Walk-forward test window ${range.index} of ${context.frameName}`,
+      interval: frameSchema.interval,
+      startDate: new Date(range.testStart),
+      endDate: new Date(range.testEnd),
+      benchmark: frameSchema.benchmark,
+    });
+
+    let bestStrategy: StrategyName | null = null;
+    let isMetric: number | null = null;
+    let isStats: BacktestStatisticsModel | null = null;
+
+    for (const strategyName of strategies) {
+      if (stoppedStrategies.size) {
+        return null;
+      }
+      const stats = await RUN_BACKTEST_FN(self, symbol, strategyName, context.exchangeName, range.trainFrameName);
+      if (!stats) {
+        continue;
+      }
+      const metricValue = GET_METRIC_VALUE_FN(stats, metric);
+      if (metricValue !== null && (isMetric === null || metricValue > isMetric)) {
+        bestStrategy = strategyName;
+        isMetric = metricValue;
+        isStats = stats;
+      }
+    }
+
+    let oosStats: BacktestStatisticsModel | null = null;
+
+    if (bestStrategy !== null) {
+      if (stoppedStrategies.size) {
+        return null;
+      }
+      oosStats = await RUN_BACKTEST_FN(self, symbol, bestStrategy, context.exchangeName, range.testFrameName);
+    }
+
+    const oosMetric = oosStats ? GET_METRIC_VALUE_FN(oosStats, metric) : null;
+
+    self.loggerService.info("walkerLogicPrivateService walk-forward window complete", {
+      symbol,
+      walkerName: context.walkerName,
+      index: range.index,
+      bestStrategy,
+      isMetric,
+      oosMetric,
+    });
+
+    windows.push({
+      ...range,
+      bestStrategy,
+      isMetric,
+      oosMetric,
+      isStats,
+      oosStats,
+    });
+  }
+
+  return CREATE_WALK_FORWARD_STATS_FN(walkForward, metric, windows);
+};
+
 /**
  * Private service for walker orchestration (strategy comparison).
  *
  * Flow:
  * 1. Yields progress updates as each strategy completes
  * 2. Tracks best metric in real-time
- * 3. Returns final results with all strategies ranked
+ * 3. Runs the walk-forward analysis when the walker schema has walkForward
+ * 4. Returns final results with all strategies ranked
  *
  * Uses BacktestLogicPublicService internally for each strategy.
  */
@@ -182,6 +490,15 @@ export class WalkerLogicPrivateService {
   readonly walkerSchemaService = inject<WalkerSchemaService>(
     TYPES.walkerSchemaService
   );
+  readonly frameSchemaService = inject<FrameSchemaService>(
+    TYPES.frameSchemaService
+  );
+  readonly frameValidationService = inject<FrameValidationService>(
+    TYPES.frameValidationService
+  );
+  readonly frameConnectionService = inject<FrameConnectionService>(
+    TYPES.frameConnectionService
+  );
 
   /**
    * Runs walker comparison for a symbol.
@@ -234,6 +551,10 @@ export class WalkerLogicPrivateService {
     let strategiesTested = 0;
     let bestMetric: number | null = null;
     let bestStrategy: StrategyName | null = null;
+    let walkForward: WalkForwardStatisticsModel | null = null;
+
+    // Closed signals of every tested strategy for the significance tests
+    const candidates: ISignificanceCandidate[] = [];
 
     // Track stopped strategies in Set for efficient lookup
     const stoppedStrategies = new Set<StrategyName>();
@@ -282,6 +603,13 @@ export class WalkerLogicPrivateService {
           symbol,
         });
 
+        // Strategies are compared one after another: each starts from a fresh account
+        this.backtestLogicPublicService.clearAccount({
+          strategyName,
+          exchangeName: context.exchangeName,
+          frameName: context.frameName,
+        });
+
         const iterator = this.backtestLogicPublicService.run(symbol, {
           strategyName,
           exchangeName: context.exchangeName,
@@ -334,15 +662,8 @@ export class WalkerLogicPrivateService {
         const stats = await this.backtestMarkdownService.getData(symbol, strategyName, context.exchangeName, context.frameName, true);
 
         // Extract metric value
-        const value = stats[metric];
-        const metricValue =
-          value !== null &&
-          value !== undefined &&
-          typeof value === "number" &&
-          !isNaN(value) &&
-          isFinite(value)
-            ? value
-            : null;
+        const metricValue = GET_METRIC_VALUE_FN(stats, metric);
+        candidates.push({ strategyName, signalList: stats.signalList });
 
         // Update best strategy if needed
         const isBetter =
@@ -395,6 +716,18 @@ export class WalkerLogicPrivateService {
         await walkerEmitter.next(walkerContract);
         yield walkerContract;
       }
+
+      if (walkerSchema.walkForward && !stoppedStrategies.size) {
+        walkForward = await RUN_WALK_FORWARD_FN(
+          this,
+          symbol,
+          strategies,
+          metric,
+          context,
+          walkerSchema.walkForward,
+          stoppedStrategies
+        );
+      }
     } finally {
       // Unsubscribe from stop signals by calling destructor
       unsubscribe();
@@ -413,6 +746,11 @@ export class WalkerLogicPrivateService {
         bestStrategy !== null
           ? await this.backtestMarkdownService.getData(symbol, bestStrategy, context.exchangeName, context.frameName, true)
           : null,
+      walkForward,
+      significance: getSignificanceStatistics(candidates, bestStrategy, {
+        alpha: GLOBAL_CONFIG.CC_WALKER_SIGNIFICANCE_LEVEL,
+        bootstrapSamples: GLOBAL_CONFIG.CC_WALKER_BOOTSTRAP_SAMPLES,
+      }),
     };
 
     // Call onComplete callback if provided with final best results
@@ -13,6 +13,10 @@ import TimeMetaService from "../../meta/TimeMetaService";
 import FrameSchemaService from "../../schema/FrameSchemaService";
 import alignToInterval from "../../../../utils/alignToInterval";
 import { ExchangeConnectionService } from "../../connection/ExchangeConnectionService";
+import PortfolioMetaService from "../../meta/PortfolioMetaService";
+import StrategySchemaService from "../../schema/StrategySchemaService";
+import AllocatorConnectionService from "../../connection/AllocatorConnectionService";
+import RebalanceConnectionService from "../../connection/RebalanceConnectionService";
 
 /**
  * Type definition for public BacktestLogic service.
@@ -26,7 +30,10 @@ type IBacktestLogicPrivateService = Omit<BacktestLogicPrivateService, keyof {
   actionCoreService: never;
   methodContextService: never;
   priceMetaService: never;
+  portfolioMetaService: never;
+  conversionMetaService: never;
   timeMetaService: never;
+  _reportedGaps: never;
 }>;
 
 /**
@@ -206,6 +213,61 @@ export class BacktestLogicPublicService implements TBacktestLogicPrivateService
   readonly timeMetaService = inject<TimeMetaService>(TYPES.timeMetaService);
   readonly frameSchemaService = inject<FrameSchemaService>(TYPES.frameSchemaService);
   readonly exchangeConnectionService = inject<ExchangeConnectionService>(TYPES.exchangeConnectionService);
+  readonly portfolioMetaService = inject<PortfolioMetaService>(TYPES.portfolioMetaService);
+  readonly strategySchemaService = inject<StrategySchemaService>(TYPES.strategySchemaService);
+  readonly allocatorConnectionService = inject<AllocatorConnectionService>(TYPES.allocatorConnectionService);
+  readonly rebalanceConnectionService = inject<RebalanceConnectionService>(TYPES.rebalanceConnectionService);
+
+  /**
+   * Resets the account state a backtest trades against: the portfolio ledger of the
+   * exchange and frame (equity, drawdown, free cash, per-strategy returns), the
+   * allocator of the strategy and its rebalancer. The next run starts again from
+   * CC_PORTFOLIO_STARTING_CAPITAL with fresh allocation weights.
+   *
+   * While another run of the exchange and frame is in progress the account is left
+   * as-is: the new run joins the shared account instead of wiping its cash and equity.
+   *
+   * @param context - Execution context with strategy, exchange, and frame names
+   */
+  public clearAccount = (context: {
+    strategyName: StrategyName;
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  }) => {
+    this.loggerService.log("backtestLogicPublicService clearAccount", {
+      context,
+    });
+    const account = {
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    };
+    if (this.portfolioMetaService.hasActiveRun(account)) {
+      this.loggerService.warn("backtestLogicPublicService clearAccount skipped: account in use by a running backtest", {
+        context,
+      });
+      return;
+    }
+    this.portfolioMetaService.clear({
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    const { allocatorName } = this.strategySchemaService.get(context.strategyName);
+    allocatorName &&
+      this.allocatorConnectionService.clear({
+        allocatorName,
+        exchangeName: context.exchangeName,
+        frameName: context.frameName,
+        backtest: true,
+      });
+    this.rebalanceConnectionService.clear({
+      strategyName: context.strategyName,
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+  };
 
   /**
    * Runs backtest for a symbol with context propagation.
@@ -230,12 +292,70 @@ export class BacktestLogicPublicService implements TBacktestLogicPrivateService
       context,
     });
     await CALL_BEFORE_START_FN(this, symbol, context);
+    this.portfolioMetaService.beginRun({
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
     try {
       yield* RUN_ITERATOR_FN(this, symbol, context);
     } finally {
+      this.portfolioMetaService.endRun({
+        exchangeName: context.exchangeName,
+        frameName: context.frameName,
+        backtest: true,
+      });
       await CALL_AFTER_END_FN(this, symbol, context);
     }
   }
+
+  /**
+   * Runs backtest for several symbols on one shared timeline with context propagation.
+   *
+   * @param symbols - Trading pair symbols (e.g., ["BTCUSDT", "ETHUSDT"])
+   * @param context - Execution context with strategy, exchange, and frame names
+   * @returns Async generator yielding results of every symbol in timestamp order
+   */
+  public async *runTimeline(
+    symbols: string[],
+    context: {
+      strategyName: StrategyName;
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+    }
+  ) {
+    this.loggerService.log("backtestLogicPublicService runTimeline", {
+      symbols,
+      context,
+    });
+    for (const symbol of symbols) {
+      await CALL_BEFORE_START_FN(this, symbol, context);
+    }
+    this.portfolioMetaService.beginRun({
+      exchangeName: context.exchangeName,
+      frameName: context.frameName,
+      backtest: true,
+    });
+    try {
+      yield* MethodContextService.runAsyncIterator(
+        this.backtestLogicPrivateService.runTimeline(symbols),
+        {
+          exchangeName: context.exchangeName,
+          strategyName: context.strategyName,
+          frameName: context.frameName,
+        }
+      );
+    } finally {
+      this.portfolioMetaService.endRun({
+        exchangeName: context.exchangeName,
+        frameName: context.frameName,
+        backtest: true,
+      });
+      for (const symbol of symbols) {
+        await CALL_AFTER_END_FN(this, symbol, context);
+      }
+    }
+  }
 }
 
 export default BacktestLogicPublicService;
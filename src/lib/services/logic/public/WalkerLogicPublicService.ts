@@ -16,6 +16,9 @@ type IWalkerLogicPrivateService = Omit<WalkerLogicPrivateService, keyof {
   walkerSchemaService: never;
   backtestMarkdownService: never;
   backtestLogicPublicService: never;
+  frameSchemaService: never;
+  frameValidationService: never;
+  frameConnectionService: never;
 }>;
 
 /**
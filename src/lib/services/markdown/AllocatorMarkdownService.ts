@@ -0,0 +1,181 @@
+import { MarkdownWriter } from "../../../classes/Writer";
+import { inject } from "../../../lib/core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../../lib/core/types";
+import { AllocatorName, IAllocation } from "../../../interfaces/Allocator.interface";
+import { ExchangeName } from "../../../interfaces/Exchange.interface";
+import { FrameName } from "../../../interfaces/Frame.interface";
+import { getContextTimestamp } from "../../../helpers/getContextTimestamp";
+import AllocatorConnectionService from "../connection/AllocatorConnectionService";
+import AllocatorSchemaService from "../schema/AllocatorSchemaService";
+
+/** Maximum number of history rows printed in the report (evenly sampled) */
+const MAX_REPORT_ROWS = 50;
+
+const ALLOCATOR_METHOD_NAME_GET_REPORT = "AllocatorMarkdownService.getReport";
+const ALLOCATOR_METHOD_NAME_DUMP = "AllocatorMarkdownService.dump";
+
+/**
+ * Creates a filename for markdown report.
+ * Filename format: "allocatorName_exchangeName_frameName_backtest-timestamp.md"
+ */
+const CREATE_FILE_NAME_FN = (
+  allocatorName: AllocatorName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  timestamp: number
+): string => {
+  const parts = [allocatorName, exchangeName];
+  if (frameName) { parts.push(frameName); parts.push("backtest"); }
+  else parts.push("live");
+  return `${parts.join("_")}-${timestamp}.md`;
+};
+
+const FORMAT_USD_FN = (value: number) => `${value.toFixed(2)} USD`;
+
+const FORMAT_USAGE_FN = ({ budget, used }: IAllocation) =>
+  budget > 0 ? `${((used / budget) * 100).toFixed(2)} %` : "N/A";
+
+const TO_TABLE_FN = (rows: string[][]) =>
+  rows.map((row) => `| ${row.join(" | ")} |`).join("\n");
+
+/**
+ * Service rendering allocator budgets and their usage over time as markdown.
+ *
+ * Like PortfolioMarkdownService it does not subscribe to emitters: the history
+ * is recorded by ClientAllocator on every rebalance and sized signal.
+ */
+export class AllocatorMarkdownService {
+  /** Logger service for debug output */
+  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  private readonly allocatorConnectionService = inject<AllocatorConnectionService>(TYPES.allocatorConnectionService);
+
+  private readonly allocatorSchemaService = inject<AllocatorSchemaService>(TYPES.allocatorSchemaService);
+
+  /**
+   * Generates markdown report with current budgets and the allocation history.
+   *
+   * @param allocatorName - Allocator name used in the report heading
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Markdown formatted report string
+   */
+  public getReport = async (
+    allocatorName: AllocatorName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ): Promise<string> => {
+    this.loggerService.log(ALLOCATOR_METHOD_NAME_GET_REPORT, {
+      allocatorName,
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    const payload = { allocatorName, exchangeName, frameName, backtest };
+    const history = this.allocatorConnectionService.getHistory(payload);
+
+    if (history.length === 0) {
+      return [
+        `# Capital Allocation: ${allocatorName}`,
+        "",
+        "*No data available*"
+      ].join("\n");
+    }
+
+    const { method, rebalanceInterval = "1d" } = this.allocatorSchemaService.get(allocatorName);
+    const allocations = this.allocatorConnectionService.getAllocations(payload);
+
+    const summary = TO_TABLE_FN([
+      ["Strategy", "Weight", "Budget", "Used", "Usage"],
+      ["---", "---", "---", "---", "---"],
+      ...allocations.map((allocation) => [
+        allocation.strategyName,
+        `${(allocation.weight * 100).toFixed(2)} %`,
+        FORMAT_USD_FN(allocation.budget),
+        FORMAT_USD_FN(allocation.used),
+        FORMAT_USAGE_FN(allocation),
+      ]),
+    ]);
+
+    const step = Math.max(1, Math.ceil(history.length / MAX_REPORT_ROWS));
+    const snapshots = history.filter(
+      (_, index) => index % step === 0 || index === history.length - 1
+    );
+    const strategies = allocations.map(({ strategyName }) => strategyName);
+    const timeline = TO_TABLE_FN([
+      ["Time", "Event", ...strategies],
+      ["---", "---", ...strategies.map(() => "---")],
+      ...snapshots.map((snapshot) => [
+        new Date(snapshot.timestamp).toISOString(),
+        snapshot.reason === "rebalance" ? "rebalance" : `signal ${snapshot.strategyName}`,
+        ...strategies.map((strategyName) => {
+          const allocation = snapshot.allocations.find((item) => item.strategyName === strategyName);
+          return allocation
+            ? `${FORMAT_USD_FN(allocation.used)} / ${FORMAT_USD_FN(allocation.budget)}`
+            : "N/A";
+        }),
+      ]),
+    ]);
+
+    return [
+      `# Capital Allocation: ${allocatorName}`,
+      "",
+      `**Method:** ${method}`,
+      `**Rebalance Interval:** ${rebalanceInterval}`,
+      `**Rebalances:** ${history.filter(({ reason }) => reason === "rebalance").length}`,
+      `**Sized Signals:** ${history.filter(({ reason }) => reason === "signal").length}`,
+      "",
+      "## Current Budgets",
+      "",
+      summary,
+      "",
+      "## Budget Usage Over Time",
+      "",
+      timeline,
+      "",
+      `*Cells show used margin / budget. Budget = account equity at the last rebalance × strategy weight.*`,
+    ].join("\n");
+  };
+
+  /**
+   * Generates the allocation report and writes it via `MarkdownWriter.writeData`.
+   *
+   * @param allocatorName - Allocator name used in the report heading and filename
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @param path - Directory to write the file into; defaults to `"./dump/allocator"`
+   */
+  public dump = async (
+    allocatorName: AllocatorName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+    path = "./dump/allocator",
+  ): Promise<void> => {
+    this.loggerService.log(ALLOCATOR_METHOD_NAME_DUMP, {
+      allocatorName,
+      exchangeName,
+      frameName,
+      backtest,
+      path,
+    });
+    const markdown = await this.getReport(allocatorName, exchangeName, frameName, backtest);
+    const timestamp = getContextTimestamp();
+    const filename = CREATE_FILE_NAME_FN(allocatorName, exchangeName, frameName, timestamp);
+    await MarkdownWriter.writeData("allocator", markdown, {
+      path,
+      file: filename,
+      symbol: "",
+      strategyName: "",
+      signalId: "",
+      exchangeName,
+      frameName,
+    });
+  };
+}
+
+export default AllocatorMarkdownService;
@@ -8,9 +8,12 @@ import { StorageBacktest, StorageLive } from "../../../classes/Storage";
 import { inject } from "../../../lib/core/di";
 import LoggerService, { TLoggerService } from "../base/LoggerService";
 import TYPES from "../../../lib/core/types";
-import { memoize, singleshot } from "functools-kit";
+import { errorData, getErrorMessage, memoize, singleshot } from "functools-kit";
 import { signalBacktestEmitter } from "../../../config/emitters";
 import { BacktestStatisticsModel } from "../../../model/BacktestStatistics.model";
+import { MonteCarloStatisticsModel } from "../../../model/MonteCarloStatistics.model";
+import { IMonteCarloOptions } from "../../../interfaces/MonteCarlo.interface";
+import { getMonteCarloStatistics } from "../../../helpers/getMonteCarloStatistics";
 import { ColumnModel } from "../../../model/Column.model";
 import { COLUMN_CONFIG } from "../../../config/columns";
 import { ExchangeName } from "../../../interfaces/Exchange.interface";
@@ -19,6 +22,11 @@ import { MarkdownWriter } from "../../../classes/Writer";
 import { getContextTimestamp } from "../../../helpers/getContextTimestamp";
 import { GLOBAL_CONFIG } from "../../../config/params";
 import { getPriceProfile } from "../../../helpers/getPriceProfile";
+import { getReportingPnlTotal } from "../../../helpers/getReportingPnl";
+import { BenchmarkSource, getBenchmarkProfile } from "../../../helpers/getBenchmarkProfile";
+import MethodContextService from "../context/MethodContextService";
+import ExchangeCoreService from "../core/ExchangeCoreService";
+import FrameSchemaService from "../schema/FrameSchemaService";
 
 /**
  * Type alias for column configuration used in backtest markdown reports.
@@ -118,6 +126,8 @@ function isUnsafe(value: number | null): boolean {
   return false;
 }
 
+const MS_PER_MINUTE = 60_000;
+
 /** Minimum closed signals required to annualize Sharpe / yearly returns / Calmar. */
 const MIN_SIGNALS_FOR_ANNUALIZATION = 10;
 /** Minimum signals required for ANY ratio metric (Sharpe / Sortino / stdDev). Below this,
@@ -208,6 +218,46 @@ const LOAD_PERSISTED_CLOSED_FN = async (
   return result;
 };
 
+/**
+ * Fetches the benchmark price (open of the 1m candle starting at `since`)
+ * through the strategy's exchange. Errors are logged and yield null, so a
+ * missing benchmark candle never breaks the report.
+ */
+const GET_BENCHMARK_PRICE_FN = async (
+  self: BacktestMarkdownService,
+  symbol: string,
+  since: number,
+  context: {
+    strategyName: StrategyName;
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+  }
+): Promise<number | null> => {
+  try {
+    const [candle] = await MethodContextService.runInContext(
+      async () =>
+        await self.exchangeCoreService.getRawCandles(
+          symbol,
+          "1m",
+          new Date(since + MS_PER_MINUTE),
+          true,
+          1,
+          since
+        ),
+      context
+    );
+    return candle ? candle.open : null;
+  } catch (error) {
+    self.loggerService.warn("backtestMarkdownService benchmark price unavailable", {
+      symbol,
+      since,
+      error: errorData(error),
+      message: getErrorMessage(error),
+    });
+    return null;
+  }
+};
+
 /**
  * Storage class for accumulating closed signals per strategy.
  * Maintains a list of all closed signals and provides methods to generate reports.
@@ -233,7 +283,8 @@ class ReportStorage {
     readonly symbol: string,
     readonly strategyName: StrategyName,
     readonly exchangeName: ExchangeName,
-    readonly frameName: FrameName
+    readonly frameName: FrameName,
+    readonly getBenchmarkSource: () => BenchmarkSource | null
   ) {}
 
   /**
@@ -313,6 +364,7 @@ class ReportStorage {
         winRate: null,
         avgPnl: null,
         totalPnl: null,
+        totalPnlCost: null,
         stdDev: null,
         sharpeRatio: null,
         annualizedSharpeRatio: null,
@@ -339,6 +391,15 @@ class ReportStorage {
         trend: null,
         trendStrength: null,
         trendConfidence: null,
+        benchmarkSymbol: null,
+        benchmarkReturn: null,
+        excessReturn: null,
+        alpha: null,
+        beta: null,
+        informationRatio: null,
+        correlation: null,
+        upCapture: null,
+        downCapture: null,
       };
     }
 
@@ -369,6 +430,7 @@ class ReportStorage {
         winRate: null,
         avgPnl: null,
         totalPnl: null,
+        totalPnlCost: null,
         stdDev: null,
         sharpeRatio: null,
         annualizedSharpeRatio: null,
@@ -395,6 +457,15 @@ class ReportStorage {
         trend: null,
         trendStrength: null,
         trendConfidence: null,
+        benchmarkSymbol: null,
+        benchmarkReturn: null,
+        excessReturn: null,
+        alpha: null,
+        beta: null,
+        informationRatio: null,
+        correlation: null,
+        upCapture: null,
+        downCapture: null,
       };
     }
 
@@ -407,6 +478,7 @@ class ReportStorage {
       ? validSignals.reduce((sum, s) => sum + s.pnl.pnlPercentage, 0) / totalSignals
       : 0;
     const totalPnl = validSignals.reduce((sum, s) => sum + s.pnl.pnlPercentage, 0);
+    const totalPnlCost = getReportingPnlTotal(validSignals.map((s) => s.pnl));
 
     // Win rate excludes break-even trades from both numerator and denominator.
     const decisiveTrades = winCount + lossCount;
@@ -703,6 +775,19 @@ class ReportStorage {
       })),
     );
 
+    // Benchmark comparison — each trade against the benchmark's return over
+    // the same holding window, the run against buy-and-hold over the frame.
+    // All null when the frame has no benchmark (see IFrameSchema.benchmark).
+    const benchmarkProfile = await getBenchmarkProfile(
+      validSignals.map((s) => ({
+        openAt: s.signal.pendingAt,
+        closeAt: s.closeTimestamp,
+        pnl: s.pnl.pnlPercentage,
+      })),
+      (equityFinal - 1) * 100,
+      this.getBenchmarkSource(),
+    );
+
     return {
       signalList: this._signalList,
       totalSignals,
@@ -711,6 +796,7 @@ class ReportStorage {
       winRate: isUnsafe(winRate) ? null : winRate,
       avgPnl: isUnsafe(avgPnl) ? null : avgPnl,
       totalPnl: isUnsafe(totalPnl) ? null : totalPnl,
+      totalPnlCost: isUnsafe(totalPnlCost) ? null : totalPnlCost,
       stdDev: isUnsafe(stdDev) ? null : stdDev,
       sharpeRatio: isUnsafe(sharpeRatio) ? null : sharpeRatio,
       annualizedSharpeRatio: isUnsafe(annualizedSharpeRatio) ? null : annualizedSharpeRatio,
@@ -737,19 +823,88 @@ class ReportStorage {
       trend: priceProfile.trend,
       trendStrength: priceProfile.trendStrength,
       trendConfidence: priceProfile.trendConfidence,
+      benchmarkSymbol: benchmarkProfile.benchmarkSymbol,
+      benchmarkReturn: isUnsafe(benchmarkProfile.benchmarkReturn) ? null : benchmarkProfile.benchmarkReturn,
+      excessReturn: isUnsafe(benchmarkProfile.excessReturn) ? null : benchmarkProfile.excessReturn,
+      alpha: isUnsafe(benchmarkProfile.alpha) ? null : benchmarkProfile.alpha,
+      beta: isUnsafe(benchmarkProfile.beta) ? null : benchmarkProfile.beta,
+      informationRatio: isUnsafe(benchmarkProfile.informationRatio) ? null : benchmarkProfile.informationRatio,
+      correlation: isUnsafe(benchmarkProfile.correlation) ? null : benchmarkProfile.correlation,
+      upCapture: isUnsafe(benchmarkProfile.upCapture) ? null : benchmarkProfile.upCapture,
+      downCapture: isUnsafe(benchmarkProfile.downCapture) ? null : benchmarkProfile.downCapture,
     };
   }
 
+  /**
+   * Resamples the closed signals with Monte Carlo (Controller).
+   *
+   * @param options - Resampling method, number of paths and seed
+   * @returns Distributions with percentile bands and risk of ruin
+   */
+  public async getMonteCarlo(options?: IMonteCarloOptions): Promise<MonteCarloStatisticsModel> {
+    await this.waitForInit();
+    return getMonteCarloStatistics(this._signalList, options);
+  }
+
+  /**
+   * Generates the Monte Carlo section of the report (View).
+   *
+   * @param monteCarlo - Monte Carlo statistics
+   * @returns Markdown lines
+   */
+  private getMonteCarloSection(monteCarlo: MonteCarloStatisticsModel): string[] {
+    const format = (value: number | null, digits: number) =>
+      value === null ? "N/A" : value.toFixed(digits);
+    const rows = [
+      ["Total PNL %", monteCarlo.totalPnl, 2],
+      ["Max Drawdown %", monteCarlo.maxDrawdown, 2],
+      ["Sharpe Ratio", monteCarlo.sharpeRatio, 3],
+      ["Longest Losing Streak", monteCarlo.maxLosingStreak, 0],
+    ] as const;
+    const header = ["Metric", "Actual", "Mean", "P5", "P25", "Median", "P75", "P95"];
+    const separator = header.map(() => "---");
+    const table = [
+      header,
+      separator,
+      ...rows.map(([label, distribution, digits]) => [
+        label,
+        format(distribution.actual, digits),
+        format(distribution.mean, digits),
+        format(distribution.p5, digits),
+        format(distribution.p25, digits),
+        format(distribution.p50, digits),
+        format(distribution.p75, digits),
+        format(distribution.p95, digits),
+      ]),
+    ];
+    return [
+      "",
+      "## Monte Carlo",
+      "",
+      `**Method:** ${monteCarlo.method}${monteCarlo.blockSize === null ? "" : ` (block size ${monteCarlo.blockSize})`}`,
+      `**Simulations:** ${monteCarlo.simulations} (seed ${monteCarlo.seed})`,
+      `**Risk of Ruin:** ${monteCarlo.riskOfRuin === null ? "N/A" : `${monteCarlo.riskOfRuin.toFixed(2)}% of paths reached a ${monteCarlo.ruinDrawdown}% drawdown (lower is better)`}`,
+      "",
+      table.map((row) => `| ${row.join(" | ")} |`).join("\n"),
+      "",
+      `*Monte Carlo: the ${monteCarlo.totalSignals} closed signals are resampled into ${monteCarlo.simulations} equity paths of the same length — shuffle permutes them, bootstrap draws them with replacement, block draws runs of consecutive signals with replacement (wrapping around the end) to keep short-range dependence. Actual is the value of the real chronological order; P5..P95 are percentile bands over the paths. Under shuffle Total PNL and Sharpe Ratio do not change (same trades), only the path metrics do.*`,
+      `*Max Drawdown: compounded equity-curve drawdown with every trade's intra-trade trough, as in the statistics above. UNITS: percent. 100% once equity reaches zero. Longest Losing Streak: most consecutive trades with PNL < 0. Sharpe Ratio skips paths below ${MIN_SIGNALS_FOR_RATIOS} signals.*`,
+      `*Risk of Ruin: share of paths whose max drawdown reached the ruin threshold. UNITS: percent of paths. An estimate from the observed trades only — it cannot include losses the backtest never produced.*`,
+    ];
+  }
+
   /**
    * Generates markdown report with all closed signals for a strategy (View).
    *
    * @param strategyName - Strategy name
    * @param columns - Column configuration for formatting the table
+   * @param monteCarlo - Optional Monte Carlo options, adds the Monte Carlo section when set
    * @returns Markdown formatted report with all signals
    */
   public async getReport(
     strategyName: StrategyName,
-    columns: Columns[] = COLUMN_CONFIG.backtest_columns
+    columns: Columns[] = COLUMN_CONFIG.backtest_columns,
+    monteCarlo?: IMonteCarloOptions
   ): Promise<string> {
     await this.waitForInit();
     const stats = await this.getData();
@@ -789,6 +944,7 @@ class ReportStorage {
       `**Win rate:** ${stats.winRate === null ? "N/A" : `${stats.winRate.toFixed(2)}% (${stats.winCount}W / ${stats.lossCount}L) (higher is better)`}`,
       `**Average PNL:** ${stats.avgPnl === null ? "N/A" : `${stats.avgPnl > 0 ? "+" : ""}${stats.avgPnl.toFixed(2)}% (higher is better)`}`,
       `**Total PNL:** ${stats.totalPnl === null ? "N/A" : `${stats.totalPnl > 0 ? "+" : ""}${stats.totalPnl.toFixed(2)}% (higher is better)`}`,
+      `**Total PNL Cost:** ${stats.totalPnlCost === null ? "N/A" : `${stats.totalPnlCost > 0 ? "+" : ""}${stats.totalPnlCost.toFixed(2)} ${GLOBAL_CONFIG.CC_REPORTING_CURRENCY || "(quote currency)"} (higher is better)`}`,
       `**Standard Deviation Per Trade:** ${stats.stdDev === null ? "N/A" : `${stats.stdDev.toFixed(3)}% (lower is better)`}`,
       `**Sharpe Ratio:** ${stats.sharpeRatio === null ? "N/A" : `${stats.sharpeRatio.toFixed(3)} (higher is better)`}`,
       `**Annualized Sharpe Ratio:** ${stats.annualizedSharpeRatio === null ? "N/A" : `${stats.annualizedSharpeRatio.toFixed(3)} (higher is better)`}`,
@@ -815,10 +971,20 @@ class ReportStorage {
       `**Seller Strength:** ${stats.sellerStrength === null ? "N/A" : `${(stats.sellerStrength * 100).toFixed(1)}%`}`,
       `**Pressure Imbalance:** ${stats.pressureImbalance === null ? "N/A" : `${stats.pressureImbalance > 0 ? "+" : ""}${stats.pressureImbalance.toFixed(3)}`}`,
       `**Median Step Size:** ${stats.medianStepSize === null ? "N/A" : `${stats.medianStepSize.toFixed(3)}%`}`,
+      `**Benchmark:** ${stats.benchmarkSymbol === null ? "N/A" : `${stats.benchmarkSymbol} buy-and-hold`}`,
+      `**Benchmark Return:** ${stats.benchmarkReturn === null ? "N/A" : `${stats.benchmarkReturn > 0 ? "+" : ""}${stats.benchmarkReturn.toFixed(2)}%`}`,
+      `**Excess Return:** ${stats.excessReturn === null ? "N/A" : `${stats.excessReturn > 0 ? "+" : ""}${stats.excessReturn.toFixed(2)}% (higher is better)`}`,
+      `**Alpha:** ${stats.alpha === null ? "N/A" : `${stats.alpha > 0 ? "+" : ""}${stats.alpha.toFixed(3)}% (higher is better)`}`,
+      `**Beta:** ${stats.beta === null ? "N/A" : stats.beta.toFixed(3)}`,
+      `**Information Ratio:** ${stats.informationRatio === null ? "N/A" : `${stats.informationRatio.toFixed(3)} (higher is better)`}`,
+      `**Correlation:** ${stats.correlation === null ? "N/A" : stats.correlation.toFixed(3)}`,
+      `**Up Capture:** ${stats.upCapture === null ? "N/A" : `${stats.upCapture.toFixed(1)}% (higher is better)`}`,
+      `**Down Capture:** ${stats.downCapture === null ? "N/A" : `${stats.downCapture.toFixed(1)}% (lower is better)`}`,
       "",
       `*Win Rate: percent of closed signals that ended with per-trade PNL > 0, computed as winning-trade count / (winning-trade count + losing-trade count) × 100 — break-even trades (per-trade PNL == 0) are excluded from both numerator and denominator. UNITS: percent in [0, 100]. Statistical reliability: noisy below 30 signals (a single streak can shift it 10–20 points); stable above 200 signals.*`,
       `*Average PNL: arithmetic mean of per-trade PNL across every closed signal, computed as Σ per-trade PNL / closed signal count. UNITS: percent per trade. Sign mirrors strategy edge — positive = profitable on average per trade. Sensitive to one whale trade; cross-check with Median PNL to detect skew.*`,
       `*Total PNL: arithmetic sum of per-trade PNL across every closed signal. UNITS: percent. This is the additive total, NOT the compounded equity return — for the geometrically-compounded variant see Recovery Factor's numerator and Expected Yearly Returns. Useful as a quick scoreboard but ignores volatility drag.*`,
+      `*Total PNL Cost: sum of per-trade PNL in money. Each trade counts in the reporting currency (CC_REPORTING_CURRENCY) at the conversion rate of its close, recorded on the signal as pnl.conversion; trades without a conversion count in the pair's quote currency. N/A when only some trades were converted, since the sum would mix currencies.*`,
       `*Standard Deviation Per Trade: sample standard deviation (Bessel-corrected, N−1 denominator) of per-trade PNL. UNITS: percent. Measures volatility of returns. Denominator for per-trade Sharpe Ratio. Below STDDEV_EPSILON = 1e-9 it is treated as zero (identical-returns guard). Null when the closed signal count < ${MIN_SIGNALS_FOR_RATIOS} (variance too noisy on small samples).*`,
       `*Sharpe Ratio: per-trade Sharpe = Average PNL / Standard Deviation Per Trade (risk-free rate = 0). UNITS: dimensionless ratio. Higher = better risk-adjusted return per trade. Rule of thumb: below 1.0 poor, 1.0–2.0 acceptable, above 2.0 strong. Null when the closed signal count < ${MIN_SIGNALS_FOR_RATIOS} OR Standard Deviation ≤ 1e-9 (identical-returns / float-artifact guard).*`,
       `*Annualized Sharpe Ratio: per-trade Sharpe × √(trades per year), where trades per year = closed signal count × 365 / calendar span in days. UNITS: dimensionless. Null when the closed signal count < ${MIN_SIGNALS_FOR_ANNUALIZATION}, OR calendar span < ${MIN_CALENDAR_SPAN_DAYS} days, OR raw frequency > ${MAX_TRADES_PER_YEAR} (clustered sample, annualisation unreliable). Assumes returns are iid — autocorrelated strategies are overstated.*`,
@@ -845,9 +1011,17 @@ class ReportStorage {
       `*Seller Strength: magnitude-based, computed FROM CLOSING PRICES OF CLOSED SIGNALS. Σ |close[i] − close[i−1]| / close[i−1] over down-moves (close[i] < close[i−1]), divided by the same sum over ALL decisive moves. By construction Seller Strength = 1 − Buyer Strength (the two sum to 1). UNITS: dimensionless fraction in [0, 1]. Null when the closed signal count < ${MIN_SIGNALS_FOR_RATIOS}.*`,
       `*Pressure Imbalance: DIFFERENCE, not ratio: Buyer Strength − Seller Strength, computed FROM CLOSING PRICES OF CLOSED SIGNALS. Equivalent to (2 × Buyer Strength − 1). UNITS: dimensionless in [−1, +1]. Sign = direction of magnitude bias (positive = bullish bias on magnitude); absolute value = how lopsided. Single signed scalar that compresses the strength pair into one number. Null when the closed signal count < ${MIN_SIGNALS_FOR_RATIOS}.*`,
       `*Median Step Size: median over i ∈ [1..N−1] of |close[i] − close[i−1]| / close[i−1], computed FROM CLOSING PRICES OF CLOSED SIGNALS — "step" = consecutive closes of CLOSED TRADES (NOT ticks, NOT bars of any timeframe — the report has no candle access). UNITS: percent, normalised by price → directly comparable across symbols at any price level. Median (not mean) → robust to one whale trade. NOT classical candle-based volatility (ATR / σ of returns); it measures the step distribution AT THE RATE TRADES CLOSE. Null when the closed signal count < ${MIN_SIGNALS_FOR_RATIOS}.*`,
+      `*Benchmark: the frame's benchmark (IFrameSchema.benchmark) — buy-and-hold of the traded symbol or of another symbol of the same exchange. Benchmark prices are the open of the 1m candle containing each timestamp, fetched through the strategy's exchange. Every benchmark metric is N/A when the frame has no benchmark or the candles are unavailable.*`,
+      `*Benchmark Return: (price at frame endDate / price at frame startDate − 1) × 100 for the benchmark symbol. UNITS: percent over the whole frame window.*`,
+      `*Excess Return: compounded strategy return (final equity − 1) × 100 — the same numerator as Recovery Factor, NOT the arithmetic Total PNL — minus Benchmark Return. UNITS: percentage points. Positive = the strategy beat simply holding the benchmark over the same window. Carries the same 100% allocation assumption as the equity-curve metrics.*`,
+      `*Alpha / Beta: ordinary-least-squares regression of per-trade PNL on the benchmark's return over the SAME holding window (pending-time to close-time of each trade). Beta = cov / var(benchmark); Alpha = mean per-trade PNL − Beta × mean benchmark return (risk-free rate = 0). UNITS: Beta dimensionless, Alpha percent per trade. Null when fewer than ${MIN_SIGNALS_FOR_RATIOS} trades have benchmark prices or the benchmark variance ≤ 1e-9.*`,
+      `*Information Ratio: mean of (per-trade PNL − benchmark return over the same window) divided by its sample standard deviation (tracking error). UNITS: dimensionless, per trade. Null under the same ${MIN_SIGNALS_FOR_RATIOS}-trade gate or when the tracking error ≤ 1e-9.*`,
+      `*Correlation: Pearson correlation of per-trade PNL with the benchmark return over the same window. UNITS: dimensionless in [−1, +1]. Near 0 = the strategy's outcome does not depend on the benchmark's direction. Null under the same ${MIN_SIGNALS_FOR_RATIOS}-trade gate or when either variance ≤ 1e-9.*`,
+      `*Up / Down Capture: mean per-trade PNL divided by mean benchmark return, restricted to trades during which the benchmark rose (Up) or fell (Down), × 100. UNITS: percent. Up Capture above 100% = gained more than the benchmark on its rising windows; Down Capture below 0% = made money while the benchmark fell. Null under the ${MIN_SIGNALS_FOR_RATIOS}-trade gate or when there are no such trades.*`,
       `*General reliability note: per-trade ratios (Sharpe, Sortino, Certainty, Recovery, Expectancy) are gated to N/A below ${MIN_SIGNALS_FOR_RATIOS} closed signals because the underlying variance estimates are too noisy. Annualised metrics (Annualized Sharpe, Expected Yearly Returns, Calmar) additionally require a calendar span ≥ ${MIN_CALENDAR_SPAN_DAYS} days and a raw trade frequency ≤ ${MAX_TRADES_PER_YEAR} per year. 100+ signals are needed for statistical reliability of the ratios; annualised metrics assume the observed frequency and market regime persist year-round.*`,
       `*IMPORTANT: Total PNL and the equity-curve metrics (Expected Yearly Returns, Calmar, Recovery, and the equity max drawdown that feeds them) all assume **100% capital allocation per position** (no portfolio fraction). They ignore the position-sizing subsystem (PositionSize / Kelly / ATR): per-trade PNL is a return on the position's own invested capital, never scaled by the account balance. With DCA averaging, the cost basis is the sum of all entries and the entry price is dollar-cost-weighted, so per-trade % is measured against the averaged position. If your strategy risks X% of capital per trade, the realised portfolio return / drawdown is roughly X/100 of the reported figures — these are theoretical upper bounds under full allocation.*`,
       `*Negative values for Sharpe / Annualized Sharpe / Sortino / Calmar / Recovery / Expectancy / Expected Yearly Returns indicate a losing strategy (Average PNL < 0 or Total PNL < 0). "Higher is better" still applies — closer to zero is less bad, positive is profitable.*`,
+      ...(monteCarlo ? this.getMonteCarloSection(await this.getMonteCarlo(monteCarlo)) : []),
     ].join("\n");
   }
 
@@ -857,13 +1031,15 @@ class ReportStorage {
    * @param strategyName - Strategy name
    * @param path - Directory path to save report (default: "./dump/backtest")
    * @param columns - Column configuration for formatting the table
+   * @param monteCarlo - Optional Monte Carlo options, adds the Monte Carlo section when set
    */
   public async dump(
     strategyName: StrategyName,
     path = "./dump/backtest",
-    columns: Columns[] = COLUMN_CONFIG.backtest_columns
+    columns: Columns[] = COLUMN_CONFIG.backtest_columns,
+    monteCarlo?: IMonteCarloOptions
   ): Promise<void> {
-    const markdown = await this.getReport(strategyName, columns);
+    const markdown = await this.getReport(strategyName, columns, monteCarlo);
     const timestamp = getContextTimestamp();
     const filename = CREATE_FILE_NAME_FN(this.symbol, strategyName, this.exchangeName, this.frameName, timestamp);
     await MarkdownWriter.writeData("backtest", markdown, {
@@ -907,17 +1083,74 @@ class ReportStorage {
  */
 export class BacktestMarkdownService {
   /** Logger service for debug output */
-  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+  readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  readonly exchangeCoreService = inject<ExchangeCoreService>(TYPES.exchangeCoreService);
+
+  private readonly frameSchemaService = inject<FrameSchemaService>(TYPES.frameSchemaService);
 
   /**
    * Memoized function to get or create ReportStorage for a symbol-strategy-exchange-frame-backtest combination.
-   * Each combination gets its own isolated storage instance.
+   * Each combination gets its own isolated storage instance and benchmark price cache.
    */
   private getStorage = memoize<(symbol: string, strategyName: StrategyName, exchangeName: ExchangeName, frameName: FrameName, backtest: boolean) => ReportStorage>(
     ([symbol, strategyName, exchangeName, frameName, backtest]) => CREATE_KEY_FN(symbol, strategyName, exchangeName, frameName, backtest),
-    (symbol, strategyName, exchangeName, frameName) => new ReportStorage(symbol, strategyName, exchangeName, frameName)
+    (symbol, strategyName, exchangeName, frameName) => {
+      const priceMap = new Map<string, Promise<number | null>>();
+      return new ReportStorage(
+        symbol,
+        strategyName,
+        exchangeName,
+        frameName,
+        () => this.getBenchmarkSource(symbol, strategyName, exchangeName, frameName, priceMap)
+      );
+    }
   );
 
+  /**
+   * Resolves the benchmark of the frame (IFrameSchema.benchmark).
+   * Read on every getData so schema overrides apply to existing storages.
+   * Prices are kept in the storage's priceMap between getData calls;
+   * unavailable prices are dropped so the next call fetches them again.
+   *
+   * @returns Benchmark price source, null when the frame has no benchmark
+   */
+  private getBenchmarkSource = (
+    symbol: string,
+    strategyName: StrategyName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    priceMap: Map<string, Promise<number | null>>
+  ): BenchmarkSource | null => {
+    if (!frameName) {
+      return null;
+    }
+    const { benchmark, startDate, endDate } = this.frameSchemaService.get(frameName);
+    if (!benchmark) {
+      return null;
+    }
+    const benchmarkSymbol = benchmark === "buy-and-hold" ? symbol : benchmark.symbol;
+    return {
+      benchmarkSymbol,
+      startAt: startDate.getTime(),
+      endAt: endDate.getTime(),
+      getPrice: (timestamp) => {
+        const since = Math.floor(timestamp / MS_PER_MINUTE) * MS_PER_MINUTE;
+        const key = `${benchmarkSymbol}:${since}`;
+        if (!priceMap.has(key)) {
+          const price = GET_BENCHMARK_PRICE_FN(this, benchmarkSymbol, since, {
+            strategyName,
+            exchangeName,
+            frameName,
+          });
+          price.then((value) => value === null && priceMap.delete(key));
+          priceMap.set(key, price);
+        }
+        return priceMap.get(key)!;
+      },
+    };
+  };
+
   /**
    * Processes tick events and accumulates closed signals.
    * Should be called from IStrategyCallbacks.onTick.
@@ -984,6 +1217,48 @@ export class BacktestMarkdownService {
     return storage.getData();
   };
 
+  /**
+   * Resamples the closed signals of a symbol-strategy pair with Monte Carlo.
+   * Delegates to ReportStorage.getMonteCarlo().
+   *
+   * @param symbol - Trading pair symbol
+   * @param strategyName - Strategy name to resample
+   * @param exchangeName - Exchange name
+   * @param frameName - Frame name
+   * @param backtest - True if backtest mode, false if live mode
+   * @param options - Resampling method, number of paths and seed
+   * @returns Distributions with percentile bands and risk of ruin
+   *
+   * @example
+   * ```typescript
+   * const service = new BacktestMarkdownService();
+   * const monteCarlo = await service.getMonteCarlo("BTCUSDT", "my-strategy", "binance", "1h", true, { method: "shuffle" });
+   * console.log(monteCarlo.maxDrawdown.p95, monteCarlo.riskOfRuin);
+   * ```
+   */
+  public getMonteCarlo = async (
+    symbol: string,
+    strategyName: StrategyName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+    options?: IMonteCarloOptions
+  ): Promise<MonteCarloStatisticsModel> => {
+    this.loggerService.log("backtestMarkdownService getMonteCarlo", {
+      symbol,
+      strategyName,
+      exchangeName,
+      frameName,
+      backtest,
+      options,
+    });
+    if (!this.subscribe.hasValue()) {
+      throw new Error("BacktestMarkdownService not initialized. Call subscribe() before getting data.");
+    }
+    const storage = this.getStorage(symbol, strategyName, exchangeName, frameName, backtest);
+    return storage.getMonteCarlo(options);
+  };
+
   /**
    * Generates markdown report with all closed signals for a symbol-strategy pair.
    * Delegates to ReportStorage.generateReport().
@@ -994,6 +1269,7 @@ export class BacktestMarkdownService {
    * @param frameName - Frame name
    * @param backtest - True if backtest mode, false if live mode
    * @param columns - Column configuration for formatting the table
+   * @param monteCarlo - Optional Monte Carlo options, adds the Monte Carlo section when set
    * @returns Markdown formatted report string with table of all closed signals
    *
    * @example
@@ -1009,7 +1285,8 @@ export class BacktestMarkdownService {
     exchangeName: ExchangeName,
     frameName: FrameName,
     backtest: boolean,
-    columns: Columns[] = COLUMN_CONFIG.backtest_columns
+    columns: Columns[] = COLUMN_CONFIG.backtest_columns,
+    monteCarlo?: IMonteCarloOptions
   ): Promise<string> => {
     this.loggerService.log("backtestMarkdownService getReport", {
       symbol,
@@ -1022,7 +1299,7 @@ export class BacktestMarkdownService {
       throw new Error("BacktestMarkdownService not initialized. Call subscribe() before generating reports.");
     }
     const storage = this.getStorage(symbol, strategyName, exchangeName, frameName, backtest);
-    return storage.getReport(strategyName, columns);
+    return storage.getReport(strategyName, columns, monteCarlo);
   };
 
   /**
@@ -1037,6 +1314,7 @@ export class BacktestMarkdownService {
    * @param backtest - True if backtest mode, false if live mode
    * @param path - Directory path to save report (default: "./dump/backtest")
    * @param columns - Column configuration for formatting the table
+   * @param monteCarlo - Optional Monte Carlo options, adds the Monte Carlo section when set
    *
    * @example
    * ```typescript
@@ -1056,7 +1334,8 @@ export class BacktestMarkdownService {
     frameName: FrameName,
     backtest: boolean,
     path = "./dump/backtest",
-    columns: Columns[] = COLUMN_CONFIG.backtest_columns
+    columns: Columns[] = COLUMN_CONFIG.backtest_columns,
+    monteCarlo?: IMonteCarloOptions
   ): Promise<void> => {
     this.loggerService.log("backtestMarkdownService dump", {
       symbol,
@@ -1070,7 +1349,7 @@ export class BacktestMarkdownService {
       throw new Error("BacktestMarkdownService not initialized. Call subscribe() before dumping reports.");
     }
     const storage = this.getStorage(symbol, strategyName, exchangeName, frameName, backtest);
-    await storage.dump(strategyName, path, columns);
+    await storage.dump(strategyName, path, columns, monteCarlo);
   };
 
   /**
@@ -20,6 +20,7 @@ import { FrameName } from "../../../interfaces/Frame.interface";
 import { getContextTimestamp } from "../../../helpers/getContextTimestamp";
 import { GLOBAL_CONFIG } from "../../../config/params";
 import { getPriceProfile } from "../../../helpers/getPriceProfile";
+import { getReportingPnlTotal } from "../../../helpers/getReportingPnl";
 
 /**
  * Type alias for column configuration used in heatmap markdown reports.
@@ -350,6 +351,14 @@ class HeatmapStorage {
       totalPnl = signals.reduce((acc, s) => acc + s.pnl.pnlPercentage, 0);
     }
 
+    // Money total in the reporting currency — pnl.conversion when the trade was
+    // converted, so ETHBTC and SOLUSDT profits are not added as the same unit.
+    // Null when only some trades were converted.
+    let totalPnlCost: number | null = null;
+    if (signals.length > 0) {
+      totalPnlCost = getReportingPnlTotal(signals.map((s) => s.pnl));
+    }
+
     // Calculate average PNL
     let avgPnl: number | null = null;
     if (signals.length > 0) {
@@ -710,6 +719,7 @@ class HeatmapStorage {
     // Apply safe math checks
     if (isUnsafe(winRate)) winRate = null;
     if (isUnsafe(totalPnl)) totalPnl = null;
+    if (isUnsafe(totalPnlCost)) totalPnlCost = null;
     if (isUnsafe(avgPnl)) avgPnl = null;
     if (isUnsafe(stdDev)) stdDev = null;
     if (isUnsafe(sharpeRatio)) sharpeRatio = null;
@@ -748,6 +758,7 @@ class HeatmapStorage {
     return {
       symbol,
       totalPnl,
+      totalPnlCost,
       sharpeRatio,
       maxDrawdown,
       totalTrades,
@@ -834,6 +845,7 @@ class HeatmapStorage {
     // would silently treat a missing value as zero and hide that some symbols had no data.
     const totalSymbols = symbols.length;
     let portfolioTotalPnl: number | null = null;
+    let portfolioTotalPnlCost: number | null = null;
     let portfolioTotalTrades = 0;
 
     if (symbols.length > 0) {
@@ -841,6 +853,10 @@ class HeatmapStorage {
       portfolioTotalPnl = validTotalPnls.length > 0
         ? validTotalPnls.reduce((acc, s) => acc + s.totalPnl!, 0)
         : null;
+      // Money total over every trade at once: symbols converted and not converted
+      // are different units even when each symbol alone is consistent.
+      const pnlList = [...this.symbolData.values()].flatMap((signals) => signals.map((s) => s.pnl));
+      portfolioTotalPnlCost = pnlList.length > 0 ? getReportingPnlTotal(pnlList) : null;
       portfolioTotalTrades = symbols.reduce((acc, s) => acc + s.totalTrades, 0);
     }
 
@@ -1118,6 +1134,7 @@ class HeatmapStorage {
 
     // Apply safe math
     if (isUnsafe(portfolioTotalPnl)) portfolioTotalPnl = null;
+    if (isUnsafe(portfolioTotalPnlCost)) portfolioTotalPnlCost = null;
     if (isUnsafe(portfolioSharpeRatio)) portfolioSharpeRatio = null;
     if (isUnsafe(portfolioAvgPeakPnl)) portfolioAvgPeakPnl = null;
     if (isUnsafe(portfolioAvgFallPnl)) portfolioAvgFallPnl = null;
@@ -1143,6 +1160,7 @@ class HeatmapStorage {
       symbols,
       totalSymbols,
       portfolioTotalPnl,
+      portfolioTotalPnlCost,
       portfolioSharpeRatio,
       portfolioTotalTrades,
       portfolioAvgPeakPnl,
@@ -1226,6 +1244,7 @@ class HeatmapStorage {
       "",
       `**Total Symbols:** ${data.totalSymbols}`,
       `**Portfolio PNL:** ${data.portfolioTotalPnl !== null ? `${data.portfolioTotalPnl.toFixed(2)} %` : "N/A"}`,
+      `**Portfolio PNL Cost:** ${data.portfolioTotalPnlCost !== null ? `${data.portfolioTotalPnlCost.toFixed(2)} ${GLOBAL_CONFIG.CC_REPORTING_CURRENCY || "(quote currency)"}` : "N/A"}`,
       `**Pooled Sharpe:** ${data.portfolioSharpeRatio !== null ? data.portfolioSharpeRatio.toFixed(3) : "N/A"}`,
       `**Annualized Sharpe:** ${data.portfolioAnnualizedSharpeRatio !== null ? data.portfolioAnnualizedSharpeRatio.toFixed(3) : "N/A"}`,
       `**Certainty Ratio:** ${data.portfolioCertaintyRatio !== null ? data.portfolioCertaintyRatio.toFixed(3) : "N/A"}`,
@@ -1252,6 +1271,7 @@ class HeatmapStorage {
       "",
       `*Total Symbols: count of distinct symbol buckets currently tracked in this storage. Each bucket holds at most CC_MAX_HEATMAP_MARKDOWN_ROWS closed signals (newest-first ring buffer); when capacity is reached the oldest signal is dropped. UNITS: integer count of symbols.*`,
       `*Portfolio PNL: arithmetic sum of per-trade PNL across every closed signal of every tracked symbol (Σ per-symbol Total PNL over symbols whose Total PNL is non-null). UNITS: percent. Additive total — NOT the compounded equity return. Useful as a quick scoreboard; ignores volatility drag and cross-symbol diversification.*`,
+      `*Portfolio PNL Cost: sum of per-trade PNL in money across every closed signal of every tracked symbol. Each trade counts in the reporting currency (CC_REPORTING_CURRENCY) at the conversion rate of its close, recorded on the signal as pnl.conversion; trades without a conversion (reporting currency disabled or no conversion path on the exchange) count in their own quote currency. N/A when only some trades were converted, since the sum would mix currencies.*`,
       `*Pooled Sharpe: pooled mean per-trade PNL divided by the pooled sample standard deviation (Bessel-corrected, N−1 denominator) of per-trade PNL, computed over the POOLED set of every closed signal of every symbol treated as one sample. UNITS: dimensionless ratio. NOT a Markowitz portfolio Sharpe — ignores cross-symbol correlations and capital allocation. Null when pooled trade count < ${MIN_SIGNALS_FOR_RATIOS} OR pooled standard deviation ≤ 1e-9. Rule of thumb: below 1.0 poor, 1.0–2.0 acceptable, above 2.0 strong.*`,
       `*Annualized Sharpe (portfolio): Pooled Sharpe × √(portfolio Trades Per Year). UNITS: dimensionless. Null when Pooled Sharpe is null OR portfolio Trades Per Year is null OR ≤ 0. Assumes returns are iid — autocorrelated strategies are overstated.*`,
       `*Certainty Ratio (portfolio): pooledAvgWin / |pooledAvgLoss| where pooledAvgWin = mean over pooled winning closed signals and pooledAvgLoss = mean over pooled losing closed signals. UNITS: dimensionless. Below 1.0 means the typical loss exceeds the typical win; above 1.5 is generally good. Null when pooled N < ${MIN_SIGNALS_FOR_RATIOS}, OR no losing trades in the pool, OR |pooledAvgLoss| < 1e-9.*`,
@@ -1276,6 +1296,7 @@ class HeatmapStorage {
       ``,
       `*--- Per-symbol table columns ---*`,
       `*Total PNL (column): arithmetic sum of per-trade PNL across that symbol's stored closed signals. UNITS: percent. Additive total — NOT a compounded equity return. Null only when that symbol has zero stored signals.*`,
+      `*Total PNL Cost (column): sum of that symbol's per-trade PNL in the reporting currency (see Portfolio PNL Cost). Null only when that symbol has zero stored signals.*`,
       `*Total Trades (column): integer count of that symbol's stored closed signals. UNITS: count.*`,
       `*Win Rate (column): per-symbol winning-trade count / (winning-trade count + losing-trade count) × 100; break-even trades (per-trade PNL == 0) are excluded from both numerator and denominator. UNITS: percent in [0, 100]. Statistically noisy below 30 per-symbol signals; stable above 200. NOT gated by MIN_SIGNALS — null only when there are no decisive trades for that symbol.*`,
       `*Avg PNL (column): arithmetic mean of per-trade PNL across that symbol's signals — Σ per-trade PNL / Total Trades. UNITS: percent per trade. Null only when Total Trades = 0.*`,
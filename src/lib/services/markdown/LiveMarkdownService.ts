@@ -428,6 +428,12 @@ class ReportStorage {
       pnl: data.pnl.pnlPercentage,
       pnlCost: data.pnl.pnlCost,
       pnlEntries: data.pnl.pnlEntries,
+      feeOpenCost: data.pnl.feeOpenCost,
+      feeCloseCost: data.pnl.feeCloseCost,
+      slippageCost: data.pnl.slippageCost,
+      fundingCost: data.pnl.fundingCost,
+      leverage: data.pnl.leverage,
+      pnlMarginPercentage: data.pnl.pnlMarginPercentage,
       closeReason: data.closeReason,
       duration: durationMin,
       pendingAt: data.signal.pendingAt,
@@ -0,0 +1,155 @@
+import { MarkdownWriter } from "../../../classes/Writer";
+import { inject } from "../../../lib/core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../../lib/core/types";
+import { StrategyName } from "../../../interfaces/Strategy.interface";
+import { ExchangeName } from "../../../interfaces/Exchange.interface";
+import { FrameName } from "../../../interfaces/Frame.interface";
+import { getContextTimestamp } from "../../../helpers/getContextTimestamp";
+import PortfolioMetaService from "../meta/PortfolioMetaService";
+
+/** Maximum number of equity curve rows printed in the report (evenly sampled) */
+const MAX_REPORT_ROWS = 50;
+
+const PORTFOLIO_METHOD_NAME_GET_REPORT = "PortfolioMarkdownService.getReport";
+const PORTFOLIO_METHOD_NAME_DUMP = "PortfolioMarkdownService.dump";
+
+/**
+ * Creates a filename for markdown report.
+ * Filename format: "strategyName_exchangeName_frameName_backtest-timestamp.md"
+ */
+const CREATE_FILE_NAME_FN = (
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  timestamp: number
+): string => {
+  const parts = [strategyName, exchangeName];
+  if (frameName) { parts.push(frameName); parts.push("backtest"); }
+  else parts.push("live");
+  return `${parts.join("_")}-${timestamp}.md`;
+};
+
+const FORMAT_USD_FN = (value: number) => `${value.toFixed(2)} USD`;
+
+/**
+ * Service rendering the portfolio ledger as markdown.
+ *
+ * Unlike the other markdown services it does not subscribe to emitters: the ledger
+ * is always fed by PortfolioMetaService because CC_PORTFOLIO_CASH_CHECK depends on it.
+ */
+export class PortfolioMarkdownService {
+  /** Logger service for debug output */
+  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  private readonly portfolioMetaService = inject<PortfolioMetaService>(TYPES.portfolioMetaService);
+
+  /**
+   * Generates markdown report with account summary and equity curve.
+   *
+   * @param strategyName - Strategy name used in the report heading
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Markdown formatted report string
+   */
+  public getReport = async (
+    strategyName: StrategyName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ): Promise<string> => {
+    this.loggerService.log(PORTFOLIO_METHOD_NAME_GET_REPORT, {
+      strategyName,
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    const data = this.portfolioMetaService.getData(exchangeName, frameName, backtest);
+
+    if (data.equityCurve.length === 0) {
+      return [
+        `# Portfolio Ledger: ${strategyName}`,
+        "",
+        "*No data available*"
+      ].join("\n");
+    }
+
+    const step = Math.max(1, Math.ceil(data.equityCurve.length / MAX_REPORT_ROWS));
+    const points = data.equityCurve.filter(
+      (_, index) => index % step === 0 || index === data.equityCurve.length - 1
+    );
+    const header = ["Time", "Equity", "Cash", "Position Value", "Realized PNL", "Unrealized PNL"];
+    const separator = header.map(() => "---");
+    const rows = points.map((point) => [
+      new Date(point.timestamp).toISOString(),
+      FORMAT_USD_FN(point.equity),
+      FORMAT_USD_FN(point.cash),
+      FORMAT_USD_FN(point.positionValue),
+      FORMAT_USD_FN(point.realizedPnl),
+      FORMAT_USD_FN(point.unrealizedPnl),
+    ]);
+    const table = [header, separator, ...rows].map((row) => `| ${row.join(" | ")} |`).join("\n");
+
+    return [
+      `# Portfolio Ledger: ${strategyName}`,
+      "",
+      `**Starting Capital:** ${FORMAT_USD_FN(data.startingCapital)}`,
+      `**Equity:** ${FORMAT_USD_FN(data.equity)}`,
+      `**Cash:** ${FORMAT_USD_FN(data.cash)}`,
+      `**Position Value:** ${FORMAT_USD_FN(data.positionValue)}`,
+      `**Realized PNL:** ${FORMAT_USD_FN(data.realizedPnl)}`,
+      `**Unrealized PNL:** ${FORMAT_USD_FN(data.unrealizedPnl)}`,
+      `**Total Return:** ${data.totalReturn.toFixed(2)} %`,
+      `**Max Drawdown:** ${data.maxDrawdown.toFixed(2)} %`,
+      `**CAGR:** ${data.cagr !== null ? `${data.cagr.toFixed(2)} %` : "N/A"}`,
+      `**Open Positions:** ${data.openPositions.length}`,
+      `**Total Trades:** ${data.totalTrades}`,
+      "",
+      "## Equity Curve",
+      "",
+      table,
+      "",
+      `*Max Drawdown: largest peak-to-trough decline of account equity, measured on every tick of every symbol in the ledger. CAGR is N/A until the curve spans 14 days.*`,
+    ].join("\n");
+  };
+
+  /**
+   * Generates the portfolio report and writes it via `MarkdownWriter.writeData`.
+   *
+   * @param strategyName - Strategy name used in the report heading and filename
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @param path - Directory to write the file into; defaults to `"./dump/portfolio"`
+   */
+  public dump = async (
+    strategyName: StrategyName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+    path = "./dump/portfolio",
+  ): Promise<void> => {
+    this.loggerService.log(PORTFOLIO_METHOD_NAME_DUMP, {
+      strategyName,
+      exchangeName,
+      frameName,
+      backtest,
+      path,
+    });
+    const markdown = await this.getReport(strategyName, exchangeName, frameName, backtest);
+    const timestamp = getContextTimestamp();
+    const filename = CREATE_FILE_NAME_FN(strategyName, exchangeName, frameName, timestamp);
+    await MarkdownWriter.writeData("portfolio", markdown, {
+      path,
+      file: filename,
+      symbol: "",
+      strategyName: "",
+      signalId: "",
+      exchangeName,
+      frameName,
+    });
+  };
+}
+
+export default PortfolioMarkdownService;
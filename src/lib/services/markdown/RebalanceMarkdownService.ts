@@ -0,0 +1,199 @@
+import { MarkdownWriter } from "../../../classes/Writer";
+import { inject } from "../../../lib/core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../../lib/core/types";
+import { StrategyName } from "../../../interfaces/Strategy.interface";
+import { ExchangeName } from "../../../interfaces/Exchange.interface";
+import { FrameName } from "../../../interfaces/Frame.interface";
+import { getContextTimestamp } from "../../../helpers/getContextTimestamp";
+import RebalanceConnectionService from "../connection/RebalanceConnectionService";
+import StrategySchemaService from "../schema/StrategySchemaService";
+import { RebalanceStatisticsModel } from "../../../model/RebalanceStatistics.model";
+
+/** Maximum number of event rows printed in the report (latest first) */
+const MAX_REPORT_ROWS = 250;
+
+/** Default drift from the target weight in percentage points of equity */
+const DEFAULT_DRIFT_THRESHOLD = 5;
+
+const REBALANCE_METHOD_NAME_GET_DATA = "RebalanceMarkdownService.getData";
+const REBALANCE_METHOD_NAME_GET_REPORT = "RebalanceMarkdownService.getReport";
+const REBALANCE_METHOD_NAME_DUMP = "RebalanceMarkdownService.dump";
+
+/**
+ * Creates a filename for markdown report.
+ * Filename format: "strategyName_exchangeName_frameName_backtest-timestamp.md"
+ */
+const CREATE_FILE_NAME_FN = (
+  strategyName: StrategyName,
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  timestamp: number
+): string => {
+  const parts = [strategyName, exchangeName];
+  if (frameName) { parts.push(frameName); parts.push("backtest"); }
+  else parts.push("live");
+  return `${parts.join("_")}-${timestamp}.md`;
+};
+
+const FORMAT_USD_FN = (value: number) => `${value.toFixed(2)} USD`;
+
+const FORMAT_WEIGHT_FN = (value: number) => `${(value * 100).toFixed(2)} %`;
+
+const TO_TABLE_FN = (rows: string[][]) =>
+  rows.map((row) => `| ${row.join(" | ")} |`).join("\n");
+
+/**
+ * Service rendering drift trades and turnover costs of portfolio strategies as markdown.
+ *
+ * Like AllocatorMarkdownService it does not subscribe to emitters: the events
+ * are recorded by ClientRebalancer on every open and drift trade.
+ */
+export class RebalanceMarkdownService {
+  /** Logger service for debug output */
+  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  private readonly rebalanceConnectionService = inject<RebalanceConnectionService>(TYPES.rebalanceConnectionService);
+
+  private readonly strategySchemaService = inject<StrategySchemaService>(TYPES.strategySchemaService);
+
+  /**
+   * Calculates rebalance statistics of a portfolio strategy.
+   *
+   * @param strategyName - Portfolio strategy name
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Rebalance statistics with event list and turnover totals
+   */
+  public getData = async (
+    strategyName: StrategyName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ): Promise<RebalanceStatisticsModel> => {
+    this.loggerService.log(REBALANCE_METHOD_NAME_GET_DATA, {
+      strategyName,
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    const eventList = this.rebalanceConnectionService.getEvents({ strategyName, exchangeName, frameName, backtest });
+    const executed = eventList.filter(({ executed }) => executed);
+    const { driftThreshold = DEFAULT_DRIFT_THRESHOLD } = this.strategySchemaService.get(strategyName);
+    return {
+      strategyName,
+      driftThreshold,
+      eventList,
+      totalEvents: eventList.length,
+      totalExecuted: executed.length,
+      totalRejected: eventList.length - executed.length,
+      totalTurnover: executed.reduce((acc, { tradeCost }) => acc + tradeCost, 0),
+      totalTurnoverCost: executed.reduce((acc, { turnoverCost }) => acc + turnoverCost, 0),
+    };
+  };
+
+  /**
+   * Generates markdown report with turnover totals and the drift trade log.
+   *
+   * @param strategyName - Portfolio strategy name used in the report heading
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Markdown formatted report string
+   */
+  public getReport = async (
+    strategyName: StrategyName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ): Promise<string> => {
+    this.loggerService.log(REBALANCE_METHOD_NAME_GET_REPORT, {
+      strategyName,
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    const stats = await this.getData(strategyName, exchangeName, frameName, backtest);
+
+    if (stats.totalEvents === 0) {
+      return [
+        `# Portfolio Rebalance: ${strategyName}`,
+        "",
+        "*No data available*"
+      ].join("\n");
+    }
+
+    const events = stats.eventList.slice(-MAX_REPORT_ROWS).reverse();
+    const table = TO_TABLE_FN([
+      ["Time", "Symbol", "Action", "Current Weight", "Target Weight", "Traded", "Fee", "Status"],
+      ["---", "---", "---", "---", "---", "---", "---", "---"],
+      ...events.map((event) => [
+        new Date(event.timestamp).toISOString(),
+        event.symbol,
+        event.action,
+        FORMAT_WEIGHT_FN(event.currentWeight),
+        FORMAT_WEIGHT_FN(event.targetWeight),
+        FORMAT_USD_FN(event.tradeCost),
+        FORMAT_USD_FN(event.turnoverCost),
+        event.executed ? "executed" : "rejected",
+      ]),
+    ]);
+
+    return [
+      `# Portfolio Rebalance: ${strategyName}`,
+      "",
+      `**Drift Threshold:** ${stats.driftThreshold} pp`,
+      `**Events:** ${stats.totalEvents}`,
+      `**Executed:** ${stats.totalExecuted}`,
+      `**Rejected:** ${stats.totalRejected}`,
+      `**Turnover:** ${FORMAT_USD_FN(stats.totalTurnover)}`,
+      `**Turnover Cost:** ${FORMAT_USD_FN(stats.totalTurnoverCost)}`,
+      "",
+      "## Rebalance Log",
+      "",
+      table,
+      "",
+      `*Rejected changes were refused by the commit pipeline (see CC_ENABLE_DCA_EVERYWHERE and CC_ENABLE_PPPL_EVERYWHERE).*`,
+    ].join("\n");
+  };
+
+  /**
+   * Generates the rebalance report and writes it via `MarkdownWriter.writeData`.
+   *
+   * @param strategyName - Portfolio strategy name used in the report heading and filename
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @param path - Directory to write the file into; defaults to `"./dump/rebalance"`
+   */
+  public dump = async (
+    strategyName: StrategyName,
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+    path = "./dump/rebalance",
+  ): Promise<void> => {
+    this.loggerService.log(REBALANCE_METHOD_NAME_DUMP, {
+      strategyName,
+      exchangeName,
+      frameName,
+      backtest,
+      path,
+    });
+    const markdown = await this.getReport(strategyName, exchangeName, frameName, backtest);
+    const timestamp = getContextTimestamp();
+    const filename = CREATE_FILE_NAME_FN(strategyName, exchangeName, frameName, timestamp);
+    await MarkdownWriter.writeData("rebalance", markdown, {
+      path,
+      file: filename,
+      symbol: "",
+      strategyName,
+      signalId: "",
+      exchangeName,
+      frameName,
+    });
+  };
+}
+
+export default RebalanceMarkdownService;
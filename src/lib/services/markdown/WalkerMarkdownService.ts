@@ -9,7 +9,7 @@ import { inject } from "../../../lib/core/di";
 import LoggerService, { TLoggerService } from "../base/LoggerService";
 import TYPES from "../../../lib/core/types";
 import { memoize, singleshot } from "functools-kit";
-import { walkerEmitter } from "../../../config/emitters";
+import { walkerEmitter, walkerCompleteSubject } from "../../../config/emitters";
 import { WalkerContract } from "../../../contract/Walker.contract";
 import {
   WalkerStatisticsModel,
@@ -17,6 +17,11 @@ import {
   SignalData,
 } from "../../../model/WalkerStatistics.model";
 import { BacktestStatisticsModel } from "../../../model/BacktestStatistics.model";
+import { WalkForwardStatisticsModel } from "../../../model/WalkForwardStatistics.model";
+import { OverfittingStatisticsModel } from "../../../model/OverfittingStatistics.model";
+import { getOverfittingStatistics } from "../../../helpers/getOverfittingStatistics";
+import { SignificanceStatisticsModel } from "../../../model/SignificanceStatistics.model";
+import { getSignificanceStatistics } from "../../../helpers/getSignificanceStatistics";
 import { ColumnModel } from "../../../model/Column.model";
 import { COLUMN_CONFIG } from "../../../config/columns";
 import { ExchangeName } from "../../../interfaces/Exchange.interface";
@@ -131,6 +136,13 @@ function formatMetric(value: number | null): string {
   return value!.toFixed(2);
 }
 
+/**
+ * Formats a timestamp as an ISO date for report tables.
+ */
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
 /**
  * Storage class for accumulating walker results.
  * Maintains a list of all strategy results and provides methods to generate reports.
@@ -143,6 +155,9 @@ class ReportStorage {
   private _bestMetric: number | null = null;
   private _bestStrategy: StrategyName | null = null;
 
+  /** Walk-forward analysis from the walker completion event */
+  private _walkForward: WalkForwardStatisticsModel | null = null;
+
   /** All strategy results for comparison table */
   private _strategyResults: IStrategyResult[] = [];
 
@@ -181,6 +196,15 @@ class ReportStorage {
     });
   }
 
+  /**
+   * Stores the walk-forward analysis of a completed walker run.
+   *
+   * @param walkForward - Walk-forward statistics, null when the walker has no walkForward config
+   */
+  public setWalkForward(walkForward: WalkForwardStatisticsModel | null) {
+    this._walkForward = walkForward;
+  }
+
   /**
    * Calculates walker results from strategy results.
    * Returns null for any unsafe numeric values (NaN, Infinity, etc).
@@ -211,7 +235,26 @@ class ReportStorage {
       bestStrategy: this._bestStrategy,
       bestMetric: this._bestMetric,
       bestStats: this._bestStats,
+      walkForward: this._walkForward,
       strategyResults: this._strategyResults,
+      overfitting: getOverfittingStatistics(
+        this._strategyResults.map(({ strategyName, stats }) => ({
+          strategyName,
+          signalList: stats.signalList,
+        })),
+        this._bestStrategy
+      ),
+      significance: getSignificanceStatistics(
+        [...this._strategyResults].reverse().map(({ strategyName, stats }) => ({
+          strategyName,
+          signalList: stats.signalList,
+        })),
+        this._bestStrategy,
+        {
+          alpha: GLOBAL_CONFIG.CC_WALKER_SIGNIFICANCE_LEVEL,
+          bootstrapSamples: GLOBAL_CONFIG.CC_WALKER_BOOTSTRAP_SAMPLES,
+        }
+      ),
     };
   }
 
@@ -321,6 +364,122 @@ class ReportStorage {
     return tableData.map((row) => `| ${row.join(" | ")} |`).join("\n");
   }
 
+  /**
+   * Generates walk-forward section: per-window table and stitched out-of-sample summary (View).
+   *
+   * @returns Markdown lines, empty when the walker has no walk-forward analysis
+   */
+  private getWalkForwardSection(): string[] {
+    const walkForward = this._walkForward;
+    if (!walkForward) {
+      return [];
+    }
+
+    const header = ["#", "Train", "Test", "Best Strategy", `IS ${walkForward.metric}`, `OOS ${walkForward.metric}`, "IS PNL %", "OOS PNL %", "OOS Signals"];
+    const separator = header.map(() => "---");
+    const rows = walkForward.windows.map((window) => [
+      `${window.index}`,
+      `${formatDate(window.trainStart)} — ${formatDate(window.trainEnd)}`,
+      `${formatDate(window.testStart)} — ${formatDate(window.testEnd)}`,
+      window.bestStrategy ?? "N/A",
+      formatMetric(window.isMetric),
+      formatMetric(window.oosMetric),
+      formatMetric(window.isStats?.totalPnl ?? null),
+      formatMetric(window.oosStats?.totalPnl ?? null),
+      `${window.oosStats?.totalSignals ?? 0}`,
+    ]);
+
+    return [
+      "## Walk-Forward Analysis",
+      "",
+      `**Mode:** ${walkForward.mode}`,
+      `**Windows:** ${walkForward.windows.length}`,
+      `**Average IS ${walkForward.metric}:** ${formatMetric(walkForward.avgIsMetric)}`,
+      `**Average OOS ${walkForward.metric}:** ${formatMetric(walkForward.avgOosMetric)}`,
+      `**IS → OOS Degradation:** ${walkForward.degradation === null ? "N/A" : `${walkForward.degradation.toFixed(2)}% (lower is better)`}`,
+      `**Walk-Forward Efficiency:** ${walkForward.walkForwardEfficiency === null ? "N/A" : `${walkForward.walkForwardEfficiency.toFixed(3)} (higher is better)`}`,
+      `**OOS Total Signals:** ${walkForward.totalSignals}`,
+      `**OOS Win Rate:** ${walkForward.winRate === null ? "N/A" : `${walkForward.winRate.toFixed(2)}%`}`,
+      `**OOS Total PNL:** ${walkForward.totalPnl === null ? "N/A" : `${walkForward.totalPnl.toFixed(2)}%`}`,
+      `**OOS Sharpe Ratio:** ${walkForward.sharpeRatio === null ? "N/A" : walkForward.sharpeRatio.toFixed(3)}`,
+      "",
+      [header, separator, ...rows].map((row) => `| ${row.join(" | ")} |`).join("\n"),
+      "",
+      `*Walk-Forward Analysis: the frame is split into consecutive non-overlapping test windows, each preceded by a train window (rolling: fixed length sliding with the test window; anchored: starting at the frame start and growing). In every train window all strategies are backtested and the one with the largest ${walkForward.metric} is run on the following test window only. In-sample (IS) figures are the winner's train window results, out-of-sample (OOS) figures are its test window results.*`,
+      `*IS → OOS Degradation: (average IS ${walkForward.metric} − average OOS ${walkForward.metric}) / average IS ${walkForward.metric} × 100. UNITS: percent. N/A when the average IS value is not positive. A large positive value means the winners were picked on noise.*`,
+      `*Walk-Forward Efficiency: OOS PNL per minute of test windows divided by IS PNL per minute of train windows, over windows where both runs completed. UNITS: dimensionless. N/A when the IS PNL is not positive. Rule of thumb: above 0.5 robust, below 0.5 the in-sample results do not carry over.*`,
+      `*OOS Total Signals / Win Rate / Total PNL / Sharpe Ratio: statistics of the closed signals of all test windows stitched together. Win rate excludes break-even trades; Sharpe Ratio is average PNL / sample standard deviation, N/A below 10 signals.*`,
+      "",
+    ];
+  }
+
+  /**
+   * Generates the overfitting diagnostics section (View).
+   *
+   * @param overfitting - Overfitting statistics of the walker run
+   * @returns Markdown lines
+   */
+  private getOverfittingSection(overfitting: OverfittingStatisticsModel): string[] {
+    return [
+      "## Overfitting Diagnostics",
+      "",
+      `**Trials:** ${overfitting.trials}`,
+      `**Best Strategy Sharpe Ratio:** ${overfitting.sharpeRatio === null ? "N/A" : overfitting.sharpeRatio.toFixed(3)}`,
+      `**Expected Max Sharpe of ${overfitting.trials} Trials:** ${overfitting.expectedMaxSharpe === null ? "N/A" : overfitting.expectedMaxSharpe.toFixed(3)}`,
+      `**Deflated Sharpe Ratio:** ${overfitting.deflatedSharpe === null ? "N/A" : `${(overfitting.deflatedSharpe * 100).toFixed(1)}% (higher is better, above 95% significant)`}`,
+      `**Skewness / Kurtosis:** ${overfitting.skewness === null || overfitting.kurtosis === null ? "N/A" : `${overfitting.skewness.toFixed(3)} / ${overfitting.kurtosis.toFixed(3)}`}`,
+      `**Probability of Backtest Overfitting:** ${overfitting.pbo === null ? "N/A" : `${(overfitting.pbo * 100).toFixed(1)}% over ${overfitting.combinations} combinations (lower is better)`}`,
+      "",
+      `*Deflated Sharpe Ratio (Bailey & López de Prado): probability that the true per-trade Sharpe of the best strategy is above the Sharpe the best of ${overfitting.trials} strategies without skill would show by luck. That benchmark is √(variance of Sharpe across strategies) × ((1 − γ) × Φ⁻¹(1 − 1/N) + γ × Φ⁻¹(1 − 1/(N × e))), γ = Euler-Mascheroni constant; the test statistic is corrected for the skewness and kurtosis of the per-trade PNL. UNITS: probability. N/A when the best strategy has fewer than 10 closed signals or fewer than 2 strategies have a Sharpe ratio. Below 95% the best Sharpe is not distinguishable from selection luck.*`,
+      `*Probability of Backtest Overfitting (combinatorially symmetric cross-validation): the time span of all closed signals is split into ${overfitting.partitions} equal blocks; for every choice of half of the blocks as in-sample, the strategy with the best in-sample per-trade Sharpe is ranked among all strategies on the other half. PBO is the share of combinations where it ranks at or below the out-of-sample median. UNITS: probability. N/A below 2 strategies with closed signals. Above 50% the selection is worse than a coin flip out-of-sample.*`,
+      "",
+    ];
+  }
+
+  /**
+   * Generates the significance section: the leader against every other strategy (View).
+   *
+   * @param significance - Pairwise significance tests of the leader
+   * @returns Markdown lines of the section
+   */
+  private getSignificanceSection(significance: SignificanceStatisticsModel): string[] {
+    if (!significance.leader || !significance.comparisons.length) {
+      return [];
+    }
+
+    const formatValue = (value: number | null, digits: number) => value === null ? "N/A" : value.toFixed(digits);
+    const header = ["Strategy", "Signals", "Sharpe Δ", "Bootstrap p", "Avg PNL Δ %", "Welch t", "Welch p", "Cohen's d", "Mann-Whitney p", "Rank-Biserial", "Verdict"];
+    const separator = header.map(() => "---");
+    const rows = significance.comparisons.map((comparison) => [
+      comparison.strategyName,
+      String(comparison.totalSignals),
+      formatValue(comparison.sharpeDiff, 3),
+      formatValue(comparison.bootstrapPValue, 4),
+      formatValue(comparison.meanDiff, 3),
+      formatValue(comparison.welchT, 3),
+      formatValue(comparison.welchPValue, 4),
+      formatValue(comparison.cohensD, 3),
+      formatValue(comparison.mannWhitneyPValue, 4),
+      formatValue(comparison.rankBiserial, 3),
+      comparison.significant ? `${significance.leader} wins` : "not significant",
+    ]);
+    const notSignificant = significance.comparisons.filter(({ significant }) => !significant).length;
+
+    return [
+      "## Statistical Significance",
+      "",
+      `**Leader:** ${significance.leader}`,
+      `**Winner:** ${significance.winner ?? `none (the lead does not hold against ${notSignificant} of ${significance.comparisons.length} strategies)`}`,
+      `**Significance Level:** ${significance.alpha}`,
+      "",
+      [header, separator, ...rows].map((row) => `| ${row.join(" | ")} |`).join("\n"),
+      "",
+      `*Statistical Significance: the leader (best by the optimization metric) is compared with every other strategy on their closed-signal per-trade PNL; Δ columns are leader minus strategy. Bootstrap p: two-sided p-value of the per-trade Sharpe difference from ${significance.bootstrapSamples} independent resamples of both trade lists (seed ${significance.seed}). Welch p: two-sided Welch t-test of the average per-trade PNL, Cohen's d is the difference in pooled standard deviations. Mann-Whitney p: two-sided rank test of the PNL distributions (normal approximation), rank-biserial is its effect size from −1 to 1. UNITS: p-values are probabilities. N/A when either side has fewer than 10 closed signals or no dispersion.*`,
+      `*Winner: the leader is named the winner only when every row is significant — all three p-values below ${significance.alpha} with every effect in the leader's favor. Otherwise the ranking above is not distinguishable from noise for the strategies marked not significant.*`,
+      "",
+    ];
+  }
+
   /**
    * Generates markdown report with all strategy results (View).
    * Includes best strategy summary, comparison table, and PNL table.
@@ -368,6 +527,9 @@ class ReportStorage {
       "",
       await this.getComparisonTable(GLOBAL_CONFIG.CC_WALKER_MARKDOWN_TOP_N, strategyColumns),
       "",
+      ...this.getWalkForwardSection(),
+      ...this.getOverfittingSection(results.overfitting),
+      ...this.getSignificanceSection(results.significance),
       "## All Signals (PNL Table)",
       "",
       await this.getPnlTable(pnlColumns),
@@ -467,10 +629,12 @@ export class WalkerMarkdownService {
   public subscribe = singleshot(() => {
     this.loggerService.log("walkerMarkdownService init");
     const unsubscribe = walkerEmitter.subscribe(this.tick);
+    const unComplete = walkerCompleteSubject.subscribe(this.complete);
     return () => {
       this.subscribe.clear();
       this.clear();
       unsubscribe();
+      unComplete();
     }
   });
 
@@ -516,6 +680,21 @@ export class WalkerMarkdownService {
     storage.addResult(data);
   };
 
+  /**
+   * Processes walker completion events and stores the walk-forward analysis.
+   * Should be called from walkerCompleteSubject.
+   *
+   * @param data - Walker completion contract
+   */
+  private complete = async (data: WalkerCompleteContract) => {
+    this.loggerService.log("walkerMarkdownService complete", {
+      walkerName: data.walkerName,
+    });
+
+    const storage = this.getStorage(data.walkerName);
+    storage.setWalkForward(data.walkForward);
+  };
+
   /**
    * Gets walker results data from all strategy results.
    * Delegates to ReportStorage.getData().
@@ -0,0 +1,343 @@
+import { inject } from "../../../lib/core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../../lib/core/types";
+import { errorData, getErrorMessage, memoize } from "functools-kit";
+import {
+  ICurrencyConversion,
+  ICurrencyConversionLeg,
+  IStrategyBacktestResult,
+  IStrategyPnL,
+  IStrategyTickResult,
+  StrategyName,
+} from "../../../interfaces/Strategy.interface";
+import { ExchangeName } from "../../../interfaces/Exchange.interface";
+import { FrameName } from "../../../interfaces/Frame.interface";
+import { GLOBAL_CONFIG } from "../../../config/params";
+import MethodContextService from "../context/MethodContextService";
+import ExchangeCoreService from "../core/ExchangeCoreService";
+
+/**
+ * Conversion leg without a price: the rate pair and its direction.
+ */
+type PathLeg = Omit<ICurrencyConversionLeg, "price">;
+
+const MS_PER_MINUTE = 60_000;
+
+/**
+ * Resolves the quote currency of a symbol. Separated symbols ("ETH/BTC",
+ * CCXT futures "BTC/USDT:USDT") take the part after the slash without the
+ * settlement suffix; concatenated symbols ("ETHBTC") take the longest
+ * CC_QUOTE_CURRENCIES entry the symbol ends with. Returns null for unknown quote currencies.
+ */
+const GET_QUOTE_CURRENCY_FN = (symbol: string): string | null => {
+  const slashIndex = symbol.indexOf("/");
+  if (slashIndex !== -1) {
+    const [quoteCurrency] = symbol.slice(slashIndex + 1).split(":");
+    return quoteCurrency || null;
+  }
+  let result: string | null = null;
+  for (const currency of GLOBAL_CONFIG.CC_QUOTE_CURRENCIES) {
+    if (symbol.length > currency.length && symbol.endsWith(currency)) {
+      if (!result || currency.length > result.length) {
+        result = currency;
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Separator between base and quote currency in rate symbols: the one the traded
+ * symbol uses, so "ETH/BTC" converts through "BTC/USDT" and "ETHBTC" through "BTCUSDT".
+ * Rate pairs never carry a settlement suffix.
+ */
+const GET_SEPARATOR_FN = (symbol: string): string => (symbol.includes("/") ? "/" : "");
+
+/**
+ * Candidate paths from one currency to another in order of preference:
+ * direct pair, inverted pair, then two legs through each known quote currency.
+ */
+const GET_CANDIDATE_PATHS_FN = (from: string, to: string, separator: string): PathLeg[][] => {
+  const getLegs = (a: string, b: string): PathLeg[] => [
+    { symbol: `${a}${separator}${b}`, inverted: false },
+    { symbol: `${b}${separator}${a}`, inverted: true },
+  ];
+  const result: PathLeg[][] = getLegs(from, to).map((leg) => [leg]);
+  for (const bridge of GLOBAL_CONFIG.CC_QUOTE_CURRENCIES) {
+    if (bridge === from || bridge === to) {
+      continue;
+    }
+    for (const first of getLegs(from, bridge)) {
+      for (const second of getLegs(bridge, to)) {
+        result.push([first, second]);
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Fetches the close of the last finished 1m candle of a rate pair at the timestamp.
+ * Throws when the exchange has no such pair or returns an unusable price.
+ */
+const GET_PRICE_FN = async (
+  self: ConversionMetaService,
+  symbol: string,
+  timestamp: number,
+  backtest: boolean,
+): Promise<number> => {
+  const [candle] = await self.exchangeCoreService.getRawCandles(
+    symbol,
+    "1m",
+    new Date(timestamp),
+    backtest,
+    1,
+  );
+  if (!candle || !Number.isFinite(candle.close) || candle.close <= 0) {
+    throw new Error(`conversionMetaService no price for ${symbol} at ${timestamp}`);
+  }
+  return candle.close;
+};
+
+/**
+ * Prices every leg of a path. Throws when any leg is unavailable.
+ */
+const GET_LEGS_FN = async (
+  self: ConversionMetaService,
+  path: PathLeg[],
+  timestamp: number,
+  backtest: boolean,
+): Promise<ICurrencyConversionLeg[]> => {
+  const result: ICurrencyConversionLeg[] = [];
+  for (const leg of path) {
+    result.push({
+      ...leg,
+      price: await GET_PRICE_FN(self, leg.symbol, timestamp, backtest),
+    });
+  }
+  return result;
+};
+
+/**
+ * Service converting trade cost and PnL to the reporting currency (CC_REPORTING_CURRENCY).
+ *
+ * The conversion path of a quote currency is discovered once per exchange on the
+ * first trade (direct pair, inverted pair, two legs through a known quote currency)
+ * and priced at every trade timestamp with the close of the last finished 1m candle.
+ * Rate symbols are formatted like the traded symbol ("ETH/BTC" → "BTC/USDT").
+ *
+ * Architecture:
+ * - Registered as singleton in DI container
+ * - Called by StrategyConnectionService and BacktestLogicPrivateService for opened
+ *   and closed ticks before they reach the portfolio ledger and the emitters, so
+ *   pnl.conversion is stored with the signal and read by Heat, Backtest and Portfolio
+ *
+ * @example
+ * ```typescript
+ * setConfig({ CC_REPORTING_CURRENCY: "USDT" });
+ * // ETHBTC closed tick: pnl.conversion = { quoteCurrency: "BTC", path: [{ symbol: "BTCUSDT", ... }], ... }
+ * ```
+ */
+export class ConversionMetaService {
+  readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  readonly exchangeCoreService = inject<ExchangeCoreService>(TYPES.exchangeCoreService);
+
+  /**
+   * Rate pairs the exchange had no candles for, keyed by exchange and symbol,
+   * with the trade timestamp of the failed probe. Such pairs are skipped by path
+   * discovery until the trade timestamp moves CC_CONVERSION_RETRY_MINUTES past it.
+   */
+  private _missingPairMap = new Map<string, number>();
+
+  /**
+   * Memoized conversion path per exchange, quote and reporting currency.
+   *
+   * Pairs are checked with probeCandles (one adapter call, no retries and no
+   * console output); at most CC_CONVERSION_MAX_PROBES pairs are probed per search.
+   * Resolves to null when no candidate path has prices on the exchange yet;
+   * getConversion drops such results so a later trade continues the search
+   * with the pairs that are not known to be missing.
+   */
+  private getPath = memoize<(exchangeName: ExchangeName, quoteCurrency: string, reportingCurrency: string, separator: string, timestamp: number, backtest: boolean) => Promise<PathLeg[] | null>>(
+    ([exchangeName, quoteCurrency, reportingCurrency, separator]) => `${exchangeName}:${quoteCurrency}:${reportingCurrency}:${separator}`,
+    async (exchangeName, quoteCurrency, reportingCurrency, separator, timestamp, backtest) => {
+      const retryMs = GLOBAL_CONFIG.CC_CONVERSION_RETRY_MINUTES * MS_PER_MINUTE;
+      const foundSet = new Set<string>();
+      let probes = 0;
+      for (const path of GET_CANDIDATE_PATHS_FN(quoteCurrency, reportingCurrency, separator)) {
+        let isFound = true;
+        for (const { symbol } of path) {
+          if (foundSet.has(symbol)) {
+            continue;
+          }
+          const missingKey = `${exchangeName}:${symbol}`;
+          const missingAt = this._missingPairMap.get(missingKey);
+          if (missingAt !== undefined && Math.abs(timestamp - missingAt) < retryMs) {
+            isFound = false;
+            break;
+          }
+          if (probes >= GLOBAL_CONFIG.CC_CONVERSION_MAX_PROBES) {
+            return null;
+          }
+          probes += 1;
+          const candles = await this.exchangeCoreService.probeCandles(
+            symbol,
+            "1m",
+            new Date(timestamp),
+            backtest,
+            1,
+          );
+          if (!candles) {
+            this._missingPairMap.set(missingKey, timestamp);
+            isFound = false;
+            break;
+          }
+          this._missingPairMap.delete(missingKey);
+          foundSet.add(symbol);
+        }
+        if (isFound) {
+          return path;
+        }
+      }
+      return null;
+    },
+  );
+
+  /**
+   * Converts cost and PnL of a quote currency amount at the timestamp.
+   *
+   * @param symbol - Traded pair symbol
+   * @param pnl - PnL in the quote currency
+   * @param timestamp - Trade timestamp in milliseconds
+   * @param context - Strategy, exchange and frame of the trade
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Conversion, or null when disabled or no path exists
+   */
+  public getConversion = async (
+    symbol: string,
+    pnl: IStrategyPnL,
+    timestamp: number,
+    context: { strategyName: StrategyName; exchangeName: ExchangeName; frameName: FrameName },
+    backtest: boolean,
+  ): Promise<ICurrencyConversion | null> => {
+    this.loggerService.log("conversionMetaService getConversion", {
+      symbol,
+      timestamp,
+      context,
+      backtest,
+    });
+    const reportingCurrency = GLOBAL_CONFIG.CC_REPORTING_CURRENCY;
+    if (!reportingCurrency) {
+      return null;
+    }
+    const quoteCurrency = GET_QUOTE_CURRENCY_FN(symbol);
+    if (!quoteCurrency) {
+      this.loggerService.warn("conversionMetaService unknown quote currency", { symbol });
+      return null;
+    }
+    const separator = GET_SEPARATOR_FN(symbol);
+    return await MethodContextService.runInContext(async () => {
+      let path: ICurrencyConversionLeg[] = [];
+      if (quoteCurrency !== reportingCurrency) {
+        const legs = await this.getPath(context.exchangeName, quoteCurrency, reportingCurrency, separator, timestamp, backtest);
+        if (!legs) {
+          // Rate candles may start later than the first trade: continue on a later one
+          this.getPath.clear(`${context.exchangeName}:${quoteCurrency}:${reportingCurrency}:${separator}`);
+          this.loggerService.warn("conversionMetaService no conversion path", {
+            symbol,
+            quoteCurrency,
+            reportingCurrency,
+          });
+          return null;
+        }
+        path = await GET_LEGS_FN(this, legs, timestamp, backtest);
+      }
+      const rate = path.reduce(
+        (acc, { price, inverted }) => (inverted ? acc / price : acc * price),
+        1,
+      );
+      return {
+        quoteCurrency,
+        reportingCurrency,
+        path,
+        rate,
+        timestamp,
+        pnlCost: pnl.pnlCost * rate,
+        pnlEntries: pnl.pnlEntries * rate,
+      };
+    }, context);
+  };
+
+  /**
+   * Records pnl.conversion on opened and closed ticks. Other actions are left as-is.
+   * Failures are logged and leave the tick unconverted.
+   *
+   * @param tick - Tick result emitted by the strategy
+   */
+  public convert = async (tick: IStrategyTickResult | IStrategyBacktestResult) => {
+    if (!GLOBAL_CONFIG.CC_REPORTING_CURRENCY) {
+      return;
+    }
+    if (tick.action !== "opened" && tick.action !== "closed") {
+      return;
+    }
+    this.loggerService.log("conversionMetaService convert", {
+      action: tick.action,
+      symbol: tick.symbol,
+      strategyName: tick.strategyName,
+    });
+    const pnl = tick.action === "closed" ? tick.pnl : tick.signal.pnl;
+    const timestamp = tick.action === "closed" ? tick.closeTimestamp : tick.createdAt;
+    try {
+      const conversion = await this.getConversion(
+        tick.symbol,
+        pnl,
+        timestamp,
+        {
+          strategyName: tick.strategyName,
+          exchangeName: tick.exchangeName,
+          frameName: tick.frameName,
+        },
+        tick.backtest,
+      );
+      if (conversion) {
+        pnl.conversion = conversion;
+      }
+    } catch (error) {
+      this.loggerService.warn("conversionMetaService convert failed", {
+        symbol: tick.symbol,
+        error: errorData(error),
+        message: getErrorMessage(error),
+      });
+    }
+  };
+
+  /**
+   * Drops discovered conversion paths (all exchanges when exchangeName is omitted).
+   *
+   * @param exchangeName - Optional exchange identifier
+   */
+  public clear = (exchangeName?: ExchangeName) => {
+    this.loggerService.log("conversionMetaService clear", {
+      exchangeName,
+    });
+    if (!exchangeName) {
+      this.getPath.clear();
+      this._missingPairMap.clear();
+      return;
+    }
+    for (const key of this.getPath.keys()) {
+      if (key.startsWith(`${exchangeName}:`)) {
+        this.getPath.clear(key);
+      }
+    }
+    for (const key of [...this._missingPairMap.keys()]) {
+      if (key.startsWith(`${exchangeName}:`)) {
+        this._missingPairMap.delete(key);
+      }
+    }
+  };
+}
+
+export default ConversionMetaService;
@@ -0,0 +1,550 @@
+import { inject } from "../../../lib/core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../../lib/core/types";
+import { memoize } from "functools-kit";
+import {
+  IStrategyBacktestResult,
+  IStrategyPnL,
+  IStrategyTickResult,
+  StrategyName,
+} from "../../../interfaces/Strategy.interface";
+import { ExchangeName } from "../../../interfaces/Exchange.interface";
+import { FrameName } from "../../../interfaces/Frame.interface";
+import {
+  IPortfolioEquityPoint,
+  IPortfolioPosition,
+} from "../../../interfaces/Portfolio.interface";
+import { PortfolioStatisticsModel } from "../../../model/PortfolioStatistics.model";
+import { GLOBAL_CONFIG } from "../../../config/params";
+import { getReportingPnl } from "../../../helpers/getReportingPnl";
+
+/** Minimum calendar span of the equity curve for CAGR to be reported */
+const MIN_CALENDAR_SPAN_DAYS = 14;
+
+/** Maximum number of closed-trade returns kept per strategy */
+const MAX_STRATEGY_RETURNS = 1_000;
+
+const MS_PER_DAY = 86_400_000;
+const DAYS_PER_YEAR = 365.25;
+
+/**
+ * Creates a unique memoization key for a portfolio ledger.
+ * Key format: "exchangeName[:frameName]:backtest|live"
+ *
+ * @param exchangeName - Exchange identifier
+ * @param frameName - Frame identifier (omitted when empty)
+ * @param backtest - Whether running in backtest mode
+ * @returns Unique string key for memoization
+ */
+const CREATE_KEY_FN = (
+  exchangeName: ExchangeName,
+  frameName: FrameName,
+  backtest: boolean,
+): string => {
+  const parts = [exchangeName];
+  if (frameName) parts.push(frameName);
+  parts.push(backtest ? "backtest" : "live");
+  return parts.join(":");
+};
+
+/**
+ * Cash locked by a position: invested cost divided by leverage.
+ */
+const GET_MARGIN_FN = (pnl: IStrategyPnL, rate: number) =>
+  (pnl.pnlEntries * rate) / Math.max(pnl.leverage ?? 1, 1);
+
+/**
+ * Account ledger shared by every symbol and strategy of one exchange + frame + mode.
+ *
+ * Positions are tracked as a whole until the closed tick: partial closes stay inside
+ * the position pnlCost and are realized together with the final close.
+ *
+ * With CC_REPORTING_CURRENCY set, open positions are marked with the conversion rate
+ * of their opened tick and closed trades are realized with pnl.conversion of the
+ * closed tick, so every amount of the ledger is in the reporting currency.
+ */
+class PortfolioLedger {
+  private readonly _positions = new Map<string, IPortfolioPosition>();
+  private readonly _equityCurve: IPortfolioEquityPoint[] = [];
+  private readonly _strategyReturns = new Map<StrategyName, number[]>();
+
+  private _realizedPnl = 0;
+  private _totalTrades = 0;
+  private _peakEquity: number;
+  private _maxDrawdown = 0;
+  private _firstTimestamp: number | null = null;
+
+  constructor(readonly startingCapital: number) {
+    this._peakEquity = startingCapital;
+  }
+
+  private get margin() {
+    let total = 0;
+    for (const position of this._positions.values()) {
+      total += position.margin;
+    }
+    return total;
+  }
+
+  private get unrealizedPnl() {
+    let total = 0;
+    for (const position of this._positions.values()) {
+      total += position.pnlCost;
+    }
+    return total;
+  }
+
+  public get cash() {
+    return this.startingCapital + this._realizedPnl - this.margin;
+  }
+
+  public get equity() {
+    return this.startingCapital + this._realizedPnl + this.unrealizedPnl;
+  }
+
+  /**
+   * Appends an equity point and updates the running peak and max drawdown.
+   */
+  private record(timestamp: number) {
+    const margin = this.margin;
+    const unrealizedPnl = this.unrealizedPnl;
+    const cash = this.startingCapital + this._realizedPnl - margin;
+    const positionValue = margin + unrealizedPnl;
+    const equity = cash + positionValue;
+    if (this._firstTimestamp === null) {
+      this._firstTimestamp = timestamp;
+    }
+    this._peakEquity = Math.max(this._peakEquity, equity);
+    if (this._peakEquity > 0) {
+      const drawdown = ((this._peakEquity - equity) / this._peakEquity) * 100;
+      this._maxDrawdown = Math.max(this._maxDrawdown, drawdown);
+    }
+    this._equityCurve.push({
+      timestamp,
+      equity,
+      cash,
+      positionValue,
+      realizedPnl: this._realizedPnl,
+      unrealizedPnl,
+    });
+    if (this._equityCurve.length > GLOBAL_CONFIG.CC_MAX_PORTFOLIO_EQUITY_POINTS) {
+      this._equityCurve.shift();
+    }
+  }
+
+  /**
+   * Applies a tick result: opened/active ticks mark the position to market,
+   * closed ticks realize its PnL. Other actions do not move money.
+   */
+  public next(tick: IStrategyTickResult | IStrategyBacktestResult) {
+    if (tick.action === "opened" || tick.action === "active") {
+      const pnl = tick.action === "active" ? tick.pnl : tick.signal.pnl;
+      const rate = pnl.conversion?.rate ?? this._positions.get(tick.signal.id)?.rate ?? 1;
+      this._positions.set(tick.signal.id, {
+        signalId: tick.signal.id,
+        symbol: tick.symbol,
+        strategyName: tick.strategyName,
+        margin: GET_MARGIN_FN(pnl, rate),
+        pnlCost: tick.action === "active" ? pnl.pnlCost * rate : 0,
+        rate,
+      });
+      this.record(tick.createdAt);
+      return;
+    }
+    if (tick.action === "closed") {
+      this._positions.delete(tick.signal.id);
+      this._realizedPnl += getReportingPnl(tick.pnl).pnlCost;
+      this._totalTrades += 1;
+      {
+        const returns = this._strategyReturns.get(tick.strategyName) ?? [];
+        returns.push(tick.pnl.pnlPercentage);
+        if (returns.length > MAX_STRATEGY_RETURNS) {
+          returns.shift();
+        }
+        this._strategyReturns.set(tick.strategyName, returns);
+      }
+      this.record(tick.closeTimestamp);
+    }
+  }
+
+  /**
+   * Margin locked by open positions of one strategy.
+   */
+  public getStrategyUsage(strategyName: StrategyName) {
+    let total = 0;
+    for (const position of this._positions.values()) {
+      if (position.strategyName === strategyName) {
+        total += position.margin;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Distinct symbols with open positions.
+   */
+  public getHeldSymbols() {
+    const symbols = new Set<string>();
+    for (const position of this._positions.values()) {
+      symbols.add(position.symbol);
+    }
+    return Array.from(symbols);
+  }
+
+  /**
+   * Closed-trade returns (pnlPercentage) of one strategy, oldest first.
+   */
+  public getStrategyReturns(strategyName: StrategyName) {
+    return (this._strategyReturns.get(strategyName) ?? []).slice();
+  }
+
+  public getData(): PortfolioStatisticsModel {
+    const equity = this.equity;
+    const unrealizedPnl = this.unrealizedPnl;
+    const margin = this.margin;
+    const lastTimestamp = this._equityCurve.length
+      ? this._equityCurve[this._equityCurve.length - 1].timestamp
+      : null;
+    let cagr: number | null = null;
+    if (this._firstTimestamp !== null && lastTimestamp !== null) {
+      const days = (lastTimestamp - this._firstTimestamp) / MS_PER_DAY;
+      if (days >= MIN_CALENDAR_SPAN_DAYS) {
+        cagr = equity <= 0
+          ? -100
+          : (Math.pow(equity / this.startingCapital, DAYS_PER_YEAR / days) - 1) * 100;
+      }
+    }
+    return {
+      startingCapital: this.startingCapital,
+      equity,
+      cash: this.startingCapital + this._realizedPnl - margin,
+      positionValue: margin + unrealizedPnl,
+      realizedPnl: this._realizedPnl,
+      unrealizedPnl,
+      totalReturn: (equity / this.startingCapital - 1) * 100,
+      maxDrawdown: this._maxDrawdown,
+      cagr,
+      openPositions: Array.from(this._positions.values(), (position) => ({ ...position })),
+      totalTrades: this._totalTrades,
+      equityCurve: this._equityCurve.slice(),
+    };
+  }
+}
+
+/**
+ * Service for tracking account balance across every symbol and strategy of a run.
+ *
+ * Keeps one ledger per (exchangeName, frameName, backtest) key — the same grouping
+ * as the Heat report. Each ledger follows starting capital, free cash, position
+ * values and realized/unrealized PnL in USD and records a timestamped equity curve.
+ *
+ * Architecture:
+ * - Registered as singleton in DI container
+ * - Updated by StrategyConnectionService and BacktestLogicPrivateService on every
+ *   emitted tick, independently of Markdown.enable()
+ * - Read by ClientStrategy (CC_PORTFOLIO_CASH_CHECK and sizingName), ClientAllocator,
+ *   risk-parity ClientSizing and the Portfolio facade
+ *
+ * @example
+ * ```typescript
+ * const cash = backtest.portfolioMetaService.getFreeCash("binance", "1d-frame", true);
+ * ```
+ */
+export class PortfolioMetaService {
+  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  /**
+   * Memoized factory for ledgers keyed by (exchangeName, frameName, backtest).
+   * Instances are cached until clear() is called.
+   */
+  private getLedger = memoize<(exchangeName: ExchangeName, frameName: FrameName, backtest: boolean) => PortfolioLedger>(
+    ([exchangeName, frameName, backtest]) => CREATE_KEY_FN(exchangeName, frameName, backtest),
+    () => new PortfolioLedger(GLOBAL_CONFIG.CC_PORTFOLIO_STARTING_CAPITAL),
+  );
+
+  /**
+   * Number of backtest runs in progress per ledger key, maintained by beginRun/endRun.
+   * A ledger with runs in progress is never reset by a run that starts later.
+   */
+  private _activeRunMap = new Map<string, number>();
+
+  /**
+   * Live account balance reader registered by Broker.enable(), null when no broker is active.
+   */
+  private _balanceSource: (() => Promise<number | null>) | null = null;
+
+  /**
+   * Registers (or removes with null) the live account balance reader.
+   * Called by Broker.enable() / its dispose function.
+   *
+   * @param balanceSource - Reader resolving to the broker balance in USD, or null
+   */
+  public setBalanceSource = (balanceSource: (() => Promise<number | null>) | null) => {
+    this.loggerService.log("portfolioMetaService setBalanceSource", {
+      enabled: !!balanceSource,
+    });
+    this._balanceSource = balanceSource;
+  };
+
+  /**
+   * Returns the account balance used for position sizing: the live broker balance
+   * when a broker provides one, otherwise the ledger equity.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Account balance in USD
+   */
+  public getAccountBalance = async (
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ) => {
+    this.loggerService.log("portfolioMetaService getAccountBalance", {
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    if (!backtest && this._balanceSource) {
+      const balance = await this._balanceSource();
+      if (typeof balance === "number" && Number.isFinite(balance)) {
+        return balance;
+      }
+    }
+    return this.getLedger(exchangeName, frameName, backtest).equity;
+  };
+
+  /**
+   * Applies a tick result to the ledger of its exchange, frame and mode.
+   *
+   * @param tick - Tick result emitted by the strategy
+   */
+  public next = async (tick: IStrategyTickResult | IStrategyBacktestResult) => {
+    this.loggerService.log("portfolioMetaService next", {
+      action: tick.action,
+      symbol: tick.symbol,
+      strategyName: tick.strategyName,
+    });
+    const ledger = this.getLedger(tick.exchangeName, tick.frameName, tick.backtest);
+    ledger.next(tick);
+  };
+
+  /**
+   * Returns free cash in USD: starting capital + realized PnL − margin of open positions.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Free cash in USD
+   */
+  public getFreeCash = (
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ) => {
+    this.loggerService.log("portfolioMetaService getFreeCash", {
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    return this.getLedger(exchangeName, frameName, backtest).cash;
+  };
+
+  /**
+   * Returns account equity in USD: starting capital + realized and unrealized PnL.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Equity in USD
+   */
+  public getEquity = (
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ) => {
+    this.loggerService.log("portfolioMetaService getEquity", {
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    return this.getLedger(exchangeName, frameName, backtest).equity;
+  };
+
+  /**
+   * Returns margin in USD locked by open positions of a strategy.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @param strategyName - Strategy identifier
+   * @returns Locked margin in USD
+   */
+  public getStrategyUsage = (
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+    strategyName: StrategyName,
+  ) => {
+    this.loggerService.log("portfolioMetaService getStrategyUsage", {
+      exchangeName,
+      frameName,
+      backtest,
+      strategyName,
+    });
+    return this.getLedger(exchangeName, frameName, backtest).getStrategyUsage(strategyName);
+  };
+
+  /**
+   * Returns distinct symbols with open positions across every strategy of a ledger.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Held symbols
+   */
+  public getHeldSymbols = (
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ) => {
+    this.loggerService.log("portfolioMetaService getHeldSymbols", {
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    return this.getLedger(exchangeName, frameName, backtest).getHeldSymbols();
+  };
+
+  /**
+   * Returns closed-trade returns (pnlPercentage) of a strategy, oldest first.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @param strategyName - Strategy identifier
+   * @returns Closed-trade returns in percent
+   */
+  public getStrategyReturns = (
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+    strategyName: StrategyName,
+  ) => {
+    this.loggerService.log("portfolioMetaService getStrategyReturns", {
+      exchangeName,
+      frameName,
+      backtest,
+      strategyName,
+    });
+    return this.getLedger(exchangeName, frameName, backtest).getStrategyReturns(strategyName);
+  };
+
+  /**
+   * Returns account statistics and the equity curve of a ledger.
+   *
+   * @param exchangeName - Exchange identifier
+   * @param frameName - Frame identifier (empty for live)
+   * @param backtest - True if backtest mode, false if live mode
+   * @returns Portfolio statistics snapshot
+   */
+  public getData = (
+    exchangeName: ExchangeName,
+    frameName: FrameName,
+    backtest: boolean,
+  ): PortfolioStatisticsModel => {
+    this.loggerService.log("portfolioMetaService getData", {
+      exchangeName,
+      frameName,
+      backtest,
+    });
+    return this.getLedger(exchangeName, frameName, backtest).getData();
+  };
+
+  /**
+   * Registers a run trading on the ledger. Paired with endRun when the run finishes.
+   *
+   * @param payload - Ledger key: exchange, frame and mode
+   */
+  public beginRun = (payload: {
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+    backtest: boolean;
+  }) => {
+    this.loggerService.log("portfolioMetaService beginRun", {
+      payload,
+    });
+    const key = CREATE_KEY_FN(payload.exchangeName, payload.frameName, payload.backtest);
+    this._activeRunMap.set(key, (this._activeRunMap.get(key) ?? 0) + 1);
+  };
+
+  /**
+   * Unregisters a run registered with beginRun.
+   *
+   * @param payload - Ledger key: exchange, frame and mode
+   */
+  public endRun = (payload: {
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+    backtest: boolean;
+  }) => {
+    this.loggerService.log("portfolioMetaService endRun", {
+      payload,
+    });
+    const key = CREATE_KEY_FN(payload.exchangeName, payload.frameName, payload.backtest);
+    const count = (this._activeRunMap.get(key) ?? 0) - 1;
+    if (count > 0) {
+      this._activeRunMap.set(key, count);
+      return;
+    }
+    this._activeRunMap.delete(key);
+  };
+
+  /**
+   * Checks whether a run registered with beginRun is still trading on the ledger.
+   *
+   * @param payload - Ledger key: exchange, frame and mode
+   * @returns True while at least one run is in progress
+   */
+  public hasActiveRun = (payload: {
+    exchangeName: ExchangeName;
+    frameName: FrameName;
+    backtest: boolean;
+  }): boolean => {
+    this.loggerService.log("portfolioMetaService hasActiveRun", {
+      payload,
+    });
+    return this._activeRunMap.has(
+      CREATE_KEY_FN(payload.exchangeName, payload.frameName, payload.backtest),
+    );
+  };
+
+  /**
+   * Disposes ledger(s). The next tick starts again from CC_PORTFOLIO_STARTING_CAPITAL.
+   *
+   * @param payload - Optional key to clear a single ledger; omit to clear all
+   */
+  public clear = (
+    payload?: {
+      exchangeName: ExchangeName;
+      frameName: FrameName;
+      backtest: boolean;
+    }
+  ) => {
+    this.loggerService.log("portfolioMetaService clear", {
+      payload
+    });
+    if (!payload) {
+      this.getLedger.clear();
+      return;
+    }
+    const key = CREATE_KEY_FN(
+      payload.exchangeName,
+      payload.frameName,
+      payload.backtest,
+    );
+    this.getLedger.clear(key);
+  };
+}
+
+export default PortfolioMetaService;
@@ -0,0 +1,141 @@
+import { IAllocatorSchema, AllocatorName } from "../../../interfaces/Allocator.interface";
+import { inject } from "../../../lib/core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../../lib/core/types";
+import { ToolRegistry } from "functools-kit";
+
+/**
+ * Service for managing allocator schema registry.
+ *
+ * Uses ToolRegistry from functools-kit for type-safe schema storage.
+ * Allocator schemas are registered via addAllocatorSchema() and retrieved by name.
+ */
+export class AllocatorSchemaService {
+  readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  private _registry = new ToolRegistry<Record<AllocatorName, IAllocatorSchema>>(
+    "allocatorSchema"
+  );
+
+  /**
+   * Registers a new allocator schema.
+   *
+   * @param key - Unique allocator name
+   * @param value - Allocator schema configuration
+   * @throws Error if allocator name already exists
+   */
+  public register(key: AllocatorName, value: IAllocatorSchema) {
+    this.loggerService.log(`allocatorSchemaService register`, { key });
+    this.validateShallow(value);
+    this._registry = this._registry.register(key, value);
+  }
+
+  /**
+   * Validates allocator schema structure for required properties.
+   *
+   * Performs shallow validation to ensure all required properties exist
+   * and have correct types before registration in the registry.
+   *
+   * @param allocatorSchema - Allocator schema to validate
+   * @throws Error if allocatorName is missing or not a string
+   * @throws Error if method is missing or not a valid allocation method
+   * @throws Error if weights are empty, negative or sum to zero (fixed-weight)
+   * @throws Error if strategies are empty or duplicated (equal-risk, performance-weighted)
+   * @throws Error if lookbackTrades is not an integer of at least 2
+   */
+  private validateShallow = (allocatorSchema: IAllocatorSchema) => {
+    this.loggerService.log(`allocatorSchemaService validateShallow`, {
+      allocatorSchema,
+    });
+
+    const allocatorName = allocatorSchema.allocatorName;
+    const method = allocatorSchema.method;
+
+    if (typeof allocatorName !== "string") {
+      throw new Error(
+        `allocator schema validation failed: missing allocatorName`
+      );
+    }
+
+    if (typeof method !== "string") {
+      throw new Error(
+        `allocator schema validation failed: missing method for allocatorName=${allocatorName}`
+      );
+    }
+
+    if (allocatorSchema.rebalanceInterval && typeof allocatorSchema.rebalanceInterval !== "string") {
+      throw new Error(
+        `allocator schema validation failed: invalid rebalanceInterval for allocatorName=${allocatorName}`
+      );
+    }
+
+    // Method-specific validation
+    if (allocatorSchema.method === "fixed-weight") {
+      const weights = Object.values(allocatorSchema.weights ?? {});
+      if (!weights.length) {
+        throw new Error(
+          `allocator schema validation failed: missing weights for fixed-weight allocator (allocatorName=${allocatorName})`
+        );
+      }
+      if (weights.some((weight) => typeof weight !== "number" || !isFinite(weight) || weight < 0)) {
+        throw new Error(
+          `allocator schema validation failed: weights must be non-negative numbers (allocatorName=${allocatorName})`
+        );
+      }
+      if (weights.reduce((acc, weight) => acc + weight, 0) <= 0) {
+        throw new Error(
+          `allocator schema validation failed: weights sum to zero (allocatorName=${allocatorName})`
+        );
+      }
+      return;
+    }
+
+    if (!Array.isArray(allocatorSchema.strategies) || !allocatorSchema.strategies.length) {
+      throw new Error(
+        `allocator schema validation failed: missing strategies for ${method} allocator (allocatorName=${allocatorName})`
+      );
+    }
+
+    if (allocatorSchema.strategies.length !== new Set(allocatorSchema.strategies).size) {
+      throw new Error(
+        `allocator schema validation failed: found duplicate strategies for allocatorName=${allocatorName} strategies=[${allocatorSchema.strategies}]`
+      );
+    }
+
+    if (
+      allocatorSchema.lookbackTrades !== undefined &&
+      (!Number.isInteger(allocatorSchema.lookbackTrades) || allocatorSchema.lookbackTrades < 2)
+    ) {
+      throw new Error(
+        `allocator schema validation failed: lookbackTrades must be an integer of at least 2 (allocatorName=${allocatorName})`
+      );
+    }
+  };
+
+  /**
+   * Overrides an existing allocator schema with partial updates.
+   *
+   * @param key - Allocator name to override
+   * @param value - Partial schema updates
+   * @throws Error if allocator name doesn't exist
+   */
+  public override(key: AllocatorName, value: Partial<IAllocatorSchema>) {
+    this.loggerService.log(`allocatorSchemaService override`, { key });
+    this._registry = this._registry.override(key, value);
+    return this._registry.get(key);
+  }
+
+  /**
+   * Retrieves an allocator schema by name.
+   *
+   * @param key - Allocator name
+   * @returns Allocator schema configuration
+   * @throws Error if allocator name doesn't exist
+   */
+  public get(key: AllocatorName): IAllocatorSchema {
+    this.loggerService.log(`allocatorSchemaService get`, { key });
+    return this._registry.get(key);
+  }
+}
+
+export default AllocatorSchemaService;
@@ -39,6 +39,9 @@ export class ExchangeSchemaService {
    * @throws Error if getCandles is missing or not a function
    * @throws Error if formatPrice is missing or not a function
    * @throws Error if formatQuantity is missing or not a function
+   * @throws Error if getFee is provided but not a function
+   * @throws Error if slippage is provided with unknown method or invalid parameters
+   * @throws Error if getFundingRates is provided but not a function
    */
   private validateShallow = (exchangeSchema: IExchangeSchema) => {
     this.loggerService.log(`exchangeSchemaService validateShallow`, {
@@ -56,6 +59,80 @@ export class ExchangeSchemaService {
         `exchange schema validation failed: missing getCandles for exchangeName=${exchangeSchema.exchangeName}`
       );
     }
+
+    if (exchangeSchema.getFee !== undefined && typeof exchangeSchema.getFee !== "function") {
+      throw new Error(
+        `exchange schema validation failed: getFee must be a function for exchangeName=${exchangeSchema.exchangeName}`
+      );
+    }
+
+    if (exchangeSchema.slippage !== undefined) {
+      this.validateSlippage(exchangeSchema);
+    }
+
+    if (exchangeSchema.getFundingRates !== undefined && typeof exchangeSchema.getFundingRates !== "function") {
+      throw new Error(
+        `exchange schema validation failed: getFundingRates must be a function for exchangeName=${exchangeSchema.exchangeName}`
+      );
+    }
+  };
+
+  /**
+   * Validates slippage model parameters of an exchange schema.
+   *
+   * @param exchangeSchema - Exchange schema with slippage set
+   * @throws Error if slippage method is unknown or a numeric parameter is invalid
+   */
+  private validateSlippage = (exchangeSchema: IExchangeSchema) => {
+    const { slippage, exchangeName } = exchangeSchema;
+    const isNonNegative = (value: unknown) =>
+      typeof value === "number" && Number.isFinite(value) && value >= 0;
+    const isOptionalNonNegative = (value: unknown) =>
+      value === undefined || isNonNegative(value);
+    const isOptionalPositiveInteger = (value: unknown) =>
+      value === undefined || (Number.isInteger(value) && (value as number) > 0);
+    if (slippage.method === "fixed") {
+      if (!isNonNegative(slippage.percent)) {
+        throw new Error(
+          `exchange schema validation failed: slippage.percent must be a non-negative number for exchangeName=${exchangeName}`
+        );
+      }
+      return;
+    }
+    if (slippage.method === "volume-participation" || slippage.method === "square-root") {
+      if (!isNonNegative(slippage.impact)) {
+        throw new Error(
+          `exchange schema validation failed: slippage.impact must be a non-negative number for exchangeName=${exchangeName}`
+        );
+      }
+      if (!isOptionalNonNegative(slippage.basePercent)) {
+        throw new Error(
+          `exchange schema validation failed: slippage.basePercent must be a non-negative number for exchangeName=${exchangeName}`
+        );
+      }
+      if (!isOptionalPositiveInteger(slippage.candles)) {
+        throw new Error(
+          `exchange schema validation failed: slippage.candles must be a positive integer for exchangeName=${exchangeName}`
+        );
+      }
+      return;
+    }
+    if (slippage.method === "order-book") {
+      if (!isOptionalPositiveInteger(slippage.depth)) {
+        throw new Error(
+          `exchange schema validation failed: slippage.depth must be a positive integer for exchangeName=${exchangeName}`
+        );
+      }
+      if (!isOptionalNonNegative(slippage.fallbackPercent)) {
+        throw new Error(
+          `exchange schema validation failed: slippage.fallbackPercent must be a non-negative number for exchangeName=${exchangeName}`
+        );
+      }
+      return;
+    }
+    throw new Error(
+      `exchange schema validation failed: unknown slippage method=${(slippage as { method: unknown }).method} for exchangeName=${exchangeName}`
+    );
   };
 
   /**
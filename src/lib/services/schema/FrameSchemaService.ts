@@ -41,6 +41,7 @@ export class FrameSchemaService {
    * @throws Error if interval is missing or not a valid FrameInterval
    * @throws Error if startDate is missing or not a Date
    * @throws Error if endDate is missing or not a Date
+   * @throws Error if benchmark is neither "buy-and-hold" nor { symbol }
    */
   private validateShallow = (frameSchema: IFrameSchema) => {
     this.loggerService.log(`frameSchemaService validateShallow`, {
@@ -70,6 +71,18 @@ export class FrameSchemaService {
         `frame schema validation failed: missing endDate for frameName=${frameSchema.frameName}`
       );
     }
+
+    if (
+      frameSchema.benchmark !== undefined &&
+      frameSchema.benchmark !== "buy-and-hold" &&
+      (typeof frameSchema.benchmark !== "object" ||
+        typeof frameSchema.benchmark.symbol !== "string" ||
+        !frameSchema.benchmark.symbol)
+    ) {
+      throw new Error(
+        `frame schema validation failed: benchmark must be "buy-and-hold" or { symbol } for frameName=${frameSchema.frameName}`
+      );
+    }
   };
 
   /**
@@ -77,6 +77,27 @@ export class SizingSchemaService {
         );
       }
     }
+
+    if (sizingSchema.method === "volatility-target") {
+      if (typeof sizingSchema.targetVolatility !== "number" || sizingSchema.targetVolatility <= 0) {
+        throw new Error(
+          `sizing schema validation failed: targetVolatility must be a positive number for volatility-target sizing (sizingName=${sizingName})`
+        );
+      }
+    }
+
+    if (sizingSchema.method === "volatility-target" || sizingSchema.method === "risk-parity") {
+      if (!Number.isInteger(sizingSchema.lookback) || sizingSchema.lookback < 2) {
+        throw new Error(
+          `sizing schema validation failed: lookback must be an integer of at least 2 for ${sizingSchema.method} sizing (sizingName=${sizingName})`
+        );
+      }
+      if (typeof sizingSchema.interval !== "string") {
+        throw new Error(
+          `sizing schema validation failed: missing interval for ${sizingSchema.method} sizing (sizingName=${sizingName})`
+        );
+      }
+    }
   };
 
   /**
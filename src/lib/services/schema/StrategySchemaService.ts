@@ -43,8 +43,12 @@ export class StrategySchemaService {
    * @throws Error if actions is provided but not an array
    * @throws Error if actions contains duplicate values
    * @throws Error if actions contains non-string values
+   * @throws Error if allocatorName is provided but not a string
+   * @throws Error if sizingName is provided but not a string
    * @throws Error if interval is missing or not a valid SignalInterval
    * @throws Error if getSignal is missing or not a function
+   * @throws Error if fillModel is provided but not a valid StrategyFillModel
+   * @throws Error if latency is provided but not a function
    */
   private validateShallow = (strategySchema: IStrategySchema) => {
     this.loggerService.log(`strategySchemaService validateShallow`, {
@@ -105,6 +109,18 @@ export class StrategySchemaService {
       );
     }
 
+    if (strategySchema.allocatorName && typeof strategySchema.allocatorName !== "string") {
+      throw new Error(
+        `strategy schema validation failed: invalid allocatorName for strategyName=${strategySchema.strategyName}`
+      );
+    }
+
+    if (strategySchema.sizingName && typeof strategySchema.sizingName !== "string") {
+      throw new Error(
+        `strategy schema validation failed: invalid sizingName for strategyName=${strategySchema.strategyName}`
+      );
+    }
+
     if (strategySchema.interval && typeof strategySchema.interval !== "string") {
       throw new Error(
         `strategy schema validation failed: invalid interval for strategyName=${strategySchema.strategyName}`
@@ -116,6 +132,83 @@ export class StrategySchemaService {
         `strategy schema validation failed: missing getSignal for strategyName=${strategySchema.strategyName}`
       );
     }
+
+    if (strategySchema.getTargetWeights && typeof strategySchema.getTargetWeights !== "function") {
+      throw new Error(
+        `strategy schema validation failed: getTargetWeights must be a function for strategyName=${strategySchema.strategyName}`
+      );
+    }
+
+    if (
+      strategySchema.driftThreshold !== undefined &&
+      (typeof strategySchema.driftThreshold !== "number" || !isFinite(strategySchema.driftThreshold) || strategySchema.driftThreshold < 0)
+    ) {
+      throw new Error(
+        `strategy schema validation failed: driftThreshold must be a non-negative number for strategyName=${strategySchema.strategyName} driftThreshold=${strategySchema.driftThreshold}`
+      );
+    }
+
+    if (
+      strategySchema.fillModel &&
+      !["vwap", "wick", "pessimistic", "tick"].includes(strategySchema.fillModel)
+    ) {
+      throw new Error(
+        `strategy schema validation failed: invalid fillModel for strategyName=${strategySchema.strategyName} fillModel=${strategySchema.fillModel}`
+      );
+    }
+
+    if (strategySchema.latency && typeof strategySchema.latency !== "function") {
+      throw new Error(
+        `strategy schema validation failed: latency must be a function for strategyName=${strategySchema.strategyName}`
+      );
+    }
+
+    for (const [name, param] of Object.entries(strategySchema.params ?? {})) {
+      if (param.type === "number" || param.type === "integer") {
+        if (
+          !isFinite(param.min) ||
+          !isFinite(param.max) ||
+          param.min > param.max ||
+          (param.step !== undefined && (!isFinite(param.step) || param.step <= 0)) ||
+          (param.type === "integer" && (!Number.isInteger(param.min) || !Number.isInteger(param.max))) ||
+          typeof param.default !== "number" ||
+          param.default < param.min ||
+          param.default > param.max
+        ) {
+          throw new Error(
+            `strategy schema validation failed: invalid ${param.type} param ${name} for strategyName=${strategySchema.strategyName}`
+          );
+        }
+        continue;
+      }
+      if (param.type === "boolean") {
+        if (typeof param.default !== "boolean") {
+          throw new Error(
+            `strategy schema validation failed: invalid boolean param ${name} for strategyName=${strategySchema.strategyName}`
+          );
+        }
+        continue;
+      }
+      if (param.type === "choice") {
+        if (!Array.isArray(param.values) || !param.values.length || !param.values.includes(param.default)) {
+          throw new Error(
+            `strategy schema validation failed: choice param ${name} must list its default in values for strategyName=${strategySchema.strategyName}`
+          );
+        }
+        continue;
+      }
+      throw new Error(
+        `strategy schema validation failed: unknown param type for ${name} for strategyName=${strategySchema.strategyName}`
+      );
+    }
+
+    for (const name of Object.keys(strategySchema.paramValues ?? {})) {
+      if (!strategySchema.params?.[name]) {
+        throw new Error(
+          `strategy schema validation failed: paramValues.${name} is not declared in params for strategyName=${strategySchema.strategyName}`
+        );
+      }
+    }
   };
 
   /**
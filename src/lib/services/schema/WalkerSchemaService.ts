@@ -90,6 +90,25 @@ export class WalkerSchemaService {
         `walker schema validation failed: invalid strategies for walkerName=${walkerSchema.walkerName} strategies=[${walkerSchema.strategies}]`
       );
     }
+
+    if (walkerSchema.walkForward) {
+      const { mode, trainMinutes, testMinutes } = walkerSchema.walkForward;
+      if (mode !== "rolling" && mode !== "anchored") {
+        throw new Error(
+          `walker schema validation failed: walkForward.mode must be "rolling" or "anchored" for walkerName=${walkerSchema.walkerName}`
+        );
+      }
+      if (!Number.isFinite(trainMinutes) || trainMinutes <= 0) {
+        throw new Error(
+          `walker schema validation failed: walkForward.trainMinutes must be a positive number for walkerName=${walkerSchema.walkerName}`
+        );
+      }
+      if (!Number.isFinite(testMinutes) || testMinutes <= 0) {
+        throw new Error(
+          `walker schema validation failed: walkForward.testMinutes must be a positive number for walkerName=${walkerSchema.walkerName}`
+        );
+      }
+    }
   };
 
   /**
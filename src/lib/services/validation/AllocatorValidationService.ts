@@ -0,0 +1,111 @@
+import { inject } from "../../core/di";
+import { TLoggerService } from "../base/LoggerService";
+import TYPES from "../../core/types";
+import { AllocatorName, IAllocatorSchema } from "../../../interfaces/Allocator.interface";
+import { StrategyName } from "../../../interfaces/Strategy.interface";
+import { memoize } from "functools-kit";
+
+/**
+ * Service for managing and validating capital allocator configurations.
+ *
+ * Maintains a registry of all configured allocators and validates
+ * their existence before operations. Uses memoization for performance.
+ *
+ * Key features:
+ * - Registry management: addAllocator() to register new allocators
+ * - Validation: validate() ensures allocator exists before use
+ * - Memoization: validation results are cached for performance
+ * - Listing: list() returns all registered allocators
+ *
+ * @throws {Error} If duplicate allocator name is added
+ * @throws {Error} If unknown allocator is referenced
+ *
+ * @example
+ * ```typescript
+ * const allocatorValidation = new AllocatorValidationService();
+ * allocatorValidation.addAllocator("core-satellite", fixedWeightSchema);
+ * allocatorValidation.validate("core-satellite", "strategy-1"); // OK
+ * allocatorValidation.validate("unknown", "strategy-2"); // Throws error
+ * ```
+ */
+export class AllocatorValidationService {
+  /**
+   * @private
+   * @readonly
+   * Injected logger service instance
+   */
+  private readonly loggerService = inject<TLoggerService>(TYPES.loggerService);
+
+  /**
+   * @private
+   * Map storing allocator schemas by allocator name
+   */
+  private _allocatorMap = new Map<AllocatorName, IAllocatorSchema>();
+
+  /**
+   * Adds an allocator schema to the validation service
+   * @public
+   * @throws {Error} If allocatorName already exists
+   */
+  public addAllocator = (allocatorName: AllocatorName, allocatorSchema: IAllocatorSchema): void => {
+    this.loggerService.log("allocatorValidationService addAllocator", {
+      allocatorName,
+      allocatorSchema,
+    });
+    if (this._allocatorMap.has(allocatorName)) {
+      throw new Error(`allocator ${allocatorName} already exist`);
+    }
+    this._allocatorMap.set(allocatorName, allocatorSchema);
+  };
+
+  /**
+   * Validates the existence of an allocator and optionally that it manages a strategy
+   * @public
+   * @throws {Error} If allocatorName is not found
+   * @throws {Error} If strategyName is provided but not listed in the allocator weights or strategies
+   * Memoized function to cache validation results
+   */
+  public validate = memoize(
+    ([allocatorName, source, strategyName]) => `${allocatorName}:${source}:${strategyName || ""}`,
+    (allocatorName: AllocatorName, source: string, strategyName?: StrategyName): void => {
+      this.loggerService.log("allocatorValidationService validate", {
+        allocatorName,
+        source,
+        strategyName,
+      });
+      const allocator = this._allocatorMap.get(allocatorName);
+      if (!allocator) {
+        throw new Error(
+          `allocator ${allocatorName} not found source=${source}`
+        );
+      }
+      if (strategyName !== undefined) {
+        const strategies = allocator.method === "fixed-weight"
+          ? Object.keys(allocator.weights)
+          : allocator.strategies;
+        if (!strategies.includes(strategyName)) {
+          throw new Error(
+            `allocator ${allocatorName} does not manage strategy ${strategyName} source=${source}`
+          );
+        }
+      }
+      return true as never;
+    }
+  ) as (allocatorName: AllocatorName, source: string, strategyName?: StrategyName) => void;
+
+  /**
+   * Returns a list of all registered allocator schemas
+   * @public
+   * @returns Array of allocator schemas with their configurations
+   */
+  public list = async (): Promise<IAllocatorSchema[]> => {
+    this.loggerService.log("allocatorValidationService list");
+    return Array.from(this._allocatorMap.values());
+  };
+}
+
+/**
+ * @exports AllocatorValidationService
+ * Default export of AllocatorValidationService class
+ */
+export default AllocatorValidationService;
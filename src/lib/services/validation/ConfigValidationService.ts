@@ -66,6 +66,14 @@ export class ConfigValidationService {
       errors.push(`CC_PERCENT_FEE must be a non-negative number, got ${GLOBAL_CONFIG.CC_PERCENT_FEE}`);
     }
 
+    if (!Number.isFinite(GLOBAL_CONFIG.CC_MAINTENANCE_MARGIN_PERCENT) || GLOBAL_CONFIG.CC_MAINTENANCE_MARGIN_PERCENT < 0 || GLOBAL_CONFIG.CC_MAINTENANCE_MARGIN_PERCENT >= 100) {
+      errors.push(`CC_MAINTENANCE_MARGIN_PERCENT must be a number in [0, 100), got ${GLOBAL_CONFIG.CC_MAINTENANCE_MARGIN_PERCENT}`);
+    }
+
+    if (!Number.isFinite(GLOBAL_CONFIG.CC_CROSS_MARGIN_WALLET_BALANCE) || GLOBAL_CONFIG.CC_CROSS_MARGIN_WALLET_BALANCE < 0) {
+      errors.push(`CC_CROSS_MARGIN_WALLET_BALANCE must be a non-negative number, got ${GLOBAL_CONFIG.CC_CROSS_MARGIN_WALLET_BALANCE}`);
+    }
+
     if (!Number.isFinite(GLOBAL_CONFIG.CC_BREAKEVEN_THRESHOLD) || GLOBAL_CONFIG.CC_BREAKEVEN_THRESHOLD < 0) {
       errors.push(`CC_BREAKEVEN_THRESHOLD must be a non-negative number, got ${GLOBAL_CONFIG.CC_BREAKEVEN_THRESHOLD}`);
     }
@@ -146,6 +154,30 @@ export class ConfigValidationService {
       );
     }
 
+    if (!["vwap", "wick", "pessimistic", "tick"].includes(GLOBAL_CONFIG.CC_BACKTEST_FILL_MODEL)) {
+      errors.push(
+        `CC_BACKTEST_FILL_MODEL must be one of "vwap", "wick", "pessimistic", "tick", got ${GLOBAL_CONFIG.CC_BACKTEST_FILL_MODEL}`
+      );
+    }
+
+    if (!Number.isFinite(GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT) || GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT < 0 || GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT > 100) {
+      errors.push(
+        `CC_BACKTEST_MAX_VOLUME_PERCENT must be a number in [0, 100], got ${GLOBAL_CONFIG.CC_BACKTEST_MAX_VOLUME_PERCENT}`
+      );
+    }
+
+    if (!Number.isInteger(GLOBAL_CONFIG.CC_BACKTEST_FILL_TIMEOUT_MINUTES) || GLOBAL_CONFIG.CC_BACKTEST_FILL_TIMEOUT_MINUTES <= 0) {
+      errors.push(
+        `CC_BACKTEST_FILL_TIMEOUT_MINUTES must be a positive integer, got ${GLOBAL_CONFIG.CC_BACKTEST_FILL_TIMEOUT_MINUTES}`
+      );
+    }
+
+    if (!Number.isInteger(GLOBAL_CONFIG.CC_MAX_CANDLE_GAP_MINUTES) || GLOBAL_CONFIG.CC_MAX_CANDLE_GAP_MINUTES < 0) {
+      errors.push(
+        `CC_MAX_CANDLE_GAP_MINUTES must be a non-negative integer, got ${GLOBAL_CONFIG.CC_MAX_CANDLE_GAP_MINUTES}`
+      );
+    }
+
     if (!Number.isInteger(GLOBAL_CONFIG.CC_GET_CANDLES_RETRY_COUNT) || GLOBAL_CONFIG.CC_GET_CANDLES_RETRY_COUNT < 0) {
       errors.push(
         `CC_GET_CANDLES_RETRY_COUNT must be a non-negative integer, got ${GLOBAL_CONFIG.CC_GET_CANDLES_RETRY_COUNT}`
@@ -195,6 +227,64 @@ export class ConfigValidationService {
       );
     }
 
+    // Validate portfolio ledger parameters
+    if (!Number.isFinite(GLOBAL_CONFIG.CC_PORTFOLIO_STARTING_CAPITAL) || GLOBAL_CONFIG.CC_PORTFOLIO_STARTING_CAPITAL <= 0) {
+      errors.push(
+        `CC_PORTFOLIO_STARTING_CAPITAL must be a positive number, got ${GLOBAL_CONFIG.CC_PORTFOLIO_STARTING_CAPITAL}`
+      );
+    }
+
+    if (!Number.isInteger(GLOBAL_CONFIG.CC_MAX_PORTFOLIO_EQUITY_POINTS) || GLOBAL_CONFIG.CC_MAX_PORTFOLIO_EQUITY_POINTS <= 0) {
+      errors.push(
+        `CC_MAX_PORTFOLIO_EQUITY_POINTS must be a positive integer, got ${GLOBAL_CONFIG.CC_MAX_PORTFOLIO_EQUITY_POINTS}`
+      );
+    }
+
+    // Validate reporting currency parameters
+    if (typeof GLOBAL_CONFIG.CC_REPORTING_CURRENCY !== "string") {
+      errors.push(
+        `CC_REPORTING_CURRENCY must be a string, got ${GLOBAL_CONFIG.CC_REPORTING_CURRENCY}`
+      );
+    }
+
+    if (
+      !Array.isArray(GLOBAL_CONFIG.CC_QUOTE_CURRENCIES) ||
+      GLOBAL_CONFIG.CC_QUOTE_CURRENCIES.some((currency) => typeof currency !== "string" || !currency)
+    ) {
+      errors.push(
+        `CC_QUOTE_CURRENCIES must be an array of non-empty strings, got ${GLOBAL_CONFIG.CC_QUOTE_CURRENCIES}`
+      );
+    }
+
+    if (
+      GLOBAL_CONFIG.CC_REPORTING_CURRENCY &&
+      Array.isArray(GLOBAL_CONFIG.CC_QUOTE_CURRENCIES) &&
+      !GLOBAL_CONFIG.CC_QUOTE_CURRENCIES.includes(GLOBAL_CONFIG.CC_REPORTING_CURRENCY)
+    ) {
+      errors.push(
+        `CC_REPORTING_CURRENCY ${GLOBAL_CONFIG.CC_REPORTING_CURRENCY} must be listed in CC_QUOTE_CURRENCIES`
+      );
+    }
+
+    if (!Number.isFinite(GLOBAL_CONFIG.CC_CONVERSION_RETRY_MINUTES) || GLOBAL_CONFIG.CC_CONVERSION_RETRY_MINUTES < 0) {
+      errors.push(
+        `CC_CONVERSION_RETRY_MINUTES must be a non-negative number, got ${GLOBAL_CONFIG.CC_CONVERSION_RETRY_MINUTES}`
+      );
+    }
+
+    if (!Number.isInteger(GLOBAL_CONFIG.CC_CONVERSION_MAX_PROBES) || GLOBAL_CONFIG.CC_CONVERSION_MAX_PROBES <= 0) {
+      errors.push(
+        `CC_CONVERSION_MAX_PROBES must be a positive integer, got ${GLOBAL_CONFIG.CC_CONVERSION_MAX_PROBES}`
+      );
+    }
+
+    // Validate sizing parameters
+    if (!Number.isInteger(GLOBAL_CONFIG.CC_SIZING_KELLY_LOOKBACK) || GLOBAL_CONFIG.CC_SIZING_KELLY_LOOKBACK <= 0) {
+      errors.push(
+        `CC_SIZING_KELLY_LOOKBACK must be a positive integer, got ${GLOBAL_CONFIG.CC_SIZING_KELLY_LOOKBACK}`
+      );
+    }
+
     // Throw aggregated errors if any
     if (errors.length > 0) {
       const errorMessage = `GLOBAL_CONFIG validation failed:\n${errors.map((e, i) => `  ${i + 1}. ${e}`).join('\n')}`;
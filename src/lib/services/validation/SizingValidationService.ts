@@ -1,7 +1,7 @@
 import { inject } from "../../core/di";
 import { TLoggerService } from "../base/LoggerService";
 import TYPES from "../../core/types";
-import { SizingName, ISizingSchema } from "../../../interfaces/Sizing.interface";
+import { SizingName, SizingMethod, ISizingSchema } from "../../../interfaces/Sizing.interface";
 import { memoize } from "functools-kit";
 
 /**
@@ -66,7 +66,7 @@ export class SizingValidationService {
    */
   public validate = memoize(
     ([sizingName, source, method]) => `${sizingName}:${source}:${method || ""}`,
-    (sizingName: SizingName, source: string, method?: "fixed-percentage" | "kelly-criterion" | "atr-based"): void => {
+    (sizingName: SizingName, source: string, method?: SizingMethod): void => {
       this.loggerService.log("sizingValidationService validate", {
         sizingName,
         source,
@@ -85,7 +85,7 @@ export class SizingValidationService {
       }
       return true as never;
     }
-  ) as (sizingName: SizingName, source: string, method?: "fixed-percentage" | "kelly-criterion" | "atr-based") => void;
+  ) as (sizingName: SizingName, source: string, method?: SizingMethod) => void;
 
   /**
    * Returns a list of all registered sizing schemas
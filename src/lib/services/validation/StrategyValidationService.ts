@@ -5,6 +5,8 @@ import { StrategyName, IStrategySchema } from "../../../interfaces/Strategy.inte
 import { memoize } from "functools-kit";
 import RiskValidationService from "./RiskValidationService";
 import ActionValidationService from "./ActionValidationService";
+import AllocatorValidationService from "./AllocatorValidationService";
+import SizingValidationService from "./SizingValidationService";
 
 /**
  * Service for managing and validating trading strategy configurations.
@@ -58,6 +60,20 @@ export class StrategyValidationService {
    */
   private readonly actionValidationService = inject<ActionValidationService>(TYPES.actionValidationService);
 
+  /**
+   * @private
+   * @readonly
+   * Injected allocator validation service instance
+   */
+  private readonly allocatorValidationService = inject<AllocatorValidationService>(TYPES.allocatorValidationService);
+
+  /**
+   * @private
+   * @readonly
+   * Injected sizing validation service instance
+   */
+  private readonly sizingValidationService = inject<SizingValidationService>(TYPES.sizingValidationService);
+
   /**
    * @private
    * Map storing strategy schemas by strategy name
@@ -87,6 +103,8 @@ export class StrategyValidationService {
    * @throws {Error} If riskName is configured but not found
    * @throws {Error} If riskList contains invalid risk names
    * @throws {Error} If actions list contains invalid action names
+   * @throws {Error} If allocatorName is configured but not found or does not list the strategy
+   * @throws {Error} If sizingName is configured but not found
    * Memoized function to cache validation results
    */
   public validate = memoize(
@@ -117,6 +135,16 @@ export class StrategyValidationService {
         strategy.actions.forEach((actionName) => this.actionValidationService.validate(actionName, source));
       }
 
+      // Validate allocator membership if configured
+      if (strategy.allocatorName) {
+        this.allocatorValidationService.validate(strategy.allocatorName, source, strategyName);
+      }
+
+      // Validate sizing schema if configured
+      if (strategy.sizingName) {
+        this.sizingValidationService.validate(strategy.sizingName, source);
+      }
+
       return true as never;
     }
   ) as (strategyName: StrategyName, source: string) => void;
@@ -0,0 +1,25 @@
+/** Abramowitz-Stegun 7.1.26 coefficients of the error function (max error 1.5e-7) */
+const ERF_P = 0.3275911;
+const ERF_A = [0.254829592, -0.284496736, 1.421413741, -1.453152027, 1.061405429];
+
+/**
+ * Compute the standard normal cumulative distribution function Φ(x).
+ *
+ * Used by the overfitting and significance statistics of walker reports.
+ *
+ * @param x - Point to evaluate
+ * @returns Probability that a standard normal variable is at most x
+ *
+ * @example
+ * normalCdf(0); // 0.5
+ * normalCdf(1.96); // ≈ 0.975
+ */
+export const normalCdf = (x: number): number => {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + ERF_P * z);
+  const polynomial = ERF_A.reduceRight((acc, coefficient) => acc * t + coefficient, 0) * t;
+  const erf = 1 - polynomial * Math.exp(-z * z);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+export default normalCdf;
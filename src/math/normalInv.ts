@@ -0,0 +1,46 @@
+/** Acklam's rational approximation coefficients (relative error 1.15e-9) */
+const A = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+const B = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+const C = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+const D = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+
+/** Boundary between the central and the tail approximation */
+const P_LOW = 0.02425;
+
+/**
+ * Evaluates a polynomial with coefficients from the highest degree down.
+ */
+const POLYNOMIAL_FN = (coefficients: number[], x: number): number =>
+  coefficients.reduce((acc, coefficient) => acc * x + coefficient, 0);
+
+/**
+ * Compute the inverse of the standard normal cumulative distribution function Φ⁻¹(p).
+ *
+ * @param p - Probability in (0, 1)
+ * @returns x such that Φ(x) = p; -Infinity for p ≤ 0 and Infinity for p ≥ 1
+ *
+ * @example
+ * normalInv(0.5); // 0
+ * normalInv(0.975); // ≈ 1.96
+ */
+export const normalInv = (p: number): number => {
+  if (p <= 0) {
+    return -Infinity;
+  }
+  if (p >= 1) {
+    return Infinity;
+  }
+  if (p < P_LOW) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return POLYNOMIAL_FN(C, q) / (POLYNOMIAL_FN(D, q) * q + 1);
+  }
+  if (p > 1 - P_LOW) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -POLYNOMIAL_FN(C, q) / (POLYNOMIAL_FN(D, q) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (POLYNOMIAL_FN(A, r) * q) / (POLYNOMIAL_FN(B, r) * r + 1);
+};
+
+export default normalInv;
@@ -0,0 +1,24 @@
+import {
+  AllocatorName,
+  IAllocation,
+  IAllocationSnapshot,
+  IAllocatorSchema,
+} from "../interfaces/Allocator.interface";
+
+/**
+ * Capital allocation statistics structure.
+ * Strategy budgets and their usage for one allocator of a run.
+ */
+export interface AllocationStatisticsModel {
+  /** Allocator identifier */
+  allocatorName: AllocatorName;
+
+  /** Allocation method of the allocator schema */
+  method: IAllocatorSchema["method"];
+
+  /** Current budget and usage of every strategy */
+  allocations: IAllocation[];
+
+  /** Allocation snapshots recorded on rebalances and sized signals, oldest first */
+  history: IAllocationSnapshot[];
+}
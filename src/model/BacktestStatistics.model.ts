@@ -42,6 +42,9 @@ export interface BacktestStatisticsModel {
   /** Cumulative PNL across all signals as percentage, null if unsafe. Higher is better. */
   totalPnl: number | null;
 
+  /** Cumulative PNL in the reporting currency (CC_REPORTING_CURRENCY, quote currency when disabled), null if unsafe or only some trades were converted. Higher is better. */
+  totalPnlCost: number | null;
+
   /** Standard deviation of returns (volatility metric), null if unsafe. Lower is better. */
   stdDev: number | null;
 
@@ -111,4 +114,23 @@ export interface BacktestStatisticsModel {
   trendStrength: number | null;
   /** R² of the log-price regression, in [0, 1]. */
   trendConfidence: number | null;
+
+  /** Benchmark symbol from the frame schema, null if the frame has no benchmark. */
+  benchmarkSymbol: string | null;
+  /** Buy-and-hold return of the benchmark over the frame window, in %. */
+  benchmarkReturn: number | null;
+  /** Compounded strategy return minus benchmarkReturn, in percentage points. Higher is better. */
+  excessReturn: number | null;
+  /** Per-trade alpha versus the benchmark (mean PNL − beta × mean benchmark return), in %. Higher is better. */
+  alpha: number | null;
+  /** Sensitivity of per-trade PNL to the benchmark return over the same holding window. */
+  beta: number | null;
+  /** Mean per-trade excess over the benchmark / its standard deviation. Higher is better. */
+  informationRatio: number | null;
+  /** Pearson correlation of per-trade PNL with the benchmark return, in [-1, 1]. */
+  correlation: number | null;
+  /** Share of benchmark up-moves captured by the strategy, in %. Higher is better. */
+  upCapture: number | null;
+  /** Share of benchmark down-moves captured by the strategy, in %. Lower is better. */
+  downCapture: number | null;
 }
@@ -13,6 +13,8 @@ export interface HeatmapStatisticsModel {
 
   /** Portfolio-wide total PNL */
   portfolioTotalPnl: number | null;
+  /** Portfolio-wide total PNL in the reporting currency (CC_REPORTING_CURRENCY, quote currency when disabled), null if only some trades were converted */
+  portfolioTotalPnlCost: number | null;
 
   /** Portfolio-wide Sharpe Ratio */
   portfolioSharpeRatio: number | null;
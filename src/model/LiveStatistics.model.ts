@@ -39,6 +39,18 @@ export interface TickEvent {
   pnlCost?: number;
   /** Total invested capital in USD */
   pnlEntries?: number;
+  /** Fees paid on entry fills in USD (only for closed) */
+  feeOpenCost?: number;
+  /** Fees paid on exit fills in USD (only for closed) */
+  feeCloseCost?: number;
+  /** Slippage cost in USD across entry and exit fills (only for closed) */
+  slippageCost?: number;
+  /** Funding accrued on a perpetual position in USD, positive = paid (only for closed) */
+  fundingCost?: number;
+  /** Leverage of the position (only for closed leveraged positions) */
+  leverage?: number;
+  /** Return on margin percentage (only for closed leveraged positions) */
+  pnlMarginPercentage?: number;
   /** Percentage progress towards take profit (only for active/waiting) */
   percentTp?: number;
   /** Percentage progress towards stop loss (only for active/waiting) */
@@ -0,0 +1,54 @@
+import { MonteCarloMethod } from "../interfaces/MonteCarlo.interface";
+
+/**
+ * Distribution of one metric over the resampled paths.
+ * Summary fields are null when no path produced a value.
+ */
+export interface IMonteCarloDistribution {
+  /** Value of the original signal order, null if unavailable */
+  actual: number | null;
+  /** Mean over the paths */
+  mean: number | null;
+  /** Sample standard deviation over the paths */
+  stdDev: number | null;
+  /** 5th percentile */
+  p5: number | null;
+  /** 25th percentile */
+  p25: number | null;
+  /** Median */
+  p50: number | null;
+  /** 75th percentile */
+  p75: number | null;
+  /** 95th percentile */
+  p95: number | null;
+  /** Value of every path that produced one, ascending */
+  values: number[];
+}
+
+/**
+ * Monte Carlo resampling of the closed signals of a backtest.
+ */
+export interface MonteCarloStatisticsModel {
+  /** Resampling method */
+  method: MonteCarloMethod;
+  /** Number of resampled paths */
+  simulations: number;
+  /** Seed of the random sampler */
+  seed: number;
+  /** Block length in signals, null unless method is "block" */
+  blockSize: number | null;
+  /** Closed signals resampled on every path */
+  totalSignals: number;
+  /** Equity drawdown in percent counted as ruin */
+  ruinDrawdown: number;
+  /** Sum of per-trade PNL, percent */
+  totalPnl: IMonteCarloDistribution;
+  /** Max drawdown of the compounded equity curve with intra-trade troughs, percent */
+  maxDrawdown: IMonteCarloDistribution;
+  /** Per-trade Sharpe ratio (avgPnl / stdDev), paths below 10 signals are skipped */
+  sharpeRatio: IMonteCarloDistribution;
+  /** Longest run of consecutive losing trades */
+  maxLosingStreak: IMonteCarloDistribution;
+  /** Share of paths whose max drawdown reached ruinDrawdown, percent (0-100), null without signals */
+  riskOfRuin: number | null;
+}
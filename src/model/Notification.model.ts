@@ -2,6 +2,7 @@ import { IStrategyPnL, StrategyName } from "../interfaces/Strategy.interface";
 import { PartialLevel } from "../interfaces/Partial.interface";
 import { ExchangeName } from "../interfaces/Exchange.interface";
 import { FrameName } from "../interfaces/Frame.interface";
+import { CircuitTripRule } from "../contract/CircuitTrip.contract";
 
 /**
  * Signal opened notification.
@@ -2308,6 +2309,36 @@ export interface StrategyPauseNotification {
   createdAt: number;
 }
 
+/**
+ * Circuit breaker trip notification (critical).
+ * Emitted when an account-level circuit breaker rule trips: every live strategy of
+ * the exchange is paused (and flattened when configured) until CircuitBreaker.reset().
+ */
+export interface CircuitTripNotification {
+  /** Discriminator for type-safe union */
+  type: "circuit.trip";
+  /** Unique notification identifier */
+  id: string;
+  /** Unix timestamp in milliseconds when the breaker tripped */
+  timestamp: number;
+  /** Always false: the circuit breaker watches live trading only */
+  backtest: boolean;
+  /** Exchange account whose trading was stopped */
+  exchangeName: ExchangeName;
+  /** Rule that tripped */
+  rule: CircuitTripRule;
+  /** Human-readable reason with the measured value and the limit */
+  note: string;
+  /** Measured value of the rule, null for a manual trip */
+  value: number | null;
+  /** Configured limit of the rule, null for a manual trip */
+  limit: number | null;
+  /** Whether open positions were closed through the broker */
+  flatten: boolean;
+  /** Unix timestamp in milliseconds when the notification was created */
+  createdAt: number;
+}
+
 /**
  * Cancel scheduled commit notification.
  * Emitted when a scheduled signal is cancelled before activation.
@@ -2638,6 +2669,7 @@ export type NotificationModel =
   | CriticalErrorNotification
   | ValidationErrorNotification
   | StrategyPauseNotification
+  | CircuitTripNotification
   | SignalInfoNotification;
 
 export default NotificationModel;
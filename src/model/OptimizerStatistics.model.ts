@@ -0,0 +1,64 @@
+import { BacktestStatisticsModel } from "./BacktestStatistics.model";
+import { OverfittingStatisticsModel } from "./OverfittingStatistics.model";
+import { StrategyName, StrategyParams } from "../interfaces/Strategy.interface";
+import { ExchangeName } from "../interfaces/Exchange.interface";
+import { FrameName } from "../interfaces/Frame.interface";
+import { WalkerMetric } from "../interfaces/Walker.interface";
+import { OptimizerMethod } from "../interfaces/Optimizer.interface";
+
+/**
+ * Single parameter combination evaluated by the optimizer.
+ */
+export interface IOptimizerCandidate {
+  /** Derived strategy registered for this combination, e.g. "ema-cross(fastPeriod=10)" */
+  strategyName: StrategyName;
+  /** Parameter values of the combination */
+  params: StrategyParams;
+  /** Metric value of the last backtest, null if unavailable */
+  metricValue: number | null;
+  /** Statistics of the last backtest, null if the backtest failed */
+  stats: BacktestStatisticsModel | null;
+  /** Last successive-halving rung the candidate reached (always 0 for grid and random) */
+  rung: number;
+  /** Position in the leaderboard, starting from 1 */
+  rank: number;
+  /** Error message if the backtest failed */
+  error?: string;
+}
+
+/**
+ * Result of an optimizer run.
+ * Candidates are ranked by rung (descending), then by metric (descending).
+ */
+export interface OptimizerStatisticsModel {
+  /** Trading pair symbol */
+  symbol: string;
+  /** Base strategy declaring the parameters */
+  strategyName: StrategyName;
+  /** Exchange used for backtesting */
+  exchangeName: ExchangeName;
+  /** Frame used for backtesting */
+  frameName: FrameName;
+  /** Search method */
+  method: OptimizerMethod;
+  /** Metric used to rank candidates */
+  metric: WalkerMetric;
+  /** Seed of the random sampler */
+  seed: number;
+  /** Number of evaluated combinations */
+  totalCandidates: number;
+  /** Derived strategy of the winner, null if no candidate produced a metric */
+  bestStrategy: StrategyName | null;
+  /** Parameter values of the winner, null if no candidate produced a metric */
+  bestParams: StrategyParams | null;
+  /** Metric value of the winner, null if no candidate produced a metric */
+  bestMetric: number | null;
+  /** Leaderboard of every evaluated combination */
+  candidates: IOptimizerCandidate[];
+  /**
+   * Deflated Sharpe ratio of the winner and probability of backtest overfitting.
+   * For halving only the candidates of the last rung share a frame, so the
+   * signal histories come from them while the trials count every candidate.
+   */
+  overfitting: OverfittingStatisticsModel;
+}
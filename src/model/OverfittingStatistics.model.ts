@@ -0,0 +1,30 @@
+import { StrategyName } from "../interfaces/Strategy.interface";
+
+/**
+ * Overfitting diagnostics of picking the best of many candidates
+ * (walker strategies or optimizer parameter combinations).
+ */
+export interface OverfittingStatisticsModel {
+  /** Number of candidates the winner was picked from */
+  trials: number;
+  /** Selected candidate whose Sharpe ratio is deflated, null if none */
+  strategyName: StrategyName | null;
+  /** Per-trade Sharpe ratio of the selected candidate, null below 10 signals */
+  sharpeRatio: number | null;
+  /** Skewness of the selected candidate's per-trade PNL */
+  skewness: number | null;
+  /** Kurtosis of the selected candidate's per-trade PNL (normal = 3) */
+  kurtosis: number | null;
+  /** Variance of the per-trade Sharpe ratio across candidates, null below 2 Sharpe values */
+  sharpeVariance: number | null;
+  /** Expected maximum Sharpe ratio of `trials` candidates without skill */
+  expectedMaxSharpe: number | null;
+  /** Deflated Sharpe ratio: probability (0-1) that the true Sharpe exceeds expectedMaxSharpe */
+  deflatedSharpe: number | null;
+  /** Number of time blocks the signal histories are split into for CSCV */
+  partitions: number;
+  /** Number of train/test combinations that selected a winner */
+  combinations: number;
+  /** Probability of backtest overfitting (0-1), null below 2 candidates with signals */
+  pbo: number | null;
+}
@@ -0,0 +1,46 @@
+import {
+  IPortfolioEquityPoint,
+  IPortfolioPosition,
+} from "../interfaces/Portfolio.interface";
+
+/**
+ * Portfolio ledger statistics structure.
+ * Account-level figures in USD across every symbol and strategy of a run.
+ */
+export interface PortfolioStatisticsModel {
+  /** Starting account balance in USD (CC_PORTFOLIO_STARTING_CAPITAL) */
+  startingCapital: number;
+
+  /** Current account value in USD: cash + positionValue */
+  equity: number;
+
+  /** Free cash in USD available for new positions */
+  cash: number;
+
+  /** Marked-to-market value of open positions in USD */
+  positionValue: number;
+
+  /** Cumulative realized PnL of closed positions in USD */
+  realizedPnl: number;
+
+  /** Unrealized PnL of open positions in USD */
+  unrealizedPnl: number;
+
+  /** Total return percentage: (equity / startingCapital − 1) × 100 */
+  totalReturn: number;
+
+  /** Largest peak-to-trough decline of equity in percent (positive number). Closer to 0 is better. */
+  maxDrawdown: number;
+
+  /** Compound annual growth rate in percent. Null when the curve spans less than 14 days */
+  cagr: number | null;
+
+  /** Currently open positions */
+  openPositions: IPortfolioPosition[];
+
+  /** Number of closed positions */
+  totalTrades: number;
+
+  /** Timestamped equity curve, oldest first (capped by CC_MAX_PORTFOLIO_EQUITY_POINTS) */
+  equityCurve: IPortfolioEquityPoint[];
+}
@@ -0,0 +1,43 @@
+import { StrategyName } from "../interfaces/Strategy.interface";
+import { IRebalanceEvent } from "../interfaces/Rebalance.interface";
+
+/**
+ * Portfolio strategy rebalance statistics.
+ * Drift trades and their turnover costs for one target-weight strategy of a run.
+ *
+ * @example
+ * ```typescript
+ * const stats = await Rebalance.getData({
+ *   strategyName: "index-top2",
+ *   exchangeName: "binance",
+ *   frameName: "frame1"
+ * }, true);
+ *
+ * console.log(`Turnover: ${stats.totalTurnover} USD, fees: ${stats.totalTurnoverCost} USD`);
+ * ```
+ */
+export interface RebalanceStatisticsModel {
+  /** Portfolio strategy identifier */
+  strategyName: StrategyName;
+
+  /** Drift from the target weight in percentage points of equity that triggers a rebalance */
+  driftThreshold: number;
+
+  /** Array of all rebalance events, oldest first */
+  eventList: IRebalanceEvent[];
+
+  /** Total number of events (includes rejected changes) */
+  totalEvents: number;
+
+  /** Number of changes executed by the commit pipeline */
+  totalExecuted: number;
+
+  /** Number of changes rejected by the commit pipeline */
+  totalRejected: number;
+
+  /** Executed traded notional in USD */
+  totalTurnover: number;
+
+  /** Trading fees on the executed notional in USD */
+  totalTurnoverCost: number;
+}
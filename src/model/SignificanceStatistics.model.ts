@@ -0,0 +1,54 @@
+import { StrategyName } from "../interfaces/Strategy.interface";
+
+/**
+ * Pairwise significance tests of the walker leader against one other candidate.
+ * Differences are leader minus candidate, p-values are two-sided.
+ */
+export interface ISignificanceComparison {
+  /** Candidate compared with the leader */
+  strategyName: StrategyName;
+  /** Closed signals of the candidate */
+  totalSignals: number;
+  /** Per-trade Sharpe ratio difference, null below 10 signals on either side */
+  sharpeDiff: number | null;
+  /** Bootstrap p-value of the Sharpe ratio difference */
+  bootstrapPValue: number | null;
+  /** Average per-trade PNL difference, percent */
+  meanDiff: number | null;
+  /** Welch t statistic of the per-trade PNL */
+  welchT: number | null;
+  /** Welch-Satterthwaite degrees of freedom */
+  welchDf: number | null;
+  /** Welch t-test p-value */
+  welchPValue: number | null;
+  /** Cohen's d of the per-trade PNL (pooled standard deviation) */
+  cohensD: number | null;
+  /** Mann-Whitney U statistic of the leader */
+  mannWhitneyU: number | null;
+  /** Mann-Whitney p-value (normal approximation with tie and continuity correction) */
+  mannWhitneyPValue: number | null;
+  /** Rank-biserial correlation (-1..1), positive when leader trades rank higher */
+  rankBiserial: number | null;
+  /** True when all three tests reject at the significance level in the leader's favor */
+  significant: boolean;
+}
+
+/**
+ * Statistical significance of the walker ranking.
+ * The leader is the best strategy by the walker metric; it is only declared
+ * the winner when it beats every other candidate significantly.
+ */
+export interface SignificanceStatisticsModel {
+  /** Best strategy by the walker metric, null if none */
+  leader: StrategyName | null;
+  /** Leader if its difference to every other candidate is significant, null otherwise */
+  winner: StrategyName | null;
+  /** Significance level of the tests */
+  alpha: number;
+  /** Number of bootstrap resamples of the Sharpe ratio difference */
+  bootstrapSamples: number;
+  /** Seed of the bootstrap sampler */
+  seed: number;
+  /** Leader against every other candidate, in walker order */
+  comparisons: ISignificanceComparison[];
+}
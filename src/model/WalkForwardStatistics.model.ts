@@ -0,0 +1,74 @@
+import { BacktestStatisticsModel } from "./BacktestStatistics.model";
+import { StrategyName } from "../interfaces/Strategy.interface";
+import { FrameName } from "../interfaces/Frame.interface";
+import { WalkerMetric, WalkForwardMode } from "../interfaces/Walker.interface";
+
+/**
+ * Train/test window pair of a walk-forward run.
+ * Each window is backed by a derived frame registered from the walker frame.
+ */
+export interface IWalkForwardRange {
+  /** Window number, starting from 1 */
+  index: number;
+  /** Derived frame of the train window */
+  trainFrameName: FrameName;
+  /** Train window start (inclusive, milliseconds since epoch) */
+  trainStart: number;
+  /** Train window end (inclusive, milliseconds since epoch) */
+  trainEnd: number;
+  /** Derived frame of the test window */
+  testFrameName: FrameName;
+  /** Test window start (inclusive, milliseconds since epoch) */
+  testStart: number;
+  /** Test window end (inclusive, milliseconds since epoch) */
+  testEnd: number;
+}
+
+/**
+ * Result of one walk-forward window.
+ */
+export interface IWalkForwardWindow extends IWalkForwardRange {
+  /** Strategy with the best in-sample metric, null if no strategy produced a metric */
+  bestStrategy: StrategyName | null;
+  /** In-sample metric of the best strategy on the train window */
+  isMetric: number | null;
+  /** Out-of-sample metric of the best strategy on the test window */
+  oosMetric: number | null;
+  /** In-sample statistics of the best strategy */
+  isStats: BacktestStatisticsModel | null;
+  /** Out-of-sample statistics of the best strategy */
+  oosStats: BacktestStatisticsModel | null;
+}
+
+/**
+ * Walk-forward analysis of a walker run.
+ *
+ * Out-of-sample (OOS) figures are stitched from the closed signals of every test
+ * window; in-sample (IS) figures come from the winning strategy of each train window.
+ */
+export interface WalkForwardStatisticsModel {
+  /** Train window layout */
+  mode: WalkForwardMode;
+  /** Metric used to pick the best strategy of each train window */
+  metric: WalkerMetric;
+  /** Per-window results in chronological order */
+  windows: IWalkForwardWindow[];
+  /** Closed OOS signals across all test windows */
+  totalSignals: number;
+  /** OOS win rate as percentage (0-100), null if no decisive trades */
+  winRate: number | null;
+  /** OOS cumulative PNL as percentage, null if no signals */
+  totalPnl: number | null;
+  /** OOS average PNL per signal as percentage, null if no signals */
+  avgPnl: number | null;
+  /** OOS per-trade Sharpe ratio (avgPnl / stdDev), null below 10 signals */
+  sharpeRatio: number | null;
+  /** Average in-sample metric of the window winners, null if none */
+  avgIsMetric: number | null;
+  /** Average out-of-sample metric of the window winners, null if none */
+  avgOosMetric: number | null;
+  /** Relative drop from avgIsMetric to avgOosMetric as percentage, null if avgIsMetric is not positive */
+  degradation: number | null;
+  /** OOS PNL per minute divided by IS PNL per minute, null if IS PNL is not positive */
+  walkForwardEfficiency: number | null;
+}
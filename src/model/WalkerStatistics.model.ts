@@ -1,6 +1,7 @@
 import { BacktestStatisticsModel } from "./BacktestStatistics.model";
 import { StrategyName } from "../interfaces/Strategy.interface";
 import { WalkerCompleteContract } from "../contract/WalkerComplete.contract";
+import { OverfittingStatisticsModel } from "./OverfittingStatistics.model";
 
 /**
  * Signal data for PNL table.
@@ -51,4 +52,6 @@ export interface IStrategyResult {
 export interface WalkerStatisticsModel extends WalkerCompleteContract {
   /** Array of all strategy results for comparison and analysis */
   strategyResults: IStrategyResult[];
+  /** Deflated Sharpe ratio of the best strategy and probability of backtest overfitting */
+  overfitting: OverfittingStatisticsModel;
 }
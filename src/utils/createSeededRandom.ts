@@ -0,0 +1,17 @@
+/**
+ * Creates a seeded pseudo-random generator (mulberry32).
+ * Same seed gives the same sequence, so parameter search and Monte Carlo runs are reproducible.
+ *
+ * @param seed - Integer seed
+ * @returns Function returning numbers in [0, 1)
+ */
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
@@ -10,6 +10,7 @@ import { GLOBAL_CONFIG } from "../config/params";
  * - price relationships are correct for position direction (TP/SL on correct sides of priceOpen)
  * - TP/SL distance constraints from GLOBAL_CONFIG
  * - minuteEstimatedTime is valid
+ * - leverage is a finite number >= 1 whose margin covers the maintenance margin, marginMode is valid
  *
  * Does NOT check:
  * - currentPrice vs SL/TP (immediate close protection — handled by pending/scheduled validators)
@@ -249,6 +250,35 @@ export const validateCommonSignal = (signal: ISignalDto) => {
     }
   }
 
+  // Валидация плеча и режима маржи
+  {
+    if (signal.leverage !== undefined) {
+      if (typeof signal.leverage !== "number" || !Number.isFinite(signal.leverage)) {
+        errors.push(
+          `leverage must be a finite number, got ${signal.leverage} (${typeof signal.leverage})`
+        );
+      } else if (signal.leverage < 1) {
+        errors.push(`leverage must be >= 1, got ${signal.leverage}`);
+      } else if (
+        signal.marginMode !== "cross" &&
+        100 / signal.leverage <= GLOBAL_CONFIG.CC_MAINTENANCE_MARGIN_PERCENT
+      ) {
+        // Маржа isolated-позиции не покрывает maintenance margin — ликвидация сразу на входе
+        errors.push(
+          `leverage ${signal.leverage}x too high: initial margin ${(100 / signal.leverage).toFixed(4)}% ` +
+            `does not exceed maintenance margin ${GLOBAL_CONFIG.CC_MAINTENANCE_MARGIN_PERCENT}% (CC_MAINTENANCE_MARGIN_PERCENT)`
+        );
+      }
+    }
+    if (
+      signal.marginMode !== undefined &&
+      signal.marginMode !== "isolated" &&
+      signal.marginMode !== "cross"
+    ) {
+      errors.push(`marginMode must be "isolated" or "cross", got "${signal.marginMode}"`);
+    }
+  }
+
   // Кидаем ошибку если есть проблемы
   if (errors.length > 0) {
     throw new Error(
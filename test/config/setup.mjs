@@ -7,6 +7,8 @@ import {
   PersistScheduleAdapter,
   PersistPartialAdapter,
   PersistCandleAdapter,
+  PersistFundingAdapter,
+  PersistTradeAdapter,
   PersistBreakevenAdapter,
   PersistStorageAdapter,
   PersistMemoryAdapter,
@@ -16,6 +18,7 @@ import {
   PersistStateAdapter,
   PersistSessionAdapter,
   PersistStrategyAdapter,
+  PersistCircuitAdapter,
   Report,
   Markdown,
   Dump,
@@ -48,6 +51,8 @@ import {
   PersistScheduleAdapter.useDummy();
   PersistPartialAdapter.useDummy();
   PersistCandleAdapter.useDummy();
+  PersistFundingAdapter.useDummy();
+  PersistTradeAdapter.useDummy();
   PersistBreakevenAdapter.useDummy();
   PersistStorageAdapter.useDummy();
   PersistMemoryAdapter.useDummy();
@@ -57,6 +62,7 @@ import {
   PersistStateAdapter.useDummy();
   PersistSessionAdapter.useDummy();
   PersistStrategyAdapter.useDummy();
+  PersistCircuitAdapter.useDummy();
 }
 
 setConfig(
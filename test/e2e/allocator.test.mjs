@@ -0,0 +1,409 @@
+import { test } from "worker-testbed";
+
+import {
+  addAllocatorSchema,
+  addExchangeSchema,
+  addFrameSchema,
+  addStrategySchema,
+  Allocation,
+  Backtest,
+  getAveragePrice,
+  listenDoneBacktest,
+  listenSignalBacktest,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Capital allocator: стратегии делят счет $10 000 фиксированными весами.
+// Сигнал стратегии с весом 0.25 и cost $100 открывается на $25 (cost × вес).
+// Сигнал с весом 0.01 и cost $20 000 ограничивается бюджетом $100
+// (equity × вес). История распределения содержит ребаланс и размер сигнала.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = timestamp >= START + 20 * MIN ? 111 : 100;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.1,
+      low: price - 0.1,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runScenario = async (suffix, weight, cost) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  let opened = null;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "opened" && event.strategyName === `allocator-strategy-${suffix}`) {
+      opened = event;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === `allocator-strategy-${suffix}`) {
+      resolve();
+    }
+  });
+
+  addExchangeSchema({
+    exchangeName: `allocator-exchange-${suffix}`,
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addAllocatorSchema({
+    allocatorName: `allocator-${suffix}`,
+    method: "fixed-weight",
+    weights: {
+      [`allocator-strategy-${suffix}`]: weight,
+      [`allocator-idle-${suffix}`]: 1 - weight,
+    },
+  });
+
+  let signalGenerated = false;
+
+  addStrategySchema({
+    strategyName: `allocator-strategy-${suffix}`,
+    interval: "1m",
+    allocatorName: `allocator-${suffix}`,
+    getSignal: async () => {
+      if (signalGenerated) return null;
+      signalGenerated = true;
+      return {
+        position: "long",
+        priceTakeProfit: 110,
+        priceStopLoss: 90,
+        minuteEstimatedTime: 120,
+        cost,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: `allocator-frame-${suffix}`,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  Backtest.background("BTCUSDT", {
+    strategyName: `allocator-strategy-${suffix}`,
+    exchangeName: `allocator-exchange-${suffix}`,
+    frameName: `allocator-frame-${suffix}`,
+  });
+
+  await awaiter;
+
+  unSignal();
+  unDone();
+
+  return opened;
+};
+
+test("allocator: signal cost is scaled by the strategy weight", async ({ pass, fail }) => {
+  const opened = await runScenario("weight", 0.25, 100);
+
+  if (!opened) {
+    fail("expected an opened signal");
+    return;
+  }
+
+  if (Math.abs(opened.signal.cost - 25) > 1e-9) {
+    fail(`expected cost 25 (100 × 0.25), got ${opened.signal.cost}`);
+    return;
+  }
+
+  const { allocations, history } = await Allocation.getData("allocator-weight", {
+    exchangeName: "allocator-exchange-weight",
+    frameName: "allocator-frame-weight",
+  }, true);
+
+  const allocation = allocations.find(({ strategyName }) => strategyName === "allocator-strategy-weight");
+  if (!allocation || Math.abs(allocation.budget - 2_500) > 1e-9) {
+    fail(`expected budget 2500 USD, got ${allocation?.budget}`);
+    return;
+  }
+
+  if (!history.some(({ reason }) => reason === "rebalance") || !history.some(({ reason }) => reason === "signal")) {
+    fail(`expected rebalance and signal snapshots, got ${history.map(({ reason }) => reason)}`);
+    return;
+  }
+
+  pass(`cost ${opened.signal.cost} USD of budget ${allocation.budget} USD`);
+});
+
+test("allocator: signal cost is capped by the remaining budget", async ({ pass, fail }) => {
+  const opened = await runScenario("budget", 0.01, 20_000);
+
+  if (!opened) {
+    fail("expected an opened signal");
+    return;
+  }
+
+  if (Math.abs(opened.signal.cost - 100) > 1e-9) {
+    fail(`expected cost capped at budget 100 (10 000 × 0.01), got ${opened.signal.cost}`);
+    return;
+  }
+
+  pass(`cost ${opened.signal.cost} USD capped by the strategy budget`);
+});
+
+// Equal-risk и performance-weighted: две стратегии торгуют один счет
+// на растущем рынке. Веса пересчитываются каждую минуту по закрытым сделкам
+// стратегий из общего портфельного ledger.
+
+const getRisingCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = 100 + Math.max(timestamp - START, 0) / MIN * 0.1;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.01,
+      low: price - 0.01,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runPair = async (suffix, method, getSignalA, getSignalB) => {
+  const strategyA = `allocator-a-${suffix}`;
+  const strategyB = `allocator-b-${suffix}`;
+  const context = {
+    exchangeName: `allocator-exchange-${suffix}`,
+    frameName: `allocator-frame-${suffix}`,
+  };
+
+  addExchangeSchema({
+    exchangeName: context.exchangeName,
+    getCandles: getRisingCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addAllocatorSchema({
+    allocatorName: `allocator-${suffix}`,
+    method,
+    strategies: [strategyA, strategyB],
+    rebalanceInterval: "1m",
+  });
+
+  addStrategySchema({
+    strategyName: strategyA,
+    interval: "1m",
+    allocatorName: `allocator-${suffix}`,
+    getSignal: getSignalA,
+  });
+
+  addStrategySchema({
+    strategyName: strategyB,
+    interval: "1m",
+    allocatorName: `allocator-${suffix}`,
+    getSignal: getSignalB,
+  });
+
+  addFrameSchema({
+    frameName: context.frameName,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 240 * MIN),
+  });
+
+  const [awaiter, { resolve }] = createAwaiter();
+  const pending = new Set([strategyA, strategyB]);
+  const unDone = listenDoneBacktest((event) => {
+    pending.delete(event.strategyName);
+    if (!pending.size) {
+      resolve();
+    }
+  });
+
+  // Оба бэктеста стартуют вместе: они делят один счет
+  Backtest.background("BTCUSDT", { strategyName: strategyA, ...context });
+  Backtest.background("BTCUSDT", { strategyName: strategyB, ...context });
+
+  await awaiter;
+  unDone();
+
+  const { history } = await Allocation.getData(`allocator-${suffix}`, context, true);
+  const rebalances = history
+    .filter(({ reason }) => reason === "rebalance")
+    .map(({ allocations }) => Object.fromEntries(
+      allocations.map(({ strategyName, weight }) => [strategyName, weight]),
+    ));
+
+  return { strategyA, strategyB, rebalances };
+};
+
+test("allocator: equal-risk gives the less volatile strategy the larger weight", async ({ pass, fail }) => {
+  let tradesA = 0;
+  let tradesB = 0;
+
+  // Обе стратегии всегда закрываются по TP, но A чередует цели 1% и 3%,
+  // а B чередует 1% и 1.5%: доходности A разбросаны в четыре раза сильнее
+  const { strategyA, strategyB, rebalances } = await runPair(
+    "equal-risk",
+    "equal-risk",
+    async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      const target = tradesA++ % 2 ? 1.03 : 1.01;
+      return {
+        position: "long",
+        priceTakeProfit: price * target,
+        priceStopLoss: price * 0.9,
+        minuteEstimatedTime: 1_000,
+        cost: 100,
+      };
+    },
+    async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      const target = tradesB++ % 2 ? 1.015 : 1.01;
+      return {
+        position: "long",
+        priceTakeProfit: price * target,
+        priceStopLoss: price * 0.9,
+        minuteEstimatedTime: 1_000,
+        cost: 100,
+      };
+    },
+  );
+
+  const last = rebalances[rebalances.length - 1];
+  if (!last) {
+    fail("expected rebalance snapshots");
+    return;
+  }
+
+  if (!(last[strategyB] > last[strategyA]) || Math.abs(last[strategyA] + last[strategyB] - 1) > 1e-9) {
+    fail(`expected B to outweigh A with weights summing to 1, got ${JSON.stringify(last)}`);
+    return;
+  }
+
+  pass(`weights A=${last[strategyA].toFixed(3)} B=${last[strategyB].toFixed(3)}`);
+});
+
+test("allocator: performance-weighted gives nothing to a losing strategy", async ({ pass, fail }) => {
+  // На растущем рынке лонг A закрывается по TP, шорт B по SL
+  const { strategyA, strategyB, rebalances } = await runPair(
+    "performance",
+    "performance-weighted",
+    async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      return {
+        position: "long",
+        priceTakeProfit: price * 1.01,
+        priceStopLoss: price * 0.9,
+        minuteEstimatedTime: 1_000,
+        cost: 100,
+      };
+    },
+    async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      return {
+        position: "short",
+        priceTakeProfit: price * 0.9,
+        priceStopLoss: price * 1.01,
+        minuteEstimatedTime: 1_000,
+        cost: 100,
+      };
+    },
+  );
+
+  if (!rebalances.length || rebalances[0][strategyA] !== 0.5 || rebalances[0][strategyB] !== 0.5) {
+    fail(`expected equal weights before any closed trade, got ${JSON.stringify(rebalances[0])}`);
+    return;
+  }
+
+  if (!rebalances.some((weights) => weights[strategyA] === 1 && weights[strategyB] === 0)) {
+    fail(`expected a rebalance with A=1 and B=0, got ${JSON.stringify(rebalances.slice(-3))}`);
+    return;
+  }
+
+  pass(`${rebalances.length} rebalances, losing strategy starved`);
+});
+
+test("allocator: a repeated backtest starts from a fresh allocator", async ({ pass, fail }) => {
+  const context = {
+    strategyName: "allocator-strategy-repeat",
+    exchangeName: "allocator-exchange-repeat",
+    frameName: "allocator-frame-repeat",
+  };
+
+  addExchangeSchema({
+    exchangeName: context.exchangeName,
+    getCandles: getRisingCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addAllocatorSchema({
+    allocatorName: "allocator-repeat",
+    method: "fixed-weight",
+    weights: {
+      [context.strategyName]: 0.5,
+      "allocator-idle-repeat": 0.5,
+    },
+  });
+
+  addStrategySchema({
+    strategyName: context.strategyName,
+    interval: "1m",
+    allocatorName: "allocator-repeat",
+    getSignal: async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      return {
+        position: "long",
+        priceTakeProfit: price * 1.01,
+        priceStopLoss: price * 0.9,
+        minuteEstimatedTime: 1_000,
+        cost: 100,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: context.frameName,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  const getHistory = async () => {
+    for await (const _ of Backtest.run("BTCUSDT", context)) {
+      void 0;
+    }
+    const { history } = await Allocation.getData("allocator-repeat", context, true);
+    return history;
+  };
+
+  const first = await getHistory();
+  const second = await getHistory();
+
+  if (!first.length || second.length !== first.length) {
+    fail(`expected the repeated run to record ${first.length} snapshots, got ${second.length}`);
+    return;
+  }
+
+  if (second[0].reason !== "rebalance" || second[0].timestamp !== first[0].timestamp) {
+    fail(`expected the repeated run to rebalance again at the frame start, got ${JSON.stringify(second[0])}`);
+    return;
+  }
+
+  pass(`${second.length} snapshots on both runs`);
+});
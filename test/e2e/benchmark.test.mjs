@@ -0,0 +1,173 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addStrategySchema,
+  Backtest,
+  listenDoneBacktest,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Benchmark фрейма: цена растет линейно со 100 на 0.1 за минуту, фрейм 120 минут,
+// buy-and-hold дает +12%. Стратегия раз в час открывает long на 30 минут
+// (закрытие по time_expired). Excess return = сложная доходность стратегии минус
+// доходность benchmark. Без benchmark в схеме фрейма все поля сравнения null.
+// Цены benchmark кешируются: повторный getData не запрашивает свечи заново.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getPrice = (timestamp) => 100 + ((timestamp - START) / MIN) * 0.1;
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = getPrice(timestamp);
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.05,
+      low: price - 0.05,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runScenario = async (suffix, benchmark, exchangeCandles = getCandles) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === `benchmark-strategy-${suffix}`) {
+      resolve();
+    }
+  });
+
+  addExchangeSchema({
+    exchangeName: `benchmark-exchange-${suffix}`,
+    getCandles: exchangeCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addStrategySchema({
+    strategyName: `benchmark-strategy-${suffix}`,
+    interval: "1h",
+    getSignal: async (_symbol, when) => {
+      const price = getPrice(when.getTime());
+      return {
+        position: "long",
+        priceTakeProfit: price * 1.1,
+        priceStopLoss: price * 0.95,
+        minuteEstimatedTime: 30,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: `benchmark-frame-${suffix}`,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 120 * MIN),
+    benchmark,
+  });
+
+  Backtest.background("BTCUSDT", {
+    strategyName: `benchmark-strategy-${suffix}`,
+    exchangeName: `benchmark-exchange-${suffix}`,
+    frameName: `benchmark-frame-${suffix}`,
+  });
+
+  await awaiter;
+
+  unDone();
+
+  return await Backtest.getData("BTCUSDT", {
+    strategyName: `benchmark-strategy-${suffix}`,
+    exchangeName: `benchmark-exchange-${suffix}`,
+    frameName: `benchmark-frame-${suffix}`,
+  });
+};
+
+test("benchmark: buy-and-hold return and excess return over the frame window", async ({ pass, fail }) => {
+  const stats = await runScenario("hold", "buy-and-hold");
+
+  if (stats.totalSignals === 0) {
+    fail("expected closed signals");
+    return;
+  }
+
+  if (stats.benchmarkSymbol !== "BTCUSDT") {
+    fail(`expected BTCUSDT benchmark, got ${stats.benchmarkSymbol}`);
+    return;
+  }
+
+  if (stats.benchmarkReturn === null || Math.abs(stats.benchmarkReturn - 12) > 1e-6) {
+    fail(`expected +12% benchmark return, got ${stats.benchmarkReturn}`);
+    return;
+  }
+
+  const equity = stats.signalList.reduce((acc, { pnl }) => acc * (1 + pnl.pnlPercentage / 100), 1);
+  const expectedExcess = (equity - 1) * 100 - 12;
+  if (stats.excessReturn === null || Math.abs(stats.excessReturn - expectedExcess) > 1e-6) {
+    fail(`expected excess return ${expectedExcess}, got ${stats.excessReturn}`);
+    return;
+  }
+
+  pass(`benchmark +${stats.benchmarkReturn.toFixed(2)}%, excess ${stats.excessReturn.toFixed(2)}%`);
+});
+
+test("benchmark: frame without benchmark leaves comparison fields null", async ({ pass, fail }) => {
+  const stats = await runScenario("none", undefined);
+
+  if (stats.totalSignals === 0) {
+    fail("expected closed signals");
+    return;
+  }
+
+  const fields = ["benchmarkSymbol", "benchmarkReturn", "excessReturn", "alpha", "beta", "informationRatio", "correlation", "upCapture", "downCapture"];
+  const filled = fields.filter((field) => stats[field] !== null);
+  if (filled.length) {
+    fail(`expected null benchmark fields, got ${filled.join(", ")}`);
+    return;
+  }
+
+  pass("no benchmark, comparison fields are null");
+});
+
+test("benchmark: repeated getData reuses the benchmark prices", async ({ pass, fail }) => {
+  let fetching = false;
+  let fetchCount = 0;
+  const countingCandles = async (...args) => {
+    if (fetching) {
+      fetchCount += 1;
+    }
+    return await getCandles(...args);
+  };
+
+  const first = await runScenario("cache", "buy-and-hold", countingCandles);
+
+  fetching = true;
+  const second = await Backtest.getData("BTCUSDT", {
+    strategyName: "benchmark-strategy-cache",
+    exchangeName: "benchmark-exchange-cache",
+    frameName: "benchmark-frame-cache",
+  });
+
+  if (fetchCount !== 0) {
+    fail(`expected no candle requests on the second getData, got ${fetchCount}`);
+    return;
+  }
+
+  if (first.benchmarkReturn === null || second.benchmarkReturn !== first.benchmarkReturn) {
+    fail(`expected the same benchmark return, got ${first.benchmarkReturn} and ${second.benchmarkReturn}`);
+    return;
+  }
+
+  pass("second getData served the benchmark from cache");
+});
@@ -0,0 +1,361 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addStrategySchema,
+  Backtest,
+  setConfig,
+  listenDoneBacktest,
+  listenSignalBacktest,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Валюта отчетности USDT: сделка по ETHBTC считает прибыль в BTC, движок
+// конвертирует стоимость и PnL по свече BTCUSDT (цена 40 000) на момент закрытия.
+// На закрытом сигнале записан путь конвертации, а totalPnlCost в статистике
+// бэктеста суммирует уже сконвертированные значения.
+// Если свечи BTCUSDT начинаются позже первых сделок, путь не запоминается как
+// отсутствующий: поздние сделки конвертируются, а totalPnlCost, в котором
+// смешались бы BTC и USDT, становится N/A.
+// Символы через слэш (ETH/BTC) конвертируются по паре того же формата (BTC/USDT),
+// а отсутствующие пары проверяются одним запросом без повторов и не чаще
+// одного раза за CC_CONVERSION_RETRY_MINUTES.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const PRICES = {
+  ETHBTC: (timestamp) => 0.05 + ((timestamp - START) / MIN) * 0.00001,
+  BTCUSDT: () => 40_000,
+};
+
+const getCandles = async (symbol, _interval, since, limit) => {
+  const getPrice = PRICES[symbol];
+  if (!getPrice) {
+    throw new Error(`unknown symbol ${symbol}`);
+  }
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = getPrice(timestamp);
+    result.push({
+      timestamp,
+      open: price,
+      high: price * 1.0001,
+      low: price * 0.9999,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+test("currency: ETHBTC trade is converted to USDT through BTCUSDT", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  setConfig({ CC_REPORTING_CURRENCY: "USDT" });
+
+  let closed = null;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === "currency-strategy") {
+      closed = event;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "currency-strategy") {
+      resolve();
+    }
+  });
+
+  addExchangeSchema({
+    exchangeName: "currency-exchange",
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  let opened = false;
+  addStrategySchema({
+    strategyName: "currency-strategy",
+    interval: "1m",
+    getSignal: async (_symbol, when) => {
+      if (opened) {
+        return null;
+      }
+      opened = true;
+      const price = PRICES.ETHBTC(when.getTime());
+      return {
+        position: "long",
+        priceTakeProfit: price * 1.1,
+        priceStopLoss: price * 0.95,
+        minuteEstimatedTime: 30,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: "currency-frame",
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  try {
+    Backtest.background("ETHBTC", {
+      strategyName: "currency-strategy",
+      exchangeName: "currency-exchange",
+      frameName: "currency-frame",
+    });
+
+    await awaiter;
+
+    const stats = await Backtest.getData("ETHBTC", {
+      strategyName: "currency-strategy",
+      exchangeName: "currency-exchange",
+      frameName: "currency-frame",
+    });
+
+    const conversion = closed?.pnl.conversion;
+    if (!conversion) {
+      fail("expected pnl.conversion on the closed signal");
+      return;
+    }
+
+    const [leg] = conversion.path;
+    if (conversion.quoteCurrency !== "BTC" || conversion.path.length !== 1 || leg.symbol !== "BTCUSDT" || leg.inverted) {
+      fail(`expected BTC -> USDT through BTCUSDT, got ${JSON.stringify(conversion)}`);
+      return;
+    }
+
+    if (Math.abs(conversion.pnlCost - closed.pnl.pnlCost * 40_000) > 1e-6) {
+      fail(`expected pnlCost × 40000, got ${conversion.pnlCost} for ${closed.pnl.pnlCost}`);
+      return;
+    }
+
+    if (stats.totalPnlCost === null || Math.abs(stats.totalPnlCost - conversion.pnlCost) > 1e-6) {
+      fail(`expected totalPnlCost ${conversion.pnlCost}, got ${stats.totalPnlCost}`);
+      return;
+    }
+
+    pass(`converted ${closed.pnl.pnlCost.toFixed(6)} BTC to ${conversion.pnlCost.toFixed(2)} USDT`);
+  } finally {
+    unSignal();
+    unDone();
+    setConfig({ CC_REPORTING_CURRENCY: "" });
+  }
+});
+
+test("currency: late rate history is picked up and a mixed total is N/A", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const RATE_START = START + 40 * MIN;
+
+  setConfig({ CC_REPORTING_CURRENCY: "USDT", CC_CONVERSION_RETRY_MINUTES: 1 });
+
+  const closed = [];
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === "currency-strategy-late") {
+      closed.push(event);
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "currency-strategy-late") {
+      resolve();
+    }
+  });
+
+  addExchangeSchema({
+    exchangeName: "currency-exchange-late",
+    getCandles: async (symbol, interval, since, limit) => {
+      const candles = await getCandles(symbol, interval, since, limit);
+      return symbol === "BTCUSDT"
+        ? candles.filter(({ timestamp }) => timestamp >= RATE_START)
+        : candles;
+    },
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addStrategySchema({
+    strategyName: "currency-strategy-late",
+    interval: "1m",
+    getSignal: async (_symbol, when) => {
+      const price = PRICES.ETHBTC(when.getTime());
+      return {
+        position: "long",
+        priceTakeProfit: price * 1.002,
+        priceStopLoss: price * 0.95,
+        minuteEstimatedTime: 30,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: "currency-frame-late",
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  try {
+    Backtest.background("ETHBTC", {
+      strategyName: "currency-strategy-late",
+      exchangeName: "currency-exchange-late",
+      frameName: "currency-frame-late",
+    });
+
+    await awaiter;
+
+    const stats = await Backtest.getData("ETHBTC", {
+      strategyName: "currency-strategy-late",
+      exchangeName: "currency-exchange-late",
+      frameName: "currency-frame-late",
+    });
+
+    const early = closed.filter((event) => event.closeTimestamp < RATE_START);
+    const late = closed.filter((event) => event.closeTimestamp > RATE_START + MIN);
+
+    if (!early.length || early.some((event) => event.pnl.conversion)) {
+      fail(`expected unconverted trades before the rate history, got ${early.length}`);
+      return;
+    }
+
+    if (!late.length || late.some((event) => !event.pnl.conversion)) {
+      fail(`expected converted trades once the rate history starts, got ${late.map((event) => !!event.pnl.conversion)}`);
+      return;
+    }
+
+    if (stats.totalPnlCost !== null) {
+      fail(`expected N/A total for BTC and USDT trades, got ${stats.totalPnlCost}`);
+      return;
+    }
+
+    pass(`${early.length} trades in BTC, ${late.length} converted to USDT, total N/A`);
+  } finally {
+    unSignal();
+    unDone();
+    setConfig({ CC_REPORTING_CURRENCY: "", CC_CONVERSION_RETRY_MINUTES: 60 });
+  }
+});
+
+test("currency: slash symbols convert through slash pairs and missing pairs are probed once", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  setConfig({ CC_REPORTING_CURRENCY: "USDT" });
+
+  const SLASH_PRICES = {
+    "ETH/BTC": PRICES.ETHBTC,
+    "BTC/USDT": PRICES.BTCUSDT,
+  };
+
+  const closed = [];
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === "currency-strategy-slash") {
+      closed.push(event);
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "currency-strategy-slash") {
+      resolve();
+    }
+  });
+
+  const missingCalls = {};
+
+  addExchangeSchema({
+    exchangeName: "currency-exchange-slash",
+    getCandles: async (symbol, interval, since, limit) => {
+      if (!SLASH_PRICES[symbol]) {
+        missingCalls[symbol] = (missingCalls[symbol] ?? 0) + 1;
+        throw new Error(`unknown symbol ${symbol}`);
+      }
+      return await getCandles(symbol.replace("/", ""), interval, since, limit);
+    },
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addStrategySchema({
+    strategyName: "currency-strategy-slash",
+    interval: "1m",
+    getSignal: async (_symbol, when) => {
+      const price = PRICES.ETHBTC(when.getTime());
+      return {
+        position: "long",
+        priceTakeProfit: price * 1.002,
+        priceStopLoss: price * 0.95,
+        minuteEstimatedTime: 30,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: "currency-frame-slash",
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  try {
+    Backtest.background("ETH/BTC", {
+      strategyName: "currency-strategy-slash",
+      exchangeName: "currency-exchange-slash",
+      frameName: "currency-frame-slash",
+    });
+
+    await awaiter;
+
+    if (!closed.length || closed.some((event) => event.pnl.conversion?.path[0]?.symbol !== "BTC/USDT")) {
+      fail(`expected every trade converted through BTC/USDT, got ${closed.map((event) => event.pnl.conversion?.path[0]?.symbol)}`);
+      return;
+    }
+
+    if (Object.keys(missingCalls).length) {
+      fail(`expected no probes once BTC/USDT is found, got ${JSON.stringify(missingCalls)}`);
+      return;
+    }
+
+    setConfig({ CC_REPORTING_CURRENCY: "EUR", CC_CONVERSION_RETRY_MINUTES: 1_440 });
+
+    const [eurAwaiter, { resolve: eurResolve }] = createAwaiter();
+    const unEurDone = listenDoneBacktest((event) => {
+      if (event.strategyName === "currency-strategy-slash") {
+        eurResolve();
+      }
+    });
+
+    closed.length = 0;
+
+    Backtest.background("ETH/BTC", {
+      strategyName: "currency-strategy-slash",
+      exchangeName: "currency-exchange-slash",
+      frameName: "currency-frame-slash",
+    });
+
+    await eurAwaiter;
+    unEurDone();
+
+    if (!closed.length || closed.some((event) => event.pnl.conversion)) {
+      fail("expected unconverted trades without a EUR path");
+      return;
+    }
+
+    const repeated = Object.entries(missingCalls).filter(([, count]) => count > 1);
+    if (repeated.length || Object.keys(missingCalls).some((symbol) => !symbol.includes("/"))) {
+      fail(`expected each missing slash pair probed once, got ${JSON.stringify(missingCalls)}`);
+      return;
+    }
+
+    pass(`${closed.length} trades, ${Object.keys(missingCalls).length} missing pairs probed once each`);
+  } finally {
+    unSignal();
+    unDone();
+    setConfig({ CC_REPORTING_CURRENCY: "", CC_CONVERSION_RETRY_MINUTES: 60 });
+  }
+});
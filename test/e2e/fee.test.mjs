@@ -0,0 +1,130 @@
+import { test } from "worker-testbed";
+
+import { Fee } from "../../build/index.mjs";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Fee model: IExchangeSchema.getFee резолвит процент комиссии на каждый филл.
+// Рыночный вход платит taker, отложенный (лимитный) вход — maker, выход по
+// time_expired — taker. Разбивка комиссий попадает в pnl закрытого сигнала.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+const BASE_PRICE = 100;
+
+const createCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const dip = timestamp === START + 10 * MIN;
+    result.push({
+      timestamp,
+      open: BASE_PRICE,
+      high: BASE_PRICE + 0.1,
+      low: dip ? BASE_PRICE - 0.6 : BASE_PRICE - 0.1,
+      close: BASE_PRICE,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runFeeScenario = async (suffix, signal) => {
+  const fills = [];
+
+  const getFee = Fee.makerTaker({ maker: 0, taker: 0.2 });
+
+  const event = await runSignalScenario({
+    name: "fee",
+    suffix,
+    getCandles: createCandles,
+    signal,
+    exchange: {
+      getFee: async (symbol, side, orderType, notional, when, backtest) => {
+        fills.push({ side, orderType, notional });
+        return await getFee(symbol, side, orderType, notional, when, backtest);
+      },
+    },
+  });
+
+  return { event, fills };
+};
+
+test("fee model: market entry and exit are charged taker fees with breakdown on the closed signal", async ({ pass, fail }) => {
+  const { event, fills } = await runFeeScenario("market", {
+    position: "long",
+    priceTakeProfit: 103,
+    priceStopLoss: 97,
+    minuteEstimatedTime: 30,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "time_expired") {
+    fail(`expected time_expired, got ${event.closeReason}`);
+    return;
+  }
+
+  if (!fills.some(({ side, orderType }) => side === "buy" && orderType === "taker")) {
+    fail(`expected a taker buy fill, got ${JSON.stringify(fills)}`);
+    return;
+  }
+
+  if (!fills.some(({ side }) => side === "sell")) {
+    fail(`expected a sell fill on close, got ${JSON.stringify(fills)}`);
+    return;
+  }
+
+  if (Math.abs(event.pnl.feeOpenCost - 0.2) > 1e-6) {
+    fail(`expected feeOpenCost 0.2 USD (0.2% taker on 100 USD), got ${event.pnl.feeOpenCost}`);
+    return;
+  }
+
+  if (Math.abs(event.pnl.feeCloseCost - 0.2) > 0.01) {
+    fail(`expected feeCloseCost ~0.2 USD, got ${event.pnl.feeCloseCost}`);
+    return;
+  }
+
+  pass("market entry and exit charged taker fees");
+});
+
+test("fee model: scheduled entry is charged maker fee", async ({ pass, fail }) => {
+  const { event, fills } = await runFeeScenario("limit", {
+    position: "long",
+    priceOpen: 99.5,
+    priceTakeProfit: 103,
+    priceStopLoss: 97,
+    minuteEstimatedTime: 30,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "time_expired") {
+    fail(`expected time_expired, got ${event.closeReason}`);
+    return;
+  }
+
+  if (!fills.some(({ side, orderType }) => side === "buy" && orderType === "maker")) {
+    fail(`expected a maker buy fill, got ${JSON.stringify(fills)}`);
+    return;
+  }
+
+  if (event.pnl.feeOpenCost !== 0) {
+    fail(`expected zero maker fee on entry, got ${event.pnl.feeOpenCost}`);
+    return;
+  }
+
+  if (!(event.pnl.feeCloseCost > 0)) {
+    fail(`expected taker fee on exit, got ${event.pnl.feeCloseCost}`);
+    return;
+  }
+
+  pass("scheduled entry charged maker fee");
+});
@@ -0,0 +1,145 @@
+import { test } from "worker-testbed";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Fill model: один и тот же набор свечей с фитилём сквозь StopLoss прогоняется
+// под разными CC_BACKTEST_FILL_MODEL / IStrategySchema.fillModel. VWAP гасит
+// фитиль (позиция живёт до time_expired), "wick" закрывает позицию по SL на
+// свече фитиля, "pessimistic" выбирает SL при касании обоих уровней.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+const BASE_PRICE = 100;
+
+const createCandles = (wickMinute, wickCandle) => async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    if (timestamp === START + wickMinute * MIN) {
+      result.push({ timestamp, ...wickCandle });
+      continue;
+    }
+    result.push({
+      timestamp,
+      open: BASE_PRICE,
+      high: BASE_PRICE + 0.1,
+      low: BASE_PRICE - 0.1,
+      close: BASE_PRICE,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runFillScenario = (suffix, fillModel, wickCandle) =>
+  runSignalScenario({
+    name: "fill",
+    suffix,
+    getCandles: createCandles(10, wickCandle),
+    strategy: { fillModel },
+    signal: {
+      position: "long",
+      priceTakeProfit: 103,
+      priceStopLoss: 97,
+      minuteEstimatedTime: 30,
+    },
+  });
+
+test("fill model vwap: a single wick through StopLoss does not close the position", async ({ pass, fail }) => {
+  const event = await runFillScenario("vwap", "vwap", {
+    open: BASE_PRICE,
+    high: BASE_PRICE + 0.1,
+    low: 96,
+    close: BASE_PRICE,
+    volume: 100,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "time_expired") {
+    fail(`expected time_expired under vwap, got ${event.closeReason}`);
+    return;
+  }
+
+  pass("vwap model ignores the wick and closes by time_expired");
+});
+
+test("fill model wick: a single wick through StopLoss closes the position at StopLoss", async ({ pass, fail }) => {
+  const event = await runFillScenario("wick", "wick", {
+    open: BASE_PRICE,
+    high: BASE_PRICE + 0.1,
+    low: 96,
+    close: BASE_PRICE,
+    volume: 100,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss under wick, got ${event.closeReason}`);
+    return;
+  }
+
+  if (event.currentPrice !== 97) {
+    fail(`expected close at StopLoss 97, got ${event.currentPrice}`);
+    return;
+  }
+
+  if (event.closeTimestamp !== START + 10 * MIN) {
+    fail(`expected close on the wick candle, got ${new Date(event.closeTimestamp).toISOString()}`);
+    return;
+  }
+
+  pass("wick model closes on the wick candle at StopLoss");
+});
+
+test("fill model wick: both levels touched resolves by distance from candle open", async ({ pass, fail }) => {
+  const event = await runFillScenario("wick-both", "wick", {
+    open: 102.5,
+    high: 103.5,
+    low: 96,
+    close: BASE_PRICE,
+    volume: 100,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "take_profit") {
+    fail(`expected take_profit (open is nearer to TP), got ${event.closeReason}`);
+    return;
+  }
+
+  pass("wick model picks the level nearest to the candle open");
+});
+
+test("fill model pessimistic: both levels touched in one candle closes by StopLoss", async ({ pass, fail }) => {
+  const event = await runFillScenario("pessimistic", "pessimistic", {
+    open: 102.5,
+    high: 103.5,
+    low: 96,
+    close: BASE_PRICE,
+    volume: 100,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss under pessimistic, got ${event.closeReason}`);
+    return;
+  }
+
+  pass("pessimistic model takes StopLoss first when both levels are touched");
+});
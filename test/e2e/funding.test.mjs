@@ -0,0 +1,126 @@
+import { test } from "worker-testbed";
+
+import { Latency } from "../../build/index.mjs";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Funding: позиция держится 20 часов при плоской цене 100. Funding начисляется
+// каждые 8 часов по ставке 0.01% — в окно попадают расчёты 08:00 и 16:00.
+// Лонг платит 2 × 0.0001 × notional, шорт столько же получает.
+// С задержкой входа 9 часов позиция появляется только в 09:00: расчёт 08:00
+// приходится на время, пока ордер в пути, и не начисляется.
+
+const MIN = 60_000;
+const HOUR = 60 * MIN;
+const BASE_PRICE = 100;
+const FUNDING_RATE = 0.0001;
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    result.push({
+      timestamp: alignedSince + i * MIN,
+      open: BASE_PRICE,
+      high: BASE_PRICE + 0.1,
+      low: BASE_PRICE - 0.1,
+      close: BASE_PRICE,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const getFundingRates = async (_symbol, from, to) => {
+  const result = [];
+  const first = Math.ceil(from.getTime() / (8 * HOUR)) * 8 * HOUR;
+  for (let timestamp = first; timestamp < to.getTime(); timestamp += 8 * HOUR) {
+    result.push({ timestamp, fundingRate: String(FUNDING_RATE) });
+  }
+  return result;
+};
+
+const runFundingScenario = (suffix, position, withFunding, latency) =>
+  runSignalScenario({
+    name: "funding",
+    suffix,
+    getCandles,
+    exchange: withFunding ? { getFundingRates } : {},
+    strategy: { latency },
+    signal: {
+      position,
+      priceTakeProfit: position === "long" ? 110 : 90,
+      priceStopLoss: position === "long" ? 90 : 110,
+      minuteEstimatedTime: 20 * 60,
+    },
+  });
+
+test("funding: long position pays two 8h settlements", async ({ pass, fail }) => {
+  const event = await runFundingScenario("long", "long", true);
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  const expected = 2 * FUNDING_RATE * event.pnl.pnlEntries;
+
+  if (event.pnl.fundingCost === undefined || Math.abs(event.pnl.fundingCost - expected) > 1e-9) {
+    fail(`expected fundingCost ${expected}, got ${event.pnl.fundingCost}`);
+    return;
+  }
+
+  if (Math.abs(event.signal.fundingCost - expected) > 1e-9) {
+    fail(`expected signal.fundingCost ${expected}, got ${event.signal.fundingCost}`);
+    return;
+  }
+
+  pass("long paid funding for both settlements");
+});
+
+test("funding: short position receives funding and pnl includes it", async ({ pass, fail }) => {
+  const funded = await runFundingScenario("short", "short", true);
+  const unfunded = await runFundingScenario("short-none", "short", false);
+
+  if (!funded || !unfunded) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  const expected = -2 * FUNDING_RATE * funded.pnl.pnlEntries;
+
+  if (funded.pnl.fundingCost === undefined || Math.abs(funded.pnl.fundingCost - expected) > 1e-9) {
+    fail(`expected fundingCost ${expected}, got ${funded.pnl.fundingCost}`);
+    return;
+  }
+
+  if (unfunded.pnl.fundingCost !== undefined) {
+    fail(`expected no fundingCost without getFundingRates, got ${unfunded.pnl.fundingCost}`);
+    return;
+  }
+
+  if (Math.abs((funded.pnl.pnlCost - unfunded.pnl.pnlCost) + expected) > 1e-9) {
+    fail(`expected pnlCost to differ by ${-expected}, got ${funded.pnl.pnlCost - unfunded.pnl.pnlCost}`);
+    return;
+  }
+
+  pass("short received funding and it is reflected in pnlCost");
+});
+
+test("funding: a latency-delayed entry is not charged before it lands", async ({ pass, fail }) => {
+  const event = await runFundingScenario("latency", "long", true, Latency.fixed(9 * HOUR));
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  const expected = FUNDING_RATE * event.pnl.pnlEntries;
+
+  if (event.pnl.fundingCost === undefined || Math.abs(event.pnl.fundingCost - expected) > 1e-9) {
+    fail(`expected only the 16:00 settlement ${expected}, got ${event.pnl.fundingCost}`);
+    return;
+  }
+
+  pass("settlement during the entry latency was skipped");
+});
@@ -0,0 +1,186 @@
+import { test } from "worker-testbed";
+
+import { listenValidation, setConfig } from "../../build/index.mjs";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Gap: лонг от 100 со StopLoss 95. После 10-й минуты в данных дыра на 20 минут,
+// первая свеча после неё открывается на 90 — ниже стопа. С gap-aware стопами
+// позиция закрывается по открытию 90, без них — ровно по уровню 95.
+// Без дыры цена с 10-й минуты открывается на 90 после закрытия 100: под "wick"
+// стоп срабатывает на этой же свече и тоже исполняется по открытию 90. Под "vwap"
+// средняя доходит до стопа только на 12-й минуте, когда предыдущая свеча уже
+// закрылась ниже 95 — гэпа на этой свече нет, и стоп исполняется по 95.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+const HOLE_FROM = START + 10 * MIN;
+const HOLE_TO = START + 30 * MIN;
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  let timestamp = Math.floor(since.getTime() / MIN) * MIN;
+  while (result.length < limit) {
+    if (timestamp >= HOLE_FROM && timestamp < HOLE_TO) {
+      timestamp += MIN;
+      continue;
+    }
+    const price = timestamp >= HOLE_TO ? 90 : 100;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.1,
+      low: price - 0.1,
+      close: price,
+      volume: 100,
+    });
+    timestamp += MIN;
+  }
+  return result;
+};
+
+const getDropCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = timestamp >= HOLE_FROM ? 90 : 100;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.1,
+      low: price - 0.1,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runGapScenario = (suffix, candles = getCandles, fillModel = "wick") =>
+  runSignalScenario({
+    name: "gap",
+    suffix,
+    getCandles: candles,
+    strategy: { fillModel },
+    signal: {
+      position: "long",
+      priceTakeProfit: 110,
+      priceStopLoss: 95,
+      minuteEstimatedTime: 60,
+    },
+  });
+
+test("gap: stop crossed by a data hole fills at the gap open", async ({ pass, fail }) => {
+  const gapErrors = [];
+  const unValidation = listenValidation((error) => {
+    if (error.message.includes("candle gap")) {
+      gapErrors.push(error);
+    }
+  });
+
+  setConfig({ CC_BACKTEST_GAP_AWARE_STOPS: true }, true);
+
+  const event = await runGapScenario("aware");
+
+  setConfig({ CC_BACKTEST_GAP_AWARE_STOPS: false }, true);
+  unValidation();
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss, got ${event.closeReason}`);
+    return;
+  }
+
+  if (Math.abs(event.currentPrice - 90) > 1e-9) {
+    fail(`expected close at the gap open 90, got ${event.currentPrice}`);
+    return;
+  }
+
+  if (gapErrors.length !== 1) {
+    fail(`expected one validation notification for the 20 minute candle gap, got ${gapErrors.length}`);
+    return;
+  }
+
+  pass("gapped stop filled at 90 and the data hole was reported once");
+});
+
+test("gap: legacy stops fill at the stop level", async ({ pass, fail }) => {
+  const event = await runGapScenario("legacy");
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss, got ${event.closeReason}`);
+    return;
+  }
+
+  if (Math.abs(event.currentPrice - 95) > 1e-9) {
+    fail(`expected close at the stop level 95, got ${event.currentPrice}`);
+    return;
+  }
+
+  pass("stop filled at 95 with gap-aware stops disabled");
+});
+
+test("gap: open below the previous close fills the stop at the open", async ({ pass, fail }) => {
+  setConfig({ CC_BACKTEST_GAP_AWARE_STOPS: true }, true);
+
+  const event = await runGapScenario("jump", getDropCandles);
+
+  setConfig({ CC_BACKTEST_GAP_AWARE_STOPS: false }, true);
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss, got ${event.closeReason}`);
+    return;
+  }
+
+  if (Math.abs(event.currentPrice - 90) > 1e-9) {
+    fail(`expected close at the gap open 90, got ${event.currentPrice}`);
+    return;
+  }
+
+  pass("stop jumped from a close of 100 to an open of 90 filled at 90");
+});
+
+test("gap: VWAP-lagged stop without a gap fills at the stop level", async ({ pass, fail }) => {
+  setConfig({ CC_BACKTEST_GAP_AWARE_STOPS: true }, true);
+
+  const event = await runGapScenario("vwap-lag", getDropCandles, "vwap");
+
+  setConfig({ CC_BACKTEST_GAP_AWARE_STOPS: false }, true);
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss, got ${event.closeReason}`);
+    return;
+  }
+
+  if (event.closeTimestamp !== HOLE_FROM + 2 * MIN) {
+    fail(`expected the VWAP to reach the stop two candles after the drop, got ${new Date(event.closeTimestamp).toISOString()}`);
+    return;
+  }
+
+  if (Math.abs(event.currentPrice - 95) > 1e-9) {
+    fail(`expected close at the stop level 95, got ${event.currentPrice}`);
+    return;
+  }
+
+  pass("late VWAP stop on a candle opening after a close below the stop filled at 95");
+});
@@ -0,0 +1,115 @@
+import { test } from "worker-testbed";
+
+import { Latency } from "../../build/index.mjs";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Latency: до старта фрейма цена 100, с первой минуты — 105. Без задержки
+// рыночный вход исполняется по 100. С задержкой 5 минут ордер доходит до биржи
+// на свече +5, VWAP последних 5 свечей которой уже 105 — туда и переезжает вход.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = timestamp >= START + MIN ? 105 : 100;
+    result.push({
+      timestamp,
+      open: price,
+      high: price,
+      low: price,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runLatencyScenario = (suffix, latency) =>
+  runSignalScenario({
+    name: "latency",
+    suffix,
+    getCandles,
+    strategy: { latency },
+    signal: {
+      position: "long",
+      priceTakeProfit: 120,
+      priceStopLoss: 80,
+      minuteEstimatedTime: 30,
+    },
+  });
+
+test("latency: delayed market entry fills at the landing candle price", async ({ pass, fail }) => {
+  const instant = await runLatencyScenario("instant", undefined);
+  const delayed = await runLatencyScenario("delayed", Latency.fixed(5 * MIN));
+
+  if (!instant || !delayed) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (Math.abs(instant.signal.priceOpen - 100) > 1e-9) {
+    fail(`expected instant entry at 100, got ${instant.signal.priceOpen}`);
+    return;
+  }
+
+  if (Math.abs(delayed.signal.priceOpen - 105) > 1e-9) {
+    fail(`expected delayed entry at 105, got ${delayed.signal.priceOpen}`);
+    return;
+  }
+
+  if (delayed.pnl.pnlPercentage >= instant.pnl.pnlPercentage) {
+    fail(`expected latency to cost pnl, got ${delayed.pnl.pnlPercentage} vs ${instant.pnl.pnlPercentage}`);
+    return;
+  }
+
+  pass("5 minute latency moved the entry from 100 to 105");
+});
+
+test("latency: uniform model is bounded and reproducible by seed", async ({ pass, fail }) => {
+  const first = Latency.uniform({ min: 1_000, max: 60_000, seed: 42 });
+  const second = Latency.uniform({ min: 1_000, max: 60_000, seed: 42 });
+
+  for (let i = 0; i < 100; i++) {
+    const a = first("open");
+    const b = second("open");
+    if (a !== b) {
+      fail(`expected same delay for the same seed at step ${i}, got ${a} and ${b}`);
+      return;
+    }
+    if (a < 1_000 || a > 60_000) {
+      fail(`expected delay within [1000, 60000], got ${a}`);
+      return;
+    }
+  }
+
+  pass("seeded uniform latency stays within bounds and repeats");
+});
+
+test("latency: every backtest run replays the seeded delays from the start", async ({ pass, fail }) => {
+  const latency = Latency.uniform({ min: 0, max: 10 * MIN, seed: 7 });
+
+  const first = await runLatencyScenario("seeded-first", latency);
+  const second = await runLatencyScenario("seeded-second", latency);
+
+  if (!first || !second) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (first.signal.pendingAt !== second.signal.pendingAt) {
+    fail(`expected the same entry landing in both runs, got ${first.signal.pendingAt} and ${second.signal.pendingAt}`);
+    return;
+  }
+
+  if (first.signal.priceOpen !== second.signal.priceOpen) {
+    fail(`expected the same entry price in both runs, got ${first.signal.priceOpen} and ${second.signal.priceOpen}`);
+    return;
+  }
+
+  pass("shared uniform model gave both runs the same delays");
+});
@@ -0,0 +1,204 @@
+import { test } from "worker-testbed";
+
+import { Backtest, getLiquidationPrice, setConfig } from "../../build/index.mjs";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Leverage: лонг от 100 с затяжным падением цены до 94. При плече 20x isolated
+// и maintenance margin 0.5% цена ликвидации 100 × (1 − 1/20 + 0.005) = 95.5 —
+// позиция ликвидируется раньше StopLoss 90. Без плеча та же просадка не достаёт
+// до SL, а StopLoss ближе ликвидации закрывает позицию по stop_loss.
+// Cross: CC_CROSS_MARGIN_WALLET_BALANCE целиком добавляется к марже каждой
+// позиции отдельно — 100 × (1 − (5 + 50)/100 + 0.005) = 45.5 для любой позиции.
+// Колонки Leverage и PNL (margin) попадают в отчёт только с CC_REPORT_SHOW_LEVERAGE.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+const BASE_PRICE = 100;
+const DROP_PRICE = 94;
+const DROP_MINUTE = 10;
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = timestamp >= START + DROP_MINUTE * MIN ? DROP_PRICE : BASE_PRICE;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.1,
+      low: price - 0.1,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runLeverageScenario = (suffix, signal) =>
+  runSignalScenario({
+    name: "liquidation",
+    suffix,
+    getCandles,
+    signal: {
+      position: "long",
+      priceTakeProfit: 110,
+      minuteEstimatedTime: 60,
+      ...signal,
+    },
+  });
+
+test("leverage 20x isolated: position is liquidated before StopLoss", async ({ pass, fail }) => {
+  const event = await runLeverageScenario("isolated", {
+    priceStopLoss: 90,
+    leverage: 20,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "liquidation") {
+    fail(`expected liquidation, got ${event.closeReason}`);
+    return;
+  }
+
+  if (Math.abs(event.currentPrice - 95.5) > 1e-9) {
+    fail(`expected close at liquidation price 95.5, got ${event.currentPrice}`);
+    return;
+  }
+
+  if (event.pnl.leverage !== 20) {
+    fail(`expected pnl.leverage 20, got ${event.pnl.leverage}`);
+    return;
+  }
+
+  if (Math.abs(event.pnl.pnlMarginPercentage - event.pnl.pnlPercentage * 20) > 1e-9) {
+    fail(`expected pnlMarginPercentage = pnlPercentage × 20, got ${event.pnl.pnlMarginPercentage}`);
+    return;
+  }
+
+  pass("20x long liquidated at 95.5 with margin-aware PnL");
+});
+
+test("leverage 1x: the same drawdown does not reach StopLoss", async ({ pass, fail }) => {
+  const event = await runLeverageScenario("spot", {
+    priceStopLoss: 90,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "time_expired") {
+    fail(`expected time_expired without leverage, got ${event.closeReason}`);
+    return;
+  }
+
+  if (event.signal.liquidationPrice !== null) {
+    fail(`expected no liquidation price without leverage, got ${event.signal.liquidationPrice}`);
+    return;
+  }
+
+  if (event.pnl.leverage !== undefined) {
+    fail(`expected no leverage in pnl, got ${event.pnl.leverage}`);
+    return;
+  }
+
+  pass("unleveraged position survives the drawdown");
+});
+
+test("leverage 20x isolated: StopLoss nearer than liquidation closes by stop_loss", async ({ pass, fail }) => {
+  const event = await runLeverageScenario("stop-first", {
+    priceStopLoss: 97,
+    leverage: 20,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss, got ${event.closeReason}`);
+    return;
+  }
+
+  pass("StopLoss above the liquidation price closes the position first");
+});
+
+test("leverage 20x cross: every position is backed by the full CC_CROSS_MARGIN_WALLET_BALANCE", async ({ pass, fail }) => {
+  const signal = {
+    position: "long",
+    priceOpen: BASE_PRICE,
+    cost: 100,
+    leverage: 20,
+    priceTakeProfit: 110,
+    priceStopLoss: 40,
+    minuteEstimatedTime: 60,
+  };
+
+  setConfig({ CC_CROSS_MARGIN_WALLET_BALANCE: 50 });
+
+  try {
+    const isolated = getLiquidationPrice({ ...signal, marginMode: "isolated" });
+    if (Math.abs(isolated - 95.5) > 1e-9) {
+      fail(`expected isolated liquidation price 95.5, got ${isolated}`);
+      return;
+    }
+
+    const first = getLiquidationPrice({ ...signal, marginMode: "cross" });
+    const second = getLiquidationPrice({ ...signal, marginMode: "cross" });
+    if (Math.abs(first - 45.5) > 1e-9 || Math.abs(second - 45.5) > 1e-9) {
+      fail(`expected 45.5 for each cross position, got ${first} and ${second}`);
+      return;
+    }
+
+    pass("each cross position adds the whole wallet balance to its own margin");
+  } finally {
+    setConfig({ CC_CROSS_MARGIN_WALLET_BALANCE: 0 });
+  }
+});
+
+test("leverage report: Leverage and PNL (margin) columns are shown only with CC_REPORT_SHOW_LEVERAGE", async ({ pass, fail }) => {
+  const event = await runLeverageScenario("report", {
+    priceStopLoss: 90,
+    leverage: 20,
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  const context = {
+    strategyName: "liquidation-strategy-report",
+    exchangeName: "liquidation-exchange-report",
+    frameName: "liquidation-frame-report",
+  };
+
+  const spotReport = await Backtest.getReport("BTCUSDT", context);
+
+  setConfig({ CC_REPORT_SHOW_LEVERAGE: true });
+
+  try {
+    const leverageReport = await Backtest.getReport("BTCUSDT", context);
+
+    if (spotReport.includes("PNL (margin)") || spotReport.includes("| Leverage |")) {
+      fail("expected no leverage columns by default");
+      return;
+    }
+
+    if (!leverageReport.includes("PNL (margin)") || !leverageReport.includes("| Leverage |")) {
+      fail("expected leverage columns with CC_REPORT_SHOW_LEVERAGE");
+      return;
+    }
+
+    pass("leverage columns follow CC_REPORT_SHOW_LEVERAGE");
+  } finally {
+    setConfig({ CC_REPORT_SHOW_LEVERAGE: false });
+  }
+});
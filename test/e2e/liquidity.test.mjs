@@ -0,0 +1,102 @@
+import { test } from "worker-testbed";
+
+import { setConfig } from "../../build/index.mjs";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Liquidity: каждая 1m свеча торгуется объёмом 100 по цене 100 — $10 000 в
+// котировке. При лимите 10% объёма свеча исполняет не больше $1 000 входа,
+// остаток добирается на следующих свечах или отменяется по таймауту.
+
+const MIN = 60_000;
+const BASE_PRICE = 100;
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    result.push({
+      timestamp: alignedSince + i * MIN,
+      open: BASE_PRICE,
+      high: BASE_PRICE + 0.1,
+      low: BASE_PRICE - 0.1,
+      close: BASE_PRICE,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runLiquidityScenario = (suffix, cost) =>
+  runSignalScenario({
+    name: "liquidity",
+    suffix,
+    getCandles,
+    signal: {
+      position: "long",
+      priceTakeProfit: 110,
+      priceStopLoss: 90,
+      minuteEstimatedTime: 60,
+      cost,
+    },
+  });
+
+test("liquidity: entry larger than one candle fills over the following candles", async ({ pass, fail }) => {
+  setConfig({ CC_BACKTEST_MAX_VOLUME_PERCENT: 10 }, true);
+
+  const event = await runLiquidityScenario("spread", 5_000);
+
+  setConfig({ CC_BACKTEST_MAX_VOLUME_PERCENT: 0 }, true);
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.signal.totalEntries !== 5) {
+    fail(`expected 5 fills of $1000, got ${event.signal.totalEntries}`);
+    return;
+  }
+
+  if (event.signal.unfilledCost !== 0) {
+    fail(`expected the entry to fill in full, got unfilledCost ${event.signal.unfilledCost}`);
+    return;
+  }
+
+  if (Math.abs(event.pnl.pnlEntries - 5_000) > 1e-9) {
+    fail(`expected pnlEntries 5000, got ${event.pnl.pnlEntries}`);
+    return;
+  }
+
+  pass("$5000 entry filled as five $1000 fills");
+});
+
+test("liquidity: unfilled rest is cancelled after the fill timeout", async ({ pass, fail }) => {
+  setConfig({ CC_BACKTEST_MAX_VOLUME_PERCENT: 10, CC_BACKTEST_FILL_TIMEOUT_MINUTES: 10 }, true);
+
+  const event = await runLiquidityScenario("timeout", 50_000);
+
+  setConfig({ CC_BACKTEST_MAX_VOLUME_PERCENT: 0, CC_BACKTEST_FILL_TIMEOUT_MINUTES: 60 }, true);
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.signal.totalEntries !== 11) {
+    fail(`expected 11 fills within the timeout, got ${event.signal.totalEntries}`);
+    return;
+  }
+
+  if (Math.abs(event.signal.unfilledCost - 39_000) > 1e-9) {
+    fail(`expected unfilledCost 39000, got ${event.signal.unfilledCost}`);
+    return;
+  }
+
+  if (Math.abs(event.pnl.pnlEntries - 11_000) > 1e-9) {
+    fail(`expected pnlEntries 11000, got ${event.pnl.pnlEntries}`);
+    return;
+  }
+
+  pass("partially filled entry reports the cancelled remainder");
+});
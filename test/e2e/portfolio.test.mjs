@@ -0,0 +1,252 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addStrategySchema,
+  Backtest,
+  Portfolio,
+  listenDoneBacktest,
+  listenSignalBacktest,
+  listenValidation,
+  setConfig,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Portfolio ledger: одна позиция на $100 от 100 до TakeProfit 110 при стартовом
+// капитале $10 000. После закрытия realized PnL равен pnlCost сделки, equity =
+// 10 000 + pnlCost, открытых позиций нет, кривая капитала содержит точки.
+// При включенном CC_PORTFOLIO_CASH_CHECK и капитале $50 сигнал на $100
+// отклоняется с уведомлением error.validation.
+// Второй бэктест на той же бирже и фрейме, запущенный во время первого,
+// присоединяется к общему счету и не стирает его открытую позицию.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = timestamp >= START + 20 * MIN ? 111 : 100;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.1,
+      low: price - 0.1,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const setupScenario = (suffix) => {
+  addExchangeSchema({
+    exchangeName: `portfolio-exchange-${suffix}`,
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  let signalGenerated = false;
+
+  addStrategySchema({
+    strategyName: `portfolio-strategy-${suffix}`,
+    interval: "1m",
+    getSignal: async () => {
+      if (signalGenerated) return null;
+      signalGenerated = true;
+      return {
+        position: "long",
+        priceTakeProfit: 110,
+        priceStopLoss: 90,
+        minuteEstimatedTime: 120,
+        cost: 100,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: `portfolio-frame-${suffix}`,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  Backtest.background("BTCUSDT", {
+    strategyName: `portfolio-strategy-${suffix}`,
+    exchangeName: `portfolio-exchange-${suffix}`,
+    frameName: `portfolio-frame-${suffix}`,
+  });
+};
+
+test("portfolio: closed trade moves the ledger equity by its pnlCost", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  let closed = null;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === "portfolio-strategy-ledger") {
+      closed = event;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "portfolio-strategy-ledger") {
+      resolve();
+    }
+  });
+
+  setupScenario("ledger");
+
+  await awaiter;
+
+  unSignal();
+  unDone();
+
+  if (!closed || closed.closeReason !== "take_profit") {
+    fail(`expected a take_profit close, got ${closed?.closeReason}`);
+    return;
+  }
+
+  const stats = await Portfolio.getData({
+    strategyName: "portfolio-strategy-ledger",
+    exchangeName: "portfolio-exchange-ledger",
+    frameName: "portfolio-frame-ledger",
+  }, true);
+
+  if (Math.abs(stats.realizedPnl - closed.pnl.pnlCost) > 1e-9) {
+    fail(`expected realized PnL ${closed.pnl.pnlCost}, got ${stats.realizedPnl}`);
+    return;
+  }
+
+  if (Math.abs(stats.equity - (10_000 + closed.pnl.pnlCost)) > 1e-9 || Math.abs(stats.cash - stats.equity) > 1e-9) {
+    fail(`expected equity and cash ${10_000 + closed.pnl.pnlCost}, got ${stats.equity} / ${stats.cash}`);
+    return;
+  }
+
+  if (stats.openPositions.length !== 0 || stats.totalTrades !== 1) {
+    fail(`expected 0 open positions and 1 trade, got ${stats.openPositions.length} / ${stats.totalTrades}`);
+    return;
+  }
+
+  if (stats.equityCurve.length < 2) {
+    fail(`expected opened and closed points on the equity curve, got ${stats.equityCurve.length}`);
+    return;
+  }
+
+  pass(`equity ${stats.equity.toFixed(2)} after +${closed.pnl.pnlCost.toFixed(2)} USD trade`);
+});
+
+test("portfolio: signal is rejected when free cash is below its cost", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const validationErrors = [];
+  const unValidation = listenValidation((error) => {
+    if (error.message.includes("insufficient cash")) {
+      validationErrors.push(error);
+    }
+  });
+
+  let opened = false;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "opened" && event.strategyName === "portfolio-strategy-cash") {
+      opened = true;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "portfolio-strategy-cash") {
+      resolve();
+    }
+  });
+
+  setConfig({ CC_PORTFOLIO_STARTING_CAPITAL: 50, CC_PORTFOLIO_CASH_CHECK: true }, true);
+
+  setupScenario("cash");
+
+  await awaiter;
+
+  setConfig({ CC_PORTFOLIO_STARTING_CAPITAL: 10_000, CC_PORTFOLIO_CASH_CHECK: false }, true);
+  unValidation();
+  unSignal();
+  unDone();
+
+  if (opened) {
+    fail("expected no position with $50 of free cash");
+    return;
+  }
+
+  if (!validationErrors.length) {
+    fail("expected an insufficient cash validation error");
+    return;
+  }
+
+  pass("$100 signal rejected with $50 of free cash");
+});
+
+test("portfolio: a backtest started mid-run joins the account instead of wiping it", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const context = {
+    exchangeName: "portfolio-exchange-join",
+    frameName: "portfolio-frame-join",
+  };
+
+  addStrategySchema({
+    strategyName: "portfolio-strategy-join-late",
+    interval: "1m",
+    getSignal: async () => null,
+  });
+
+  let opened = null;
+  let closed = null;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.strategyName !== "portfolio-strategy-join") {
+      return;
+    }
+    if (event.action === "opened") {
+      opened = event;
+      Backtest.background("ETHUSDT", { strategyName: "portfolio-strategy-join-late", ...context });
+    }
+    if (event.action === "closed") {
+      closed = event;
+    }
+  });
+
+  const pending = new Set(["portfolio-strategy-join", "portfolio-strategy-join-late"]);
+  const unDone = listenDoneBacktest((event) => {
+    pending.delete(event.strategyName);
+    if (!pending.size) {
+      resolve();
+    }
+  });
+
+  setupScenario("join");
+
+  await awaiter;
+
+  unSignal();
+  unDone();
+
+  if (!opened || !closed) {
+    fail("expected the first backtest to open and close a position");
+    return;
+  }
+
+  const stats = await Portfolio.getData({ strategyName: "portfolio-strategy-join", ...context }, true);
+
+  if (!stats.equityCurve.some(({ timestamp }) => timestamp === opened.createdAt)) {
+    fail("expected the opened point of the first backtest to survive the second start");
+    return;
+  }
+
+  if (stats.totalTrades !== 1 || Math.abs(stats.equity - (10_000 + closed.pnl.pnlCost)) > 1e-9) {
+    fail(`expected 1 trade and equity ${10_000 + closed.pnl.pnlCost}, got ${stats.totalTrades} / ${stats.equity}`);
+    return;
+  }
+
+  pass("second backtest joined the running account");
+});
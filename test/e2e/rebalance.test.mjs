@@ -0,0 +1,226 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addStrategySchema,
+  Backtest,
+  Fee,
+  Rebalance,
+  listenDoneBacktest,
+  listenSignalBacktest,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Portfolio strategy: getTargetWeights возвращает долю капитала $10 000 по символу
+// с интервалом 15m. Первые 30 минут вес BTCUSDT 0.5 — открывается long на $5 000.
+// Затем цена растет со 100 до 105, а вес падает до 0.2: дрейф выше порога 5 п.п.,
+// позиция уменьшается через commitPartialProfit. При весе 0 позиция закрывается
+// через commitClosePending. Отчет Rebalance содержит сделки и комиссию оборота.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = timestamp >= START + 20 * MIN ? 105 : 100;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.1,
+      low: price - 0.1,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runScenario = async (suffix, laterWeight) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  let closed = null;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === `rebalance-strategy-${suffix}`) {
+      closed = event;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === `rebalance-strategy-${suffix}`) {
+      resolve();
+    }
+  });
+
+  addExchangeSchema({
+    exchangeName: `rebalance-exchange-${suffix}`,
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addStrategySchema({
+    strategyName: `rebalance-strategy-${suffix}`,
+    interval: "15m",
+    driftThreshold: 5,
+    getTargetWeights: async (when) => ({
+      BTCUSDT: when.getTime() < START + 30 * MIN ? 0.5 : laterWeight,
+    }),
+  });
+
+  addFrameSchema({
+    frameName: `rebalance-frame-${suffix}`,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  Backtest.background("BTCUSDT", {
+    strategyName: `rebalance-strategy-${suffix}`,
+    exchangeName: `rebalance-exchange-${suffix}`,
+    frameName: `rebalance-frame-${suffix}`,
+  });
+
+  await awaiter;
+
+  unSignal();
+  unDone();
+
+  const stats = await Rebalance.getData({
+    strategyName: `rebalance-strategy-${suffix}`,
+    exchangeName: `rebalance-exchange-${suffix}`,
+    frameName: `rebalance-frame-${suffix}`,
+  }, true);
+
+  return { closed, stats };
+};
+
+test("rebalance: lower target weight reduces the position with a partial close", async ({ pass, fail }) => {
+  const { closed, stats } = await runScenario("partial", 0.2);
+
+  const [open, reduce] = stats.eventList;
+
+  if (!open || open.action !== "open" || Math.abs(open.tradeCost - 5_000) > 1e-6) {
+    fail(`expected a $5000 open event, got ${JSON.stringify(open)}`);
+    return;
+  }
+
+  if (!reduce || reduce.action !== "partial-profit" || !reduce.executed || reduce.targetWeight !== 0.2) {
+    fail(`expected an executed partial-profit event, got ${JSON.stringify(reduce)}`);
+    return;
+  }
+
+  if (!closed || closed.signal.totalPartials !== 1) {
+    fail(`expected one partial close on the closed signal, got ${closed?.signal.totalPartials}`);
+    return;
+  }
+
+  const expectedCost = (open.tradeCost + reduce.tradeCost) * 0.001;
+  if (Math.abs(stats.totalTurnoverCost - expectedCost) > 1e-6) {
+    fail(`expected turnover cost ${expectedCost}, got ${stats.totalTurnoverCost}`);
+    return;
+  }
+
+  pass(`reduced ${reduce.tradeCost.toFixed(2)} USD, turnover cost ${stats.totalTurnoverCost.toFixed(2)} USD`);
+});
+
+test("rebalance: zero target weight closes the position", async ({ pass, fail }) => {
+  const { closed, stats } = await runScenario("close", 0);
+
+  const closeEvent = stats.eventList.find(({ action }) => action === "close");
+
+  if (!closeEvent || !closeEvent.executed) {
+    fail(`expected an executed close event, got ${JSON.stringify(stats.eventList)}`);
+    return;
+  }
+
+  if (!closed || closed.closeReason !== "closed") {
+    fail(`expected a user close, got ${closed?.closeReason}`);
+    return;
+  }
+
+  pass(`position closed at ${new Date(closeEvent.timestamp).toISOString()}`);
+});
+
+test("rebalance: portfolio position survives a crash past the stop and pays the exchange taker fee", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  let closed = null;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === "rebalance-strategy-crash") {
+      closed = event;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "rebalance-strategy-crash") {
+      resolve();
+    }
+  });
+
+  // Цена падает на 99.5%: синтетический стоп портфельной позиции пробит при любом
+  // CC_MAX_STOPLOSS_DISTANCE_PERCENT, но позицию закрывает только ребалансер.
+  // Комиссия оборота — taker 0.05% из модели комиссий биржи
+  addExchangeSchema({
+    exchangeName: "rebalance-exchange-crash",
+    getCandles: async (_symbol, _interval, since, limit) => {
+      const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+      return Array.from({ length: limit }, (_, i) => {
+        const timestamp = alignedSince + i * MIN;
+        const price = timestamp >= START + 20 * MIN ? 0.5 : 100;
+        return { timestamp, open: price, high: price * 1.001, low: price * 0.999, close: price, volume: 100 };
+      });
+    },
+    getFee: Fee.makerTaker({ maker: 0.02, taker: 0.05 }),
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addStrategySchema({
+    strategyName: "rebalance-strategy-crash",
+    interval: "15m",
+    driftThreshold: 100,
+    getTargetWeights: async () => ({ BTCUSDT: 0.5 }),
+  });
+
+  addFrameSchema({
+    frameName: "rebalance-frame-crash",
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  Backtest.background("BTCUSDT", {
+    strategyName: "rebalance-strategy-crash",
+    exchangeName: "rebalance-exchange-crash",
+    frameName: "rebalance-frame-crash",
+  });
+
+  await awaiter;
+
+  unSignal();
+  unDone();
+
+  if (closed) {
+    fail(`expected the portfolio position to stay open, got closeReason ${closed.closeReason}`);
+    return;
+  }
+
+  const stats = await Rebalance.getData({
+    strategyName: "rebalance-strategy-crash",
+    exchangeName: "rebalance-exchange-crash",
+    frameName: "rebalance-frame-crash",
+  }, true);
+
+  const [open] = stats.eventList;
+  if (!open || open.action !== "open" || Math.abs(open.turnoverCost - open.tradeCost * 0.0005) > 1e-6) {
+    fail(`expected the taker fee of 0.05% on the open, got ${JSON.stringify(open)}`);
+    return;
+  }
+
+  pass(`position held through the crash, turnover cost ${open.turnoverCost.toFixed(2)} USD`);
+});
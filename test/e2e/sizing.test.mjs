@@ -0,0 +1,134 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addSizingSchema,
+  addStrategySchema,
+  Backtest,
+  listenDoneBacktest,
+  listenSignalBacktest,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// sizingName в схеме стратегии: сигнал без cost получает размер из схемы sizing.
+// Капитал портфеля $10 000, fixed-percentage с риском 1% = $100 на сделку.
+// Цена 100, стоп 95: стоп-дистанция 5, количество 100 / 5 = 20, cost = 20 × 100 = $2 000.
+// Сигнал с явным cost сохраняет его без изменений.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    result.push({
+      timestamp: alignedSince + i * MIN,
+      open: 100,
+      high: 100,
+      low: 100,
+      close: 100,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const runScenario = async (suffix, cost) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  let opened = null;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "opened" && event.strategyName === `sizing-strategy-${suffix}`) {
+      opened = event;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === `sizing-strategy-${suffix}`) {
+      resolve();
+    }
+  });
+
+  addExchangeSchema({
+    exchangeName: `sizing-exchange-${suffix}`,
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addSizingSchema({
+    sizingName: `sizing-fixed-${suffix}`,
+    method: "fixed-percentage",
+    riskPercentage: 1,
+  });
+
+  let emitted = false;
+  addStrategySchema({
+    strategyName: `sizing-strategy-${suffix}`,
+    interval: "1m",
+    sizingName: `sizing-fixed-${suffix}`,
+    getSignal: async () => {
+      if (emitted) {
+        return null;
+      }
+      emitted = true;
+      return {
+        position: "long",
+        priceTakeProfit: 110,
+        priceStopLoss: 95,
+        minuteEstimatedTime: 10,
+        cost,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: `sizing-frame-${suffix}`,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 30 * MIN),
+  });
+
+  Backtest.background("BTCUSDT", {
+    strategyName: `sizing-strategy-${suffix}`,
+    exchangeName: `sizing-exchange-${suffix}`,
+    frameName: `sizing-frame-${suffix}`,
+  });
+
+  await awaiter;
+
+  unSignal();
+  unDone();
+
+  return opened;
+};
+
+test("sizing: signal without cost is sized from the strategy sizingName", async ({ pass, fail }) => {
+  const opened = await runScenario("auto", undefined);
+
+  if (!opened) {
+    fail("expected an opened signal");
+    return;
+  }
+
+  if (Math.abs(opened.signal.cost - 2_000) > 1e-6) {
+    fail(`expected cost 2000 from 1% risk over a 5 stop distance, got ${opened.signal.cost}`);
+    return;
+  }
+
+  pass(`sized cost ${opened.signal.cost.toFixed(2)} USD`);
+});
+
+test("sizing: explicit signal cost is kept", async ({ pass, fail }) => {
+  const opened = await runScenario("explicit", 500);
+
+  if (!opened || opened.signal.cost !== 500) {
+    fail(`expected explicit cost 500, got ${opened?.signal.cost}`);
+    return;
+  }
+
+  pass("explicit cost kept");
+});
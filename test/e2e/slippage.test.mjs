@@ -0,0 +1,113 @@
+import { test } from "worker-testbed";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+// Slippage model: IExchangeSchema.slippage выбирает модель проскальзывания на
+// каждый филл. "fixed" с нулём убирает проскальзывание полностью, "order-book"
+// проходит по уровням стакана: половина позиции исполняется по лучшей цене,
+// вторая половина — на следующем уровне в 1% от неё.
+
+const MIN = 60_000;
+const BASE_PRICE = 100;
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    result.push({
+      timestamp: alignedSince + i * MIN,
+      open: BASE_PRICE,
+      high: BASE_PRICE + 0.1,
+      low: BASE_PRICE - 0.1,
+      close: BASE_PRICE,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const getOrderBook = async (symbol) => ({
+  symbol,
+  asks: [
+    { price: "101", quantity: "10" },
+    { price: "100", quantity: "0.5" },
+  ],
+  bids: [
+    { price: "100", quantity: "0.5" },
+    { price: "99", quantity: "10" },
+  ],
+});
+
+const runSlippageScenario = (suffix, exchange) =>
+  runSignalScenario({
+    name: "slippage",
+    suffix,
+    getCandles,
+    exchange,
+    signal: {
+      position: "long",
+      priceTakeProfit: 103,
+      priceStopLoss: 97,
+      minuteEstimatedTime: 30,
+    },
+  });
+
+test("slippage model fixed: zero percent removes slippage cost", async ({ pass, fail }) => {
+  const event = await runSlippageScenario("fixed", {
+    slippage: { method: "fixed", percent: 0 },
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (Math.abs(event.pnl.slippageCost) > 1e-9) {
+    fail(`expected zero slippageCost, got ${event.pnl.slippageCost}`);
+    return;
+  }
+
+  pass("fixed zero slippage yields zero slippage cost");
+});
+
+test("slippage model order-book: walking a thin book costs about 0.5% per side", async ({ pass, fail }) => {
+  const event = await runSlippageScenario("order-book", {
+    getOrderBook,
+    slippage: { method: "order-book" },
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "time_expired") {
+    fail(`expected time_expired, got ${event.closeReason}`);
+    return;
+  }
+
+  if (!(event.pnl.slippageCost > 0.9 && event.pnl.slippageCost < 1.1)) {
+    fail(`expected slippageCost ~1 USD on a 100 USD position, got ${event.pnl.slippageCost}`);
+    return;
+  }
+
+  pass("order-book walk slippage is reported separately from fees");
+});
+
+test("slippage model order-book: falls back when getOrderBook is not implemented", async ({ pass, fail }) => {
+  const event = await runSlippageScenario("order-book-fallback", {
+    slippage: { method: "order-book", fallbackPercent: 0 },
+  });
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (Math.abs(event.pnl.slippageCost) > 1e-9) {
+    fail(`expected zero slippageCost from fallbackPercent, got ${event.pnl.slippageCost}`);
+    return;
+  }
+
+  pass("order-book model uses fallbackPercent without an order book");
+});
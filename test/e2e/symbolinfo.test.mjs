@@ -0,0 +1,243 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addStrategySchema,
+  Backtest,
+  commitAverageBuy,
+  listenDoneBacktest,
+  listenSignalBacktest,
+  listenValidation,
+  setConfig,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Symbol info: правила биржи tickSize 0.5, stepSize 0.01, minNotional 5.
+// Сигнал на $150.7 по цене 100 округляется до 1.50 лота ($150), TakeProfit 110.3
+// и StopLoss 90.2 — до ближайших 110.5 и 90. Сигнал на $3 ниже minNotional
+// отклоняется с уведомлением error.validation и позиция не открывается.
+// Усреднение проверяется по запрошенной стоимости: при maxQty 0.6 докупка
+// на $50 проходит, хотя дефолтные $100 превысили бы лимит.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    result.push({
+      timestamp: alignedSince + i * MIN,
+      open: 100,
+      high: 100.1,
+      low: 99.9,
+      close: 100,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const getSymbolInfo = async () => ({
+  tickSize: "0.5",
+  stepSize: "0.01",
+  minQty: "0.01",
+  maxQty: "1000",
+  minNotional: "5",
+});
+
+const setupScenario = (suffix, cost) => {
+  addExchangeSchema({
+    exchangeName: `symbolinfo-exchange-${suffix}`,
+    getCandles,
+    getSymbolInfo,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  let signalGenerated = false;
+
+  addStrategySchema({
+    strategyName: `symbolinfo-strategy-${suffix}`,
+    interval: "1m",
+    getSignal: async () => {
+      if (signalGenerated) return null;
+      signalGenerated = true;
+      return {
+        position: "long",
+        priceTakeProfit: 110.3,
+        priceStopLoss: 90.2,
+        minuteEstimatedTime: 30,
+        cost,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: `symbolinfo-frame-${suffix}`,
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  Backtest.background("BTCUSDT", {
+    strategyName: `symbolinfo-strategy-${suffix}`,
+    exchangeName: `symbolinfo-exchange-${suffix}`,
+    frameName: `symbolinfo-frame-${suffix}`,
+  });
+};
+
+test("symbol info: signal prices and cost are rounded to exchange rules", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const unsubscribe = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === "symbolinfo-strategy-round") {
+      unsubscribe();
+      resolve(event);
+    }
+  });
+
+  setupScenario("round", 150.7);
+
+  const event = await awaiter;
+
+  if (event.signal.priceTakeProfit !== 110.5 || event.signal.priceStopLoss !== 90) {
+    fail(`expected TP 110.5 and SL 90, got ${event.signal.priceTakeProfit} / ${event.signal.priceStopLoss}`);
+    return;
+  }
+
+  if (Math.abs(event.signal.cost - 150) > 1e-9) {
+    fail(`expected cost rounded down to 1.50 lots ($150), got ${event.signal.cost}`);
+    return;
+  }
+
+  pass("TP/SL rounded to tickSize and cost to stepSize");
+});
+
+test("symbol info: signal below minNotional is rejected with error.validation", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const validationErrors = [];
+  const unValidation = listenValidation((error) => {
+    if (error.message.includes("symbol trading rules")) {
+      validationErrors.push(error);
+    }
+  });
+
+  let opened = false;
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "opened" && event.strategyName === "symbolinfo-strategy-reject") {
+      opened = true;
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "symbolinfo-strategy-reject") {
+      resolve();
+    }
+  });
+
+  setupScenario("reject", 3);
+
+  await awaiter;
+
+  unValidation();
+  unSignal();
+  unDone();
+
+  if (opened) {
+    fail("expected no position below minNotional");
+    return;
+  }
+
+  if (!validationErrors.length || !validationErrors[0].message.includes("minNotional")) {
+    fail(`expected a minNotional validation error, got ${validationErrors.map((e) => e.message)}`);
+    return;
+  }
+
+  pass("$3 signal rejected by minNotional 5");
+});
+
+test("symbol info: averageBuy is validated at the requested cost", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  addExchangeSchema({
+    exchangeName: "symbolinfo-exchange-average",
+    getCandles,
+    getSymbolInfo: async () => ({
+      tickSize: "0.5",
+      stepSize: "0.01",
+      minQty: "0.01",
+      maxQty: "0.6",
+      minNotional: "5",
+    }),
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  let signalGenerated = false;
+  let averageResult = null;
+
+  addStrategySchema({
+    strategyName: "symbolinfo-strategy-average",
+    interval: "1m",
+    getSignal: async () => {
+      if (signalGenerated) return null;
+      signalGenerated = true;
+      return {
+        position: "long",
+        priceTakeProfit: 110.3,
+        priceStopLoss: 90.2,
+        minuteEstimatedTime: 30,
+        cost: 50,
+      };
+    },
+    callbacks: {
+      onActivePing: async (symbol) => {
+        if (averageResult === null) {
+          averageResult = await commitAverageBuy(symbol, 50);
+        }
+      },
+    },
+  });
+
+  addFrameSchema({
+    frameName: "symbolinfo-frame-average",
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  const unsubscribe = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === "symbolinfo-strategy-average") {
+      unsubscribe();
+      resolve(event);
+    }
+  });
+
+  setConfig({ CC_ENABLE_DCA_EVERYWHERE: true }, true);
+
+  Backtest.background("BTCUSDT", {
+    strategyName: "symbolinfo-strategy-average",
+    exchangeName: "symbolinfo-exchange-average",
+    frameName: "symbolinfo-frame-average",
+  });
+
+  const event = await awaiter;
+
+  setConfig({ CC_ENABLE_DCA_EVERYWHERE: false }, true);
+
+  if (averageResult !== true) {
+    fail(`expected the $50 average buy within maxQty 0.6 to pass, got ${averageResult}`);
+    return;
+  }
+
+  if (event.signal.totalEntries !== 2) {
+    fail(`expected two entries after the average buy, got ${event.signal.totalEntries}`);
+    return;
+  }
+
+  pass("$50 average buy validated at its own cost, not the default $100");
+});
@@ -0,0 +1,129 @@
+import { test } from "worker-testbed";
+
+import { TradeReplay } from "../../build/index.mjs";
+
+import { runSignalScenario } from "../utils/scenario_helpers.mjs";
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+// Tick: лонг от 100 с TakeProfit 110 и StopLoss 90. На 10-й минуте свеча
+// с хвостами 89..111 задевает оба уровня, а её VWAP остаётся около 100.
+// При fill model "tick" исход решает порядок сделок внутри минуты; без сделок
+// минута проверяется по свечам и позиция доживает до time_expired.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+const SPIKE_TIMESTAMP = START + 10 * MIN;
+
+const getCandles = async (_symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const spike = timestamp === SPIKE_TIMESTAMP;
+    result.push({
+      timestamp,
+      open: 100,
+      high: spike ? 111 : 100.1,
+      low: spike ? 89 : 99.9,
+      close: 100,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+const createTrades = (prices) =>
+  prices.map((price, idx) => ({
+    id: String(idx + 1),
+    price,
+    qty: 1,
+    timestamp: SPIKE_TIMESTAMP + (idx + 1) * 1_000,
+    isBuyerMaker: false,
+  }));
+
+const runTickScenario = (suffix, getAggregatedTrades) =>
+  runSignalScenario({
+    name: "tick",
+    suffix,
+    getCandles,
+    exchange: { getAggregatedTrades },
+    strategy: { fillModel: "tick" },
+    signal: {
+      position: "long",
+      priceTakeProfit: 110,
+      priceStopLoss: 90,
+      minuteEstimatedTime: 60,
+    },
+  });
+
+const createTradeSource = (prices) => {
+  const trades = createTrades(prices);
+  return async (_symbol, from, to) =>
+    trades.filter(({ timestamp }) => timestamp >= from.getTime() && timestamp <= to.getTime());
+};
+
+test("tick: trade order inside the minute decides TakeProfit vs StopLoss", async ({ pass, fail }) => {
+  const takeFirst = await runTickScenario("take-first", createTradeSource([104, 111, 89]));
+  const stopFirst = await runTickScenario("stop-first", createTradeSource([95, 89, 111]));
+
+  if (!takeFirst || !stopFirst) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (takeFirst.closeReason !== "take_profit" || Math.abs(takeFirst.currentPrice - 110) > 1e-9) {
+    fail(`expected take_profit at 110, got ${takeFirst.closeReason} at ${takeFirst.currentPrice}`);
+    return;
+  }
+
+  if (stopFirst.closeReason !== "stop_loss" || Math.abs(stopFirst.currentPrice - 90) > 1e-9) {
+    fail(`expected stop_loss at 90, got ${stopFirst.closeReason} at ${stopFirst.currentPrice}`);
+    return;
+  }
+
+  pass("first crossing trade wins in both orders");
+});
+
+test("tick: minutes without trades fall back to candles", async ({ pass, fail }) => {
+  const event = await runTickScenario("fallback", async () => []);
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "time_expired") {
+    fail(`expected time_expired with VWAP fallback, got ${event.closeReason}`);
+    return;
+  }
+
+  pass("no trades: the spike candle is resolved by VWAP and does not close the position");
+});
+
+test("tick: TradeReplay reads a local aggTrades CSV", async ({ pass, fail }) => {
+  const filePath = path.join(os.tmpdir(), `tick-replay-${Date.now()}.csv`);
+  const lines = createTrades([95, 89, 111]).map(
+    ({ id, price, qty, timestamp, isBuyerMaker }) =>
+      `${id},${price},${qty},${id},${id},${timestamp * 1000},${isBuyerMaker}`
+  );
+  await fs.writeFile(filePath, ["agg_trade_id,price,quantity,first_trade_id,last_trade_id,transact_time,is_buyer_maker", ...lines].join("\n"));
+
+  const event = await runTickScenario("replay", TradeReplay.fromCsv(filePath));
+
+  await fs.unlink(filePath);
+
+  if (!event) {
+    fail("expected the signal to close");
+    return;
+  }
+
+  if (event.closeReason !== "stop_loss") {
+    fail(`expected stop_loss from the CSV trades, got ${event.closeReason}`);
+    return;
+  }
+
+  pass("CSV with microsecond timestamps replayed offline");
+});
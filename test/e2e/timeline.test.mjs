@@ -0,0 +1,253 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addRiskSchema,
+  addStrategySchema,
+  Backtest,
+  listenDoneBacktest,
+  listenSignalBacktest,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Общий таймлайн: BTCUSDT и ETHUSDT проходят один фрейм в порядке времени,
+// общий риск допускает одну открытую позицию. BTCUSDT открывается первым и
+// закрывается по TakeProfit на 20-й минуте, ETHUSDT отклоняется риском, пока
+// позиция BTCUSDT открыта, и открывается только после её закрытия. Позиции
+// двух символов ни в один момент не пересекаются.
+// Список из одного символа (после удаления повторов) идет обычным путем
+// одного символа: закрытие по TakeProfit находится на свече 20-й минуты,
+// не дожидаясь следующего тика часового фрейма. Пустой список отклоняется.
+// Модели исполнения, которым нужны свечи (fill model кроме "vwap", latency,
+// CC_BACKTEST_MAX_VOLUME_PERCENT), для нескольких символов отклоняются сразу.
+
+const MIN = 60_000;
+const START = new Date("2024-01-01T00:00:00Z").getTime();
+
+const getCandles = async (symbol, _interval, since, limit) => {
+  const result = [];
+  const alignedSince = Math.floor(since.getTime() / MIN) * MIN;
+  for (let i = 0; i < limit; i++) {
+    const timestamp = alignedSince + i * MIN;
+    const price = symbol === "BTCUSDT" && timestamp >= START + 20 * MIN ? 111 : 100;
+    result.push({
+      timestamp,
+      open: price,
+      high: price + 0.1,
+      low: price - 0.1,
+      close: price,
+      volume: 100,
+    });
+  }
+  return result;
+};
+
+test("timeline: shared risk sees the position of the other symbol", async ({ pass, fail }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const openSymbols = new Set();
+  const events = [];
+  let overlap = null;
+
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.strategyName !== "timeline-strategy") {
+      return;
+    }
+    if (event.action === "opened") {
+      if (openSymbols.size > 0) {
+        overlap = `${event.symbol} opened while ${[...openSymbols].join(",")} was open`;
+      }
+      openSymbols.add(event.symbol);
+      events.push({ action: "opened", symbol: event.symbol, timestamp: event.signal.pendingAt });
+    }
+    if (event.action === "closed") {
+      openSymbols.delete(event.symbol);
+      events.push({ action: "closed", symbol: event.symbol, timestamp: event.closeTimestamp });
+    }
+  });
+
+  let doneCount = 0;
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === "timeline-strategy" && ++doneCount === 2) {
+      resolve();
+    }
+  });
+
+  addExchangeSchema({
+    exchangeName: "timeline-exchange",
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addRiskSchema({
+    riskName: "timeline-risk",
+    validations: [
+      ({ activePositionCount }) => {
+        if (activePositionCount >= 1) {
+          throw new Error("timeline: risk limit is 1 concurrent position");
+        }
+      },
+    ],
+  });
+
+  addStrategySchema({
+    strategyName: "timeline-strategy",
+    interval: "1m",
+    riskName: "timeline-risk",
+    getSignal: async () => ({
+      position: "long",
+      priceTakeProfit: 110,
+      priceStopLoss: 90,
+      minuteEstimatedTime: 120,
+    }),
+  });
+
+  addFrameSchema({
+    frameName: "timeline-frame",
+    interval: "1m",
+    startDate: new Date(START),
+    endDate: new Date(START + 60 * MIN),
+  });
+
+  Backtest.background(["BTCUSDT", "ETHUSDT"], {
+    strategyName: "timeline-strategy",
+    exchangeName: "timeline-exchange",
+    frameName: "timeline-frame",
+  });
+
+  await awaiter;
+
+  unSignal();
+  unDone();
+
+  if (overlap) {
+    fail(`positions overlapped: ${overlap}`);
+    return;
+  }
+
+  const btcClosed = events.find((event) => event.action === "closed" && event.symbol === "BTCUSDT");
+  const ethOpened = events.find((event) => event.action === "opened" && event.symbol === "ETHUSDT");
+
+  if (!btcClosed || !ethOpened) {
+    fail(`expected BTCUSDT close and ETHUSDT open, got ${JSON.stringify(events)}`);
+    return;
+  }
+
+  if (ethOpened.timestamp < btcClosed.timestamp) {
+    fail(`ETHUSDT opened at ${ethOpened.timestamp} before BTCUSDT closed at ${btcClosed.timestamp}`);
+    return;
+  }
+
+  pass(`ETHUSDT opened ${(ethOpened.timestamp - btcClosed.timestamp) / MIN} min after BTCUSDT closed`);
+});
+
+test("timeline: a list of one symbol runs like the symbol itself", async ({ pass, fail }) => {
+  addExchangeSchema({
+    exchangeName: "timeline-exchange-single",
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  let signalGenerated = false;
+
+  addStrategySchema({
+    strategyName: "timeline-strategy-single",
+    interval: "1m",
+    getSignal: async () => {
+      if (signalGenerated) return null;
+      signalGenerated = true;
+      return {
+        position: "long",
+        priceTakeProfit: 110,
+        priceStopLoss: 90,
+        minuteEstimatedTime: 120,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: "timeline-frame-single",
+    interval: "1h",
+    startDate: new Date(START),
+    endDate: new Date(START + 3 * 60 * MIN),
+  });
+
+  const context = {
+    strategyName: "timeline-strategy-single",
+    exchangeName: "timeline-exchange-single",
+    frameName: "timeline-frame-single",
+  };
+
+  const collectCloses = async (symbol) => {
+    signalGenerated = false;
+    const closes = [];
+    for await (const result of Backtest.run(symbol, context)) {
+      if (result.action === "closed") {
+        closes.push(result.closeTimestamp);
+      }
+    }
+    return closes;
+  };
+
+  const single = await collectCloses("BTCUSDT");
+  const list = await collectCloses(["BTCUSDT", "BTCUSDT"]);
+
+  if (single.length !== 1 || single[0] >= START + 60 * MIN) {
+    fail(`expected the single symbol run to close inside the first hour frame, got ${JSON.stringify(single)}`);
+    return;
+  }
+
+  if (JSON.stringify(list) !== JSON.stringify(single)) {
+    fail(`expected the deduplicated list to match the single symbol run, got ${JSON.stringify(list)} vs ${JSON.stringify(single)}`);
+    return;
+  }
+
+  pass("one-symbol list closed on the same candle as the symbol run");
+});
+
+test("timeline: an empty symbol list is rejected", async ({ pass, fail }) => {
+  try {
+    Backtest.run([], {
+      strategyName: "timeline-strategy",
+      exchangeName: "timeline-exchange",
+      frameName: "timeline-frame",
+    });
+  } catch (error) {
+    if (error.message.includes("at least one symbol")) {
+      pass("empty list rejected");
+      return;
+    }
+    fail(`expected the empty list error, got ${error.message}`);
+    return;
+  }
+  fail("expected Backtest.run([]) to throw");
+});
+
+test("timeline: candle-only execution models are rejected for several symbols", async ({ pass, fail }) => {
+  addStrategySchema({
+    strategyName: "timeline-strategy-wick",
+    interval: "1m",
+    fillModel: "wick",
+    getSignal: async () => null,
+  });
+
+  try {
+    Backtest.run(["BTCUSDT", "ETHUSDT"], {
+      strategyName: "timeline-strategy-wick",
+      exchangeName: "timeline-exchange",
+      frameName: "timeline-frame",
+    });
+  } catch (error) {
+    if (error.message.includes('fill model "wick"')) {
+      pass("wick fill model rejected on the shared timeline");
+      return;
+    }
+    fail(`expected the fill model error, got ${error.message}`);
+    return;
+  }
+  fail("expected Backtest.run with a wick fill model and two symbols to throw");
+});
@@ -58,15 +58,35 @@ import "./e2e/live.test.mjs";
 import "./e2e/broker_cancel.test.mjs";
 import "./e2e/strategy_fn.test.mjs";
 import "./e2e/edge_fn.test.mjs";
+import "./e2e/fill.test.mjs";
+import "./e2e/fee.test.mjs";
+import "./e2e/slippage.test.mjs";
+import "./e2e/liquidation.test.mjs";
+import "./e2e/funding.test.mjs";
+import "./e2e/liquidity.test.mjs";
+import "./e2e/latency.test.mjs";
+import "./e2e/gap.test.mjs";
+import "./e2e/tick.test.mjs";
+import "./e2e/symbolinfo.test.mjs";
+import "./e2e/portfolio.test.mjs";
+import "./e2e/timeline.test.mjs";
+import "./e2e/allocator.test.mjs";
+import "./e2e/rebalance.test.mjs";
+import "./e2e/benchmark.test.mjs";
+import "./e2e/currency.test.mjs";
+import "./e2e/sizing.test.mjs";
 
 import "./spec/audit.test.mjs";
 import "./spec/live.test.mjs";
 import "./spec/scheduled.test.mjs";
 import "./spec/exchange.test.mjs";
 import "./spec/risk.test.mjs";
+import "./spec/risk_validation.test.mjs";
+import "./spec/circuit.test.mjs";
 import "./spec/sizing.test.mjs";
 import "./spec/heat.test.mjs";
 import "./spec/walker.test.mjs";
+import "./spec/params.test.mjs";
 import "./spec/performance.test.mjs";
 import "./spec/list.test.mjs";
 import "./spec/callbacks.test.mjs";
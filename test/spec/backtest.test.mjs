@@ -994,3 +994,118 @@ test("listenBacktestProgress tracks backtest progress", async ({ pass, fail }) =
   fail("Progress tracking validation failed");
 
 });
+
+test("Backtest.getMonteCarlo resamples closed signals with a seed", async ({ pass, fail }) => {
+
+  const startTime = new Date("2024-01-01T00:00:00Z").getTime();
+  const intervalMs = 60000;
+  const basePrice = 42000;
+
+  // Price rises 10 per minute: longs hit take profit, shorts hit stop loss
+  addExchangeSchema({
+    exchangeName: "binance-mock-monte-carlo",
+    getCandles: async (_symbol, _interval, since, limit) => {
+      const alignedSince = alignTimestamp(since.getTime(), 1);
+      const result = [];
+      for (let i = 0; i < limit; i++) {
+        const timestamp = alignedSince + i * intervalMs;
+        const price = basePrice + ((timestamp - startTime) / intervalMs) * 10;
+        result.push({
+          timestamp,
+          open: price,
+          high: price + 5,
+          low: price - 5,
+          close: price,
+          volume: 100,
+        });
+      }
+      return result;
+    },
+    formatPrice: async (symbol, price) => {
+      return price.toFixed(8);
+    },
+    formatQuantity: async (symbol, quantity) => {
+      return quantity.toFixed(8);
+    },
+  });
+
+  let signalIndex = 0;
+
+  // Alternates long and short: wins and losses interleave, longest losing streak is 1
+  addStrategySchema({
+    strategyName: "test-strategy-monte-carlo",
+    interval: "1m",
+    getSignal: async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      const position = signalIndex++ % 2 === 0 ? "long" : "short";
+      return position === "long"
+        ? {
+            position,
+            priceOpen: price,
+            priceTakeProfit: price + 30,
+            priceStopLoss: price - 1_000,
+            minuteEstimatedTime: 60,
+          }
+        : {
+            position,
+            priceOpen: price,
+            priceTakeProfit: price - 1_000,
+            priceStopLoss: price + 30,
+            minuteEstimatedTime: 60,
+          };
+    },
+  });
+
+  addFrameSchema({
+    frameName: "4h-backtest-monte-carlo",
+    interval: "1m",
+    startDate: new Date("2024-01-01T00:00:00Z"),
+    endDate: new Date("2024-01-01T04:00:00Z"),
+  });
+
+  const context = {
+    strategyName: "test-strategy-monte-carlo",
+    exchangeName: "binance-mock-monte-carlo",
+    frameName: "4h-backtest-monte-carlo",
+  };
+
+  for await (const _ of Backtest.run("BTCUSDT", context)) {
+  }
+
+  const shuffle = await Backtest.getMonteCarlo("BTCUSDT", context, {
+    method: "shuffle",
+    simulations: 200,
+    seed: 7,
+  });
+
+  if (shuffle.totalSignals < 10 || shuffle.totalPnl.values.length !== 200) {
+    fail(`expected 200 paths over at least 10 signals, got ${shuffle.totalPnl.values.length} paths over ${shuffle.totalSignals}`);
+    return;
+  }
+
+  if (Math.abs(shuffle.totalPnl.p95 - shuffle.totalPnl.p5) > 1e-9 || Math.abs(shuffle.totalPnl.p50 - shuffle.totalPnl.actual) > 1e-9) {
+    fail(`expected shuffle to keep total PNL, got p5=${shuffle.totalPnl.p5} p95=${shuffle.totalPnl.p95} actual=${shuffle.totalPnl.actual}`);
+    return;
+  }
+
+  if (shuffle.maxLosingStreak.actual !== 1 || shuffle.maxLosingStreak.p95 <= 1) {
+    fail(`expected shuffled paths to produce longer losing streaks than 1, got actual=${shuffle.maxLosingStreak.actual} p95=${shuffle.maxLosingStreak.p95}`);
+    return;
+  }
+
+  const first = await Backtest.getMonteCarlo("BTCUSDT", context, { method: "block", blockSize: 4, simulations: 100, seed: 11 });
+  const second = await Backtest.getMonteCarlo("BTCUSDT", context, { method: "block", blockSize: 4, simulations: 100, seed: 11 });
+
+  if (first.maxDrawdown.values.join(",") !== second.maxDrawdown.values.join(",") || first.riskOfRuin !== second.riskOfRuin) {
+    fail("expected the same seed to produce the same block bootstrap paths");
+    return;
+  }
+
+  const report = await Backtest.getReport("BTCUSDT", context, undefined, { simulations: 100 });
+  if (!report.includes("## Monte Carlo") || !report.includes("**Risk of Ruin:**")) {
+    fail("expected the report to include the Monte Carlo section");
+    return;
+  }
+
+  pass(`Monte Carlo over ${shuffle.totalSignals} signals, shuffled losing streak p95=${shuffle.maxLosingStreak.p95}`);
+});
@@ -0,0 +1,253 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addStrategySchema,
+  CircuitBreaker,
+  emitters,
+  Live,
+  listenCircuitTripOnce,
+  PersistCircuitAdapter,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+// Аварийный выключатель счета: отказы брокера в live считаются в скользящем
+// окне, бэктест-события игнорируются. Сработавшее состояние сохраняется до reset().
+// PersistCircuitAdapter в глобальном setup переведен в dummy.
+
+const CREATE_REJECT_FN = (exchangeName, timestamp, backtest = false) => ({
+  type: "active",
+  action: "signal-close",
+  symbol: "BTCUSDT",
+  strategyName: "circuit-strategy",
+  exchangeName,
+  frameName: "",
+  backtest,
+  signalId: `signal-${timestamp}`,
+  timestamp,
+  message: "insufficient balance",
+});
+
+test("CircuitBreaker trips on the order rejection rate and ignores backtest rejections", async ({ pass, fail }) => {
+  const exchangeName = "binance-circuit-rejects";
+
+  addExchangeSchema({
+    exchangeName,
+    getCandles: async () => [],
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  const [awaiter, { resolve }] = createAwaiter();
+  listenCircuitTripOnce((event) => event.exchangeName === exchangeName, resolve);
+
+  const dispose = CircuitBreaker.enable({
+    maxOrderRejects: { count: 3, windowMinutes: 10 },
+  });
+
+  try {
+    const now = Date.now();
+    await emitters.orderRejectSubject.next(CREATE_REJECT_FN(exchangeName, now - 60_000, true));
+    await emitters.orderRejectSubject.next(CREATE_REJECT_FN(exchangeName, now - 60_000, true));
+    // за пределами окна: не учитывается
+    await emitters.orderRejectSubject.next(CREATE_REJECT_FN(exchangeName, now - 30 * 60_000));
+    await emitters.orderRejectSubject.next(CREATE_REJECT_FN(exchangeName, now - 2 * 60_000));
+    await emitters.orderRejectSubject.next(CREATE_REJECT_FN(exchangeName, now - 60_000));
+
+    if ((await CircuitBreaker.getState(exchangeName)).tripped) {
+      fail("expected two live rejections inside the window to keep the breaker armed");
+      return;
+    }
+
+    await emitters.orderRejectSubject.next(CREATE_REJECT_FN(exchangeName, now));
+
+    const event = await awaiter;
+    if (event.rule !== "error_rate" || event.value !== 3 || event.backtest) {
+      fail(`expected error_rate trip at 3 rejections, got ${JSON.stringify(event)}`);
+      return;
+    }
+
+    await CircuitBreaker.reset(exchangeName);
+    if ((await CircuitBreaker.getState(exchangeName)).tripped) {
+      fail("expected reset to re-arm the breaker");
+      return;
+    }
+
+    pass(event.note);
+  } finally {
+    dispose();
+  }
+});
+
+test("CircuitBreaker.trip is a manual kill switch persisted until reset", async ({ pass, fail }) => {
+  const exchangeName = "binance-circuit-manual";
+
+  addExchangeSchema({
+    exchangeName,
+    getCandles: async () => [],
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  const [awaiter, { resolve }] = createAwaiter();
+  listenCircuitTripOnce((event) => event.exchangeName === exchangeName, resolve);
+
+  await CircuitBreaker.trip(exchangeName, "operator stop");
+
+  const event = await awaiter;
+  const state = await CircuitBreaker.getState(exchangeName);
+
+  if (event.rule !== "manual" || event.note !== "operator stop" || event.value !== null) {
+    fail(`expected manual trip event, got ${JSON.stringify(event)}`);
+    return;
+  }
+
+  if (!state.tripped || state.rule !== "manual" || state.trippedAt === null) {
+    fail(`expected tripped manual state, got ${JSON.stringify(state)}`);
+    return;
+  }
+
+  await CircuitBreaker.reset(exchangeName);
+
+  const { tripped, rule } = await CircuitBreaker.getState(exchangeName);
+  if (tripped || rule !== null) {
+    fail(`expected cleared state after reset, got tripped=${tripped} rule=${rule}`);
+    return;
+  }
+
+  pass("manual trip persisted until reset");
+});
+
+test("Persisted trip blocks new live positions after a restart without enable()", async ({ pass, fail }) => {
+  const exchangeName = "binance-circuit-restart";
+  const strategyName = "test-strategy-circuit-restart";
+  const intervalMs = 60000;
+  const basePrice = 42000;
+
+  // Состояние "после рестарта": счет сработал в прошлом процессе, enable() не вызывался
+  PersistCircuitAdapter.usePersistCircuitAdapter(class {
+    constructor(name) {
+      this.name = name;
+    }
+    async waitForInit() {}
+    async readCircuitData() {
+      return this.name === exchangeName
+        ? { exchangeName, tripped: true, rule: "manual", note: "operator stop", trippedAt: Date.now() - intervalMs, dayStart: 0, realizedPnl: 0 }
+        : null;
+    }
+    async writeCircuitData() {}
+  });
+
+  addExchangeSchema({
+    exchangeName,
+    getCandles: async (_symbol, _interval, since, limit) => {
+      const alignedSince = Math.floor(since.getTime() / intervalMs) * intervalMs;
+      return Array.from({ length: limit }, (_, i) => ({
+        timestamp: alignedSince + i * intervalMs,
+        open: basePrice,
+        high: basePrice + 10,
+        low: basePrice - 10,
+        close: basePrice,
+        volume: 100,
+      }));
+    },
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  const [awaiter, { resolve }] = createAwaiter();
+  let signalCalls = 0;
+
+  addStrategySchema({
+    strategyName,
+    interval: "1m",
+    getSignal: async () => {
+      signalCalls += 1;
+      return {
+        position: "long",
+        priceTakeProfit: basePrice + 1_000,
+        priceStopLoss: basePrice - 1_000,
+        minuteEstimatedTime: 60,
+      };
+    },
+    callbacks: {
+      onIdle: () => resolve(),
+      onOpen: () => resolve(),
+    },
+  });
+
+  try {
+    Live.background("BTCUSDT", { strategyName, exchangeName });
+    await awaiter;
+
+    if (signalCalls !== 0) {
+      fail(`expected the persisted trip to block getSignal on the first tick, got ${signalCalls} calls`);
+      return;
+    }
+
+    pass("first live tick after restart stayed idle");
+  } finally {
+    await Live.stop("BTCUSDT", { strategyName, exchangeName });
+    PersistCircuitAdapter.useDummy();
+  }
+});
+
+test("CircuitBreaker.reset resumes live strategies on futures symbols", async ({ pass, fail }) => {
+  const exchangeName = "binance-circuit-futures";
+  const strategyName = "test-strategy-circuit-futures";
+  const symbol = "BTC/USDT:USDT";
+  const intervalMs = 60000;
+  const basePrice = 42000;
+
+  addExchangeSchema({
+    exchangeName,
+    getCandles: async (_symbol, _interval, since, limit) => {
+      const alignedSince = Math.floor(since.getTime() / intervalMs) * intervalMs;
+      return Array.from({ length: limit }, (_, i) => ({
+        timestamp: alignedSince + i * intervalMs,
+        open: basePrice,
+        high: basePrice + 10,
+        low: basePrice - 10,
+        close: basePrice,
+        volume: 100,
+      }));
+    },
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  const [awaiter, { resolve }] = createAwaiter();
+
+  addStrategySchema({
+    strategyName,
+    interval: "1m",
+    getSignal: async () => null,
+    callbacks: {
+      onIdle: () => resolve(),
+    },
+  });
+
+  try {
+    Live.background(symbol, { strategyName, exchangeName });
+    await awaiter;
+
+    await CircuitBreaker.trip(exchangeName, "operator stop");
+
+    if (!(await Live.getPaused(symbol, { strategyName, exchangeName }))) {
+      fail("expected the trip to pause the futures strategy");
+      return;
+    }
+
+    await CircuitBreaker.reset(exchangeName);
+
+    if (await Live.getPaused(symbol, { strategyName, exchangeName })) {
+      fail("expected reset to resume the futures strategy");
+      return;
+    }
+
+    pass(`${symbol} paused on trip and resumed on reset`);
+  } finally {
+    await Live.stop(symbol, { strategyName, exchangeName });
+  }
+});
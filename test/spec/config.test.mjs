@@ -435,3 +435,18 @@ test("ConfigValidationService: multiple errors aggregated", async ({ pass, fail
     }
   }
 });
+
+test("ConfigValidationService: unknown BACKTEST_FILL_MODEL fails", async ({ pass, fail }) => {
+  setConfig(getDefaultConfig());
+
+  try {
+    setConfig({ CC_BACKTEST_FILL_MODEL: "close" });
+    fail("Should have thrown error for unknown fill model");
+  } catch (error) {
+    if (error.message.includes("CC_BACKTEST_FILL_MODEL must be one of")) {
+      pass("Correctly rejected unknown fill model");
+    } else {
+      fail(`Wrong error message: ${error.message}`);
+    }
+  }
+});
@@ -0,0 +1,267 @@
+import { test } from "worker-testbed";
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addRiskSchema,
+  addStrategySchema,
+  getAveragePrice,
+  getStrategyParams,
+  Optimizer,
+} from "../../build/index.mjs";
+
+// Параметры стратегии и поиск по ним: каждый набор значений регистрируется
+// производной стратегией, значения читаются через getStrategyParams внутри getSignal.
+// Цена растет на 10 в минуту: long закрывается по тейку, short по стопу.
+
+const alignTimestamp = (timestampMs, intervalMinutes) => {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  return Math.floor(timestampMs / intervalMs) * intervalMs;
+};
+
+const ADD_RISING_EXCHANGE_FN = (exchangeName) => {
+  const startTime = new Date("2024-01-01T00:00:00Z").getTime();
+  const intervalMs = 60000;
+  const basePrice = 42000;
+  addExchangeSchema({
+    exchangeName,
+    getCandles: async (_symbol, _interval, since, limit) => {
+      const alignedSince = alignTimestamp(since.getTime(), 1);
+      const result = [];
+      for (let i = 0; i < limit; i++) {
+        const timestamp = alignedSince + i * intervalMs;
+        const price = basePrice + ((timestamp - startTime) / intervalMs) * 10;
+        result.push({
+          timestamp,
+          open: price,
+          high: price + 5,
+          low: price - 5,
+          close: price,
+          volume: 100,
+        });
+      }
+      return result;
+    },
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+};
+
+const GET_SIGNAL_FN = (seen) => async () => {
+  const { position, takeProfit } = await getStrategyParams();
+  seen.add(`${position}:${takeProfit}`);
+  const price = await getAveragePrice("BTCUSDT");
+  return position === "long"
+    ? {
+        position: "long",
+        priceOpen: price,
+        priceTakeProfit: price + takeProfit,
+        priceStopLoss: price - 1_000,
+        minuteEstimatedTime: 60,
+      }
+    : {
+        position: "short",
+        priceOpen: price,
+        priceTakeProfit: price - 1_000,
+        priceStopLoss: price + takeProfit,
+        minuteEstimatedTime: 60,
+      };
+};
+
+test("Optimizer grid runs every parameter combination and ranks them by metric", async ({ pass, fail }) => {
+  const seen = new Set();
+
+  ADD_RISING_EXCHANGE_FN("binance-mock-params-grid");
+
+  addStrategySchema({
+    strategyName: "test-strategy-params-grid",
+    interval: "1m",
+    params: {
+      position: { type: "choice", values: ["short", "long"], default: "short" },
+      takeProfit: { type: "integer", min: 30, max: 60, step: 30, default: 30 },
+    },
+    getSignal: GET_SIGNAL_FN(seen),
+  });
+
+  addFrameSchema({
+    frameName: "2h-backtest-params-grid",
+    interval: "1m",
+    startDate: new Date("2024-01-01T00:00:00Z"),
+    endDate: new Date("2024-01-01T02:00:00Z"),
+  });
+
+  const result = await Optimizer.run("BTCUSDT", {
+    strategyName: "test-strategy-params-grid",
+    exchangeName: "binance-mock-params-grid",
+    frameName: "2h-backtest-params-grid",
+  }, { method: "grid", metric: "totalPnl", concurrency: 2 });
+
+  if (result.totalCandidates !== 4 || seen.size !== 4) {
+    fail(`expected 4 combinations to run, got totalCandidates=${result.totalCandidates} seen=${[...seen]}`);
+    return;
+  }
+
+  if (result.bestParams?.position !== "long") {
+    fail(`expected a long combination to win on rising prices, got ${JSON.stringify(result.bestParams)}`);
+    return;
+  }
+
+  if (result.candidates[0].strategyName !== result.bestStrategy || result.candidates[0].rank !== 1) {
+    fail(`expected the best strategy to lead the leaderboard, got ${result.candidates[0].strategyName}`);
+    return;
+  }
+
+  const [longLast] = result.candidates
+    .filter(({ params }) => params.position === "long")
+    .map(({ rank }) => rank)
+    .sort((a, b) => b - a);
+  if (longLast !== 2) {
+    fail(`expected both long combinations to rank above the short ones, got last long rank ${longLast}`);
+    return;
+  }
+
+  const report = await Optimizer.getReport(result);
+  if (!report.includes("| Rank | position | takeProfit | totalPnl |")) {
+    fail("expected the leaderboard to have a column per parameter");
+    return;
+  }
+
+  if (result.overfitting.trials !== 4 || result.overfitting.strategyName !== result.bestStrategy) {
+    fail(`expected overfitting diagnostics over 4 trials of the winner, got ${JSON.stringify(result.overfitting)}`);
+    return;
+  }
+
+  if (!report.includes("## Overfitting Diagnostics")) {
+    fail("expected the report to include the overfitting section");
+    return;
+  }
+
+  pass(`grid winner ${result.bestStrategy} totalPnl=${result.bestMetric}`);
+});
+
+test("Optimizer halving promotes the best seeded candidates to the full frame", async ({ pass, fail }) => {
+  const seen = new Set();
+
+  ADD_RISING_EXCHANGE_FN("binance-mock-params-halving");
+
+  addStrategySchema({
+    strategyName: "test-strategy-params-halving",
+    interval: "1m",
+    params: {
+      position: { type: "choice", values: ["short", "long"], default: "long" },
+      takeProfit: { type: "integer", min: 20, max: 80, default: 30 },
+    },
+    getSignal: GET_SIGNAL_FN(seen),
+  });
+
+  addFrameSchema({
+    frameName: "3h-backtest-params-halving",
+    interval: "1m",
+    startDate: new Date("2024-01-01T00:00:00Z"),
+    endDate: new Date("2024-01-01T03:00:00Z"),
+  });
+
+  const context = {
+    strategyName: "test-strategy-params-halving",
+    exchangeName: "binance-mock-params-halving",
+    frameName: "3h-backtest-params-halving",
+  };
+
+  const result = await Optimizer.run("BTCUSDT", context, {
+    method: "halving",
+    metric: "totalPnl",
+    trials: 9,
+    eta: 3,
+    seed: 7,
+  });
+
+  const rungCounts = [0, 1, 2].map((rung) => result.candidates.filter((candidate) => candidate.rung === rung).length);
+  if (result.totalCandidates !== 9 || rungCounts.join(",") !== "6,2,1") {
+    fail(`expected 9 -> 3 -> 1 candidates per rung, got ${rungCounts.join(",")} of ${result.totalCandidates}`);
+    return;
+  }
+
+  if (result.candidates[0].rung !== 2 || result.bestStrategy !== result.candidates[0].strategyName) {
+    fail(`expected the full frame survivor to win, got ${result.bestStrategy}`);
+    return;
+  }
+
+  const repeat = await Optimizer.run("BTCUSDT", context, {
+    method: "halving",
+    metric: "totalPnl",
+    trials: 9,
+    eta: 3,
+    seed: 7,
+  });
+
+  const names = (list) => list.map(({ strategyName }) => strategyName).sort().join(";");
+  if (names(repeat.candidates) !== names(result.candidates)) {
+    fail("expected the same seed to sample the same candidates");
+    return;
+  }
+
+  pass(`halving winner ${result.bestStrategy}`);
+});
+
+test("Optimizer runs variants with a shared risk profile one at a time", async ({ pass, fail }) => {
+  const seen = new Set();
+  const foreign = new Set();
+
+  ADD_RISING_EXCHANGE_FN("binance-mock-params-risk");
+
+  // Профиль риска общий для всех производных стратегий: параллельные прогоны
+  // видели бы позиции друг друга в activePositions
+  addRiskSchema({
+    riskName: "test-risk-params-shared",
+    validations: [
+      {
+        validate: ({ strategyName, activePositions }) => {
+          activePositions
+            .filter((position) => position.strategyName !== strategyName)
+            .forEach((position) => foreign.add(position.strategyName));
+        },
+      },
+    ],
+  });
+
+  addStrategySchema({
+    strategyName: "test-strategy-params-risk",
+    interval: "1m",
+    riskName: "test-risk-params-shared",
+    params: {
+      position: { type: "choice", values: ["short", "long"], default: "short" },
+      takeProfit: { type: "integer", min: 30, max: 60, step: 30, default: 30 },
+    },
+    getSignal: GET_SIGNAL_FN(seen),
+  });
+
+  addFrameSchema({
+    frameName: "2h-backtest-params-risk",
+    interval: "1m",
+    startDate: new Date("2024-01-01T00:00:00Z"),
+    endDate: new Date("2024-01-01T02:00:00Z"),
+  });
+
+  const result = await Optimizer.run("BTCUSDT", {
+    strategyName: "test-strategy-params-risk",
+    exchangeName: "binance-mock-params-risk",
+    frameName: "2h-backtest-params-risk",
+  }, { method: "grid", metric: "totalPnl", concurrency: 4 });
+
+  if (result.totalCandidates !== 4 || seen.size !== 4) {
+    fail(`expected 4 combinations to run, got totalCandidates=${result.totalCandidates} seen=${[...seen]}`);
+    return;
+  }
+
+  if (foreign.size) {
+    fail(`expected no positions of other variants in the risk profile, got ${[...foreign]}`);
+    return;
+  }
+
+  if (result.bestParams?.position !== "long") {
+    fail(`expected a long combination to win on rising prices, got ${JSON.stringify(result.bestParams)}`);
+    return;
+  }
+
+  pass(`winner ${result.bestStrategy} with sequential risk checks`);
+});
@@ -0,0 +1,304 @@
+import { test } from "worker-testbed";
+
+import {
+  addRiskSchema,
+  addExchangeSchema,
+  lib,
+  RiskValidation,
+  runInMockContext,
+} from "../../build/index.mjs";
+
+// Готовые валидации RiskValidation проверяются прямым вызовом validate на
+// синтетическом payload. История закрытых сигналов подается через source,
+// поэтому Storage.enable() в этих тестах не нужен.
+
+const NOW = new Date("2024-01-03T12:00:00Z").getTime();
+const MIN = 60_000;
+
+const CREATE_POSITION_FN = (symbol, position, cost = 100) => ({
+  strategyName: "other-strategy",
+  exchangeName: "binance",
+  frameName: "",
+  symbol,
+  position,
+  priceOpen: 100,
+  priceStopLoss: 95,
+  priceTakeProfit: 110,
+  minuteEstimatedTime: 60,
+  openTimestamp: NOW - 10 * MIN,
+  cost,
+});
+
+const CREATE_PAYLOAD_FN = ({ activePositions = [], currentSignal = {} } = {}) => ({
+  symbol: "BTCUSDT",
+  strategyName: "test-strategy",
+  exchangeName: "binance",
+  frameName: "",
+  riskName: "test-risk",
+  currentPrice: 100,
+  timestamp: NOW,
+  backtest: false,
+  currentSignal: {
+    position: "long",
+    priceOpen: 100,
+    priceStopLoss: 95,
+    priceTakeProfit: 110,
+    cost: 100,
+    ...currentSignal,
+  },
+  activePositionCount: activePositions.length,
+  activePositions,
+});
+
+const CREATE_CLOSED_FN = (closeTimestamp, pnlPercentage, strategyName = "test-strategy") => ({
+  status: "closed",
+  strategyName,
+  exchangeName: "binance",
+  frameName: "",
+  symbol: "BTCUSDT",
+  closeTimestamp,
+  pnl: { pnlPercentage, pnlCost: pnlPercentage },
+});
+
+test("RiskValidation.maxConcurrentPositions rejects at the limit with an id and note", async ({ pass, fail }) => {
+  const { validate } = RiskValidation.maxConcurrentPositions({ max: 2 });
+
+  const allowed = await validate(CREATE_PAYLOAD_FN({
+    activePositions: [CREATE_POSITION_FN("ETHUSDT", "long")],
+  }));
+  const rejected = await validate(CREATE_PAYLOAD_FN({
+    activePositions: [CREATE_POSITION_FN("ETHUSDT", "long"), CREATE_POSITION_FN("SOLUSDT", "short")],
+  }));
+
+  if (allowed) {
+    fail(`expected one position to pass, got ${JSON.stringify(allowed)}`);
+    return;
+  }
+
+  if (rejected?.id !== "max-concurrent-positions" || !rejected.note.includes("2")) {
+    fail(`expected max-concurrent-positions rejection, got ${JSON.stringify(rejected)}`);
+    return;
+  }
+
+  pass(rejected.note);
+});
+
+test("RiskValidation.maxPositionsPerSymbol and maxPositionsPerDirection count matching positions", async ({ pass, fail }) => {
+  const perSymbol = RiskValidation.maxPositionsPerSymbol({ max: 1 });
+  const perDirection = RiskValidation.maxPositionsPerDirection({ max: 2 });
+
+  const activePositions = [
+    CREATE_POSITION_FN("ETHUSDT", "long"),
+    CREATE_POSITION_FN("SOLUSDT", "long"),
+  ];
+
+  if (await perSymbol.validate(CREATE_PAYLOAD_FN({ activePositions }))) {
+    fail("expected no BTCUSDT positions to pass the per-symbol limit");
+    return;
+  }
+
+  const symbolRejection = await perSymbol.validate(CREATE_PAYLOAD_FN({
+    activePositions: [CREATE_POSITION_FN("BTCUSDT", "short")],
+  }));
+  if (symbolRejection?.id !== "max-positions-per-symbol") {
+    fail(`expected max-positions-per-symbol rejection, got ${JSON.stringify(symbolRejection)}`);
+    return;
+  }
+
+  const directionRejection = await perDirection.validate(CREATE_PAYLOAD_FN({ activePositions }));
+  if (directionRejection?.id !== "max-positions-per-direction") {
+    fail(`expected two longs to reject a third, got ${JSON.stringify(directionRejection)}`);
+    return;
+  }
+
+  if (await perDirection.validate(CREATE_PAYLOAD_FN({ activePositions, currentSignal: { position: "short" } }))) {
+    fail("expected a short to pass with only longs open");
+    return;
+  }
+
+  pass(`${symbolRejection.note}; ${directionRejection.note}`);
+});
+
+test("RiskValidation.dailyLossLimit sums today's closed signals only", async ({ pass, fail }) => {
+  const yesterday = NOW - 24 * 60 * MIN;
+  const source = async () => [
+    CREATE_CLOSED_FN(yesterday, -10),
+    CREATE_CLOSED_FN(NOW - 60 * MIN, -2),
+    CREATE_CLOSED_FN(NOW - 30 * MIN, -1.5),
+    // закрыт после момента проверки: не учитывается
+    CREATE_CLOSED_FN(NOW + 30 * MIN, -50),
+  ];
+
+  const loose = RiskValidation.dailyLossLimit({ maxLossPercent: 5, source });
+  const strict = RiskValidation.dailyLossLimit({ maxLossPercent: 3, source });
+
+  if (await loose.validate(CREATE_PAYLOAD_FN())) {
+    fail("expected 3.5% loss to pass a 5% limit");
+    return;
+  }
+
+  const rejection = await strict.validate(CREATE_PAYLOAD_FN());
+  if (rejection?.id !== "daily-loss-limit" || !rejection.note.includes("3.50%")) {
+    fail(`expected daily-loss-limit rejection at 3.50%, got ${JSON.stringify(rejection)}`);
+    return;
+  }
+
+  pass(rejection.note);
+});
+
+test("RiskValidation.weeklyLossLimit counts the whole UTC week", async ({ pass, fail }) => {
+  // NOW - среда, понедельник той же недели входит в окно
+  const monday = new Date("2024-01-01T08:00:00Z").getTime();
+  const source = async () => [
+    CREATE_CLOSED_FN(monday, -4),
+    CREATE_CLOSED_FN(NOW - 60 * MIN, -2),
+  ];
+
+  const rejection = await RiskValidation.weeklyLossLimit({ maxLossCost: 5, source })
+    .validate(CREATE_PAYLOAD_FN());
+
+  if (rejection?.id !== "weekly-loss-limit") {
+    fail(`expected weekly-loss-limit rejection, got ${JSON.stringify(rejection)}`);
+    return;
+  }
+
+  pass(rejection.note);
+});
+
+test("RiskValidation.lossStreakCooldown pauses after consecutive losses", async ({ pass, fail }) => {
+  const source = async () => [
+    CREATE_CLOSED_FN(NOW - 120 * MIN, 3),
+    CREATE_CLOSED_FN(NOW - 90 * MIN, -1),
+    CREATE_CLOSED_FN(NOW - 60 * MIN, -1),
+    CREATE_CLOSED_FN(NOW - 30 * MIN, -1),
+    // убыток другой стратегии не продлевает серию при scope "strategy"
+    CREATE_CLOSED_FN(NOW - 10 * MIN, -1, "other-strategy"),
+  ];
+
+  const cooling = RiskValidation.lossStreakCooldown({ losses: 3, cooldownMinutes: 60, source });
+  const expired = RiskValidation.lossStreakCooldown({ losses: 3, cooldownMinutes: 20, source });
+  const longer = RiskValidation.lossStreakCooldown({ losses: 4, cooldownMinutes: 60, source });
+
+  const rejection = await cooling.validate(CREATE_PAYLOAD_FN());
+  if (rejection?.id !== "loss-streak-cooldown") {
+    fail(`expected loss-streak-cooldown rejection, got ${JSON.stringify(rejection)}`);
+    return;
+  }
+
+  if (await expired.validate(CREATE_PAYLOAD_FN())) {
+    fail("expected the cooldown to expire 20 minutes after the last loss");
+    return;
+  }
+
+  if (await longer.validate(CREATE_PAYLOAD_FN())) {
+    fail("expected a 3-loss streak to pass a 4-loss rule");
+    return;
+  }
+
+  pass(rejection.note);
+});
+
+test("RiskValidation.maxExposurePerSymbol adds the signal cost to open positions", async ({ pass, fail }) => {
+  const { validate } = RiskValidation.maxExposurePerSymbol({ maxCost: 250 });
+
+  const activePositions = [
+    CREATE_POSITION_FN("BTCUSDT", "long", 100),
+    CREATE_POSITION_FN("ETHUSDT", "long", 1_000),
+  ];
+
+  if (await validate(CREATE_PAYLOAD_FN({ activePositions }))) {
+    fail("expected $200 BTCUSDT exposure to pass a $250 limit");
+    return;
+  }
+
+  const rejection = await validate(CREATE_PAYLOAD_FN({ activePositions, currentSignal: { cost: 200 } }));
+  if (rejection?.id !== "max-exposure-per-symbol" || !rejection.note.includes("300.00")) {
+    fail(`expected $300 exposure rejection, got ${JSON.stringify(rejection)}`);
+    return;
+  }
+
+  pass(rejection.note);
+});
+
+test("RiskValidation.minRewardRisk compares take profit and stop loss distances", async ({ pass, fail }) => {
+  const { validate } = RiskValidation.minRewardRisk({ ratio: 1.5 });
+
+  if (await validate(CREATE_PAYLOAD_FN())) {
+    fail("expected reward 10 / risk 5 to pass a 1.5 ratio");
+    return;
+  }
+
+  const rejection = await validate(CREATE_PAYLOAD_FN({ currentSignal: { priceTakeProfit: 105 } }));
+  if (rejection?.id !== "min-reward-risk") {
+    fail(`expected min-reward-risk rejection, got ${JSON.stringify(rejection)}`);
+    return;
+  }
+
+  pass(rejection.note);
+});
+
+test("RiskValidation factories throw on invalid parameters", async ({ pass, fail }) => {
+  const cases = [
+    () => RiskValidation.maxConcurrentPositions({ max: 0 }),
+    () => RiskValidation.dailyLossLimit({}),
+    () => RiskValidation.lossStreakCooldown({ losses: 2.5, cooldownMinutes: 10 }),
+    () => RiskValidation.minRewardRisk({ ratio: -1 }),
+  ];
+
+  for (const create of cases) {
+    try {
+      create();
+      fail(`expected ${create.toString()} to throw`);
+      return;
+    } catch {
+      continue;
+    }
+  }
+
+  pass("invalid parameters rejected");
+});
+
+test("RiskValidation works inside addRiskSchema and reports the note", async ({ pass, fail }) => {
+  await runInMockContext(async () => {
+    addRiskSchema({
+      riskName: "test-risk-validation-schema",
+      validations: [RiskValidation.minRewardRisk({ ratio: 3 })],
+    });
+
+    addExchangeSchema({
+      exchangeName: "binance-risk-validation",
+      getCandles: async () => [],
+      formatPrice: async (_symbol, p) => p.toFixed(8),
+      formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+    });
+
+    const result = await lib.riskGlobalService.checkSignal(
+      {
+        symbol: "BTCUSDT",
+        strategyName: "test-strategy-risk-validation",
+        currentSignal: {
+          position: "long",
+          priceOpen: 100,
+          priceStopLoss: 95,
+          priceTakeProfit: 110,
+        },
+        exchangeName: "binance-risk-validation",
+        currentPrice: 100,
+        timestamp: Date.now(),
+      },
+      {
+        riskName: "test-risk-validation-schema",
+        exchangeName: "binance-risk-validation",
+        frameName: "",
+        backtest: false,
+      }
+    );
+
+    if (result) {
+      fail("expected reward/risk 2 to be rejected by a ratio of 3");
+      return;
+    }
+
+    pass("reward/risk 2 rejected by the schema validation");
+  }, { exchangeName: "binance-risk-validation" });
+});
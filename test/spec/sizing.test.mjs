@@ -2,9 +2,22 @@ import { test } from "worker-testbed";
 
 import {
   addSizingSchema,
+  addExchangeSchema,
   PositionSize,
+  runInMockContext,
 } from "../../build/index.mjs";
 
+// Closes alternate 100 / 102 by candle index: realized volatility is constant and non-zero
+const VOLATILITY_CANDLES_FN = async (_symbol, interval, since, limit) => {
+  const step = interval === "1h" ? 3_600_000 : 60_000;
+  const alignedSince = Math.floor(since.getTime() / step) * step;
+  return Array.from({ length: limit }, (_, i) => {
+    const timestamp = alignedSince + i * step;
+    const close = (timestamp / step) % 2 === 0 ? 100 : 102;
+    return { timestamp, open: close, high: close, low: close, close, volume: 100 };
+  });
+};
+
 test("PositionSize.fixedPercentage calculates position size", async ({ pass, fail }) => {
 
   addSizingSchema({
@@ -442,3 +455,101 @@ test("PositionSize.atrBased throws on zero atrMultiplier", async ({ pass, fail }
   }
 
 });
+
+test("PositionSize.volatilityTarget scales with the volatility target", async ({ pass, fail }) => {
+
+  addExchangeSchema({
+    exchangeName: "test-volatility-exchange",
+    getCandles: VOLATILITY_CANDLES_FN,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addSizingSchema({
+    sizingName: "test-volatility-target-20",
+    method: "volatility-target",
+    targetVolatility: 20,
+    lookback: 24,
+    interval: "1h",
+  });
+
+  addSizingSchema({
+    sizingName: "test-volatility-target-40",
+    method: "volatility-target",
+    targetVolatility: 40,
+    lookback: 24,
+    interval: "1h",
+  });
+
+  const [low, high] = await runInMockContext(async () => [
+    await PositionSize.volatilityTarget("BTCUSDT", 10000, 100, { sizingName: "test-volatility-target-20" }),
+    await PositionSize.volatilityTarget("BTCUSDT", 10000, 100, { sizingName: "test-volatility-target-40" }),
+  ], {
+    exchangeName: "test-volatility-exchange",
+    backtest: true,
+    when: new Date("2024-01-02T00:00:00Z"),
+  });
+
+  if (low > 0 && Math.abs(high / low - 2) < 1e-9) {
+    pass(`Volatility target sizing: ${low} at 20%, ${high} at 40%`);
+    return;
+  }
+
+  fail(`Expected quantity to double with the target, got ${low} and ${high}`);
+
+});
+
+test("PositionSize.riskParity gives the whole account to the only symbol", async ({ pass, fail }) => {
+
+  addExchangeSchema({
+    exchangeName: "test-parity-exchange",
+    getCandles: VOLATILITY_CANDLES_FN,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+  });
+
+  addSizingSchema({
+    sizingName: "test-risk-parity",
+    method: "risk-parity",
+    lookback: 24,
+    interval: "1h",
+  });
+
+  const quantity = await runInMockContext(
+    async () => await PositionSize.riskParity("BTCUSDT", 10000, 50000, { sizingName: "test-risk-parity" }),
+    {
+      exchangeName: "test-parity-exchange",
+      frameName: "test-parity-frame",
+      backtest: true,
+      when: new Date("2024-01-02T00:00:00Z"),
+    },
+  );
+
+  if (Math.abs(quantity - 0.2) < 1e-9) {
+    pass(`Risk parity with no held positions: ${quantity}`);
+    return;
+  }
+
+  fail(`Expected 10000 / 50000 = 0.2, got ${quantity}`);
+
+});
+
+test("addSizing throws on volatility-target without targetVolatility", async ({ pass, fail }) => {
+
+  try {
+    addSizingSchema({
+      sizingName: "test-volatility-target-invalid",
+      method: "volatility-target",
+      lookback: 24,
+      interval: "1h",
+    });
+    fail("Did not throw on missing targetVolatility");
+  } catch (error) {
+    if (error.message.includes("targetVolatility")) {
+      pass("Correctly threw error on missing targetVolatility");
+      return;
+    }
+    fail(`Unexpected error message: ${error.message}`);
+  }
+
+});
@@ -1035,3 +1035,275 @@ test("doneWalkerSubject.toPromise() resolves after Walker.background", async ({
   }
 
 });
+
+test("walkForward picks the train window winner and runs it out-of-sample", async ({ pass, fail }) => {
+
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const startTime = new Date("2024-01-01T00:00:00Z").getTime();
+  const intervalMs = 60000;
+  const basePrice = 42000;
+
+  // Price rises 10 per minute: longs hit take profit, shorts hit stop loss
+  addExchangeSchema({
+    exchangeName: "binance-mock-walker-wf",
+    getCandles: async (_symbol, _interval, since, limit) => {
+      const alignedSince = alignTimestamp(since.getTime(), 1);
+      const result = [];
+      for (let i = 0; i < limit; i++) {
+        const timestamp = alignedSince + i * intervalMs;
+        const price = basePrice + ((timestamp - startTime) / intervalMs) * 10;
+        result.push({
+          timestamp,
+          open: price,
+          high: price + 5,
+          low: price - 5,
+          close: price,
+          volume: 100,
+        });
+      }
+      return result;
+    },
+    formatPrice: async (symbol, price) => {
+      return price.toFixed(8);
+    },
+    formatQuantity: async (symbol, quantity) => {
+      return quantity.toFixed(8);
+    },
+  });
+
+  addStrategySchema({
+    strategyName: "test-strategy-walker-wf-long",
+    interval: "1m",
+    getSignal: async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      return {
+        position: "long",
+        priceOpen: price,
+        priceTakeProfit: price + 30,
+        priceStopLoss: price - 1_000,
+        minuteEstimatedTime: 60,
+      };
+    },
+  });
+
+  addStrategySchema({
+    strategyName: "test-strategy-walker-wf-short",
+    interval: "1m",
+    getSignal: async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      return {
+        position: "short",
+        priceOpen: price,
+        priceTakeProfit: price - 1_000,
+        priceStopLoss: price + 30,
+        minuteEstimatedTime: 60,
+      };
+    },
+  });
+
+  addFrameSchema({
+    frameName: "4h-backtest-walker-wf",
+    interval: "1m",
+    startDate: new Date("2024-01-01T00:00:00Z"),
+    endDate: new Date("2024-01-01T04:00:00Z"),
+  });
+
+  addWalkerSchema({
+    walkerName: "test-walker-wf",
+    exchangeName: "binance-mock-walker-wf",
+    frameName: "4h-backtest-walker-wf",
+    strategies: ["test-strategy-walker-wf-short", "test-strategy-walker-wf-long"],
+    metric: "totalPnl",
+    walkForward: {
+      mode: "rolling",
+      trainMinutes: 60,
+      testMinutes: 60,
+    },
+  });
+
+  const unsubscribe = listenWalkerComplete((event) => {
+    if (event.walkerName === "test-walker-wf") {
+      resolve(event);
+      unsubscribe();
+    }
+  });
+
+  Walker.background("BTCUSDT", {
+    walkerName: "test-walker-wf",
+  });
+
+  const { walkForward } = await awaiter;
+
+  if (!walkForward || walkForward.windows.length !== 3) {
+    fail(`expected 3 walk-forward windows, got ${walkForward?.windows.length}`);
+    return;
+  }
+
+  const [first] = walkForward.windows;
+  if (first.trainFrameName !== "4h-backtest-walker-wf-wf1-train" || first.testStart !== startTime + 60 * intervalMs) {
+    fail(`unexpected first window ${first.trainFrameName} testStart=${first.testStart}`);
+    return;
+  }
+
+  if (walkForward.windows.some(({ bestStrategy, oosStats }) => bestStrategy !== "test-strategy-walker-wf-long" || !oosStats)) {
+    fail(`expected the long strategy to win every train window, got ${walkForward.windows.map(({ bestStrategy }) => bestStrategy)}`);
+    return;
+  }
+
+  if (!walkForward.totalSignals || walkForward.totalPnl === null || walkForward.totalPnl <= 0) {
+    fail(`expected profitable stitched OOS signals, got totalSignals=${walkForward.totalSignals} totalPnl=${walkForward.totalPnl}`);
+    return;
+  }
+
+  const markdown = await Walker.getReport("BTCUSDT", { walkerName: "test-walker-wf" });
+  if (!markdown.includes("## Walk-Forward Analysis")) {
+    fail("expected walk-forward section in the walker report");
+    return;
+  }
+
+  pass(`WFE=${walkForward.walkForwardEfficiency} degradation=${walkForward.degradation}`);
+
+});
+
+test("Walker significance names a winner only where the lead holds", async ({ pass, fail }) => {
+
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const startTime = new Date("2024-01-01T00:00:00Z").getTime();
+  const intervalMs = 60000;
+  const basePrice = 42000;
+
+  // Price rises 10 per minute: longs hit take profit, shorts hit stop loss
+  addExchangeSchema({
+    exchangeName: "binance-mock-walker-significance",
+    getCandles: async (_symbol, _interval, since, limit) => {
+      const alignedSince = alignTimestamp(since.getTime(), 1);
+      const result = [];
+      for (let i = 0; i < limit; i++) {
+        const timestamp = alignedSince + i * intervalMs;
+        const price = basePrice + ((timestamp - startTime) / intervalMs) * 10;
+        result.push({
+          timestamp,
+          open: price,
+          high: price + 5,
+          low: price - 5,
+          close: price,
+          volume: 100,
+        });
+      }
+      return result;
+    },
+    formatPrice: async (symbol, price) => {
+      return price.toFixed(8);
+    },
+    formatQuantity: async (symbol, quantity) => {
+      return quantity.toFixed(8);
+    },
+  });
+
+  // Alternating distances give the per-trade PNL some dispersion
+  const CREATE_GET_SIGNAL_FN = (position) => {
+    let count = 0;
+    return async () => {
+      const price = await getAveragePrice("BTCUSDT");
+      const distance = count++ % 2 ? 200 : 100;
+      return position === "long"
+        ? {
+            position: "long",
+            priceOpen: price,
+            priceTakeProfit: price + distance,
+            priceStopLoss: price - 5_000,
+            minuteEstimatedTime: 120,
+          }
+        : {
+            position: "short",
+            priceOpen: price,
+            priceTakeProfit: price - 5_000,
+            priceStopLoss: price + distance,
+            minuteEstimatedTime: 120,
+          };
+    };
+  };
+
+  addStrategySchema({
+    strategyName: "test-strategy-walker-significance-short",
+    interval: "1m",
+    getSignal: CREATE_GET_SIGNAL_FN("short"),
+  });
+
+  addStrategySchema({
+    strategyName: "test-strategy-walker-significance-long",
+    interval: "1m",
+    getSignal: CREATE_GET_SIGNAL_FN("long"),
+  });
+
+  addStrategySchema({
+    strategyName: "test-strategy-walker-significance-twin",
+    interval: "1m",
+    getSignal: CREATE_GET_SIGNAL_FN("long"),
+  });
+
+  addFrameSchema({
+    frameName: "6h-backtest-walker-significance",
+    interval: "1m",
+    startDate: new Date("2024-01-01T00:00:00Z"),
+    endDate: new Date("2024-01-01T06:00:00Z"),
+  });
+
+  addWalkerSchema({
+    walkerName: "test-walker-significance",
+    exchangeName: "binance-mock-walker-significance",
+    frameName: "6h-backtest-walker-significance",
+    strategies: [
+      "test-strategy-walker-significance-short",
+      "test-strategy-walker-significance-long",
+      "test-strategy-walker-significance-twin",
+    ],
+    metric: "totalPnl",
+  });
+
+  const unsubscribe = listenWalkerComplete((event) => {
+    if (event.walkerName === "test-walker-significance") {
+      resolve(event);
+      unsubscribe();
+    }
+  });
+
+  Walker.background("BTCUSDT", {
+    walkerName: "test-walker-significance",
+  });
+
+  const { significance } = await awaiter;
+
+  if (significance.leader === "test-strategy-walker-significance-short" || significance.comparisons.length !== 2) {
+    fail(`expected a long leader compared with 2 strategies, got ${significance.leader}`);
+    return;
+  }
+
+  const short = significance.comparisons.find(({ strategyName }) => strategyName === "test-strategy-walker-significance-short");
+  if (!short?.significant || short.welchPValue === null || short.welchPValue >= significance.alpha) {
+    fail(`expected the lead over the losing short strategy to be significant, got ${JSON.stringify(short)}`);
+    return;
+  }
+
+  const twin = significance.comparisons.find(({ strategyName }) => strategyName !== "test-strategy-walker-significance-short");
+  if (twin?.significant !== false) {
+    fail(`expected the lead over the identical long strategy to be noise, got ${JSON.stringify(twin)}`);
+    return;
+  }
+
+  if (significance.winner !== null) {
+    fail(`expected no winner when the lead does not hold against every strategy, got ${significance.winner}`);
+    return;
+  }
+
+  const markdown = await Walker.getReport("BTCUSDT", { walkerName: "test-walker-significance" });
+  if (!markdown.includes("## Statistical Significance") || !markdown.includes("**Winner:** none")) {
+    fail("expected the significance section without a winner in the walker report");
+    return;
+  }
+
+  pass(`short p=${short.welchPValue} twin p=${twin.welchPValue}`);
+
+});
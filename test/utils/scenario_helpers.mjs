@@ -0,0 +1,93 @@
+// Shared fixture for the single-signal e2e scenarios (fill, fee, slippage,
+// liquidation, funding, liquidity, latency, gap, tick). Each scenario registers
+// its own exchange, strategy and frame, emits one signal and waits for it to close.
+
+import {
+  addExchangeSchema,
+  addFrameSchema,
+  addStrategySchema,
+  Backtest,
+  listenDoneBacktest,
+  listenExit,
+  listenSignalBacktest,
+} from "../../build/index.mjs";
+
+import { createAwaiter } from "functools-kit";
+
+const MIN = 60_000;
+
+export const SCENARIO_START = new Date("2024-01-01T00:00:00Z").getTime();
+
+/**
+ * Runs one signal through a one-day BTCUSDT backtest and resolves with its
+ * closed event.
+ *
+ * Schemas are named `<name>-exchange-<suffix>`, `<name>-strategy-<suffix>` and
+ * `<name>-frame-<suffix>`. `exchange` and `strategy` extend the defaults with
+ * whatever the scenario exercises (getFee, slippage, latency, fillModel, ...).
+ *
+ * Resolves null when the backtest finishes or exits with an error before the
+ * signal closes, so a regression fails one test instead of hanging the run.
+ */
+export const runSignalScenario = async ({ name, suffix, getCandles, signal, exchange = {}, strategy = {} }) => {
+  const [awaiter, { resolve }] = createAwaiter();
+
+  const exchangeName = `${name}-exchange-${suffix}`;
+  const strategyName = `${name}-strategy-${suffix}`;
+  const frameName = `${name}-frame-${suffix}`;
+
+  addExchangeSchema({
+    exchangeName,
+    getCandles,
+    formatPrice: async (_symbol, price) => price.toFixed(8),
+    formatQuantity: async (_symbol, quantity) => quantity.toFixed(8),
+    ...exchange,
+  });
+
+  let signalGenerated = false;
+
+  addStrategySchema({
+    strategyName,
+    interval: "1m",
+    ...strategy,
+    getSignal: async () => {
+      if (signalGenerated) return null;
+      signalGenerated = true;
+      return signal;
+    },
+  });
+
+  addFrameSchema({
+    frameName,
+    interval: "1d",
+    startDate: new Date(SCENARIO_START),
+    endDate: new Date(SCENARIO_START + 24 * 60 * MIN),
+  });
+
+  const unSignal = listenSignalBacktest((event) => {
+    if (event.action === "closed" && event.strategyName === strategyName) {
+      resolve(event);
+    }
+  });
+
+  const unDone = listenDoneBacktest((event) => {
+    if (event.strategyName === strategyName) {
+      resolve(null);
+    }
+  });
+
+  const unExit = listenExit(() => resolve(null));
+
+  try {
+    Backtest.background("BTCUSDT", {
+      strategyName,
+      exchangeName,
+      frameName,
+    });
+    return await awaiter;
+  } finally {
+    unSignal();
+    unDone();
+    unExit();
+  }
+};